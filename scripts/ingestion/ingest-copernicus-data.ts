@@ -38,6 +38,9 @@
  * Environment Variables:
  *   COPERNICUS_USERNAME - Copernicus Marine Service username (optional for now)
  *   COPERNICUS_PASSWORD - Copernicus Marine Service password (optional for now)
+ *   COPERNICUS_DATA_DIR - Optional: read pre-downloaded NetCDF files from this directory instead of
+ *                         calling the CLI (files for a CMEMS region may live in <dir>/<REGION>)
+ *   COPERNICUS_DATA_DATE - Optional: date to ingest (YYYY-MM-DD, default yesterday)
  *   SUPABASE_URL - Supabase project URL
  *   SUPABASE_SERVICE_ROLE_KEY - Supabase service role key
  *   FINDR_CONDITIONS_LIMIT - Optional: limit number of rectangles to process
@@ -50,10 +53,11 @@
 import { config } from 'dotenv';
 import { resolve } from 'path';
 import { createClient } from '@supabase/supabase-js';
+import { FileCopernicusProvider } from '../../src/lib/copernicus/fileClient';
 import { MockCopernicusProvider } from '../../src/lib/copernicus/mockClient';
 import { RealCopernicusProvider } from '../../src/lib/copernicus/realClient';
 import { toCopernicusMarineData } from '../../src/lib/copernicus/transformers';
-import type { CopernicusMarineSnapshot } from '../../src/lib/copernicus/types';
+import type { CopernicusMarineSnapshot, CopernicusProvider } from '../../src/lib/copernicus/types';
 
 // Load environment variables
 config({ path: resolve(process.cwd(), '.env.local') });
@@ -94,17 +98,19 @@ const COORDINATE_OVERRIDES: Record<string, { lat: number; lon: number; reason: s
   // Add more overrides here as needed
 };
 
-// Use real Copernicus client when credentials are available
-const USE_MOCK = !process.env.COPERNICUS_USERNAME || !process.env.COPERNICUS_PASSWORD;
+// Local NetCDF files take precedence; otherwise use the real client when credentials are available
+const DATA_DIR = process.env.COPERNICUS_DATA_DIR;
+const DATA_DATE = process.env.COPERNICUS_DATA_DATE;
+const USE_MOCK = !DATA_DIR && (!process.env.COPERNICUS_USERNAME || !process.env.COPERNICUS_PASSWORD);
 
 // Provider cache: reuse a single client per basin to avoid re-authentication
-const providerCache = new Map<string, RealCopernicusProvider>();
+const providerCache = new Map<string, CopernicusProvider>();
 
-function getProvider(region?: string): RealCopernicusProvider {
+function getProvider(region?: string): CopernicusProvider {
   const key = region || 'GLOBAL';
   if (!providerCache.has(key)) {
     console.log(`   🔧 Creating new provider for region: ${key}`);
-    providerCache.set(key, new RealCopernicusProvider(region));
+    providerCache.set(key, DATA_DIR ? new FileCopernicusProvider(DATA_DIR, region) : new RealCopernicusProvider(region));
   }
   return providerCache.get(key)!;
 }
@@ -176,8 +182,8 @@ async function fetchCopernicusData(
     } else {
       // Use yesterday's date for ANFC data (current day minus 1)
       // ANFC products provide analysis/forecast data with ~1 day lag
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
+      const yesterday = DATA_DATE ? new Date(`${DATA_DATE}T00:00:00Z`) : new Date();
+      if (!DATA_DATE) yesterday.setDate(yesterday.getDate() - 1);
 
       // Try regional provider first if a region is specified
       if (cmemsRegion) {
@@ -396,6 +402,8 @@ async function main() {
   if (USE_MOCK) {
     console.log('⚠️  Using MOCK data (Copernicus credentials not provided)');
     console.log('   Set COPERNICUS_USERNAME and COPERNICUS_PASSWORD for real data\n');
+  } else if (DATA_DIR) {
+    console.log(`📂 Using local NetCDF files from ${DATA_DIR}\n`);
   } else {
     console.log('✅ Using REAL Copernicus Marine Service API\n');
   }
@@ -1,6 +1,6 @@
 import * as React from 'react';
 import OptimizedImage from './OptimizedImage';
-import { AirQualityLevel, AirQualityAssessment, getAirQualityLevelDescription, assessAirQualityConditions, AirQualitySummary, getAirQualityIndex } from '../utils/airQualityUtils';
+import { AirQualityLevel, AirQualityAssessment, getAirQualityLevelDescription, assessAirQualityConditions, AirQualitySummary, getAirQualityIndex } from '../lib/weather/airQuality';
 
 interface AirQualityWarningProps {
   airQuality?: AirQualitySummary;
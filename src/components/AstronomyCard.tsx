@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import OptimizedImage from './OptimizedImage';
 import OptimizedBackgroundImage from './OptimizedBackgroundImage';
 import { WeatherData } from '../types/weatherData';
@@ -61,6 +61,9 @@ import { describeIssPass } from '../utils/issHelper';
 // import '../styles/Card.css'; // Apps must import this themselves
 import { indieFlower, oxanium } from "../app/fonts";
 import { describeClearestSkiesFromHourly } from '../lib/services/goingOutTonight';
+import { getDarkWindow, getDayEphemeris } from '../lib/astro/ephemeris';
+import { getNightSkyCalendar, type NightSkyEvent } from '../lib/astro/nightSkyCalendar';
+import { fetchTleFile } from '../lib/astro/satellites';
 
 // Astronomy highlight interfaces
 // Keeping for reference but marking with underscore since it's not used directly
@@ -75,7 +78,7 @@ interface _AstronomyEvent {
 }
 
 interface SpecialEvent {
-  type: 'meteor_shower' | 'moon_event' | 'seasonal' | 'planet' | 'eclipse';
+  type: 'meteor_shower' | 'moon_event' | 'seasonal' | 'planet' | 'eclipse' | 'satellite';
   name: string;
   description: string;
   visibility: 'excellent' | 'good' | 'fair' | 'poor';
@@ -273,6 +276,24 @@ function buildHourlyForClearSkies(weatherData: WeatherData | undefined) {
   return { time, cloudcover };
 }
 
+// Computed calendar entry in the shape the highlights API uses
+function toSpecialEvent(event: NightSkyEvent): SpecialEvent {
+  return {
+    type: event.type,
+    name: event.name,
+    description: event.description,
+    visibility: event.visibility,
+    bestTime: event.bestTime,
+    direction: event.direction,
+  };
+}
+
+// HH:MM in the location's zone for ephemeris instants
+function formatLocalTime(iso: string | undefined, timeZone: string) {
+  if (!iso) return undefined;
+  return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone });
+}
+
 // Only treat as ISO if it looks like a date string; otherwise ignore
 function toISOIfISOish(s?: string) {
   if (typeof s !== 'string') return undefined;
@@ -294,6 +315,47 @@ const AstronomyCard: React.FC<AstronomyCardProps> = ({ className = '', style = {
   // Defensive: preferences and locations
   const homeLocation = preferences?.locations?.find((l) => l.type === 'home');
 
+  // Twilight and dark window computed locally, so they show even when the highlights API is down
+  const localSky = useMemo(() => {
+    if (!homeLocation?.lat || !homeLocation?.lon) return null;
+    try {
+      const ephemeris = getDayEphemeris(homeLocation.lat, homeLocation.lon);
+      return {
+        timezone: ephemeris.timezone,
+        sun: ephemeris.sun,
+        darkWindow: getDarkWindow(homeLocation.lat, homeLocation.lon, ephemeris.localDate, { timezone: ephemeris.timezone }),
+      };
+    } catch (err) {
+      console.error('Error computing local ephemeris:', err);
+      return null;
+    }
+  }, [homeLocation?.lat, homeLocation?.lon]);
+
+  // ISS elements for local pass prediction; the calendar simply leaves satellites out without them
+  const [issTle, setIssTle] = useState<string | undefined>(undefined);
+  useEffect(() => {
+    let cancelled = false;
+    fetchTleFile()
+      .then(text => { if (!cancelled) setIssTle(text); })
+      .catch(err => console.error('Error fetching ISS elements:', err));
+    return () => { cancelled = true; };
+  }, []);
+
+  // Eclipses, meteor showers, planets and passes for tonight, ranked against the hourly cloud forecast
+  const nightSky = useMemo(() => {
+    if (!homeLocation?.lat || !homeLocation?.lon) return null;
+    try {
+      return getNightSkyCalendar(homeLocation.lat, homeLocation.lon, {
+        timezone: localSky?.timezone,
+        tle: issTle,
+        cloudCover: buildHourlyForClearSkies(weatherData) ?? undefined,
+      });
+    } catch (err) {
+      console.error('Error computing night sky calendar:', err);
+      return null;
+    }
+  }, [homeLocation?.lat, homeLocation?.lon, localSky?.timezone, issTle, weatherData]);
+
   // Defensive: interests array - marked with underscore since it's not used directly
   const _interests = Array.isArray(preferences?.interests) ? preferences.interests : [];
 
@@ -631,14 +693,22 @@ const AstronomyCard: React.FC<AstronomyCardProps> = ({ className = '', style = {
 
   // Defensive: weather data
   const cloudCover = typeof weatherData?.clouds === 'number' ? weatherData.clouds : 0;
-  const astronomyIcon = getAstronomyIcon(Array.isArray(tonight.events) ? tonight.events : [], tonight.moon.illumination, cloudCover);
   const midnightWeatherIcon = midnightWeather ? midnightWeather.weather?.[0]?.icon + '.svg' : getMidnightWeatherIcon(weatherData);
 
-  // Defensive: primary event
-  const eventsArr = Array.isArray(tonight.events) ? tonight.events : [];
-  const primaryEvent = eventsArr.find(e => e.type === 'eclipse') ||
-                      eventsArr.find(e => e.type === 'meteor_shower') ||
-                      eventsArr[0];
+  // Defensive: primary event. Computed events come first (already ranked), API extras after
+  const computedEvents = (nightSky?.events ?? []).map(toSpecialEvent);
+  const computedNames = computedEvents.map(e => e.name.toLowerCase());
+  const eventsArr = [
+    ...computedEvents,
+    // The API says "Perseids Meteor Shower" where the calendar says "Perseids"
+    ...(Array.isArray(tonight.events) ? tonight.events : [])
+      .filter(e => !computedNames.some(n => e.name.toLowerCase().includes(n))),
+  ];
+  const viewableEvents = eventsArr.filter(e => e.visibility !== 'poor');
+  const primaryEvent = viewableEvents.find(e => e.type === 'eclipse') ||
+                      viewableEvents.find(e => e.type === 'meteor_shower') ||
+                      viewableEvents[0];
+  const astronomyIcon = getAstronomyIcon(viewableEvents, tonight.moon.illumination, cloudCover);
 
   // Defensive: stargazing score
   const moonIllum = typeof tonight.moon.illumination === 'number' ? tonight.moon.illumination : 0;
@@ -650,9 +720,12 @@ const AstronomyCard: React.FC<AstronomyCardProps> = ({ className = '', style = {
 
   // "Clearest skies" message using hourly cloud cover (prefers dark window if provided)
   const hourlyForClear = buildHourlyForClearSkies(weatherData);
-  const tzGuess = (Intl.DateTimeFormat().resolvedOptions().timeZone) || 'UTC';
-  const windowStartISO = toISOIfISOish(tonight?.darkWindow?.start);
-  const windowEndISO = toISOIfISOish(tonight?.darkWindow?.end);
+  const tzGuess = localSky?.timezone || (Intl.DateTimeFormat().resolvedOptions().timeZone) || 'UTC';
+  const windowStartISO = toISOIfISOish(tonight?.darkWindow?.start) ?? localSky?.darkWindow?.startISO;
+  const windowEndISO = toISOIfISOish(tonight?.darkWindow?.end) ?? localSky?.darkWindow?.endISO;
+  const goldenHourStart = formatLocalTime(localSky?.sun.goldenHour.evening?.startISO, tzGuess);
+  const darkFrom = formatLocalTime(localSky?.darkWindow?.startISO, tzGuess)
+    ?? formatLocalTime(localSky?.sun.nauticalDuskISO, tzGuess);
   const clearestSkiesMsg = hourlyForClear
     ? describeClearestSkiesFromHourly(hourlyForClear, tzGuess, { windowStartISO, windowEndISO, smooth: 3 })
     : null;
@@ -884,6 +957,43 @@ const AstronomyCard: React.FC<AstronomyCardProps> = ({ className = '', style = {
               </div>
             </div>
           )}
+
+          {/* Row 4b: Golden hour | Dark from (local ephemeris) */}
+          {goldenHourStart && (
+            <div className="data-cell" style={{ padding: '4px 8px', backgroundColor: 'rgba(0,0,0,0.2)', borderRadius: '4px' }}>
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <div style={{ display: 'flex', alignItems: 'center' }}>
+                  <OptimizedImage
+                    src="/weather-icons/design/fill/final/sunset.svg"
+                    alt="Golden hour"
+                    width={25}
+                    height={25}
+                    style={{ marginRight: '4px' }}
+                  />
+                  <span style={{ fontSize: '0.8rem', fontWeight: 400 }}>Golden</span>
+                </div>
+                <span style={{ fontSize: '0.8rem', fontWeight: 400 }}>{goldenHourStart}</span>
+              </div>
+            </div>
+          )}
+
+          {darkFrom && (
+            <div className="data-cell" style={{ padding: '4px 8px', backgroundColor: 'rgba(0,0,0,0.2)', borderRadius: '4px' }}>
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <div style={{ display: 'flex', alignItems: 'center' }}>
+                  <OptimizedImage
+                    src="/weather-icons/design/fill/final/starry-night.svg"
+                    alt="Dark sky"
+                    width={25}
+                    height={25}
+                    style={{ marginRight: '4px' }}
+                  />
+                  <span style={{ fontSize: '0.8rem', fontWeight: 400 }}>Dark</span>
+                </div>
+                <span style={{ fontSize: '0.8rem', fontWeight: 400 }}>{darkFrom}</span>
+              </div>
+            </div>
+          )}
           
           {/* Row 5: Event name | Best viewing (only if primaryEvent exists) */}
           {primaryEvent && (
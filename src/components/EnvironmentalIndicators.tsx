@@ -1,8 +1,8 @@
 import React from 'react';
 import PollenWarning from './PollenWarning';
 import AirQualityWarning from './AirQualityWarning';
-import { PollenSummary } from '../utils/pollenUtils';
-import { AirQualitySummary } from '../utils/airQualityUtils';
+import { PollenSummary } from '../lib/weather/pollen';
+import { AirQualitySummary } from '../lib/weather/airQuality';
 import Image from 'next/image.js';
 
 interface EnvironmentalIndicatorsProps {
@@ -1,27 +1,19 @@
 import { useEffect, useState } from "react";
+import { getDayEphemeris } from "../lib/astro/ephemeris";
+import { ISS_TLE_URL, fetchTleFile, parseTleFile, predictPasses, type SatellitePass } from "../lib/astro/satellites";
 
 type IssWindow = {
   risetimeISO: string;
   endtimeISO: string;
   durationSec: number;
-};
-
-type NextNightPassResponse = {
-  ok: boolean;
-  pass?: {
-    risetime: string;
-    duration: number;
-    mag: number;
-    direction: string;
-    maxEl: number;
-  };
-  sunset?: string;
-  nextSunrise?: string;
-  error?: string;
+  maxElevation: number;
+  direction: string;
 };
 
 type Heartbeat = { ok: boolean; timestamp?: number; position?: { lat: number; lon: number } };
 
+const DAY_MS = 86400000;
+
 function fmtRange(startISO: string, endISO: string) {
   const s = new Date(startISO);
   const e = new Date(endISO);
@@ -29,49 +21,60 @@ function fmtRange(startISO: string, endISO: string) {
   return `${tf.format(s)}–${tf.format(e)}`;
 }
 
-export function IssCard({ lat, lon }: { lat: number; lon: number }) {
+// Visible passes from sunset until the next sunrise (or the next 24 h under the midnight sun)
+function nightPasses(tleText: string, lat: number, lon: number): IssWindow[] {
+  const now = Date.now();
+  const sunset = getDayEphemeris(lat, lon, new Date(now)).sun.sunsetISO;
+  const startMs = sunset ? Math.max(now, Date.parse(sunset)) : now;
+  const tle = parseTleFile(tleText)[0];
+  if (!tle) return [];
+  const passes: SatellitePass[] = predictPasses(tle, lat, lon, startMs, startMs + DAY_MS);
+  return passes
+    .filter(p => p.visible)
+    .map(p => ({
+      risetimeISO: p.visible!.startISO,
+      endtimeISO: p.visible!.endISO,
+      durationSec: (Date.parse(p.visible!.endISO) - Date.parse(p.visible!.startISO)) / 1000,
+      maxElevation: Math.round(p.maxElevation),
+      direction: `${p.riseDirection} → ${p.setDirection}`,
+    }));
+}
+
+export function IssCard({ lat, lon, tle, tleUrl = ISS_TLE_URL }: { lat: number; lon: number; tle?: string; tleUrl?: string }) {
   const [passes, setPasses] = useState<IssWindow[] | null>(null);
   const [hb, setHb] = useState<Heartbeat | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     let cancelled = false;
     async function run() {
       setLoading(true);
+      setError(null);
       try {
-        const [v, h] = await Promise.all([
-          fetch(`/api/iss-next-night-pass?lat=${lat}&lon=${lon}`, { cache: "no-store" })
-            .then(r => r.json() as Promise<NextNightPassResponse>),
+        const [tleText, h] = await Promise.all([
+          tle ? Promise.resolve(tle) : fetchTleFile(tleUrl),
           fetch(`/api/iss-heartbeat`, { cache: "no-store" })
             .then(r => r.json() as Promise<Heartbeat>)
             .catch(() => ({ ok: false })),
         ]);
-        
+
         if (!cancelled) {
-          // Convert from new API format to our expected format
-          if (v.ok && v.pass) {
-            const pass = v.pass;
-            const risetime = new Date(pass.risetime);
-            const endtime = new Date(risetime.getTime() + pass.duration * 1000);
-            
-            setPasses([{
-              risetimeISO: pass.risetime,
-              endtimeISO: endtime.toISOString(),
-              durationSec: pass.duration
-            }]);
-          } else {
-            setPasses([]);
-          }
-          
+          setPasses(nightPasses(tleText, lat, lon));
           setHb(h);
         }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : String(err));
+          setPasses([]);
+        }
       } finally {
         if (!cancelled) setLoading(false);
       }
     }
     run();
     return () => { cancelled = true; };
-  }, [lat, lon]);
+  }, [lat, lon, tle, tleUrl]);
 
   if (loading) return <div className="card">Checking ISS passes…</div>;
 
@@ -84,18 +87,20 @@ export function IssCard({ lat, lon }: { lat: number; lon: number }) {
         </div>
       )}
 
-      {!passes || passes.length === 0 ? (
+      {error ? (
+        <div>ISS orbit data unavailable: {error}</div>
+      ) : !passes || passes.length === 0 ? (
         <div>No decent night-time passes here tonight.</div>
       ) : (
         <ul>
           {passes.map((p, i) => (
             <li key={i}>
               <em>Look up at</em>{" "}
-              {fmtRange(p.risetimeISO, p.endtimeISO)} ({Math.round(p.durationSec / 60)} min)
+              {fmtRange(p.risetimeISO, p.endtimeISO)} ({Math.max(1, Math.round(p.durationSec / 60))} min, {p.maxElevation}° high, {p.direction})
             </li>
           ))}
         </ul>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
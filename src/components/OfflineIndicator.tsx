@@ -1,4 +1,5 @@
 import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useCatchOutbox } from '../hooks/useCatchOutbox';
 import { WifiOff, Wifi, RefreshCw, Fish, Leaf, Sun } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useEffect, useState } from 'react';
@@ -11,6 +12,7 @@ type AppContext = 'godaisy' | 'findr' | 'growdaisy';
  * Features:
  * - Shows banner when user goes offline
  * - Shows "reconnecting" banner when back online
+ * - Shows queued catches while offline and upload progress once back online
  * - Smooth animations
  * - App-aware messaging (Findr, Grow Daisy, Go Daisy)
  * - Non-intrusive (auto-hides when online)
@@ -23,6 +25,7 @@ type AppContext = 'godaisy' | 'findr' | 'growdaisy';
  */
 export const OfflineIndicator = () => {
   const { isOnline, wasOffline } = useOnlineStatus();
+  const { pending: pendingCatches, progress: catchSync } = useCatchOutbox();
   const [appContext, setAppContext] = useState<AppContext>('godaisy');
 
   // Detect app context from URL
@@ -59,6 +62,14 @@ export const OfflineIndicator = () => {
     }
   };
 
+  const getSyncMessage = () => {
+    if (catchSync.inProgress && catchSync.total > 0) {
+      const current = Math.min(catchSync.synced + catchSync.failed + 1, catchSync.total);
+      return `Syncing catches ${current} of ${catchSync.total}...`;
+    }
+    return 'Syncing your data...';
+  };
+
   const getAppIcon = () => {
     switch (appContext) {
       case 'findr':
@@ -90,13 +101,18 @@ export const OfflineIndicator = () => {
                   {getAppIcon()}
                   {getOfflineMessage()}
                 </p>
+                {pendingCatches > 0 && (
+                  <p className="text-xs font-medium">
+                    {pendingCatches === 1 ? '1 catch' : `${pendingCatches} catches`} waiting to sync
+                  </p>
+                )}
               </div>
             </div>
           </div>
         </motion.div>
       )}
 
-      {isOnline && wasOffline && (
+      {isOnline && (wasOffline || catchSync.inProgress) && (
         <motion.div
           initial={{ y: -100, opacity: 0 }}
           animate={{ y: 0, opacity: 1 }}
@@ -114,7 +130,7 @@ export const OfflineIndicator = () => {
                   <RefreshCw className="w-4 h-4 animate-spin" />
                 </p>
                 <p className="text-xs opacity-90">
-                  Syncing your data...
+                  {getSyncMessage()}
                 </p>
               </div>
             </div>
@@ -1,6 +1,6 @@
 import React from 'react';
 import OptimizedImage from './OptimizedImage';
-import { PollenLevel, PollenAssessment, getPollenLevelDescription, assessPollenConditions, PollenSummary, getPollenIndex } from '../utils/pollenUtils';
+import { PollenLevel, PollenAssessment, getPollenLevelDescription, assessPollenConditions, PollenSummary, getPollenIndex } from '../lib/weather/pollen';
 
 interface PollenWarningProps {
   pollen?: PollenSummary;
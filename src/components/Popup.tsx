@@ -11,12 +11,12 @@ import WindDirectionIcon from './WindDirectionIcon';
 import EnvironmentalIndicators from './EnvironmentalIndicators';
 import { getCompassDirection } from '../utils/weatherLabels';
 import { classifyCurrentStrength } from '../utils/currentStrength';
-import { classifyWindRelative, computeSimulatedOrientation, resolveBeachOrientationAsync } from '../utils/orientation';
+import { classifyWindRelative, computeSimulatedOrientation, resolveBeachOrientationAsync } from '../lib/surf/orientation';
 import { getBeaufortNumber } from '../utils/beaufort';
 import { mpsToKnots, mpsToKmh } from '../utils/weatherUtils';
 import { getOptimizedImageSrc, isImageOptimized } from '../data/bgMapOptimized';
-import type { PollenSummary } from '../utils/pollenUtils';
-import type { AirQualitySummary } from '../utils/airQualityUtils';
+import type { PollenSummary } from '../lib/weather/pollen';
+import type { AirQualitySummary } from '../lib/weather/airQuality';
 // New imports for snow advisories and activity metadata
 import { getSnowActivityRecommendation } from '../utils/snowRecommendations';
 import { activityTypes } from '../data/activityTypes';
@@ -412,17 +412,20 @@ const Popup: React.FC<PopupProps> = ({
     let cancelled = false;
     (async () => {
       try {
-        type OrientationResult = { orientation?: number; source?: string; via?: string };
-        const res = (await resolveBeachOrientationAsync({ lat, lon })) as OrientationResult;
+        const res = await resolveBeachOrientationAsync({ lat, lon });
         if (cancelled) return;
-        const via = res.via || res.source;
-        // Fallback to simulated only if resolver couldn't find anything
-        const o = typeof res.orientation === 'number' ? res.orientation : computeSimulatedOrientation(lat, lon);
-        setResolvedOrientation(o);
-        setOrientationVia(via);
+        if (typeof res.orientation === 'number') {
+          setResolvedOrientation(res.orientation);
+          setOrientationVia(res.source);
+          return;
+        }
+        // Fallback to a rough estimate only if the resolver couldn't find anything
+        const estimate = computeSimulatedOrientation(lat, lon);
+        setResolvedOrientation(estimate ?? undefined);
+        setOrientationVia(estimate === null ? undefined : 'sim');
       } catch {
         // Last-ditch fallback
-        setResolvedOrientation(computeSimulatedOrientation(lat, lon));
+        setResolvedOrientation(computeSimulatedOrientation(lat, lon) ?? undefined);
         setOrientationVia('sim');
       }
     })();
@@ -564,7 +567,7 @@ const Popup: React.FC<PopupProps> = ({
                           const orient = typeof orientProvided === 'number' 
                             ? orientProvided 
                             : (typeof resolvedOrientation === 'number' ? resolvedOrientation : (
-                                coastalLocation ? computeSimulatedOrientation(coastalLocation.lat, coastalLocation.lon) : undefined
+                                coastalLocation ? computeSimulatedOrientation(coastalLocation.lat, coastalLocation.lon) ?? undefined : undefined
                               ));
                           return typeof dir === 'number' ? (
                             <>
@@ -3,7 +3,7 @@ import { WeatherCardGrid } from '../weather-cards/WeatherCardGrid';
 import NextFewDaysCard from '../weather-cards/NextFewDaysCard';
 import { HourlyCard } from '../weather-cards/HourlyCard';
 import type { WeatherBundle, HourlyWithEventsItem, HourlyWithEventsHour } from '../../types/weather';
-import type { AirQualityAssessment } from '../../utils/airQualityUtils';
+import type { AirQualityAssessment } from '../../lib/weather/airQuality';
 
 // Narrow shapes reused by WeatherCardGrid and local UI
 interface TodaySubset {
@@ -2,7 +2,7 @@ import React from 'react';
 import { WeatherCardGrid } from '../weather-cards/WeatherCardGrid';
 import { WaveCard } from '../weather-cards/WaveCard';
 import type { WeatherBundle } from '../../types/weather';
-import type { AirQualityAssessment } from '../../utils/airQualityUtils';
+import type { AirQualityAssessment } from '../../lib/weather/airQuality';
 
 // Local flexible provider value type for Stormglass-like sources
 type ProviderValue = { noaa?: number; sg?: number; meto?: number };
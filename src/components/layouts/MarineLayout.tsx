@@ -6,9 +6,9 @@ import { TidesCard } from '../weather-cards/TidesCard';
 import SurfDayGrade from '../weather-cards/SurfDayGrade';
 import NextFewDaysCard from '../weather-cards/NextFewDaysCard';
 import { getWindMessage } from '../../utils/weatherLabels';
-import { resolveBeachOrientationAsync } from '../../utils/orientation';
+import { resolveBeachOrientationAsync } from '../../lib/surf/orientation';
 import type { HourlyWithEventsItem, WeatherBundle, TideEvent } from '../../types/weather';
-import type { AirQualityAssessment } from '../../utils/airQualityUtils';
+import type { AirQualityAssessment } from '../../lib/weather/airQuality';
 
 // Local flexible provider value type for Stormglass-like sources
 type ProviderValue = { noaa?: number; sg?: number; meto?: number };
@@ -130,7 +130,7 @@ export const MarineLayout: React.FC<MarineLayoutProps> = ({
             lat: weather.lat, 
             lon: weather.lon 
           });
-          setBeachOrientation(result.orientation || null);
+          setBeachOrientation(result.orientation ?? null);
           console.log('Beach orientation:', result.orientation, 'Source:', result.source);
         } catch (error) {
           console.error('Failed to fetch beach orientation:', error);
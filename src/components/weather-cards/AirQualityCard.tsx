@@ -5,7 +5,7 @@ import {
   AirQualityAssessment,
   convertCOtoPPM,
   formatPollutantValue
-} from '../../utils/airQualityUtils';
+} from '../../lib/weather/airQuality';
 
 interface AirQualityCardProps {
   weather: {
@@ -13,6 +13,7 @@ export interface PrecipHour {
   icon?: string;       // openweather icon code or full path
   weatherCode?: number;
   weatherDescription?: string;
+  popSpread?: number;  // 0..1, provider disagreement from ensemble blending (optional)
 }
 
 interface Props {
@@ -74,7 +75,12 @@ export const PrecipNext24hCard: React.FC<Props> = ({ hours, title: _title = 'Nex
                       />
                     </div>
                     {showPop ? (
-                      <span className="text-[10px] font-medium text-sky-300 mb-0.5">{popPct}%</span>
+                      <span
+                        className="text-[10px] font-medium text-sky-300 mb-0.5"
+                        title={h.popSpread != null ? `±${Math.round(h.popSpread * 100)}% between forecasts` : undefined}
+                      >
+                        {popPct}%{h.popSpread != null && h.popSpread >= 0.15 ? '~' : ''}
+                      </span>
                     ) : (
                       <span className="text-[10px] opacity-30 mb-0.5">—</span>
                     )}
@@ -1,8 +1,8 @@
 // SurfDayGrade.tsx
 import React, { useState, useEffect, useRef } from "react";
-import { DayMarine, gradeDay } from "../../utils/surfScoring";
+import { DayMarine, gradeDay } from "../../lib/surf/scoring";
 import { getWaveDescription } from "../../utils/weatherLabels";
-import { saveBeachOrientationOverride, getBeachOrientationOverride } from "../../utils/beachOrientationOverride";
+import { saveBeachOrientationOverride, getBeachOrientationOverride } from "../../lib/surf/orientation";
 import Image from "next/image";
 
 // --- Persist skill selection in localStorage ---
@@ -9,7 +9,7 @@ import { SoilCard } from './SoilCard';
 import { SunriseSunsetCard } from './SunriseSunsetCard';
 import { MoonCard } from './MoonCard';
 import { WeatherBundle } from '../../types/weather';
-import { AirQualityAssessment } from '../../utils/airQualityUtils';
+import { AirQualityAssessment } from '../../lib/weather/airQuality';
 
 // Narrow shapes for dependent cards (avoid leaking full bundle where not needed)
 interface TodaySubset {
@@ -11,7 +11,7 @@ export const wellnessSports: ActivityType[] = [
     perfectConditions: ['temperature=10..13','windSpeed<8','clouds=20..60','humidity=45..60','visibility>10','precipitation=0'],
     goodConditions: ['temperature=5..20','windSpeed<18','clouds=0..100','humidity<80','visibility>2','precipitation=0'],
     fairConditions: ['temperature=0..5 or 20..25','windSpeed<=25','humidity<=90','precipitation<=4','visibility>=1'],
-    poorConditions: ['temperature<0 or temperature>25..28','windSpeed>25','precipitation>4','humidity>90','visibility<1','snowfallRateMmH>1','snowDepthCm>3']
+    poorConditions: ['temperature<0 or temperature>25','windSpeed>25','precipitation>4','humidity>90','visibility<1','snowfallRateMmH>1','snowDepthCm>3']
   },
   
   {
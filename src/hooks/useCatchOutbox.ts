@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { CatchOutboxState } from '../lib/offline/catchOutbox';
+
+const EMPTY_STATE: CatchOutboxState = {
+  entries: [],
+  pending: 0,
+  dead: 0,
+  progress: { total: 0, synced: 0, failed: 0, inProgress: false, current: null },
+};
+
+/**
+ * Hook exposing the offline catch outbox
+ *
+ * Usage:
+ * ```tsx
+ * const { pending, progress, syncNow } = useCatchOutbox();
+ *
+ * if (progress.inProgress) {
+ *   return <div>Syncing catches {progress.synced + 1} of {progress.total}</div>
+ * }
+ * ```
+ */
+export const useCatchOutbox = () => {
+  const [state, setState] = useState<CatchOutboxState>(EMPTY_STATE);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    // Loaded lazily so pages without offline catches don't pull the outbox in
+    import('../lib/offline/catchOutbox').then(({ getCatchOutbox }) => {
+      if (cancelled) return;
+      unsubscribe = getCatchOutbox().subscribe((_event, next) => setState(next));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    const { getCatchOutbox } = await import('../lib/offline/catchOutbox');
+    return getCatchOutbox().sync();
+  }, []);
+
+  const retry = useCallback(async (id: string) => {
+    const { getCatchOutbox } = await import('../lib/offline/catchOutbox');
+    return getCatchOutbox().retry(id);
+  }, []);
+
+  return {
+    ...state,
+    syncNow,
+    retry,
+  };
+};
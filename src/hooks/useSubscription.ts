@@ -2,9 +2,10 @@
  * Subscription Status Hook
  *
  * React hook for managing user subscription state with:
- * - Offline-first caching (IndexedDB, 24h TTL)
+ * - Offline-first caching (IndexedDB, 24h TTL; stale cache used when offline)
  * - Real-time updates via Supabase postgres_changes
  * - Automatic cache refresh on subscription changes
+ * - Per-app feature entitlements via `hasEntitlement`
  *
  * @module hooks/useSubscription
  */
@@ -15,6 +16,16 @@ import {
   getCachedSubscription,
   setCachedSubscription,
 } from '../lib/offline/subscriptionCache';
+import {
+  entitledApps,
+  hasEntitlement as snapshotHasEntitlement,
+  purchaseFromProfile,
+  resolveEntitlements,
+  type AppId,
+  type EntitlementFeature,
+  type EntitlementSnapshot,
+  type ProfileSubscriptionRow,
+} from '../lib/subscriptions/entitlements';
 
 export interface SubscriptionStatus {
   userId: string;
@@ -25,6 +36,12 @@ export interface SubscriptionStatus {
   subscriptionStartDate?: string | null;
   subscriptionEndDate?: string | null;
   trialEndsAt?: string | null;
+  entitlements?: EntitlementSnapshot;
+}
+
+export interface UseSubscriptionOptions {
+  /** App the caller runs in; `isPremium` then means "entitled to something in this app" */
+  app?: AppId;
 }
 
 export interface UseSubscriptionState {
@@ -34,6 +51,42 @@ export interface UseSubscriptionState {
   refetch: () => Promise<void>;
   isPremium: boolean;
   isTrial: boolean;
+  entitlements: EntitlementSnapshot | null;
+  hasEntitlement: (feature: EntitlementFeature) => boolean;
+}
+
+/**
+ * Build subscription state (with resolved entitlements) from a profiles row.
+ */
+function toSubscriptionStatus(userId: string, row: ProfileSubscriptionRow & { stripe_customer_id?: string | null }): SubscriptionStatus {
+  const purchase = purchaseFromProfile(row);
+  return {
+    userId,
+    subscriptionStatus: row.subscription_status as 'free' | 'premium',
+    paymentPlatform: row.payment_platform as 'web' | 'ios' | 'android',
+    stripeCustomerId: row.stripe_customer_id,
+    stripeSubscriptionId: row.stripe_subscription_id,
+    subscriptionStartDate: row.subscription_start_date,
+    subscriptionEndDate: row.subscription_end_date,
+    trialEndsAt: row.trial_ends_at,
+    entitlements: resolveEntitlements(purchase ? [purchase] : []),
+  };
+}
+
+/**
+ * Cache entries written before entitlements existed only carry the profile fields.
+ */
+function withEntitlements(status: SubscriptionStatus): SubscriptionStatus {
+  if (status.entitlements) return status;
+  return toSubscriptionStatus(status.userId, {
+    subscription_status: status.subscriptionStatus,
+    payment_platform: status.paymentPlatform,
+    stripe_customer_id: status.stripeCustomerId,
+    stripe_subscription_id: status.stripeSubscriptionId,
+    subscription_start_date: status.subscriptionStartDate,
+    subscription_end_date: status.subscriptionEndDate,
+    trial_ends_at: status.trialEndsAt,
+  });
 }
 
 /**
@@ -46,20 +99,22 @@ export interface UseSubscriptionState {
  * - Updates cache automatically on changes
  *
  * @param userId - User ID to fetch subscription for (optional, uses auth session if not provided)
- * @returns Subscription state with loading, error, and helper flags
+ * @param options - App context for `isPremium`
+ * @returns Subscription state with loading, error, helper flags and `hasEntitlement`
  *
  * @example
  * ```typescript
  * function MyComponent() {
- *   const { subscription, isPremium, isLoading } = useSubscription();
+ *   const { hasEntitlement, isLoading } = useSubscription(undefined, { app: 'findr' });
  *
  *   if (isLoading) return <Spinner />;
- *   if (!isPremium) return <UpgradePrompt />;
+ *   if (!hasEntitlement('findr:catch_insights')) return <UpgradePrompt />;
  *   return <PremiumFeature />;
  * }
  * ```
  */
-export function useSubscription(userId?: string): UseSubscriptionState {
+export function useSubscription(userId?: string, options: UseSubscriptionOptions = {}): UseSubscriptionState {
+  const { app } = options;
   const [subscription, setSubscription] = useState<SubscriptionStatus | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
@@ -67,12 +122,12 @@ export function useSubscription(userId?: string): UseSubscriptionState {
    * Fetch subscription data from Supabase.
    */
   const fetchSubscription = useCallback(async () => {
+    let targetUserId = userId;
     try {
       setIsLoading(true);
       setError(null);
 
       // Get current user if userId not provided
-      let targetUserId = userId;
       if (!targetUserId) {
         const { data: { user } } = await supabase.auth.getUser();
         if (!user) {
@@ -84,7 +139,7 @@ export function useSubscription(userId?: string): UseSubscriptionState {
       // Try cache first
       const cached = await getCachedSubscription(targetUserId);
       if (cached) {
-        setSubscription(cached);
+        setSubscription(withEntitlements(cached));
         setIsLoading(false);
       }
 
@@ -103,16 +158,7 @@ export function useSubscription(userId?: string): UseSubscriptionState {
         throw new Error('No profile found');
       }
 
-      const subscriptionData: SubscriptionStatus = {
-        userId: targetUserId,
-        subscriptionStatus: data.subscription_status as 'free' | 'premium',
-        paymentPlatform: data.payment_platform as 'web' | 'ios' | 'android',
-        stripeCustomerId: data.stripe_customer_id,
-        stripeSubscriptionId: data.stripe_subscription_id,
-        subscriptionStartDate: data.subscription_start_date,
-        subscriptionEndDate: data.subscription_end_date,
-        trialEndsAt: data.trial_ends_at,
-      };
+      const subscriptionData = toSubscriptionStatus(targetUserId, data);
 
       // Update state and cache
       setSubscription(subscriptionData);
@@ -121,6 +167,12 @@ export function useSubscription(userId?: string): UseSubscriptionState {
       const error = err instanceof Error ? err : new Error('Unknown error fetching subscription');
       setError(error);
       console.error('Error fetching subscription:', error);
+
+      // Offline (or Supabase unreachable): fall back to the last cached state, however old
+      if (targetUserId) {
+        const stale = await getCachedSubscription(targetUserId, { allowStale: true });
+        if (stale) setSubscription(current => current ?? withEntitlements(stale));
+      }
     } finally {
       setIsLoading(false);
     }
@@ -168,16 +220,7 @@ export function useSubscription(userId?: string): UseSubscriptionState {
             if (!isMounted) return;
 
             // Update state with new subscription data
-            const newData: SubscriptionStatus = {
-              userId: targetUserId,
-              subscriptionStatus: payload.new.subscription_status as 'free' | 'premium',
-              paymentPlatform: payload.new.payment_platform as 'web' | 'ios' | 'android',
-              stripeCustomerId: payload.new.stripe_customer_id,
-              stripeSubscriptionId: payload.new.stripe_subscription_id,
-              subscriptionStartDate: payload.new.subscription_start_date,
-              subscriptionEndDate: payload.new.subscription_end_date,
-              trialEndsAt: payload.new.trial_ends_at,
-            };
+            const newData = toSubscriptionStatus(targetUserId, payload.new);
 
             setSubscription(newData);
             await setCachedSubscription(newData);
@@ -198,11 +241,19 @@ export function useSubscription(userId?: string): UseSubscriptionState {
   }, [userId, fetchSubscription, supabase]);
 
   // Helper flags
-  const isPremium = subscription?.subscriptionStatus === 'premium';
+  const entitlements = subscription?.entitlements ?? null;
+  const isPremium = app
+    ? entitledApps(entitlements).includes(app)
+    : subscription?.subscriptionStatus === 'premium';
   const isTrial = isPremium && subscription?.trialEndsAt
     ? new Date(subscription.trialEndsAt) > new Date()
     : false;
 
+  const hasEntitlement = useCallback(
+    (feature: EntitlementFeature) => snapshotHasEntitlement(entitlements, feature),
+    [entitlements]
+  );
+
   return {
     subscription,
     isLoading,
@@ -210,5 +261,7 @@ export function useSubscription(userId?: string): UseSubscriptionState {
     refetch: fetchSubscription,
     isPremium,
     isTrial,
+    entitlements,
+    hasEntitlement,
   };
 }
@@ -6,6 +6,8 @@
  * - Persistent caching for offline use
  * - Returns cached data when offline
  * - 12-hour cache TTL
+ * - Offline with no cache: harmonic prediction from a bundled station
+ *   (options.station) or constituents fitted from earlier fetches
  */
 
 import { useEffect, useState, useRef } from 'react';
@@ -14,7 +16,10 @@ import {
   getCachedTides,
   cacheTides,
   isTideCacheStale,
+  recordTideHistory,
+  getCachedHarmonicStation,
 } from '../lib/offline/tideCache';
+import { predictTideExtremes, type HarmonicStation } from '../lib/tides/harmonicPredictor';
 import { useOnlineStatus } from './useOnlineStatus';
 
 interface TideAPIResponse {
@@ -32,14 +37,35 @@ interface UseTideExtremesResult {
   loading: boolean;
   isFromCache?: boolean;
   isOffline?: boolean;
+  /** True when extremes were computed locally from harmonic constituents */
+  isPredicted?: boolean;
+}
+
+interface UseTideExtremesOptions {
+  /** Bundled harmonic station for this location, used when offline */
+  station?: HarmonicStation | null;
+}
+
+const PREDICTION_DAYS = 3;
+
+/**
+ * Predict extremes from the start of today for a few days
+ */
+function predictFromStation(station: HarmonicStation): TideExtreme[] {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start.getTime() + PREDICTION_DAYS * 24 * 60 * 60 * 1000);
+  return predictTideExtremes(station, start, end);
 }
 
 export function useTideExtremes(
-  location: { lat: number; lon: number } | null
+  location: { lat: number; lon: number } | null,
+  options: UseTideExtremesOptions = {}
 ): UseTideExtremesResult {
   const [extremes, setExtremes] = useState<TideExtreme[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [isFromCache, setIsFromCache] = useState(false);
+  const [isPredicted, setIsPredicted] = useState(false);
   const { isOnline } = useOnlineStatus();
   const fetchedRef = useRef<string | null>(null);
 
@@ -47,6 +73,7 @@ export function useTideExtremes(
     if (!location) {
       setExtremes(null);
       setIsFromCache(false);
+      setIsPredicted(false);
       return;
     }
 
@@ -57,8 +84,21 @@ export function useTideExtremes(
       return;
     }
 
+    const applyPrediction = async (): Promise<boolean> => {
+      const station = options.station ?? await getCachedHarmonicStation(location.lat, location.lon);
+      if (!station) return false;
+      const predicted = predictFromStation(station);
+      if (predicted.length === 0) return false;
+      console.log('[useTideExtremes] Using harmonic prediction from', station.source ?? 'station');
+      setExtremes(predicted);
+      setIsFromCache(false);
+      setIsPredicted(true);
+      return true;
+    };
+
     const fetchTides = async () => {
       setLoading(true);
+      setIsPredicted(false);
 
       try {
         // Step 1: Check persistent cache first
@@ -79,7 +119,12 @@ export function useTideExtremes(
           // Cache is stale but we're online - continue to fetch fresh data
           console.log('[useTideExtremes] Cache stale, fetching fresh data');
         } else if (!isOnline) {
-          // No cache and offline - nothing we can do
+          // No cache and offline - predict locally if we have constituents
+          if (await applyPrediction()) {
+            setLoading(false);
+            fetchedRef.current = cacheKey;
+            return;
+          }
           console.log('[useTideExtremes] Offline with no cache');
           setExtremes(null);
           setIsFromCache(false);
@@ -117,8 +162,11 @@ export function useTideExtremes(
           height: item.height,
         }));
 
-        // Step 3: Cache for offline use
+        // Step 3: Cache for offline use, and grow the history used to fit constituents
         await cacheTides(location.lat, location.lon, tideExtremes);
+        recordTideHistory(location.lat, location.lon, tideExtremes).catch(err => {
+          console.warn('[useTideExtremes] Failed to record tide history:', err);
+        });
 
         setExtremes(tideExtremes);
         setIsFromCache(false);
@@ -132,7 +180,7 @@ export function useTideExtremes(
           console.log('[useTideExtremes] Network error, using cache');
           setExtremes(cached.extremes);
           setIsFromCache(true);
-        } else {
+        } else if (!(await applyPrediction())) {
           setExtremes(null);
         }
       } finally {
@@ -142,12 +190,13 @@ export function useTideExtremes(
 
     fetchTides();
   // eslint-disable-next-line react-hooks/exhaustive-deps -- We only want to refetch when lat/lon or online status changes
-  }, [location?.lat, location?.lon, isOnline]);
+  }, [location?.lat, location?.lon, isOnline, options.station?.id]);
 
   return {
     extremes,
     loading,
     isFromCache,
     isOffline: !isOnline,
+    isPredicted,
   };
 }
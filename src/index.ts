@@ -58,12 +58,41 @@ export { getWeatherMessage } from './lib/utils/weatherMessages';
 // Weather services
 export { fetchMetNoLocationForecast, fetchMetNoMarineSeries, fetchOpenMeteoMarineSeries, fetchWorldTides, getFullWeather, fetchOpenMeteoAirPollen, fetchMetNoOceanForecast, fetchStormglassMarine, fetchStormglassTides, fetchStormglassAstronomy, fetchStormglassBio, fetchOpenMeteoWeather, fetchMarineForUserSpots, getAirPollution } from './lib/services/weatherService';
 export type { WorldTidesResponse } from './lib/services/weatherService';
+// Weather provider registry (health-based routing for getWeatherData)
+export { weatherProviderRegistry, registerWeatherProvider, WeatherProviderRegistry, boundingBox, pointInPolygon } from './lib/services/weatherProviders';
+export type { WeatherProvider, WeatherCapability, WeatherCostTier, CoveragePolygon, ProviderHealth, CircuitState, CircuitBreakerOptions, RouteOptions, FullWeather } from './lib/services/weatherProviders';
+// Forecast blending (ensemble mode with per-field spread/confidence)
+export { getEnsembleWeatherData } from './lib/services/weatherService';
+export type { EnsembleWeather, EnsembleWeatherOptions } from './lib/services/weatherService';
+export { blendForecasts, normalizeProviderForecast, aggregateDaily, formatWithSpread } from './lib/services/forecastBlending';
+export type { BlendedForecast, BlendedHour, BlendedDay, BlendedValue, BlendOptions, BlendHourField, BlendDayField, NormalizedHour, NormalizedDay, NormalizeOptions, ProviderForecast } from './lib/services/forecastBlending';
 // Rectangle anchor utilities (ICES grid caching for marine/tide data)
 export { buildRectangleCacheKey, getRectangleAnchorForLocation, getRectangleDayKey } from './lib/weather/rectangleAnchors';
 export type { RectangleAnchor, IcesRectangleRow } from './lib/weather/rectangleAnchors';
 // Moon/Astro services
 export { getMoonSunData } from './lib/astro/moonService';
 export type { MoonSunData } from './lib/astro/moonService';
+export { getDayEphemeris, getDarkWindow, getMoonPositionAt, getSolunarPeriods } from './lib/astro/ephemeris';
+export type { DayEphemeris, EphemerisOptions, MoonEphemeris, MoonPosition, SolunarPeriod, TimeWindow, TwilightPhases } from './lib/astro/ephemeris';
+export { getNightSkyCalendar, cloudCoverAt } from './lib/astro/nightSkyCalendar';
+export type { NightSkyCalendar, NightSkyEvent, NightSkyEventType, NightSkyOptions, NightSkyVisibility } from './lib/astro/nightSkyCalendar';
+export { findEclipses, getLocalEclipses } from './lib/astro/eclipses';
+export type { Eclipse, LocalEclipse, LunarPhaseTimes } from './lib/astro/eclipses';
+export { METEOR_SHOWERS, getMeteorShowersForNight, getShowerPeak } from './lib/astro/meteorShowers';
+export type { MeteorShower, MeteorShowerNight } from './lib/astro/meteorShowers';
+export { PLANETS, getPlanetPosition, getVisiblePlanets } from './lib/astro/planets';
+export type { PlanetName, PlanetPosition, PlanetVisibility, PlanetVisibilityOptions } from './lib/astro/planets';
+export {
+  ISS_TLE_URL,
+  SatellitePropagationError,
+  TleError,
+  createPropagator,
+  fetchTleFile,
+  parseTle,
+  parseTleFile,
+  predictPasses,
+} from './lib/astro/satellites';
+export type { PassOptions, SatellitePass, TwoLineElements } from './lib/astro/satellites';
 // Weather monitoring
 export { weatherMetrics, monitoredFetch } from './lib/monitoring/weatherMetrics';
 // Supabase query utilities
@@ -71,6 +100,13 @@ export { queryWithTiming, timedParallelQueries } from './lib/supabase/queryWithT
 // Tide utilities
 export { calculateTidePhase } from './lib/tides/calculateTidePhase';
 export type { TideExtreme } from './lib/tides/calculateTidePhase';
+export { predictTideHeight, predictTideCurve, predictTideExtremes, calculateTidePhaseFromStation, fitHarmonicStation, parseHarmonicStations, findNearestHarmonicStation } from './lib/tides/harmonicPredictor';
+export type { HarmonicStation, HarmonicConstituent, TideCurvePoint } from './lib/tides/harmonicPredictor';
+// Activity condition DSL (perfect/good/fair/poor scoring)
+export { parseCondition, validateActivityConditions, ConditionParseException, compileActivityConditions, evaluateActivityConditions, deriveWindRelative, CONDITION_VARIABLES } from './lib/activities';
+export type { ConditionExpr, ConditionTier, ConditionIssue, ConditionContext, ConditionVariable, WindRelative, ActivityEvaluation, ClauseResult } from './lib/activities';
+export { buildActivityTimelines, buildActivityTimeline, findActivityWindows, findBestWindow } from './lib/activities';
+export type { ActivityTimelineInput, ActivityTimeline, ActivityHour, ActivityWindow } from './lib/activities';
 // Rate limiting
 export { rateLimiter, RateLimitError, addRateLimitHeaders } from './lib/utils/rate-limiter';
 // CORS
@@ -128,8 +164,8 @@ export { mapMetNoSymbolToIcon, getMetNoSymbolDescription } from './lib/utils/wea
 export { getTodayIso } from './lib/date/today';
 
 // Share utilities
-export { generateShareToken, getShareUrl } from './lib/share/shareToken';
-export type { FindrShareData } from './lib/share/shareToken';
+export { decodeShareToken, generateShareTokenAsync, decodeShareTokenAsync, revokeShareToken, setShareTokenDenylist, MemoryShareTokenDenylist, getShareUrl } from './lib/share/shareToken';
+export type { FindrShareData, DecodedShareToken, ShareTokenDenylist } from './lib/share/shareToken';
 export { shareText, shareUrl, canShare } from './lib/capacitor/share';
 
 // Components
@@ -0,0 +1,211 @@
+/**
+ * Tests for the activity condition DSL
+ *
+ * Validates every condition string shipped in data/activities, plus parser
+ * edge cases and tier evaluation.
+ */
+
+import { activityTypes } from '../../../data/activityTypes';
+import type { ActivityType } from '../../../data/activities/types';
+import {
+  parseCondition,
+  validateActivityConditions,
+  ConditionParseException,
+  deriveWindRelative,
+  evaluateActivityConditions,
+  buildActivityTimeline,
+  buildActivityTimelines,
+  findActivityWindows,
+  findBestWindow,
+  mergeHourlyWithMarine,
+  TIER_SCORE,
+  type ActivityHour,
+  type ConditionTier,
+} from '..';
+
+describe('lib/activities/conditions', () => {
+  describe('activity data', () => {
+    it('should parse every condition in activityTypes', () => {
+      expect(validateActivityConditions(activityTypes)).toEqual([]);
+    });
+  });
+
+  describe('parseCondition', () => {
+    it('should parse ranges with .. and - separators', () => {
+      expect(parseCondition('waveHeight=0.8..1.5').branches[0][0].value).toEqual({ kind: 'range', min: 0.8, max: 1.5 });
+      expect(parseCondition('cloudCover=0-20').branches[0][0].value).toEqual({ kind: 'range', min: 0, max: 20 });
+    });
+
+    it('should parse negative bounds', () => {
+      expect(parseCondition('temperature=-2..5').branches[0][0].value).toEqual({ kind: 'range', min: -2, max: 5 });
+    });
+
+    it('should reuse the previous key for bare values after or', () => {
+      const expr = parseCondition('temperature=0..5 or 20..25');
+      expect(expr.branches).toHaveLength(2);
+      expect(expr.branches[1][0].text).toBe('temperature=20..25');
+    });
+
+    it('should bind & tighter than or', () => {
+      const expr = parseCondition('windRelative=offshore or windRelative=cross-shore & windSpeed<=8');
+      expect(expr.branches.map(branch => branch.length)).toEqual([1, 2]);
+    });
+
+    it('should reject unknown variables', () => {
+      expect(() => parseCondition('windspeed<10')).toThrow(ConditionParseException);
+    });
+
+    it('should reject unknown categorical values', () => {
+      expect(() => parseCondition('windRelative=sideways')).toThrow(/Unknown value/);
+    });
+
+    it('should reject ranges with inequality operators', () => {
+      expect(() => parseCondition('temperature>25..28')).toThrow(/Range values/);
+    });
+  });
+
+  describe('deriveWindRelative', () => {
+    it('should classify wind against a west-facing beach', () => {
+      expect(deriveWindRelative(90, 270)).toBe('offshore');
+      expect(deriveWindRelative(270, 270)).toBe('onshore');
+      expect(deriveWindRelative(0, 270)).toBe('cross-shore');
+      expect(deriveWindRelative(135, 270)).toBe('side-offshore');
+      expect(deriveWindRelative(225, 270)).toBe('side-onshore');
+    });
+  });
+
+  describe('evaluateActivityConditions', () => {
+    const paddle: ActivityType = {
+      id: 'test_paddle',
+      name: 'Test Paddle',
+      category: 'Test',
+      weatherSensitive: true,
+      tags: [],
+      perfectConditions: ['windSpeed<5', 'temperature=18..24'],
+      goodConditions: ['windSpeed<10', 'temperature=12..28'],
+      fairConditions: ['windSpeed=10..15'],
+      poorConditions: ['windSpeed>15', 'windRelative=offshore & windSpeed>8'],
+    };
+
+    it('should return perfect when all perfect clauses are met', () => {
+      const result = evaluateActivityConditions(paddle, { timeISO: '2026-06-01T12:00:00Z', windKts: 3, tempC: 20 });
+      expect(result.tier).toBe('perfect');
+      expect(result.drivers.map(d => d.source)).toEqual(['windSpeed<5', 'temperature=18..24']);
+    });
+
+    it('should return poor when any poor clause is met', () => {
+      const result = evaluateActivityConditions(
+        paddle,
+        { timeISO: '2026-06-01T12:00:00Z', windKts: 9, windDirection: 90, tempC: 20 },
+        { beachFacingDeg: 270 }
+      );
+      expect(result.tier).toBe('poor');
+      expect(result.drivers[0].branch).toBe('windRelative=offshore & windSpeed>8');
+    });
+
+    it('should fall back to fair and report the failing good clauses', () => {
+      const result = evaluateActivityConditions(paddle, { timeISO: '2026-06-01T12:00:00Z', windKts: 12, tempC: 20 });
+      expect(result.tier).toBe('fair');
+      expect(result.drivers.map(d => d.source)).toEqual(['windSpeed<10', 'windSpeed=10..15']);
+    });
+
+    it('should treat missing variables as unknown', () => {
+      const result = evaluateActivityConditions(paddle, { timeISO: '2026-06-01T12:00:00Z', windKts: 3 });
+      expect(result.tier).toBe('perfect');
+      expect(result.clauses.perfect[1].status).toBe('unknown');
+      expect(result.coverage).toBeLessThan(1);
+    });
+  });
+
+  describe('activity timeline', () => {
+    const kayak: ActivityType = {
+      id: 'test_kayak',
+      name: 'Test Kayak',
+      category: 'Test',
+      weatherSensitive: true,
+      tags: [],
+      seasonalMonths: [6, 7, 8],
+      perfectConditions: ['windSpeed<5'],
+      goodConditions: ['windSpeed<10'],
+      fairConditions: ['windSpeed=10..15'],
+      poorConditions: ['windSpeed>15'],
+      indoorAlternative: 'Indoor pool session',
+    };
+
+    const at = (hour: number) => new Date(Date.UTC(2026, 5, 1, hour)).toISOString();
+    const hour = (h: number, tier: ConditionTier, inSeason = true): ActivityHour => ({
+      timeISO: at(h), tier, score: TIER_SCORE[tier], inSeason, drivers: [], coverage: 1,
+    });
+
+    // 06:00 is missing; 09:00 is out of season
+    const hours = [
+      hour(0, 'perfect'), hour(1, 'perfect'), hour(2, 'good'), hour(3, 'fair'), hour(4, 'perfect'),
+      hour(5, 'good'), hour(7, 'good'), hour(8, 'poor'), hour(9, 'good', false),
+    ];
+
+    it('should merge marine fields by hour without overwriting hourly values', () => {
+      const merged = mergeHourlyWithMarine(
+        [{ timeISO: at(0), tempC: 15, waveM: null }, { timeISO: at(1), tempC: 16, waveM: 0.4 }],
+        [{ timeISO: '2026-06-01T00:20:00Z', waveM: 1.2, waterTempC: 14 }, { timeISO: at(1), waveM: 2 }]
+      );
+      expect(merged[0]).toMatchObject({ timeISO: at(0), tempC: 15, waveM: 1.2, waterTempC: 14 });
+      expect(merged[1]).toMatchObject({ tempC: 16, waveM: 0.4 });
+    });
+
+    it('should split windows at weak, missing and out-of-season hours', () => {
+      expect(findActivityWindows(hours)).toEqual([
+        { startISO: at(0), endISO: at(3), hours: 3, tier: 'good', averageScore: 8 / 3 },
+        { startISO: at(4), endISO: at(6), hours: 2, tier: 'good', averageScore: 2.5 },
+        { startISO: at(7), endISO: at(8), hours: 1, tier: 'good', averageScore: 2 },
+      ]);
+      expect(findActivityWindows(hours, { minHours: 2 })).toHaveLength(2);
+
+      // Lowering the threshold lets the fair hour join its neighbours
+      const [widest] = findActivityWindows(hours, { minTier: 'fair' });
+      expect(widest).toMatchObject({ startISO: at(0), endISO: at(6), hours: 6, tier: 'fair' });
+    });
+
+    it('should find the best fixed-length block, earliest first on ties', () => {
+      const timeline = { activityId: kayak.id, name: kayak.name, weatherSensitive: true, hours, bestWindows: [] };
+
+      expect(findBestWindow(timeline, 2)).toMatchObject({ startISO: at(0), endISO: at(2), averageScore: 3 });
+      // Fair hours are allowed inside a block, poor and missing ones are not
+      expect(findBestWindow(timeline, 4)).toMatchObject({ startISO: at(0), tier: 'fair', averageScore: 2.25 });
+      expect(findBestWindow(timeline, 7)).toBeNull();
+      expect(findBestWindow(timeline, 20)).toBeNull();
+      expect(findBestWindow(timeline, 0)).toBeNull();
+      expect(findBestWindow(timeline, -2)).toBeNull();
+      expect(findBestWindow(timeline, 1.5)).toBeNull();
+    });
+
+    it('should keep hours from the start up to, not including, the end of the window', () => {
+      const hourly = ['2026-05-31T21:00:00Z', '2026-05-31T22:00:00Z', '2026-05-31T23:00:00Z', '2026-06-01T21:00:00Z', '2026-06-01T22:00:00Z']
+        .map(timeISO => ({ timeISO, windKts: 3 }));
+      const input = { hourly, activities: [kayak], startISO: '2026-05-31T22:00:00Z', days: 1 };
+
+      // 23:00 UTC on 31 May is already June in London
+      const [london] = buildActivityTimelines({ ...input, timeZone: 'Europe/London' });
+      expect(london.hours.map(h => h.timeISO)).toEqual(['2026-05-31T22:00:00Z', '2026-05-31T23:00:00Z', '2026-06-01T21:00:00Z']);
+      expect(london.hours.map(h => h.inSeason)).toEqual([false, true, true]);
+      // Window ends come out in one format, whatever the input hours used
+      expect(london.bestWindows[0]).toMatchObject({ startISO: '2026-05-31T23:00:00.000Z', endISO: '2026-06-01T00:00:00.000Z', tier: 'perfect' });
+
+      const [utc] = buildActivityTimelines(input);
+      expect(utc.hours.map(h => h.inSeason)).toEqual([false, false, true]);
+    });
+
+    it('should suggest the indoor alternative only when a weather-sensitive activity has no window', () => {
+      const stormy = [at(0), at(1)].map(timeISO => ({ timeISO, windKts: 20 }));
+      const reading: ActivityType = { id: 'test_reading', name: 'Reading', category: 'Test', weatherSensitive: false, tags: [] };
+
+      const [kayaking, indoors] = buildActivityTimelines({ hourly: stormy, activities: [kayak, reading] });
+      expect(kayaking.hours.map(h => h.tier)).toEqual(['poor', 'poor']);
+      expect(kayaking.indoorAlternative).toBe('Indoor pool session');
+      expect(indoors.hours.map(h => h.tier)).toEqual(['good', 'good']);
+      expect(indoors.bestWindows).toHaveLength(1);
+      expect(indoors.indoorAlternative).toBeUndefined();
+
+      expect(buildActivityTimeline('no_such_activity', { hourly: stormy })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Hour-by-hour activity suitability timeline
+ *
+ * Scores every hour of a forecast window against each activity's condition
+ * tiers and finds contiguous "best windows", e.g. "when is the best 3 hours
+ * for kayaking this week?".
+ */
+
+import { activityTypes } from '../../data/activityTypes';
+import type { ActivityType } from '../../data/activities/types';
+import type { HourlyPoint, MarineHourlyPoint } from '../../types/weather';
+import type { ConditionTier } from './conditionParser';
+import { evaluateActivityConditions, type ClauseResult } from './conditionEvaluator';
+import type { ConditionContext, ConditionPoint } from './conditionVariables';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_DAYS = 7;
+
+/** `toISOString()` of an hour's start, `offsetHours` later */
+const hourISO = (timeISO: string, offsetHours = 0) => new Date(Date.parse(timeISO) + offsetHours * HOUR_MS).toISOString();
+
+export const TIER_SCORE: Record<ConditionTier, number> = {
+  perfect: 3,
+  good: 2,
+  fair: 1,
+  poor: 0,
+};
+
+export interface ActivityTimelineInput {
+  hourly: HourlyPoint[];
+  /** Optional marine series; merged into the hourly points by timestamp */
+  marineHourly?: MarineHourlyPoint[];
+  /** Seaward-facing beach bearing, used by `windRelative` conditions */
+  beachFacingDeg?: number | null;
+  /** IANA time zone of the location (for seasonal months); defaults to UTC */
+  timeZone?: string;
+  /** Start of the window (defaults to the first hourly point) */
+  startISO?: string;
+  /** Window length in days (default 7) */
+  days?: number;
+  /** Activities to score (defaults to all `activityTypes`) */
+  activities?: ActivityType[];
+}
+
+export interface ActivityHour {
+  timeISO: string;
+  tier: ConditionTier;
+  score: number;
+  inSeason: boolean;
+  drivers: ClauseResult[];
+  coverage: number;
+}
+
+export interface ActivityWindow {
+  /** Both ends are `toISOString()` instants, whatever format the hours came in */
+  startISO: string;
+  /** Exclusive end (start of the hour after the last one in the window) */
+  endISO: string;
+  hours: number;
+  /** Lowest tier inside the window */
+  tier: ConditionTier;
+  /** Mean tier score (0-3) */
+  averageScore: number;
+}
+
+export interface ActivityTimeline {
+  activityId: string;
+  name: string;
+  weatherSensitive: boolean;
+  hours: ActivityHour[];
+  /** Contiguous in-season runs at `good` or better, best first */
+  bestWindows: ActivityWindow[];
+  /** Set when the activity is weather sensitive and no usable window was found */
+  indoorAlternative?: string;
+}
+
+const getMonth = (timeISO: string, timeZone?: string): number => {
+  const date = new Date(timeISO);
+  if (!timeZone) return date.getUTCMonth() + 1;
+  try {
+    return Number(new Intl.DateTimeFormat('en-GB', { timeZone, month: 'numeric' }).format(date));
+  } catch {
+    return date.getUTCMonth() + 1;
+  }
+};
+
+const tierAtLeast = (tier: ConditionTier, min: ConditionTier) => TIER_SCORE[tier] >= TIER_SCORE[min];
+
+/**
+ * Merge marine fields into hourly weather points with the same hour.
+ * Hourly (terrestrial) values win when both series carry a field.
+ */
+export function mergeHourlyWithMarine(hourly: HourlyPoint[], marine: MarineHourlyPoint[] = []): ConditionPoint[] {
+  if (marine.length === 0) return hourly;
+
+  const marineByHour = new Map<number, MarineHourlyPoint>();
+  for (const point of marine) {
+    const t = Date.parse(point.timeISO);
+    if (Number.isFinite(t)) marineByHour.set(Math.round(t / HOUR_MS), point);
+  }
+
+  return hourly.map(point => {
+    const match = marineByHour.get(Math.round(Date.parse(point.timeISO) / HOUR_MS));
+    if (!match) return point;
+    const merged: Record<string, unknown> = { ...match };
+    for (const [key, value] of Object.entries(point)) {
+      if (value !== undefined && value !== null) merged[key] = value;
+    }
+    return merged as HourlyPoint;
+  });
+}
+
+/**
+ * Group consecutive hours that are in season and at or above `minTier`
+ * into windows, ranked by average score then length.
+ */
+export function findActivityWindows(
+  hours: ActivityHour[],
+  options: { minTier?: ConditionTier; minHours?: number } = {}
+): ActivityWindow[] {
+  const { minTier = 'good', minHours = 1 } = options;
+  const windows: ActivityWindow[] = [];
+  let run: ActivityHour[] = [];
+
+  const flush = () => {
+    if (run.length >= minHours) {
+      const last = run[run.length - 1];
+      const lowest = run.reduce((low, hour) => (hour.score < low.score ? hour : low), run[0]);
+      windows.push({
+        startISO: hourISO(run[0].timeISO),
+        endISO: hourISO(last.timeISO, 1),
+        hours: run.length,
+        tier: lowest.tier,
+        averageScore: run.reduce((sum, hour) => sum + hour.score, 0) / run.length,
+      });
+    }
+    run = [];
+  };
+
+  for (const hour of hours) {
+    const usable = hour.inSeason && tierAtLeast(hour.tier, minTier);
+    const previous = run[run.length - 1];
+    const contiguous = previous && Date.parse(hour.timeISO) - Date.parse(previous.timeISO) <= HOUR_MS;
+    if (!usable || (previous && !contiguous)) flush();
+    if (usable) run.push(hour);
+  }
+  flush();
+
+  return windows.sort((a, b) => b.averageScore - a.averageScore || b.hours - a.hours);
+}
+
+/**
+ * Best block of exactly `durationHours` consecutive in-season hours with no
+ * `poor` hour inside, maximising the summed tier score. Earliest block wins ties.
+ * Null when `durationHours` is not a positive whole number.
+ */
+export function findBestWindow(timeline: ActivityTimeline, durationHours: number): ActivityWindow | null {
+  if (!Number.isInteger(durationHours) || durationHours <= 0) return null;
+  const { hours } = timeline;
+  let best: ActivityWindow | null = null;
+
+  for (let i = 0; i + durationHours <= hours.length; i++) {
+    const slice = hours.slice(i, i + durationHours);
+    const span = Date.parse(slice[slice.length - 1].timeISO) - Date.parse(slice[0].timeISO);
+    if (span > (durationHours - 1) * HOUR_MS) continue;
+    if (slice.some(hour => !hour.inSeason || hour.tier === 'poor')) continue;
+
+    const averageScore = slice.reduce((sum, hour) => sum + hour.score, 0) / slice.length;
+    if (best && averageScore <= best.averageScore) continue;
+
+    const lowest = slice.reduce((low, hour) => (hour.score < low.score ? hour : low), slice[0]);
+    best = {
+      startISO: hourISO(slice[0].timeISO),
+      endISO: hourISO(slice[slice.length - 1].timeISO, 1),
+      hours: durationHours,
+      tier: lowest.tier,
+      averageScore,
+    };
+  }
+
+  return best;
+}
+
+/**
+ * Build a per-activity suitability timeline for a forecast window.
+ */
+export function buildActivityTimelines(input: ActivityTimelineInput): ActivityTimeline[] {
+  const {
+    hourly,
+    marineHourly,
+    beachFacingDeg,
+    timeZone,
+    days = DEFAULT_DAYS,
+    activities = activityTypes,
+  } = input;
+
+  const points = mergeHourlyWithMarine(hourly, marineHourly)
+    .filter(point => Number.isFinite(Date.parse(point.timeISO)))
+    .sort((a, b) => Date.parse(a.timeISO) - Date.parse(b.timeISO));
+
+  const startMs = input.startISO ? Date.parse(input.startISO) : points.length ? Date.parse(points[0].timeISO) : 0;
+  const endMs = startMs + days * 24 * HOUR_MS;
+  const windowPoints = points.filter(point => {
+    const t = Date.parse(point.timeISO);
+    return t >= startMs && t < endMs;
+  });
+
+  const context: ConditionContext = { beachFacingDeg };
+  const months = windowPoints.map(point => getMonth(point.timeISO, timeZone));
+
+  return activities.map(activity => {
+    const hours: ActivityHour[] = windowPoints.map((point, index) => {
+      const inSeason = !activity.seasonalMonths?.length || activity.seasonalMonths.includes(months[index]);
+
+      if (!activity.weatherSensitive) {
+        return { timeISO: point.timeISO, tier: 'good', score: TIER_SCORE.good, inSeason, drivers: [], coverage: 1 };
+      }
+
+      const evaluation = evaluateActivityConditions(activity, point, context);
+      return {
+        timeISO: point.timeISO,
+        tier: evaluation.tier,
+        score: TIER_SCORE[evaluation.tier],
+        inSeason,
+        drivers: evaluation.drivers,
+        coverage: evaluation.coverage,
+      };
+    });
+
+    const bestWindows = findActivityWindows(hours);
+    const timeline: ActivityTimeline = {
+      activityId: activity.id,
+      name: activity.name,
+      weatherSensitive: activity.weatherSensitive,
+      hours,
+      bestWindows,
+    };
+    if (activity.weatherSensitive && bestWindows.length === 0 && activity.indoorAlternative) {
+      timeline.indoorAlternative = activity.indoorAlternative;
+    }
+    return timeline;
+  });
+}
+
+/**
+ * Convenience wrapper for a single activity.
+ * @returns null if the activity id is unknown
+ */
+export function buildActivityTimeline(
+  activityId: string,
+  input: Omit<ActivityTimelineInput, 'activities'>
+): ActivityTimeline | null {
+  const activity = activityTypes.find(a => a.id === activityId);
+  if (!activity) return null;
+  return buildActivityTimelines({ ...input, activities: [activity] })[0];
+}
@@ -0,0 +1,189 @@
+/**
+ * Evaluator for the activity condition DSL
+ *
+ * Tier rules:
+ * - poor:    any poor condition is met
+ * - perfect: every perfect condition with data is met
+ * - good:    every good condition with data is met
+ * - fair:    otherwise (drivers are the good conditions that failed plus any fair ones met)
+ *
+ * Conditions whose variables have no data for the hour are reported as
+ * `unknown` and never count for or against a tier.
+ */
+
+import type { ActivityType } from '../../data/activities/types';
+import {
+  CONDITION_TIERS,
+  getTierConditions,
+  parseCondition,
+  type ComparisonNode,
+  type ConditionExpr,
+  type ConditionTier,
+} from './conditionParser';
+import { getConditionVariable, type ConditionContext, type ConditionPoint } from './conditionVariables';
+
+export type ClauseStatus = 'met' | 'unmet' | 'unknown';
+
+export interface ClauseResult {
+  tier: ConditionTier;
+  source: string;
+  status: ClauseStatus;
+  /** The AND-group that decided the result (the first met branch, or the first failing one) */
+  branch?: string;
+  /** Variables that had no data for this point */
+  missing: string[];
+}
+
+export interface ActivityEvaluation {
+  activityId: string;
+  tier: ConditionTier;
+  /** Clauses that drove the tier decision */
+  drivers: ClauseResult[];
+  /** Every evaluated clause, grouped by tier */
+  clauses: Record<ConditionTier, ClauseResult[]>;
+  /** Fraction (0-1) of clauses that could be evaluated with the available data */
+  coverage: number;
+}
+
+export type CompiledActivityConditions = Record<ConditionTier, ConditionExpr[]>;
+
+const compiledCache = new WeakMap<ActivityType, CompiledActivityConditions>();
+
+/**
+ * Parse all condition strings of an activity (memoised per activity object)
+ * @throws ConditionParseException if any condition is invalid
+ */
+export function compileActivityConditions(activity: ActivityType): CompiledActivityConditions {
+  const cached = compiledCache.get(activity);
+  if (cached) return cached;
+
+  const compiled = {} as CompiledActivityConditions;
+  for (const tier of CONDITION_TIERS) {
+    compiled[tier] = getTierConditions(activity, tier).map(parseCondition);
+  }
+  compiledCache.set(activity, compiled);
+  return compiled;
+}
+
+function compare(actual: number | string, node: ComparisonNode): boolean {
+  const { operator, value } = node;
+
+  if (value.kind === 'category') {
+    return operator === '!=' ? actual !== value.value : actual === value.value;
+  }
+  if (typeof actual !== 'number') return false;
+
+  if (value.kind === 'range') {
+    const inRange = actual >= value.min && actual <= value.max;
+    return operator === '!=' ? !inRange : inRange;
+  }
+
+  switch (operator) {
+    case '=': return actual === value.value;
+    case '!=': return actual !== value.value;
+    case '<': return actual < value.value;
+    case '<=': return actual <= value.value;
+    case '>': return actual > value.value;
+    case '>=': return actual >= value.value;
+  }
+}
+
+function evaluateExpr(
+  expr: ConditionExpr,
+  tier: ConditionTier,
+  point: ConditionPoint,
+  context: ConditionContext
+): ClauseResult {
+  const missing = new Set<string>();
+  let firstUnmet: string | undefined;
+  let sawUnknown = false;
+
+  for (const branch of expr.branches) {
+    let branchStatus: ClauseStatus = 'met';
+
+    for (const node of branch) {
+      const actual = getConditionVariable(node.key)?.resolve(point, context);
+      if (actual === undefined) {
+        missing.add(node.key);
+        if (branchStatus === 'met') branchStatus = 'unknown';
+        continue;
+      }
+      if (!compare(actual, node)) {
+        branchStatus = 'unmet';
+      }
+    }
+
+    const branchText = branch.map(node => node.text).join(' & ');
+    if (branchStatus === 'met') {
+      return { tier, source: expr.source, status: 'met', branch: branchText, missing: Array.from(missing) };
+    }
+    if (branchStatus === 'unknown') sawUnknown = true;
+    else if (!firstUnmet) firstUnmet = branchText;
+  }
+
+  return {
+    tier,
+    source: expr.source,
+    status: sawUnknown ? 'unknown' : 'unmet',
+    branch: firstUnmet,
+    missing: Array.from(missing),
+  };
+}
+
+/**
+ * Score one hour for an activity.
+ *
+ * @param activity Activity definition from `activityTypes`
+ * @param point Hourly weather or marine point (wind in knots, visibility in km)
+ * @param context Beach orientation for `windRelative` conditions
+ * @throws ConditionParseException if the activity has invalid condition strings
+ */
+export function evaluateActivityConditions(
+  activity: ActivityType,
+  point: ConditionPoint,
+  context: ConditionContext = {}
+): ActivityEvaluation {
+  const compiled = compileActivityConditions(activity);
+
+  const clauses = {} as Record<ConditionTier, ClauseResult[]>;
+  let total = 0;
+  let known = 0;
+  for (const tier of CONDITION_TIERS) {
+    clauses[tier] = compiled[tier].map(expr => evaluateExpr(expr, tier, point, context));
+    total += clauses[tier].length;
+    known += clauses[tier].filter(result => result.status !== 'unknown').length;
+  }
+
+  const result = (tier: ConditionTier, drivers: ClauseResult[]): ActivityEvaluation => ({
+    activityId: activity.id,
+    tier,
+    drivers,
+    clauses,
+    coverage: total === 0 ? 1 : known / total,
+  });
+
+  const poorHits = clauses.poor.filter(clause => clause.status === 'met');
+  if (poorHits.length > 0) return result('poor', poorHits);
+
+  // A tier is satisfied when nothing in it is unmet and at least one clause had data
+  const satisfied = (tier: ConditionTier) => {
+    const list = clauses[tier];
+    return list.some(clause => clause.status === 'met')
+      && !list.some(clause => clause.status === 'unmet');
+  };
+
+  if (satisfied('perfect')) {
+    return result('perfect', clauses.perfect.filter(clause => clause.status === 'met'));
+  }
+  if (satisfied('good')) {
+    return result('good', clauses.good.filter(clause => clause.status === 'met'));
+  }
+
+  // Activities without any condition data are not weather-limited
+  if (total === 0) return result('good', []);
+
+  return result('fair', [
+    ...clauses.good.filter(clause => clause.status === 'unmet'),
+    ...clauses.fair.filter(clause => clause.status === 'met'),
+  ]);
+}
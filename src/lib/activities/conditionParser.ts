@@ -0,0 +1,316 @@
+/**
+ * Parser for the activity condition DSL
+ *
+ * Grammar (as used in src/data/activities/*):
+ *
+ *   condition  := branch ('or' branch)*
+ *   branch     := comparison ('&' comparison)*
+ *               | value                      // bare value: reuses key/operator of the previous branch
+ *   comparison := key operator value
+ *   operator   := '=' | '!=' | '<' | '<=' | '>' | '>='
+ *   value      := number | number '..' number | number '-' number | category
+ *
+ * Examples: `gust<12`, `waveHeight=0.8..1.5`, `cloudCover=0-20 or 80-100`,
+ * `temperature=0..5 or 20..25`, `windRelative=offshore or windRelative=cross-shore & windSpeed<=8`
+ */
+
+import type { ActivityType } from '../../data/activities/types';
+import { getConditionVariable } from './conditionVariables';
+
+export type ConditionOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type ConditionValue =
+  | { kind: 'number'; value: number }
+  | { kind: 'range'; min: number; max: number }
+  | { kind: 'category'; value: string };
+
+export interface ComparisonNode {
+  key: string;
+  operator: ConditionOperator;
+  value: ConditionValue;
+  /** Normalised text of this clause, e.g. "windSpeed<=8" */
+  text: string;
+}
+
+export interface ConditionExpr {
+  source: string;
+  /** OR of AND-groups */
+  branches: ComparisonNode[][];
+}
+
+export type ConditionTier = 'perfect' | 'good' | 'fair' | 'poor';
+
+export const CONDITION_TIERS: readonly ConditionTier[] = ['perfect', 'good', 'fair', 'poor'];
+
+export class ConditionParseException extends Error {
+  constructor(
+    public source: string,
+    public position: number,
+    message: string
+  ) {
+    super(`${message} at position ${position} in "${source}"`);
+    this.name = 'ConditionParseException';
+  }
+}
+
+type Token =
+  | { type: 'ident'; text: string; pos: number }
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'op'; text: ConditionOperator; pos: number }
+  | { type: 'range'; pos: number }
+  | { type: 'minus'; pos: number }
+  | { type: 'and'; pos: number }
+  | { type: 'or'; pos: number };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch)) {
+      // `\.\d+` needs a digit after the dot, so `12..14` lexes as 12, `..`, 14
+      const text = /^\d+(\.\d+)?/.exec(source.slice(i))![0];
+      tokens.push({ type: 'number', value: Number(text), pos: i });
+      i += text.length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(source.slice(i))!;
+      const text = match[0];
+      if (text === 'or') tokens.push({ type: 'or', pos: i });
+      else tokens.push({ type: 'ident', text, pos: i });
+      i += text.length;
+      continue;
+    }
+
+    const two = source.slice(i, i + 2);
+    if (two === '..') {
+      tokens.push({ type: 'range', pos: i });
+      i += 2;
+      continue;
+    }
+    if (two === '<=' || two === '>=' || two === '!=') {
+      tokens.push({ type: 'op', text: two, pos: i });
+      i += 2;
+      continue;
+    }
+    if (ch === '<' || ch === '>' || ch === '=') {
+      tokens.push({ type: 'op', text: ch, pos: i });
+      i++;
+      continue;
+    }
+    if (ch === '&') {
+      tokens.push({ type: 'and', pos: i });
+      i++;
+      continue;
+    }
+    if (ch === '-') {
+      tokens.push({ type: 'minus', pos: i });
+      i++;
+      continue;
+    }
+
+    throw new ConditionParseException(source, i, `Unexpected character "${ch}"`);
+  }
+
+  return tokens;
+}
+
+function formatValue(value: ConditionValue): string {
+  if (value.kind === 'range') return `${value.min}..${value.max}`;
+  return String(value.value);
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private source: string, private tokens: Token[]) {}
+
+  parse(): ConditionExpr {
+    if (this.tokens.length === 0) {
+      throw new ConditionParseException(this.source, 0, 'Empty condition');
+    }
+
+    const branches: ComparisonNode[][] = [this.parseBranch(null)];
+    while (this.peek()?.type === 'or') {
+      this.index++;
+      const previous = branches[branches.length - 1];
+      branches.push(this.parseBranch(previous[previous.length - 1]));
+    }
+
+    const trailing = this.peek();
+    if (trailing) {
+      throw new ConditionParseException(this.source, trailing.pos, 'Unexpected token');
+    }
+
+    return { source: this.source, branches };
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  private endPosition(): number {
+    return this.source.length;
+  }
+
+  private parseBranch(previous: ComparisonNode | null): ComparisonNode[] {
+    const first = this.peek();
+    if (first && (first.type === 'number' || first.type === 'minus')) {
+      // Bare value after `or`, e.g. the `26..30` in `temperature=5..10 or 26..30`
+      if (!previous) {
+        throw new ConditionParseException(this.source, first.pos, 'Value without a variable');
+      }
+      return [this.buildComparison(previous.key, previous.operator, this.parseValue(), first.pos)];
+    }
+
+    const clauses = [this.parseComparison()];
+    while (this.peek()?.type === 'and') {
+      this.index++;
+      clauses.push(this.parseComparison());
+    }
+    return clauses;
+  }
+
+  private parseComparison(): ComparisonNode {
+    const keyToken = this.peek();
+    if (!keyToken || keyToken.type !== 'ident') {
+      throw new ConditionParseException(this.source, keyToken?.pos ?? this.endPosition(), 'Expected a variable name');
+    }
+    this.index++;
+
+    const opToken = this.peek();
+    if (!opToken || opToken.type !== 'op') {
+      throw new ConditionParseException(this.source, opToken?.pos ?? this.endPosition(), `Expected an operator after "${keyToken.text}"`);
+    }
+    this.index++;
+
+    return this.buildComparison(keyToken.text, opToken.text, this.parseValue(), keyToken.pos);
+  }
+
+  private parseNumber(): number {
+    const token = this.peek();
+    let sign = 1;
+    if (token?.type === 'minus') {
+      sign = -1;
+      this.index++;
+    }
+    const numberToken = this.peek();
+    if (!numberToken || numberToken.type !== 'number') {
+      throw new ConditionParseException(this.source, numberToken?.pos ?? this.endPosition(), 'Expected a number');
+    }
+    this.index++;
+    return sign * numberToken.value;
+  }
+
+  private parseValue(): ConditionValue {
+    const token = this.peek();
+    if (!token) {
+      throw new ConditionParseException(this.source, this.endPosition(), 'Expected a value');
+    }
+
+    if (token.type === 'ident') {
+      this.index++;
+      return { kind: 'category', value: token.text };
+    }
+
+    const min = this.parseNumber();
+    const next = this.peek();
+    if (next && (next.type === 'range' || next.type === 'minus')) {
+      this.index++;
+      const max = this.parseNumber();
+      if (max < min) {
+        throw new ConditionParseException(this.source, next.pos, `Range ${min}..${max} is reversed`);
+      }
+      return { kind: 'range', min, max };
+    }
+    return { kind: 'number', value: min };
+  }
+
+  private buildComparison(key: string, operator: ConditionOperator, value: ConditionValue, pos: number): ComparisonNode {
+    const variable = getConditionVariable(key);
+    if (!variable) {
+      throw new ConditionParseException(this.source, pos, `Unknown variable "${key}"`);
+    }
+
+    if (variable.kind === 'categorical') {
+      if (value.kind !== 'category') {
+        throw new ConditionParseException(this.source, pos, `"${key}" expects one of: ${variable.values?.join(', ')}`);
+      }
+      if (operator !== '=' && operator !== '!=') {
+        throw new ConditionParseException(this.source, pos, `"${key}" only supports = and !=`);
+      }
+      if (variable.values && !variable.values.includes(value.value)) {
+        throw new ConditionParseException(this.source, pos, `Unknown value "${value.value}" for "${key}"`);
+      }
+    } else {
+      if (value.kind === 'category') {
+        throw new ConditionParseException(this.source, pos, `"${key}" expects a number in ${variable.unit}`);
+      }
+      if (value.kind === 'range' && operator !== '=' && operator !== '!=') {
+        throw new ConditionParseException(this.source, pos, `Range values only work with = and != (got "${operator}")`);
+      }
+    }
+
+    return { key, operator, value, text: `${key}${operator}${formatValue(value)}` };
+  }
+}
+
+/**
+ * Parse a single condition string into an AST
+ * @throws ConditionParseException on syntax errors or unknown variables/values
+ */
+export function parseCondition(source: string): ConditionExpr {
+  return new Parser(source, tokenize(source)).parse();
+}
+
+export interface ConditionIssue {
+  activityId: string;
+  tier: ConditionTier;
+  index: number;
+  source: string;
+  message: string;
+}
+
+export function getTierConditions(activity: ActivityType, tier: ConditionTier): string[] {
+  switch (tier) {
+    case 'perfect': return activity.perfectConditions ?? [];
+    case 'good': return activity.goodConditions ?? [];
+    case 'fair': return activity.fairConditions ?? [];
+    case 'poor': return activity.poorConditions ?? [];
+  }
+}
+
+/**
+ * Parse every condition of every activity and collect the failures.
+ * Intended for tests/CI so broken activity data is caught before it ships.
+ */
+export function validateActivityConditions(activities: ActivityType[]): ConditionIssue[] {
+  const issues: ConditionIssue[] = [];
+  for (const activity of activities) {
+    for (const tier of CONDITION_TIERS) {
+      getTierConditions(activity, tier).forEach((source, index) => {
+        try {
+          parseCondition(source);
+        } catch (error) {
+          issues.push({
+            activityId: activity.id,
+            tier,
+            index,
+            source,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      });
+    }
+  }
+  return issues;
+}
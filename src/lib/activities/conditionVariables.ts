@@ -0,0 +1,112 @@
+/**
+ * Condition variable registry for the activity condition DSL
+ *
+ * Every key used in `perfectConditions` / `goodConditions` / `fairConditions` /
+ * `poorConditions` (see src/data/activities/*) must be registered here with its
+ * unit, so the parser can reject typos and the evaluator knows where to read
+ * the value from an hourly weather/marine point.
+ */
+
+import type { HourlyPoint, MarineHourlyPoint } from '../../types/weather';
+
+export type WindRelative = 'offshore' | 'side-offshore' | 'cross-shore' | 'side-onshore' | 'onshore';
+
+export const WIND_RELATIVE_VALUES: readonly WindRelative[] = [
+  'offshore',
+  'side-offshore',
+  'cross-shore',
+  'side-onshore',
+  'onshore',
+];
+
+export type ConditionVariableUnit = '°C' | 'kn' | 'm' | 's' | 'km' | 'mm/h' | '%' | 'cm' | 'category';
+
+/** Extra inputs that are not part of an hourly point */
+export interface ConditionContext {
+  /** Seaward-facing bearing of the beach in degrees (0 = north) */
+  beachFacingDeg?: number | null;
+}
+
+export type ConditionPoint = HourlyPoint | MarineHourlyPoint;
+
+export interface ConditionVariable {
+  key: string;
+  kind: 'numeric' | 'categorical';
+  unit: ConditionVariableUnit;
+  description: string;
+  /** Allowed values for categorical variables */
+  values?: readonly string[];
+  /** Reads the value from a point; undefined means "no data" */
+  resolve: (point: ConditionPoint, context: ConditionContext) => number | string | undefined;
+}
+
+const num = (v: unknown): number | undefined =>
+  typeof v === 'number' && Number.isFinite(v) ? v : undefined;
+
+/** First finite numeric field found on the point, in order of preference */
+const pick = (...fields: string[]) => (point: ConditionPoint): number | undefined => {
+  const record = point as Record<string, unknown>;
+  for (const field of fields) {
+    const value = num(record[field]);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+};
+
+const angDiff = (a: number, b: number) => Math.abs(((a - b + 540) % 360) - 180);
+
+/**
+ * Classify wind direction relative to a beach.
+ * @param windFromDeg Direction the wind is blowing FROM (meteorological convention)
+ * @param beachFacingDeg Seaward-facing bearing of the beach
+ * @example deriveWindRelative(90, 270) // 'offshore' (easterly wind on a west-facing beach)
+ */
+export function deriveWindRelative(windFromDeg: number, beachFacingDeg: number): WindRelative {
+  // Offshore wind blows from the land, i.e. from the opposite of the facing bearing
+  const fromLand = (beachFacingDeg + 180) % 360;
+  const diff = angDiff(windFromDeg, fromLand);
+  if (diff <= 30) return 'offshore';
+  if (diff <= 67.5) return 'side-offshore';
+  if (diff <= 112.5) return 'cross-shore';
+  if (diff <= 150) return 'side-onshore';
+  return 'onshore';
+}
+
+const variables: ConditionVariable[] = [
+  { key: 'temperature', kind: 'numeric', unit: '°C', description: 'Air temperature', resolve: pick('tempC', 'temperatureC') },
+  { key: 'airTemperature', kind: 'numeric', unit: '°C', description: 'Air temperature (marine activities)', resolve: pick('tempC', 'temperatureC') },
+  { key: 'waterTemperature', kind: 'numeric', unit: '°C', description: 'Sea/lake surface temperature', resolve: pick('waterTempC') },
+  { key: 'windSpeed', kind: 'numeric', unit: 'kn', description: 'Mean wind speed', resolve: pick('windKts') },
+  { key: 'gust', kind: 'numeric', unit: 'kn', description: 'Wind gust speed', resolve: pick('windGustKts') },
+  { key: 'waveHeight', kind: 'numeric', unit: 'm', description: 'Significant wave height', resolve: pick('waveM', 'swellHeightM') },
+  { key: 'swellPeriod', kind: 'numeric', unit: 's', description: 'Swell period', resolve: pick('swellPeriodS', 'wavePeriodS') },
+  { key: 'visibility', kind: 'numeric', unit: 'km', description: 'Above-water horizontal visibility', resolve: pick('visibilityKm') },
+  { key: 'precipitation', kind: 'numeric', unit: 'mm/h', description: 'Precipitation rate', resolve: pick('precipMm', 'precipMM') },
+  { key: 'cloudCover', kind: 'numeric', unit: '%', description: 'Total cloud cover', resolve: pick('cloudCoverPct', 'cloudCover') },
+  { key: 'clouds', kind: 'numeric', unit: '%', description: 'Total cloud cover (alias of cloudCover)', resolve: pick('cloudCoverPct', 'cloudCover') },
+  { key: 'humidity', kind: 'numeric', unit: '%', description: 'Relative humidity', resolve: pick('humidityPct', 'humidity') },
+  { key: 'soilMoisture', kind: 'numeric', unit: '%', description: 'Volumetric soil moisture', resolve: pick('soilMoisturePct', 'soilMoisture') },
+  { key: 'snowDepthCm', kind: 'numeric', unit: 'cm', description: 'Lying snow depth', resolve: pick('snowDepthCm') },
+  { key: 'snowfallRateMmH', kind: 'numeric', unit: 'mm/h', description: 'Snowfall rate (water equivalent)', resolve: pick('snowfallRateMmH') },
+  {
+    key: 'windRelative',
+    kind: 'categorical',
+    unit: 'category',
+    description: 'Wind direction relative to the beach (needs beach orientation)',
+    values: WIND_RELATIVE_VALUES,
+    resolve: (point, context) => {
+      const windDir = num(point.windDirection);
+      const facing = num(context.beachFacingDeg);
+      if (windDir === undefined || facing === undefined) return undefined;
+      return deriveWindRelative(windDir, facing);
+    },
+  },
+];
+
+export const CONDITION_VARIABLES: ReadonlyMap<string, ConditionVariable> = new Map(
+  variables.map(variable => [variable.key, variable])
+);
+
+export function getConditionVariable(key: string): ConditionVariable | undefined {
+  return CONDITION_VARIABLES.get(key);
+}
@@ -0,0 +1,59 @@
+/**
+ * Activity condition DSL
+ *
+ * Parses the condition strings in src/data/activities/* and scores weather
+ * points against them (perfect / good / fair / poor).
+ */
+
+export {
+  parseCondition,
+  validateActivityConditions,
+  getTierConditions,
+  ConditionParseException,
+  CONDITION_TIERS,
+} from './conditionParser';
+export type {
+  ConditionExpr,
+  ComparisonNode,
+  ConditionOperator,
+  ConditionValue,
+  ConditionTier,
+  ConditionIssue,
+} from './conditionParser';
+
+export {
+  CONDITION_VARIABLES,
+  WIND_RELATIVE_VALUES,
+  getConditionVariable,
+  deriveWindRelative,
+} from './conditionVariables';
+export type {
+  ConditionVariable,
+  ConditionVariableUnit,
+  ConditionContext,
+  ConditionPoint,
+  WindRelative,
+} from './conditionVariables';
+
+export { compileActivityConditions, evaluateActivityConditions } from './conditionEvaluator';
+export type {
+  ActivityEvaluation,
+  ClauseResult,
+  ClauseStatus,
+  CompiledActivityConditions,
+} from './conditionEvaluator';
+
+export {
+  buildActivityTimelines,
+  buildActivityTimeline,
+  findActivityWindows,
+  findBestWindow,
+  mergeHourlyWithMarine,
+  TIER_SCORE,
+} from './activityTimeline';
+export type {
+  ActivityTimelineInput,
+  ActivityTimeline,
+  ActivityHour,
+  ActivityWindow,
+} from './activityTimeline';
@@ -0,0 +1,61 @@
+/**
+ * Tests for the local sun/moon ephemeris
+ */
+
+import { getDarkWindow, getDayEphemeris, getMoonPositionAt } from '../ephemeris';
+
+const LONDON = { lat: 51.5, lon: -0.13 };
+const TROMSO = { lat: 69.65, lon: 18.96 };
+
+const minutesBetween = (iso: string | undefined, expected: string) =>
+  Math.abs(new Date(iso ?? 0).getTime() - new Date(expected).getTime()) / 60000;
+
+describe('lib/astro/ephemeris', () => {
+  it('matches published sun times for London at midsummer', () => {
+    const { sun, timezone } = getDayEphemeris(LONDON.lat, LONDON.lon, '2025-06-21');
+
+    expect(timezone).toBe('Europe/London');
+    expect(minutesBetween(sun.sunriseISO, '2025-06-21T03:43:00Z')).toBeLessThan(3);
+    expect(minutesBetween(sun.sunsetISO, '2025-06-21T20:21:00Z')).toBeLessThan(3);
+    expect(minutesBetween(sun.civilDuskISO, '2025-06-21T21:09:00Z')).toBeLessThan(3);
+    // The sun never gets 18° below the horizon in London in June
+    expect(sun.astronomicalDuskISO).toBeUndefined();
+    expect(getDarkWindow(LONDON.lat, LONDON.lon, '2025-06-21')).toBeUndefined();
+  });
+
+  it('orders blue and golden hours around sunrise and sunset', () => {
+    const { sun } = getDayEphemeris(LONDON.lat, LONDON.lon, '2025-06-21');
+
+    expect(sun.blueHour.morning?.endISO).toBe(sun.goldenHour.morning?.startISO);
+    expect(sun.goldenHour.evening?.endISO).toBe(sun.blueHour.evening?.startISO);
+    expect(sun.goldenHour.morning!.startISO < sun.sunriseISO!).toBe(true);
+    expect(sun.goldenHour.evening!.endISO > sun.sunsetISO!).toBe(true);
+  });
+
+  it('finds the moon overhead and underfoot from its hour angle', () => {
+    const { moon, solunar } = getDayEphemeris(LONDON.lat, LONDON.lon, '2025-06-21');
+
+    // Culminations sit due south (overhead) and due north (underfoot)
+    expect(getMoonPositionAt(LONDON.lat, LONDON.lon, new Date(moon.upperTransitISO!)).azimuth).toBeCloseTo(180, 0);
+    expect(moon.transitPosition!.altitude).toBeGreaterThan(0);
+    const underfoot = getMoonPositionAt(LONDON.lat, LONDON.lon, new Date(moon.lowerTransitISO!)).azimuth;
+    expect(Math.min(underfoot, 360 - underfoot)).toBeLessThan(1);
+    expect(moon.hourly).toHaveLength(24);
+
+    expect(solunar.map(p => p.event)).toEqual(['moonrise', 'upper-transit', 'moonset', 'lower-transit']);
+    const major = solunar.find(p => p.type === 'major')!;
+    expect(new Date(major.endISO).getTime() - new Date(major.startISO).getTime()).toBe(2 * 3600000);
+  });
+
+  it('handles polar day and night without bogus times', () => {
+    const summer = getDayEphemeris(TROMSO.lat, TROMSO.lon, '2025-06-21');
+    expect(summer.timezone).toBe('Europe/Oslo');
+    expect(summer.sun.polar).toBe('day');
+    expect(summer.sun.sunriseISO).toBeUndefined();
+
+    const winter = getDayEphemeris(TROMSO.lat, TROMSO.lon, '2025-12-21');
+    expect(winter.sun.polar).toBe('night');
+    expect(winter.sun.civilDawnISO).toBeDefined();
+    expect(getDarkWindow(TROMSO.lat, TROMSO.lon, '2025-12-21')).toBeDefined();
+  });
+});
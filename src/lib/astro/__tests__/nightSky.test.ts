@@ -0,0 +1,91 @@
+/**
+ * Tests for the computed night-sky calendar and the models behind it
+ */
+
+import { getLocalEclipses } from '../eclipses';
+import { METEOR_SHOWERS, getShowerPeak } from '../meteorShowers';
+import { cloudCoverAt, getNightSkyCalendar } from '../nightSkyCalendar';
+import { getPlanetPosition } from '../planets';
+import { TleError, createPropagator, parseTle, predictPasses } from '../satellites';
+
+const LONDON = { lat: 51.5, lon: -0.13 };
+
+// Vallado et al. (2006) verification case
+const VANGUARD = `1 00005U 58002B   00179.78495062  .00000023  00000-0  28098-4 0  4753
+2 00005  34.2682 348.7242 1859667 331.7664  19.3264 10.82419157413667`;
+
+const ISS = `ISS (ZARYA)
+1 25544U 98067A   08264.51782528 -.00002182  00000-0 -11606-4 0  2927
+2 25544  51.6416 247.4627 0006703 130.5360 325.0288 15.72125391563537`;
+
+describe('lib/astro/nightSky', () => {
+  it('reproduces the SGP4 verification vectors', () => {
+    const tle = parseTle(VANGUARD);
+    const propagate = createPropagator(tle);
+
+    const [x, y, z] = propagate(tle.epochMs + 360 * 60000).position;
+    expect(x).toBeCloseTo(-7154.0312, 2);
+    expect(y).toBeCloseTo(-3783.1768, 2);
+    expect(z).toBeCloseTo(-3536.1941, 2);
+    expect(() => parseTle(VANGUARD.replace('4753', '4754'))).toThrow(TleError);
+  });
+
+  it('finds evening ISS passes over London', () => {
+    const start = Date.UTC(2008, 8, 21, 12);
+    const passes = predictPasses(parseTle(ISS), LONDON.lat, LONDON.lon, start, start + 86400000);
+
+    expect(passes.length).toBeGreaterThan(0);
+    expect(passes.every((p) => p.visible && p.maxElevation >= 10)).toBe(true);
+    expect(passes[0].name).toBe('ISS (ZARYA)');
+  });
+
+  it('works out eclipse visibility for the observer', () => {
+    const [eclipse] = getLocalEclipses(LONDON.lat, LONDON.lon, Date.UTC(2026, 7, 12), Date.UTC(2026, 7, 13));
+
+    // Total in northern Spain, a deep partial low in the west from London
+    expect(eclipse.kind).toBe('solar');
+    expect(eclipse.type).toBe('total');
+    expect(eclipse.visible).toBe(true);
+    expect(eclipse.central).toBe(false);
+    expect(eclipse.localMagnitude).toBeGreaterThan(0.88);
+    expect(eclipse.localMagnitude).toBeLessThan(0.97);
+  });
+
+  it('places shower peaks and planet elongations on the right dates', () => {
+    const perseids = METEOR_SHOWERS.find((s) => s.code === 'PER')!;
+    const peak = getShowerPeak(perseids, 2025).toISOString().slice(0, 10);
+    expect(['2025-08-12', '2025-08-13']).toContain(peak);
+
+    // Venus at greatest western elongation
+    expect(getPlanetPosition('Venus', Date.UTC(2025, 5, 1)).elongation).toBeCloseTo(45.9, 0);
+  });
+
+  it('ranks tonight against the cloud forecast', () => {
+    const time: string[] = [];
+    const cloudcover: number[] = [];
+    for (let h = 0; h < 48; h++) {
+      time.push(new Date(Date.UTC(2026, 7, 12) + h * 3600000).toISOString());
+      // Overcast evening, clearing after 22:00 UTC
+      cloudcover.push(h < 22 ? 80 : 10);
+    }
+    const calendar = getNightSkyCalendar(LONDON.lat, LONDON.lon, { date: '2026-08-12', cloudCover: { time, cloudcover } });
+    const [top] = calendar.events;
+    const eclipse = calendar.events.find((e) => e.type === 'eclipse');
+
+    expect(top.name).toBe('Perseids');
+    expect(top.cloudCover).toBe(10);
+    expect(eclipse?.cloudCover).toBe(80);
+    expect(eclipse?.visibility).toBe('poor');
+    expect(calendar.events.map((e) => e.score)).toEqual([...calendar.events.map((e) => e.score)].sort((a, b) => b - a));
+  });
+
+  it('reads offset-less Open-Meteo times as local time at the location', () => {
+    const hourly = { time: ['2026-08-12T21:00', '2026-08-12T22:00'], cloudcover: [80, 10] };
+    // 21:00 BST is 20:00 UTC
+    const at = Date.UTC(2026, 7, 12, 20);
+
+    expect(cloudCoverAt(hourly, at, 'Europe/London')).toBe(80);
+    expect(cloudCoverAt({ ...hourly, utc_offset_seconds: 3600 }, at)).toBe(80);
+    expect(cloudCoverAt(hourly, at, 'America/New_York')).toBeUndefined();
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Solar and lunar eclipses and how they look from a given place
+ *
+ * Candidates come from Meeus ch. 54 (new/full moons close enough to a
+ * node), which gives the instant of greatest eclipse to a few minutes and
+ * the lunar phase durations. Solar eclipses are then worked out locally
+ * from topocentric sun and moon positions, sampled every minute, so the
+ * magnitude and contact times are for the observer rather than the globe.
+ */
+
+import {
+  AU_KM,
+  DEG,
+  EARTH_RADIUS_KM,
+  angularSeparation,
+  deltaTSeconds,
+  julianEphemerisDay,
+  moonHorizontal,
+  moonPosition,
+  msFromJulianDay,
+  sunAltitude,
+  sunPosition,
+  toHorizontal,
+  toTopocentric,
+} from './sky';
+
+export type EclipseKind = 'solar' | 'lunar';
+export type SolarEclipseType = 'total' | 'annular' | 'hybrid' | 'partial';
+export type LunarEclipseType = 'total' | 'partial' | 'penumbral';
+
+export interface Eclipse {
+  kind: EclipseKind;
+  type: SolarEclipseType | LunarEclipseType;
+  /** Greatest eclipse anywhere on Earth */
+  greatestISO: string;
+  /** Umbral magnitude for lunar eclipses; fraction of the sun's diameter covered at best for solar */
+  magnitude: number;
+  /** Distance of the shadow axis from Earth's centre, in Earth radii */
+  gamma: number;
+  /** Lunar eclipses: [start, end] of each phase */
+  phases?: LunarPhaseTimes;
+}
+
+export interface LunarPhaseTimes {
+  penumbral: [string, string];
+  partial?: [string, string];
+  total?: [string, string];
+}
+
+export interface LocalEclipse extends Eclipse {
+  visible: boolean;
+  /** First and last moment anything of the eclipse can be seen from here */
+  startISO?: string;
+  endISO?: string;
+  /** Best moment from here */
+  maxISO?: string;
+  /** Magnitude seen from here (solar) or at the best visible moment (lunar) */
+  localMagnitude?: number;
+  /** Altitude of the eclipsed body at `maxISO` */
+  altitude?: number;
+  /** Solar eclipses: inside the path of totality or annularity */
+  central?: boolean;
+  /** Lunar eclipses: umbral phases (partial/total) are above the horizon */
+  umbralVisible?: boolean;
+}
+
+const SYNODIC_MONTH = 29.530588861;
+const MINUTE_MS = 60000;
+const LOCAL_SOLAR_WINDOW_MS = 4 * 60 * MINUTE_MS;
+const SUN_SEMI_DIAMETER_AU = 959.63 / 3600;
+const MOON_RADIUS_RATIO = 0.272481;
+const SUNRISE_ALT = -0.833;
+
+function sinDeg(x: number): number {
+  return Math.sin(x * DEG);
+}
+
+function cosDeg(x: number): number {
+  return Math.cos(x * DEG);
+}
+
+/**
+ * Eclipse (if any) at lunation k: integer for new moon, +0.5 for full moon
+ */
+function eclipseAtLunation(k: number): Eclipse | null {
+  const t = k / 1236.85;
+  const t2 = t * t;
+  const f = 160.7108 + 390.67050284 * k - 0.0016118 * t2 - 0.00000227 * t2 * t;
+  if (Math.abs(sinDeg(f)) > 0.36) return null;
+
+  const jde0 = 2451550.09766 + SYNODIC_MONTH * k + 0.00015437 * t2 - 0.00000015 * t2 * t;
+  const m = 2.5534 + 29.1053567 * k - 0.0000014 * t2;
+  const mp = 201.5643 + 385.81693528 * k + 0.0107582 * t2 + 0.00001238 * t2 * t;
+  const omega = 124.7746 - 1.56375588 * k + 0.0020672 * t2;
+  const e = 1 - 0.002516 * t - 0.0000074 * t2;
+  const f1 = f - 0.02665 * sinDeg(omega);
+  const a1 = 299.77 + 0.107408 * k - 0.009173 * t2;
+  const isSolar = Number.isInteger(k);
+
+  const jde = jde0
+    + (isSolar ? -0.4075 * sinDeg(mp) + 0.1721 * e * sinDeg(m) : -0.4065 * sinDeg(mp) + 0.1727 * e * sinDeg(m))
+    + 0.0161 * sinDeg(2 * mp) - 0.0097 * sinDeg(2 * f1) + 0.0073 * e * sinDeg(mp - m)
+    - 0.005 * e * sinDeg(mp + m) - 0.0023 * sinDeg(mp - 2 * f1) + 0.0021 * e * sinDeg(2 * m)
+    + 0.0012 * sinDeg(mp + 2 * f1) + 0.0006 * e * sinDeg(2 * mp + m) - 0.0004 * sinDeg(3 * mp)
+    - 0.0003 * e * sinDeg(m + 2 * f1) + 0.0003 * sinDeg(a1) - 0.0002 * e * sinDeg(m - 2 * f1)
+    - 0.0002 * e * sinDeg(2 * mp - m) - 0.0002 * sinDeg(omega);
+
+  const p = 0.207 * e * sinDeg(m) + 0.0024 * e * sinDeg(2 * m) - 0.0392 * sinDeg(mp) + 0.0116 * sinDeg(2 * mp)
+    - 0.0073 * e * sinDeg(mp + m) + 0.0067 * e * sinDeg(mp - m) + 0.0118 * sinDeg(2 * f1);
+  const q = 5.2207 - 0.0048 * e * cosDeg(m) + 0.002 * e * cosDeg(2 * m) - 0.3299 * cosDeg(mp)
+    - 0.006 * e * cosDeg(mp + m) + 0.0041 * e * cosDeg(mp - m);
+  const w = Math.abs(cosDeg(f1));
+  const gamma = (p * cosDeg(f1) + q * sinDeg(f1)) * (1 - 0.0048 * w);
+  const u = 0.0059 + 0.0046 * e * cosDeg(m) - 0.0182 * cosDeg(mp) + 0.0004 * cosDeg(2 * mp) - 0.0005 * cosDeg(m + mp);
+  const g = Math.abs(gamma);
+
+  // JDE is dynamical time, about a minute ahead of UT
+  const greatestISO = new Date(toUniversalTime(msFromJulianDay(jde))).toISOString();
+
+  if (isSolar) {
+    if (g > 1.5433 + u) return null;
+    let type: SolarEclipseType;
+    let magnitude: number;
+    if (g < 0.9972) {
+      type = u < 0 ? 'total' : u > 0.0047 ? 'annular' : 'hybrid';
+      magnitude = 1;
+    } else {
+      type = 'partial';
+      magnitude = (1.5433 + u - g) / (0.5461 + 2 * u);
+    }
+    return { kind: 'solar', type, greatestISO, magnitude: round3(magnitude), gamma: round3(gamma) };
+  }
+
+  const penumbral = (1.5573 + u - g) / 0.545;
+  if (penumbral <= 0) return null;
+  const umbral = (1.0128 - u - g) / 0.545;
+  const type: LunarEclipseType = umbral >= 1 ? 'total' : umbral > 0 ? 'partial' : 'penumbral';
+  return {
+    kind: 'lunar',
+    type,
+    greatestISO,
+    magnitude: round3(umbral > 0 ? umbral : penumbral),
+    gamma: round3(gamma),
+    phases: lunarPhases(mp, u, g, greatestISO),
+  };
+}
+
+function toUniversalTime(ttMs: number): number {
+  return ttMs - deltaTSeconds(ttMs) * 1000;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Penumbral, partial and total phase limits from the Meeus semi-durations
+ */
+function lunarPhases(mp: number, u: number, g: number, greatestISO: string): LunarPhaseTimes {
+  const n = 0.5458 + 0.04 * cosDeg(mp);
+  const greatest = Date.parse(greatestISO);
+  const span = (radius: number): [string, string] | undefined => {
+    if (radius <= g) return undefined;
+    const semiMs = ((60 / n) * Math.sqrt(radius * radius - g * g)) * MINUTE_MS;
+    return [new Date(greatest - semiMs).toISOString(), new Date(greatest + semiMs).toISOString()];
+  };
+  return {
+    penumbral: span(1.5573 + u) ?? [greatestISO, greatestISO],
+    partial: span(1.0128 - u),
+    total: span(0.4678 - u),
+  };
+}
+
+/**
+ * Every eclipse with greatest eclipse between two instants
+ */
+export function findEclipses(startMs: number, endMs: number): Eclipse[] {
+  const kAt = (ms: number) => (ms / 86400000 + 2440587.5 - 2451550.09766) / SYNODIC_MONTH;
+  const eclipses: Eclipse[] = [];
+  for (let k = Math.floor(kAt(startMs)) - 1; k <= Math.ceil(kAt(endMs)) + 1; k += 0.5) {
+    const eclipse = eclipseAtLunation(k);
+    if (!eclipse) continue;
+    const at = Date.parse(eclipse.greatestISO);
+    if (at >= startMs && at < endMs) eclipses.push(eclipse);
+  }
+  return eclipses;
+}
+
+interface SolarSample {
+  ms: number;
+  magnitude: number;
+  sunAltitude: number;
+}
+
+/**
+ * Apparent radii and centre separation of the sun and moon from a place
+ */
+function discsAt(lat: number, lon: number, ms: number) {
+  const jde = julianEphemerisDay(ms);
+  const sun = toTopocentric(sunPosition(jde), lat, lon, ms);
+  const moon = toTopocentric(moonPosition(jde), lat, lon, ms);
+  return {
+    sun,
+    sunRadius: (SUN_SEMI_DIAMETER_AU * AU_KM) / sun.distanceKm,
+    moonRadius: Math.asin((MOON_RADIUS_RATIO * EARTH_RADIUS_KM) / moon.distanceKm) / DEG,
+    separation: angularSeparation(sun.ra, sun.dec, moon.ra, moon.dec),
+  };
+}
+
+function solarMagnitudeAt(lat: number, lon: number, ms: number): SolarSample {
+  const { sun, sunRadius, moonRadius, separation } = discsAt(lat, lon, ms);
+  return {
+    ms,
+    magnitude: (sunRadius + moonRadius - separation) / (2 * sunRadius),
+    sunAltitude: toHorizontal(sun.ra, sun.dec, lat, lon, ms).altitude,
+  };
+}
+
+function localSolarEclipse(eclipse: Eclipse, lat: number, lon: number): LocalEclipse {
+  const greatest = Date.parse(eclipse.greatestISO);
+  const seen: SolarSample[] = [];
+  let best: SolarSample | null = null;
+  let central: boolean | undefined;
+
+  for (let ms = greatest - LOCAL_SOLAR_WINDOW_MS; ms <= greatest + LOCAL_SOLAR_WINDOW_MS; ms += MINUTE_MS) {
+    const sample = solarMagnitudeAt(lat, lon, ms);
+    if (sample.magnitude <= 0 || sample.sunAltitude < SUNRISE_ALT) continue;
+    seen.push(sample);
+    if (!best || sample.magnitude > best.magnitude) best = sample;
+  }
+  if (!best) return { ...eclipse, visible: false };
+
+  if (eclipse.type !== 'partial') {
+    // Inside the path when one disc sits wholly within the other
+    const { sunRadius, moonRadius, separation } = discsAt(lat, lon, best.ms);
+    central = separation <= Math.abs(sunRadius - moonRadius);
+  }
+
+  return {
+    ...eclipse,
+    visible: true,
+    startISO: new Date(seen[0].ms).toISOString(),
+    endISO: new Date(seen[seen.length - 1].ms).toISOString(),
+    maxISO: new Date(best.ms).toISOString(),
+    localMagnitude: round3(Math.min(best.magnitude, 1.1)),
+    altitude: Math.round(best.sunAltitude),
+    central,
+  };
+}
+
+function localLunarEclipse(eclipse: Eclipse, lat: number, lon: number): LocalEclipse {
+  const [start, end] = (eclipse.phases?.penumbral ?? [eclipse.greatestISO, eclipse.greatestISO]).map(Date.parse);
+  const umbral = eclipse.phases?.partial?.map(Date.parse);
+  const greatest = Date.parse(eclipse.greatestISO);
+  // Moon up and the sky not in full daylight
+  const canSee = (ms: number) => moonHorizontal(lat, lon, ms).altitude > 0 && sunAltitude(lat, lon, ms) < SUNRISE_ALT;
+
+  const visibleTimes: number[] = [];
+  for (let ms = start; ms <= end; ms += 5 * MINUTE_MS) {
+    if (canSee(ms)) visibleTimes.push(ms);
+  }
+  if (canSee(greatest)) visibleTimes.push(greatest);
+  visibleTimes.sort((a, b) => a - b);
+  if (visibleTimes.length === 0) return { ...eclipse, visible: false };
+
+  // Best moment: greatest eclipse if visible, else the visible time nearest to it
+  const maxMs = visibleTimes.reduce((a, b) => (Math.abs(b - greatest) < Math.abs(a - greatest) ? b : a));
+  const umbralVisible = umbral !== undefined && visibleTimes.some((ms) => ms >= umbral[0] && ms <= umbral[1]);
+
+  return {
+    ...eclipse,
+    visible: true,
+    startISO: new Date(visibleTimes[0]).toISOString(),
+    endISO: new Date(visibleTimes[visibleTimes.length - 1]).toISOString(),
+    maxISO: new Date(maxMs).toISOString(),
+    localMagnitude: maxMs === greatest ? eclipse.magnitude : undefined,
+    altitude: Math.round(moonHorizontal(lat, lon, maxMs).altitude),
+    umbralVisible,
+  };
+}
+
+/**
+ * Eclipses between two instants with their circumstances at a location,
+ * including ones that cannot be seen from there (`visible: false`)
+ */
+export function getLocalEclipses(lat: number, lon: number, startMs: number, endMs: number): LocalEclipse[] {
+  return findEclipses(startMs, endMs).map((eclipse) =>
+    eclipse.kind === 'solar' ? localSolarEclipse(eclipse, lat, lon) : localLunarEclipse(eclipse, lat, lon)
+  );
+}
@@ -0,0 +1,385 @@
+/**
+ * Local sun and moon ephemeris: lunar transits, solunar periods, twilight,
+ * golden/blue hour and moon position for a location and day
+ *
+ * Altitudes and azimuths come from SunCalc; transits use the same
+ * low-precision orbital elements (good to a minute or two, plenty for
+ * solunar tables). Events are found by sampling the local day every
+ * 10 minutes and bisecting sign changes, so polar days and nights simply
+ * have no crossing rather than a bogus time.
+ */
+
+import { Temporal } from '@js-temporal/polyfill';
+import suncalc from 'suncalc';
+import { getTimezoneForCoordinates } from '../date/timezone';
+
+const { getPosition, getMoonPosition, getMoonIllumination } = suncalc;
+
+export interface TimeWindow {
+  startISO: string;
+  endISO: string;
+}
+
+export interface TwilightPhases {
+  sunriseISO?: string;
+  sunsetISO?: string;
+  solarNoonISO?: string;
+  civilDawnISO?: string;
+  civilDuskISO?: string;
+  nauticalDawnISO?: string;
+  nauticalDuskISO?: string;
+  astronomicalDawnISO?: string;
+  astronomicalDuskISO?: string;
+  /** Sun between -4° and +6° */
+  goldenHour: { morning?: TimeWindow; evening?: TimeWindow };
+  /** Sun between -6° and -4° */
+  blueHour: { morning?: TimeWindow; evening?: TimeWindow };
+  /** Set when the sun never crosses the horizon that day */
+  polar?: 'day' | 'night';
+}
+
+export type SolunarEvent = 'upper-transit' | 'lower-transit' | 'moonrise' | 'moonset';
+
+export interface SolunarPeriod {
+  type: 'major' | 'minor';
+  event: SolunarEvent;
+  peakISO: string;
+  startISO: string;
+  endISO: string;
+}
+
+export interface MoonPosition {
+  /** Degrees above the horizon, refraction included */
+  altitude: number;
+  /** Degrees clockwise from north */
+  azimuth: number;
+  distanceKm: number;
+}
+
+export interface MoonEphemeris {
+  moonriseISO?: string;
+  moonsetISO?: string;
+  /** Moon overhead (upper culmination) */
+  upperTransitISO?: string;
+  /** Moon underfoot (lower culmination) */
+  lowerTransitISO?: string;
+  /** Position at the upper transit, the highest the moon gets that day */
+  transitPosition?: MoonPosition;
+  illuminationPct: number;
+  /** 0 = new, 0.25 = first quarter, 0.5 = full, 0.75 = last quarter */
+  phaseFraction: number;
+  /** Position at the top of every local hour */
+  hourly: Array<MoonPosition & { timeISO: string }>;
+  /** Set when the moon never crosses the horizon that day */
+  polar?: 'up' | 'down';
+}
+
+export interface DayEphemeris {
+  localDate: string;
+  timezone: string;
+  sun: TwilightPhases;
+  moon: MoonEphemeris;
+  /** Major (±1h of a transit) and minor (±30min of rise/set) periods, in time order */
+  solunar: SolunarPeriod[];
+}
+
+export interface EphemerisOptions {
+  /** Zone the day runs in; defaults to the zone at the coordinates */
+  timezone?: string;
+}
+
+const RAD = Math.PI / 180;
+const DAY_MS = 86400000;
+const HOUR_MS = 3600000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const OBLIQUITY = RAD * 23.4397;
+const SAMPLE_MS = 10 * 60 * 1000;
+const BISECT_STEPS = 12;
+
+// Altitude thresholds in degrees
+const SUNRISE_ALT = -0.833; // Upper limb on the horizon, with refraction
+const MOONRISE_ALT = 0.133; // SunCalc's moonrise convention
+const CIVIL_ALT = -6;
+const NAUTICAL_ALT = -12;
+const ASTRONOMICAL_ALT = -18;
+const BLUE_HOUR_TOP_ALT = -4;
+const GOLDEN_HOUR_TOP_ALT = 6;
+
+const MAJOR_HALF_MS = HOUR_MS;
+const MINOR_HALF_MS = HOUR_MS / 2;
+
+type Body = 'sun' | 'moon';
+
+interface Crossing {
+  ms: number;
+  rising: boolean;
+}
+
+function daysSinceJ2000(ms: number): number {
+  return ms / DAY_MS - 0.5 + J1970 - J2000;
+}
+
+/**
+ * Right ascension in radians, using the same series as SunCalc
+ */
+function rightAscension(body: Body, d: number): number {
+  if (body === 'sun') {
+    const m = RAD * (357.5291 + 0.98560028 * d);
+    const c = RAD * (1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m));
+    const l = m + c + RAD * 102.9372 + Math.PI;
+    return Math.atan2(Math.sin(l) * Math.cos(OBLIQUITY), Math.cos(l));
+  }
+  const meanLongitude = RAD * (218.316 + 13.176396 * d);
+  const meanAnomaly = RAD * (134.963 + 13.064993 * d);
+  const argumentOfLatitude = RAD * (93.272 + 13.22935 * d);
+  const l = meanLongitude + RAD * 6.289 * Math.sin(meanAnomaly);
+  const b = RAD * 5.128 * Math.sin(argumentOfLatitude);
+  return Math.atan2(
+    Math.sin(l) * Math.cos(OBLIQUITY) - Math.tan(b) * Math.sin(OBLIQUITY),
+    Math.cos(l)
+  );
+}
+
+/**
+ * Local hour angle in radians; zero at upper transit, ±π at lower transit
+ */
+function hourAngle(body: Body, ms: number, lon: number): number {
+  const d = daysSinceJ2000(ms);
+  const siderealTime = RAD * (280.16 + 360.9856235 * d) + RAD * lon;
+  return siderealTime - rightAscension(body, d);
+}
+
+function altitudeDeg(body: Body, ms: number, lat: number, lon: number): number {
+  const position = body === 'sun' ? getPosition(new Date(ms), lat, lon) : getMoonPosition(new Date(ms), lat, lon);
+  return position.altitude / RAD;
+}
+
+/**
+ * Times in [startMs, endMs) where `f` changes sign, refined by bisection
+ */
+function findCrossings(f: (ms: number) => number, startMs: number, endMs: number): Crossing[] {
+  const crossings: Crossing[] = [];
+  let prevMs = startMs;
+  let prev = f(prevMs);
+
+  for (let ms = startMs + SAMPLE_MS; ms <= endMs; ms += SAMPLE_MS) {
+    const value = f(ms);
+    if ((prev < 0 && value >= 0) || (prev >= 0 && value < 0)) {
+      let lo = prevMs;
+      let hi = ms;
+      const loValue = prev;
+      for (let i = 0; i < BISECT_STEPS; i++) {
+        const mid = (lo + hi) / 2;
+        if ((f(mid) < 0) === (loValue < 0)) lo = mid;
+        else hi = mid;
+      }
+      const at = Math.round((lo + hi) / 2);
+      if (at < endMs) crossings.push({ ms: at, rising: loValue < 0 });
+    }
+    prevMs = ms;
+    prev = value;
+  }
+  return crossings;
+}
+
+function toISO(ms: number | undefined): string | undefined {
+  return ms === undefined ? undefined : new Date(ms).toISOString();
+}
+
+function windowOf(startMs: number | undefined, endMs: number | undefined): TimeWindow | undefined {
+  if (startMs === undefined || endMs === undefined || endMs <= startMs) return undefined;
+  return { startISO: new Date(startMs).toISOString(), endISO: new Date(endMs).toISOString() };
+}
+
+/**
+ * Local midnight-to-midnight bounds of a calendar date in a zone (23 or 25
+ * hours long on DST change days)
+ */
+function localDayBounds(localDate: string, timeZone: string): { startMs: number; endMs: number } {
+  const date = Temporal.PlainDate.from(localDate);
+  return {
+    startMs: date.toZonedDateTime({ timeZone }).epochMilliseconds,
+    endMs: date.add({ days: 1 }).toZonedDateTime({ timeZone }).epochMilliseconds,
+  };
+}
+
+function toLocalDate(date: string | Date, timeZone: string): string {
+  if (typeof date === 'string') return Temporal.PlainDate.from(date.slice(0, 10)).toString();
+  return Temporal.Instant.fromEpochMilliseconds(date.getTime()).toZonedDateTimeISO(timeZone).toPlainDate().toString();
+}
+
+/**
+ * Moon altitude and azimuth at an instant
+ */
+export function getMoonPositionAt(lat: number, lon: number, at: Date | number): MoonPosition {
+  const position = getMoonPosition(new Date(at), lat, lon);
+  return {
+    altitude: position.altitude / RAD,
+    // SunCalc measures azimuth from south, westward
+    azimuth: ((position.azimuth / RAD) + 180 + 360) % 360,
+    distanceKm: position.distance,
+  };
+}
+
+function getTwilightPhases(lat: number, lon: number, startMs: number, endMs: number): TwilightPhases {
+  const sunCrossings = (threshold: number) =>
+    findCrossings((ms) => altitudeDeg('sun', ms, lat, lon) - threshold, startMs, endMs);
+  const first = (crossings: Crossing[], rising: boolean) => crossings.find((c) => c.rising === rising)?.ms;
+
+  const noon = findCrossings((ms) => Math.sin(hourAngle('sun', ms, lon)), startMs, endMs).find((c) => c.rising)?.ms;
+  const horizon = sunCrossings(SUNRISE_ALT);
+  const civil = sunCrossings(CIVIL_ALT);
+  const nautical = sunCrossings(NAUTICAL_ALT);
+  const astronomical = sunCrossings(ASTRONOMICAL_ALT);
+  const blueTop = sunCrossings(BLUE_HOUR_TOP_ALT);
+  const goldenTop = sunCrossings(GOLDEN_HOUR_TOP_ALT);
+
+  const sunrise = first(horizon, true);
+  const sunset = first(horizon, false);
+  const civilDawn = first(civil, true);
+  const civilDusk = first(civil, false);
+  const blueMorningEnd = first(blueTop, true);
+  const blueEveningStart = first(blueTop, false);
+
+  let polar: TwilightPhases['polar'];
+  if (horizon.length === 0 && noon !== undefined) {
+    polar = altitudeDeg('sun', noon, lat, lon) > SUNRISE_ALT ? 'day' : 'night';
+  }
+
+  return {
+    sunriseISO: toISO(sunrise),
+    sunsetISO: toISO(sunset),
+    solarNoonISO: toISO(noon),
+    civilDawnISO: toISO(civilDawn),
+    civilDuskISO: toISO(civilDusk),
+    nauticalDawnISO: toISO(first(nautical, true)),
+    nauticalDuskISO: toISO(first(nautical, false)),
+    astronomicalDawnISO: toISO(first(astronomical, true)),
+    astronomicalDuskISO: toISO(first(astronomical, false)),
+    // When the sun never climbs past 6° the golden hours meet at noon
+    goldenHour: {
+      morning: windowOf(blueMorningEnd, first(goldenTop, true) ?? noon),
+      evening: windowOf(first(goldenTop, false) ?? noon, blueEveningStart),
+    },
+    blueHour: {
+      morning: windowOf(civilDawn, blueMorningEnd),
+      evening: windowOf(blueEveningStart, civilDusk),
+    },
+    polar,
+  };
+}
+
+function getMoonEphemeris(lat: number, lon: number, startMs: number, endMs: number): MoonEphemeris {
+  const horizon = findCrossings((ms) => altitudeDeg('moon', ms, lat, lon) - MOONRISE_ALT, startMs, endMs);
+  // sin(H) rises through zero at upper transit and falls through it at lower transit
+  const transits = findCrossings((ms) => Math.sin(hourAngle('moon', ms, lon)), startMs, endMs);
+  const upper = transits.find((c) => c.rising)?.ms;
+  const lower = transits.find((c) => !c.rising)?.ms;
+
+  const middayMs = startMs + (endMs - startMs) / 2;
+  const illumination = getMoonIllumination(new Date(middayMs));
+
+  const hourly: MoonEphemeris['hourly'] = [];
+  for (let ms = startMs; ms < endMs; ms += HOUR_MS) {
+    hourly.push({ timeISO: new Date(ms).toISOString(), ...getMoonPositionAt(lat, lon, ms) });
+  }
+
+  let polar: MoonEphemeris['polar'];
+  if (horizon.length === 0) {
+    polar = altitudeDeg('moon', middayMs, lat, lon) > MOONRISE_ALT ? 'up' : 'down';
+  }
+
+  return {
+    moonriseISO: toISO(horizon.find((c) => c.rising)?.ms),
+    moonsetISO: toISO(horizon.find((c) => !c.rising)?.ms),
+    upperTransitISO: toISO(upper),
+    lowerTransitISO: toISO(lower),
+    transitPosition: upper === undefined ? undefined : getMoonPositionAt(lat, lon, upper),
+    illuminationPct: Math.round(illumination.fraction * 1000) / 10,
+    phaseFraction: illumination.phase,
+    hourly,
+    polar,
+  };
+}
+
+/**
+ * Solunar periods for a day: major around the moon overhead and underfoot,
+ * minor around moonrise and moonset
+ */
+export function getSolunarPeriods(moon: MoonEphemeris): SolunarPeriod[] {
+  const events: Array<[SolunarEvent, string | undefined, SolunarPeriod['type'], number]> = [
+    ['upper-transit', moon.upperTransitISO, 'major', MAJOR_HALF_MS],
+    ['lower-transit', moon.lowerTransitISO, 'major', MAJOR_HALF_MS],
+    ['moonrise', moon.moonriseISO, 'minor', MINOR_HALF_MS],
+    ['moonset', moon.moonsetISO, 'minor', MINOR_HALF_MS],
+  ];
+
+  return events
+    .filter((entry): entry is [SolunarEvent, string, SolunarPeriod['type'], number] => entry[1] !== undefined)
+    .map(([event, peakISO, type, halfMs]) => {
+      const peak = Date.parse(peakISO);
+      return {
+        type,
+        event,
+        peakISO,
+        startISO: new Date(peak - halfMs).toISOString(),
+        endISO: new Date(peak + halfMs).toISOString(),
+      };
+    })
+    .sort((a, b) => a.peakISO.localeCompare(b.peakISO));
+}
+
+/**
+ * Sun, moon and solunar data for one local calendar day
+ *
+ * @param date - 'YYYY-MM-DD' in the location's zone, or an instant whose
+ *   local date is used (default now)
+ */
+export function getDayEphemeris(
+  lat: number,
+  lon: number,
+  date: string | Date = new Date(),
+  options: EphemerisOptions = {}
+): DayEphemeris {
+  const timezone = options.timezone ?? getTimezoneForCoordinates(lat, lon);
+  const localDate = toLocalDate(date, timezone);
+  const { startMs, endMs } = localDayBounds(localDate, timezone);
+  const moon = getMoonEphemeris(lat, lon, startMs, endMs);
+
+  return {
+    localDate,
+    timezone,
+    sun: getTwilightPhases(lat, lon, startMs, endMs),
+    moon,
+    solunar: getSolunarPeriods(moon),
+  };
+}
+
+/**
+ * Astronomically dark window starting on the evening of `date`: from
+ * astronomical dusk to the next astronomical dawn. Undefined when the sky
+ * never gets fully dark (high-latitude summer).
+ */
+export function getDarkWindow(
+  lat: number,
+  lon: number,
+  date: string | Date = new Date(),
+  options: EphemerisOptions = {}
+): TimeWindow | undefined {
+  const timezone = options.timezone ?? getTimezoneForCoordinates(lat, lon);
+  const localDate = toLocalDate(date, timezone);
+  const { startMs, endMs } = localDayBounds(localDate, timezone);
+  const searchEnd = endMs + (endMs - startMs);
+  const astronomical = findCrossings((ms) => altitudeDeg('sun', ms, lat, lon) - ASTRONOMICAL_ALT, startMs, searchEnd);
+
+  const dusk = astronomical.find((c) => !c.rising && c.ms < endMs)?.ms;
+  if (dusk === undefined) {
+    // Already dark all day (polar night): the whole local day counts
+    return altitudeDeg('sun', startMs + (endMs - startMs) / 2, lat, lon) < ASTRONOMICAL_ALT
+      ? windowOf(startMs, endMs)
+      : undefined;
+  }
+  const dawn = astronomical.find((c) => c.rising && c.ms > dusk)?.ms;
+  return windowOf(dusk, dawn);
+}
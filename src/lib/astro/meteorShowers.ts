@@ -0,0 +1,158 @@
+/**
+ * Annual meteor showers: peak dates, radiant altitude and moonlight
+ *
+ * Shower data follows the IMO Meteor Shower Calendar. Peaks are fixed in
+ * solar longitude (J2000), so the date drifts by up to a day between years
+ * and is recomputed for each one. Rates fall away from the peak as
+ * ZHR·10^(−B·|Δλ|), with B the IMO profile slope.
+ */
+
+import {
+  DEG,
+  julianEphemerisDay,
+  moonHorizontal,
+  solarLongitudeJ2000,
+  toHorizontal,
+  compassPoint,
+} from './sky';
+import suncalc from 'suncalc';
+
+const { getMoonIllumination } = suncalc;
+
+export interface MeteorShower {
+  code: string;
+  name: string;
+  /** Solar longitude of the peak, J2000 degrees */
+  peakSolarLongitude: number;
+  /** Activity period as month-day strings */
+  active: [string, string];
+  zhr: number;
+  /** Profile slope (per degree of solar longitude) */
+  slope: number;
+  /** Radiant at the peak, J2000 degrees */
+  radiantRa: number;
+  radiantDec: number;
+  /** Entry speed, km/s */
+  velocity: number;
+  parentBody?: string;
+}
+
+export const METEOR_SHOWERS: MeteorShower[] = [
+  { code: 'QUA', name: 'Quadrantids', peakSolarLongitude: 283.15, active: ['12-28', '01-12'], zhr: 110, slope: 1.8, radiantRa: 230, radiantDec: 49, velocity: 41, parentBody: '2003 EH1' },
+  { code: 'LYR', name: 'Lyrids', peakSolarLongitude: 32.32, active: ['04-14', '04-30'], zhr: 18, slope: 0.4, radiantRa: 271, radiantDec: 34, velocity: 49, parentBody: 'C/1861 G1 Thatcher' },
+  { code: 'ETA', name: 'Eta Aquariids', peakSolarLongitude: 45.5, active: ['04-19', '05-28'], zhr: 50, slope: 0.08, radiantRa: 338, radiantDec: -1, velocity: 66, parentBody: '1P/Halley' },
+  { code: 'SDA', name: 'Southern Delta Aquariids', peakSolarLongitude: 127, active: ['07-12', '08-23'], zhr: 25, slope: 0.09, radiantRa: 340, radiantDec: -16, velocity: 41, parentBody: '96P/Machholz' },
+  { code: 'CAP', name: 'Alpha Capricornids', peakSolarLongitude: 127, active: ['07-03', '08-15'], zhr: 5, slope: 0.1, radiantRa: 306, radiantDec: -9, velocity: 23, parentBody: '169P/NEAT' },
+  { code: 'PER', name: 'Perseids', peakSolarLongitude: 140, active: ['07-17', '08-24'], zhr: 100, slope: 0.2, radiantRa: 48, radiantDec: 58, velocity: 59, parentBody: '109P/Swift-Tuttle' },
+  { code: 'DRA', name: 'Draconids', peakSolarLongitude: 195.4, active: ['10-06', '10-10'], zhr: 10, slope: 1, radiantRa: 262, radiantDec: 54, velocity: 20, parentBody: '21P/Giacobini-Zinner' },
+  { code: 'ORI', name: 'Orionids', peakSolarLongitude: 208, active: ['10-02', '11-07'], zhr: 20, slope: 0.12, radiantRa: 95, radiantDec: 16, velocity: 66, parentBody: '1P/Halley' },
+  { code: 'STA', name: 'Southern Taurids', peakSolarLongitude: 197, active: ['09-10', '11-20'], zhr: 5, slope: 0.03, radiantRa: 32, radiantDec: 9, velocity: 27, parentBody: '2P/Encke' },
+  { code: 'NTA', name: 'Northern Taurids', peakSolarLongitude: 230, active: ['10-20', '12-10'], zhr: 5, slope: 0.03, radiantRa: 58, radiantDec: 22, velocity: 29, parentBody: '2P/Encke' },
+  { code: 'LEO', name: 'Leonids', peakSolarLongitude: 235.27, active: ['11-06', '11-30'], zhr: 15, slope: 0.35, radiantRa: 152, radiantDec: 22, velocity: 71, parentBody: '55P/Tempel-Tuttle' },
+  { code: 'GEM', name: 'Geminids', peakSolarLongitude: 262.2, active: ['12-04', '12-20'], zhr: 150, slope: 0.4, radiantRa: 112, radiantDec: 33, velocity: 35, parentBody: '3200 Phaethon' },
+  { code: 'URS', name: 'Ursids', peakSolarLongitude: 270.7, active: ['12-17', '12-26'], zhr: 10, slope: 0.9, radiantRa: 217, radiantDec: 76, velocity: 33, parentBody: '8P/Tuttle' },
+];
+
+export interface MeteorShowerNight {
+  shower: MeteorShower;
+  peakISO: string;
+  /** Nights from the peak (0 on peak night) */
+  daysFromPeak: number;
+  /** Best hour within the window: radiant highest with the moon least in the way */
+  bestISO: string;
+  radiantAltitude: number;
+  radiantDirection: string;
+  moonIlluminationPct: number;
+  /** Moon altitude at the best hour; negative means it has set */
+  moonAltitude: number;
+  /** Expected meteors per hour for one observer at the best hour */
+  expectedRate: number;
+}
+
+const HOUR_MS = 3600000;
+const DAY_MS = 86400000;
+
+/**
+ * Instant of a shower's peak in a given year
+ */
+export function getShowerPeak(shower: MeteorShower, year: number): Date {
+  // The sun moves about 0.9856° a day; start from the equinox and step in
+  const equinox = Date.UTC(year, 2, 20, 12);
+  let ms = equinox + (((shower.peakSolarLongitude - solarLongitudeJ2000(julianEphemerisDay(equinox)) + 360) % 360) / 0.9856) * DAY_MS;
+  for (let i = 0; i < 4; i++) {
+    const diff = ((shower.peakSolarLongitude - solarLongitudeJ2000(julianEphemerisDay(ms)) + 540) % 360) - 180;
+    ms += (diff / 0.9856) * DAY_MS;
+  }
+  // Quadrantids peak in early January, so the equinox start lands a year late
+  if (new Date(ms).getUTCFullYear() > year) ms -= 365.2422 * DAY_MS;
+  return new Date(ms);
+}
+
+function isActiveOn(shower: MeteorShower, ms: number): boolean {
+  const d = new Date(ms);
+  const monthDay = `${String(d.getUTCMonth() + 1).padStart(2, '0')}-${String(d.getUTCDate()).padStart(2, '0')}`;
+  const [from, to] = shower.active;
+  return from <= to ? monthDay >= from && monthDay <= to : monthDay >= from || monthDay <= to;
+}
+
+/**
+ * Hourly rate seen by one observer: ZHR scaled down for a low radiant and
+ * for moonlight (up to about 60% lost with a bright moon high in the sky)
+ */
+function expectedRate(zhr: number, radiantAltitude: number, moonIllumination: number, moonAltitude: number): number {
+  if (radiantAltitude <= 0) return 0;
+  const moonUp = Math.max(0, Math.sin(moonAltitude * DEG));
+  const moonFactor = 1 - 0.6 * moonIllumination * Math.sqrt(moonUp);
+  return zhr * Math.sin(radiantAltitude * DEG) * moonFactor;
+}
+
+/**
+ * Showers active during a dark window (normally dusk to dawn), with the
+ * best hour to watch each one
+ */
+export function getMeteorShowersForNight(
+  lat: number,
+  lon: number,
+  startMs: number,
+  endMs: number
+): MeteorShowerNight[] {
+  const midMs = startMs + (endMs - startMs) / 2;
+  const year = new Date(midMs).getUTCFullYear();
+  const illumination = getMoonIllumination(new Date(midMs)).fraction;
+  const nights: MeteorShowerNight[] = [];
+
+  for (const shower of METEOR_SHOWERS) {
+    if (!isActiveOn(shower, midMs)) continue;
+    const peak = [year - 1, year, year + 1]
+      .map((y) => getShowerPeak(shower, y).getTime())
+      .reduce((a, b) => (Math.abs(b - midMs) < Math.abs(a - midMs) ? b : a));
+    const solarOffset = Math.abs(((solarLongitudeJ2000(julianEphemerisDay(midMs)) - shower.peakSolarLongitude + 540) % 360) - 180);
+    const zhr = shower.zhr * Math.pow(10, -shower.slope * solarOffset);
+
+    let best: Omit<MeteorShowerNight, 'shower' | 'peakISO' | 'daysFromPeak'> | null = null;
+    for (let ms = startMs; ms <= endMs; ms += HOUR_MS / 2) {
+      const radiant = toHorizontal(shower.radiantRa, shower.radiantDec, lat, lon, ms);
+      const moonAltitude = moonHorizontal(lat, lon, ms).altitude;
+      const rate = expectedRate(zhr, radiant.altitude, illumination, moonAltitude);
+      if (!best || rate > best.expectedRate) {
+        best = {
+          bestISO: new Date(ms).toISOString(),
+          radiantAltitude: Math.round(radiant.altitude),
+          radiantDirection: compassPoint(radiant.azimuth),
+          moonIlluminationPct: Math.round(illumination * 100),
+          moonAltitude: Math.round(moonAltitude),
+          expectedRate: Math.round(rate),
+        };
+      }
+    }
+    if (!best || best.expectedRate < 1) continue;
+
+    nights.push({
+      shower,
+      peakISO: new Date(peak).toISOString(),
+      daysFromPeak: Math.round((midMs - peak) / DAY_MS) || 0,
+      ...best,
+    });
+  }
+  return nights.sort((a, b) => b.expectedRate - a.expectedRate);
+}
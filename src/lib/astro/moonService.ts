@@ -2,6 +2,8 @@ import { Temporal } from '@js-temporal/polyfill';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { getSupabaseServerClient } from '../supabase/serverClient';
 import { round0dp } from '../utils/coordinates';
+import { getTimezoneForCoordinates } from '../date/timezone';
+import { getDayEphemeris, type SolunarPeriod, type TwilightPhases } from './ephemeris';
 import suncalc from 'suncalc';
 const { getMoonTimes, getTimes, getMoonIllumination } = suncalc;
 
@@ -15,7 +17,10 @@ export interface MoonSunData {
   dayLengthMinutes?: number;
   moonriseISO?: string;
   moonsetISO?: string;
-  moonTransitISO?: string; // Solunar Theory: moon overhead/underfoot time
+  moonTransitISO?: string; // Solunar Theory: moon overhead time
+  moonUnderfootISO?: string; // Solunar Theory: moon underfoot (lower transit) time
+  solunarPeriods?: SolunarPeriod[];
+  twilight?: TwilightPhases;
   moonPhaseName?: string;
   moonPhaseFraction?: number;
   moonIlluminationPct?: number;
@@ -182,43 +187,6 @@ function calculateDaysUntilNextPhase(phaseFraction?: number): { daysUntilFullMoo
   };
 }
 
-/**
- * Calculate moon transit time (upper culmination) for Solunar Theory
- * Transit ≈ midpoint between moonrise and moonset
- */
-function calculateMoonTransit(moonriseISO?: string, moonsetISO?: string): string | undefined {
-  if (!moonriseISO || !moonsetISO) {
-    // If we only have one, estimate transit 6 hours after moonrise or 6 hours before moonset
-    if (moonriseISO) {
-      const moonrise = new Date(moonriseISO);
-      moonrise.setHours(moonrise.getHours() + 6);
-      return moonrise.toISOString();
-    }
-    if (moonsetISO) {
-      const moonset = new Date(moonsetISO);
-      moonset.setHours(moonset.getHours() - 6);
-      return moonset.toISOString();
-    }
-    return undefined;
-  }
-
-  const moonrise = new Date(moonriseISO);
-  const moonset = new Date(moonsetISO);
-
-  // Handle case where moonset is before moonrise (crosses midnight)
-  if (moonset < moonrise) {
-    // Add 24 hours to moonset for calculation
-    const adjustedMoonset = new Date(moonset);
-    adjustedMoonset.setDate(adjustedMoonset.getDate() + 1);
-    const transitTime = moonrise.getTime() + (adjustedMoonset.getTime() - moonrise.getTime()) / 2;
-    return new Date(transitTime).toISOString();
-  }
-
-  // Calculate midpoint between moonrise and moonset
-  const transitTime = moonrise.getTime() + (moonset.getTime() - moonrise.getTime()) / 2;
-  return new Date(transitTime).toISOString();
-}
-
 function toZonedInstantISO(localDate: string, time: string | undefined, timeZone: string): string | undefined {
   if (!time) return undefined;
   const trimmed = time.trim();
@@ -351,8 +319,35 @@ async function writeCache(
   }
 }
 
+/**
+ * Fill in transits, solunar periods and twilight from the local ephemeris.
+ * These are cheap and deterministic, so they are recomputed rather than
+ * cached; rise/set times from the provider win when present.
+ */
+function withEphemeris(payload: MoonSunData): MoonSunData {
+  try {
+    const ephemeris = getDayEphemeris(payload.latBucket, payload.lonBucket, payload.localDate, {
+      timezone: payload.timezone,
+    });
+    return {
+      ...payload,
+      sunriseISO: payload.sunriseISO ?? ephemeris.sun.sunriseISO,
+      sunsetISO: payload.sunsetISO ?? ephemeris.sun.sunsetISO,
+      moonriseISO: payload.moonriseISO ?? ephemeris.moon.moonriseISO,
+      moonsetISO: payload.moonsetISO ?? ephemeris.moon.moonsetISO,
+      moonTransitISO: ephemeris.moon.upperTransitISO,
+      moonUnderfootISO: ephemeris.moon.lowerTransitISO,
+      solunarPeriods: ephemeris.solunar,
+      twilight: ephemeris.sun,
+    };
+  } catch (error) {
+    console.warn('[moon] Ephemeris calculation failed', error);
+    return payload;
+  }
+}
+
 function mapRowToPayload(row: MoonCacheRow): MoonSunData {
-  return {
+  return withEphemeris({
     latBucket: row.lat_bucket,
     lonBucket: row.lon_bucket,
     localDate: row.local_date,
@@ -372,7 +367,7 @@ function mapRowToPayload(row: MoonCacheRow): MoonSunData {
     source: row.source ?? DEFAULT_PROVIDER,
     cachedAt: row.cached_at,
     expiresAt: row.expires_at,
-  };
+  });
 }
 
 function computeExpiryIso(localDate: string, timeZone: string): string {
@@ -389,6 +384,17 @@ function computeExpiryIso(localDate: string, timeZone: string): string {
   }
 }
 
+/**
+ * HH:MM wall-clock time of an instant in a zone (SunCalc returns instants)
+ */
+function toLocalTime(date: Date | undefined, timeZone: string): string | undefined {
+  if (!date || Number.isNaN(date.getTime())) return undefined;
+  return Temporal.Instant.fromEpochMilliseconds(date.getTime())
+    .toZonedDateTimeISO(timeZone)
+    .toPlainTime()
+    .toString({ smallestUnit: 'minute' });
+}
+
 /**
  * Fetch astronomy data from Open-Meteo (FREE, no API key required)
  * Primary data source for sun data; moon data comes from SunCalc
@@ -433,15 +439,16 @@ async function fetchFromOpenMeteo(lat: number, lon: number, date: string): Promi
     const targetDate = new Date(data.daily.time[0] + 'T12:00:00Z');
     const moonTimes = getMoonTimes(targetDate, rlat, rlon);
     const moonIllum = getMoonIllumination(targetDate);
+    const timezone = data.timezone || getTimezoneForCoordinates(lat, lon);
 
     // Convert Open-Meteo format + SunCalc moon data to IpGeoAstronomyResponse format
     const result: IpGeoAstronomyResponse = {
       date: data.daily.time[0],
-      timezone: data.timezone || 'UTC',
-      sunrise: data.daily.sunrise?.[0]?.substring(11, 16), // Extract HH:MM from ISO
+      timezone,
+      sunrise: data.daily.sunrise?.[0]?.substring(11, 16), // Extract HH:MM from ISO (already local)
       sunset: data.daily.sunset?.[0]?.substring(11, 16),
-      moonrise: moonTimes.rise?.toISOString().substring(11, 16),
-      moonset: moonTimes.set?.toISOString().substring(11, 16),
+      moonrise: toLocalTime(moonTimes.rise, timezone),
+      moonset: toLocalTime(moonTimes.set, timezone),
       moon_angle: moonIllum.phase * 360, // Convert 0-1 to degrees
       moon_illumination_percentage: moonIllum.fraction * 100, // Convert 0-1 to percentage
     };
@@ -459,6 +466,8 @@ async function fetchFromOpenMeteo(lat: number, lon: number, date: string): Promi
  * Ultimate fallback when all APIs fail
  */
 async function fetchFromSunCalc(lat: number, lon: number, date: string): Promise<IpGeoAstronomyResponse> {
+  // Offline lookup, so times are local even when every API is down
+  const timezone = getTimezoneForCoordinates(lat, lon);
   try {
     console.log(`🌙 SunCalc: Computing local astronomy for lat=${lat}, lon=${lon}`);
     
@@ -469,11 +478,11 @@ async function fetchFromSunCalc(lat: number, lon: number, date: string): Promise
 
     const result: IpGeoAstronomyResponse = {
       date,
-      timezone: 'UTC',
-      sunrise: sunTimes.sunrise?.toISOString().substring(11, 16), // HH:MM format
-      sunset: sunTimes.sunset?.toISOString().substring(11, 16),
-      moonrise: moonTimes.rise?.toISOString().substring(11, 16),
-      moonset: moonTimes.set?.toISOString().substring(11, 16),
+      timezone,
+      sunrise: toLocalTime(sunTimes.sunrise, timezone), // HH:MM local time
+      sunset: toLocalTime(sunTimes.sunset, timezone),
+      moonrise: toLocalTime(moonTimes.rise, timezone),
+      moonset: toLocalTime(moonTimes.set, timezone),
       moon_angle: moonIllum.phase * 360, // Convert 0-1 to degrees
       moon_illumination_percentage: moonIllum.fraction * 100, // Convert 0-1 to percentage
     };
@@ -485,7 +494,7 @@ async function fetchFromSunCalc(lat: number, lon: number, date: string): Promise
     // Return minimal data if calculation fails
     return {
       date,
-      timezone: 'UTC',
+      timezone,
     };
   }
 }
@@ -543,9 +552,8 @@ function buildPayload(
   
   const moonPhaseStage = getMoonPhaseStage(moonPhaseFraction);
   const { daysUntilFullMoon, daysUntilNewMoon } = calculateDaysUntilNextPhase(moonPhaseFraction);
-  const moonTransitISO = calculateMoonTransit(moonriseISO, moonsetISO);
 
-  return {
+  return withEphemeris({
     latBucket,
     lonBucket,
     localDate,
@@ -555,7 +563,6 @@ function buildPayload(
     dayLengthMinutes: parseDayLength(data.day_length as string | undefined),
     moonriseISO,
     moonsetISO,
-    moonTransitISO,
     moonPhaseName: data.moon_phase as string | undefined,
     moonPhaseFraction,
     moonIlluminationPct: illuminationPct,
@@ -565,7 +572,7 @@ function buildPayload(
     source: DEFAULT_PROVIDER,
     cachedAt: Temporal.Now.instant().toString(),
     expiresAt: computeExpiryIso(localDate, timezone),
-  };
+  });
 }
 
 export async function getMoonSunData(params: FetchParams): Promise<MoonSunData> {
@@ -0,0 +1,309 @@
+/**
+ * Tonight's sky, computed locally and ranked
+ *
+ * Pulls together everything worth stepping outside for between sunset and
+ * the next sunrise — eclipses, meteor showers, planets and satellite passes —
+ * scores each on how good it is in a clear sky, then weights that by the
+ * hourly cloud forecast at the moment it is best seen.
+ */
+
+import { Temporal } from '@js-temporal/polyfill';
+import { getDarkWindow, getDayEphemeris, type TimeWindow } from './ephemeris';
+import { getLocalEclipses, type LocalEclipse } from './eclipses';
+import { getMeteorShowersForNight, type MeteorShowerNight } from './meteorShowers';
+import { getVisiblePlanets, type PlanetVisibility } from './planets';
+import {
+  SatellitePropagationError,
+  parseTleFile,
+  predictPasses,
+  tleAgeDays,
+  type SatellitePass,
+} from './satellites';
+import { startOfLocalDate } from '../date/timezone';
+
+export type NightSkyEventType = 'eclipse' | 'meteor_shower' | 'planet' | 'satellite';
+export type NightSkyVisibility = 'excellent' | 'good' | 'fair' | 'poor';
+
+export interface NightSkyEvent {
+  type: NightSkyEventType;
+  name: string;
+  description: string;
+  visibility: NightSkyVisibility;
+  /** 0–100, clear-sky quality weighted by cloud at `bestISO` */
+  score: number;
+  startISO: string;
+  endISO: string;
+  bestISO: string;
+  /** Local HH:MM of `bestISO` */
+  bestTime: string;
+  direction?: string;
+  /** Forecast cloud cover (%) at `bestISO`, when hourly data covers it */
+  cloudCover?: number;
+}
+
+export interface NightSkyCalendar {
+  localDate: string;
+  timezone: string;
+  /** Sunset to the next sunrise; undefined under the midnight sun */
+  night?: TimeWindow;
+  /** Astronomical dusk to dawn, when the sky gets fully dark */
+  darkWindow?: TimeWindow;
+  /** Best first */
+  events: NightSkyEvent[];
+}
+
+export interface NightSkyOptions {
+  date?: string | Date;
+  /** Zone the night runs in; defaults to the zone at the coordinates */
+  timezone?: string;
+  /** Contents of a TLE file (two- or three-line format) for pass prediction */
+  tle?: string;
+  /**
+   * Open-Meteo style hourly cloud cover (`cloudcover` or `cloud_cover`).
+   * Times without an offset, as Open-Meteo returns with timezone=auto, are
+   * local: shifted by `utc_offset_seconds` when given, otherwise read in
+   * `timezone`
+   */
+  cloudCover?: { time?: string[]; cloudcover?: number[]; cloud_cover?: number[]; utc_offset_seconds?: number };
+  /** Cap on satellite passes listed (default 5) */
+  maxSatellitePasses?: number;
+}
+
+const HOUR_MS = 3600000;
+/** Element sets older than this predict passes minutes off, so they are skipped */
+const MAX_TLE_AGE_DAYS = 30;
+/** Meteors an hour below which a shower is not worth going out for */
+const MIN_METEOR_RATE = 3;
+
+function toLocalTime(iso: string, timeZone: string): string {
+  return Temporal.Instant.from(iso)
+    .toZonedDateTimeISO(timeZone)
+    .toPlainTime()
+    .toString({ smallestUnit: 'minute' });
+}
+
+function visibilityFor(score: number): NightSkyVisibility {
+  if (score >= 75) return 'excellent';
+  if (score >= 50) return 'good';
+  if (score >= 25) return 'fair';
+  return 'poor';
+}
+
+/**
+ * Instant of an hourly forecast time. Offset-less local times use the
+ * payload's UTC offset, then the zone, and are read as UTC only as a last
+ * resort — never in the runtime's own zone.
+ */
+function forecastTimeMs(time: string, utcOffsetSeconds: number | undefined, timeZone: string | undefined): number {
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(time)) return Date.parse(time);
+  if (typeof utcOffsetSeconds === 'number') return Date.parse(`${time}Z`) - utcOffsetSeconds * 1000;
+  if (timeZone) {
+    try {
+      return Temporal.PlainDateTime.from(time).toZonedDateTime(timeZone).epochMilliseconds;
+    } catch {
+      return NaN;
+    }
+  }
+  return Date.parse(`${time}Z`);
+}
+
+/**
+ * Cloud cover (%) at an instant, interpolated between the hourly values
+ * either side; undefined when the forecast does not reach it
+ */
+export function cloudCoverAt(hourly: NightSkyOptions['cloudCover'], ms: number, timeZone?: string): number | undefined {
+  const times = Array.isArray(hourly?.time)
+    ? hourly.time.map((t) => forecastTimeMs(String(t), hourly.utc_offset_seconds, timeZone))
+    : [];
+  const column = hourly?.cloudcover ?? hourly?.cloud_cover;
+  const values = Array.isArray(column) ? column.map(Number) : [];
+  if (!times.length || times.length !== values.length) return undefined;
+
+  for (let i = 0; i < times.length; i++) {
+    if (!Number.isFinite(times[i]) || !Number.isFinite(values[i])) continue;
+    if (Math.abs(times[i] - ms) < 1000) return values[i];
+    const next = i + 1 < times.length ? times[i + 1] : NaN;
+    if (times[i] < ms && next > ms && Number.isFinite(values[i + 1]) && next - times[i] <= 3 * HOUR_MS) {
+      return values[i] + ((values[i + 1] - values[i]) * (ms - times[i])) / (next - times[i]);
+    }
+  }
+  return undefined;
+}
+
+function eclipseEvent(eclipse: LocalEclipse, timeZone: string): Omit<NightSkyEvent, 'visibility' | 'cloudCover'> | null {
+  if (!eclipse.visible || !eclipse.startISO || !eclipse.endISO || !eclipse.maxISO) return null;
+  const magnitude = eclipse.localMagnitude ?? 0;
+  const altitude = eclipse.altitude ?? 0;
+  const at = toLocalTime(eclipse.maxISO, timeZone);
+  const altitudeFactor = Math.min(1, Math.max(0.3, altitude / 20));
+
+  let name: string;
+  let description: string;
+  let base: number;
+  if (eclipse.kind === 'solar') {
+    const local = eclipse.central ? (eclipse.type === 'annular' ? 'Annular' : 'Total') : 'Partial';
+    name = `${local} solar eclipse`;
+    description = eclipse.central
+      ? `${name} from here, greatest at ${at} with the sun ${Math.round(altitude)}° up. Never look at the sun without eclipse glasses.`
+      : `${Math.round(magnitude * 100)}% of the sun's diameter covered at ${at}. Use eclipse glasses or a pinhole projector.`;
+    base = eclipse.central ? 100 : 40 + 55 * magnitude;
+  } else {
+    const local = eclipse.type === 'total' && eclipse.umbralVisible ? 'Total' : eclipse.umbralVisible ? 'Partial' : 'Penumbral';
+    name = `${local} lunar eclipse`;
+    description = local === 'Total'
+      ? `The moon turns coppery red around ${at}, ${Math.round(altitude)}° above the horizon.`
+      : local === 'Partial'
+        ? `Earth's shadow bites into the moon, deepest around ${at}.`
+        : `A subtle dimming of the moon around ${at}.`;
+    base = local === 'Total' ? 95 : local === 'Partial' ? 55 + 30 * Math.min(1, magnitude) : 25;
+  }
+
+  return {
+    type: 'eclipse',
+    name,
+    description,
+    score: base * altitudeFactor,
+    startISO: eclipse.startISO,
+    endISO: eclipse.endISO,
+    bestISO: eclipse.maxISO,
+    bestTime: at,
+  };
+}
+
+function meteorEvent(night: MeteorShowerNight, window: TimeWindow, timeZone: string): Omit<NightSkyEvent, 'visibility' | 'cloudCover'> {
+  const { shower } = night;
+  const at = toLocalTime(night.bestISO, timeZone);
+  const when = night.daysFromPeak === 0
+    ? 'peak tonight'
+    : `${Math.abs(night.daysFromPeak)} night${Math.abs(night.daysFromPeak) === 1 ? '' : 's'} ${night.daysFromPeak < 0 ? 'before' : 'after'} the peak`;
+  const moon = night.moonIlluminationPct >= 50 && night.moonAltitude > 0
+    ? ` Moonlight (${night.moonIlluminationPct}% lit) will hide the fainter ones.`
+    : '';
+  return {
+    type: 'meteor_shower',
+    name: shower.name,
+    description: `${shower.name} ${when}: about ${night.expectedRate} meteor${night.expectedRate === 1 ? '' : 's'} an hour around ${at}, radiant ${night.radiantAltitude}° up in the ${night.radiantDirection}.${moon}`,
+    score: 100 * (1 - Math.exp(-night.expectedRate / 40)),
+    startISO: window.startISO,
+    endISO: window.endISO,
+    bestISO: night.bestISO,
+    bestTime: at,
+    direction: night.radiantDirection,
+  };
+}
+
+function planetEvent(planet: PlanetVisibility, timeZone: string): Omit<NightSkyEvent, 'visibility' | 'cloudCover'> {
+  const at = toLocalTime(planet.bestISO, timeZone);
+  const brightness = Math.min(100, Math.max(10, 60 - 12 * planet.magnitude));
+  const when = planet.startISO === planet.endISO
+    ? `briefly up around ${at}`
+    : `up ${toLocalTime(planet.startISO, timeZone)}–${toLocalTime(planet.endISO, timeZone)}`;
+  return {
+    type: 'planet',
+    name: planet.name,
+    description: `${planet.name} (mag ${planet.magnitude.toFixed(1)}) is ${when}, highest at ${planet.bestAltitude}° in the ${planet.direction} around ${at}.`,
+    score: brightness * Math.min(1, Math.sqrt(planet.bestAltitude / 30)),
+    startISO: planet.startISO,
+    endISO: planet.endISO,
+    bestISO: planet.bestISO,
+    bestTime: at,
+    direction: planet.direction,
+  };
+}
+
+function satelliteEvent(pass: SatellitePass, timeZone: string): Omit<NightSkyEvent, 'visibility' | 'cloudCover'> {
+  const name = pass.name ?? 'Satellite';
+  const at = toLocalTime(pass.maxElevationISO, timeZone);
+  const minutes = Math.max(1, Math.round(pass.durationSec / 60));
+  return {
+    type: 'satellite',
+    name,
+    description: `${name} rises in the ${pass.riseDirection} at ${toLocalTime(pass.riseISO, timeZone)}, ${Math.round(pass.maxElevation)}° high at ${at}, and sets in the ${pass.setDirection} ${minutes} min after rising.`,
+    score: 25 + 0.7 * pass.maxElevation,
+    startISO: pass.visible?.startISO ?? pass.riseISO,
+    endISO: pass.visible?.endISO ?? pass.setISO,
+    bestISO: pass.maxElevationISO,
+    bestTime: at,
+    direction: pass.riseDirection,
+  };
+}
+
+function satellitePasses(tleText: string, lat: number, lon: number, night: TimeWindow): SatellitePass[] {
+  const startMs = Date.parse(night.startISO);
+  const endMs = Date.parse(night.endISO);
+  const passes: SatellitePass[] = [];
+  for (const tle of parseTleFile(tleText)) {
+    if (Math.abs(tleAgeDays(tle, startMs)) > MAX_TLE_AGE_DAYS) continue;
+    try {
+      passes.push(...predictPasses(tle, lat, lon, startMs, endMs));
+    } catch (err) {
+      // Deep-space objects in a mixed catalogue: not naked-eye targets anyway
+      if (!(err instanceof SatellitePropagationError)) throw err;
+    }
+  }
+  return passes;
+}
+
+/**
+ * Everything worth looking at from a location tonight, best first.
+ * Solar eclipses during the preceding day are included too.
+ */
+export function getNightSkyCalendar(lat: number, lon: number, options: NightSkyOptions = {}): NightSkyCalendar {
+  const today = getDayEphemeris(lat, lon, options.date ?? new Date(), { timezone: options.timezone });
+  const { localDate, timezone } = today;
+  const tomorrowDate = Temporal.PlainDate.from(localDate).add({ days: 1 }).toString();
+  const tomorrow = getDayEphemeris(lat, lon, tomorrowDate, { timezone });
+  const dayStartMs = startOfLocalDate(localDate, timezone);
+  const tomorrowStartMs = startOfLocalDate(tomorrowDate, timezone);
+
+  let night: TimeWindow | undefined;
+  if (today.sun.polar === 'night') {
+    night = { startISO: new Date(dayStartMs).toISOString(), endISO: new Date(tomorrowStartMs).toISOString() };
+  } else if (today.sun.sunsetISO) {
+    const dayAfterDate = Temporal.PlainDate.from(tomorrowDate).add({ days: 1 }).toString();
+    night = {
+      startISO: today.sun.sunsetISO,
+      endISO: tomorrow.sun.sunriseISO ?? new Date(startOfLocalDate(dayAfterDate, timezone)).toISOString(),
+    };
+  }
+  const darkWindow = getDarkWindow(lat, lon, localDate, { timezone });
+  const nightEndMs = night ? Date.parse(night.endISO) : tomorrowStartMs;
+
+  const candidates: Array<Omit<NightSkyEvent, 'visibility' | 'cloudCover'>> = [];
+  for (const eclipse of getLocalEclipses(lat, lon, dayStartMs, nightEndMs)) {
+    const event = eclipseEvent(eclipse, timezone);
+    if (event) candidates.push(event);
+  }
+
+  if (night) {
+    // Showers need a properly dark sky; fall back to the whole night in the summer twilight
+    const showerWindow = darkWindow ?? night;
+    for (const shower of getMeteorShowersForNight(lat, lon, Date.parse(showerWindow.startISO), Date.parse(showerWindow.endISO))) {
+      if (shower.expectedRate >= MIN_METEOR_RATE) candidates.push(meteorEvent(shower, showerWindow, timezone));
+    }
+    for (const planet of getVisiblePlanets(lat, lon, Date.parse(night.startISO), Date.parse(night.endISO))) {
+      candidates.push(planetEvent(planet, timezone));
+    }
+    if (options.tle) {
+      const passes = satellitePasses(options.tle, lat, lon, night)
+        .sort((a, b) => b.maxElevation - a.maxElevation)
+        .slice(0, options.maxSatellitePasses ?? 5);
+      for (const pass of passes) candidates.push(satelliteEvent(pass, timezone));
+    }
+  }
+
+  const events = candidates
+    .map((event): NightSkyEvent => {
+      const cloudCover = cloudCoverAt(options.cloudCover, Date.parse(event.bestISO), timezone);
+      const score = Math.round(event.score * (cloudCover === undefined ? 1 : 1 - 0.9 * (cloudCover / 100)));
+      return {
+        ...event,
+        score,
+        visibility: visibilityFor(score),
+        ...(cloudCover === undefined ? {} : { cloudCover: Math.round(cloudCover) }),
+      };
+    })
+    .sort((a, b) => b.score - a.score || Date.parse(a.bestISO) - Date.parse(b.bestISO));
+
+  return { localDate, timezone, night, darkWindow, events };
+}
@@ -0,0 +1,210 @@
+/**
+ * Naked-eye planet positions and visibility windows
+ *
+ * Orbits use the JPL "Keplerian elements for approximate positions"
+ * (Standish, valid 1800–2050), good to a few arcminutes for the bright
+ * planets; magnitudes use the Meeus ch. 41 phase-angle formulas, with
+ * Saturn's rings ignored (±0.5 mag).
+ */
+
+import {
+  DEG,
+  compassPoint,
+  eclipticToEquatorial,
+  julianEphemerisDay,
+  normalizeDeg,
+  obliquity,
+  sunAltitude,
+  toHorizontal,
+} from './sky';
+
+export type PlanetName = 'Mercury' | 'Venus' | 'Mars' | 'Jupiter' | 'Saturn';
+
+export interface PlanetPosition {
+  name: PlanetName;
+  ra: number;
+  dec: number;
+  distanceAu: number;
+  /** Angle from the sun, degrees; small means lost in twilight */
+  elongation: number;
+  magnitude: number;
+}
+
+export interface PlanetVisibility extends PlanetPosition {
+  /** Stretch of the night the planet is above `minAltitude` with the sky dark */
+  startISO: string;
+  endISO: string;
+  bestISO: string;
+  bestAltitude: number;
+  direction: string;
+}
+
+export interface PlanetVisibilityOptions {
+  /** Degrees above the horizon (default 8) */
+  minAltitude?: number;
+  /** Sun altitude counted as dark enough for planets (default -6°, civil dusk) */
+  maxSunAltitude?: number;
+}
+
+// a (AU), e, I, L, long. perihelion, long. node (degrees) and their rates per century
+type Elements = readonly [number, number, number, number, number, number];
+
+const ORBITS: Record<PlanetName | 'Earth', { elements: Elements; rates: Elements }> = {
+  Mercury: {
+    elements: [0.38709927, 0.20563593, 7.00497902, 252.2503235, 77.45779628, 48.33076593],
+    rates: [0.00000037, 0.00001906, -0.00594749, 149472.67411175, 0.16047689, -0.12534081],
+  },
+  Venus: {
+    elements: [0.72333566, 0.00677672, 3.39467605, 181.9790995, 131.60246718, 76.67984255],
+    rates: [0.0000039, -0.00004107, -0.0007889, 58517.81538729, 0.00268329, -0.27769418],
+  },
+  Earth: {
+    elements: [1.00000261, 0.01671123, -0.00001531, 100.46457166, 102.93768193, 0],
+    rates: [0.00000562, -0.00004392, -0.01294668, 35999.37244981, 0.32327364, 0],
+  },
+  Mars: {
+    elements: [1.52371034, 0.0933941, 1.84969142, -4.55343205, -23.94362959, 49.55953891],
+    rates: [0.00001847, 0.00007882, -0.00813131, 19140.30268499, 0.44441088, -0.29257343],
+  },
+  Jupiter: {
+    elements: [5.202887, 0.04838624, 1.30439695, 34.39644051, 14.72847983, 100.47390909],
+    rates: [-0.00011607, -0.00013253, -0.00183714, 3034.74612775, 0.21252668, 0.20469106],
+  },
+  Saturn: {
+    elements: [9.53667594, 0.05386179, 2.48599187, 49.95424423, 92.59887831, 113.66242448],
+    rates: [-0.0012506, -0.00050991, 0.00193609, 1222.49362201, -0.41897216, -0.28867794],
+  },
+};
+
+export const PLANETS: PlanetName[] = ['Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn'];
+
+const SAMPLE_MS = 10 * 60 * 1000;
+
+/**
+ * Heliocentric ecliptic position (J2000 frame), AU
+ */
+function heliocentric(body: PlanetName | 'Earth', jde: number): [number, number, number] {
+  const t = (jde - 2451545) / 36525;
+  const { elements, rates } = ORBITS[body];
+  const [a, e, inc, meanLongitude, perihelion, node] = elements.map((value, i) => value + rates[i] * t);
+
+  const argPerihelion = perihelion - node;
+  let m = normalizeDeg(meanLongitude - perihelion);
+  if (m > 180) m -= 360;
+
+  // Kepler's equation, degrees form
+  const eDeg = e / DEG;
+  let ecc = m + eDeg * Math.sin(m * DEG);
+  for (let i = 0; i < 10; i++) {
+    const delta = (m - (ecc - eDeg * Math.sin(ecc * DEG))) / (1 - e * Math.cos(ecc * DEG));
+    ecc += delta;
+    if (Math.abs(delta) < 1e-7) break;
+  }
+
+  const xp = a * (Math.cos(ecc * DEG) - e);
+  const yp = a * Math.sqrt(1 - e * e) * Math.sin(ecc * DEG);
+  const w = argPerihelion * DEG;
+  const o = node * DEG;
+  const i = inc * DEG;
+  return [
+    (Math.cos(w) * Math.cos(o) - Math.sin(w) * Math.sin(o) * Math.cos(i)) * xp
+      + (-Math.sin(w) * Math.cos(o) - Math.cos(w) * Math.sin(o) * Math.cos(i)) * yp,
+    (Math.cos(w) * Math.sin(o) + Math.sin(w) * Math.cos(o) * Math.cos(i)) * xp
+      + (-Math.sin(w) * Math.sin(o) + Math.cos(w) * Math.cos(o) * Math.cos(i)) * yp,
+    Math.sin(w) * Math.sin(i) * xp + Math.cos(w) * Math.sin(i) * yp,
+  ];
+}
+
+function apparentMagnitude(name: PlanetName, r: number, delta: number, phaseAngle: number): number {
+  const distance = 5 * Math.log10(r * delta);
+  const i = phaseAngle;
+  switch (name) {
+    case 'Mercury':
+      return -0.42 + distance + 0.038 * i - 0.000273 * i * i + 0.000002 * i * i * i;
+    case 'Venus':
+      return -4.4 + distance + 0.0009 * i + 0.000239 * i * i - 0.00000065 * i * i * i;
+    case 'Mars':
+      return -1.52 + distance + 0.016 * i;
+    case 'Jupiter':
+      return -9.4 + distance + 0.005 * i;
+    case 'Saturn':
+      return -8.88 + distance;
+  }
+}
+
+/**
+ * Geocentric apparent position, brightness and elongation of a planet
+ */
+export function getPlanetPosition(name: PlanetName, ms: number): PlanetPosition {
+  const jde = julianEphemerisDay(ms);
+  const planet = heliocentric(name, jde);
+  const earth = heliocentric('Earth', jde);
+  const geo = [planet[0] - earth[0], planet[1] - earth[1], planet[2] - earth[2]];
+  const delta = Math.hypot(geo[0], geo[1], geo[2]);
+  const r = Math.hypot(planet[0], planet[1], planet[2]);
+  const sunDistance = Math.hypot(earth[0], earth[1], earth[2]);
+
+  // Precess the J2000 ecliptic longitude to the equinox of date
+  const t = (jde - 2451545) / 36525;
+  const lambda = normalizeDeg(Math.atan2(geo[1], geo[0]) / DEG + 1.3972 * t);
+  const beta = Math.asin(geo[2] / delta) / DEG;
+  const { ra, dec } = eclipticToEquatorial(lambda, beta, obliquity(jde));
+
+  const clamp = (x: number) => Math.min(1, Math.max(-1, x));
+  const phaseAngle = Math.acos(clamp((r * r + delta * delta - sunDistance * sunDistance) / (2 * r * delta))) / DEG;
+  const elongation = Math.acos(clamp((sunDistance * sunDistance + delta * delta - r * r) / (2 * sunDistance * delta))) / DEG;
+
+  return {
+    name,
+    ra,
+    dec,
+    distanceAu: delta,
+    elongation: Math.round(elongation * 10) / 10,
+    magnitude: Math.round(apparentMagnitude(name, r, delta, phaseAngle) * 10) / 10,
+  };
+}
+
+/**
+ * Planets that are up while the sky is dark between two instants
+ * (normally dusk to dawn), brightest first
+ */
+export function getVisiblePlanets(
+  lat: number,
+  lon: number,
+  startMs: number,
+  endMs: number,
+  options: PlanetVisibilityOptions = {}
+): PlanetVisibility[] {
+  const minAltitude = options.minAltitude ?? 8;
+  const maxSunAltitude = options.maxSunAltitude ?? -6;
+  const darkTimes: number[] = [];
+  for (let ms = startMs; ms <= endMs; ms += SAMPLE_MS) {
+    if (sunAltitude(lat, lon, ms) < maxSunAltitude) darkTimes.push(ms);
+  }
+
+  const visible: PlanetVisibility[] = [];
+  for (const name of PLANETS) {
+    let first: number | null = null;
+    let last: number | null = null;
+    let best: { ms: number; altitude: number; azimuth: number } | null = null;
+    for (const ms of darkTimes) {
+      const { ra, dec } = getPlanetPosition(name, ms);
+      const { altitude, azimuth } = toHorizontal(ra, dec, lat, lon, ms);
+      if (altitude < minAltitude) continue;
+      first ??= ms;
+      last = ms;
+      if (!best || altitude > best.altitude) best = { ms, altitude, azimuth };
+    }
+    if (first === null || last === null || !best) continue;
+
+    visible.push({
+      ...getPlanetPosition(name, best.ms),
+      startISO: new Date(first).toISOString(),
+      endISO: new Date(last).toISOString(),
+      bestISO: new Date(best.ms).toISOString(),
+      bestAltitude: Math.round(best.altitude),
+      direction: compassPoint(best.azimuth),
+    });
+  }
+  return visible.sort((a, b) => a.magnitude - b.magnitude);
+}
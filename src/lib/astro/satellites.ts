@@ -0,0 +1,553 @@
+/**
+ * Satellite pass prediction from two-line elements
+ *
+ * Propagation is SGP4 (Vallado et al. 2006 revision, WGS-72 constants) for
+ * near-earth orbits, which covers the ISS, Tiangong, Starlink and anything
+ * else bright enough to spot by eye. Deep-space orbits (period ≥ 225 min)
+ * need SDP4 and are rejected. Positions are TEME; GMST rotates them to the
+ * ground without polar motion, which is a few metres at most.
+ */
+
+import {
+  DEG,
+  EARTH_RADIUS_KM,
+  compassPoint,
+  greenwichSiderealTime,
+  julianEphemerisDay,
+  sunAltitude,
+  sunPosition,
+} from './sky';
+
+export interface TwoLineElements {
+  name?: string;
+  catalogNumber: string;
+  /** Element set epoch */
+  epochMs: number;
+  /** Radians */
+  inclination: number;
+  raan: number;
+  eccentricity: number;
+  argumentOfPerigee: number;
+  meanAnomaly: number;
+  /** Revolutions per day */
+  meanMotion: number;
+  bstar: number;
+}
+
+export interface SatelliteState {
+  /** TEME position and velocity, km and km/s */
+  position: [number, number, number];
+  velocity: [number, number, number];
+}
+
+export interface LookAngles {
+  elevation: number;
+  azimuth: number;
+  rangeKm: number;
+}
+
+export interface SatellitePass {
+  name?: string;
+  riseISO: string;
+  setISO: string;
+  maxElevationISO: string;
+  maxElevation: number;
+  riseDirection: string;
+  setDirection: string;
+  durationSec: number;
+  /** Part of the pass where the satellite is sunlit and the sky is dark enough to see it */
+  visible?: { startISO: string; endISO: string };
+}
+
+export interface PassOptions {
+  /** Horizon mask in degrees (default 10) */
+  minElevation?: number;
+  /** Only return passes with a naked-eye visible part (default true) */
+  visibleOnly?: boolean;
+  /** Sun altitude the observer needs for a dark enough sky (default -6°) */
+  maxSunAltitude?: number;
+}
+
+export class TleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TleError';
+  }
+}
+
+export class SatellitePropagationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SatellitePropagationError';
+  }
+}
+
+// WGS-72, as the element sets are fitted with it
+const MU = 398600.8;
+const RE = 6378.135;
+const XKE = 60 / Math.sqrt((RE * RE * RE) / MU);
+const J2 = 0.001082616;
+const J3 = -0.00000253881;
+const J4 = -0.00000165597;
+const J3OJ2 = J3 / J2;
+const X2O3 = 2 / 3;
+const TWO_PI = 2 * Math.PI;
+const MINUTES_PER_DAY = 1440;
+
+const PASS_STEP_MS = 30 * 1000;
+const BISECT_STEPS = 10;
+
+function parseTleNumber(field: string, line: number): number {
+  const value = Number(field.trim());
+  if (!Number.isFinite(value)) throw new TleError(`Bad number "${field.trim()}" on TLE line ${line}`);
+  return value;
+}
+
+/**
+ * Fields like " 28098-4" with an implied leading decimal point
+ */
+function parseImpliedDecimal(field: string): number {
+  const trimmed = field.trim();
+  const match = trimmed.match(/^([+-]?)(\d+)([+-]\d)$/);
+  if (!match) return parseTleNumber(trimmed || '0', 1);
+  return Number(`${match[1]}0.${match[2]}e${match[3]}`);
+}
+
+function tleChecksumOk(line: string): boolean {
+  let sum = 0;
+  for (const char of line.slice(0, 68)) {
+    if (char >= '0' && char <= '9') sum += Number(char);
+    else if (char === '-') sum += 1;
+  }
+  return sum % 10 === Number(line[68]);
+}
+
+/**
+ * Parse one element set: two lines, optionally preceded by a name line
+ */
+export function parseTle(text: string): TwoLineElements {
+  const lines = text.split(/\r?\n/).map((l) => l.trimEnd()).filter(Boolean);
+  const line1 = lines.find((l) => l.startsWith('1 '));
+  const line2 = lines.find((l) => l.startsWith('2 '));
+  if (!line1 || !line2 || line1.length < 69 || line2.length < 69) {
+    throw new TleError('Expected two 69-character TLE lines');
+  }
+  if (!tleChecksumOk(line1) || !tleChecksumOk(line2)) {
+    throw new TleError('TLE checksum mismatch');
+  }
+  const nameLine = lines[lines.indexOf(line1) - 1];
+
+  const epochYear2 = parseTleNumber(line1.slice(18, 20), 1);
+  const epochYear = epochYear2 < 57 ? 2000 + epochYear2 : 1900 + epochYear2;
+  const epochDay = parseTleNumber(line1.slice(20, 32), 1);
+
+  return {
+    name: nameLine?.replace(/^0 /, '').trim() || undefined,
+    catalogNumber: line1.slice(2, 7).trim(),
+    epochMs: Date.UTC(epochYear, 0, 1) + (epochDay - 1) * 86400000,
+    bstar: parseImpliedDecimal(line1.slice(53, 61)),
+    inclination: parseTleNumber(line2.slice(8, 16), 2) * DEG,
+    raan: parseTleNumber(line2.slice(17, 25), 2) * DEG,
+    eccentricity: parseTleNumber(`0.${line2.slice(26, 33).trim()}`, 2),
+    argumentOfPerigee: parseTleNumber(line2.slice(34, 42), 2) * DEG,
+    meanAnomaly: parseTleNumber(line2.slice(43, 51), 2) * DEG,
+    meanMotion: parseTleNumber(line2.slice(52, 63), 2),
+  };
+}
+
+/**
+ * Every element set in a multi-satellite TLE file (e.g. CelesTrak "stations")
+ */
+export function parseTleFile(text: string): TwoLineElements[] {
+  const lines = text.split(/\r?\n/).map((l) => l.trimEnd()).filter(Boolean);
+  const sets: TwoLineElements[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith('1 ') || !lines[i + 1]?.startsWith('2 ')) continue;
+    const name = i > 0 && !lines[i - 1].startsWith('2 ') ? lines[i - 1] : '';
+    sets.push(parseTle([name, lines[i], lines[i + 1]].join('\n')));
+    i++;
+  }
+  return sets;
+}
+
+/**
+ * Initialised SGP4 propagator for one element set
+ */
+export function createPropagator(tle: TwoLineElements): (ms: number) => SatelliteState {
+  const { eccentricity: ecco, inclination: inclo, argumentOfPerigee: argpo, meanAnomaly: mo, raan: nodeo, bstar } = tle;
+  const noKozai = (tle.meanMotion * TWO_PI) / MINUTES_PER_DAY;
+
+  // Recover the original mean motion and semi-major axis from the Kozai values
+  const cosio = Math.cos(inclo);
+  const cosio2 = cosio * cosio;
+  const sinio = Math.sin(inclo);
+  const eccsq = ecco * ecco;
+  const omeosq = 1 - eccsq;
+  const rteosq = Math.sqrt(omeosq);
+  const ak = Math.pow(XKE / noKozai, X2O3);
+  const d1 = (0.75 * J2 * (3 * cosio2 - 1)) / (rteosq * omeosq);
+  let del = d1 / (ak * ak);
+  const adel = ak * (1 - del * del - del * (1 / 3 + (134 * del * del) / 81));
+  del = d1 / (adel * adel);
+  const no = noKozai / (1 + del);
+  const ao = Math.pow(XKE / no, X2O3);
+
+  if (TWO_PI / no >= 225) {
+    throw new SatellitePropagationError('Deep-space orbits (period of 225 minutes or more) are not supported');
+  }
+
+  const po = ao * omeosq;
+  const con42 = 1 - 5 * cosio2;
+  const con41 = -con42 - cosio2 - cosio2;
+  const posq = po * po;
+  const rp = ao * (1 - ecco);
+  const isimp = rp < 220 / RE + 1;
+
+  // Atmospheric drag parameters, with the s constant lowered for low perigees
+  let sfour = 78 / RE + 1;
+  let qzms24 = Math.pow((120 - 78) / RE, 4);
+  const perigee = (rp - 1) * RE;
+  if (perigee < 156) {
+    sfour = perigee < 98 ? 20 : perigee - 78;
+    qzms24 = Math.pow((120 - sfour) / RE, 4);
+    sfour = sfour / RE + 1;
+  }
+  const pinvsq = 1 / posq;
+  const tsi = 1 / (ao - sfour);
+  const eta = ao * ecco * tsi;
+  const etasq = eta * eta;
+  const eeta = ecco * eta;
+  const psisq = Math.abs(1 - etasq);
+  const coef = qzms24 * Math.pow(tsi, 4);
+  const coef1 = coef / Math.pow(psisq, 3.5);
+  const cc2 = coef1 * no * (ao * (1 + 1.5 * etasq + eeta * (4 + etasq))
+    + ((0.375 * J2 * tsi) / psisq) * con41 * (8 + 3 * etasq * (8 + etasq)));
+  const cc1 = bstar * cc2;
+  const cc3 = ecco > 1e-4 ? (-2 * coef * tsi * J3OJ2 * no * sinio) / ecco : 0;
+  const x1mth2 = 1 - cosio2;
+  const cc4 = 2 * no * coef1 * ao * omeosq * (eta * (2 + 0.5 * etasq) + ecco * (0.5 + 2 * etasq)
+    - ((J2 * tsi) / (ao * psisq)) * (-3 * con41 * (1 - 2 * eeta + etasq * (1.5 - 0.5 * eeta))
+      + 0.75 * x1mth2 * (2 * etasq - eeta * (1 + etasq)) * Math.cos(2 * argpo)));
+  const cc5 = 2 * coef1 * ao * omeosq * (1 + 2.75 * (etasq + eeta) + eeta * etasq);
+
+  const cosio4 = cosio2 * cosio2;
+  const temp1 = 1.5 * J2 * pinvsq * no;
+  const temp2 = 0.5 * temp1 * J2 * pinvsq;
+  const temp3 = -0.46875 * J4 * pinvsq * pinvsq * no;
+  const mdot = no + 0.5 * temp1 * rteosq * con41 + 0.0625 * temp2 * rteosq * (13 - 78 * cosio2 + 137 * cosio4);
+  const argpdot = -0.5 * temp1 * con42 + 0.0625 * temp2 * (7 - 114 * cosio2 + 395 * cosio4)
+    + temp3 * (3 - 36 * cosio2 + 49 * cosio4);
+  const xhdot1 = -temp1 * cosio;
+  const nodedot = xhdot1 + (0.5 * temp2 * (4 - 19 * cosio2) + 2 * temp3 * (3 - 7 * cosio2)) * cosio;
+  const omgcof = bstar * cc3 * Math.cos(argpo);
+  const xmcof = ecco > 1e-4 ? (-X2O3 * coef * bstar) / eeta : 0;
+  const nodecf = 3.5 * omeosq * xhdot1 * cc1;
+  const t2cof = 1.5 * cc1;
+  const xlcof = Math.abs(cosio + 1) > 1.5e-12
+    ? (-0.25 * J3OJ2 * sinio * (3 + 5 * cosio)) / (1 + cosio)
+    : (-0.25 * J3OJ2 * sinio * (3 + 5 * cosio)) / 1.5e-12;
+  const aycof = -0.5 * J3OJ2 * sinio;
+  const delmo = Math.pow(1 + eta * Math.cos(mo), 3);
+  const sinmao = Math.sin(mo);
+  const x7thm1 = 7 * cosio2 - 1;
+
+  let d2 = 0;
+  let d3 = 0;
+  let d4 = 0;
+  let t3cof = 0;
+  let t4cof = 0;
+  let t5cof = 0;
+  if (!isimp) {
+    const cc1sq = cc1 * cc1;
+    d2 = 4 * ao * tsi * cc1sq;
+    const temp = (d2 * tsi * cc1) / 3;
+    d3 = (17 * ao + sfour) * temp;
+    d4 = 0.5 * temp * ao * tsi * (221 * ao + 31 * sfour) * cc1;
+    t3cof = d2 + 2 * cc1sq;
+    t4cof = 0.25 * (3 * d3 + cc1 * (12 * d2 + 10 * cc1sq));
+    t5cof = 0.2 * (3 * d4 + 12 * cc1 * d3 + 6 * d2 * d2 + 15 * cc1sq * (2 * d2 + cc1sq));
+  }
+
+  const vkmpersec = (RE * XKE) / 60;
+
+  return (ms: number): SatelliteState => {
+    const t = (ms - tle.epochMs) / 60000;
+
+    // Secular gravity and drag
+    const xmdf = mo + mdot * t;
+    const argpdf = argpo + argpdot * t;
+    const nodedf = nodeo + nodedot * t;
+    let argpm = argpdf;
+    let mm = xmdf;
+    const t2 = t * t;
+    let nodem = nodedf + nodecf * t2;
+    let tempa = 1 - cc1 * t;
+    let tempe = bstar * cc4 * t;
+    let templ = t2cof * t2;
+
+    if (!isimp) {
+      const delomg = omgcof * t;
+      const delm = xmcof * (Math.pow(1 + eta * Math.cos(xmdf), 3) - delmo);
+      mm = xmdf + delomg + delm;
+      argpm = argpdf - delomg - delm;
+      const t3 = t2 * t;
+      const t4 = t3 * t;
+      tempa = tempa - d2 * t2 - d3 * t3 - d4 * t4;
+      tempe = tempe + bstar * cc5 * (Math.sin(mm) - sinmao);
+      templ = templ + t3cof * t3 + t4 * (t4cof + t * t5cof);
+    }
+
+    const am = Math.pow(XKE / no, X2O3) * tempa * tempa;
+    const nm = XKE / Math.pow(am, 1.5);
+    let em = ecco - tempe;
+    if (em >= 1 || em < -0.001) throw new SatellitePropagationError('Eccentricity out of range: the orbit has decayed');
+    if (em < 1e-6) em = 1e-6;
+    mm = mm + no * templ;
+    const xlm = mm + argpm + nodem;
+    nodem %= TWO_PI;
+    argpm %= TWO_PI;
+    mm = (xlm % TWO_PI - argpm - nodem) % TWO_PI;
+
+    // Long-period periodics
+    const axnl = em * Math.cos(argpm);
+    let temp = 1 / (am * (1 - em * em));
+    const aynl = em * Math.sin(argpm) + temp * aycof;
+    const xl = mm + argpm + nodem + temp * xlcof * axnl;
+
+    // Kepler's equation
+    const u = (xl - nodem) % TWO_PI;
+    let eo1 = u;
+    let sineo1 = 0;
+    let coseo1 = 0;
+    let tem5 = 9999.9;
+    for (let ktr = 1; Math.abs(tem5) >= 1e-12 && ktr <= 10; ktr++) {
+      sineo1 = Math.sin(eo1);
+      coseo1 = Math.cos(eo1);
+      tem5 = (u - aynl * coseo1 + axnl * sineo1 - eo1) / (1 - coseo1 * axnl - sineo1 * aynl);
+      if (Math.abs(tem5) >= 0.95) tem5 = tem5 > 0 ? 0.95 : -0.95;
+      eo1 += tem5;
+    }
+
+    // Short-period periodics
+    const ecose = axnl * coseo1 + aynl * sineo1;
+    const esine = axnl * sineo1 - aynl * coseo1;
+    const el2 = axnl * axnl + aynl * aynl;
+    const pl = am * (1 - el2);
+    if (pl < 0) throw new SatellitePropagationError('Semi-latus rectum is negative');
+    const rl = am * (1 - ecose);
+    const rdotl = (Math.sqrt(am) * esine) / rl;
+    const rvdotl = Math.sqrt(pl) / rl;
+    const betal = Math.sqrt(1 - el2);
+    temp = esine / (1 + betal);
+    const sinu = (am / rl) * (sineo1 - aynl - axnl * temp);
+    const cosu = (am / rl) * (coseo1 - axnl + aynl * temp);
+    let su = Math.atan2(sinu, cosu);
+    const sin2u = (cosu + cosu) * sinu;
+    const cos2u = 1 - 2 * sinu * sinu;
+    temp = 1 / pl;
+    const tmp1 = 0.5 * J2 * temp;
+    const tmp2 = tmp1 * temp;
+
+    const mrt = rl * (1 - 1.5 * tmp2 * betal * con41) + 0.5 * tmp1 * x1mth2 * cos2u;
+    if (mrt < 1) throw new SatellitePropagationError('Satellite has decayed');
+    su -= 0.25 * tmp2 * x7thm1 * sin2u;
+    const xnode = nodem + 1.5 * tmp2 * cosio * sin2u;
+    const xinc = inclo + 1.5 * tmp2 * cosio * sinio * cos2u;
+    const mvt = rdotl - (nm * tmp1 * x1mth2 * sin2u) / XKE;
+    const rvdot = rvdotl + (nm * tmp1 * (x1mth2 * cos2u + 1.5 * con41)) / XKE;
+
+    // Orientation vectors
+    const sinsu = Math.sin(su);
+    const cossu = Math.cos(su);
+    const snod = Math.sin(xnode);
+    const cnod = Math.cos(xnode);
+    const sini = Math.sin(xinc);
+    const cosi = Math.cos(xinc);
+    const xmx = -snod * cosi;
+    const xmy = cnod * cosi;
+    const ux = xmx * sinsu + cnod * cossu;
+    const uy = xmy * sinsu + snod * cossu;
+    const uz = sini * sinsu;
+    const vx = xmx * cossu - cnod * sinsu;
+    const vy = xmy * cossu - snod * sinsu;
+    const vz = sini * cossu;
+
+    return {
+      position: [mrt * ux * RE, mrt * uy * RE, mrt * uz * RE],
+      velocity: [
+        (mvt * ux + rvdot * vx) * vkmpersec,
+        (mvt * uy + rvdot * vy) * vkmpersec,
+        (mvt * uz + rvdot * vz) * vkmpersec,
+      ],
+    };
+  };
+}
+
+/**
+ * Observer position in the same Earth-centred frame as a TEME vector
+ * rotated by GMST (WGS-84 ellipsoid, sea level)
+ */
+function observerEcef(lat: number, lon: number): [number, number, number] {
+  const f = 1 / 298.257223563;
+  const e2 = f * (2 - f);
+  const phi = lat * DEG;
+  const lambda = lon * DEG;
+  const n = EARTH_RADIUS_KM / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+  return [
+    n * Math.cos(phi) * Math.cos(lambda),
+    n * Math.cos(phi) * Math.sin(lambda),
+    n * (1 - e2) * Math.sin(phi),
+  ];
+}
+
+/**
+ * Elevation, azimuth and range from an observer to a TEME position
+ */
+export function lookAngles(position: [number, number, number], lat: number, lon: number, ms: number): LookAngles {
+  const gmst = greenwichSiderealTime(ms) * DEG;
+  const x = position[0] * Math.cos(gmst) + position[1] * Math.sin(gmst);
+  const y = -position[0] * Math.sin(gmst) + position[1] * Math.cos(gmst);
+  const z = position[2];
+  const [ox, oy, oz] = observerEcef(lat, lon);
+  const rx = x - ox;
+  const ry = y - oy;
+  const rz = z - oz;
+
+  const phi = lat * DEG;
+  const lambda = lon * DEG;
+  const south = Math.sin(phi) * Math.cos(lambda) * rx + Math.sin(phi) * Math.sin(lambda) * ry - Math.cos(phi) * rz;
+  const east = -Math.sin(lambda) * rx + Math.cos(lambda) * ry;
+  const up = Math.cos(phi) * Math.cos(lambda) * rx + Math.cos(phi) * Math.sin(lambda) * ry + Math.sin(phi) * rz;
+  const rangeKm = Math.sqrt(rx * rx + ry * ry + rz * rz);
+
+  return {
+    elevation: Math.asin(up / rangeKm) / DEG,
+    azimuth: ((Math.atan2(east, -south) / DEG) + 360) % 360,
+    rangeKm,
+  };
+}
+
+/**
+ * Whether the satellite is outside Earth's (cylindrical) shadow
+ */
+export function isSunlit(position: [number, number, number], ms: number): boolean {
+  const sun = sunPosition(julianEphemerisDay(ms));
+  const ra = sun.ra * DEG;
+  const dec = sun.dec * DEG;
+  const s: [number, number, number] = [Math.cos(dec) * Math.cos(ra), Math.cos(dec) * Math.sin(ra), Math.sin(dec)];
+  const along = position[0] * s[0] + position[1] * s[1] + position[2] * s[2];
+  if (along > 0) return true;
+  const perpendicular = Math.sqrt(
+    (position[0] - along * s[0]) ** 2 + (position[1] - along * s[1]) ** 2 + (position[2] - along * s[2]) ** 2
+  );
+  return perpendicular > EARTH_RADIUS_KM;
+}
+
+/**
+ * Passes above the horizon mask between two instants
+ */
+export function predictPasses(
+  tle: TwoLineElements,
+  lat: number,
+  lon: number,
+  startMs: number,
+  endMs: number,
+  options: PassOptions = {}
+): SatellitePass[] {
+  const minElevation = options.minElevation ?? 10;
+  const maxSunAltitude = options.maxSunAltitude ?? -6;
+  const visibleOnly = options.visibleOnly ?? true;
+  const propagate = createPropagator(tle);
+  const elevationAt = (ms: number) => lookAngles(propagate(ms).position, lat, lon, ms).elevation - minElevation;
+  const isVisibleAt = (ms: number) =>
+    sunAltitude(lat, lon, ms) < maxSunAltitude && isSunlit(propagate(ms).position, ms);
+
+  const refine = (lo: number, hi: number) => {
+    const rising = elevationAt(lo) < 0;
+    for (let i = 0; i < BISECT_STEPS; i++) {
+      const mid = (lo + hi) / 2;
+      if ((elevationAt(mid) < 0) === rising) lo = mid;
+      else hi = mid;
+    }
+    return Math.round((lo + hi) / 2);
+  };
+
+  const passes: SatellitePass[] = [];
+  let riseMs: number | null = elevationAt(startMs) >= 0 ? startMs : null;
+  let prevMs = startMs;
+
+  for (let ms = startMs + PASS_STEP_MS; ms <= endMs + PASS_STEP_MS; ms += PASS_STEP_MS) {
+    const now = Math.min(ms, endMs);
+    const above = elevationAt(now) >= 0;
+    if (riseMs === null && above) {
+      riseMs = refine(prevMs, now);
+    } else if (riseMs !== null && (!above || now === endMs)) {
+      const setMs = above ? endMs : refine(prevMs, now);
+      const pass = summarisePass(riseMs, setMs);
+      if (!visibleOnly || pass.visible) passes.push(pass);
+      riseMs = null;
+    }
+    prevMs = now;
+    if (now === endMs) break;
+  }
+  return passes;
+
+  function summarisePass(riseMs: number, setMs: number): SatellitePass {
+    let maxElevation = -90;
+    let maxMs = riseMs;
+    let visibleStart: number | null = null;
+    let visibleEnd: number | null = null;
+    for (let ms = riseMs; ms <= setMs; ms += 10000) {
+      const elevation = elevationAt(ms) + minElevation;
+      if (elevation > maxElevation) {
+        maxElevation = elevation;
+        maxMs = ms;
+      }
+      if (isVisibleAt(ms)) {
+        visibleStart ??= ms;
+        visibleEnd = ms;
+      }
+    }
+    const direction = (ms: number) => compassPoint(lookAngles(propagate(ms).position, lat, lon, ms).azimuth);
+    return {
+      name: tle.name,
+      riseISO: new Date(riseMs).toISOString(),
+      setISO: new Date(setMs).toISOString(),
+      maxElevationISO: new Date(maxMs).toISOString(),
+      maxElevation: Math.round(maxElevation),
+      riseDirection: direction(riseMs),
+      setDirection: direction(setMs),
+      durationSec: Math.round((setMs - riseMs) / 1000),
+      visible: visibleStart !== null && visibleEnd !== null
+        ? { startISO: new Date(visibleStart).toISOString(), endISO: new Date(visibleEnd).toISOString() }
+        : undefined,
+    };
+  }
+}
+
+/**
+ * Days between the element set epoch and an instant; predictions degrade
+ * beyond a week or two as drag estimates go stale
+ */
+export function tleAgeDays(tle: TwoLineElements, ms: number): number {
+  return (ms - tle.epochMs) / 86400000;
+}
+
+
+/** CelesTrak's current element set for the ISS */
+export const ISS_TLE_URL = 'https://celestrak.org/NORAD/elements/gp.php?CATNR=25544&FORMAT=tle';
+
+/**
+ * Download a TLE file and check it holds at least one valid element set
+ */
+export async function fetchTleFile(url: string = ISS_TLE_URL): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new TleError(`TLE download failed (${response.status}): ${url}`);
+  }
+  const text = await response.text();
+  if (parseTleFile(text).length === 0) {
+    throw new TleError(`No element sets in ${url}`);
+  }
+  return text;
+}
@@ -0,0 +1,314 @@
+/**
+ * Shared positional astronomy for the night-sky calendar
+ *
+ * Sun and moon follow Meeus, "Astronomical Algorithms" (ch. 25 and a
+ * truncated ch. 47, good to well under an arcminute), which is accurate
+ * enough for local eclipse circumstances. Angles are in degrees unless a
+ * name says otherwise; `jde` is a Julian Ephemeris Day (TT).
+ */
+
+export const DEG = Math.PI / 180;
+export const EARTH_RADIUS_KM = 6378.14;
+export const AU_KM = 149597870.7;
+
+const DAY_MS = 86400000;
+const JD_UNIX_EPOCH = 2440587.5;
+
+export interface Equatorial {
+  /** Right ascension, degrees */
+  ra: number;
+  dec: number;
+  distanceKm: number;
+}
+
+export interface Horizontal {
+  altitude: number;
+  /** Clockwise from north */
+  azimuth: number;
+}
+
+export function normalizeDeg(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+export function julianDay(ms: number): number {
+  return ms / DAY_MS + JD_UNIX_EPOCH;
+}
+
+export function msFromJulianDay(jd: number): number {
+  return (jd - JD_UNIX_EPOCH) * DAY_MS;
+}
+
+/**
+ * TT − UT in seconds (Espenak & Meeus polynomial for 2005–2050, extended
+ * loosely either side; a few seconds out only matters for eclipse contacts)
+ */
+export function deltaTSeconds(ms: number): number {
+  const year = new Date(ms).getUTCFullYear() + new Date(ms).getUTCMonth() / 12;
+  const t = year - 2000;
+  return 62.92 + 0.32217 * t + 0.005589 * t * t;
+}
+
+export function julianEphemerisDay(ms: number): number {
+  return julianDay(ms + deltaTSeconds(ms) * 1000);
+}
+
+function centuries(jde: number): number {
+  return (jde - 2451545) / 36525;
+}
+
+function longitudeOfNode(t: number): number {
+  return 125.04452 - 1934.136261 * t;
+}
+
+/**
+ * True obliquity of the ecliptic (mean plus the main nutation term)
+ */
+export function obliquity(jde: number): number {
+  const t = centuries(jde);
+  return 23.439291 - 0.0130042 * t + 0.00256 * Math.cos(longitudeOfNode(t) * DEG);
+}
+
+/**
+ * Greenwich mean sidereal time in degrees for a UT instant
+ */
+export function greenwichSiderealTime(ms: number): number {
+  const jd = julianDay(ms);
+  const t = (jd - 2451545) / 36525;
+  return normalizeDeg(280.46061837 + 360.98564736629 * (jd - 2451545) + 0.000387933 * t * t - (t * t * t) / 38710000);
+}
+
+export function eclipticToEquatorial(lambda: number, beta: number, epsilon: number): { ra: number; dec: number } {
+  const l = lambda * DEG;
+  const b = beta * DEG;
+  const e = epsilon * DEG;
+  const ra = Math.atan2(Math.sin(l) * Math.cos(e) - Math.tan(b) * Math.sin(e), Math.cos(l)) / DEG;
+  const dec = Math.asin(Math.sin(b) * Math.cos(e) + Math.cos(b) * Math.sin(e) * Math.sin(l)) / DEG;
+  return { ra: normalizeDeg(ra), dec };
+}
+
+/**
+ * Apparent geocentric sun: ecliptic longitude, distance and equatorial
+ * coordinates (Meeus ch. 25, about 0.01°)
+ */
+export function sunPosition(jde: number): Equatorial & { longitude: number } {
+  const t = centuries(jde);
+  const l0 = 280.46646 + 36000.76983 * t + 0.0003032 * t * t;
+  const m = (357.52911 + 35999.05029 * t - 0.0001537 * t * t) * DEG;
+  const e = 0.016708634 - 0.000042037 * t;
+  const c = (1.914602 - 0.004817 * t - 0.000014 * t * t) * Math.sin(m)
+    + (0.019993 - 0.000101 * t) * Math.sin(2 * m)
+    + 0.000289 * Math.sin(3 * m);
+  const trueAnomaly = m + c * DEG;
+  const distanceAu = (1.000001018 * (1 - e * e)) / (1 + e * Math.cos(trueAnomaly));
+  const longitude = normalizeDeg(l0 + c - 0.00569 - 0.00478 * Math.sin(longitudeOfNode(t) * DEG));
+  const { ra, dec } = eclipticToEquatorial(longitude, 0, obliquity(jde));
+  return { ra, dec, distanceKm: distanceAu * AU_KM, longitude };
+}
+
+/**
+ * Sun's geometric longitude referred to the J2000 equinox, the solar
+ * longitude used in meteor shower tables
+ */
+export function solarLongitudeJ2000(jde: number): number {
+  const t = centuries(jde);
+  const apparent = sunPosition(jde).longitude;
+  // Undo aberration and nutation, then precess back to J2000
+  return normalizeDeg(apparent + 0.00569 + 0.00478 * Math.sin(longitudeOfNode(t) * DEG) - 1.3972 * t);
+}
+
+// [D, M, M', F, Σl coefficient, Σr coefficient] from Meeus table 47.A (terms above ~0.4")
+const MOON_LR_TERMS: ReadonlyArray<readonly [number, number, number, number, number, number]> = [
+  [0, 0, 1, 0, 6288774, -20905355],
+  [2, 0, -1, 0, 1274027, -3699111],
+  [2, 0, 0, 0, 658314, -2955968],
+  [0, 0, 2, 0, 213618, -569925],
+  [0, 1, 0, 0, -185116, 48888],
+  [0, 0, 0, 2, -114332, -3149],
+  [2, 0, -2, 0, 58793, 246158],
+  [2, -1, -1, 0, 57066, -152138],
+  [2, 0, 1, 0, 53322, -170733],
+  [2, -1, 0, 0, 45758, -204586],
+  [0, 1, -1, 0, -40923, -129620],
+  [1, 0, 0, 0, -34720, 108743],
+  [0, 1, 1, 0, -30383, 104755],
+  [2, 0, 0, -2, 15327, 10321],
+  [0, 0, 1, 2, -12528, 0],
+  [0, 0, 1, -2, 10980, 79661],
+  [4, 0, -1, 0, 10675, -34782],
+  [0, 0, 3, 0, 10034, -23210],
+  [4, 0, -2, 0, 8548, -21636],
+  [2, 1, -1, 0, -7888, 24208],
+  [2, 1, 0, 0, -6766, 30824],
+  [1, 0, -1, 0, -5163, -8379],
+  [1, 1, 0, 0, 4987, -16675],
+  [2, -1, 1, 0, 4036, -12831],
+  [2, 0, 2, 0, 3994, -10445],
+  [4, 0, 0, 0, 3861, -11650],
+  [2, 0, -3, 0, 3665, 14403],
+  [0, 1, -2, 0, -2689, -7003],
+  [2, 0, -1, 2, -2602, 0],
+  [2, -1, -2, 0, 2390, 10056],
+  [1, 0, 1, 0, -2348, 6322],
+  [2, -2, 0, 0, 2236, -9884],
+  [0, 1, 2, 0, -2120, 5751],
+  [0, 2, 0, 0, -2069, 0],
+  [2, -2, -1, 0, 2048, -4950],
+  [2, 0, 1, -2, -1773, 4130],
+  [2, 0, 0, 2, -1595, 0],
+  [4, -1, -1, 0, 1215, -3958],
+  [0, 0, 2, 2, -1110, 0],
+  [3, 0, -1, 0, -892, 3258],
+  [2, 1, 1, 0, -810, 2616],
+  [4, -1, -2, 0, 759, -1897],
+  [0, 2, -1, 0, -713, -2117],
+  [2, 2, -1, 0, -700, 2354],
+  [2, 1, -2, 0, 691, 0],
+  [2, -1, 0, -2, 596, 0],
+  [4, 0, 1, 0, 549, -1423],
+  [0, 0, 4, 0, 537, -1117],
+  [4, -1, 0, 0, 520, -1571],
+  [1, 0, -2, 0, -487, -1739],
+  [2, 1, 0, -2, -399, 0],
+  [0, 0, 2, -2, -381, -4421],
+];
+
+// [D, M, M', F, Σb coefficient] from Meeus table 47.B (terms above ~3")
+const MOON_B_TERMS: ReadonlyArray<readonly [number, number, number, number, number]> = [
+  [0, 0, 0, 1, 5128122],
+  [0, 0, 1, 1, 280602],
+  [0, 0, 1, -1, 277693],
+  [2, 0, 0, -1, 173237],
+  [2, 0, -1, 1, 55413],
+  [2, 0, -1, -1, 46271],
+  [2, 0, 0, 1, 32573],
+  [0, 0, 2, 1, 17198],
+  [2, 0, 1, -1, 9266],
+  [0, 0, 2, -1, 8822],
+  [2, -1, 0, -1, 8216],
+  [2, 0, -2, -1, 4324],
+  [2, 0, 1, 1, 4200],
+  [2, 1, 0, -1, -3359],
+  [2, -1, -1, 1, 2463],
+  [2, -1, 0, 1, 2211],
+  [2, -1, -1, -1, 2065],
+  [0, 1, -1, -1, -1870],
+  [4, 0, -1, -1, 1828],
+  [0, 1, 0, 1, -1794],
+  [0, 0, 0, 3, -1749],
+  [0, 1, -1, 1, -1565],
+  [1, 0, 0, 1, -1491],
+  [0, 1, 1, 1, -1475],
+  [0, 1, 1, -1, -1410],
+  [0, 1, 0, -1, -1344],
+  [1, 0, 0, -1, -1335],
+  [0, 0, 3, 1, 1107],
+  [4, 0, 0, -1, 1021],
+  [4, 0, -1, 1, 833],
+];
+
+/**
+ * Apparent geocentric moon (Meeus ch. 47, truncated; a few arcseconds)
+ */
+export function moonPosition(jde: number): Equatorial & { longitude: number; latitude: number } {
+  const t = centuries(jde);
+  const lp = 218.3164477 + 481267.88123421 * t - 0.0015786 * t * t + (t * t * t) / 538841;
+  const d = 297.8501921 + 445267.1114034 * t - 0.0018819 * t * t + (t * t * t) / 545868;
+  const m = 357.5291092 + 35999.0502909 * t - 0.0001536 * t * t;
+  const mp = 134.9633964 + 477198.8675055 * t + 0.0087414 * t * t + (t * t * t) / 69699;
+  const f = 93.272095 + 483202.0175233 * t - 0.0036539 * t * t;
+  const e = 1 - 0.002516 * t - 0.0000074 * t * t;
+  const a1 = 119.75 + 131.849 * t;
+  const a2 = 53.09 + 479264.29 * t;
+  const a3 = 313.45 + 481266.484 * t;
+
+  const eccentricity = (mTerm: number) => (Math.abs(mTerm) === 2 ? e * e : Math.abs(mTerm) === 1 ? e : 1);
+
+  let sumL = 0;
+  let sumR = 0;
+  for (const [cd, cm, cmp, cf, coefL, coefR] of MOON_LR_TERMS) {
+    const arg = (cd * d + cm * m + cmp * mp + cf * f) * DEG;
+    const scale = eccentricity(cm);
+    sumL += coefL * scale * Math.sin(arg);
+    sumR += coefR * scale * Math.cos(arg);
+  }
+  let sumB = 0;
+  for (const [cd, cm, cmp, cf, coefB] of MOON_B_TERMS) {
+    sumB += coefB * eccentricity(cm) * Math.sin((cd * d + cm * m + cmp * mp + cf * f) * DEG);
+  }
+
+  sumL += 3958 * Math.sin(a1 * DEG) + 1962 * Math.sin((lp - f) * DEG) + 318 * Math.sin(a2 * DEG);
+  sumB += -2235 * Math.sin(lp * DEG) + 382 * Math.sin(a3 * DEG) + 175 * Math.sin((a1 - f) * DEG)
+    + 175 * Math.sin((a1 + f) * DEG) + 127 * Math.sin((lp - mp) * DEG) - 115 * Math.sin((lp + mp) * DEG);
+
+  // Nutation in longitude (main term) so the moon matches the apparent sun
+  const longitude = normalizeDeg(lp + sumL / 1e6 - 0.00478 * Math.sin(longitudeOfNode(t) * DEG));
+  const latitude = sumB / 1e6;
+  const { ra, dec } = eclipticToEquatorial(longitude, latitude, obliquity(jde));
+  return { ra, dec, distanceKm: 385000.56 + sumR / 1000, longitude, latitude };
+}
+
+/**
+ * Shift a geocentric position to an observer on the surface (parallax
+ * matters for the moon: up to a degree)
+ */
+export function toTopocentric(position: Equatorial, lat: number, lon: number, ms: number): Equatorial {
+  const lst = (greenwichSiderealTime(ms) + lon) * DEG;
+  const phi = lat * DEG;
+  // Geocentric observer position, WGS84 flattening, sea level
+  const u = Math.atan(0.99664719 * Math.tan(phi));
+  const rhoCos = Math.cos(u);
+  const rhoSin = 0.99664719 * Math.sin(u);
+
+  const ra = position.ra * DEG;
+  const dec = position.dec * DEG;
+  const r = position.distanceKm / EARTH_RADIUS_KM;
+  const x = r * Math.cos(dec) * Math.cos(ra) - rhoCos * Math.cos(lst);
+  const y = r * Math.cos(dec) * Math.sin(ra) - rhoCos * Math.sin(lst);
+  const z = r * Math.sin(dec) - rhoSin;
+  const distance = Math.sqrt(x * x + y * y + z * z);
+
+  return {
+    ra: normalizeDeg(Math.atan2(y, x) / DEG),
+    dec: Math.asin(z / distance) / DEG,
+    distanceKm: distance * EARTH_RADIUS_KM,
+  };
+}
+
+/**
+ * Altitude (no refraction) and azimuth of an equatorial position
+ */
+export function toHorizontal(ra: number, dec: number, lat: number, lon: number, ms: number): Horizontal {
+  const hourAngle = (greenwichSiderealTime(ms) + lon - ra) * DEG;
+  const phi = lat * DEG;
+  const delta = dec * DEG;
+  const altitude = Math.asin(Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.cos(hourAngle));
+  const azimuth = Math.atan2(
+    -Math.sin(hourAngle),
+    Math.tan(delta) * Math.cos(phi) - Math.sin(phi) * Math.cos(hourAngle)
+  );
+  return { altitude: altitude / DEG, azimuth: normalizeDeg(azimuth / DEG) };
+}
+
+export function angularSeparation(ra1: number, dec1: number, ra2: number, dec2: number): number {
+  const d1 = dec1 * DEG;
+  const d2 = dec2 * DEG;
+  const cos = Math.sin(d1) * Math.sin(d2) + Math.cos(d1) * Math.cos(d2) * Math.cos((ra1 - ra2) * DEG);
+  return Math.acos(Math.min(1, Math.max(-1, cos))) / DEG;
+}
+
+export function sunAltitude(lat: number, lon: number, ms: number): number {
+  const sun = sunPosition(julianEphemerisDay(ms));
+  return toHorizontal(sun.ra, sun.dec, lat, lon, ms).altitude;
+}
+
+export function moonHorizontal(lat: number, lon: number, ms: number): Horizontal {
+  const moon = toTopocentric(moonPosition(julianEphemerisDay(ms)), lat, lon, ms);
+  return toHorizontal(moon.ra, moon.dec, lat, lon, ms);
+}
+
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+export function compassPoint(azimuth: number): string {
+  return COMPASS_POINTS[Math.round(normalizeDeg(azimuth) / 22.5) % 16];
+}
@@ -0,0 +1,121 @@
+/**
+ * Tests for the native NetCDF reader and the file-backed provider
+ *
+ * Fixtures are small IBI subsets: ibi-physics.nc is NetCDF-4 (packed int16
+ * thetao, chunked with shuffle + deflate) and ibi-waves.nc is NetCDF-3.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { FileCopernicusProvider } from '../fileClient';
+import {
+  decodeTimes,
+  NetCDFError,
+  readNetCDF,
+  readVariableValues,
+  toCopernicusTimeseries,
+} from '../netcdf';
+
+const FIXTURES = path.join(__dirname, '..', '__fixtures__', 'netcdf');
+const load = (name: string) => readNetCDF(readFileSync(path.join(FIXTURES, name)));
+
+describe('lib/copernicus/netcdf', () => {
+  it('reads NetCDF-3 dimensions, attributes and record variables', () => {
+    const dataset = load('ibi-waves.nc');
+
+    expect(dataset.format).toBe('classic');
+    expect(dataset.dimensions).toEqual([
+      { name: 'time', size: 4, unlimited: true },
+      { name: 'latitude', size: 2, unlimited: false },
+      { name: 'longitude', size: 2, unlimited: false },
+    ]);
+    expect(dataset.attributes.id).toBe('cmems_mod_ibi_wav_anfc_0.027deg_PT1H-i');
+    expect(Array.from(dataset.readVariable('VMDR').slice(0, 5))).toEqual([300, 300, 300, 300, 301]);
+  });
+
+  it('reads chunked, compressed NetCDF-4 variables and their dimensions', () => {
+    const dataset = load('ibi-physics.nc');
+    const thetao = dataset.variables.find(v => v.name === 'thetao')!;
+
+    expect(dataset.format).toBe('netcdf4');
+    expect(dataset.dimensions.map(d => d.name)).toEqual(['time', 'depth', 'latitude', 'longitude']);
+    expect(dataset.dimensions[0].unlimited).toBe(true);
+    expect(thetao.type).toBe('short');
+    expect(thetao.dimensions).toEqual(['time', 'depth', 'latitude', 'longitude']);
+    expect(thetao.shape).toEqual([2, 4, 3, 3]);
+    expect(thetao.attributes.DIMENSION_LIST).toBeUndefined();
+    expect(dataset.attributes._NCProperties).toBeUndefined();
+
+    const values = readVariableValues(dataset, 'thetao');
+    expect(values[0]).toBeCloseTo(16.0, 3);
+    expect(values[8]).toBeNaN(); // land cell holds _FillValue
+    expect(values[36 + 9]).toBeCloseTo(16.25, 3); // second day, second depth, first cell
+  });
+
+  it('builds timeseries records at the target depths', () => {
+    const timeseries = toCopernicusTimeseries(load('ibi-physics.nc'), { point: { lat: 43.5, lon: -5.9 } });
+
+    expect(timeseries.datasetId).toBe('cmems_mod_ibi_phy_anfc_0.027deg-3D_P1D-m');
+    expect(timeseries.variables).toEqual(['thetao', 'so']);
+    expect(timeseries.records).toHaveLength(6); // 2 days × depths nearest 0, 5 and 10 m
+    expect(timeseries.records.map(r => r.depth.toFixed(3))).toEqual(['0.494', '5.078', '9.573', '0.494', '5.078', '9.573']);
+
+    const [first] = timeseries.records;
+    expect(first.time).toBe('2025-09-26T00:00:00.000Z');
+    expect(first.variables.thetao).toBeCloseTo(16.13125, 3); // land cell excluded from the mean
+    expect(first.variables.so).toBeCloseTo(35.5, 3);
+  });
+
+  it('decodes CF time units', () => {
+    expect(decodeTimes([0, 36], 'hours since 2025-01-01')).toEqual(['2025-01-01T00:00:00.000Z', '2025-01-02T12:00:00.000Z']);
+    expect(decodeTimes([86400], 'seconds since 1970-01-01 00:00:00')).toEqual(['1970-01-02T00:00:00.000Z']);
+    expect(() => decodeTimes([1], 'fortnights')).toThrow(NetCDFError);
+  });
+
+  it('rejects files that are not NetCDF', () => {
+    expect(() => readNetCDF(new TextEncoder().encode('{"not":"netcdf"}'))).toThrow(NetCDFError);
+  });
+});
+
+describe('lib/copernicus/fileClient', () => {
+  it('assembles a bundle from the files covering the point', async () => {
+    const provider = new FileCopernicusProvider(FIXTURES);
+    const bundle = await provider.fetchBundle({
+      lat: 43.5,
+      lon: -5.9,
+      start: '2025-09-27T00:00:00Z',
+      end: '2025-09-27T00:00:00Z',
+    });
+
+    // Physics is daily, so the 3-hourly wave steps get interpolated physics records
+    expect(bundle.physics.records.map(r => r.time)).toEqual(
+      ['00', '03', '06', '09'].flatMap(h => Array(3).fill(`2025-09-27T${h}:00:00.000Z`))
+    );
+    expect(bundle.physics.records[0].variables.thetao).toBeCloseTo(16.65, 3);
+    expect(bundle.physics.records[0].sampling).toEqual({ method: 'bilinear', distanceKm: 0, timeOffsetHours: 0 });
+    expect(bundle.physics.records[3].sampling?.timeOffsetHours).toBe(3);
+    expect(bundle.waves?.records).toHaveLength(4);
+    expect(bundle.waves?.records[0].variables.vhm0).toBeCloseTo(1.2, 3);
+    expect(bundle.biogeochemical).toBeUndefined();
+  });
+
+  it('falls back to the most recent earlier day', async () => {
+    const provider = new FileCopernicusProvider(FIXTURES);
+    const bundle = await provider.fetchBundle({
+      lat: 43.5,
+      lon: -5.9,
+      start: '2025-09-29T00:00:00Z',
+      end: '2025-09-29T00:00:00Z',
+    });
+
+    expect(bundle.physics.records.every(r => r.time.startsWith('2025-09-27'))).toBe(true);
+    expect(bundle.waves?.records).toHaveLength(4);
+  });
+
+  it('requires physics data for the point', async () => {
+    const provider = new FileCopernicusProvider(FIXTURES);
+    await expect(
+      provider.fetchBundle({ lat: 50, lon: 0, start: '2025-09-27T00:00:00Z', end: '2025-09-27T00:00:00Z' })
+    ).rejects.toThrow('No valid physics data found');
+  });
+});
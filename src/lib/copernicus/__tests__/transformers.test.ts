@@ -0,0 +1,103 @@
+/**
+ * Tests for grid interpolation and land-mask handling
+ */
+
+import {
+  interpolateCopernicusBundle,
+  interpolateCopernicusGrids,
+  toCopernicusMarineSnapshots,
+} from '../transformers';
+import type { CopernicusGrid } from '../types';
+
+function grid(variable: string, times: string[], slices: number[][][]): CopernicusGrid {
+  return {
+    datasetId: 'test',
+    variable,
+    times,
+    depths: [0.5],
+    lats: [43, 44],
+    lons: [-6, -5],
+    values: new Float64Array(slices.flat(2)),
+  };
+}
+
+const DAY_1 = '2025-09-26T00:00:00.000Z';
+const DAY_2 = '2025-09-27T00:00:00.000Z';
+
+describe('lib/copernicus/transformers', () => {
+  it('interpolates bilinearly between ocean cells', () => {
+    const series = interpolateCopernicusGrids(
+      [grid('thetao', [DAY_1], [[[10, 12], [14, 16]]])],
+      { lat: 43.5, lon: -5.5 }
+    )!;
+
+    expect(series.records).toHaveLength(1);
+    expect(series.records[0].variables.thetao).toBeCloseTo(13, 6);
+    expect(series.records[0].sampling).toEqual({ method: 'bilinear', distanceKm: 0, timeOffsetHours: 0 });
+  });
+
+  it('drops land cells from the weights and reports the distance', () => {
+    const [record] = interpolateCopernicusGrids(
+      [grid('thetao', [DAY_1], [[[10, 12], [14, NaN]]])],
+      { lat: 43.5, lon: -5.5 }
+    )!.records;
+
+    expect(record.variables.thetao).toBeCloseTo(12, 6);
+    expect(record.sampling?.method).toBe('bilinear');
+    expect(record.sampling?.distanceKm).toBeGreaterThan(60);
+    expect(record.sampling?.distanceKm).toBeLessThan(75);
+  });
+
+  it('falls back to the nearest ocean cell within the search radius', () => {
+    const values = new Float64Array(9).fill(NaN);
+    values[0] = 16;
+    const coast: CopernicusGrid = {
+      ...grid('thetao', [DAY_1], []),
+      lats: [43, 43.1, 43.2],
+      lons: [-6, -5.9, -5.8],
+      values,
+    };
+
+    const near = interpolateCopernicusGrids([coast], { lat: 43.15, lon: -5.85 })!.records[0];
+    expect(near.variables.thetao).toBe(16);
+    expect(near.sampling?.method).toBe('nearest');
+    expect(near.sampling?.distanceKm).toBeCloseTo(20.7, 0);
+
+    expect(interpolateCopernicusGrids([coast], { lat: 43.15, lon: -5.85, maxDistanceKm: 10 })!.records).toHaveLength(0);
+  });
+
+  it('interpolates in time, including directions', () => {
+    const series = interpolateCopernicusGrids(
+      [
+        grid('vhm0', [DAY_1, DAY_2], [[[1, 1], [1, 1]], [[2, 2], [2, 2]]]),
+        grid('vmdr', [DAY_1, DAY_2], [[[350, 350], [350, 350]], [[30, 30], [30, 30]]]),
+      ],
+      { lat: 43.5, lon: -5.5, times: ['2025-09-26T18:00:00.000Z', '2025-09-27T12:00:00.000Z', '2025-09-29T00:00:00.000Z'] }
+    )!;
+
+    expect(series.records.map(r => r.time)).toEqual(['2025-09-26T18:00:00.000Z', '2025-09-27T12:00:00.000Z']);
+    expect(series.records[0].variables.vhm0).toBeCloseTo(1.75, 6);
+    expect(series.records[0].variables.vmdr).toBeCloseTo(20.3, 0);
+    expect(series.records[0].sampling?.timeOffsetHours).toBe(6);
+    expect(series.records[1].variables.vhm0).toBe(2); // borrowed from the last step, 12 h away
+    expect(series.records[1].sampling?.timeOffsetHours).toBe(12);
+  });
+
+  it('reports sampling provenance on snapshots', () => {
+    const bundle = interpolateCopernicusBundle(
+      {
+        physics: [grid('thetao', [DAY_1], [[[10, 12], [14, NaN]]])],
+        waves: [{ ...grid('vhm0', [DAY_1], [[[1, 1], [1, 1]]]), depths: [0] }],
+        generatedAt: DAY_1,
+      },
+      { lat: 43.5, lon: -5.5 }
+    );
+    const [snapshot] = toCopernicusMarineSnapshots(bundle);
+
+    expect(snapshot.temperatureSurface).toBeCloseTo(12, 6);
+    expect(snapshot.significantWaveHeight).toBe(1);
+    expect(snapshot.sampling?.waves?.distanceKm).toBe(0);
+    expect(snapshot.sampling?.distanceKm).toBe(snapshot.sampling?.physics?.distanceKm);
+    expect(snapshot.sampling?.distanceKm).toBeGreaterThan(0);
+  });
+});
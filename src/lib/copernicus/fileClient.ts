@@ -0,0 +1,147 @@
+import { existsSync, promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { getCoordinateBounds, readNetCDF, toCopernicusGrids, type NetCDFDataset } from './netcdf';
+import { interpolateCopernicusBundle } from './transformers';
+import {
+  CopernicusFetchOptions,
+  CopernicusGrid,
+  CopernicusMarineBundle,
+  CopernicusProvider,
+} from './types';
+
+type BundleKind = 'physics' | 'biogeochemical' | 'waves';
+
+const PHYSICS_VARIABLES = ['thetao', 'so', 'uo', 'vo', 'mlotst', 'zos', 'bottomt'];
+const WAVE_VARIABLES = ['vhm0', 'swh', 'vmdr', 'vtm10', 'vtm02', 'vhm0_ww', 'vhm0_sw1', 'vhm0_sw2'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FileCopernicusProviderOptions {
+  /** Degrees around the requested point searched for ocean cells (default 0.25, as the CLI subset) */
+  padding?: number;
+  /** How many days before `start` to fall back to when the window has no data (default 3) */
+  maxAgeDays?: number;
+}
+
+interface LoadedFile {
+  file: string;
+  dataset: NetCDFDataset;
+  grids?: CopernicusGrid[];
+}
+
+function classify(grid: CopernicusGrid): BundleKind {
+  if (WAVE_VARIABLES.includes(grid.variable)) return 'waves';
+  if (PHYSICS_VARIABLES.includes(grid.variable)) return 'physics';
+  return 'biogeochemical';
+}
+
+/**
+ * Copernicus provider backed by a directory of pre-downloaded NetCDF files
+ *
+ * Every `.nc` file covering the requested point is read and its variables
+ * sorted into physics, biogeochemical or wave grids, which are then
+ * interpolated to the point (see `interpolateCopernicusBundle`). A region
+ * sub-directory (e.g. `<dir>/IBI`) is used when present, so one data
+ * directory can serve the regional and global providers.
+ */
+export class FileCopernicusProvider implements CopernicusProvider {
+  private directory: string;
+  private padding: number;
+  private maxAgeDays: number;
+  private files: Promise<LoadedFile[]> | null = null;
+
+  constructor(directory: string, region?: string, options: FileCopernicusProviderOptions = {}) {
+    const regionDirectory = path.join(directory, region || 'GLOBAL');
+    this.directory = existsSync(regionDirectory) ? regionDirectory : directory;
+    this.padding = options.padding ?? 0.25;
+    this.maxAgeDays = options.maxAgeDays ?? 3;
+  }
+
+  async fetchBundle(options: CopernicusFetchOptions): Promise<CopernicusMarineBundle> {
+    const { lat, lon } = options;
+    const grids: Record<BundleKind, CopernicusGrid[]> = { physics: [], biogeochemical: [], waves: [] };
+
+    for (const loaded of await this.loadFiles()) {
+      const { file, dataset } = loaded;
+      const bounds = getCoordinateBounds(dataset);
+      if (
+        !bounds ||
+        lat < bounds.latMin - this.padding || lat > bounds.latMax + this.padding ||
+        lon < bounds.lonMin - this.padding || lon > bounds.lonMax + this.padding
+      ) {
+        continue;
+      }
+
+      try {
+        loaded.grids ??= toCopernicusGrids(dataset);
+        for (const grid of loaded.grids) {
+          grids[classify(grid)].push(grid);
+        }
+      } catch (err) {
+        console.warn(`   ⚠️  Skipping ${path.basename(file)}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    const times = this.selectTimes([...grids.physics, ...grids.biogeochemical, ...grids.waves], options);
+    if (grids.physics.length === 0 || times.length === 0) {
+      throw new Error('No valid physics data found');
+    }
+
+    const bundle = interpolateCopernicusBundle(
+      {
+        physics: grids.physics,
+        biogeochemical: grids.biogeochemical.length > 0 ? grids.biogeochemical : undefined,
+        waves: grids.waves.length > 0 ? grids.waves : undefined,
+        generatedAt: new Date().toISOString(),
+      },
+      { lat, lon, times, maxDistanceKm: this.padding * 111 }
+    );
+    if (bundle.physics.records.length === 0) {
+      throw new Error('No valid physics data found');
+    }
+
+    return {
+      ...bundle,
+      biogeochemical: bundle.biogeochemical?.records.length ? bundle.biogeochemical : undefined,
+      waves: bundle.waves?.records.length ? bundle.waves : undefined,
+    };
+  }
+
+  /**
+   * Model times inside the requested days, or else those of the most recent
+   * day up to `maxAgeDays` earlier (mirrors the date fallback of the CLI provider)
+   */
+  private selectTimes(grids: CopernicusGrid[], options: CopernicusFetchOptions): string[] {
+    const startDay = Date.parse(options.start.split('T')[0]);
+    const endDay = Date.parse(options.end.split('T')[0]) + DAY_MS;
+    const dayOf = (time: string) => Date.parse(time.split('T')[0]);
+    const times = Array.from(new Set(grids.flatMap(g => g.times))).sort();
+
+    const inWindow = times.filter(t => Date.parse(t) >= startDay && Date.parse(t) < endDay);
+    if (inWindow.length > 0) return inWindow;
+
+    const earlier = times.filter(t => dayOf(t) < startDay && dayOf(t) >= startDay - this.maxAgeDays * DAY_MS);
+    if (earlier.length === 0) return [];
+    const latestDay = Math.max(...earlier.map(dayOf));
+    return earlier.filter(t => dayOf(t) === latestDay);
+  }
+
+  private loadFiles(): Promise<LoadedFile[]> {
+    if (!this.files) {
+      this.files = (async () => {
+        const names = (await fs.readdir(this.directory)).filter(name => /\.nc4?$/i.test(name)).sort();
+        const loaded: LoadedFile[] = [];
+        for (const name of names) {
+          const file = path.join(this.directory, name);
+          try {
+            loaded.push({ file, dataset: readNetCDF(await fs.readFile(file)) });
+          } catch (err) {
+            console.warn(`   ⚠️  Could not read ${name}: ${err instanceof Error ? err.message : String(err)}`);
+          }
+        }
+        return loaded;
+      })();
+    }
+    return this.files;
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * NetCDF-3 reader (classic, 64-bit offset and CDF-5 "64-bit data" formats)
+ *
+ * Format reference: https://docs.unidata.ucar.edu/netcdf-c/current/file_format_specifications.html
+ * Everything is big-endian; names and attribute values are padded to 4 bytes.
+ */
+
+import {
+  NetCDFError,
+  type NetCDFAttributes,
+  type NetCDFDataType,
+  type NetCDFDataset,
+  type NetCDFDimension,
+  type NetCDFFormat,
+  type NetCDFVariable,
+} from './types';
+
+const NC_DIMENSION = 0x0a;
+const NC_VARIABLE = 0x0b;
+const NC_ATTRIBUTE = 0x0c;
+const STREAMING = 0xffffffff;
+
+const TYPES: Record<number, { type: NetCDFDataType; size: number }> = {
+  1: { type: 'byte', size: 1 },
+  2: { type: 'char', size: 1 },
+  3: { type: 'short', size: 2 },
+  4: { type: 'int', size: 4 },
+  5: { type: 'float', size: 4 },
+  6: { type: 'double', size: 8 },
+  7: { type: 'ubyte', size: 1 },
+  8: { type: 'ushort', size: 2 },
+  9: { type: 'uint', size: 4 },
+  10: { type: 'int64', size: 8 },
+  11: { type: 'uint64', size: 8 },
+};
+
+interface ClassicVariable extends NetCDFVariable {
+  typeSize: number;
+  begin: number;
+  isRecord: boolean;
+}
+
+class Cursor {
+  offset = 0;
+  private view: DataView;
+
+  constructor(private bytes: Uint8Array, private wide: boolean) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  ensure(length: number): void {
+    if (this.offset + length > this.bytes.byteLength) {
+      throw new NetCDFError('Unexpected end of NetCDF header');
+    }
+  }
+
+  int32(): number {
+    this.ensure(4);
+    const value = this.view.getInt32(this.offset, false);
+    this.offset += 4;
+    return value;
+  }
+
+  uint32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset, false);
+    this.offset += 4;
+    return value;
+  }
+
+  int64(): number {
+    this.ensure(8);
+    const value = Number(this.view.getBigInt64(this.offset, false));
+    this.offset += 8;
+    return value;
+  }
+
+  /** NON_NEG / element counts: 64-bit in CDF-5, 32-bit otherwise */
+  count(): number {
+    return this.wide ? this.int64() : this.uint32();
+  }
+
+  name(): string {
+    const length = this.count();
+    this.ensure(length);
+    const name = new TextDecoder().decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += pad4(length);
+    return name;
+  }
+}
+
+function pad4(length: number): number {
+  return Math.ceil(length / 4) * 4;
+}
+
+function readValue(view: DataView, offset: number, type: NetCDFDataType): number {
+  switch (type) {
+    case 'byte': return view.getInt8(offset);
+    case 'char':
+    case 'ubyte': return view.getUint8(offset);
+    case 'short': return view.getInt16(offset, false);
+    case 'ushort': return view.getUint16(offset, false);
+    case 'int': return view.getInt32(offset, false);
+    case 'uint': return view.getUint32(offset, false);
+    case 'float': return view.getFloat32(offset, false);
+    case 'double': return view.getFloat64(offset, false);
+    case 'int64': return Number(view.getBigInt64(offset, false));
+    case 'uint64': return Number(view.getBigUint64(offset, false));
+    default: throw new NetCDFError(`Unsupported NetCDF type: ${type}`);
+  }
+}
+
+function readAttributes(cursor: Cursor, bytes: Uint8Array, view: DataView): NetCDFAttributes {
+  const attributes: NetCDFAttributes = {};
+  const tag = cursor.int32();
+  const count = cursor.count();
+  if (tag === 0 && count === 0) return attributes;
+  if (tag !== NC_ATTRIBUTE) {
+    throw new NetCDFError(`Expected attribute list, found tag ${tag}`);
+  }
+
+  for (let i = 0; i < count; i++) {
+    const name = cursor.name();
+    const typeInfo = TYPES[cursor.int32()];
+    if (!typeInfo) throw new NetCDFError(`Unknown type for attribute ${name}`);
+    const length = cursor.count();
+    const byteLength = length * typeInfo.size;
+    cursor.ensure(byteLength);
+
+    if (typeInfo.type === 'char') {
+      attributes[name] = new TextDecoder()
+        .decode(bytes.subarray(cursor.offset, cursor.offset + byteLength))
+        .replace(/\0+$/, '');
+    } else {
+      const values: number[] = [];
+      for (let j = 0; j < length; j++) {
+        values.push(readValue(view, cursor.offset + j * typeInfo.size, typeInfo.type));
+      }
+      attributes[name] = values;
+    }
+    cursor.offset += pad4(byteLength);
+  }
+  return attributes;
+}
+
+/**
+ * Check for the "CDF" magic number
+ */
+export function isClassicNetCDF(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x43 && bytes[1] === 0x44 && bytes[2] === 0x46 && [1, 2, 5].includes(bytes[3]);
+}
+
+/**
+ * Parse a NetCDF-3 file held in memory
+ */
+export function readClassicNetCDF(bytes: Uint8Array): NetCDFDataset {
+  if (!isClassicNetCDF(bytes)) {
+    throw new NetCDFError('Not a NetCDF-3 file');
+  }
+
+  const version = bytes[3];
+  const format: NetCDFFormat = version === 1 ? 'classic' : version === 2 ? '64bit-offset' : '64bit-data';
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const cursor = new Cursor(bytes, version === 5);
+  cursor.offset = 4;
+
+  let numRecords = cursor.count();
+
+  // Dimensions
+  const dimensions: NetCDFDimension[] = [];
+  const dimTag = cursor.int32();
+  const dimCount = cursor.count();
+  if (dimTag !== 0 || dimCount !== 0) {
+    if (dimTag !== NC_DIMENSION) throw new NetCDFError(`Expected dimension list, found tag ${dimTag}`);
+    for (let i = 0; i < dimCount; i++) {
+      const name = cursor.name();
+      const size = cursor.count();
+      dimensions.push({ name, size, unlimited: size === 0 });
+    }
+  }
+
+  const attributes = readAttributes(cursor, bytes, view);
+
+  // Variables
+  const variables: ClassicVariable[] = [];
+  const varTag = cursor.int32();
+  const varCount = cursor.count();
+  if (varTag !== 0 || varCount !== 0) {
+    if (varTag !== NC_VARIABLE) throw new NetCDFError(`Expected variable list, found tag ${varTag}`);
+    for (let i = 0; i < varCount; i++) {
+      const name = cursor.name();
+      const rank = cursor.count();
+      const dimIds: number[] = [];
+      for (let j = 0; j < rank; j++) dimIds.push(cursor.count());
+      const varAttributes = readAttributes(cursor, bytes, view);
+      const typeInfo = TYPES[cursor.int32()];
+      if (!typeInfo) throw new NetCDFError(`Unknown type for variable ${name}`);
+      cursor.count(); // vsize: recomputed below, it overflows for large variables
+      const begin = version === 1 ? cursor.uint32() : cursor.int64();
+
+      const dims = dimIds.map(id => {
+        const dim = dimensions[id];
+        if (!dim) throw new NetCDFError(`Variable ${name} references unknown dimension ${id}`);
+        return dim;
+      });
+      variables.push({
+        name,
+        type: typeInfo.type,
+        typeSize: typeInfo.size,
+        dimensions: dims.map(d => d.name),
+        shape: dims.map(d => d.size),
+        attributes: varAttributes,
+        begin,
+        isRecord: dims.length > 0 && dims[0].unlimited,
+      });
+    }
+  }
+
+  // Record layout: one slab per record holding every record variable, each padded to 4 bytes
+  const recordVariables = variables.filter(v => v.isRecord);
+  const slabSize = (v: ClassicVariable) => v.shape.slice(1).reduce((a, b) => a * b, 1) * v.typeSize;
+  const recordSize = recordVariables.length === 1
+    ? slabSize(recordVariables[0])
+    : recordVariables.reduce((sum, v) => sum + pad4(slabSize(v)), 0);
+
+  if (numRecords === STREAMING && recordSize > 0 && recordVariables.length > 0) {
+    const firstBegin = Math.min(...recordVariables.map(v => v.begin));
+    numRecords = Math.floor((bytes.byteLength - firstBegin) / recordSize);
+  }
+
+  for (const variable of recordVariables) {
+    variable.shape[0] = numRecords;
+  }
+  for (const dim of dimensions) {
+    if (dim.unlimited) dim.size = numRecords;
+  }
+
+  return {
+    format,
+    dimensions,
+    attributes,
+    variables: variables.map(({ typeSize: _typeSize, begin: _begin, isRecord: _isRecord, ...rest }) => rest),
+    readVariable(name: string): Float64Array {
+      const variable = variables.find(v => v.name === name);
+      if (!variable) throw new NetCDFError(`Unknown variable: ${name}`);
+
+      const count = variable.shape.reduce((a, b) => a * b, 1);
+      const out = new Float64Array(count);
+
+      if (!variable.isRecord) {
+        if (variable.begin + count * variable.typeSize > bytes.byteLength) {
+          throw new NetCDFError(`Variable ${name} extends past end of file`);
+        }
+        for (let i = 0; i < count; i++) {
+          out[i] = readValue(view, variable.begin + i * variable.typeSize, variable.type);
+        }
+        return out;
+      }
+
+      const perRecord = count / Math.max(numRecords, 1);
+      for (let r = 0; r < numRecords; r++) {
+        const start = variable.begin + r * recordSize;
+        if (start + perRecord * variable.typeSize > bytes.byteLength) {
+          throw new NetCDFError(`Record ${r} of ${name} extends past end of file`);
+        }
+        for (let i = 0; i < perRecord; i++) {
+          out[r * perRecord + i] = readValue(view, start + i * variable.typeSize, variable.type);
+        }
+      }
+      return out;
+    },
+  };
+}
@@ -0,0 +1,1034 @@
+/**
+ * NetCDF-4 reader (HDF5 subset)
+ *
+ * Reads the part of HDF5 that netCDF-4 "classic model" files use, which is
+ * what the Copernicus Marine toolbox writes for subsets:
+ * - superblock versions 0-3 and object header versions 1-2
+ * - a flat root group, stored as a symbol table, link messages or a dense
+ *   (fractal heap) link table
+ * - integer and floating point datasets: compact, contiguous, or chunked with
+ *   a v1 B-tree / single chunk / implicit index and deflate, shuffle or
+ *   fletcher32 filters
+ * - attributes (compact or dense), including variable-length strings and
+ *   the DIMENSION_LIST references that tie variables to dimensions
+ *
+ * Anything else (nested groups, compound types, newer chunk indexes, other
+ * compression filters) is rejected with a NetCDFError rather than misread.
+ *
+ * Format reference: https://docs.hdfgroup.org/hdf5/develop/_f_m_t3.html
+ */
+
+import { inflateSync } from 'zlib';
+import {
+  NetCDFError,
+  type NetCDFAttributes,
+  type NetCDFAttributeValue,
+  type NetCDFDataType,
+  type NetCDFDataset,
+  type NetCDFDimension,
+  type NetCDFVariable,
+} from './types';
+
+const SIGNATURE = [0x89, 0x48, 0x44, 0x46, 0x0d, 0x0a, 0x1a, 0x0a];
+const UNDEFINED = -1;
+
+const MSG_DATASPACE = 0x0001;
+const MSG_LINK_INFO = 0x0002;
+const MSG_DATATYPE = 0x0003;
+const MSG_LINK = 0x0006;
+const MSG_LAYOUT = 0x0008;
+const MSG_FILTERS = 0x000b;
+const MSG_ATTRIBUTE = 0x000c;
+const MSG_CONTINUATION = 0x0010;
+const MSG_SYMBOL_TABLE = 0x0011;
+const MSG_ATTRIBUTE_INFO = 0x0015;
+
+const CLASS_FIXED = 0;
+const CLASS_FLOAT = 1;
+const CLASS_STRING = 3;
+const CLASS_REFERENCE = 7;
+const CLASS_VLEN = 9;
+
+const FILTER_DEFLATE = 1;
+const FILTER_SHUFFLE = 2;
+const FILTER_FLETCHER32 = 3;
+
+/** Attributes netCDF-4 uses for its own bookkeeping */
+const INTERNAL_ATTRIBUTES = new Set([
+  'CLASS',
+  'NAME',
+  'DIMENSION_LIST',
+  'REFERENCE_LIST',
+  '_Netcdf4Dimid',
+  '_Netcdf4Coordinates',
+  '_NCProperties',
+  '_nc3_strict',
+  '_IsNetcdf4',
+  '_SuperblockVersion',
+]);
+const PURE_DIMENSION_PREFIX = 'This is a netCDF dimension but not a netCDF variable';
+
+interface Message {
+  type: number;
+  pos: number;
+  size: number;
+  flags: number;
+}
+
+interface Datatype {
+  typeClass: number;
+  size: number;
+  littleEndian: boolean;
+  signed: boolean;
+  /** Vlen only: sequence base type, or undefined for vlen strings */
+  base?: Datatype;
+}
+
+interface Dataspace {
+  shape: number[];
+  unlimited: boolean[];
+  isNull: boolean;
+}
+
+interface Filter {
+  id: number;
+  flags: number;
+  values: number[];
+}
+
+type Layout =
+  | { kind: 'compact'; pos: number; size: number }
+  | { kind: 'contiguous'; address: number; size: number }
+  | { kind: 'chunked'; index: 'btree' | 'single' | 'implicit'; address: number; chunkShape: number[]; filteredSize?: number; filterMask?: number };
+
+interface RawAttribute {
+  name: string;
+  datatype: Datatype;
+  count: number;
+  dataPos: number;
+}
+
+interface DatasetInfo {
+  name: string;
+  address: number;
+  datatype: Datatype;
+  dataspace: Dataspace;
+  layout: Layout;
+  filters: Filter[];
+  attributes: RawAttribute[];
+}
+
+function decodeNumber(view: DataView, pos: number, type: Datatype): number {
+  const le = type.littleEndian;
+  if (type.typeClass === CLASS_FLOAT) {
+    if (type.size === 4) return view.getFloat32(pos, le);
+    if (type.size === 8) return view.getFloat64(pos, le);
+  } else if (type.typeClass === CLASS_FIXED) {
+    switch (type.size) {
+      case 1: return type.signed ? view.getInt8(pos) : view.getUint8(pos);
+      case 2: return type.signed ? view.getInt16(pos, le) : view.getUint16(pos, le);
+      case 4: return type.signed ? view.getInt32(pos, le) : view.getUint32(pos, le);
+      case 8: return Number(type.signed ? view.getBigInt64(pos, le) : view.getBigUint64(pos, le));
+    }
+  }
+  throw new NetCDFError(`Unsupported HDF5 numeric type (class ${type.typeClass}, ${type.size} bytes)`);
+}
+
+function pad8(length: number): number {
+  return Math.ceil(length / 8) * 8;
+}
+
+function product(values: number[]): number {
+  return values.reduce((a, b) => a * b, 1);
+}
+
+/**
+ * Check for the HDF5 signature (at offset 0 or a power-of-two user block offset)
+ */
+export function isHdf5(bytes: Uint8Array): boolean {
+  return findSignature(bytes) !== -1;
+}
+
+function findSignature(bytes: Uint8Array): number {
+  for (let offset = 0; offset + 8 <= bytes.length; offset = offset === 0 ? 512 : offset * 2) {
+    if (SIGNATURE.every((b, i) => bytes[offset + i] === b)) return offset;
+  }
+  return -1;
+}
+
+class Hdf5File {
+  private view: DataView;
+  private decoder = new TextDecoder();
+  offsetSize = 8;
+  lengthSize = 8;
+  private base = 0;
+
+  constructor(readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  // --------------------------------------------------------------------------
+  // Primitive reads (HDF5 metadata is little-endian)
+  // --------------------------------------------------------------------------
+
+  check(pos: number, length: number): void {
+    if (pos < 0 || pos + length > this.bytes.length) {
+      throw new NetCDFError('HDF5 structure points past end of file');
+    }
+  }
+
+  u8(pos: number): number {
+    this.check(pos, 1);
+    return this.bytes[pos];
+  }
+
+  uint(pos: number, size: number): number {
+    this.check(pos, size);
+    switch (size) {
+      case 1: return this.view.getUint8(pos);
+      case 2: return this.view.getUint16(pos, true);
+      case 4: return this.view.getUint32(pos, true);
+      case 8: return Number(this.view.getBigUint64(pos, true));
+      default: {
+        let value = 0;
+        for (let i = size - 1; i >= 0; i--) value = value * 256 + this.bytes[pos + i];
+        return value;
+      }
+    }
+  }
+
+  /** File address; UNDEFINED when all bits are set */
+  address(pos: number): number {
+    return this.allOnes(pos, this.offsetSize) ? UNDEFINED : this.uint(pos, this.offsetSize) + this.base;
+  }
+
+  length(pos: number): number {
+    return this.uint(pos, this.lengthSize);
+  }
+
+  signature(pos: number, expected: string): void {
+    this.check(pos, 4);
+    const actual = String.fromCharCode(...this.bytes.subarray(pos, pos + 4));
+    if (actual !== expected) {
+      throw new NetCDFError(`Expected HDF5 ${expected} block at ${pos}, found ${JSON.stringify(actual)}`);
+    }
+  }
+
+  text(pos: number, length: number): string {
+    this.check(pos, length);
+    return this.decoder.decode(this.bytes.subarray(pos, pos + length)).replace(/\0+$/, '');
+  }
+
+  cString(pos: number): string {
+    let end = pos;
+    while (end < this.bytes.length && this.bytes[end] !== 0) end++;
+    return this.decoder.decode(this.bytes.subarray(pos, end));
+  }
+
+  number(pos: number, type: Datatype): number {
+    this.check(pos, type.size);
+    return decodeNumber(this.view, pos, type);
+  }
+
+  /** True when every byte is 0xff (undefined address / unlimited size) */
+  allOnes(pos: number, size: number): boolean {
+    this.check(pos, size);
+    for (let i = 0; i < size; i++) {
+      if (this.bytes[pos + i] !== 0xff) return false;
+    }
+    return true;
+  }
+
+  // --------------------------------------------------------------------------
+  // Superblock
+  // --------------------------------------------------------------------------
+
+  /** Parse the superblock and return the root group's object header address */
+  readSuperblock(): number {
+    const start = findSignature(this.bytes);
+    if (start === -1) throw new NetCDFError('Not an HDF5 file');
+    const version = this.u8(start + 8);
+
+    if (version === 0 || version === 1) {
+      this.offsetSize = this.u8(start + 13);
+      this.lengthSize = this.u8(start + 14);
+      let pos = start + 24 + (version === 1 ? 4 : 0);
+      this.base = this.uint(pos, this.offsetSize);
+      pos += this.offsetSize * 4; // base, free-space, end-of-file, driver info
+      return this.address(pos + this.offsetSize); // root symbol table entry: name offset, header address
+    }
+
+    if (version === 2 || version === 3) {
+      this.offsetSize = this.u8(start + 9);
+      this.lengthSize = this.u8(start + 10);
+      const pos = start + 12;
+      this.base = this.uint(pos, this.offsetSize);
+      return this.address(pos + this.offsetSize * 3); // base, extension, end-of-file, root
+    }
+
+    throw new NetCDFError(`Unsupported HDF5 superblock version ${version}`);
+  }
+
+  // --------------------------------------------------------------------------
+  // Object headers
+  // --------------------------------------------------------------------------
+
+  readMessages(address: number): Message[] {
+    const messages: Message[] = [];
+    const blocks: Array<{ start: number; end: number }> = [];
+    let version: number;
+    let trackOrder = false;
+
+    if (this.bytes[address] === 0x4f) {
+      // "OHDR": version 2
+      this.signature(address, 'OHDR');
+      version = this.u8(address + 4);
+      const flags = this.u8(address + 5);
+      trackOrder = (flags & 0x04) !== 0;
+      let pos = address + 6;
+      if (flags & 0x20) pos += 16; // access/modification/change/birth times
+      if (flags & 0x10) pos += 4; // attribute phase change values
+      const sizeBytes = 1 << (flags & 0x03);
+      const chunkSize = this.uint(pos, sizeBytes);
+      pos += sizeBytes;
+      blocks.push({ start: pos, end: pos + chunkSize + 4 }); // checksum follows chunk 0
+    } else {
+      version = this.u8(address);
+      if (version !== 1) throw new NetCDFError(`Unsupported object header version ${version} at ${address}`);
+      const headerSize = this.uint(address + 8, 4);
+      blocks.push({ start: address + 16, end: address + 16 + headerSize });
+    }
+
+    for (let b = 0; b < blocks.length; b++) {
+      const { start, end } = blocks[b];
+      const firstMessage = messages.length;
+      let pos = start;
+
+      if (version === 1) {
+        while (pos + 8 <= end) {
+          const type = this.uint(pos, 2);
+          const size = this.uint(pos + 2, 2);
+          const flags = this.u8(pos + 4);
+          messages.push({ type, pos: pos + 8, size, flags });
+          pos += 8 + size;
+        }
+      } else {
+        const headerSize = trackOrder ? 6 : 4;
+        // Every v2 block ends with a checksum
+        const limit = end - 4;
+        while (pos + headerSize <= limit) {
+          const type = this.u8(pos);
+          const size = this.uint(pos + 1, 2);
+          const flags = this.u8(pos + 3);
+          messages.push({ type, pos: pos + headerSize, size, flags });
+          pos += headerSize + size;
+        }
+      }
+
+      for (const message of messages.slice(firstMessage)) {
+        if (message.type !== MSG_CONTINUATION) continue;
+        const blockAddress = this.address(message.pos);
+        const blockLength = this.length(message.pos + this.offsetSize);
+        if (version === 1) {
+          blocks.push({ start: blockAddress, end: blockAddress + blockLength });
+        } else {
+          this.signature(blockAddress, 'OCHK');
+          blocks.push({ start: blockAddress + 4, end: blockAddress + blockLength });
+        }
+      }
+    }
+
+    return messages;
+  }
+
+  // --------------------------------------------------------------------------
+  // Message decoders
+  // --------------------------------------------------------------------------
+
+  readDatatype(pos: number): Datatype {
+    const classAndVersion = this.u8(pos);
+    const typeClass = classAndVersion & 0x0f;
+    const bits = this.u8(pos + 1);
+    const size = this.uint(pos + 4, 4);
+
+    switch (typeClass) {
+      case CLASS_FIXED:
+        return { typeClass, size, littleEndian: (bits & 0x01) === 0, signed: (bits & 0x08) !== 0 };
+      case CLASS_FLOAT:
+        return { typeClass, size, littleEndian: (bits & 0x01) === 0, signed: true };
+      case CLASS_STRING:
+      case CLASS_REFERENCE:
+        return { typeClass, size, littleEndian: true, signed: false };
+      case CLASS_VLEN: {
+        const isString = (bits & 0x03) === 1;
+        return {
+          typeClass,
+          size,
+          littleEndian: true,
+          signed: false,
+          base: isString ? undefined : this.readDatatype(pos + 8),
+        };
+      }
+      default:
+        return { typeClass, size, littleEndian: true, signed: false };
+    }
+  }
+
+  readDataspace(pos: number): Dataspace {
+    const version = this.u8(pos);
+    const rank = this.u8(pos + 1);
+    const flags = this.u8(pos + 2);
+    const isNull = version === 2 && this.u8(pos + 3) === 2;
+    let dimPos = version === 1 ? pos + 8 : pos + 4;
+
+    const shape: number[] = [];
+    for (let i = 0; i < rank; i++) {
+      shape.push(this.length(dimPos));
+      dimPos += this.lengthSize;
+    }
+    const unlimited = shape.map(() => false);
+    if (flags & 0x01) {
+      for (let i = 0; i < rank; i++) {
+        unlimited[i] = this.allOnes(dimPos, this.lengthSize);
+        dimPos += this.lengthSize;
+      }
+    }
+    return { shape, unlimited, isNull };
+  }
+
+  readLayout(pos: number): Layout {
+    const version = this.u8(pos);
+    const layoutClass = this.u8(pos + 1);
+
+    if (version < 3) {
+      throw new NetCDFError(`Unsupported data layout message version ${version}`);
+    }
+
+    if (layoutClass === 0) {
+      return { kind: 'compact', pos: pos + 4, size: this.uint(pos + 2, 2) };
+    }
+    if (layoutClass === 1) {
+      return { kind: 'contiguous', address: this.address(pos + 2), size: this.length(pos + 2 + this.offsetSize) };
+    }
+    if (layoutClass !== 2) {
+      throw new NetCDFError(`Unsupported data layout class ${layoutClass}`);
+    }
+
+    if (version === 3) {
+      const ndims = this.u8(pos + 2);
+      const address = this.address(pos + 3);
+      const chunkShape: number[] = [];
+      for (let i = 0; i < ndims - 1; i++) {
+        chunkShape.push(this.uint(pos + 3 + this.offsetSize + i * 4, 4));
+      }
+      return { kind: 'chunked', index: 'btree', address, chunkShape };
+    }
+
+    // Version 4
+    const flags = this.u8(pos + 2);
+    const ndims = this.u8(pos + 3);
+    const encodedSize = this.u8(pos + 4);
+    let p = pos + 5;
+    const chunkShape: number[] = [];
+    for (let i = 0; i < ndims; i++) {
+      chunkShape.push(this.uint(p, encodedSize));
+      p += encodedSize;
+    }
+    chunkShape.pop(); // element size
+    const indexType = this.u8(p++);
+
+    if (indexType === 1) {
+      let filteredSize: number | undefined;
+      let filterMask: number | undefined;
+      if (flags & 0x02) {
+        filteredSize = this.length(p);
+        filterMask = this.uint(p + this.lengthSize, 4);
+        p += this.lengthSize + 4;
+      }
+      return { kind: 'chunked', index: 'single', address: this.address(p), chunkShape, filteredSize, filterMask };
+    }
+    if (indexType === 2) {
+      return { kind: 'chunked', index: 'implicit', address: this.address(p), chunkShape };
+    }
+    throw new NetCDFError(`Unsupported chunk index type ${indexType} (fixed/extensible array and v2 B-tree indexes are not supported)`);
+  }
+
+  readFilters(pos: number): Filter[] {
+    const version = this.u8(pos);
+    const count = this.u8(pos + 1);
+    const filters: Filter[] = [];
+    let p = version === 1 ? pos + 8 : pos + 2;
+
+    for (let i = 0; i < count; i++) {
+      const id = this.uint(p, 2);
+      p += 2;
+      let nameLength = 0;
+      if (version === 1 || id >= 256) {
+        nameLength = this.uint(p, 2);
+        p += 2;
+      }
+      const flags = this.uint(p, 2);
+      const valueCount = this.uint(p + 2, 2);
+      p += 4 + nameLength;
+      const values: number[] = [];
+      for (let j = 0; j < valueCount; j++) {
+        values.push(this.uint(p, 4));
+        p += 4;
+      }
+      if (version === 1 && valueCount % 2 === 1) p += 4;
+      filters.push({ id, flags, values });
+    }
+    return filters;
+  }
+
+  /**
+   * Decode an attribute message. Returns the attribute and its encoded length
+   * (needed when walking dense attribute storage).
+   */
+  readAttribute(pos: number): { attribute: RawAttribute; length: number } {
+    const version = this.u8(pos);
+    const nameSize = this.uint(pos + 2, 2);
+    const datatypeSize = this.uint(pos + 4, 2);
+    const dataspaceSize = this.uint(pos + 6, 2);
+
+    let p: number;
+    let name: string;
+    let datatypePos: number;
+    let dataspacePos: number;
+
+    if (version === 1) {
+      p = pos + 8;
+      name = this.text(p, nameSize);
+      datatypePos = p + pad8(nameSize);
+      dataspacePos = datatypePos + pad8(datatypeSize);
+      p = dataspacePos + pad8(dataspaceSize);
+    } else if (version === 2 || version === 3) {
+      p = pos + (version === 3 ? 9 : 8);
+      name = this.text(p, nameSize);
+      datatypePos = p + nameSize;
+      dataspacePos = datatypePos + datatypeSize;
+      p = dataspacePos + dataspaceSize;
+    } else {
+      throw new NetCDFError(`Unsupported attribute message version ${version}`);
+    }
+
+    const datatype = this.readDatatype(datatypePos);
+    const dataspace = this.readDataspace(dataspacePos);
+    const count = dataspace.isNull ? 0 : product(dataspace.shape);
+
+    return {
+      attribute: { name, datatype, count, dataPos: p },
+      length: p + count * datatype.size - pos,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Heaps
+  // --------------------------------------------------------------------------
+
+  readGlobalHeapObject(collection: number, index: number): Uint8Array {
+    this.signature(collection, 'GCOL');
+    const collectionSize = this.length(collection + 8);
+    const end = collection + collectionSize;
+    let pos = collection + 8 + this.lengthSize;
+
+    while (pos + 8 + this.lengthSize <= end) {
+      const objectIndex = this.uint(pos, 2);
+      const size = this.length(pos + 8);
+      const dataPos = pos + 8 + this.lengthSize;
+      if (objectIndex === 0) break;
+      if (objectIndex === index) {
+        this.check(dataPos, size);
+        return this.bytes.subarray(dataPos, dataPos + size);
+      }
+      pos = dataPos + pad8(size);
+    }
+    throw new NetCDFError(`Global heap object ${index} not found in collection at ${collection}`);
+  }
+
+  /**
+   * Visit every managed object in a fractal heap. Objects in a freshly
+   * written heap are packed back to back, so each direct block is walked
+   * with `visit`, which returns the object's length (0 when it hits free
+   * space), until the header's managed object count is reached.
+   */
+  walkFractalHeap(address: number, visit: (pos: number, end: number) => number): void {
+    this.signature(address, 'FRHP');
+    const filterLength = this.uint(address + 7, 2);
+    const flags = this.u8(address + 9);
+    if (filterLength > 0) throw new NetCDFError('Filtered fractal heaps are not supported');
+
+    const O = this.offsetSize;
+    const L = this.lengthSize;
+    let p = address + 14;
+    let remaining = this.length(p + 5 * L + 2 * O); // number of managed objects
+    p += L + O + L + O + L * 8; // huge id, huge B-tree, free space, free-space manager, managed/huge/tiny stats
+    const tableWidth = this.uint(p, 2);
+    const startBlockSize = this.length(p + 2);
+    const maxDirectBlockSize = this.length(p + 2 + L);
+    const maxHeapBits = this.uint(p + 2 + 2 * L, 2);
+    const rootAddress = this.address(p + 6 + 2 * L);
+    const rootRows = this.uint(p + 6 + 2 * L + O, 2);
+
+    const blockOffsetSize = Math.ceil(maxHeapBits / 8);
+    const directHeaderSize = 5 + O + blockOffsetSize + (flags & 0x02 ? 4 : 0);
+    const maxDirectRows = Math.log2(maxDirectBlockSize) - Math.log2(startBlockSize) + 2;
+    const rowBlockSize = (row: number) => (row < 2 ? startBlockSize : startBlockSize * 2 ** (row - 1));
+
+    const walkDirect = (blockAddress: number, size: number) => {
+      this.signature(blockAddress, 'FHDB');
+      const end = blockAddress + size;
+      let pos = blockAddress + directHeaderSize;
+      while (pos < end && remaining > 0) {
+        const length = visit(pos, end);
+        if (length <= 0) break;
+        pos += length;
+        remaining--;
+      }
+    };
+
+    const walkIndirect = (blockAddress: number, rows: number) => {
+      this.signature(blockAddress, 'FHIB');
+      let pos = blockAddress + 5 + O + blockOffsetSize;
+      for (let row = 0; row < rows; row++) {
+        const size = rowBlockSize(row);
+        for (let col = 0; col < tableWidth; col++) {
+          const child = this.address(pos);
+          pos += O;
+          if (child === UNDEFINED) continue;
+          if (row < maxDirectRows) {
+            walkDirect(child, size);
+          } else {
+            walkIndirect(child, Math.log2(size) - Math.log2(startBlockSize * tableWidth) + 1);
+          }
+        }
+      }
+    };
+
+    if (rootAddress === UNDEFINED) return;
+    if (rootRows === 0) {
+      walkDirect(rootAddress, startBlockSize);
+    } else {
+      walkIndirect(rootAddress, rootRows);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Groups
+  // --------------------------------------------------------------------------
+
+  /** Decode a link message; only hard links resolve to an address */
+  readLink(pos: number): { name: string; address: number; length: number } {
+    const version = this.u8(pos);
+    if (version !== 1) throw new NetCDFError(`Unsupported link message version ${version}`);
+    const flags = this.u8(pos + 1);
+    let p = pos + 2;
+    let linkType = 0;
+    if (flags & 0x08) linkType = this.u8(p++);
+    if (flags & 0x04) p += 8;
+    if (flags & 0x10) p += 1;
+    const nameLengthSize = 1 << (flags & 0x03);
+    const nameLength = this.uint(p, nameLengthSize);
+    p += nameLengthSize;
+    const name = this.text(p, nameLength);
+    p += nameLength;
+
+    let address = UNDEFINED;
+    if (linkType === 0) {
+      address = this.address(p);
+      p += this.offsetSize;
+    } else {
+      p += 2 + this.uint(p, 2); // soft/external link value
+    }
+    return { name, address, length: p - pos };
+  }
+
+  readGroupLinks(messages: Message[]): Array<{ name: string; address: number }> {
+    const links: Array<{ name: string; address: number }> = [];
+
+    for (const message of messages) {
+      if (message.type === MSG_LINK) {
+        const link = this.readLink(message.pos);
+        if (link.address !== UNDEFINED) links.push(link);
+      } else if (message.type === MSG_LINK_INFO) {
+        const flags = this.u8(message.pos + 1);
+        const heapAddress = this.address(message.pos + 2 + (flags & 0x01 ? 8 : 0));
+        if (heapAddress !== UNDEFINED) {
+          this.walkFractalHeap(heapAddress, (pos) => {
+            if (this.bytes[pos] !== 1) return 0;
+            const link = this.readLink(pos);
+            if (link.address !== UNDEFINED) links.push(link);
+            return link.length;
+          });
+        }
+      } else if (message.type === MSG_SYMBOL_TABLE) {
+        const btree = this.address(message.pos);
+        const heap = this.address(message.pos + this.offsetSize);
+        this.signature(heap, 'HEAP');
+        const heapData = this.address(heap + 8 + 2 * this.lengthSize);
+        this.readSymbolTable(btree, heapData, links);
+      }
+    }
+    return links;
+  }
+
+  private readSymbolTable(node: number, heapData: number, links: Array<{ name: string; address: number }>): void {
+    this.signature(node, 'TREE');
+    const level = this.u8(node + 5);
+    const entries = this.uint(node + 6, 2);
+    const O = this.offsetSize;
+    const L = this.lengthSize;
+    let pos = node + 8 + 2 * O + L; // header, siblings, first key
+
+    for (let i = 0; i < entries; i++) {
+      const child = this.address(pos);
+      pos += O + L;
+      if (level > 0) {
+        this.readSymbolTable(child, heapData, links);
+        continue;
+      }
+      this.signature(child, 'SNOD');
+      const symbols = this.uint(child + 6, 2);
+      const entrySize = 2 * O + 24;
+      for (let s = 0; s < symbols; s++) {
+        const entry = child + 8 + s * entrySize;
+        const nameOffset = this.uint(entry, O);
+        links.push({ name: this.cString(heapData + nameOffset), address: this.address(entry + O) });
+      }
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Attributes and datasets
+  // --------------------------------------------------------------------------
+
+  readAttributes(messages: Message[]): RawAttribute[] {
+    const attributes: RawAttribute[] = [];
+    for (const message of messages) {
+      if (message.type === MSG_ATTRIBUTE) {
+        attributes.push(this.readAttribute(message.pos).attribute);
+      } else if (message.type === MSG_ATTRIBUTE_INFO) {
+        const flags = this.u8(message.pos + 1);
+        const heapAddress = this.address(message.pos + 2 + (flags & 0x01 ? 2 : 0));
+        if (heapAddress !== UNDEFINED) {
+          this.walkFractalHeap(heapAddress, (pos) => {
+            if (![1, 2, 3].includes(this.bytes[pos])) return 0;
+            const { attribute, length } = this.readAttribute(pos);
+            attributes.push(attribute);
+            return length;
+          });
+        }
+      }
+    }
+    return attributes;
+  }
+
+  attributeValue(attribute: RawAttribute): NetCDFAttributeValue | undefined {
+    const { datatype, count, dataPos } = attribute;
+
+    if (datatype.typeClass === CLASS_FIXED || datatype.typeClass === CLASS_FLOAT) {
+      const values: number[] = [];
+      for (let i = 0; i < count; i++) values.push(this.number(dataPos + i * datatype.size, datatype));
+      return values;
+    }
+    if (datatype.typeClass === CLASS_STRING) {
+      const parts: string[] = [];
+      for (let i = 0; i < count; i++) parts.push(this.text(dataPos + i * datatype.size, datatype.size));
+      return parts.join('');
+    }
+    if (datatype.typeClass === CLASS_VLEN && !datatype.base) {
+      const parts: string[] = [];
+      for (let i = 0; i < count; i++) {
+        parts.push(this.decoder.decode(this.vlenData(dataPos + i * datatype.size)));
+      }
+      return parts.join(',');
+    }
+    return undefined;
+  }
+
+  /** Heap data behind one vlen element: length(4), collection address, object index(4) */
+  vlenData(pos: number): Uint8Array {
+    const length = this.uint(pos, 4);
+    if (length === 0) return new Uint8Array(0);
+    const collection = this.address(pos + 4);
+    const index = this.uint(pos + 4 + this.offsetSize, 4);
+    return this.readGlobalHeapObject(collection, index);
+  }
+
+  /** DIMENSION_LIST: for each axis, the object header addresses of its dimension scales */
+  dimensionList(attribute: RawAttribute): number[][] {
+    const { datatype, count, dataPos } = attribute;
+    if (datatype.typeClass !== CLASS_VLEN || datatype.base?.typeClass !== CLASS_REFERENCE) return [];
+    const result: number[][] = [];
+    for (let i = 0; i < count; i++) {
+      const data = this.vlenData(dataPos + i * datatype.size);
+      const refs: number[] = [];
+      const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      for (let p = 0; p + this.offsetSize <= data.length; p += this.offsetSize) {
+        refs.push(this.offsetSize === 8 ? Number(view.getBigUint64(p, true)) + this.base : view.getUint32(p, true) + this.base);
+      }
+      result.push(refs);
+    }
+    return result;
+  }
+
+  readDataset(name: string, address: number): DatasetInfo | null {
+    const messages = this.readMessages(address);
+    const find = (type: number) => messages.find(m => m.type === type);
+    const dataspaceMessage = find(MSG_DATASPACE);
+    const datatypeMessage = find(MSG_DATATYPE);
+    const layoutMessage = find(MSG_LAYOUT);
+    if (!dataspaceMessage || !datatypeMessage || !layoutMessage) return null; // a group or named datatype
+
+    if (datatypeMessage.flags & 0x02) {
+      throw new NetCDFError(`Variable ${name} uses a shared datatype, which is not supported`);
+    }
+
+    const filterMessage = find(MSG_FILTERS);
+    return {
+      name,
+      address,
+      datatype: this.readDatatype(datatypeMessage.pos),
+      dataspace: this.readDataspace(dataspaceMessage.pos),
+      layout: this.readLayout(layoutMessage.pos),
+      filters: filterMessage ? this.readFilters(filterMessage.pos) : [],
+      attributes: this.readAttributes(messages),
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Data
+  // --------------------------------------------------------------------------
+
+  private decodeChunk(raw: Uint8Array, filters: Filter[], mask: number, elementSize: number): Uint8Array {
+    let data = raw;
+    for (let i = filters.length - 1; i >= 0; i--) {
+      if (mask & (1 << i)) continue;
+      const filter = filters[i];
+      switch (filter.id) {
+        case FILTER_DEFLATE:
+          data = new Uint8Array(inflateSync(data));
+          break;
+        case FILTER_SHUFFLE: {
+          const size = filter.values[0] ?? elementSize;
+          const count = Math.floor(data.length / size);
+          const out = new Uint8Array(data.length);
+          for (let b = 0; b < size; b++) {
+            for (let e = 0; e < count; e++) out[e * size + b] = data[b * count + e];
+          }
+          out.set(data.subarray(count * size), count * size);
+          data = out;
+          break;
+        }
+        case FILTER_FLETCHER32:
+          data = data.subarray(0, data.length - 4);
+          break;
+        default:
+          throw new NetCDFError(`Unsupported HDF5 filter ${filter.id}`);
+      }
+    }
+    return data;
+  }
+
+  readData(dataset: DatasetInfo): Float64Array {
+    const { datatype, dataspace, layout } = dataset;
+    if (datatype.typeClass !== CLASS_FIXED && datatype.typeClass !== CLASS_FLOAT) {
+      throw new NetCDFError(`Variable ${dataset.name} is not numeric`);
+    }
+
+    const shape = dataspace.isNull ? [0] : dataspace.shape;
+    const count = product(shape);
+    const out = new Float64Array(count).fill(NaN);
+    const size = datatype.size;
+
+    if (layout.kind === 'compact' || layout.kind === 'contiguous') {
+      const start = layout.kind === 'compact' ? layout.pos : layout.address;
+      if (start === UNDEFINED) return out; // never written: all fill
+      for (let i = 0; i < count; i++) out[i] = this.number(start + i * size, datatype);
+      return out;
+    }
+
+    const rank = shape.length;
+    const chunkShape = layout.chunkShape;
+    const chunkCount = product(chunkShape);
+    const strides = shape.map((_, i) => product(shape.slice(i + 1)));
+
+    const placeChunk = (bytes: Uint8Array, origin: number[]) => {
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      const index = new Array(rank).fill(0);
+      for (let e = 0; e < chunkCount && (e + 1) * size <= bytes.length; e++) {
+        let target = 0;
+        let inside = true;
+        for (let d = 0; d < rank; d++) {
+          const coordinate = origin[d] + index[d];
+          if (coordinate >= shape[d]) {
+            inside = false;
+            break;
+          }
+          target += coordinate * strides[d];
+        }
+        if (inside) out[target] = decodeNumber(view, e * size, datatype);
+        for (let d = rank - 1; d >= 0; d--) {
+          if (++index[d] < chunkShape[d]) break;
+          index[d] = 0;
+        }
+      }
+    };
+
+    const readChunk = (address: number, storedSize: number, mask: number, origin: number[]) => {
+      this.check(address, storedSize);
+      const raw = this.bytes.subarray(address, address + storedSize);
+      placeChunk(this.decodeChunk(raw, dataset.filters, mask, size), origin);
+    };
+
+    if (layout.address === UNDEFINED) return out;
+
+    if (layout.index === 'single') {
+      readChunk(layout.address, layout.filteredSize ?? chunkCount * size, layout.filterMask ?? 0, new Array(rank).fill(0));
+      return out;
+    }
+
+    if (layout.index === 'implicit') {
+      const perAxis = shape.map((n, d) => Math.ceil(n / chunkShape[d]));
+      const total = product(perAxis);
+      for (let c = 0; c < total; c++) {
+        let rest = c;
+        const origin = new Array(rank).fill(0);
+        for (let d = rank - 1; d >= 0; d--) {
+          origin[d] = (rest % perAxis[d]) * chunkShape[d];
+          rest = Math.floor(rest / perAxis[d]);
+        }
+        readChunk(layout.address + c * chunkCount * size, chunkCount * size, 0, origin);
+      }
+      return out;
+    }
+
+    this.walkChunkBtree(layout.address, rank, readChunk);
+    return out;
+  }
+
+  private walkChunkBtree(
+    node: number,
+    rank: number,
+    visit: (address: number, size: number, mask: number, origin: number[]) => void
+  ): void {
+    this.signature(node, 'TREE');
+    if (this.u8(node + 4) !== 1) throw new NetCDFError('Expected a chunk B-tree node');
+    const level = this.u8(node + 5);
+    const entries = this.uint(node + 6, 2);
+    const keySize = 8 + (rank + 1) * 8;
+    let pos = node + 8 + 2 * this.offsetSize;
+
+    for (let i = 0; i < entries; i++) {
+      const chunkSize = this.uint(pos, 4);
+      const mask = this.uint(pos + 4, 4);
+      const origin: number[] = [];
+      for (let d = 0; d < rank; d++) origin.push(this.uint(pos + 8 + d * 8, 8));
+      const child = this.address(pos + keySize);
+      if (level > 0) {
+        this.walkChunkBtree(child, rank, visit);
+      } else {
+        visit(child, chunkSize, mask, origin);
+      }
+      pos += keySize + this.offsetSize;
+    }
+  }
+}
+
+function toNetCDFType(datatype: Datatype): NetCDFDataType {
+  if (datatype.typeClass === CLASS_FLOAT) return datatype.size === 4 ? 'float' : 'double';
+  if (datatype.typeClass === CLASS_STRING) return datatype.size === 1 ? 'char' : 'string';
+  if (datatype.typeClass === CLASS_VLEN) return 'string';
+  const types: Record<number, [NetCDFDataType, NetCDFDataType]> = {
+    1: ['byte', 'ubyte'],
+    2: ['short', 'ushort'],
+    4: ['int', 'uint'],
+    8: ['int64', 'uint64'],
+  };
+  const pair = types[datatype.size];
+  if (datatype.typeClass !== CLASS_FIXED || !pair) {
+    throw new NetCDFError(`Unsupported HDF5 datatype class ${datatype.typeClass}`);
+  }
+  return datatype.signed ? pair[0] : pair[1];
+}
+
+function publicAttributes(file: Hdf5File, raw: RawAttribute[]): NetCDFAttributes {
+  const attributes: NetCDFAttributes = {};
+  for (const attribute of raw) {
+    if (INTERNAL_ATTRIBUTES.has(attribute.name)) continue;
+    const value = file.attributeValue(attribute);
+    if (value !== undefined) attributes[attribute.name] = value;
+  }
+  return attributes;
+}
+
+/**
+ * Parse a NetCDF-4 file held in memory
+ */
+export function readHdf5NetCDF(bytes: Uint8Array): NetCDFDataset {
+  const file = new Hdf5File(bytes);
+  const rootAddress = file.readSuperblock();
+  const rootMessages = file.readMessages(rootAddress);
+  const links = file.readGroupLinks(rootMessages);
+
+  const datasets: DatasetInfo[] = [];
+  for (const link of links) {
+    const dataset = file.readDataset(link.name, link.address);
+    if (dataset) datasets.push(dataset);
+  }
+
+  const attributeText = (dataset: DatasetInfo, name: string) => {
+    const attribute = dataset.attributes.find(a => a.name === name);
+    const value = attribute ? file.attributeValue(attribute) : undefined;
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  // Dimension scales become dimensions; "pure" dimensions are not variables
+  const scales = datasets.filter(d => attributeText(d, 'CLASS') === 'DIMENSION_SCALE');
+  const dimensions: NetCDFDimension[] = scales.map(d => ({
+    name: d.name,
+    size: d.dataspace.shape[0] ?? 0,
+    unlimited: d.dataspace.unlimited[0] ?? false,
+  }));
+  const scaleByAddress = new Map(scales.map(d => [d.address, d.name]));
+
+  const dimensionNames = (dataset: DatasetInfo): string[] => {
+    const shape = dataset.dataspace.shape;
+    if (scaleByAddress.has(dataset.address) && shape.length === 1) return [dataset.name];
+
+    const list = dataset.attributes.find(a => a.name === 'DIMENSION_LIST');
+    const refs = list ? file.dimensionList(list) : [];
+    if (refs.length === shape.length) {
+      return refs.map((axisRefs, axis) => scaleByAddress.get(axisRefs[0]) ?? `dim${axis}`);
+    }
+
+    // No references: fall back to the first unused dimension of matching size
+    const used = new Set<string>();
+    return shape.map((size, axis) => {
+      const match = dimensions.find(d => d.size === size && !used.has(d.name));
+      if (match) used.add(match.name);
+      return match?.name ?? `dim${axis}`;
+    });
+  };
+
+  const variableInfo = datasets.filter(d => !attributeText(d, 'NAME')?.startsWith(PURE_DIMENSION_PREFIX));
+  const variables: NetCDFVariable[] = variableInfo.map(d => ({
+    name: d.name,
+    type: toNetCDFType(d.datatype),
+    dimensions: dimensionNames(d),
+    shape: d.dataspace.isNull ? [] : d.dataspace.shape,
+    attributes: publicAttributes(file, d.attributes),
+  }));
+
+  return {
+    format: 'netcdf4',
+    dimensions,
+    attributes: publicAttributes(file, file.readAttributes(rootMessages)),
+    variables,
+    readVariable(name: string): Float64Array {
+      const dataset = variableInfo.find(d => d.name === name);
+      if (!dataset) throw new NetCDFError(`Unknown variable: ${name}`);
+      return file.readData(dataset);
+    },
+  };
+}
@@ -0,0 +1,399 @@
+/**
+ * Pure TypeScript NetCDF reader for Copernicus Marine subset files
+ *
+ * Replaces the Python/xarray parsing step: reads NetCDF-3 and NetCDF-4
+ * (HDF5 subset) files from memory and turns them into CopernicusTimeseries
+ * records, applying CF packing, fill values and plausibility checks.
+ *
+ * Usage:
+ * ```typescript
+ * const dataset = readNetCDF(await fs.promises.readFile('thetao.nc'));
+ * const timeseries = toCopernicusTimeseries(dataset, { point: { lat: 43.5, lon: -5.9 } });
+ * ```
+ */
+
+import type { CopernicusGrid, CopernicusTimeseries, CopernicusTimeseriesRecord } from '../types';
+import { isClassicNetCDF, readClassicNetCDF } from './classic';
+import { isHdf5, readHdf5NetCDF } from './hdf5';
+import { NetCDFError, type NetCDFDataType, type NetCDFDataset, type NetCDFVariable } from './types';
+
+export * from './types';
+
+const TIME_NAMES = ['time', 't'];
+const DEPTH_NAMES = ['depth', 'deptht', 'lev', 'z'];
+const LAT_NAMES = ['latitude', 'lat', 'nav_lat'];
+const LON_NAMES = ['longitude', 'lon', 'nav_lon'];
+
+/** Depths (m) kept per time step, matched within DEPTH_TOLERANCE */
+const TARGET_DEPTHS = [0, 5, 10];
+const DEPTH_TOLERANCE = 1.5;
+
+/** netCDF default fill values, used when a variable has no _FillValue */
+const DEFAULT_FILL: Partial<Record<NetCDFDataType, number>> = {
+  byte: -127,
+  short: -32767,
+  int: -2147483647,
+  float: 9.969209968386869e36,
+  double: 9.969209968386869e36,
+  ubyte: 255,
+  ushort: 65535,
+  uint: 4294967295,
+};
+
+const TIME_UNIT_MS: Record<string, number> = {
+  millisecond: 1,
+  milliseconds: 1,
+  second: 1000,
+  seconds: 1000,
+  s: 1000,
+  minute: 60 * 1000,
+  minutes: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  hours: 60 * 60 * 1000,
+  h: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+export interface CopernicusTimeseriesOptions {
+  /** Average only grid cells within `radius` degrees of this point (default: whole grid) */
+  point?: { lat: number; lon: number };
+  radius?: number;
+  /** Overrides the file's `id` global attribute */
+  datasetId?: string;
+}
+
+/**
+ * Parse a NetCDF file (classic, 64-bit offset, CDF-5 or NetCDF-4)
+ */
+export function readNetCDF(bytes: Uint8Array): NetCDFDataset {
+  if (isClassicNetCDF(bytes)) return readClassicNetCDF(bytes);
+  if (isHdf5(bytes)) return readHdf5NetCDF(bytes);
+  throw new NetCDFError('Unrecognised file format (expected NetCDF-3 or NetCDF-4)');
+}
+
+function numericAttribute(variable: NetCDFVariable, name: string): number[] | undefined {
+  const value = variable.attributes[name];
+  return Array.isArray(value) && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Read a variable with CF conventions applied: fill/missing values and
+ * values outside valid_min/valid_max/valid_range become NaN, then
+ * scale_factor and add_offset are applied.
+ */
+export function readVariableValues(dataset: NetCDFDataset, name: string): Float64Array {
+  const variable = dataset.variables.find(v => v.name === name);
+  if (!variable) throw new NetCDFError(`Unknown variable: ${name}`);
+
+  const raw = dataset.readVariable(name);
+  const fill = numericAttribute(variable, '_FillValue')?.[0] ?? DEFAULT_FILL[variable.type];
+  const missing = numericAttribute(variable, 'missing_value') ?? [];
+  const range = numericAttribute(variable, 'valid_range');
+  const validMin = numericAttribute(variable, 'valid_min')?.[0] ?? range?.[0];
+  const validMax = numericAttribute(variable, 'valid_max')?.[0] ?? range?.[1];
+  const scale = numericAttribute(variable, 'scale_factor')?.[0] ?? 1;
+  const offset = numericAttribute(variable, 'add_offset')?.[0] ?? 0;
+  const isFloat = variable.type === 'float' || variable.type === 'double';
+
+  const out = new Float64Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    const value = raw[i];
+    const isFill = fill !== undefined && (isFloat ? Math.abs(value - fill) <= Math.abs(fill) * 1e-6 : value === fill);
+    if (
+      Number.isNaN(value) ||
+      isFill ||
+      missing.includes(value) ||
+      (validMin !== undefined && value < validMin) ||
+      (validMax !== undefined && value > validMax)
+    ) {
+      out[i] = NaN;
+    } else {
+      out[i] = value * scale + offset;
+    }
+  }
+  return out;
+}
+
+/**
+ * Convert CF time values ("<unit> since <reference>") to ISO strings
+ */
+export function decodeTimes(values: ArrayLike<number>, units: string | undefined): string[] {
+  const match = units?.trim().match(/^(\w+)\s+since\s+(.+)$/i);
+  if (!match) {
+    throw new NetCDFError(`Unsupported time units: ${units ?? '(none)'}`);
+  }
+  const unitMs = TIME_UNIT_MS[match[1].toLowerCase()];
+  if (!unitMs) throw new NetCDFError(`Unsupported time unit: ${match[1]}`);
+
+  const [datePart, timePart = '00:00:00', zone] = match[2].trim().replace('T', ' ').split(/\s+/);
+  const [year, month = 1, day = 1] = datePart.split('-').map(Number);
+  const [hour = 0, minute = 0, second = 0] = timePart.replace(/Z$/i, '').split(':').map(Number);
+  let reference = Date.UTC(year, month - 1, day, hour, minute, Math.floor(second), Math.round((second % 1) * 1000));
+  if (!Number.isFinite(reference)) throw new NetCDFError(`Invalid time reference: ${match[2]}`);
+
+  const offset = zone?.match(/^([+-])(\d{1,2}):?(\d{2})?$/);
+  if (offset) {
+    const minutes = Number(offset[2]) * 60 + Number(offset[3] ?? 0);
+    reference -= (offset[1] === '+' ? 1 : -1) * minutes * 60 * 1000;
+  }
+
+  return Array.from(values, v => new Date(reference + Math.round(v * unitMs)).toISOString());
+}
+
+/**
+ * Filter out fill values and physically implausible values.
+ * CMEMS datasets use various fill values (9999, -32767, 9.96921e+36, ...)
+ * that survive when a file lacks a _FillValue attribute.
+ */
+export function isPlausibleValue(value: number, variable: string): boolean {
+  if (!Number.isFinite(value)) return false;
+  if (Math.abs(value) > 1000) return false;
+
+  const name = variable.toLowerCase();
+  const within = (min: number, max: number) => value >= min && value <= max;
+
+  if (['temp', 'thetao', 'to', 'sst'].some(s => name.includes(s)) && !within(-5, 50)) return false; // °C
+  if ((name.includes('sal') || name.includes('so')) && !within(0, 50)) return false; // PSU
+  if (name.includes('chl') && !within(0, 100)) return false; // mg/m³
+  if ((name.includes('kd') || name.includes('atten')) && !within(0, 10)) return false; // m⁻¹
+  if ((name.includes('o2') || name.includes('oxygen')) && !within(0, 500)) return false; // mmol/m³
+  if ((name.includes('no3') || name.includes('nitrate')) && !within(0, 100)) return false; // mmol/m³
+  if ((name.includes('po4') || name.includes('phosphate')) && !within(0, 20)) return false; // mmol/m³
+  if (['uo', 'vo', 'velocity', 'current'].some(s => name.includes(s)) && Math.abs(value) > 10) return false; // m/s
+  if ((name.includes('vhm') || (name.includes('wave') && name.includes('height'))) && !within(0, 30)) return false; // m
+  if ((name.includes('vtm') || name.includes('period')) && !within(0, 30)) return false; // s
+
+  return true;
+}
+
+function findVariable(dataset: NetCDFDataset, names: string[]): NetCDFVariable | undefined {
+  return dataset.variables.find(v => names.includes(v.name.toLowerCase()));
+}
+
+/** Indices of the 1-D coordinate within `radius` of `target`, or the nearest one */
+function selectIndices(values: Float64Array, target: number | undefined, radius: number): number[] {
+  const all = Array.from(values.keys());
+  if (target === undefined) return all;
+  const inside = all.filter(i => Math.abs(values[i] - target) <= radius);
+  if (inside.length > 0) return inside;
+  let nearest = 0;
+  for (const i of all) {
+    if (Math.abs(values[i] - target) < Math.abs(values[nearest] - target)) nearest = i;
+  }
+  return values.length > 0 ? [nearest] : [];
+}
+
+export interface CoordinateBounds {
+  latMin: number;
+  latMax: number;
+  lonMin: number;
+  lonMax: number;
+}
+
+/**
+ * Latitude/longitude extent of the grid, or null if the dataset has no
+ * recognisable coordinates
+ */
+export function getCoordinateBounds(dataset: NetCDFDataset): CoordinateBounds | null {
+  const latVar = findVariable(dataset, LAT_NAMES);
+  const lonVar = findVariable(dataset, LON_NAMES);
+  if (!latVar || !lonVar) return null;
+
+  const extent = (values: Float64Array): [number, number] => {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const v of values) {
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+    return [min, max];
+  };
+  const [latMin, latMax] = extent(readVariableValues(dataset, latVar.name));
+  const [lonMin, lonMax] = extent(readVariableValues(dataset, lonVar.name));
+  if (!Number.isFinite(latMin) || !Number.isFinite(lonMin)) return null;
+
+  return { latMin, latMax, lonMin, lonMax };
+}
+
+interface Coordinates {
+  time?: NetCDFVariable;
+  depth?: NetCDFVariable;
+  lat: NetCDFVariable;
+  lon: NetCDFVariable;
+  times: string[];
+  depths: Float64Array;
+  lats: Float64Array;
+  lons: Float64Array;
+  /** Numeric variables along the time axis, excluding coordinates */
+  dataVariables: NetCDFVariable[];
+}
+
+function readCoordinates(dataset: NetCDFDataset): Coordinates {
+  const time = findVariable(dataset, TIME_NAMES);
+  const depth = findVariable(dataset, DEPTH_NAMES);
+  const lat = findVariable(dataset, LAT_NAMES);
+  const lon = findVariable(dataset, LON_NAMES);
+  if (!lat || !lon) throw new NetCDFError('Dataset has no latitude/longitude coordinates');
+
+  const units = time?.attributes.units;
+  const coordinateNames = new Set([time, depth, lat, lon].filter(Boolean).map(v => v!.name));
+
+  return {
+    time,
+    depth,
+    lat,
+    lon,
+    times: time ? decodeTimes(readVariableValues(dataset, time.name), typeof units === 'string' ? units : undefined) : [],
+    depths: depth ? readVariableValues(dataset, depth.name) : new Float64Array([0]),
+    lats: readVariableValues(dataset, lat.name),
+    lons: readVariableValues(dataset, lon.name),
+    dataVariables: dataset.variables.filter(
+      v => !coordinateNames.has(v.name) && !!time && v.dimensions.includes(time.name) && v.type !== 'char' && v.type !== 'string'
+    ),
+  };
+}
+
+/** Map a variable's dimensions onto time/depth/lat/lon and return its strides for each */
+function axisStrides(variable: NetCDFVariable, coordinates: Coordinates): { t: number; d: number; y: number; x: number } {
+  const strides = { t: 0, d: 0, y: 0, x: 0 };
+  variable.dimensions.forEach((dim, axis) => {
+    const stride = variable.shape.slice(axis + 1).reduce((a, b) => a * b, 1);
+    if (dim === coordinates.time?.name) strides.t = stride;
+    else if (dim === coordinates.depth?.name) strides.d = stride;
+    else if (dim === coordinates.lat.name) strides.y = stride;
+    else if (dim === coordinates.lon.name) strides.x = stride;
+  });
+  return strides;
+}
+
+/**
+ * Split a dataset into one regular grid per variable, for interpolation
+ * (see `interpolateCopernicusBundle`). Fill values and implausible values
+ * become NaN, which marks land and missing cells.
+ */
+export function toCopernicusGrids(dataset: NetCDFDataset, options: { datasetId?: string } = {}): CopernicusGrid[] {
+  const coordinates = readCoordinates(dataset);
+  const { times, depths, lats, lons } = coordinates;
+  const id = dataset.attributes.id;
+  const datasetId = options.datasetId ?? (typeof id === 'string' ? id : 'unknown');
+
+  return coordinates.dataVariables.map(variable => {
+    const source = readVariableValues(dataset, variable.name);
+    const strides = axisStrides(variable, coordinates);
+    const values = new Float64Array(times.length * depths.length * lats.length * lons.length);
+
+    let i = 0;
+    for (let t = 0; t < times.length; t++) {
+      for (let d = 0; d < depths.length; d++) {
+        for (let y = 0; y < lats.length; y++) {
+          for (let x = 0; x < lons.length; x++) {
+            const value = source[t * strides.t + d * strides.d + y * strides.y + x * strides.x];
+            values[i++] = isPlausibleValue(value, variable.name) ? value : NaN;
+          }
+        }
+      }
+    }
+
+    return {
+      datasetId,
+      variable: variable.name.toLowerCase(),
+      times,
+      depths: Array.from(depths),
+      lats: Array.from(lats),
+      lons: Array.from(lons),
+      values,
+    };
+  });
+}
+
+/**
+ * Turn a gridded dataset into one record per time step and target depth.
+ * Each value is the mean of the selected grid cells, ignoring NaNs.
+ */
+export function toCopernicusTimeseries(
+  dataset: NetCDFDataset,
+  options: CopernicusTimeseriesOptions = {}
+): CopernicusTimeseries {
+  const coordinates = readCoordinates(dataset);
+  const { times, lats, lons, dataVariables } = coordinates;
+  const depthValues = coordinates.depths;
+
+  // Keep the grid depths closest to 0, 5 and 10 m
+  const depthIndices: number[] = [];
+  for (const target of TARGET_DEPTHS) {
+    let closest = -1;
+    depthValues.forEach((d, i) => {
+      if (closest === -1 || Math.abs(d - target) < Math.abs(depthValues[closest] - target)) closest = i;
+    });
+    if (closest !== -1 && Math.abs(depthValues[closest] - target) <= DEPTH_TOLERANCE && !depthIndices.includes(closest)) {
+      depthIndices.push(closest);
+    }
+  }
+  if (depthIndices.length === 0) depthIndices.push(0);
+
+  const radius = options.radius ?? 0.25;
+  const latIndices = selectIndices(lats, options.point?.lat, radius);
+  const lonIndices = selectIndices(lons, options.point?.lon, radius);
+
+  const values = new Map(dataVariables.map(v => [v.name, readVariableValues(dataset, v.name)]));
+
+  const records: CopernicusTimeseriesRecord[] = [];
+  times.forEach((time, t) => {
+    for (const d of depthIndices) {
+      const variables: CopernicusTimeseriesRecord['variables'] = {};
+
+      for (const variable of dataVariables) {
+        const data = values.get(variable.name)!;
+        const strides = variable.shape.map((_, i) => variable.shape.slice(i + 1).reduce((a, b) => a * b, 1));
+
+        // Build the flat indices of every selected cell
+        let indices = [0];
+        variable.dimensions.forEach((dim, axis) => {
+          let choices: number[];
+          if (dim === coordinates.time!.name) choices = [t];
+          else if (coordinates.depth && dim === coordinates.depth.name) choices = [d];
+          else if (dim === coordinates.lat.name) choices = latIndices;
+          else if (dim === coordinates.lon.name) choices = lonIndices;
+          else choices = [0];
+          indices = indices.flatMap(base => choices.map(c => base + c * strides[axis]));
+        });
+
+        let sum = 0;
+        let count = 0;
+        for (const index of indices) {
+          const value = data[index];
+          if (!Number.isNaN(value)) {
+            sum += value;
+            count++;
+          }
+        }
+        if (count === 0) continue;
+
+        const mean = sum / count;
+        if (isPlausibleValue(mean, variable.name)) {
+          variables[variable.name.toLowerCase()] = mean;
+        }
+      }
+
+      if (Object.keys(variables).length > 0) {
+        records.push({
+          time,
+          depth: depthValues[d],
+          lat: options.point?.lat ?? lats[0],
+          lon: options.point?.lon ?? lons[0],
+          variables,
+        });
+      }
+    }
+  });
+
+  const id = dataset.attributes.id;
+  return {
+    datasetId: options.datasetId ?? (typeof id === 'string' ? id : 'unknown'),
+    variables: dataVariables.map(v => v.name.toLowerCase()),
+    records,
+    source: 'copernicus',
+  };
+}
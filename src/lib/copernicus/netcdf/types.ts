@@ -0,0 +1,53 @@
+export type NetCDFFormat = 'classic' | '64bit-offset' | '64bit-data' | 'netcdf4';
+
+export type NetCDFDataType =
+  | 'byte'
+  | 'char'
+  | 'short'
+  | 'int'
+  | 'float'
+  | 'double'
+  | 'ubyte'
+  | 'ushort'
+  | 'uint'
+  | 'int64'
+  | 'uint64'
+  | 'string';
+
+export type NetCDFAttributeValue = string | number[];
+
+export type NetCDFAttributes = Record<string, NetCDFAttributeValue>;
+
+export interface NetCDFDimension {
+  name: string;
+  size: number;
+  unlimited: boolean;
+}
+
+export interface NetCDFVariable {
+  name: string;
+  type: NetCDFDataType;
+  dimensions: string[];
+  shape: number[];
+  attributes: NetCDFAttributes;
+}
+
+/**
+ * A parsed NetCDF file. Values are returned unpacked as stored (no
+ * scale_factor/add_offset or fill handling); see `readVariableValues`.
+ */
+export interface NetCDFDataset {
+  format: NetCDFFormat;
+  dimensions: NetCDFDimension[];
+  attributes: NetCDFAttributes;
+  variables: NetCDFVariable[];
+  /** Raw values in row-major order */
+  readVariable(name: string): Float64Array;
+}
+
+export class NetCDFError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetCDFError';
+  }
+}
@@ -1,4 +1,4 @@
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs';
 import * as os from 'os';
@@ -9,12 +9,18 @@ import {
   CopernicusMarineBundle,
   CopernicusTimeseries,
 } from './types';
+import { readNetCDF, toCopernicusGrids } from './netcdf';
+import { interpolateCopernicusGrids } from './transformers';
 import { getDatasetForCmemsRegion, getDatasetForRegion, type CopernicusDatasetConfig } from './regionRouter';
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 /**
  * Real Copernicus Marine Service provider using the CLI tool
+ *
+ * The CLI only downloads subsets; files are parsed with the native NetCDF
+ * reader in ./netcdf and interpolated to the requested point, borrowing
+ * from the nearest ocean cell inside the padded box when the point is on land.
  */
 export class RealCopernicusProvider implements CopernicusProvider {
   private cliPath: string;
@@ -103,7 +109,7 @@ export class RealCopernicusProvider implements CopernicusProvider {
               thetaoFile,
               padding
             );
-            temperatureData = await this.parseNetCDF(thetaoFile, 'physics');
+            temperatureData = await this.parseNetCDF(thetaoFile, 'physics', { lat, lon, padding });
             if (temperatureData && this.hasValidData(temperatureData)) {
               daysBack = dayOffset;
               successfulDate = fallbackDateStr;
@@ -140,7 +146,7 @@ export class RealCopernicusProvider implements CopernicusProvider {
             salinityFile,
             successfulPadding
           );
-          salinityData = await this.parseNetCDF(salinityFile, 'physics');
+          salinityData = await this.parseNetCDF(salinityFile, 'physics', { lat, lon, padding: successfulPadding });
           if (salinityData && this.hasValidData(salinityData)) {
             const ageNote = daysBack > 0 ? ` (${daysBack}d old)` : '';
             console.log(`   ✅ Salinity data found with ${successfulPadding}° padding${ageNote}`);
@@ -174,7 +180,7 @@ export class RealCopernicusProvider implements CopernicusProvider {
               currentsFile,
               successfulPadding
             );
-            currentsData = await this.parseNetCDF(currentsFile, 'physics');
+            currentsData = await this.parseNetCDF(currentsFile, 'physics', { lat, lon, padding: successfulPadding });
             if (currentsData && this.hasValidData(currentsData)) {
               const ageNote = dayOffset > 0 ? ` (${dayOffset}d old)` : '';
               console.log(`   ✅ Currents data found with ${successfulPadding}° padding${ageNote}`);
@@ -210,7 +216,7 @@ export class RealCopernicusProvider implements CopernicusProvider {
               transparencyFile,
               successfulPadding
             );
-            transparencyData = await this.parseNetCDF(transparencyFile, 'biogeochemical');
+            transparencyData = await this.parseNetCDF(transparencyFile, 'biogeochemical', { lat, lon, padding: successfulPadding });
             if (transparencyData && this.hasValidData(transparencyData)) {
               const ageNote = dayOffset > 0 ? ` (${dayOffset}d old)` : '';
               console.log(`   ✅ Transparency data (kd490) found with ${successfulPadding}° padding${ageNote}`);
@@ -244,7 +250,7 @@ export class RealCopernicusProvider implements CopernicusProvider {
               bioFile,
               padding
             );
-            bioData = await this.parseNetCDF(bioFile, 'biogeochemical');
+            bioData = await this.parseNetCDF(bioFile, 'biogeochemical', { lat, lon, padding });
             if (bioData && this.hasValidData(bioData)) {
               const ageNote = dayOffset > 0 ? ` (${dayOffset}d old)` : '';
               console.log(`   ✅ BGC data found with ${padding}° padding (~${Math.round(padding * 111)}km)${ageNote}`);
@@ -287,7 +293,7 @@ export class RealCopernicusProvider implements CopernicusProvider {
               waveFile,
               padding
             );
-            waveData = await this.parseNetCDF(waveFile, 'waves');
+            waveData = await this.parseNetCDF(waveFile, 'waves', { lat, lon, padding });
             if (waveData && this.hasValidData(waveData)) {
               const ageNote = dayOffset > 0 ? ` (${dayOffset}d old)` : '';
               console.log(`   ✅ Wave data found with ${padding}° padding${ageNote}`);
@@ -389,8 +395,6 @@ export class RealCopernicusProvider implements CopernicusProvider {
     const startDate = start.split('T')[0];
     const endDate = end.split('T')[0];
 
-    // Build the CLI command with proper quoting
-    // Each argument must be a separate element for proper shell escaping
     const cmdArgs = [
       'subset',
       '--dataset-id', datasetId,
@@ -414,17 +418,12 @@ export class RealCopernicusProvider implements CopernicusProvider {
       '--overwrite'
     );
 
-    // Build command string with proper quoting for shell
-    const cmd = `${this.cliPath} ${cmdArgs.map(arg =>
-      arg.toString().includes(' ') ? `"${arg}"` : arg
-    ).join(' ')}`;
-
     // Use shorter timeout for probes (15s) to fail fast and try global fallback
     // Only use longer timeout if we know data exists
     const isProbe = padding <= 0.25;
     const timeoutMs = isProbe ? 15000 : 45000; // 15s for probe, 45s for confirmed downloads
 
-    const { stdout, stderr } = await execAsync(cmd, {
+    const { stdout, stderr } = await execFileAsync(this.cliPath, cmdArgs, {
       timeout: timeoutMs,
       killSignal: 'SIGTERM', // Graceful termination
       env: {
@@ -448,210 +447,16 @@ export class RealCopernicusProvider implements CopernicusProvider {
 
   private async parseNetCDF(
     filePath: string,
-    _dataType: 'physics' | 'biogeochemical' | 'waves'
+    _dataType: 'physics' | 'biogeochemical' | 'waves',
+    point: { lat: number; lon: number; padding: number }
   ): Promise<CopernicusTimeseries> {
-    // Use Python with xarray to parse NetCDF
-    const pythonScript = `
-import xarray as xr
-import json
-import sys
-
-def is_valid_value(val, var_name):
-    """
-    Filter out fill values and physically impossible values.
-    CMEMS datasets use various fill values: 9999, 9.96921e+36, -32767, etc.
-    """
-    if val is None:
-        return False
-
-    import numpy as np
-
-    # Check for NaN and infinite values
-    if np.isnan(val) or np.isinf(val):
-        return False
-
-    # Common fill value patterns
-    abs_val = abs(val)
-    if abs_val > 9000:  # e.g., 9999, 9345, 15442, 9.96921e+36
-        return False
-    if abs_val > 1000 and abs_val < 10000:  # e.g., 9999, -32767
-        return False
-
-    # Variable-specific validation (physically plausible ranges)
-    var_lower = var_name.lower()
-
-    # Temperature variables (thetao, to, sst, etc.)
-    if 'temp' in var_lower or 'thetao' in var_lower or 'to' in var_lower or 'sst' in var_lower:
-        if val < -5 or val > 50:  # °C
-            return False
-
-    # Salinity variables (so, sal, salinity, etc.)
-    if 'sal' in var_lower or 'so' in var_lower:
-        if val < 0 or val > 50:  # PSU
-            return False
-
-    # Chlorophyll (chl, chlorophyll, chla)
-    if 'chl' in var_lower:
-        if val < 0 or val > 100:  # mg/m³
-            return False
-
-    # Light attenuation coefficient (kd490, kd, attenuation)
-    if 'kd' in var_lower or 'atten' in var_lower:
-        if val < 0 or val > 10:  # m⁻¹
-            return False
-
-    # Oxygen (o2, oxygen, dissolved_oxygen)
-    if 'o2' in var_lower or 'oxygen' in var_lower:
-        if val < 0 or val > 500:  # mmol/m³
-            return False
-
-    # Nitrate (no3, nitrate)
-    if 'no3' in var_lower or 'nitrate' in var_lower:
-        if val < 0 or val > 100:  # mmol/m³
-            return False
-
-    # Phosphate (po4, phosphate)
-    if 'po4' in var_lower or 'phosphate' in var_lower:
-        if val < 0 or val > 20:  # mmol/m³
-            return False
-
-    # Currents (uo, vo, velocity)
-    if any(x in var_lower for x in ['uo', 'vo', 'velocity', 'current']):
-        if abs_val > 10:  # m/s (10 m/s = 20 knots, extreme)
-            return False
-
-    # Wave height (VHM0, wave_height)
-    if 'vhm' in var_lower or 'wave' in var_lower and 'height' in var_lower:
-        if val < 0 or val > 30:  # meters
-            return False
-
-    # Wave period (VTM, period)
-    if 'vtm' in var_lower or 'period' in var_lower:
-        if val < 0 or val > 30:  # seconds
-            return False
-
-    return True
-
-try:
-    ds = xr.open_dataset('${filePath}')
-
-    # Extract all variables
-    records = []
-
-    # Get dimensions
-    times = ds.time.values if 'time' in ds.dims else []
-    depths = ds.depth.values if 'depth' in ds.dims else [0]
-    lats = ds.latitude.values if 'latitude' in ds.dims else ds.lat.values
-    lons = ds.longitude.values if 'longitude' in ds.dims else ds.lon.values
-
-    # Convert to Python lists
-    import numpy as np
-    times = [str(t) for t in times]
-    depths = [float(d) for d in depths]
-
-    # Filter depths to only keep 0m, 5m, and 10m (within 1m tolerance)
-    target_depths = [0, 5, 10]
-    filtered_depths = []
-    for target in target_depths:
-        # Find closest depth to target
-        closest = min(depths, key=lambda d: abs(d - target)) if depths else None
-        if closest is not None and abs(closest - target) <= 1.5:  # Within 1.5m tolerance
-            if closest not in filtered_depths:  # Avoid duplicates
-                filtered_depths.append(closest)
-    depths = filtered_depths if filtered_depths else [0]  # Fallback to surface if no matches
-
-    lat = float(lats[0] if len(lats.shape) == 1 else lats[0, 0])
-    lon = float(lons[0] if len(lons.shape) == 1 else lons[0, 0])
-
-    # Get variable names (exclude coordinates)
-    var_names = [v for v in ds.data_vars if v not in ['latitude', 'longitude', 'lat', 'lon', 'time', 'depth']]
-
-    # Extract data for each time/depth combination
-    for time_idx, time in enumerate(times):
-        for depth_idx, depth in enumerate(depths):
-            variables = {}
-            for var in var_names:
-                try:
-                    if 'depth' in ds[var].dims:
-                        val = ds[var].isel(time=time_idx, depth=depth_idx).values
-                    else:
-                        val = ds[var].isel(time=time_idx).values
-
-                    # Handle various array shapes - spatial grids need aggregation
-                    if hasattr(val, 'shape') and len(val.shape) >= 2:
-                        # Spatial grid (lat x lon) - take mean of non-NaN values
-                        val = np.nanmean(val)
-                    elif hasattr(val, 'item'):
-                        val = val.item()
-                    elif hasattr(val, '__len__') and len(val) > 0:
-                        val = float(val[0])
-
-                    # Validate value (filter fill values and implausible data)
-                    if is_valid_value(val, var):
-                        # Normalize variable name to lowercase for consistent transformer mapping
-                        variables[var.lower()] = float(val)
-                except Exception as e:
-                    pass
-
-            if variables:  # Only add if we have data
-                records.append({
-                    'time': time,
-                    'depth': depth,
-                    'lat': lat,
-                    'lon': lon,
-                    'variables': variables
-                })
-
-    result = {
-        'datasetId': ds.attrs.get('id', 'unknown'),
-        'variables': var_names,
-        'records': records,
-        'source': 'copernicus'
-    }
-
-    print(json.dumps(result))
-
-except Exception as e:
-    print(json.dumps({'error': str(e)}), file=sys.stderr)
-    sys.exit(1)
-`;
-
-    const pythonFile = path.join(path.dirname(filePath), 'parse.py');
-    fs.writeFileSync(pythonFile, pythonScript);
-
-    try {
-      const { stdout, stderr } = await execAsync(`python3 ${pythonFile}`, {
-        env: {
-          ...process.env,
-          PATH: `${process.env.HOME}/.local/bin:${process.env.PATH}`,
-          // Pass Copernicus credentials to CLI (using new naming convention)
-          COPERNICUSMARINE_SERVICE_USERNAME: process.env.COPERNICUS_USERNAME,
-          COPERNICUSMARINE_SERVICE_PASSWORD: process.env.COPERNICUS_PASSWORD,
-        },
-      });
-
-      // Only treat stderr as error if it contains actual error JSON
-      // RuntimeWarnings from numpy (e.g., "Mean of empty slice") are normal and should be ignored
-      if (stderr && stderr.includes('"error"')) {
-        try {
-          const errorData = JSON.parse(stderr);
-          if (errorData.error) {
-            throw new Error(`Failed to parse NetCDF: ${errorData.error}`);
-          }
-        } catch (_parseErr) {
-          // If we can't parse as JSON, it's probably just warnings - ignore
-        }
-      }
-
-      if (!stdout || stdout.trim() === '') {
-        throw new Error('Parser returned no output');
-      }
-
-      const result = JSON.parse(stdout);
-      console.log(`   ℹ️  Parsed ${result.records?.length || 0} records with ${result.variables?.length || 0} variables`);
-      return result as CopernicusTimeseries;
-    } finally {
-      fs.unlinkSync(pythonFile);
+    const dataset = readNetCDF(await fs.promises.readFile(filePath));
+    const grids = toCopernicusGrids(dataset);
+    const result = interpolateCopernicusGrids(grids, { lat: point.lat, lon: point.lon, maxDistanceKm: point.padding * 111 });
+    if (!result) {
+      throw new Error(`No data variables in ${path.basename(filePath)}`);
     }
+    console.log(`   ℹ️  Parsed ${result.records.length} records with ${result.variables.length} variables`);
+    return result;
   }
 }
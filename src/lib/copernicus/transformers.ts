@@ -1,10 +1,278 @@
 import {
+  CopernicusGrid,
+  CopernicusGridBundle,
   CopernicusMarineBundle,
   CopernicusMarineData,
   CopernicusMarineSnapshot,
+  CopernicusSampling,
+  CopernicusSnapshotSampling,
+  CopernicusTimeseries,
   CopernicusTimeseriesRecord,
 } from './types';
 
+const EARTH_RADIUS_KM = 6371;
+const HOUR_MS = 60 * 60 * 1000;
+const COORDINATE_TOLERANCE = 1e-5; // degrees
+
+/** Directions (degrees) are interpolated on the unit circle */
+const CIRCULAR_VARIABLES = new Set(['vmdr', 'vmdr_ww', 'vmdr_sw1', 'vmdr_sw2', 'vped']);
+
+export interface CopernicusInterpolationOptions {
+  lat: number;
+  lon: number;
+  /** Snapshot times; defaults to every time step found in the grids */
+  times?: string[];
+  /** Depths to report, each matched to the nearest grid level (default 0, 5 and 10 m) */
+  depths?: number[];
+  depthTolerance?: number;
+  /** Furthest ocean cell to borrow from when the point is on land (default 30 km) */
+  maxDistanceKm?: number;
+  /** Furthest model time step to borrow from outside the grid's time range (default 24 h) */
+  maxTimeGapHours?: number;
+}
+
+interface Sample {
+  value: number;
+  sampling: CopernicusSampling;
+}
+
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+function weightedMean(values: number[], weights: number[], circular: boolean): number {
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (!circular) {
+    return values.reduce((sum, v, i) => sum + v * weights[i], 0) / total;
+  }
+  let x = 0;
+  let y = 0;
+  values.forEach((v, i) => {
+    x += Math.cos((v * Math.PI) / 180) * weights[i];
+    y += Math.sin((v * Math.PI) / 180) * weights[i];
+  });
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/** Indices either side of `x` on a monotonic axis and the fraction between them */
+function bracket(axis: number[], x: number, tolerance = 0): [number, number, number] | null {
+  if (axis.length === 0) return null;
+  // Snap onto the axis ends, so float32 coordinates still match exact grid points
+  const first = axis[0];
+  const last = axis[axis.length - 1];
+  if (Math.abs(x - first) <= tolerance) x = first;
+  else if (Math.abs(x - last) <= tolerance) x = last;
+
+  if (axis.length === 1) return axis[0] === x ? [0, 0, 0] : null;
+  for (let i = 0; i < axis.length - 1; i++) {
+    const a = axis[i];
+    const b = axis[i + 1];
+    if ((x >= a && x <= b) || (x <= a && x >= b)) {
+      return [i, i + 1, a === b ? 0 : (x - a) / (b - a)];
+    }
+  }
+  return null;
+}
+
+/**
+ * Sample one time/depth slice at the point: bilinear over whichever of the
+ * four surrounding cells hold ocean values, else the nearest valid cell.
+ */
+function sampleSlice(grid: CopernicusGrid, t: number, d: number, options: CopernicusInterpolationOptions): Sample | undefined {
+  const { lat, lon } = options;
+  const maxDistanceKm = options.maxDistanceKm ?? 30;
+  const rows = grid.lats.length;
+  const cols = grid.lons.length;
+  const offset = (t * grid.depths.length + d) * rows * cols;
+  const valueAt = (y: number, x: number) => grid.values[offset + y * cols + x];
+  const circular = CIRCULAR_VARIABLES.has(grid.variable);
+
+  const yBracket = bracket(grid.lats, lat, COORDINATE_TOLERANCE);
+  const xBracket = bracket(grid.lons, lon, COORDINATE_TOLERANCE);
+  if (yBracket && xBracket) {
+    const [y0, y1, fy] = yBracket;
+    const [x0, x1, fx] = xBracket;
+    const corners: Array<[number, number, number]> = [
+      [y0, x0, (1 - fy) * (1 - fx)],
+      [y0, x1, (1 - fy) * fx],
+      [y1, x0, fy * (1 - fx)],
+      [y1, x1, fy * fx],
+    ];
+    const used = corners.filter(([y, x, w]) => w > 0 && !Number.isNaN(valueAt(y, x)));
+    const needed = corners.filter(([, , w]) => w > 0);
+
+    if (used.length > 0) {
+      const masked = used.length < needed.length;
+      return {
+        value: weightedMean(used.map(([y, x]) => valueAt(y, x)), used.map(([, , w]) => w), circular),
+        sampling: {
+          method: 'bilinear',
+          distanceKm: masked ? Math.min(...used.map(([y, x]) => distanceKm(lat, lon, grid.lats[y], grid.lons[x]))) : 0,
+          timeOffsetHours: 0,
+        },
+      };
+    }
+  }
+
+  // Point is on land or outside the grid: search for the nearest ocean cell
+  let best: { y: number; x: number; distance: number } | undefined;
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      if (Number.isNaN(valueAt(y, x))) continue;
+      const distance = distanceKm(lat, lon, grid.lats[y], grid.lons[x]);
+      if (!best || distance < best.distance) best = { y, x, distance };
+    }
+  }
+  if (!best || best.distance > maxDistanceKm) return undefined;
+  return {
+    value: valueAt(best.y, best.x),
+    sampling: { method: 'nearest', distanceKm: best.distance, timeOffsetHours: 0 },
+  };
+}
+
+/**
+ * Sample a grid at the point and time, interpolating linearly between the
+ * model time steps either side
+ */
+function sampleGrid(grid: CopernicusGrid, d: number, time: number, options: CopernicusInterpolationOptions): Sample | undefined {
+  const maxGapMs = (options.maxTimeGapHours ?? 24) * HOUR_MS;
+  const stepTimes = grid.times.map(t => Date.parse(t));
+  const circular = CIRCULAR_VARIABLES.has(grid.variable);
+
+  const at = (t: number): Sample | undefined => {
+    const sample = sampleSlice(grid, t, d, options);
+    if (!sample) return undefined;
+    return { ...sample, sampling: { ...sample.sampling, timeOffsetHours: Math.abs(time - stepTimes[t]) / HOUR_MS } };
+  };
+
+  const span = bracket(stepTimes, time);
+  if (span) {
+    const [t0, t1, fraction] = span;
+    const before = at(t0);
+    const after = t1 === t0 ? before : at(t1);
+    if (before && after) {
+      return {
+        value: weightedMean([before.value, after.value], [1 - fraction, fraction], circular),
+        sampling: {
+          method: before.sampling.method === 'nearest' || after.sampling.method === 'nearest' ? 'nearest' : 'bilinear',
+          distanceKm: Math.max(before.sampling.distanceKm, after.sampling.distanceKm),
+          timeOffsetHours: Math.min(before.sampling.timeOffsetHours, after.sampling.timeOffsetHours),
+        },
+      };
+    }
+    const single = before ?? after;
+    if (single && single.sampling.timeOffsetHours * HOUR_MS <= maxGapMs) return single;
+    return undefined;
+  }
+
+  // Outside the grid's time range: borrow the closest step within the gap limit
+  let closest = -1;
+  stepTimes.forEach((t, i) => {
+    if (closest === -1 || Math.abs(t - time) < Math.abs(stepTimes[closest] - time)) closest = i;
+  });
+  if (closest === -1 || Math.abs(stepTimes[closest] - time) > maxGapMs) return undefined;
+  return at(closest);
+}
+
+function worstSampling(samples: CopernicusSampling[]): CopernicusSampling | undefined {
+  if (samples.length === 0) return undefined;
+  return {
+    method: samples.some(s => s.method === 'nearest') ? 'nearest' : 'bilinear',
+    distanceKm: Math.max(...samples.map(s => s.distanceKm)),
+    timeOffsetHours: Math.max(...samples.map(s => s.timeOffsetHours)),
+  };
+}
+
+/**
+ * Interpolate a set of grids (one product, e.g. physics) to the point,
+ * producing one record per time and target depth
+ */
+export function interpolateCopernicusGrids(
+  grids: CopernicusGrid[],
+  options: CopernicusInterpolationOptions
+): CopernicusTimeseries | undefined {
+  if (grids.length === 0) return undefined;
+
+  const targetDepths = options.depths ?? [0, 5, 10];
+  const tolerance = options.depthTolerance ?? 1.5;
+  const times = options.times ?? Array.from(new Set(grids.flatMap(g => g.times))).sort();
+
+  const records: CopernicusTimeseriesRecord[] = [];
+  for (const time of times) {
+    const timeMs = Date.parse(time);
+
+    for (const target of targetDepths) {
+      const variables: CopernicusTimeseriesRecord['variables'] = {};
+      const samplings: CopernicusSampling[] = [];
+      let depth: number | undefined;
+
+      for (const grid of grids) {
+        let d = 0;
+        grid.depths.forEach((value, i) => {
+          if (Math.abs(value - target) < Math.abs(grid.depths[d] - target)) d = i;
+        });
+        // Surface-only products (no depth axis) only feed the shallowest record
+        const isSurfaceOnly = grid.depths.length === 1 && grid.depths[0] === 0;
+        if (isSurfaceOnly ? target !== targetDepths[0] : Math.abs(grid.depths[d] - target) > tolerance) continue;
+
+        const sample = sampleGrid(grid, d, timeMs, options);
+        if (!sample) continue;
+        variables[grid.variable] = sample.value;
+        samplings.push(sample.sampling);
+        if (!isSurfaceOnly) depth ??= grid.depths[d];
+      }
+
+      if (samplings.length > 0) {
+        records.push({
+          time: new Date(timeMs).toISOString(),
+          depth: depth ?? 0,
+          lat: options.lat,
+          lon: options.lon,
+          variables,
+          sampling: worstSampling(samplings),
+        });
+      }
+    }
+  }
+
+  return {
+    datasetId: grids[0].datasetId,
+    variables: Array.from(new Set(grids.map(g => g.variable))),
+    records,
+    source: 'copernicus',
+  };
+}
+
+/**
+ * Interpolate gridded products to a point: bilinear over valid ocean cells,
+ * nearest ocean cell when the point sits on the land mask, and linear in
+ * time between daily / 3-hourly steps. Records carry `sampling` so snapshots
+ * can report how far away their data came from.
+ */
+export function interpolateCopernicusBundle(
+  bundle: CopernicusGridBundle,
+  options: CopernicusInterpolationOptions
+): CopernicusMarineBundle {
+  const times = options.times ?? Array.from(
+    new Set([...bundle.physics, ...(bundle.biogeochemical ?? []), ...(bundle.waves ?? [])].flatMap(g => g.times))
+  ).sort();
+  const physics = interpolateCopernicusGrids(bundle.physics, { ...options, times });
+  if (!physics) {
+    throw new Error('No physics grids to interpolate');
+  }
+
+  return {
+    physics,
+    biogeochemical: bundle.biogeochemical ? interpolateCopernicusGrids(bundle.biogeochemical, { ...options, times }) : undefined,
+    waves: bundle.waves ? interpolateCopernicusGrids(bundle.waves, { ...options, times }) : undefined,
+    generatedAt: bundle.generatedAt,
+  };
+}
+
 function groupByTime(records: CopernicusTimeseriesRecord[]): Map<string, CopernicusTimeseriesRecord[]> {
   const map = new Map<string, CopernicusTimeseriesRecord[]>();
   for (const record of records) {
@@ -81,6 +349,30 @@ function coalesceDepthProfile(
     .sort((a, b) => a.depth - b.depth);
 }
 
+function selectSurfaceSampling(records: CopernicusTimeseriesRecord[]): CopernicusSampling | undefined {
+  return (records.find((record) => record.depth <= 1) ?? records[0])?.sampling;
+}
+
+function snapshotSampling(
+  physics: CopernicusTimeseriesRecord[],
+  bio: CopernicusTimeseriesRecord[],
+  waves: CopernicusTimeseriesRecord[]
+): CopernicusSnapshotSampling | undefined {
+  const sources = {
+    physics: selectSurfaceSampling(physics),
+    biogeochemical: selectSurfaceSampling(bio),
+    waves: selectSurfaceSampling(waves),
+  };
+  const present = Object.values(sources).filter((s): s is CopernicusSampling => s !== undefined);
+  if (present.length === 0) return undefined;
+
+  return {
+    distanceKm: Math.max(...present.map(s => s.distanceKm)),
+    timeOffsetHours: Math.max(...present.map(s => s.timeOffsetHours)),
+    ...sources,
+  };
+}
+
 function selectSurfaceValue(records: CopernicusTimeseriesRecord[] | undefined, key: keyof CopernicusTimeseriesRecord['variables']) {
   if (!records?.length) return undefined;
   const surfaceCandidate = records.find((record) => record.depth <= 1);
@@ -152,6 +444,11 @@ export function toCopernicusMarineSnapshots(bundle: CopernicusMarineBundle): Cop
         depthProfile: coalesceDepthProfile(physics, bio),
       };
 
+      const sampling = snapshotSampling(physics, bio, waves);
+      if (sampling) {
+        snapshot.sampling = sampling;
+      }
+
       return snapshot;
     });
 }
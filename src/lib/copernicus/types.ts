@@ -34,12 +34,26 @@ export interface CopernicusRecordVariables {
   [variable: string]: number | undefined;
 }
 
+export type CopernicusSamplingMethod = 'bilinear' | 'nearest';
+
+/**
+ * Where a value really came from. Coastal points often sit on masked land
+ * cells, so data may be borrowed from the nearest ocean cell or from a
+ * neighbouring model time step.
+ */
+export interface CopernicusSampling {
+  method: CopernicusSamplingMethod;
+  distanceKm: number; // 0 when the point is surrounded by valid ocean cells
+  timeOffsetHours: number; // distance to the closest model time step used
+}
+
 export interface CopernicusTimeseriesRecord {
   time: string; // ISO8601
   depth: number; // metres, positive downward
   lat: number;
   lon: number;
   variables: CopernicusRecordVariables;
+  sampling?: CopernicusSampling; // worst case across the record's variables
 }
 
 export interface CopernicusTimeseries {
@@ -49,6 +63,26 @@ export interface CopernicusTimeseries {
   source: CopernicusDataSource;
 }
 
+/**
+ * One variable on a regular lat/lon grid
+ */
+export interface CopernicusGrid {
+  datasetId: string;
+  variable: string; // lower-cased
+  times: string[]; // ISO8601
+  depths: number[]; // [0] for products without a depth axis
+  lats: number[];
+  lons: number[];
+  values: Float64Array; // row-major [time][depth][lat][lon], NaN on land / missing cells
+}
+
+export interface CopernicusGridBundle {
+  physics: CopernicusGrid[];
+  biogeochemical?: CopernicusGrid[];
+  waves?: CopernicusGrid[];
+  generatedAt: string;
+}
+
 export interface CopernicusMarineBundle {
   physics: CopernicusTimeseries;
   biogeochemical?: CopernicusTimeseries;
@@ -104,6 +138,17 @@ export interface CopernicusMarineSnapshot {
   swellHeight?: number; // ocean swell
   
   depthProfile: CopernicusDepthProfilePoint[];
+
+  // Provenance when the bundle was interpolated from grids
+  sampling?: CopernicusSnapshotSampling;
+}
+
+export interface CopernicusSnapshotSampling {
+  distanceKm: number; // furthest source cell across products
+  timeOffsetHours: number;
+  physics?: CopernicusSampling;
+  biogeochemical?: CopernicusSampling;
+  waves?: CopernicusSampling;
 }
 
 export interface CopernicusMarineData {
@@ -0,0 +1,96 @@
+/**
+ * Tests for offline timezone lookup
+ */
+
+import {
+  TimezoneBoundaryError,
+  getTimezoneForCoordinates,
+  lookupTimezone,
+  parseTimezoneBoundaries,
+  setTimezoneBoundaries,
+  startOfDayInTimezone,
+  startOfLocalDate,
+} from '../timezone';
+import { calculateOptimalWindow, getTimezoneFromCoordinates } from '../../findr/conditionHelpers';
+
+describe('lib/date/timezone', () => {
+  afterEach(() => setTimezoneBoundaries(null));
+
+  it('resolves zones that a longitude band would get wrong', () => {
+    expect(getTimezoneForCoordinates(38.72, -9.14)).toBe('Europe/Lisbon');
+    expect(getTimezoneForCoordinates(51.51, -0.13)).toBe('Europe/London');
+    expect(getTimezoneForCoordinates(40.42, -3.7)).toBe('Europe/Madrid');
+    expect(getTimezoneForCoordinates(37.74, -25.67)).toBe('Atlantic/Azores');
+    expect(getTimezoneForCoordinates(36.14, -5.35)).toBe('Europe/Gibraltar');
+    expect(getTimezoneFromCoordinates(38.7, -9.1)).toBe('Europe/Lisbon');
+  });
+
+  it('resolves land outside the bundled outlines from the worldwide grid', () => {
+    expect(lookupTimezone(40.7, -74)).toEqual({ timezone: 'America/New_York', source: 'grid' });
+    expect(getTimezoneForCoordinates(-33.87, 151.2)).toBe('Australia/Sydney');
+  });
+
+  it('lets the grid decide near land borders the outlines get wrong', () => {
+    expect(getTimezoneForCoordinates(67.85, 20.22)).toBe('Europe/Stockholm'); // Kiruna
+    expect(getTimezoneForCoordinates(69.65, 18.96)).toBe('Europe/Oslo'); // Tromsø
+    expect(getTimezoneForCoordinates(30.13, 9.5)).toBe('Africa/Tripoli'); // Ghadames
+    expect(getTimezoneForCoordinates(26.74, -11.67)).toBe('Africa/El_Aaiun'); // Smara
+    expect(getTimezoneForCoordinates(34.68, -1.91)).toBe('Africa/Casablanca'); // Oujda
+    expect(getTimezoneForCoordinates(34.73, 36.71)).toBe('Asia/Damascus'); // Homs
+    expect(getTimezoneForCoordinates(49.99, 36.23)).toBe('Europe/Kyiv'); // Kharkiv
+    expect(getTimezoneForCoordinates(38.88, -6.97)).toBe('Europe/Madrid'); // Badajoz
+    expect(getTimezoneForCoordinates(38.88, -7.16)).toBe('Europe/Lisbon'); // Elvas
+  });
+
+  it('gives offshore marks the nearest coast, then a nautical zone', () => {
+    expect(lookupTimezone(50.0, -5.9)).toEqual({ timezone: 'Europe/London', source: 'grid' });
+
+    // Open water as far as the grid is concerned, but within reach of an outline
+    setTimezoneBoundaries([['Atlantic/Bermuda', [-45.1, 34.9, -44.9, 34.9, -44.9, 35.1, -45.1, 35.1]]]);
+    expect(lookupTimezone(35, -45.3)).toMatchObject({ timezone: 'Atlantic/Bermuda', source: 'coastal' });
+    setTimezoneBoundaries(null);
+
+    expect(lookupTimezone(35, -45)).toEqual({ timezone: 'Etc/GMT+3', source: 'nautical' });
+    expect(lookupTimezone(0, 0).timezone).toBe('Etc/GMT');
+  });
+
+  it('loads outlines from GeoJSON', () => {
+    setTimezoneBoundaries(parseTimezoneBoundaries({
+      type: 'FeatureCollection',
+      features: [{
+        type: 'Feature',
+        properties: { tzid: 'America/New_York' },
+        geometry: { type: 'Polygon', coordinates: [[[-80, 38], [-70, 38], [-70, 45], [-80, 45], [-80, 38]]] },
+      }],
+    }));
+
+    expect(getTimezoneForCoordinates(40.71, -74.0)).toBe('America/New_York');
+    // Replacing the outlines drops the bundled ones, leaving the grid
+    expect(lookupTimezone(38.72, -9.14)).toEqual({ timezone: 'Europe/Lisbon', source: 'grid' });
+    expect(() => parseTimezoneBoundaries({ type: 'Feature' })).toThrow(TimezoneBoundaryError);
+  });
+
+  it('finds local midnight across DST changes', () => {
+    const midday = Date.UTC(2025, 2, 30, 12);
+    expect(new Date(startOfDayInTimezone(midday, 'Europe/London')).toISOString()).toBe('2025-03-30T00:00:00.000Z');
+    expect(new Date(startOfDayInTimezone(midday, 'Europe/Madrid')).toISOString()).toBe('2025-03-29T23:00:00.000Z');
+  });
+
+  it('finds the start of a local date in zones past UTC+12', () => {
+    const start = (date: string, zone: string) => new Date(startOfLocalDate(date, zone)).toISOString();
+
+    expect(start('2025-01-15', 'Pacific/Auckland')).toBe('2025-01-14T11:00:00.000Z'); // NZDT, UTC+13
+    expect(start('2025-01-15', 'Pacific/Kiritimati')).toBe('2025-01-14T10:00:00.000Z'); // UTC+14
+    expect(start('2025-01-15', 'Pacific/Pago_Pago')).toBe('2025-01-15T11:00:00.000Z'); // UTC-11
+    expect(start('2025-03-30', 'Europe/London')).toBe('2025-03-30T00:00:00.000Z');
+  });
+
+  it('formats optimal windows in the spot timezone', () => {
+    const result = calculateOptimalWindow({
+      date: '2025-06-10T12:00:00Z',
+      timezone: 'Europe/London',
+      windowHours: 2,
+    });
+    expect(result.start).toBe('6:00 AM');
+  });
+});
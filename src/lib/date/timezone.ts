@@ -0,0 +1,343 @@
+/**
+ * Offline timezone lookup
+ *
+ * Resolves coordinates to an IANA zone without a network call. Land and
+ * territorial waters come from a worldwide quantised zone grid
+ * (@photostructure/tz-lookup, borders good to a few kilometres). Cells the
+ * grid leaves to Etc/ (open water, no data) fall back to simplified zone
+ * outlines (see ./timezoneBoundaries for what is bundled): a point inside an
+ * outline gets that zone, a point within `coastalKm` of one gets the nearest,
+ * and anything further out gets the nautical zone for its longitude
+ * (Etc/GMT±N, 15° wide, no DST). Outlines loaded with `setTimezoneBoundaries`
+ * are taken to be more detailed than the grid and are checked before it.
+ */
+
+import tzLookup from '@photostructure/tz-lookup';
+import { BUNDLED_TIMEZONE_BOUNDARIES, type TimezoneBoundaryRecord } from './timezoneBoundaries';
+
+export type { TimezoneBoundaryRecord } from './timezoneBoundaries';
+
+export type TimezoneSource = 'boundary' | 'coastal' | 'grid' | 'nautical';
+
+export interface TimezoneLookup {
+  timezone: string;
+  source: TimezoneSource;
+  /** Distance to the matched outline, for coastal matches */
+  distanceKm?: number;
+}
+
+export interface TimezoneLookupOptions {
+  /** Sea points this close to an outline take its zone (default 30 km) */
+  coastalKm?: number;
+}
+
+export class TimezoneBoundaryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimezoneBoundaryError';
+  }
+}
+
+interface ZonePolygon {
+  zone: string;
+  /** Flattened [lon, lat] pairs */
+  ring: number[];
+  /** [minLon, minLat, maxLon, maxLat] */
+  bbox: [number, number, number, number];
+  area: number;
+}
+
+const KM_PER_DEG = 111.32;
+const DEFAULT_COASTAL_KM = 30;
+
+let records: TimezoneBoundaryRecord[] = BUNDLED_TIMEZONE_BOUNDARIES;
+let polygons: ZonePolygon[] | null = null;
+
+function buildPolygons(source: TimezoneBoundaryRecord[]): ZonePolygon[] {
+  const built: ZonePolygon[] = [];
+  for (const [zone, ...rings] of source) {
+    for (const ring of rings) {
+      if (ring.length < 6) continue;
+      const bbox: ZonePolygon['bbox'] = [Infinity, Infinity, -Infinity, -Infinity];
+      let area = 0;
+      for (let i = 0; i < ring.length; i += 2) {
+        const j = (i + 2) % ring.length;
+        bbox[0] = Math.min(bbox[0], ring[i]);
+        bbox[1] = Math.min(bbox[1], ring[i + 1]);
+        bbox[2] = Math.max(bbox[2], ring[i]);
+        bbox[3] = Math.max(bbox[3], ring[i + 1]);
+        area += ring[i] * ring[j + 1] - ring[j] * ring[i + 1];
+      }
+      built.push({ zone, ring, bbox, area: Math.abs(area) / 2 });
+    }
+  }
+  // Smallest first, so enclaves (Gibraltar, Monaco, Andorra) beat the zone around them
+  return built.sort((a, b) => a.area - b.area);
+}
+
+function getPolygons(): ZonePolygon[] {
+  if (!polygons) polygons = buildPolygons(records);
+  return polygons;
+}
+
+/**
+ * Replace the zone outlines (e.g. with `parseTimezoneBoundaries` output for
+ * worldwide coverage); null restores the bundled set
+ */
+export function setTimezoneBoundaries(next: TimezoneBoundaryRecord[] | null): void {
+  records = next ?? BUNDLED_TIMEZONE_BOUNDARIES;
+  polygons = null;
+}
+
+/** Douglas-Peucker simplification of an open [lon, lat] polyline */
+function simplify(points: Array<[number, number]>, tolerance: number): Array<[number, number]> {
+  if (points.length <= 2 || tolerance <= 0) return points;
+  const [ax, ay] = points[0];
+  const [bx, by] = points[points.length - 1];
+  const length = Math.hypot(bx - ax, by - ay);
+  let maxDistance = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const [px, py] = points[i];
+    const distance = length === 0
+      ? Math.hypot(px - ax, py - ay)
+      : Math.abs((bx - ax) * (ay - py) - (ax - px) * (by - ay)) / length;
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      index = i;
+    }
+  }
+  if (maxDistance <= tolerance) return [points[0], points[points.length - 1]];
+  return [...simplify(points.slice(0, index + 1), tolerance).slice(0, -1), ...simplify(points.slice(index), tolerance)];
+}
+
+/**
+ * Zone outlines from GeoJSON, e.g. a timezone-boundary-builder release
+ *
+ * Features need a `tzid` (or `zone`) property and Polygon or MultiPolygon
+ * geometry. Only outer rings are kept (enclaves are features of their own)
+ * and each is simplified to `toleranceDeg` (default 0.01°, about 1 km).
+ */
+export function parseTimezoneBoundaries(input: unknown, options: { toleranceDeg?: number } = {}): TimezoneBoundaryRecord[] {
+  const collection = input as { type?: unknown; features?: unknown } | null;
+  if (!collection || collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new TimezoneBoundaryError('Timezone boundaries must be a GeoJSON FeatureCollection');
+  }
+  const tolerance = options.toleranceDeg ?? 0.01;
+
+  return collection.features.map((feature: { properties?: Record<string, unknown>; geometry?: { type?: unknown; coordinates?: unknown } }) => {
+    const zone = feature.properties?.tzid ?? feature.properties?.zone;
+    if (typeof zone !== 'string' || !zone) throw new TimezoneBoundaryError('Feature has no tzid property');
+
+    const geometry = feature.geometry;
+    const polygonsOf = geometry?.type === 'Polygon'
+      ? [geometry.coordinates]
+      : geometry?.type === 'MultiPolygon' ? geometry.coordinates : null;
+    if (!Array.isArray(polygonsOf)) throw new TimezoneBoundaryError(`Unsupported geometry for ${zone}`);
+
+    const rings = (polygonsOf as Array<Array<Array<[number, number]>>>).map(([outer]) => {
+      const closed = outer.length > 1 && outer[0][0] === outer[outer.length - 1][0] && outer[0][1] === outer[outer.length - 1][1];
+      return simplify(closed ? outer.slice(0, -1) : outer, tolerance).flatMap(([lon, lat]) => [lon, lat]);
+    });
+    return [zone, ...rings] as TimezoneBoundaryRecord;
+  });
+}
+
+/**
+ * Nautical zone for a longitude: 15° bands centred on multiples of 15°,
+ * named with the POSIX sign (Etc/GMT-1 is UTC+1)
+ */
+export function nauticalTimezone(lon: number): string {
+  const offset = Math.round(normalizeLongitude(lon) / 15);
+  if (offset === 0) return 'Etc/GMT';
+  return `Etc/GMT${offset > 0 ? '-' : '+'}${Math.abs(offset)}`;
+}
+
+function normalizeLongitude(lon: number): number {
+  const wrapped = ((lon + 180) % 360 + 360) % 360 - 180;
+  return wrapped === -180 && lon > 0 ? 180 : wrapped;
+}
+
+function pointInRing(lon: number, lat: number, ring: number[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 2; i < ring.length; j = i, i += 2) {
+    const xi = ring[i];
+    const yi = ring[i + 1];
+    const xj = ring[j];
+    const yj = ring[j + 1];
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/** Distance from a point to a ring's outline, on a local equirectangular projection */
+function distanceToRingKm(lat: number, lon: number, ring: number[]): number {
+  const kmPerDegLon = KM_PER_DEG * Math.cos((lat * Math.PI) / 180);
+  let best = Infinity;
+  for (let i = 0, j = ring.length - 2; i < ring.length; j = i, i += 2) {
+    const ax = (ring[j] - lon) * kmPerDegLon;
+    const ay = (ring[j + 1] - lat) * KM_PER_DEG;
+    const dx = (ring[i] - lon) * kmPerDegLon - ax;
+    const dy = (ring[i + 1] - lat) * KM_PER_DEG - ay;
+    const t = Math.max(0, Math.min(1, -(ax * dx + ay * dy) / (dx * dx + dy * dy || 1)));
+    best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return best;
+}
+
+/**
+ * IANA zone for a coordinate, and how it was found
+ */
+export function lookupTimezone(lat: number, lon: number, options: TimezoneLookupOptions = {}): TimezoneLookup {
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return { timezone: 'Etc/GMT', source: 'nautical' };
+  const x = normalizeLongitude(lon);
+  const all = getPolygons();
+  const custom = records !== BUNDLED_TIMEZONE_BOUNDARIES;
+
+  if (custom) {
+    const zone = boundaryZone(all, lat, x);
+    if (zone) return { timezone: zone, source: 'boundary' };
+  }
+
+  // The hand-drawn outlines are too coarse for land borders, so the grid decides wherever it has a zone
+  const gridZone = gridTimezone(lat, x);
+  if (gridZone) return { timezone: gridZone, source: 'grid' };
+
+  if (!custom) {
+    const zone = boundaryZone(all, lat, x);
+    if (zone) return { timezone: zone, source: 'boundary' };
+  }
+
+  const coastalKm = options.coastalKm ?? DEFAULT_COASTAL_KM;
+  if (coastalKm > 0) {
+    const latMargin = coastalKm / KM_PER_DEG;
+    const lonMargin = coastalKm / Math.max(KM_PER_DEG * Math.cos((lat * Math.PI) / 180), 1e-6);
+    let nearest: { zone: string; distanceKm: number } | null = null;
+    for (const polygon of all) {
+      const [minLon, minLat, maxLon, maxLat] = polygon.bbox;
+      if (x < minLon - lonMargin || x > maxLon + lonMargin || lat < minLat - latMargin || lat > maxLat + latMargin) continue;
+      const distanceKm = distanceToRingKm(lat, x, polygon.ring);
+      if (distanceKm <= coastalKm && (!nearest || distanceKm < nearest.distanceKm)) {
+        nearest = { zone: polygon.zone, distanceKm };
+      }
+    }
+    if (nearest) {
+      return { timezone: nearest.zone, source: 'coastal', distanceKm: Math.round(nearest.distanceKm * 10) / 10 };
+    }
+  }
+
+  return { timezone: nauticalTimezone(x), source: 'nautical' };
+}
+
+function boundaryZone(all: ZonePolygon[], lat: number, lon: number): string | null {
+  for (const polygon of all) {
+    const [minLon, minLat, maxLon, maxLat] = polygon.bbox;
+    if (lon < minLon || lon > maxLon || lat < minLat || lat > maxLat) continue;
+    if (pointInRing(lon, lat, polygon.ring)) return polygon.zone;
+  }
+  return null;
+}
+
+/** Zone from the worldwide grid, or null for open water (Etc/ zones) */
+function gridTimezone(lat: number, lon: number): string | null {
+  try {
+    const zone = tzLookup(lat, lon);
+    return zone.startsWith('Etc/') ? null : zone;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * IANA zone for a coordinate (see `lookupTimezone` for the details)
+ */
+export function getTimezoneForCoordinates(lat: number, lon: number): string {
+  return lookupTimezone(lat, lon).timezone;
+}
+
+// ============================================================================
+// Zoned time helpers (Intl-based, so they work wherever the zone data does)
+// ============================================================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function zonedParts(ms: number, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(ms))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts as unknown as ZonedParts;
+}
+
+/** UTC offset of a zone at an instant, in minutes (positive east of Greenwich) */
+export function getTimezoneOffsetMinutes(timeZone: string, ms: number): number {
+  const p = zonedParts(ms, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(ms / 1000) * 1000) / 60000);
+}
+
+/** Hour (0-23) at an instant in a zone */
+export function getHourInTimezone(ms: number, timeZone: string): number {
+  return zonedParts(ms, timeZone).hour;
+}
+
+/** Instant of local midnight starting the zone's calendar day containing `ms` */
+export function startOfDayInTimezone(ms: number, timeZone: string): number {
+  const p = zonedParts(ms, timeZone);
+  return localMidnight(p.year, p.month, p.day, timeZone);
+}
+
+/**
+ * Instant of local midnight starting a calendar date (YYYY-MM-DD) in a zone
+ *
+ * Works from the date parts, so it holds for every offset; picking an
+ * instant on the date (e.g. 12:00 UTC) lands on the next day east of UTC+12.
+ */
+export function startOfLocalDate(dateISO: string, timeZone: string): number {
+  const [year, month, day] = dateISO.slice(0, 10).split('-').map(Number);
+  return localMidnight(year, month, day, timeZone);
+}
+
+function localMidnight(year: number, month: number, day: number, timeZone: string): number {
+  const midnightAsUtc = Date.UTC(year, month - 1, day);
+  const guess = midnightAsUtc - getTimezoneOffsetMinutes(timeZone, midnightAsUtc) * 60000;
+  // Re-check the offset at the guess itself, in case a DST change falls between
+  return midnightAsUtc - getTimezoneOffsetMinutes(timeZone, guess) * 60000;
+}
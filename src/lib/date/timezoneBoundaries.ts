@@ -0,0 +1,226 @@
+/**
+ * Bundled timezone boundaries
+ *
+ * Hand-simplified outlines (~0.1-0.5° vertices) for Europe, the Maghreb
+ * coast and the North Atlantic islands, which is where the apps' users and
+ * ICES rectangles are. Borders are only accurate to tens of kilometres, so
+ * the lookup uses these only where the worldwide zone grid has no zone (open
+ * water); load a fuller dataset with `setTimezoneBoundaries` where borders
+ * matter.
+ *
+ * Each record is a zone followed by rings of flattened [lon, lat] pairs.
+ */
+
+export type TimezoneBoundaryRecord = [zone: string, ...rings: number[][]];
+
+export const BUNDLED_TIMEZONE_BOUNDARIES: TimezoneBoundaryRecord[] = [
+  // British Isles
+  ['Europe/London',
+    [-5.7, 50.05, -5.2, 49.95, -4.15, 50.35, -3.65, 50.22, -2.45, 50.52, -1.3, 50.57, -0.78, 50.72, 0.25, 50.73, 0.97, 50.91,
+      1.38, 51.14, 1.45, 51.38, 0.9, 51.55, 1.3, 51.95, 1.76, 52.48, 1.3, 52.93, 0.3, 52.9, 0.12, 53.58, -0.08, 54.12,
+      -0.6, 54.49, -1.42, 55.0, -2.0, 55.77, -2.13, 55.9, -2.58, 56.28, -2.05, 57.15, -1.82, 57.6, -2.0, 57.7, -4.2, 57.5,
+      -3.02, 58.64, -5.0, 58.62, -5.4, 58.2, -6.2, 57.5, -6.2, 56.7, -5.8, 55.3, -5.0, 54.65, -3.4, 54.9, -3.64, 54.5,
+      -2.9, 54.05, -3.1, 53.4, -4.6, 53.3, -4.75, 52.8, -4.1, 52.4, -5.3, 51.88, -5.1, 51.6, -4.0, 51.55, -3.0, 51.45,
+      -3.5, 51.2, -4.53, 51.02, -5.0, 50.55],
+    [-7.7, 56.8, -7.2, 56.9, -6.1, 58.5, -6.5, 58.55, -7.2, 57.9, -7.6, 57.1],
+    [-3.45, 58.75, -2.35, 58.85, -2.4, 59.4, -3.35, 59.15],
+    [-1.4, 59.85, -0.75, 60.3, -0.75, 60.85, -1.1, 60.85, -1.7, 60.3],
+    [-5.45, 54.35, -6.05, 54.03, -6.6, 54.05, -7.2, 54.2, -7.6, 54.15, -8.17, 54.45, -7.85, 54.7, -7.55, 54.75, -7.25, 55.07,
+      -6.9, 55.2, -6.2, 55.27, -5.95, 55.05, -5.7, 54.75]],
+  ['Europe/Dublin',
+    [-6.05, 54.03, -6.0, 53.3, -6.2, 52.95, -6.35, 52.2, -7.0, 52.1, -8.2, 51.8, -9.5, 51.45, -10.3, 51.9, -9.9, 52.3,
+      -9.3, 52.6, -9.9, 53.2, -10.2, 53.5, -10.0, 54.2, -8.7, 54.3, -8.7, 54.8, -8.3, 55.2, -7.3, 55.35, -7.25, 55.07,
+      -7.55, 54.75, -7.85, 54.7, -8.17, 54.45, -7.6, 54.15, -7.2, 54.2, -6.6, 54.05]],
+  ['Europe/Isle_of_Man', [-4.8, 54.05, -4.3, 54.2, -4.35, 54.42, -4.75, 54.3]],
+  ['Europe/Jersey', [-2.26, 49.16, -2.0, 49.16, -2.0, 49.26, -2.26, 49.26]],
+  ['Europe/Guernsey', [-2.68, 49.41, -2.5, 49.41, -2.5, 49.51, -2.68, 49.51]],
+
+  // Iberia and the Atlantic islands
+  ['Europe/Lisbon',
+    [-8.88, 41.87, -8.65, 41.0, -8.85, 40.1, -9.5, 39.35, -9.5, 38.7, -8.8, 38.45, -8.8, 37.9, -8.99, 37.0, -8.6, 37.1,
+      -7.4, 37.18, -7.5, 37.55, -7.25, 38.2, -7.0, 38.9, -7.35, 39.45, -6.9, 39.7, -6.85, 40.25, -6.9, 41.0, -6.2, 41.6,
+      -6.55, 41.95, -7.2, 41.88, -8.05, 41.82, -8.2, 42.15]],
+  ['Europe/Madrid',
+    [-8.88, 41.87, -9.0, 42.5, -9.3, 42.9, -8.2, 43.75, -7.0, 43.55, -5.8, 43.65, -3.8, 43.5, -1.8, 43.4, -1.4, 43.05,
+      -0.5, 42.8, 0.7, 42.85, 1.45, 42.45, 2.0, 42.4, 3.17, 42.43, 3.2, 41.9, 2.2, 41.3, 0.9, 41.0, 0.2, 40.0, -0.3, 39.45,
+      0.2, 38.75, -0.5, 38.3, -0.8, 37.6, -1.6, 37.3, -2.2, 36.7, -4.4, 36.7, -5.35, 36.15, -6.0, 36.05, -6.4, 36.8,
+      -7.4, 37.18, -7.5, 37.55, -7.25, 38.2, -7.0, 38.9, -7.35, 39.45, -6.9, 39.7, -6.85, 40.25, -6.9, 41.0, -6.2, 41.6,
+      -6.55, 41.95, -7.2, 41.88, -8.05, 41.82, -8.2, 42.15],
+    [2.3, 39.35, 3.5, 39.3, 3.45, 39.95, 2.4, 39.6],
+    [3.8, 39.8, 4.35, 39.8, 4.3, 40.05, 3.8, 40.05],
+    [1.2, 38.85, 1.6, 38.85, 1.6, 39.1, 1.2, 39.1]],
+  ['Europe/Gibraltar', [-5.37, 36.11, -5.33, 36.11, -5.33, 36.16, -5.37, 36.16]],
+  ['Europe/Andorra', [1.41, 42.43, 1.79, 42.43, 1.79, 42.66, 1.41, 42.66]],
+  ['Africa/Ceuta',
+    [-5.38, 35.87, -5.28, 35.87, -5.28, 35.92, -5.38, 35.92],
+    [-2.97, 35.27, -2.92, 35.27, -2.92, 35.32, -2.97, 35.32]],
+  ['Atlantic/Canary', [-18.2, 27.6, -15.3, 27.7, -13.3, 28.0, -13.4, 29.45, -16.0, 28.6, -17.9, 28.9]],
+  ['Atlantic/Madeira', [-17.3, 32.6, -16.6, 32.6, -16.2, 33.1, -16.4, 33.15, -17.3, 32.9]],
+  ['Atlantic/Azores', [-31.3, 39.3, -28.7, 38.3, -25.0, 36.9, -24.9, 37.3, -27.0, 39.2, -31.3, 39.8]],
+
+  // Western and central Europe
+  ['Europe/Paris',
+    [-1.8, 43.4, -1.25, 44.6, -1.2, 46.0, -2.2, 46.9, -2.5, 47.3, -4.4, 47.8, -4.8, 48.4, -4.0, 48.75, -3.0, 48.85,
+      -1.9, 48.7, -1.55, 48.65, -1.6, 49.65, -1.25, 49.7, -0.2, 49.3, 0.1, 49.5, 1.4, 50.1, 1.6, 50.9, 2.55, 51.09,
+      2.6, 50.8, 3.2, 50.75, 4.2, 50.3, 4.85, 50.1, 4.9, 49.8, 5.5, 49.5, 6.1, 49.5, 6.7, 49.15, 7.6, 49.05, 8.2, 48.97,
+      7.6, 47.6, 7.0, 47.4, 6.1, 46.6, 6.0, 46.2, 7.0, 45.9, 6.6, 45.1, 7.0, 44.25, 7.5, 43.78, 7.0, 43.55, 6.2, 43.1,
+      5.0, 43.35, 4.1, 43.5, 3.0, 42.9, 3.17, 42.43, 2.0, 42.4, 1.45, 42.45, 0.7, 42.85, -0.5, 42.8, -1.4, 43.05],
+    [8.55, 41.38, 9.4, 41.6, 9.55, 42.1, 9.45, 43.0, 9.3, 42.95, 8.6, 42.4, 8.6, 41.85]],
+  ['Europe/Monaco', [7.4, 43.72, 7.44, 43.72, 7.44, 43.76, 7.4, 43.76]],
+  ['Europe/Brussels',
+    [2.55, 51.09, 3.35, 51.37, 4.25, 51.37, 5.0, 51.48, 5.85, 51.15, 5.65, 50.75, 6.15, 50.6, 6.4, 50.3, 5.8, 49.55,
+      5.5, 49.5, 4.9, 49.8, 4.85, 50.1, 4.2, 50.3, 3.2, 50.75, 2.6, 50.8]],
+  ['Europe/Amsterdam',
+    [3.35, 51.37, 3.6, 51.6, 4.0, 52.0, 4.6, 52.9, 4.8, 53.2, 5.6, 53.45, 6.9, 53.5, 7.2, 53.25, 7.05, 52.6, 6.7, 52.5,
+      6.8, 52.1, 6.0, 51.8, 6.2, 51.35, 6.05, 50.85, 5.7, 50.75, 5.85, 51.15, 5.0, 51.48, 4.25, 51.37]],
+  ['Europe/Luxembourg', [5.75, 49.45, 6.35, 49.45, 6.5, 49.75, 6.1, 50.15, 5.75, 49.85]],
+  ['Europe/Berlin',
+    [7.05, 53.6, 8.0, 53.7, 8.6, 53.9, 8.9, 54.05, 8.6, 54.5, 8.6, 54.9, 9.4, 54.83, 10.0, 54.6, 10.9, 54.35, 11.1, 54.0,
+      12.0, 54.2, 13.0, 54.5, 13.4, 54.7, 14.2, 53.93, 14.4, 53.3, 14.6, 52.6, 14.75, 52.1, 15.0, 51.3, 14.8, 50.85,
+      14.3, 51.05, 13.5, 50.65, 12.5, 50.3, 12.1, 50.25, 12.5, 49.8, 12.9, 49.35, 13.8, 48.8, 13.45, 48.55, 13.0, 47.8,
+      12.2, 47.7, 11.0, 47.4, 10.2, 47.3, 9.55, 47.55, 8.6, 47.65, 7.6, 47.6, 8.2, 48.97, 7.6, 49.05, 6.7, 49.15,
+      6.35, 49.45, 6.5, 49.75, 6.1, 50.15, 6.4, 50.3, 6.15, 50.6, 6.05, 50.85, 6.2, 51.35, 6.0, 51.8, 6.8, 52.1, 6.7, 52.5,
+      7.05, 52.6, 7.2, 53.25]],
+  ['Europe/Zurich',
+    [7.6, 47.6, 8.6, 47.65, 9.55, 47.55, 9.6, 47.05, 10.45, 46.9, 10.1, 46.25, 9.0, 45.85, 8.4, 46.3, 7.0, 45.9, 6.0, 46.2,
+      6.1, 46.6, 7.0, 47.4]],
+  ['Europe/Vaduz', [9.47, 47.05, 9.64, 47.05, 9.64, 47.27, 9.47, 47.27]],
+  ['Europe/Vienna',
+    [9.55, 47.55, 10.2, 47.3, 11.0, 47.4, 12.2, 47.7, 13.0, 47.8, 13.45, 48.55, 13.8, 48.8, 14.9, 48.95, 15.0, 49.0,
+      16.9, 48.6, 17.15, 48.0, 16.5, 47.5, 16.1, 46.85, 15.0, 46.6, 13.7, 46.5, 12.2, 46.7, 11.0, 46.75, 10.45, 46.9,
+      9.6, 47.05]],
+  ['Europe/Rome',
+    [7.5, 43.78, 8.2, 43.9, 8.8, 44.4, 9.8, 44.1, 10.3, 43.5, 10.5, 42.95, 11.1, 42.4, 12.2, 41.8, 13.0, 41.25, 13.9, 41.2,
+      14.4, 40.6, 15.0, 40.2, 15.6, 40.05, 15.65, 38.9, 16.05, 38.0, 16.6, 38.5, 17.15, 39.0, 17.1, 39.4, 16.5, 39.7,
+      17.0, 40.5, 18.0, 40.1, 18.5, 40.15, 18.0, 40.65, 17.0, 41.1, 16.0, 41.45, 15.9, 41.9, 14.6, 42.2, 13.9, 42.7,
+      13.6, 43.55, 12.4, 44.2, 12.3, 45.2, 13.1, 45.7, 13.7, 45.65, 13.6, 46.1, 13.7, 46.5, 12.2, 46.7, 11.0, 46.75,
+      10.45, 46.9, 10.1, 46.25, 9.0, 45.85, 8.4, 46.3, 7.0, 45.9, 6.6, 45.1, 7.0, 44.25],
+    [12.4, 37.8, 13.3, 38.2, 15.65, 38.3, 15.1, 37.3, 15.1, 36.65, 14.4, 36.75, 12.6, 37.55],
+    [8.4, 38.9, 9.0, 39.0, 9.6, 39.2, 9.8, 40.5, 9.4, 41.25, 8.2, 40.9, 8.4, 39.9]],
+  ['Europe/Malta', [14.18, 35.8, 14.6, 35.8, 14.6, 36.1, 14.18, 36.1]],
+  ['Europe/Copenhagen',
+    [8.6, 54.9, 9.4, 54.83, 9.6, 55.5, 10.2, 56.0, 10.9, 56.4, 10.4, 57.0, 10.6, 57.75, 9.5, 57.2, 8.6, 57.1, 8.2, 56.6,
+      8.1, 55.5],
+    [9.7, 55.2, 10.8, 54.9, 12.2, 54.55, 12.6, 55.6, 12.3, 56.1, 11.0, 56.0, 10.2, 55.6],
+    [14.65, 54.98, 15.2, 54.98, 15.2, 55.3, 14.65, 55.3]],
+
+  // Nordics and the North Atlantic
+  ['Europe/Oslo',
+    [11.4, 59.1, 10.5, 59.0, 10.0, 58.95, 8.2, 58.1, 7.0, 58.0, 5.6, 58.7, 5.2, 59.3, 5.0, 60.2, 4.9, 61.0, 5.0, 61.8,
+      6.0, 62.4, 7.0, 62.8, 8.5, 63.4, 10.0, 64.3, 11.0, 64.9, 12.5, 66.0, 13.5, 67.2, 14.5, 68.2, 16.0, 68.9, 18.0, 69.7,
+      20.0, 70.2, 22.0, 70.4, 24.0, 71.0, 26.0, 71.1, 28.0, 71.0, 30.0, 70.6, 31.1, 70.3, 30.9, 69.8, 28.9, 69.05,
+      28.0, 70.05, 26.0, 69.7, 25.0, 69.0, 23.9, 68.8, 22.0, 69.0, 20.55, 69.06, 18.1, 68.55, 16.5, 67.65, 15.4, 66.5,
+      14.5, 65.0, 13.7, 64.6, 12.1, 63.2, 12.3, 62.3, 12.3, 61.0, 12.7, 60.5, 11.8, 59.8]],
+  ['Europe/Stockholm',
+    [11.4, 59.1, 11.8, 58.3, 11.9, 57.6, 12.6, 56.6, 12.5, 56.25, 12.9, 55.4, 14.2, 55.4, 14.4, 56.0, 15.8, 56.1,
+      16.5, 56.5, 16.5, 57.3, 16.8, 58.6, 18.0, 59.0, 18.8, 59.5, 18.4, 60.3, 17.3, 60.7, 17.3, 61.8, 17.6, 62.5,
+      19.0, 63.4, 20.5, 63.8, 21.5, 64.5, 21.2, 65.2, 22.4, 65.8, 24.15, 65.8, 23.6, 66.4, 23.6, 67.9, 22.4, 68.45,
+      20.55, 69.06, 18.1, 68.55, 16.5, 67.65, 15.4, 66.5, 14.5, 65.0, 13.7, 64.6, 12.1, 63.2, 12.3, 62.3, 12.3, 61.0,
+      12.7, 60.5, 11.8, 59.8],
+    [18.1, 56.9, 19.0, 57.2, 19.3, 57.9, 18.7, 57.9, 18.1, 57.4]],
+  ['Europe/Helsinki',
+    [22.9, 59.8, 25.0, 60.2, 27.8, 60.55, 29.0, 61.2, 31.5, 62.9, 30.0, 63.7, 30.5, 64.3, 29.6, 65.2, 30.1, 66.0,
+      29.1, 66.9, 30.0, 67.7, 28.7, 68.2, 28.5, 68.9, 28.9, 69.05, 28.0, 70.05, 26.0, 69.7, 25.0, 69.0, 23.9, 68.8,
+      22.0, 69.0, 20.55, 69.06, 22.4, 68.45, 23.6, 67.9, 23.6, 66.4, 24.15, 65.8, 25.4, 65.0, 24.5, 64.3, 22.8, 63.4,
+      21.3, 62.5, 21.5, 61.5, 21.4, 60.8, 22.0, 60.2]],
+  ['Europe/Mariehamn', [19.5, 59.9, 21.0, 59.9, 21.0, 60.5, 19.5, 60.5]],
+  ['Atlantic/Reykjavik',
+    [-24.5, 65.5, -22.0, 63.8, -18.0, 63.4, -15.0, 64.2, -13.5, 65.1, -14.5, 66.2, -16.0, 66.6, -18.0, 66.2, -21.0, 66.2,
+      -22.5, 66.5, -24.0, 66.0]],
+  ['Atlantic/Faroe', [-7.7, 61.35, -6.3, 61.35, -6.3, 62.4, -7.7, 62.4]],
+
+  // Baltic states, Poland and eastern Europe
+  ['Europe/Warsaw',
+    [14.2, 53.93, 15.0, 54.2, 16.5, 54.55, 17.6, 54.8, 18.8, 54.6, 19.6, 54.45, 22.8, 54.35, 23.5, 53.95, 23.9, 53.15,
+      23.2, 52.3, 23.7, 51.6, 24.1, 50.85, 23.5, 50.4, 22.7, 49.6, 22.55, 49.1, 20.9, 49.35, 19.4, 49.6, 18.6, 49.9,
+      17.7, 50.3, 16.9, 50.45, 16.3, 50.65, 15.0, 51.0, 14.8, 50.85, 15.0, 51.3, 14.75, 52.1, 14.6, 52.6, 14.4, 53.3]],
+  ['Europe/Kaliningrad', [19.6, 54.45, 19.9, 54.95, 21.2, 55.2, 21.3, 55.25, 22.8, 54.9, 22.8, 54.35]],
+  ['Europe/Vilnius',
+    [21.0, 55.75, 21.05, 56.07, 22.0, 56.4, 24.9, 56.4, 26.6, 55.7, 26.8, 55.3, 25.8, 54.8, 25.5, 54.2, 24.4, 53.9,
+      23.5, 53.95, 22.8, 54.35, 22.8, 54.9, 21.3, 55.25]],
+  ['Europe/Riga',
+    [21.05, 56.07, 21.0, 56.8, 21.6, 57.5, 22.6, 57.75, 23.3, 57.0, 24.1, 57.05, 24.3, 57.85, 25.2, 58.07, 26.5, 57.55,
+      27.7, 57.3, 28.2, 56.15, 26.6, 55.7, 24.9, 56.4, 22.0, 56.4]],
+  ['Europe/Tallinn',
+    [24.3, 57.85, 25.2, 58.07, 26.5, 57.55, 27.5, 57.8, 27.4, 58.8, 28.2, 59.4, 27.0, 59.5, 25.0, 59.6, 23.4, 59.3,
+      22.0, 59.0, 21.8, 58.1, 22.6, 57.9, 23.6, 58.2, 24.3, 58.3]],
+  ['Europe/Prague',
+    [12.1, 50.25, 12.5, 50.3, 13.5, 50.65, 14.3, 51.05, 14.8, 50.85, 15.0, 51.0, 16.3, 50.65, 16.9, 50.45, 17.7, 50.3,
+      18.6, 49.9, 18.5, 49.5, 17.5, 48.8, 16.9, 48.6, 15.0, 49.0, 14.9, 48.95, 13.8, 48.8, 12.9, 49.35, 12.5, 49.8]],
+  ['Europe/Bratislava',
+    [16.9, 48.6, 17.5, 48.8, 18.5, 49.5, 19.4, 49.6, 20.9, 49.35, 22.55, 49.1, 22.1, 48.4, 20.5, 48.55, 18.8, 47.85,
+      17.8, 47.75, 17.15, 48.0]],
+  ['Europe/Budapest',
+    [16.1, 46.85, 16.5, 47.5, 17.15, 48.0, 17.8, 47.75, 18.8, 47.85, 20.5, 48.55, 22.1, 48.4, 22.9, 48.0, 22.0, 47.4,
+      21.0, 46.3, 20.3, 46.15, 18.9, 45.9, 17.3, 45.95, 16.55, 46.5]],
+  ['Europe/Bucharest',
+    [20.3, 46.15, 21.0, 46.3, 22.0, 47.4, 22.9, 48.0, 24.0, 47.95, 26.6, 48.25, 27.5, 47.5, 28.1, 46.8, 28.2, 45.5,
+      29.7, 45.2, 28.6, 43.75, 27.0, 44.1, 25.5, 43.65, 23.5, 43.85, 22.7, 44.2, 22.5, 44.7, 21.5, 45.2, 21.0, 45.8]],
+  ['Europe/Chisinau',
+    [26.6, 48.25, 27.6, 48.45, 29.2, 47.9, 30.1, 46.6, 28.95, 46.0, 28.2, 45.5, 28.1, 46.8, 27.5, 47.5]],
+  ['Europe/Kyiv',
+    [22.1, 48.4, 22.55, 49.1, 22.7, 49.6, 23.5, 50.4, 24.1, 50.85, 23.7, 51.6, 25.0, 51.9, 27.0, 51.6, 30.6, 51.3,
+      31.8, 52.1, 34.0, 51.5, 35.5, 50.4, 38.0, 50.0, 40.2, 49.6, 38.2, 47.1, 36.0, 46.6, 35.0, 46.3, 33.6, 46.1,
+      31.5, 46.6, 30.7, 46.4, 29.7, 45.3, 28.2, 45.5, 28.95, 46.0, 30.1, 46.6, 29.2, 47.9, 27.6, 48.45, 26.6, 48.25,
+      24.0, 47.95, 22.9, 48.0]],
+  ['Europe/Simferopol', [33.6, 46.1, 32.5, 45.4, 33.5, 44.5, 34.5, 44.7, 36.5, 45.4, 35.0, 46.0]],
+  ['Europe/Minsk',
+    [23.5, 53.95, 24.4, 53.9, 25.5, 54.2, 25.8, 54.8, 26.8, 55.3, 26.6, 55.7, 28.2, 56.15, 30.9, 55.6, 31.0, 55.0,
+      31.8, 54.0, 32.7, 53.2, 31.8, 52.1, 30.6, 51.3, 27.0, 51.6, 25.0, 51.9, 23.7, 51.6, 23.2, 52.3, 23.9, 53.15]],
+  // European Russia to 45°E (Samara and the Urals are further east)
+  ['Europe/Moscow',
+    [28.2, 59.4, 27.8, 60.55, 29.0, 61.2, 31.5, 62.9, 30.0, 63.7, 30.5, 64.3, 29.6, 65.2, 30.1, 66.0, 29.1, 66.9,
+      30.0, 67.7, 28.7, 68.2, 28.5, 68.9, 28.9, 69.05, 30.9, 69.8, 33.0, 69.4, 36.0, 69.1, 41.0, 67.7, 45.0, 68.5,
+      45.0, 42.5, 43.0, 43.4, 40.0, 43.4, 37.5, 44.7, 38.5, 46.0, 38.2, 47.1, 40.2, 49.6, 38.0, 50.0, 35.5, 50.4,
+      34.0, 51.5, 31.8, 52.1, 32.7, 53.2, 31.8, 54.0, 31.0, 55.0, 30.9, 55.6, 28.2, 56.15, 27.7, 57.3, 27.5, 57.8,
+      27.4, 58.8]],
+
+  // Balkans, Greece, Turkey and Cyprus
+  ['Europe/Ljubljana',
+    [13.7, 45.65, 13.6, 45.45, 14.5, 45.5, 15.2, 45.6, 15.7, 45.85, 16.55, 46.5, 16.0, 46.85, 15.0, 46.6, 13.7, 46.5,
+      13.6, 46.1]],
+  ['Europe/Zagreb',
+    [13.6, 45.45, 13.5, 45.0, 13.9, 44.8, 14.5, 45.2, 15.2, 44.3, 15.9, 43.6, 17.0, 43.4, 17.6, 43.0, 18.5, 42.45,
+      17.6, 43.05, 16.3, 44.0, 15.8, 44.7, 15.8, 45.2, 16.9, 45.25, 19.0, 44.9, 19.4, 45.2, 18.9, 45.9, 17.3, 45.95,
+      16.55, 46.5, 15.7, 45.85, 15.2, 45.6, 14.5, 45.5]],
+  ['Europe/Sarajevo',
+    [15.8, 45.2, 16.9, 45.25, 19.0, 44.9, 19.6, 44.0, 19.2, 43.5, 18.7, 43.1, 18.5, 42.45, 17.6, 43.05, 16.3, 44.0,
+      15.8, 44.7]],
+  ['Europe/Belgrade',
+    [18.9, 45.9, 20.3, 46.15, 21.0, 45.8, 21.5, 45.2, 22.5, 44.7, 22.7, 44.2, 22.4, 43.9, 23.0, 43.2, 22.4, 42.3,
+      21.6, 42.25, 20.6, 41.9, 20.1, 42.6, 19.2, 43.5, 19.6, 44.0, 19.0, 44.9, 19.4, 45.2]],
+  ['Europe/Podgorica', [18.5, 42.45, 18.7, 43.1, 19.2, 43.5, 20.1, 42.6, 19.6, 42.5, 19.4, 41.85, 18.9, 42.2]],
+  ['Europe/Tirane',
+    [19.4, 41.85, 19.6, 42.5, 20.1, 42.6, 20.6, 41.9, 20.5, 41.0, 21.0, 40.6, 20.0, 39.6, 19.3, 40.4, 19.5, 41.3]],
+  ['Europe/Skopje', [20.6, 41.9, 21.6, 42.25, 22.4, 42.3, 23.0, 41.7, 22.9, 41.35, 20.9, 40.9, 20.5, 41.0]],
+  ['Europe/Sofia',
+    [22.7, 44.2, 23.5, 43.85, 25.5, 43.65, 27.0, 44.1, 28.6, 43.75, 28.0, 43.0, 27.5, 42.45, 28.0, 42.0, 26.6, 41.9,
+      26.2, 41.7, 24.0, 41.5, 22.9, 41.35, 23.0, 41.7, 22.4, 42.3, 23.0, 43.2, 22.4, 43.9]],
+  ['Europe/Athens',
+    [20.0, 39.6, 21.0, 40.6, 20.9, 40.9, 22.9, 41.35, 24.0, 41.5, 26.2, 41.7, 26.6, 41.3, 26.05, 40.8, 25.0, 40.95,
+      23.9, 40.8, 23.4, 40.2, 22.6, 40.4, 22.8, 39.5, 23.3, 39.0, 24.0, 38.2, 23.2, 37.6, 22.9, 36.45, 22.5, 36.4,
+      21.7, 36.8, 21.1, 37.8, 21.6, 38.4, 20.7, 38.8, 20.2, 39.4],
+    [23.5, 35.3, 24.5, 35.1, 26.3, 35.0, 26.3, 35.3, 24.0, 35.6, 23.5, 35.6],
+    [24.3, 36.4, 26.0, 36.4, 25.9, 37.6, 24.4, 37.8],
+    [27.7, 35.9, 28.25, 36.45, 27.9, 36.45, 27.7, 36.1],
+    [26.9, 36.7, 27.35, 36.7, 27.35, 36.9, 26.9, 36.9],
+    [26.55, 37.65, 27.05, 37.65, 27.05, 37.8, 26.55, 37.8],
+    [25.85, 38.2, 26.15, 38.2, 26.15, 38.6, 25.85, 38.6],
+    [25.85, 39.0, 26.6, 39.0, 26.6, 39.4, 25.85, 39.4]],
+  ['Europe/Istanbul',
+    [26.05, 40.8, 26.6, 41.3, 26.6, 41.9, 28.0, 42.0, 29.0, 41.25, 31.0, 41.1, 33.0, 42.0, 35.0, 42.1, 36.5, 41.3,
+      38.0, 41.0, 41.5, 41.5, 42.8, 41.55, 43.5, 41.1, 44.8, 39.7, 44.3, 37.2, 42.4, 37.1, 40.0, 36.8, 38.0, 36.8,
+      36.7, 36.2, 36.2, 35.8, 35.9, 36.8, 34.5, 36.8, 32.5, 36.1, 30.5, 36.3, 29.0, 36.6, 27.3, 36.9, 27.3, 37.9,
+      26.3, 38.3, 26.8, 39.0, 26.1, 39.5, 26.2, 40.0, 26.8, 40.4, 26.1, 40.6]],
+  ['Asia/Nicosia', [32.25, 34.6, 33.0, 34.55, 34.1, 35.0, 34.6, 35.7, 33.0, 35.4, 32.3, 35.1]],
+
+  // North Africa
+  ['Africa/Casablanca',
+    [-5.9, 35.8, -4.5, 35.2, -2.2, 35.1, -1.75, 34.8, -1.2, 32.1, -3.7, 30.2, -8.7, 28.7, -13.2, 27.7, -9.8, 29.6,
+      -9.2, 32.5, -6.8, 34.0, -6.3, 35.2]],
+  ['Africa/Algiers',
+    [-1.75, 34.8, -2.2, 35.1, 0.0, 35.9, 3.0, 36.8, 6.0, 37.0, 8.6, 36.95, 8.3, 36.0, 8.3, 34.6, 7.5, 33.2, 9.5, 30.0,
+      -3.7, 30.2, -1.2, 32.1]],
+  ['Africa/Tunis',
+    [8.6, 36.95, 9.8, 37.35, 11.1, 37.1, 11.1, 35.2, 10.1, 34.3, 11.5, 33.2, 9.5, 30.0, 7.5, 33.2, 8.3, 34.6, 8.3, 36.0]],
+];
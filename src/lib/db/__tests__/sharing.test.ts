@@ -0,0 +1,109 @@
+/**
+ * Tests for the in-memory sharing store
+ */
+
+import { MemorySharingStore, POLL_RETENTION_DAYS, type Poll, type Vote } from '../sharing';
+
+const HOUR = 60 * 60 * 1000;
+
+function makePoll(closesAt: Date): Poll {
+  const candidate = (placeId: string, rating?: number) => ({
+    placeId,
+    name: placeId,
+    address: '',
+    latLng: { lat: 0, lng: 0 },
+    rating,
+    votes: 0,
+    voters: [],
+  });
+  return {
+    id: 'poll-1',
+    userId: 'user-1',
+    activityId: 'surfing',
+    activityName: 'Surfing',
+    startTime: new Date(closesAt.getTime() + HOUR).toISOString(),
+    closesAt: closesAt.toISOString(),
+    candidates: [candidate('a', 4.1), candidate('b', 4.6)],
+    shortUrl: '',
+    longUrl: '',
+    toneHint: 'group',
+    status: 'active',
+    createdAt: new Date().toISOString(),
+    analytics: { opens: 0, votes: 0, uniqueVoters: 0 },
+  };
+}
+
+let voteSeq = 0;
+function makeVote(placeId: string, deviceFingerprint: string, votedAt = new Date()): Vote {
+  return {
+    id: `vote-${++voteSeq}`,
+    pollId: 'poll-1',
+    placeId,
+    deviceFingerprint,
+    votedAt: votedAt.toISOString(),
+    ipAddress: '127.0.0.1',
+  };
+}
+
+describe('lib/db/sharing MemorySharingStore', () => {
+  it('should count votes and allow one vote per device', async () => {
+    const store = new MemorySharingStore();
+    await store.putPoll(makePoll(new Date(Date.now() + HOUR)));
+
+    const first = await store.castVote(makeVote('a', 'device-1'));
+    const again = await store.castVote(makeVote('b', 'device-1'));
+
+    expect(first.status).toBe('recorded');
+    expect(again.status).toBe('duplicate');
+    const poll = await store.getPoll('poll-1');
+    expect(poll?.candidates.map(c => c.votes)).toEqual([1, 0]);
+    expect(poll?.analytics.uniqueVoters).toBe(1);
+  });
+
+  it('should reject votes for a place that is not a candidate', async () => {
+    const store = new MemorySharingStore();
+    await store.putPoll(makePoll(new Date(Date.now() + HOUR)));
+
+    expect(await store.castVote(makeVote('not-listed', 'device-1'))).toEqual({ status: 'invalid_candidate' });
+    expect(await store.hasVoted('poll-1', 'device-1')).toBe(false);
+    expect((await store.castVote(makeVote('a', 'device-1'))).status).toBe('recorded');
+  });
+
+  it('should close the poll at closesAt and pick the winner, breaking ties on rating', async () => {
+    const store = new MemorySharingStore();
+    await store.putPoll(makePoll(new Date(Date.now() + HOUR)));
+    await store.castVote(makeVote('a', 'device-1'));
+    await store.castVote(makeVote('b', 'device-2'));
+
+    // Move closesAt into the past
+    const tallied = await store.getPoll('poll-1');
+    await store.putPoll({ ...tallied!, closesAt: new Date(Date.now() - 1000).toISOString() });
+
+    const closed = await store.getPoll('poll-1');
+    expect(closed?.status).toBe('closed');
+    expect(closed?.winnerId).toBe('b');
+
+    const late = await store.castVote(makeVote('a', 'device-3'));
+    expect(late.status).toBe('closed');
+  });
+
+  it('should clean up expired tokens and old closed polls', async () => {
+    const store = new MemorySharingStore();
+    const now = new Date();
+    await store.putPoll(makePoll(new Date(now.getTime() - (POLL_RETENTION_DAYS + 1) * 24 * HOUR)));
+    await store.putToken({
+      id: 'token-1',
+      sharerId: 'user-1',
+      issuedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() - 1000).toISOString(),
+      signature: '',
+      used: false,
+    });
+
+    // The overdue poll is closed first, then removed as past retention
+    const result = await store.cleanupExpired(now);
+    expect(result).toEqual({ invites: 0, polls: 1, tokens: 1 });
+    expect(await store.getPoll('poll-1')).toBeNull();
+    expect(await store.getToken('token-1')).toBeNull();
+  });
+});
@@ -79,97 +79,275 @@ export interface ShareToken {
   used: boolean;
 }
 
-// In-memory storage for development (replace with proper DB later)
-const invites = new Map<string, Invite>();
-const polls = new Map<string, Poll>();
-const votes = new Map<string, Vote>();
-const tokens = new Map<string, ShareToken>();
+export type CastVoteResult =
+  | { status: 'recorded'; vote: Vote; poll: Poll }
+  | { status: 'duplicate' }
+  | { status: 'closed'; poll: Poll }
+  | { status: 'invalid_candidate' }
+  | { status: 'not_found' };
+
+export interface SharingCleanupResult {
+  invites: number;
+  polls: number;
+  tokens: number;
+}
+
+/**
+ * Storage backend for invites, polls, votes and share tokens.
+ *
+ * Implementations must guarantee one vote per (pollId, deviceFingerprint)
+ * even under concurrent requests, only accept votes for one of the poll's
+ * candidates, and close a poll (picking a winner) the
+ * first time it is read or voted on after `closesAt`.
+ */
+export interface SharingStore {
+  putInvite(invite: Invite): Promise<Invite>;
+  getInvite(id: string): Promise<Invite | null>;
+  updateInviteAnalytics(id: string, field: keyof Invite['analytics'], increment?: number): Promise<void>;
+
+  putPoll(poll: Poll): Promise<Poll>;
+  getPoll(id: string): Promise<Poll | null>;
+  updatePollAnalytics(id: string, field: keyof Poll['analytics'], increment?: number): Promise<void>;
+  /** Close every active poll past `closesAt` */
+  closeDuePolls(now?: Date): Promise<Poll[]>;
+
+  castVote(vote: Vote): Promise<CastVoteResult>;
+  getVotesByPoll(pollId: string): Promise<Vote[]>;
+  hasVoted(pollId: string, deviceFingerprint: string): Promise<boolean>;
+
+  putToken(token: ShareToken): Promise<ShareToken>;
+  getToken(id: string): Promise<ShareToken | null>;
+  markTokenUsed(id: string): Promise<void>;
+
+  /** Delete expired invites and tokens, and polls closed longer than the retention period */
+  cleanupExpired(now?: Date): Promise<SharingCleanupResult>;
+}
+
+/** Closed polls (and their votes) are kept this long after `closesAt` */
+export const POLL_RETENTION_DAYS = 14;
+
+export function isPollDue(poll: Poll, now: Date = new Date()): boolean {
+  return poll.status === 'active' && new Date(poll.closesAt).getTime() <= now.getTime();
+}
+
+export function isPollCandidate(poll: Poll, placeId: string): boolean {
+  return poll.candidates.some(c => c.placeId === placeId);
+}
+
+/**
+ * Pick the winning candidate: most votes, then higher rating, then listing order.
+ * No winner when nobody voted.
+ */
+export function selectPollWinner(poll: Poll): PollCandidate | undefined {
+  let winner: PollCandidate | undefined;
+  for (const candidate of poll.candidates) {
+    if (candidate.votes === 0) continue;
+    if (
+      !winner ||
+      candidate.votes > winner.votes ||
+      (candidate.votes === winner.votes && (candidate.rating ?? 0) > (winner.rating ?? 0))
+    ) {
+      winner = candidate;
+    }
+  }
+  return winner;
+}
+
+/**
+ * Close a poll and record its winner
+ */
+export function closePoll(poll: Poll): Poll {
+  return { ...poll, status: 'closed', winnerId: selectPollWinner(poll)?.placeId };
+}
+
+/**
+ * Rebuild candidate tallies and vote analytics from the poll's votes
+ */
+export function applyVotesToPoll(poll: Poll, pollVotes: Vote[]): Poll {
+  return {
+    ...poll,
+    candidates: poll.candidates.map(c => {
+      const voters = pollVotes.filter(v => v.placeId === c.placeId).map(v => v.deviceFingerprint);
+      return { ...c, votes: voters.length, voters };
+    }),
+    analytics: {
+      ...poll.analytics,
+      votes: pollVotes.length,
+      uniqueVoters: new Set(pollVotes.map(v => v.deviceFingerprint)).size,
+    },
+  };
+}
+
+export function pollRetentionCutoff(now: Date): number {
+  return now.getTime() - POLL_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * In-memory store, used for tests and local development.
+ * Node runs each call to completion, so check-then-write is atomic here.
+ */
+export class MemorySharingStore implements SharingStore {
+  private invites = new Map<string, Invite>();
+  private polls = new Map<string, Poll>();
+  private votes = new Map<string, Vote>();
+  private tokens = new Map<string, ShareToken>();
 
-export const db = {
   // Invite operations
-  putInvite: (invite: Invite): Promise<Invite> => {
-    invites.set(invite.id, invite);
+  putInvite(invite: Invite): Promise<Invite> {
+    this.invites.set(invite.id, invite);
     return Promise.resolve(invite);
-  },
-  
-  getInvite: (id: string): Promise<Invite | null> => {
-    return Promise.resolve(invites.get(id) || null);
-  },
-  
-  updateInviteAnalytics: (id: string, field: keyof Invite['analytics'], increment = 1): Promise<void> => {
-    const invite = invites.get(id);
+  }
+
+  getInvite(id: string): Promise<Invite | null> {
+    return Promise.resolve(this.invites.get(id) || null);
+  }
+
+  updateInviteAnalytics(id: string, field: keyof Invite['analytics'], increment = 1): Promise<void> {
+    const invite = this.invites.get(id);
     if (invite) {
       invite.analytics[field] += increment;
-      invites.set(id, invite);
     }
     return Promise.resolve();
-  },
+  }
 
   // Poll operations
-  putPoll: (poll: Poll): Promise<Poll> => {
-    polls.set(poll.id, poll);
+  putPoll(poll: Poll): Promise<Poll> {
+    this.polls.set(poll.id, poll);
     return Promise.resolve(poll);
-  },
-  
-  getPoll: (id: string): Promise<Poll | null> => {
-    return Promise.resolve(polls.get(id) || null);
-  },
-  
-  updatePollAnalytics: (id: string, field: keyof Poll['analytics'], increment = 1): Promise<void> => {
-    const poll = polls.get(id);
+  }
+
+  getPoll(id: string): Promise<Poll | null> {
+    return Promise.resolve(this.getPollClosingIfDue(id, new Date()));
+  }
+
+  updatePollAnalytics(id: string, field: keyof Poll['analytics'], increment = 1): Promise<void> {
+    const poll = this.polls.get(id);
     if (poll) {
       poll.analytics[field] += increment;
-      polls.set(id, poll);
     }
     return Promise.resolve();
-  },
+  }
 
-  // Vote operations
-  putVote: (vote: Vote): Promise<Vote> => {
-    votes.set(vote.id, vote);
-    
-    // Update poll candidate votes
-    const poll = polls.get(vote.pollId);
-    if (poll) {
-      const candidate = poll.candidates.find(c => c.placeId === vote.placeId);
-      if (candidate) {
-        candidate.votes += 1;
-        candidate.voters.push(vote.deviceFingerprint);
-        polls.set(poll.id, poll);
+  closeDuePolls(now: Date = new Date()): Promise<Poll[]> {
+    const closed: Poll[] = [];
+    for (const poll of this.polls.values()) {
+      if (isPollDue(poll, now)) {
+        closed.push(this.getPollClosingIfDue(poll.id, now)!);
       }
     }
-    
-    return Promise.resolve(vote);
-  },
-  
-  getVotesByPoll: (pollId: string): Promise<Vote[]> => {
-    const pollVotes = Array.from(votes.values()).filter(v => v.pollId === pollId);
-    return Promise.resolve(pollVotes);
-  },
-  
-  hasVoted: (pollId: string, deviceFingerprint: string): Promise<boolean> => {
-    const voted = Array.from(votes.values()).some(
+    return Promise.resolve(closed);
+  }
+
+  private getPollClosingIfDue(id: string, now: Date): Poll | null {
+    const poll = this.polls.get(id);
+    if (!poll) return null;
+    if (!isPollDue(poll, now)) return poll;
+    const closed = closePoll(poll);
+    this.polls.set(id, closed);
+    return closed;
+  }
+
+  // Vote operations
+  castVote(vote: Vote): Promise<CastVoteResult> {
+    const poll = this.getPollClosingIfDue(vote.pollId, new Date(vote.votedAt));
+    if (!poll) return Promise.resolve({ status: 'not_found' });
+    if (poll.status !== 'active') return Promise.resolve({ status: 'closed', poll });
+    if (!isPollCandidate(poll, vote.placeId)) return Promise.resolve({ status: 'invalid_candidate' });
+
+    const pollVotes = Array.from(this.votes.values()).filter(v => v.pollId === vote.pollId);
+    if (pollVotes.some(v => v.deviceFingerprint === vote.deviceFingerprint)) {
+      return Promise.resolve({ status: 'duplicate' });
+    }
+
+    this.votes.set(vote.id, vote);
+    const updated = applyVotesToPoll(poll, [...pollVotes, vote]);
+    this.polls.set(poll.id, updated);
+    return Promise.resolve({ status: 'recorded', vote, poll: updated });
+  }
+
+  getVotesByPoll(pollId: string): Promise<Vote[]> {
+    return Promise.resolve(Array.from(this.votes.values()).filter(v => v.pollId === pollId));
+  }
+
+  hasVoted(pollId: string, deviceFingerprint: string): Promise<boolean> {
+    const voted = Array.from(this.votes.values()).some(
       v => v.pollId === pollId && v.deviceFingerprint === deviceFingerprint
     );
     return Promise.resolve(voted);
-  },
+  }
 
   // Token operations
-  putToken: (token: ShareToken): Promise<ShareToken> => {
-    tokens.set(token.id, token);
+  putToken(token: ShareToken): Promise<ShareToken> {
+    this.tokens.set(token.id, token);
     return Promise.resolve(token);
-  },
-  
-  getToken: (id: string): Promise<ShareToken | null> => {
-    return Promise.resolve(tokens.get(id) || null);
-  },
-  
-  markTokenUsed: (id: string): Promise<void> => {
-    const token = tokens.get(id);
+  }
+
+  getToken(id: string): Promise<ShareToken | null> {
+    return Promise.resolve(this.tokens.get(id) || null);
+  }
+
+  markTokenUsed(id: string): Promise<void> {
+    const token = this.tokens.get(id);
     if (token) {
       token.used = true;
-      tokens.set(id, token);
     }
     return Promise.resolve();
   }
-};
+
+  async cleanupExpired(now: Date = new Date()): Promise<SharingCleanupResult> {
+    await this.closeDuePolls(now);
+    const result: SharingCleanupResult = { invites: 0, polls: 0, tokens: 0 };
+
+    for (const [id, invite] of this.invites) {
+      if (new Date(invite.expiresAt) < now) {
+        this.invites.delete(id);
+        result.invites++;
+      }
+    }
+    for (const [id, token] of this.tokens) {
+      if (new Date(token.expiresAt) < now) {
+        this.tokens.delete(id);
+        result.tokens++;
+      }
+    }
+    const cutoff = pollRetentionCutoff(now);
+    for (const [id, poll] of this.polls) {
+      if (poll.status !== 'active' && new Date(poll.closesAt).getTime() < cutoff) {
+        this.polls.delete(id);
+        result.polls++;
+        for (const [voteId, vote] of this.votes) {
+          if (vote.pollId === id) this.votes.delete(voteId);
+        }
+      }
+    }
+
+    return result;
+  }
+}
+
+let store: SharingStore | null = null;
+
+/**
+ * Active sharing store: Supabase when configured, otherwise in-memory
+ */
+export async function getSharingStore(): Promise<SharingStore> {
+  if (!store) {
+    const hasSupabase = !!(process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL) &&
+      !!(process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY);
+    if (hasSupabase) {
+      const { SupabaseSharingStore } = await import('./supabaseSharingStore');
+      store = new SupabaseSharingStore();
+    } else {
+      console.warn('[sharing] Supabase not configured; using in-memory store');
+      store = new MemorySharingStore();
+    }
+  }
+  return store;
+}
+
+/**
+ * Override the sharing store (tests, or a different backend)
+ */
+export function setSharingStore(next: SharingStore | null): void {
+  store = next;
+}
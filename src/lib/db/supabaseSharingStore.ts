@@ -0,0 +1,480 @@
+/**
+ * Supabase-backed sharing store
+ *
+ * Tables (snake_case columns mirror the camelCase fields in ./sharing; DDL
+ * in supabase/migrations/20261019000100_sharing.sql):
+ * - share_invites (id text pk, user_id text, activity_id text,
+ *   activity_name text, place_id text null, place_name text null,
+ *   place_address text null, place_lat_lng jsonb null, start_time timestamptz,
+ *   end_time timestamptz, short_url text, long_url text,
+ *   message_template text, tone_hint text ('dm' | 'group'),
+ *   created_at timestamptz, expires_at timestamptz, analytics jsonb)
+ * - share_polls (id text pk, user_id text, activity_id text,
+ *   activity_name text, start_time timestamptz, closes_at timestamptz,
+ *   candidates jsonb, short_url text, long_url text, tone_hint text,
+ *   status text ('active' | 'closed' | 'expired'), winner_id text null,
+ *   created_at timestamptz, analytics jsonb)
+ * - share_votes (id text pk, poll_id text fk share_polls on delete cascade,
+ *   place_id text, device_fingerprint text, eta_minutes int null,
+ *   accessibility_needed boolean null, voted_at timestamptz, ip_address text,
+ *   unique (poll_id, device_fingerprint))
+ * - share_tokens (id text pk, invite_id text null, poll_id text null,
+ *   sharer_id text, recipient_hint text null, issued_at timestamptz,
+ *   expires_at timestamptz, signature text, used boolean default false)
+ * - share_token_revocations (token_id text pk, expires_at timestamptz,
+ *   revoked_at timestamptz), read by SupabaseShareTokenDenylist
+ *
+ * Vote counts are never stored as counters: candidate tallies and vote
+ * analytics are rebuilt from share_votes on read, and the unique
+ * (poll_id, device_fingerprint) constraint makes one-vote-per-device atomic.
+ *
+ * Votes go through the cast_share_vote(p_vote jsonb) function (same
+ * migration), which locks the poll row, checks it is active, not past
+ * closes_at and that the place is one of its candidates, and inserts the
+ * vote in the same transaction. It returns 'recorded', 'duplicate',
+ * 'closed', 'invalid_candidate' or 'not_found'.
+ *
+ * Closing is a conditional update on status = 'active', so concurrent
+ * readers close a poll only once. It waits for in-flight votes holding the
+ * row lock, and the winner is worked out from the votes read after the
+ * status change, when no more can arrive.
+ */
+
+import { getSupabaseServerClient, type SupabaseClient } from '../supabase/serverClient';
+import type { ShareTokenDenylist } from '../share/shareToken';
+import {
+  applyVotesToPoll,
+  closePoll,
+  isPollCandidate,
+  isPollDue,
+  pollRetentionCutoff,
+  type CastVoteResult,
+  type Invite,
+  type Poll,
+  type SharingCleanupResult,
+  type SharingStore,
+  type ShareToken,
+  type Vote,
+} from './sharing';
+
+interface InviteRow {
+  id: string;
+  user_id: string;
+  activity_id: string;
+  activity_name: string;
+  place_id: string | null;
+  place_name: string | null;
+  place_address: string | null;
+  place_lat_lng: { lat: number; lng: number } | null;
+  start_time: string;
+  end_time: string;
+  short_url: string;
+  long_url: string;
+  message_template: string;
+  tone_hint: 'dm' | 'group';
+  created_at: string;
+  expires_at: string;
+  analytics: Invite['analytics'];
+}
+
+interface PollRow {
+  id: string;
+  user_id: string;
+  activity_id: string;
+  activity_name: string;
+  start_time: string;
+  closes_at: string;
+  candidates: Poll['candidates'];
+  short_url: string;
+  long_url: string;
+  tone_hint: 'dm' | 'group';
+  status: Poll['status'];
+  winner_id: string | null;
+  created_at: string;
+  analytics: Poll['analytics'];
+}
+
+interface VoteRow {
+  id: string;
+  poll_id: string;
+  place_id: string;
+  device_fingerprint: string;
+  eta_minutes: number | null;
+  accessibility_needed: boolean | null;
+  voted_at: string;
+  ip_address: string;
+}
+
+interface TokenRow {
+  id: string;
+  invite_id: string | null;
+  poll_id: string | null;
+  sharer_id: string;
+  recipient_hint: string | null;
+  issued_at: string;
+  expires_at: string;
+  signature: string;
+  used: boolean;
+}
+
+// ============================================================================
+// Row mapping
+// ============================================================================
+
+function inviteToRow(invite: Invite): InviteRow {
+  return {
+    id: invite.id,
+    user_id: invite.userId,
+    activity_id: invite.activityId,
+    activity_name: invite.activityName,
+    place_id: invite.placeId ?? null,
+    place_name: invite.placeName ?? null,
+    place_address: invite.placeAddress ?? null,
+    place_lat_lng: invite.placeLatLng ?? null,
+    start_time: invite.startTime,
+    end_time: invite.endTime,
+    short_url: invite.shortUrl,
+    long_url: invite.longUrl,
+    message_template: invite.messageTemplate,
+    tone_hint: invite.toneHint,
+    created_at: invite.createdAt,
+    expires_at: invite.expiresAt,
+    analytics: invite.analytics,
+  };
+}
+
+function rowToInvite(row: InviteRow): Invite {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    activityId: row.activity_id,
+    activityName: row.activity_name,
+    placeId: row.place_id ?? undefined,
+    placeName: row.place_name ?? undefined,
+    placeAddress: row.place_address ?? undefined,
+    placeLatLng: row.place_lat_lng ?? undefined,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    shortUrl: row.short_url,
+    longUrl: row.long_url,
+    messageTemplate: row.message_template,
+    toneHint: row.tone_hint,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    analytics: row.analytics,
+  };
+}
+
+function pollToRow(poll: Poll): PollRow {
+  return {
+    id: poll.id,
+    user_id: poll.userId,
+    activity_id: poll.activityId,
+    activity_name: poll.activityName,
+    start_time: poll.startTime,
+    closes_at: poll.closesAt,
+    // Tallies are derived from share_votes
+    candidates: poll.candidates.map(c => ({ ...c, votes: 0, voters: [] })),
+    short_url: poll.shortUrl,
+    long_url: poll.longUrl,
+    tone_hint: poll.toneHint,
+    status: poll.status,
+    winner_id: poll.winnerId ?? null,
+    created_at: poll.createdAt,
+    analytics: poll.analytics,
+  };
+}
+
+function rowToPoll(row: PollRow): Poll {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    activityId: row.activity_id,
+    activityName: row.activity_name,
+    startTime: row.start_time,
+    closesAt: row.closes_at,
+    candidates: row.candidates,
+    shortUrl: row.short_url,
+    longUrl: row.long_url,
+    toneHint: row.tone_hint,
+    status: row.status,
+    winnerId: row.winner_id ?? undefined,
+    createdAt: row.created_at,
+    analytics: row.analytics,
+  };
+}
+
+function voteToRow(vote: Vote): VoteRow {
+  return {
+    id: vote.id,
+    poll_id: vote.pollId,
+    place_id: vote.placeId,
+    device_fingerprint: vote.deviceFingerprint,
+    eta_minutes: vote.etaMinutes ?? null,
+    accessibility_needed: vote.accessibilityNeeded ?? null,
+    voted_at: vote.votedAt,
+    ip_address: vote.ipAddress,
+  };
+}
+
+function rowToVote(row: VoteRow): Vote {
+  return {
+    id: row.id,
+    pollId: row.poll_id,
+    placeId: row.place_id,
+    deviceFingerprint: row.device_fingerprint,
+    etaMinutes: row.eta_minutes ?? undefined,
+    accessibilityNeeded: row.accessibility_needed ?? undefined,
+    votedAt: row.voted_at,
+    ipAddress: row.ip_address,
+  };
+}
+
+function tokenToRow(token: ShareToken): TokenRow {
+  return {
+    id: token.id,
+    invite_id: token.inviteId ?? null,
+    poll_id: token.pollId ?? null,
+    sharer_id: token.sharerId,
+    recipient_hint: token.recipientHint ?? null,
+    issued_at: token.issuedAt,
+    expires_at: token.expiresAt,
+    signature: token.signature,
+    used: token.used,
+  };
+}
+
+function rowToToken(row: TokenRow): ShareToken {
+  return {
+    id: row.id,
+    inviteId: row.invite_id ?? undefined,
+    pollId: row.poll_id ?? undefined,
+    sharerId: row.sharer_id,
+    recipientHint: row.recipient_hint ?? undefined,
+    issuedAt: row.issued_at,
+    expiresAt: row.expires_at,
+    signature: row.signature,
+    used: row.used,
+  };
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+export class SupabaseSharingStore implements SharingStore {
+  constructor(private readonly client: () => SupabaseClient = getSupabaseServerClient) {}
+
+  // Invite operations
+  async putInvite(invite: Invite): Promise<Invite> {
+    const { error } = await this.client().from('share_invites').upsert(inviteToRow(invite));
+    if (error) throw new Error(`Failed to save invite: ${error.message}`);
+    return invite;
+  }
+
+  async getInvite(id: string): Promise<Invite | null> {
+    const { data, error } = await this.client().from('share_invites').select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error(`Failed to load invite: ${error.message}`);
+    return data ? rowToInvite(data as InviteRow) : null;
+  }
+
+  /** Read-modify-write: analytics are best-effort and may drop concurrent increments */
+  async updateInviteAnalytics(id: string, field: keyof Invite['analytics'], increment = 1): Promise<void> {
+    const invite = await this.getInvite(id);
+    if (!invite) return;
+    const analytics = { ...invite.analytics, [field]: invite.analytics[field] + increment };
+    const { error } = await this.client().from('share_invites').update({ analytics }).eq('id', id);
+    if (error) console.error('[sharing] Failed to update invite analytics:', error.message);
+  }
+
+  // Poll operations
+  async putPoll(poll: Poll): Promise<Poll> {
+    const { error } = await this.client().from('share_polls').upsert(pollToRow(poll));
+    if (error) throw new Error(`Failed to save poll: ${error.message}`);
+    return poll;
+  }
+
+  async getPoll(id: string, now: Date = new Date()): Promise<Poll | null> {
+    const { data, error } = await this.client().from('share_polls').select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error(`Failed to load poll: ${error.message}`);
+    if (!data) return null;
+
+    const poll = applyVotesToPoll(rowToPoll(data as PollRow), await this.getVotesByPoll(id));
+    return isPollDue(poll, now) ? this.close(poll) : poll;
+  }
+
+  /** Read-modify-write: analytics are best-effort and may drop concurrent increments */
+  async updatePollAnalytics(id: string, field: keyof Poll['analytics'], increment = 1): Promise<void> {
+    // Vote counts are derived from share_votes
+    if (field === 'votes' || field === 'uniqueVoters') return;
+    const { data, error } = await this.client().from('share_polls').select('analytics').eq('id', id).maybeSingle();
+    if (error || !data) return;
+    const current = (data as Pick<PollRow, 'analytics'>).analytics;
+    const analytics = { ...current, [field]: current[field] + increment };
+    const { error: updateError } = await this.client().from('share_polls').update({ analytics }).eq('id', id);
+    if (updateError) console.error('[sharing] Failed to update poll analytics:', updateError.message);
+  }
+
+  async closeDuePolls(now: Date = new Date()): Promise<Poll[]> {
+    const { data, error } = await this.client()
+      .from('share_polls')
+      .select('id')
+      .eq('status', 'active')
+      .lte('closes_at', now.toISOString());
+    if (error) throw new Error(`Failed to list due polls: ${error.message}`);
+
+    const closed: Poll[] = [];
+    for (const { id } of (data ?? []) as Array<{ id: string }>) {
+      const poll = await this.getPoll(id, now);
+      if (poll && poll.status === 'closed') closed.push(poll);
+    }
+    return closed;
+  }
+
+  /**
+   * Close a due poll. The status guard makes this a no-op for anyone who
+   * lost the race; they re-read the winner the first closer wrote.
+   */
+  private async close(poll: Poll): Promise<Poll> {
+    const { data, error } = await this.client()
+      .from('share_polls')
+      .update({ status: 'closed' })
+      .eq('id', poll.id)
+      .eq('status', 'active')
+      .select('id');
+    if (error) throw new Error(`Failed to close poll: ${error.message}`);
+    if (data && data.length > 0) {
+      // No vote can land now, so this tally is final
+      const closed = closePoll(applyVotesToPoll(poll, await this.getVotesByPoll(poll.id)));
+      const { error: winnerError } = await this.client()
+        .from('share_polls')
+        .update({ winner_id: closed.winnerId ?? null, analytics: closed.analytics })
+        .eq('id', poll.id);
+      if (winnerError) throw new Error(`Failed to record poll winner: ${winnerError.message}`);
+      return closed;
+    }
+
+    const { data: row } = await this.client().from('share_polls').select('status, winner_id').eq('id', poll.id).maybeSingle();
+    const current = row as Pick<PollRow, 'status' | 'winner_id'> | null;
+    return current
+      ? { ...poll, status: current.status, winnerId: current.winner_id ?? undefined }
+      : closePoll(poll);
+  }
+
+  // Vote operations
+  async castVote(vote: Vote): Promise<CastVoteResult> {
+    // Closes the poll first if it is due
+    const poll = await this.getPoll(vote.pollId, new Date(vote.votedAt));
+    if (!poll) return { status: 'not_found' };
+    if (poll.status !== 'active') return { status: 'closed', poll };
+    if (!isPollCandidate(poll, vote.placeId)) return { status: 'invalid_candidate' };
+
+    // A close can still land between that read and the insert, so the
+    // status check and insert happen together in cast_share_vote
+    const { data, error } = await this.client().rpc('cast_share_vote', { p_vote: voteToRow(vote) });
+    if (error) throw new Error(`Failed to record vote: ${error.message}`);
+
+    switch (data as 'recorded' | 'duplicate' | 'closed' | 'invalid_candidate' | 'not_found') {
+      case 'recorded':
+        return { status: 'recorded', vote, poll: applyVotesToPoll(poll, await this.getVotesByPoll(vote.pollId)) };
+      case 'duplicate':
+        return { status: 'duplicate' };
+      case 'invalid_candidate':
+        return { status: 'invalid_candidate' };
+      case 'not_found':
+        return { status: 'not_found' };
+      default:
+        return { status: 'closed', poll: (await this.getPoll(vote.pollId)) ?? poll };
+    }
+  }
+
+  async getVotesByPoll(pollId: string): Promise<Vote[]> {
+    const { data, error } = await this.client().from('share_votes').select('*').eq('poll_id', pollId);
+    if (error) throw new Error(`Failed to load votes: ${error.message}`);
+    return ((data ?? []) as VoteRow[]).map(rowToVote);
+  }
+
+  async hasVoted(pollId: string, deviceFingerprint: string): Promise<boolean> {
+    const { count, error } = await this.client()
+      .from('share_votes')
+      .select('id', { count: 'exact', head: true })
+      .eq('poll_id', pollId)
+      .eq('device_fingerprint', deviceFingerprint);
+    if (error) throw new Error(`Failed to check vote: ${error.message}`);
+    return (count ?? 0) > 0;
+  }
+
+  // Token operations
+  async putToken(token: ShareToken): Promise<ShareToken> {
+    const { error } = await this.client().from('share_tokens').upsert(tokenToRow(token));
+    if (error) throw new Error(`Failed to save token: ${error.message}`);
+    return token;
+  }
+
+  async getToken(id: string): Promise<ShareToken | null> {
+    const { data, error } = await this.client().from('share_tokens').select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error(`Failed to load token: ${error.message}`);
+    return data ? rowToToken(data as TokenRow) : null;
+  }
+
+  async markTokenUsed(id: string): Promise<void> {
+    const { error } = await this.client().from('share_tokens').update({ used: true }).eq('id', id);
+    if (error) throw new Error(`Failed to mark token used: ${error.message}`);
+  }
+
+  async cleanupExpired(now: Date = new Date()): Promise<SharingCleanupResult> {
+    await this.closeDuePolls(now);
+    const nowIso = now.toISOString();
+    const client = this.client();
+
+    const invites = await client.from('share_invites').delete({ count: 'exact' }).lt('expires_at', nowIso);
+    const tokens = await client.from('share_tokens').delete({ count: 'exact' }).lt('expires_at', nowIso);
+    // Votes go with their poll (on delete cascade)
+    const polls = await client
+      .from('share_polls')
+      .delete({ count: 'exact' })
+      .neq('status', 'active')
+      .lt('closes_at', new Date(pollRetentionCutoff(now)).toISOString());
+
+    for (const { error } of [invites, tokens, polls]) {
+      if (error) throw new Error(`Failed to clean up sharing data: ${error.message}`);
+    }
+
+    return { invites: invites.count ?? 0, polls: polls.count ?? 0, tokens: tokens.count ?? 0 };
+  }
+}
+
+/**
+ * Revoked share token ids in share_token_revocations, so a revocation holds
+ * across restarts and every server instance. Rows are ignored once the token
+ * would have expired anyway, and `cleanupExpired` deletes them.
+ */
+export class SupabaseShareTokenDenylist implements ShareTokenDenylist {
+  constructor(private readonly client: () => SupabaseClient = getSupabaseServerClient) {}
+
+  async revoke(tokenId: string, expiresAt: string): Promise<void> {
+    const { error } = await this.client()
+      .from('share_token_revocations')
+      .upsert({ token_id: tokenId, expires_at: expiresAt, revoked_at: new Date().toISOString() });
+    if (error) throw new Error(`Failed to revoke share token: ${error.message}`);
+  }
+
+  async isRevoked(tokenId: string): Promise<boolean> {
+    const { count, error } = await this.client()
+      .from('share_token_revocations')
+      .select('token_id', { count: 'exact', head: true })
+      .eq('token_id', tokenId)
+      .gte('expires_at', new Date().toISOString());
+    if (error) throw new Error(`Failed to check share token revocation: ${error.message}`);
+    return (count ?? 0) > 0;
+  }
+
+  async cleanupExpired(now: Date = new Date()): Promise<number> {
+    const { count, error } = await this.client()
+      .from('share_token_revocations')
+      .delete({ count: 'exact' })
+      .lt('expires_at', now.toISOString());
+    if (error) throw new Error(`Failed to clean up share token revocations: ${error.message}`);
+    return count ?? 0;
+  }
+}
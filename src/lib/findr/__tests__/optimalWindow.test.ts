@@ -0,0 +1,131 @@
+/**
+ * Tests for the optimal fishing window scorer
+ */
+
+import { calculateOptimalWindow, rankOptimalWindows, type TideExtreme } from '../conditionHelpers';
+
+// Local-time ISO strings so expectations don't depend on the machine timezone
+const at = (hours: number, minutes = 0, dayOffset = 0) =>
+  new Date(2025, 5, 10 + dayOffset, hours, minutes).toISOString();
+
+const semidiurnal: TideExtreme[] = [
+  { time: at(1, 10), type: 'low', height: 0.6 },
+  { time: at(7, 20), type: 'high', height: 4.1 },
+  { time: at(13, 35), type: 'low', height: 0.7 },
+  { time: at(19, 45), type: 'high', height: 4.3 },
+  { time: at(2, 0, 1), type: 'low', height: 0.5 },
+];
+
+describe('lib/findr/conditionHelpers optimal window', () => {
+  it('scores every tide in the day, not just the first high and low', () => {
+    const windows = rankOptimalWindows({
+      date: at(12),
+      tideExtremes: semidiurnal,
+      speciesTidePreference: 'flood',
+      maxWindows: 2,
+    });
+
+    expect(windows).toHaveLength(2);
+    // Both flood tides (01:40-06:50 and 14:05-19:15) should produce a window
+    const startHours = windows.map(w => new Date(w.startIso).getHours()).sort((a, b) => a - b);
+    expect(startHours[0]).toBeLessThan(7);
+    expect(startHours[1]).toBeGreaterThanOrEqual(14);
+    expect(windows.every(w => w.reason === 'Flood tide window')).toBe(true);
+  });
+
+  it('returns 15-minute slot breakdowns', () => {
+    const [best] = rankOptimalWindows({
+      date: at(12),
+      sunriseIso: at(5, 0),
+      tideExtremes: semidiurnal,
+      speciesTidePreference: 'flood',
+    });
+
+    expect(best.slots).toHaveLength(12);
+    expect(new Date(best.slots[1].time).getTime() - new Date(best.slots[0].time).getTime()).toBe(15 * 60 * 1000);
+    const dawnSlot = best.slots.find(s => s.reasons.includes('dawn'));
+    expect(dawnSlot?.breakdown.dawn).toBe(25);
+    expect(dawnSlot?.score).toBe(Object.values(dawnSlot!.breakdown).reduce((a, b) => a + b, 0));
+  });
+
+  it('lets night windows run past midnight', () => {
+    const [best] = rankOptimalWindows({
+      date: at(12),
+      moonTransitIso: at(23, 30),
+      moonIllumination: 90,
+    });
+
+    // The ±1h solunar period (22:30-00:30) sits entirely inside the window
+    expect(new Date(best.startIso).getTime()).toBeLessThanOrEqual(new Date(at(22, 30)).getTime());
+    expect(new Date(best.endIso).getTime()).toBeGreaterThanOrEqual(new Date(at(0, 30, 1)).getTime());
+    expect(best.reason).toBe('Solunar major window');
+  });
+
+  it('only starts windows between local midnights on DST change days', () => {
+    const floodFrom = (lowIso: string, highIso: string) => [
+      { time: lowIso, type: 'low' as const, height: 0.5 },
+      { time: highIso, type: 'high' as const, height: 4 },
+    ];
+
+    // Europe/London springs forward on 30 March: a 23-hour day ending at 23:00 UTC,
+    // just as the flood gets going
+    const [spring] = rankOptimalWindows({
+      date: '2025-03-30T12:00:00Z',
+      timezone: 'Europe/London',
+      tideExtremes: floodFrom('2025-03-30T22:30:00Z', '2025-03-31T04:40:00Z'),
+      speciesTidePreference: 'flood',
+      windowHours: 1,
+    });
+    expect(spring.startIso).toBe('2025-03-30T22:45:00.000Z');
+
+    // ...and falls back on 26 October: a 25-hour day whose last hour starts at 23:00 UTC
+    const [autumn] = rankOptimalWindows({
+      date: '2025-10-26T12:00:00Z',
+      timezone: 'Europe/London',
+      tideExtremes: floodFrom('2025-10-26T22:30:00Z', '2025-10-27T04:40:00Z'),
+      speciesTidePreference: 'flood',
+      windowHours: 1,
+    });
+    expect(autumn.startIso).toBe('2025-10-26T23:00:00.000Z');
+  });
+
+  it('scores the moon underfoot as a major period and moonrise as a minor one', () => {
+    const windows = rankOptimalWindows({
+      date: at(12),
+      moonUnderfootIso: at(4, 0),
+      moonriseIso: at(16, 0),
+      windowHours: 2,
+    });
+
+    expect(windows.map(w => w.reason)).toEqual(['Solunar major window', 'Solunar minor window']);
+    expect(new Date(windows[0].startIso).getHours()).toBe(3);
+  });
+
+  it('keeps the legacy single high/low input working', () => {
+    const result = calculateOptimalWindow({
+      date: at(12),
+      sunriseIso: at(5, 10),
+      sunsetIso: at(21, 15),
+      highTideIso: at(7, 20),
+      lowTideIso: at(13, 35),
+    });
+
+    expect(result.duration).toBe('3 hours');
+    expect(result.reason).toBe('Dawn + tide alignment');
+    expect(result.windows?.[0].start).toBe(result.start);
+    expect(result.highTide).toBeDefined();
+  });
+
+  it('lists every high tide of the day', () => {
+    const result = calculateOptimalWindow({ date: at(12), tideExtremes: semidiurnal });
+    expect(result.highTide?.split(', ')).toHaveLength(2);
+  });
+
+  it('falls back to a 6 AM window when nothing scores', () => {
+    const result = calculateOptimalWindow({ date: at(12), windowHours: 2 });
+    expect(result.windows).toEqual([]);
+    expect(result.reason).toBe('Best available window');
+    expect(result.start).toBe('6:00 AM');
+    expect(result.duration).toBe('2 hours');
+  });
+});
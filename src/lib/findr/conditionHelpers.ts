@@ -5,6 +5,14 @@
  * for use in scoreSpeciesApproach and related scoring functions.
  */
 
+import {
+  getHourInTimezone,
+  getTimezoneForCoordinates,
+  isValidTimezone,
+  startOfDayInTimezone,
+} from '../date/timezone';
+import { getDayEphemeris } from '../astro/ephemeris';
+
 /**
  * Tide extreme data point from API
  */
@@ -165,59 +173,21 @@ export function getTimeOfDay(
 }
 
 /**
- * Get timezone from coordinates using heuristic rules
+ * Get timezone from coordinates
  *
- * This is a simple approximation. For production use, consider
- * integrating a timezone lookup library like 'geo-tz' or calling
- * a timezone API service.
+ * Offline lookup against bundled zone outlines; marks at sea take the
+ * nearest coast's zone, and open water the nautical zone for its longitude.
  *
  * @param lat - Latitude
  * @param lon - Longitude
- * @returns Approximate IANA timezone string
+ * @returns IANA timezone string
  *
  * @example
- * const tz = getTimezoneFromCoordinates(51.5, -0.1);
- * // Returns: 'Europe/London'
+ * const tz = getTimezoneFromCoordinates(38.7, -9.1);
+ * // Returns: 'Europe/Lisbon'
  */
 export function getTimezoneFromCoordinates(lat: number, lon: number): string {
-  // Simple heuristic based on longitude (very approximate!)
-  // For production, use a proper timezone lookup library
-
-  // Europe
-  if (lat >= 35 && lat <= 71 && lon >= -10 && lon <= 40) {
-    if (lon >= -10 && lon < 5) return 'Europe/London';
-    if (lon >= 5 && lon < 15) return 'Europe/Paris';
-    if (lon >= 15 && lon < 25) return 'Europe/Berlin';
-    if (lon >= 25 && lon < 40) return 'Europe/Athens';
-  }
-
-  // US East Coast
-  if (lat >= 25 && lat <= 48 && lon >= -85 && lon <= -65) {
-    return 'America/New_York';
-  }
-
-  // US West Coast
-  if (lat >= 32 && lat <= 49 && lon >= -125 && lon <= -115) {
-    return 'America/Los_Angeles';
-  }
-
-  // Asia - Japan/Korea
-  if (lat >= 30 && lat <= 45 && lon >= 125 && lon <= 145) {
-    return 'Asia/Tokyo';
-  }
-
-  // Australia East Coast
-  if (lat >= -38 && lat <= -10 && lon >= 145 && lon <= 155) {
-    return 'Australia/Sydney';
-  }
-
-  // Atlantic (Iceland, Azores)
-  if (lat >= 35 && lat <= 65 && lon >= -30 && lon <= -10) {
-    return 'Atlantic/Azores';
-  }
-
-  // Default to UTC
-  return 'UTC';
+  return getTimezoneForCoordinates(lat, lon);
 }
 
 /**
@@ -591,28 +561,34 @@ export async function fetchNearbyTackleShops(
 }
 
 /**
- * Parse ISO time string to display format (e.g., "7:15 AM")
+ * Parse ISO time string to display format (e.g., "7:15 AM"), in `timezone`
+ * when given, otherwise in the machine's zone
  */
-export function formatTimeDisplay(isoTime: string | null | undefined): string | null {
+export function formatTimeDisplay(isoTime: string | null | undefined, timezone?: string | null): string | null {
   if (!isoTime) return null;
   try {
     const date = new Date(isoTime);
     if (isNaN(date.getTime())) return null;
-    return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+    return date.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+      timeZone: isValidTimezone(timezone) ? timezone : undefined,
+    });
   } catch {
     return null;
   }
 }
 
 /**
- * Get hour from ISO time string (0-23)
+ * Get hour from ISO time string (0-23), in `timezone` when given
  */
-export function getHourFromIso(isoTime: string | null | undefined): number | null {
+export function getHourFromIso(isoTime: string | null | undefined, timezone?: string | null): number | null {
   if (!isoTime) return null;
   try {
     const date = new Date(isoTime);
     if (isNaN(date.getTime())) return null;
-    return date.getHours();
+    return isValidTimezone(timezone) ? getHourInTimezone(date.getTime(), timezone) : date.getHours();
   } catch {
     return null;
   }
@@ -631,154 +607,322 @@ export function isWithinTimeWindow(hour: number, targetHour: number | null, wind
 // Optimal Fishing Window Calculation
 // ============================================================================
 
-import type { OptimalWindow } from './emailTemplates';
+import type { OptimalWindow, OptimalWindowSlot, RankedOptimalWindow } from './emailTemplates';
 
-interface OptimalWindowInput {
+export interface OptimalWindowInput {
   sunriseIso?: string | null;
   sunsetIso?: string | null;
+  /** All tide highs and lows around the day (preferred over highTideIso/lowTideIso) */
+  tideExtremes?: TideExtreme[] | null;
+  /** Single high/low tide, used when tideExtremes is not provided */
   highTideIso?: string | null;
   lowTideIso?: string | null;
+  /** Moon overhead; with `moonUnderfootIso` these centre the solunar major periods */
   moonTransitIso?: string | null;
+  moonUnderfootIso?: string | null;
+  /** Moonrise and moonset centre the solunar minor periods */
+  moonriseIso?: string | null;
+  moonsetIso?: string | null;
   moonIllumination?: number | null;
   speciesTidePreference?: 'flood' | 'ebb' | 'slack' | null;
   speciesTimePreference?: 'dawn' | 'dusk' | 'day' | 'night' | null;
+  /** Day to score (local midnight to midnight); defaults to the sunrise date, else today */
+  date?: Date | string;
+  /** Zone the day runs in and times are shown in; defaults to the location's zone, else the machine's */
+  timezone?: string | null;
+  /**
+   * Spot location, used to look up the zone when `timezone` is not given and
+   * to compute moon times locally when no moon fields are given
+   */
+  location?: { lat: number; lon: number } | null;
+  /** Window length in hours (default 3) */
+  windowHours?: number;
+  /** Maximum number of ranked windows returned (default 3) */
+  maxWindows?: number;
 }
 
-interface HourScore {
-  hour: number;
-  score: number;
-  reasons: string[];
+const SLOT_MINUTES = 15;
+const SLOT_MS = SLOT_MINUTES * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const SOLAR_DAY_MS = 24 * HOUR_MS;
+const LUNAR_DAY_MS = 24.8412 * HOUR_MS;
+// Half a mean semidiurnal cycle; beyond this from the nearest extreme the stage is unknown
+const TIDE_EXTRAPOLATION_MS = 6.21 * HOUR_MS;
+const SLACK_MS = 30 * 60 * 1000;
+
+type SlotTideStage = 'flooding' | 'ebbing' | 'slack' | null;
+
+function parseIsoMs(isoTime: string | null | undefined): number | null {
+  if (!isoTime) return null;
+  const ms = new Date(isoTime).getTime();
+  return isNaN(ms) ? null : ms;
 }
 
 /**
- * Score each hour of the day based on fishing conditions
- * Returns array of hour scores from 5 AM to 10 PM
+ * Distance in ms from `time` to the nearest daily occurrence of an event,
+ * so a sunrise or moon transit also counts on the following/preceding day
  */
-function scoreHoursOfDay(input: OptimalWindowInput): HourScore[] {
-  const sunriseHour = getHourFromIso(input.sunriseIso);
-  const sunsetHour = getHourFromIso(input.sunsetIso);
-  const highTideHour = getHourFromIso(input.highTideIso);
-  const lowTideHour = getHourFromIso(input.lowTideIso);
-  const moonTransitHour = getHourFromIso(input.moonTransitIso);
-  const moonIllumination = input.moonIllumination ?? 50;
+function msToRecurringEvent(time: number, eventMs: number | null, periodMs: number): number | null {
+  if (eventMs === null) return null;
+  const offset = ((time - eventMs) % periodMs + periodMs) % periodMs;
+  return Math.min(offset, periodMs - offset);
+}
 
-  const scores: HourScore[] = [];
+function minDistance(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Math.min(a, b);
+}
 
-  // Score hours from 5 AM to 10 PM (hours 5-22)
-  for (let hour = 5; hour <= 22; hour++) {
-    let score = 0;
+/**
+ * Collect tide extremes from the input, sorted by time
+ */
+function getInputTideExtremes(input: OptimalWindowInput): TideExtreme[] {
+  const extremes: TideExtreme[] = input.tideExtremes && input.tideExtremes.length > 0
+    ? input.tideExtremes
+    : [
+        ...(input.highTideIso ? [{ time: input.highTideIso, type: 'high' as const, height: 0 }] : []),
+        ...(input.lowTideIso ? [{ time: input.lowTideIso, type: 'low' as const, height: 0 }] : []),
+      ];
+
+  return extremes
+    .filter(e => parseIsoMs(e.time) !== null)
+    .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+}
+
+/**
+ * Tide stage at an instant from the surrounding extremes (±30 min of an extreme is slack)
+ */
+function getSlotTideStage(extremes: TideExtreme[], time: number): SlotTideStage {
+  if (extremes.length === 0) return null;
+
+  let previous: TideExtreme | null = null;
+  let next: TideExtreme | null = null;
+  for (const extreme of extremes) {
+    if (new Date(extreme.time).getTime() <= time) {
+      previous = extreme;
+    } else {
+      next = extreme;
+      break;
+    }
+  }
+
+  if (previous && time - new Date(previous.time).getTime() <= SLACK_MS) return 'slack';
+  if (next && new Date(next.time).getTime() - time <= SLACK_MS) return 'slack';
+
+  if (next && (previous || new Date(next.time).getTime() - time <= TIDE_EXTRAPOLATION_MS)) {
+    return next.type === 'high' ? 'flooding' : 'ebbing';
+  }
+  if (previous && time - new Date(previous.time).getTime() <= TIDE_EXTRAPOLATION_MS) {
+    return previous.type === 'high' ? 'ebbing' : 'flooding';
+  }
+  return null;
+}
+
+/**
+ * Zone for the input's day and display times; undefined means the machine's zone
+ */
+function getInputTimezone(input: OptimalWindowInput): string | undefined {
+  if (isValidTimezone(input.timezone)) return input.timezone;
+  return input.location ? getTimezoneForCoordinates(input.location.lat, input.location.lon) : undefined;
+}
+
+interface SlotMoonEvents {
+  transitMs: number | null;
+  underfootMs: number | null;
+  riseMs: number | null;
+  setMs: number | null;
+  illumination: number;
+}
+
+/**
+ * Moon events for the day: from the input when given, otherwise from the
+ * local ephemeris at the spot
+ */
+function getInputMoonEvents(input: OptimalWindowInput, dayStart: Date): SlotMoonEvents {
+  const hasMoonInput = [input.moonTransitIso, input.moonUnderfootIso, input.moonriseIso, input.moonsetIso]
+    .some(iso => iso != null);
+  const timezone = getInputTimezone(input);
+
+  if (!hasMoonInput && input.location && timezone) {
+    const { moon } = getDayEphemeris(input.location.lat, input.location.lon, new Date(dayStart.getTime() + 12 * HOUR_MS), { timezone });
+    return {
+      transitMs: parseIsoMs(moon.upperTransitISO),
+      underfootMs: parseIsoMs(moon.lowerTransitISO),
+      riseMs: parseIsoMs(moon.moonriseISO),
+      setMs: parseIsoMs(moon.moonsetISO),
+      illumination: input.moonIllumination ?? moon.illuminationPct,
+    };
+  }
+
+  return {
+    transitMs: parseIsoMs(input.moonTransitIso),
+    underfootMs: parseIsoMs(input.moonUnderfootIso),
+    riseMs: parseIsoMs(input.moonriseIso),
+    setMs: parseIsoMs(input.moonsetIso),
+    illumination: input.moonIllumination ?? 50,
+  };
+}
+
+/**
+ * Local midnight starting the day to score
+ */
+function getDayStart(input: OptimalWindowInput): Date {
+  const reference = input.date !== undefined
+    ? new Date(input.date)
+    : new Date(parseIsoMs(input.sunriseIso) ?? Date.now());
+  const dayStart = isNaN(reference.getTime()) ? new Date() : reference;
+  const timezone = getInputTimezone(input);
+  if (timezone) return new Date(startOfDayInTimezone(dayStart.getTime(), timezone));
+  dayStart.setHours(0, 0, 0, 0);
+  return dayStart;
+}
+
+/**
+ * Local midnight ending the day that starts at `dayStart`: 23 or 25 hours
+ * later on DST change days
+ */
+function getDayEnd(input: OptimalWindowInput, dayStart: Date): Date {
+  const timezone = getInputTimezone(input);
+  // Two hours past a 24-hour day is inside the next day whichever way the clocks moved
+  if (timezone) return new Date(startOfDayInTimezone(dayStart.getTime() + SOLAR_DAY_MS + 2 * HOUR_MS, timezone));
+  const dayEnd = new Date(dayStart);
+  dayEnd.setDate(dayEnd.getDate() + 1);
+  dayEnd.setHours(0, 0, 0, 0);
+  return dayEnd;
+}
+
+/** 15-minute slots from local midnight to the next */
+function slotsInDay(input: OptimalWindowInput, dayStart: Date): number {
+  return Math.round((getDayEnd(input, dayStart).getTime() - dayStart.getTime()) / SLOT_MS);
+}
+
+/**
+ * Score 15-minute slots from local midnight, running `extraSlots` past the
+ * next midnight so windows that start late can continue into the night
+ */
+function scoreSlotsOfDay(input: OptimalWindowInput, dayStart: Date, daySlots: number, extraSlots: number): OptimalWindowSlot[] {
+  const sunriseMs = parseIsoMs(input.sunriseIso);
+  const sunsetMs = parseIsoMs(input.sunsetIso);
+  const moon = getInputMoonEvents(input, dayStart);
+  const extremes = getInputTideExtremes(input);
+  const timezone = getInputTimezone(input);
+
+  const slots: OptimalWindowSlot[] = [];
+
+  for (let i = 0; i < daySlots + extraSlots; i++) {
+    const slotStart = dayStart.getTime() + i * SLOT_MS;
+    const mid = slotStart + SLOT_MS / 2;
+    const breakdown: Record<string, number> = {};
     const reasons: string[] = [];
+    const add = (factor: string, points: number, isReason = true) => {
+      breakdown[factor] = (breakdown[factor] ?? 0) + points;
+      if (isReason && !reasons.includes(factor)) reasons.push(factor);
+    };
+
+    const toSunrise = msToRecurringEvent(mid, sunriseMs, SOLAR_DAY_MS);
+    const toSunset = msToRecurringEvent(mid, sunsetMs, SOLAR_DAY_MS);
+    const toMajor = minDistance(
+      msToRecurringEvent(mid, moon.transitMs, LUNAR_DAY_MS),
+      msToRecurringEvent(mid, moon.underfootMs, LUNAR_DAY_MS)
+    );
+    const toMinor = minDistance(
+      msToRecurringEvent(mid, moon.riseMs, LUNAR_DAY_MS),
+      msToRecurringEvent(mid, moon.setMs, LUNAR_DAY_MS)
+    );
 
     // Dawn bonus (±1 hour of sunrise)
-    if (sunriseHour !== null && isWithinTimeWindow(hour, sunriseHour, 1)) {
-      score += 25;
-      reasons.push('dawn');
+    if (toSunrise !== null && toSunrise <= HOUR_MS) {
+      add('dawn', 25);
     }
 
     // Dusk bonus (±1 hour of sunset)
-    if (sunsetHour !== null && isWithinTimeWindow(hour, sunsetHour, 1)) {
-      score += 20;
-      reasons.push('dusk');
+    if (toSunset !== null && toSunset <= HOUR_MS) {
+      add('dusk', 20);
     }
 
-    // Solunar major period (±1 hour of moon transit)
-    if (moonTransitHour !== null && isWithinTimeWindow(hour, moonTransitHour, 1)) {
-      score += 30;
-      reasons.push('solunar major');
+    // Solunar major period (±1 hour of moon overhead or underfoot)
+    if (toMajor !== null && toMajor <= HOUR_MS) {
+      add('solunar major', 30);
       // Moon illumination amplifier
-      if (moonIllumination > 80) score += 5;
-      else if (moonIllumination > 50) score += 3;
+      if (moon.illumination > 80) add('moon illumination', 5, false);
+      else if (moon.illumination > 50) add('moon illumination', 3, false);
+    } else if (toMinor !== null && toMinor <= HOUR_MS / 2) {
+      // Solunar minor period (±30 minutes of moonrise or moonset)
+      add('solunar minor', 15);
     }
 
     // Tide stage alignment
-    if (highTideHour !== null && lowTideHour !== null) {
-      // Determine if this hour is flooding, ebbing, or slack
-      const isNearHighTide = Math.abs(hour - highTideHour) <= 0.5;
-      const isNearLowTide = Math.abs(hour - lowTideHour) <= 0.5;
-
-      if (isNearHighTide || isNearLowTide) {
-        // Slack water
-        if (input.speciesTidePreference === 'slack') {
-          score += 15;
-          reasons.push('slack tide');
-        }
-      } else {
-        // Determine flooding vs ebbing
-        let isFlooding = false;
-        if (highTideHour > lowTideHour) {
-          isFlooding = hour >= lowTideHour && hour < highTideHour;
-        } else {
-          isFlooding = hour < highTideHour || hour >= lowTideHour;
-        }
-
-        if (isFlooding && input.speciesTidePreference === 'flood') {
-          score += 20;
-          reasons.push('flood tide');
-        } else if (!isFlooding && input.speciesTidePreference === 'ebb') {
-          score += 20;
-          reasons.push('ebb tide');
-        } else if (isFlooding) {
-          score += 10; // General bonus for moving water
-          reasons.push('rising tide');
-        }
+    const stage = getSlotTideStage(extremes, mid);
+    if (stage === 'slack') {
+      if (input.speciesTidePreference === 'slack') {
+        add('slack tide', 15);
       }
+    } else if (stage === 'flooding' && input.speciesTidePreference === 'flood') {
+      add('flood tide', 20);
+    } else if (stage === 'ebbing' && input.speciesTidePreference === 'ebb') {
+      add('ebb tide', 20);
+    } else if (stage === 'flooding') {
+      add('rising tide', 10); // General bonus for moving water
     }
 
     // Species time preference bonus
-    if (input.speciesTimePreference === 'dawn' && sunriseHour !== null) {
-      if (isWithinTimeWindow(hour, sunriseHour, 2)) {
-        score += 10;
-      }
-    } else if (input.speciesTimePreference === 'dusk' && sunsetHour !== null) {
-      if (isWithinTimeWindow(hour, sunsetHour, 2)) {
-        score += 10;
-      }
+    if (input.speciesTimePreference === 'dawn' && toSunrise !== null) {
+      if (toSunrise <= 2 * HOUR_MS) add('time preference', 10, false);
+    } else if (input.speciesTimePreference === 'dusk' && toSunset !== null) {
+      if (toSunset <= 2 * HOUR_MS) add('time preference', 10, false);
     } else if (input.speciesTimePreference === 'night') {
-      if (hour >= 20 || hour < 6) {
-        score += 10;
-      }
+      if (isNightAt(mid, sunriseMs, sunsetMs, timezone)) add('time preference', 10, false);
     }
 
-    scores.push({ hour, score, reasons });
+    const score = Object.values(breakdown).reduce((sum, points) => sum + points, 0);
+    slots.push({ time: new Date(slotStart).toISOString(), score, reasons, breakdown });
   }
 
-  return scores;
+  return slots;
 }
 
 /**
- * Find the best 3-hour contiguous window
+ * Whether an instant is dark: between sunset and sunrise when known,
+ * otherwise 8 PM to 6 AM in the spot (or device) timezone
  */
-function findBestWindow(scores: HourScore[]): { startHour: number; endHour: number; totalScore: number; peakReasons: string[] } {
-  let bestStart = 5;
-  let bestScore = 0;
-  let bestReasons: string[] = [];
-
-  for (let i = 0; i <= scores.length - 3; i++) {
-    const windowScore = scores[i].score + scores[i + 1].score + scores[i + 2].score;
-    if (windowScore > bestScore) {
-      bestScore = windowScore;
-      bestStart = scores[i].hour;
-      // Collect unique reasons from the window
-      const allReasons = [...scores[i].reasons, ...scores[i + 1].reasons, ...scores[i + 2].reasons];
-      bestReasons = [...new Set(allReasons)];
-    }
+function isNightAt(time: number, sunriseMs: number | null, sunsetMs: number | null, timezone?: string): boolean {
+  if (sunriseMs !== null && sunsetMs !== null) {
+    const sinceSunset = ((time - sunsetMs) % SOLAR_DAY_MS + SOLAR_DAY_MS) % SOLAR_DAY_MS;
+    const sunsetToSunrise = ((sunriseMs - sunsetMs) % SOLAR_DAY_MS + SOLAR_DAY_MS) % SOLAR_DAY_MS;
+    return sinceSunset < sunsetToSunrise;
   }
-
-  return {
-    startHour: bestStart,
-    endHour: bestStart + 3,
-    totalScore: bestScore,
-    peakReasons: bestReasons,
-  };
+  const hour = timezone ? getHourInTimezone(time, timezone) : new Date(time).getHours();
+  return hour >= 20 || hour < 6;
 }
 
 /**
- * Format hour to display string (e.g., "6:30 AM")
+ * Rank non-overlapping windows by total slot score, best first.
+ * Windows may start at any of the day's `daySlots` slots and run past midnight.
  */
-function formatHourDisplay(hour: number): string {
-  const period = hour >= 12 ? 'PM' : 'AM';
-  const displayHour = hour > 12 ? hour - 12 : hour === 0 ? 12 : hour;
-  return `${displayHour}:00 ${period}`;
+function rankWindows(
+  slots: OptimalWindowSlot[],
+  daySlots: number,
+  windowSlots: number,
+  maxWindows: number
+): Array<{ startIndex: number; total: number }> {
+  const candidates: Array<{ startIndex: number; total: number }> = [];
+  let total = slots.slice(0, windowSlots).reduce((sum, s) => sum + s.score, 0);
+  for (let i = 0; i < daySlots && i + windowSlots <= slots.length; i++) {
+    if (i > 0) total += slots[i + windowSlots - 1].score - slots[i - 1].score;
+    if (total > 0) candidates.push({ startIndex: i, total });
+  }
+
+  // Highest total first; ties go to the earlier start
+  candidates.sort((a, b) => b.total - a.total || a.startIndex - b.startIndex);
+
+  const picked: Array<{ startIndex: number; total: number }> = [];
+  for (const candidate of candidates) {
+    if (picked.length >= maxWindows) break;
+    const overlaps = picked.some(p => Math.abs(p.startIndex - candidate.startIndex) < windowSlots);
+    if (!overlaps) picked.push(candidate);
+  }
+  return picked;
 }
 
 /**
@@ -787,7 +931,7 @@ function formatHourDisplay(hour: number): string {
 function generateWindowReason(reasons: string[]): string {
   if (reasons.length === 0) return 'Best available window';
 
-  const priorityOrder = ['dawn', 'dusk', 'solunar major', 'flood tide', 'ebb tide', 'slack tide', 'rising tide'];
+  const priorityOrder = ['dawn', 'dusk', 'solunar major', 'solunar minor', 'flood tide', 'ebb tide', 'slack tide', 'rising tide'];
   const sortedReasons = reasons.sort((a, b) => {
     const aIndex = priorityOrder.indexOf(a);
     const bIndex = priorityOrder.indexOf(b);
@@ -817,22 +961,81 @@ function capitalizeFirst(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
 }
 
+function formatDuration(hours: number): string {
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+/**
+ * Rank the day's fishing windows in 15-minute resolution
+ * Each window carries its per-slot score breakdown
+ */
+export function rankOptimalWindows(input: OptimalWindowInput): RankedOptimalWindow[] {
+  const windowHours = input.windowHours ?? 3;
+  const windowSlots = Math.max(1, Math.round((windowHours * 60) / SLOT_MINUTES));
+  const dayStart = getDayStart(input);
+  const daySlots = slotsInDay(input, dayStart);
+  const slots = scoreSlotsOfDay(input, dayStart, daySlots, windowSlots);
+  const timezone = getInputTimezone(input);
+
+  return rankWindows(slots, daySlots, windowSlots, input.maxWindows ?? 3).map(({ startIndex, total }) => {
+    const windowSlotScores = slots.slice(startIndex, startIndex + windowSlots);
+    const startIso = windowSlotScores[0].time;
+    const endIso = new Date(new Date(startIso).getTime() + windowSlots * SLOT_MS).toISOString();
+    return {
+      start: formatTimeDisplay(startIso, timezone) ?? startIso,
+      end: formatTimeDisplay(endIso, timezone) ?? endIso,
+      startIso,
+      endIso,
+      score: Math.round((total / windowSlots) * 10) / 10,
+      reason: generateWindowReason([...new Set(windowSlotScores.flatMap(s => s.reasons))]),
+      slots: windowSlotScores,
+    };
+  });
+}
+
+/**
+ * Format the day's highs or lows for display (e.g., "7:15 AM, 7:40 PM")
+ */
+function formatDayTides(input: OptimalWindowInput, type: 'high' | 'low'): string | undefined {
+  const dayStart = getDayStart(input);
+  const dayEnd = getDayEnd(input, dayStart).getTime();
+  const timezone = getInputTimezone(input);
+  const times = getInputTideExtremes(input)
+    .filter(e => e.type === type)
+    .filter(e => {
+      const ms = new Date(e.time).getTime();
+      return ms >= dayStart.getTime() && ms < dayEnd;
+    })
+    .map(e => formatTimeDisplay(e.time, timezone))
+    .filter((t): t is string => t !== null);
+  return times.length > 0 ? times.join(', ') : undefined;
+}
+
 /**
  * Calculate optimal fishing window for the day
- * Uses solunar theory, tide times, and sunrise/sunset
+ * Uses solunar theory, tide times, and sunrise/sunset; the best ranked
+ * window is flattened into start/end and the full ranking is in `windows`
  */
 export function calculateOptimalWindow(input: OptimalWindowInput): OptimalWindow {
-  const scores = scoreHoursOfDay(input);
-  const best = findBestWindow(scores);
+  const windowHours = input.windowHours ?? 3;
+  const windows = rankOptimalWindows(input);
+  const best = windows[0];
+  const timezone = getInputTimezone(input);
+
+  // Nothing scored: fall back to a window starting at sunrise (or 6 AM)
+  const fallbackMs = parseIsoMs(input.sunriseIso) ?? getDayStart(input).getTime() + 6 * HOUR_MS;
+  const start = best?.start ?? formatTimeDisplay(new Date(fallbackMs).toISOString(), timezone) ?? '';
+  const end = best?.end ?? formatTimeDisplay(new Date(fallbackMs + windowHours * HOUR_MS).toISOString(), timezone) ?? '';
 
   return {
-    start: formatHourDisplay(best.startHour),
-    end: formatHourDisplay(best.endHour),
-    duration: '3 hours',
-    reason: generateWindowReason(best.peakReasons),
-    highTide: formatTimeDisplay(input.highTideIso) ?? undefined,
-    lowTide: formatTimeDisplay(input.lowTideIso) ?? undefined,
-    sunrise: formatTimeDisplay(input.sunriseIso) ?? undefined,
-    sunset: formatTimeDisplay(input.sunsetIso) ?? undefined,
+    start,
+    end,
+    duration: formatDuration(windowHours),
+    reason: best?.reason ?? 'Best available window',
+    highTide: formatDayTides(input, 'high') ?? formatTimeDisplay(input.highTideIso, timezone) ?? undefined,
+    lowTide: formatDayTides(input, 'low') ?? formatTimeDisplay(input.lowTideIso, timezone) ?? undefined,
+    sunrise: formatTimeDisplay(input.sunriseIso, timezone) ?? undefined,
+    sunset: formatTimeDisplay(input.sunsetIso, timezone) ?? undefined,
+    windows,
   };
 }
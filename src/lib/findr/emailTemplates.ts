@@ -4,6 +4,8 @@
  * Daily digest format - one email per user with all species alerts
  */
 
+import type { ScoreBreakdown, ScoreFactor } from '../predictions/biogeochemicalEnhancer';
+
 export interface EmailSpeciesAlert {
   speciesName: string;
   confidence: number;
@@ -566,6 +568,7 @@ export interface DailyTopSpecies {
   baits: string[];            // ["Sandeel", "Mackerel strips"]
   technique: string;          // "Spinning"
   tideAdvice: string;         // "Flood tide preferred"
+  scoreBreakdown?: ScoreBreakdown; // From enhancePrediction, rendered as "Why this score"
 }
 
 /** Alternative species for daily digest (compact) */
@@ -575,16 +578,36 @@ export interface DailyAlternativeSpecies {
   guild?: Guild;
 }
 
+/** One 15-minute slot of an optimal window breakdown */
+export interface OptimalWindowSlot {
+  time: string;               // ISO start of the slot
+  score: number;
+  reasons: string[];          // ["dawn", "flood tide"]
+  breakdown: Record<string, number>; // points per factor, e.g. { dawn: 25, 'flood tide': 20 }
+}
+
+/** A scored window in the ranked list */
+export interface RankedOptimalWindow {
+  start: string;              // "6:30 AM"
+  end: string;                // "9:30 AM"
+  startIso: string;
+  endIso: string;
+  score: number;              // mean slot score
+  reason: string;             // "Dawn + tide alignment"
+  slots: OptimalWindowSlot[];
+}
+
 /** Optimal fishing window for the day */
 export interface OptimalWindow {
   start: string;              // "6:30 AM"
   end: string;                // "9:30 AM"
   duration: string;           // "3 hours"
   reason: string;             // "Dawn + tide alignment"
-  highTide?: string;          // "7:15 AM"
+  highTide?: string;          // "7:15 AM" or "7:15 AM, 7:40 PM"
   lowTide?: string;           // "1:30 PM"
   sunrise?: string;           // "6:42 AM"
   sunset?: string;            // "4:58 PM"
+  windows?: RankedOptimalWindow[]; // Best first; windows[0] matches start/end
 }
 
 /** Conditions snapshot for daily digest (compact) */
@@ -1249,6 +1272,61 @@ function renderBiteScoreMeter(score: number): string {
     </table>`;
 }
 
+/**
+ * Format a score factor's input value with its unit
+ */
+function formatFactorValue(factor: ScoreFactor): string {
+  if (factor.value === null) return 'no data';
+  if (typeof factor.value === 'string') return factor.value;
+  const digits = factor.key === 'water_clarity_kd490' || factor.key === 'phosphate_umol_l' ? 2 : 1;
+  return `${factor.value.toFixed(digits)}${factor.unit ? ` ${factor.unit}` : ''}`;
+}
+
+/**
+ * Format where a factor's data came from, e.g. "copernicus · 6h old"
+ */
+function formatFactorSource(factor: ScoreFactor): string {
+  const parts = [factor.source, factor.age_hours !== null ? `${Math.round(factor.age_hours)}h old` : null];
+  return parts.filter(Boolean).join(' · ');
+}
+
+/**
+ * Generate "Why this score" breakdown (factors, multiplier steps and hint)
+ */
+function renderScoreBreakdown(breakdown: ScoreBreakdown): string {
+  const rows = breakdown.factors.map(factor => {
+    const source = formatFactorSource(factor);
+    const points = factor.points > 0 ? `+${factor.points}` : `${factor.points}`;
+    return `<tr>
+      <td style="padding: 6px 0; border-bottom: 1px solid #f1f5f9;">
+        <p style="margin: 0; font-size: 13px; font-weight: 600; color: #334155;">${factor.label}</p>
+        <p style="margin: 2px 0 0; font-size: 11px; color: #94a3b8;">${formatFactorValue(factor)} · ${factor.band.replace(/_/g, ' ')}${source ? ` · ${source}` : ''}</p>
+      </td>
+      <td style="width: 80px; padding: 6px 0; border-bottom: 1px solid #f1f5f9; text-align: right; vertical-align: top;">
+        <span style="font-size: 12px; color: #64748b;">${factor.index}</span>
+        <span style="font-size: 13px; font-weight: 600; color: ${factor.value === null ? '#94a3b8' : '#0d9488'};"> ${points}</span>
+      </td>
+    </tr>`;
+  }).join('');
+
+  const steps = breakdown.multiplier_steps
+    .filter(step => step.delta !== 0)
+    .map(step => `${step.index} ${step.delta > 0 ? '+' : ''}${step.delta.toFixed(2)}`)
+    .join(' · ');
+
+  return `
+    <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 12px; border: 1px solid #e2e8f0;">
+      <tr>
+        <td style="padding: 16px;">
+          <p style="margin: 0 0 8px; font-size: 13px; font-weight: 600; color: #64748b; text-transform: uppercase; letter-spacing: 1px;">Why This Score</p>
+          <p style="margin: 0 0 8px; font-size: 14px; color: #334155;"><strong>${breakdown.overall_multiplier.toFixed(2)}×</strong>${steps ? ` <span style="font-size: 12px; color: #94a3b8;">(${steps})</span>` : ''}</p>
+          <table width="100%" cellpadding="0" cellspacing="0">${rows}</table>
+          ${breakdown.what_would_change ? `<p style="margin: 12px 0 0; font-size: 13px; color: #0f172a; background-color: #fef3c7; border-radius: 8px; padding: 10px 12px;">💡 ${breakdown.what_would_change.message}</p>` : ''}
+        </td>
+      </tr>
+    </table>`;
+}
+
 /**
  * Wave SVG pattern for header (email-safe inline)
  */
@@ -1395,6 +1473,15 @@ export function generateDailyDigestHTMLV2(data: DailyDigestDataV2): string {
             </td>
           </tr>
 
+          ${topSpecies.scoreBreakdown ? `
+          <!-- WHY THIS SCORE -->
+          <tr>
+            <td style="padding: 0 32px 24px;">
+              ${renderScoreBreakdown(topSpecies.scoreBreakdown)}
+            </td>
+          </tr>
+          ` : ''}
+
           <!-- OPTIMAL WINDOW - Clean modern card -->
           <tr>
             <td style="padding: 0 32px 24px;">
@@ -1410,6 +1497,7 @@ export function generateDailyDigestHTMLV2(data: DailyDigestDataV2): string {
                           <p style="margin: 0 0 4px; font-size: 12px; color: #94a3b8; text-transform: uppercase; letter-spacing: 1px;">Best Time to Fish</p>
                           <p style="margin: 0; font-size: 28px; font-weight: 700; color: #ffffff;">${optimalWindow.start} – ${optimalWindow.end}</p>
                           <p style="margin: 4px 0 0; font-size: 14px; color: #cbd5e1;">${optimalWindow.duration} window • ${optimalWindow.reason}</p>
+                          ${optimalWindow.windows && optimalWindow.windows.length > 1 ? `<p style="margin: 6px 0 0; font-size: 12px; color: #94a3b8;">Also good: ${optimalWindow.windows.slice(1).map(w => `${w.start} – ${w.end}`).join(', ')}</p>` : ''}
                         </td>
                       </tr>
                     </table>
@@ -1616,12 +1704,20 @@ ${greeting}, here's your fishing opportunity for today:
 🪱 Baits: ${topSpecies.baits.join(', ')}
 🎯 Technique: ${topSpecies.technique}
 🌊 Tide: ${topSpecies.tideAdvice}
-
+${topSpecies.scoreBreakdown ? `
+🔍 Why this score (${topSpecies.scoreBreakdown.overall_multiplier.toFixed(2)}×):
+${topSpecies.scoreBreakdown.factors.map(factor => {
+  const source = formatFactorSource(factor);
+  return `• ${factor.label}: ${formatFactorValue(factor)} (${factor.band.replace(/_/g, ' ')}, ${factor.points > 0 ? '+' : ''}${factor.points} ${factor.index})${source ? ` [${source}]` : ''}`;
+}).join('\n')}
+${topSpecies.scoreBreakdown.what_would_change ? `💡 ${topSpecies.scoreBreakdown.what_would_change.message}` : ''}
+` : ''}
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 ⏰ OPTIMAL WINDOW
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 >>> ${optimalWindow.start} - ${optimalWindow.end} (${optimalWindow.duration}) <<<
+${optimalWindow.windows && optimalWindow.windows.length > 1 ? `Also good: ${optimalWindow.windows.slice(1).map(w => `${w.start} - ${w.end}`).join(', ')}` : ''}
 
 ${optimalWindow.sunrise ? `☀️ Sunrise: ${optimalWindow.sunrise}` : ''}
 ${optimalWindow.highTide ? `🌊 High tide: ${optimalWindow.highTide}` : ''}
@@ -0,0 +1,145 @@
+/**
+ * Tests for the hourly disease models
+ */
+
+import {
+  DISEASE_ADVICE,
+  botrytisInfectionProbability,
+  calculatePowderyMildewIndex,
+  detectBotrytisPeriods,
+  detectHuttonPeriods,
+  detectSmithPeriods,
+} from '../diseaseModels';
+import { analyzeWeatherForTasks, type HourlyWeather, type UserPlant } from '../weatherTaskEngine';
+
+/**
+ * Hourly series from per-day settings: `humidHours` hours at 95% RH from
+ * midnight, the rest at 70%, temperatures swinging between min and max
+ */
+function days(
+  start: string,
+  settings: Array<{ min: number; max: number; humidHours: number; rain?: number }>
+): HourlyWeather[] {
+  const hours: HourlyWeather[] = [];
+  settings.forEach((day, d) => {
+    const date = new Date(Date.parse(`${start}T00:00:00Z`) + d * 86400000).toISOString().slice(0, 10);
+    for (let h = 0; h < 24; h++) {
+      const swing = (1 - Math.cos(((h - 4) / 24) * 2 * Math.PI)) / 2;
+      hours.push({
+        time: `${date}T${String(h).padStart(2, '0')}:00`,
+        temp: day.min + (day.max - day.min) * swing,
+        humidity: h < day.humidHours ? 95 : 70,
+        precipitation: h < day.humidHours ? day.rain ?? 0 : 0,
+      });
+    }
+  });
+  return hours;
+}
+
+const TOMATO: UserPlant = {
+  id: 'p1',
+  plantName: 'Tomato',
+  plantSlug: 'tomato',
+  frostTolerance: 'tender',
+  waterNeeds: 'medium',
+};
+
+describe('lib/grow/diseaseModels', () => {
+  it('finds a Hutton period but no Smith period on 8 humid hours a day', () => {
+    const hourly = days('2025-07-01', [
+      { min: 12, max: 19, humidHours: 8 },
+      { min: 12, max: 19, humidHours: 8 },
+      { min: 6, max: 17, humidHours: 8 },
+    ]);
+
+    const hutton = detectHuttonPeriods(hourly);
+    expect(hutton).toHaveLength(1);
+    expect(hutton[0].risk).toBe('high');
+    expect(hutton[0].startTime).toBe('2025-07-01T00:00');
+    expect(hutton[0].endTime).toBe('2025-07-02T23:00');
+    expect(hutton[0].criteria.every(c => c.met)).toBe(true);
+    expect(detectSmithPeriods(hourly)).toHaveLength(0);
+  });
+
+  it('splits days on the local date when the times are UTC', () => {
+    // Auckland is UTC+12 in July: local midnight is noon UTC the day before
+    const utc = days('2025-07-01', [
+      { min: 12, max: 19, humidHours: 8 },
+      { min: 12, max: 19, humidHours: 8 },
+    ]).map(hour => ({ ...hour, time: new Date(Date.parse(`${hour.time}:00+12:00`)).toISOString() }));
+
+    // Read as UTC dates, only one full day is left
+    expect(detectHuttonPeriods(utc)).toHaveLength(0);
+    const [hutton] = detectHuttonPeriods(utc, { timeZone: 'Pacific/Auckland' });
+    expect(hutton.risk).toBe('high');
+    expect(hutton.startTime).toBe('2025-06-30T12:00:00.000Z');
+    expect(hutton.summary).toContain('2025-07-01 to 2025-07-02');
+  });
+
+  it('reports a near miss and rejects cold nights', () => {
+    const nearMiss = detectHuttonPeriods(days('2025-07-01', [
+      { min: 12, max: 19, humidHours: 7 },
+      { min: 12, max: 19, humidHours: 5 },
+    ]));
+    expect(nearMiss).toHaveLength(1);
+    expect(nearMiss[0].risk).toBe('moderate');
+
+    const cold = detectHuttonPeriods(days('2025-07-01', [
+      { min: 9, max: 19, humidHours: 12 },
+      { min: 12, max: 19, humidHours: 12 },
+    ]));
+    expect(cold).toHaveLength(0);
+  });
+
+  it('meets the Smith Period on long humid spells', () => {
+    const smith = detectSmithPeriods(days('2025-07-01', [
+      { min: 11, max: 18, humidHours: 12 },
+      { min: 11, max: 18, humidHours: 11 },
+    ]));
+    expect(smith).toHaveLength(1);
+    expect(smith[0].risk).toBe('high');
+  });
+
+  it('builds the powdery mildew index over a warm spell', () => {
+    const warm = Array.from({ length: 6 }, () => ({ min: 17, max: 29, humidHours: 0 }));
+    const index = calculatePowderyMildewIndex(days('2025-07-01', warm));
+
+    expect(index.map(d => d.index)).toEqual([0, 0, 60, 80, 100, 100]);
+  });
+
+  it('scores botrytis from wetness duration and temperature', () => {
+    expect(botrytisInfectionProbability(24, 20)).toBeGreaterThan(0.5);
+    expect(botrytisInfectionProbability(4, 10)).toBeLessThan(0.05);
+
+    const periods = detectBotrytisPeriods(days('2025-06-01', [
+      { min: 17, max: 20, humidHours: 16, rain: 1 },
+      { min: 17, max: 24, humidHours: 0 },
+    ]));
+    expect(periods).toHaveLength(1);
+    expect(periods[0].criteria[0].value).toBe(16);
+  });
+
+  it('replaces the daily blight rule when hourly data is given', () => {
+    const hourly = days('2025-07-01', [
+      { min: 12, max: 19, humidHours: 12 },
+      { min: 12, max: 19, humidHours: 12 },
+    ]);
+    const forecast = [{
+      date: '2025-07-01', tempMin: 12, tempMax: 19, humidity: 60, precipitation: 0,
+      precipProbability: 0, windSpeed: 5, windGust: 10, uvIndex: 4, description: 'cloudy',
+    }];
+    const soil = {
+      temp0cm: 16, temp6cm: 15, temp18cm: 14, temp54cm: 13,
+      moisture0to1cm: 0.3, moisture1to3cm: 0.3, moisture3to9cm: 0.3, moisture9to27cm: 0.3,
+    };
+
+    const daily = analyzeWeatherForTasks(forecast, soil, [TOMATO]);
+    expect(daily.alerts.some(a => a.type === 'late_blight')).toBe(false);
+
+    const blight = analyzeWeatherForTasks(forecast, soil, [TOMATO], [], hourly).alerts.find(a => a.type === 'late_blight');
+    expect(blight?.severity).toBe('critical');
+    expect(blight?.affectedPlantIds).toEqual(['p1']);
+    expect(blight?.message).toContain('Smith Period');
+    expect(blight?.suggestedAction).toBe(DISEASE_ADVICE.late_blight.high);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for the FAO-56 soil water balance
+ */
+
+import {
+  WaterBalanceError,
+  calculateBedWaterBalance,
+  irrigationFromMutations,
+  referenceEvapotranspiration,
+  type GardenBed,
+  type WaterBalanceWeather,
+} from '../soilWaterBalance';
+import { analyzeWeatherForTasks, type UserPlant } from '../weatherTaskEngine';
+
+const TOMATO: UserPlant = {
+  id: 'p1',
+  plantName: 'Tomato',
+  plantSlug: 'tomato',
+  frostTolerance: 'tender',
+  waterNeeds: 'medium',
+};
+
+const LETTUCE: UserPlant = {
+  id: 'p2',
+  plantName: 'Lettuce',
+  plantSlug: 'lettuce',
+  frostTolerance: 'hardy',
+  waterNeeds: 'medium',
+};
+
+const BED: GardenBed = { id: 'b1', name: 'Veg bed', areaM2: 4, plants: [TOMATO, LETTUCE] };
+
+/** A dry, sunny July run starting on the 1st */
+function summer(count: number, rain: Record<number, number> = {}): WaterBalanceWeather[] {
+  return Array.from({ length: count }, (_, i) => ({
+    date: `2025-07-${String(i + 1).padStart(2, '0')}`,
+    tempMin: 14,
+    tempMax: 26,
+    precipitation: rain[i] ?? 0,
+    humidity: 60,
+    windSpeed: 12,
+    solarRadiation: 24,
+  }));
+}
+
+describe('lib/grow/soilWaterBalance', () => {
+  it('matches the FAO-56 Penman-Monteith example and falls back to Hargreaves', () => {
+    // Example 18: Brussels, 6 July, ea = 1.409 kPa
+    const dewPoint = 12.0;
+    const pm = referenceEvapotranspiration({
+      date: '2025-07-06', tempMin: 12.3, tempMax: 21.5, precipitation: 0,
+      dewPoint, windSpeed: 10, solarRadiation: 22.07,
+    }, 50.8, 100);
+    expect(pm.method).toBe('penman-monteith');
+    expect(pm.et0).toBeCloseTo(3.9, 1);
+
+    const hargreaves = referenceEvapotranspiration({ date: '2025-07-06', tempMin: 12.3, tempMax: 21.5, precipitation: 0 }, 50.8, 100);
+    expect(hargreaves.method).toBe('hargreaves');
+    expect(hargreaves.et0).toBeGreaterThan(3);
+    expect(hargreaves.et0).toBeLessThan(5);
+  });
+
+  it('dries the root zone out and says when and how much to water', () => {
+    const balance = calculateBedWaterBalance(BED, summer(10), [], { latitude: 51.5, today: '2025-07-01' });
+
+    // Lettuce sets the shallow roots and low p
+    expect(balance.rootDepthM).toBe(0.3);
+    expect(balance.kc).toBe(1.08);
+    expect(balance.waterOn).toBe('2025-07-03');
+    expect(balance.litresPerM2).toBeGreaterThan(balance.days[2].raw);
+    expect(balance.totalLitres).toBe(balance.litresPerM2 * 4);
+    expect(balance.reason).toBe(`Water ${balance.litresPerM2} litres per m² on 2025-07-03`);
+  });
+
+  it('holds off when rain the next day will refill the bed', () => {
+    const balance = calculateBedWaterBalance(BED, summer(10, { 3: 25 }), [], { latitude: 51.5, today: '2025-07-01' });
+
+    expect(balance.days[3].depletion).toBe(0);
+    expect(balance.waterOn).not.toBe('2025-07-03');
+  });
+
+  it('counts logged waterings, with or without an amount', () => {
+    const at = (day: number, payload: Record<string, unknown>) => ({
+      type: 'LOG_WATERING' as const, payload, timestamp: Date.UTC(2025, 6, day, 19),
+    });
+    const irrigation = irrigationFromMutations([
+      at(3, { bedId: 'b1', litres: 20 }),
+      at(6, { plantId: 'p1' }),
+      at(6, { plantId: 'other', litres: 100 }),
+    ]);
+    expect(irrigation).toEqual([
+      { date: '2025-07-03', litres: 20, bedId: 'b1', plantId: undefined },
+      { date: '2025-07-06', litres: undefined, bedId: undefined, plantId: 'p1' },
+      { date: '2025-07-06', litres: 100, bedId: undefined, plantId: 'other' },
+    ]);
+
+    const balance = calculateBedWaterBalance(BED, summer(10), irrigation, { latitude: 51.5, today: '2025-07-08' });
+    // 20 litres over 4 m² is 5 mm; a soak with no amount refills the root zone
+    expect(balance.days[2].irrigation).toBe(5);
+    expect(balance.days[5].depletion).toBe(0);
+    expect(balance.days[5].irrigation).toBeGreaterThan(0);
+  });
+
+  it('rejects beds without a positive area', () => {
+    const run = (areaM2: number) => () =>
+      calculateBedWaterBalance({ ...BED, areaM2 }, summer(3), [], { latitude: 51.5, today: '2025-07-02' });
+    expect(run(0)).toThrow(WaterBalanceError);
+    expect(run(-2)).toThrow(WaterBalanceError);
+    expect(run(NaN)).toThrow('needs an area above 0');
+  });
+
+  it('drives the watering recommendation from the balance', () => {
+    const weather = summer(5);
+    const forecast = weather.map(d => ({
+      ...d, humidity: 60, precipProbability: 0, windSpeed: 12, windGust: 20, uvIndex: 6, description: 'sunny',
+    }));
+    const soil = {
+      temp0cm: 20, temp6cm: 18, temp18cm: 16, temp54cm: 14,
+      moisture0to1cm: 0.1, moisture1to3cm: 0.1, moisture3to9cm: 0.1, moisture9to27cm: 0.1,
+    };
+    const balance = calculateBedWaterBalance(BED, weather, [], { latitude: 51.5, today: '2025-07-01' });
+
+    const { wateringRecommendation } = analyzeWeatherForTasks(forecast, soil, [TOMATO, LETTUCE], [], undefined, balance);
+    expect(wateringRecommendation.shouldWater).toBe(false);
+    expect(wateringRecommendation.nextWateringDate).toBe('2025-07-03');
+    expect(wateringRecommendation.reason).toContain('litres per m²');
+  });
+});
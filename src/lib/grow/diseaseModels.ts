@@ -0,0 +1,402 @@
+/**
+ * Hourly Disease Models
+ *
+ * Infection-risk models that work on hourly weather, as used by growers and
+ * advisory services, rather than the daily rules of thumb in the task engine:
+ *
+ * - Hutton Criteria (late blight, UK since 2017): two consecutive days each
+ *   with a minimum of 10°C and at least 6 hours of relative humidity ≥ 90%
+ * - Smith Period (late blight, the older UK standard): as Hutton but needing
+ *   11 hours of humidity ≥ 90% on each day
+ * - Gubler-Thomas risk index (powdery mildew): daily points for 6+ hours
+ *   at 21-30°C, lost on cooler or very hot days
+ * - Broome et al. (1995) wetness model (botrytis grey mould): infection
+ *   probability from leaf wetness duration and mean temperature while wet
+ *
+ * Each returns risk periods with their start and end times and the criteria
+ * behind them, so the caller can explain the alert. The day-based models
+ * split hours on the local date: pass `timeZone` when the times carry an
+ * offset (e.g. UTC `...Z`); without it each time's own date is used, so
+ * offset-less local times (Open-Meteo with `timezone=auto`) need nothing.
+ *
+ * @module lib/grow/diseaseModels
+ */
+
+import { getTimezoneOffsetMinutes } from '../date/timezone';
+import type { HourlyWeather } from './weatherTaskEngine';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type DiseaseModel = 'hutton' | 'smith_period' | 'powdery_mildew_index' | 'botrytis_wetness';
+
+export type ModelledDisease = 'late_blight' | 'powdery_mildew' | 'botrytis';
+
+export interface DiseaseCriterion {
+  name: string;
+  value: number;
+  threshold: number;
+  unit: string;
+  met: boolean;
+}
+
+export interface DiseaseRiskPeriod {
+  model: DiseaseModel;
+  disease: ModelledDisease;
+  /** 'high' when the model's criteria are fully met, 'moderate' for a near miss */
+  risk: 'moderate' | 'high';
+  /** First and last hour of the period, as given in the input */
+  startTime: string;
+  endTime: string;
+  /** Headline figure: humid hours on the weakest day (blight), peak index (mildew) or infection % (botrytis) */
+  value: number;
+  criteria: DiseaseCriterion[];
+  summary: string;
+}
+
+export interface DiseaseModelOptions {
+  /** IANA zone whose calendar days the models use, for times with an offset */
+  timeZone?: string;
+}
+
+interface DaySummary {
+  date: string;
+  hours: HourlyWeather[];
+  minTemp: number;
+  humidHours: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Two full days of hours: the least the consecutive-day blight criteria can judge */
+export const MIN_HOURLY_READINGS = 48;
+
+const HUMID_RH = 90;
+const BLIGHT_MIN_TEMP = 10;
+const HUTTON_HUMID_HOURS = 6;
+const SMITH_HUMID_HOURS = 11;
+/** Days with fewer readings than this are too patchy to judge */
+const MIN_HOURS_PER_DAY = 20;
+
+const MILDEW_MIN_TEMP = 21;
+const MILDEW_MAX_TEMP = 30;
+const MILDEW_LETHAL_TEMP = 35;
+const MILDEW_HIGH_INDEX = 60;
+const MILDEW_MODERATE_INDEX = 40;
+
+const BOTRYTIS_MIN_WET_HOURS = 4;
+const BOTRYTIS_HIGH = 0.5;
+const BOTRYTIS_MODERATE = 0.15;
+
+/** What to do about each modelled disease, by risk; used by task engine alerts and local signals alike */
+export const DISEASE_ADVICE: Record<ModelledDisease, Record<DiseaseRiskPeriod['risk'], string>> = {
+  late_blight: {
+    high: 'Apply copper-based fungicide immediately. Improve air circulation. Remove lower leaves touching soil.',
+    moderate: 'Inspect plants for brown lesions. Consider preventive copper spray. Avoid overhead watering.',
+  },
+  powdery_mildew: {
+    high: 'Apply sulfur-based fungicide or milk spray (1:10 ratio). Remove affected leaves.',
+    moderate: 'Improve air circulation. Water at soil level, not on leaves. Monitor for white patches.',
+  },
+  botrytis: {
+    high: 'Remove dead or decaying material. Increase spacing for airflow. Avoid wetting leaves when watering.',
+    moderate: 'Remove dead or decaying material. Increase spacing for airflow. Avoid wetting leaves when watering.',
+  },
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Local date of an hour: in `timeZone` for times with an offset, else the date as written */
+function dateOf(hour: HourlyWeather, timeZone?: string): string {
+  if (!timeZone || !/(Z|[+-]\d{2}:?\d{2})$/.test(hour.time)) return hour.time.slice(0, 10);
+  const ms = Date.parse(hour.time);
+  return new Date(ms + getTimezoneOffsetMinutes(timeZone, ms) * 60000).toISOString().slice(0, 10);
+}
+
+function summariseDays(hours: HourlyWeather[], timeZone?: string): DaySummary[] {
+  const byDate = new Map<string, HourlyWeather[]>();
+  for (const hour of hours) {
+    if (!Number.isFinite(hour.temp) || !Number.isFinite(hour.humidity)) continue;
+    const date = dateOf(hour, timeZone);
+    const list = byDate.get(date) ?? [];
+    list.push(hour);
+    byDate.set(date, list);
+  }
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayHours]) => ({
+      date,
+      hours: dayHours,
+      minTemp: Math.min(...dayHours.map(h => h.temp)),
+      humidHours: dayHours.filter(h => h.humidity >= HUMID_RH).length,
+    }));
+}
+
+function isNextDay(a: string, b: string): boolean {
+  return Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`) === 86400000;
+}
+
+/**
+ * Whether foliage is wet in an hour: sensor reading when present (30+ minutes
+ * counts), otherwise rain or humidity at the saturation threshold
+ */
+export function isLeafWet(hour: HourlyWeather): boolean {
+  if (typeof hour.leafWetness === 'number') return hour.leafWetness >= 30;
+  return (hour.precipitation ?? 0) >= 0.1 || hour.humidity >= HUMID_RH;
+}
+
+// =============================================================================
+// LATE BLIGHT: HUTTON CRITERIA AND SMITH PERIODS
+// =============================================================================
+
+/**
+ * Consecutive-day blight criteria shared by Hutton and Smith. A period needs
+ * two qualifying days in a row; runs of three or more merge into one period.
+ * A near miss is one qualifying day next to a day that reaches the
+ * temperature but falls an hour short on humidity.
+ */
+function detectBlightPeriods(
+  hours: HourlyWeather[],
+  model: 'hutton' | 'smith_period',
+  requiredHumidHours: number,
+  options: DiseaseModelOptions
+): DiseaseRiskPeriod[] {
+  const label = model === 'hutton' ? 'Hutton Criteria' : 'Smith Period';
+  const days = summariseDays(hours, options.timeZone).filter(d => d.hours.length >= MIN_HOURS_PER_DAY);
+  const status = days.map(d => {
+    if (d.minTemp < BLIGHT_MIN_TEMP) return 'none' as const;
+    if (d.humidHours >= requiredHumidHours) return 'full' as const;
+    return d.humidHours >= requiredHumidHours - 1 ? 'near' as const : 'none' as const;
+  });
+
+  const periods: DiseaseRiskPeriod[] = [];
+  let i = 0;
+  while (i < days.length - 1) {
+    // Extend the run while each day is consecutive and at least a near miss
+    let j = i;
+    while (j + 1 < days.length && status[j + 1] !== 'none' && isNextDay(days[j].date, days[j + 1].date)) j++;
+    if (status[i] === 'none' || j === i) {
+      i++;
+      continue;
+    }
+
+    const run = days.slice(i, j + 1);
+    const runStatus = status.slice(i, j + 1);
+    const fullPair = runStatus.some((s, k) => s === 'full' && runStatus[k + 1] === 'full');
+    if (runStatus.includes('full')) {
+      const risk = fullPair ? 'high' : 'moderate';
+      const first = run[0];
+      const last = run[run.length - 1];
+      const minTemp = Math.min(...run.map(d => d.minTemp));
+      const fewestHumid = Math.min(...run.map(d => d.humidHours));
+      periods.push({
+        model,
+        disease: 'late_blight',
+        risk,
+        startTime: first.hours[0].time,
+        endTime: last.hours[last.hours.length - 1].time,
+        value: fewestHumid,
+        criteria: [
+          { name: 'Minimum temperature', value: minTemp, threshold: BLIGHT_MIN_TEMP, unit: '°C', met: minTemp >= BLIGHT_MIN_TEMP },
+          { name: `Hours with humidity ≥${HUMID_RH}% (lowest day)`, value: fewestHumid, threshold: requiredHumidHours, unit: 'h', met: fewestHumid >= requiredHumidHours },
+          { name: 'Consecutive days', value: run.length, threshold: 2, unit: 'days', met: fullPair },
+        ],
+        summary: fullPair
+          ? `${label} met ${first.date} to ${last.date}: minimum ${minTemp.toFixed(0)}°C and at least ${fewestHumid}h of humidity ≥${HUMID_RH}% each day.`
+          : `${label} near miss ${first.date} to ${last.date}: one day fell short with ${fewestHumid}h of humidity ≥${HUMID_RH}%.`,
+      });
+    }
+    i = j + 1;
+  }
+  return periods;
+}
+
+/**
+ * Hutton Criteria periods (late blight)
+ */
+export function detectHuttonPeriods(hours: HourlyWeather[], options: DiseaseModelOptions = {}): DiseaseRiskPeriod[] {
+  return detectBlightPeriods(hours, 'hutton', HUTTON_HUMID_HOURS, options);
+}
+
+/**
+ * Smith Periods (late blight, pre-2017 UK standard)
+ */
+export function detectSmithPeriods(hours: HourlyWeather[], options: DiseaseModelOptions = {}): DiseaseRiskPeriod[] {
+  return detectBlightPeriods(hours, 'smith_period', SMITH_HUMID_HOURS, options);
+}
+
+// =============================================================================
+// POWDERY MILDEW: GUBLER-THOMAS RISK INDEX
+// =============================================================================
+
+function longestRun(hours: HourlyWeather[], predicate: (h: HourlyWeather) => boolean): number {
+  let best = 0;
+  let current = 0;
+  for (const hour of hours) {
+    current = predicate(hour) ? current + 1 : 0;
+    best = Math.max(best, current);
+  }
+  return best;
+}
+
+/**
+ * Daily Gubler-Thomas index (0-100). The index starts once three days in a
+ * row each have 6+ consecutive hours at 21-30°C; after that each such day
+ * adds 20, any other day takes 10 off, and an hour at 35°C or above takes
+ * a further 10.
+ */
+export function calculatePowderyMildewIndex(
+  hours: HourlyWeather[],
+  options: DiseaseModelOptions = {}
+): Array<{ date: string; index: number; favourableHours: number }> {
+  const days = summariseDays(hours, options.timeZone);
+  const result: Array<{ date: string; index: number; favourableHours: number }> = [];
+  let index = 0;
+  let onsetStreak = 0;
+  let started = false;
+
+  for (const day of days) {
+    const favourableHours = longestRun(day.hours, h => h.temp >= MILDEW_MIN_TEMP && h.temp <= MILDEW_MAX_TEMP);
+    const favourable = favourableHours >= 6;
+    const lethal = day.hours.some(h => h.temp >= MILDEW_LETHAL_TEMP);
+
+    if (!started) {
+      onsetStreak = favourable ? onsetStreak + 1 : 0;
+      if (onsetStreak >= 3) {
+        started = true;
+        index = 60;
+      }
+    } else {
+      index += favourable ? 20 : -10;
+      if (lethal) index -= 10;
+      index = Math.max(0, Math.min(100, index));
+    }
+    result.push({ date: day.date, index, favourableHours });
+  }
+  return result;
+}
+
+/**
+ * Stretches of days with a moderate (40+) or high (60+) mildew index
+ */
+export function detectPowderyMildewPeriods(hours: HourlyWeather[], options: DiseaseModelOptions = {}): DiseaseRiskPeriod[] {
+  const daily = calculatePowderyMildewIndex(hours, options);
+  const days = summariseDays(hours, options.timeZone);
+  const periods: DiseaseRiskPeriod[] = [];
+
+  let i = 0;
+  while (i < daily.length) {
+    if (daily[i].index < MILDEW_MODERATE_INDEX) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j + 1 < daily.length && daily[j + 1].index >= MILDEW_MODERATE_INDEX) j++;
+
+    const peak = Math.max(...daily.slice(i, j + 1).map(d => d.index));
+    const risk = peak >= MILDEW_HIGH_INDEX ? 'high' : 'moderate';
+    const lastHours = days[j].hours;
+    periods.push({
+      model: 'powdery_mildew_index',
+      disease: 'powdery_mildew',
+      risk,
+      startTime: days[i].hours[0].time,
+      endTime: lastHours[lastHours.length - 1].time,
+      value: peak,
+      criteria: [
+        { name: 'Risk index (peak)', value: peak, threshold: MILDEW_HIGH_INDEX, unit: 'pts', met: peak >= MILDEW_HIGH_INDEX },
+        {
+          name: `Longest run at ${MILDEW_MIN_TEMP}-${MILDEW_MAX_TEMP}°C (best day)`,
+          value: Math.max(...daily.slice(i, j + 1).map(d => d.favourableHours)),
+          threshold: 6,
+          unit: 'h',
+          met: daily.slice(i, j + 1).some(d => d.favourableHours >= 6),
+        },
+      ],
+      summary: `Powdery mildew index ${peak} from ${daily[i].date} to ${daily[j].date}: warm spells of 6+ hours at ${MILDEW_MIN_TEMP}-${MILDEW_MAX_TEMP}°C let spores multiply every few days.`,
+    });
+    i = j + 1;
+  }
+  return periods;
+}
+
+// =============================================================================
+// BOTRYTIS: LEAF WETNESS MODEL
+// =============================================================================
+
+/**
+ * Probability of botrytis infection (0-1) after a wet spell of `wetHours`
+ * at mean temperature `temp` (Broome et al. 1995)
+ */
+export function botrytisInfectionProbability(wetHours: number, temp: number): number {
+  const logit = -4.268 + 0.0294 * wetHours * temp - 0.0901 * wetHours - 0.0000235 * wetHours * temp ** 3;
+  return 1 / (1 + Math.exp(-logit));
+}
+
+/**
+ * Wet spells long enough and mild enough for grey mould to infect
+ */
+export function detectBotrytisPeriods(hours: HourlyWeather[]): DiseaseRiskPeriod[] {
+  const ordered = hours
+    .filter(h => Number.isFinite(h.temp) && Number.isFinite(h.humidity))
+    .sort((a, b) => a.time.localeCompare(b.time));
+  const periods: DiseaseRiskPeriod[] = [];
+
+  let i = 0;
+  while (i < ordered.length) {
+    if (!isLeafWet(ordered[i])) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j + 1 < ordered.length && isLeafWet(ordered[j + 1])) j++;
+
+    const spell = ordered.slice(i, j + 1);
+    const wetHours = spell.length;
+    const meanTemp = spell.reduce((sum, h) => sum + h.temp, 0) / wetHours;
+    const probability = botrytisInfectionProbability(wetHours, meanTemp);
+
+    if (wetHours >= BOTRYTIS_MIN_WET_HOURS && probability >= BOTRYTIS_MODERATE) {
+      const risk = probability >= BOTRYTIS_HIGH ? 'high' : 'moderate';
+      periods.push({
+        model: 'botrytis_wetness',
+        disease: 'botrytis',
+        risk,
+        startTime: spell[0].time,
+        endTime: spell[spell.length - 1].time,
+        value: Math.round(probability * 100),
+        criteria: [
+          { name: 'Leaf wetness duration', value: wetHours, threshold: BOTRYTIS_MIN_WET_HOURS, unit: 'h', met: true },
+          { name: 'Mean temperature while wet', value: Math.round(meanTemp * 10) / 10, threshold: 15, unit: '°C', met: meanTemp >= 15 && meanTemp <= 25 },
+          { name: 'Infection probability', value: Math.round(probability * 100), threshold: BOTRYTIS_HIGH * 100, unit: '%', met: probability >= BOTRYTIS_HIGH },
+        ],
+        summary: `${wetHours}h of wet foliage at ${meanTemp.toFixed(0)}°C: ${Math.round(probability * 100)}% chance of grey mould infection.`,
+      });
+    }
+    i = j + 1;
+  }
+  return periods;
+}
+
+// =============================================================================
+// MAIN ENGINE
+// =============================================================================
+
+/**
+ * Run every hourly disease model, returning risk periods in time order.
+ * Smith is stricter than Hutton, so every Smith Period sits inside a Hutton
+ * period; both are returned so callers can say which standard was met.
+ */
+export function runDiseaseModels(hours: HourlyWeather[], options: DiseaseModelOptions = {}): DiseaseRiskPeriod[] {
+  return [
+    ...detectHuttonPeriods(hours, options),
+    ...detectSmithPeriods(hours, options),
+    ...detectPowderyMildewPeriods(hours, options),
+    ...detectBotrytisPeriods(hours),
+  ].sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
@@ -13,7 +13,8 @@
  * @module lib/grow/localSignals
  */
 
-import type { WeatherForecast } from './weatherTaskEngine';
+import type { HourlyWeather, WeatherForecast } from './weatherTaskEngine';
+import { DISEASE_ADVICE, MIN_HOURLY_READINGS, runDiseaseModels, type DiseaseRiskPeriod, type ModelledDisease } from './diseaseModels';
 
 // =============================================================================
 // TYPES
@@ -500,6 +501,69 @@ function detectBotrytisRisk(forecast: WeatherForecast[]): LocalSignal | null {
   };
 }
 
+// =============================================================================
+// HOURLY DISEASE MODEL SIGNALS
+// =============================================================================
+
+const MODELLED_SIGNALS: Record<ModelledDisease, { type: SignalType; title: string; affectedPlants: string[] }> = {
+  late_blight: {
+    type: 'late_blight_risk',
+    title: 'Late blight',
+    affectedPlants: ['tomatoes', 'potatoes', 'peppers', 'aubergines'],
+  },
+  powdery_mildew: {
+    type: 'powdery_mildew_risk',
+    title: 'Powdery mildew',
+    affectedPlants: ['courgettes', 'cucumbers', 'squash', 'melons', 'pumpkins', 'roses', 'peas'],
+  },
+  botrytis: {
+    type: 'botrytis_risk',
+    title: 'Grey mold',
+    affectedPlants: ['strawberries', 'grapes', 'tomatoes', 'lettuce', 'beans'],
+  },
+};
+
+/**
+ * Disease signals from the hourly models (Hutton/Smith, mildew index,
+ * leaf wetness). A Hutton period that also contains a full Smith Period is
+ * raised to critical; the Smith period itself is not signalled twice.
+ */
+function detectHourlyDiseaseSignals(hourly: HourlyWeather[], timeZone?: string): LocalSignal[] {
+  const periods = runDiseaseModels(hourly, { timeZone });
+  const smith = periods.filter((p) => p.model === 'smith_period' && p.risk === 'high');
+
+  return periods
+    .filter((p) => p.model !== 'smith_period')
+    .map((period: DiseaseRiskPeriod) => {
+      const info = MODELLED_SIGNALS[period.disease];
+      const withinSmith = period.model === 'hutton'
+        && smith.some((sp) => sp.startTime >= period.startTime && sp.endTime <= period.endTime);
+      const severity: SignalSeverity = withinSmith ? 'critical' : period.risk === 'high' ? 'high' : 'moderate';
+      const validFrom = period.startTime.slice(0, 10);
+
+      return {
+        id: generateSignalId(info.type, validFrom),
+        type: info.type,
+        category: 'disease_risk' as const,
+        severity,
+        title: `${info.title} risk ${severity === 'moderate' ? 'elevated' : severity === 'critical' ? 'VERY HIGH' : 'HIGH'}`,
+        description: period.summary + (withinSmith ? ' A full Smith Period was also met.' : ''),
+        advice: DISEASE_ADVICE[period.disease][period.risk],
+        affectedPlants: info.affectedPlants,
+        validFrom,
+        validUntil: period.endTime.slice(0, 10),
+        // Measured durations are more reliable than daily averages
+        confidence: period.risk === 'high' ? 90 : 70,
+        weatherFactors: period.criteria.map((c) => ({
+          name: c.name,
+          value: c.value,
+          unit: c.unit,
+          contribution: c.met ? ('favorable' as const) : ('neutral' as const),
+        })),
+      };
+    });
+}
+
 // =============================================================================
 // WEATHER DAMAGE SIGNALS
 // =============================================================================
@@ -717,11 +781,16 @@ function detectDroughtStress(forecast: WeatherForecast[]): LocalSignal | null {
 // =============================================================================
 
 /**
- * Generate all local signals from weather forecast data
+ * Generate all local signals from weather forecast data. With at least two
+ * days of hourly weather, the hourly disease models replace the daily
+ * blight, mildew and botrytis rules; pass `timeZone` when the hourly times
+ * carry an offset.
  */
 export function generateLocalSignals(
   forecast: WeatherForecast[],
-  preferences?: SignalPreferences
+  preferences?: SignalPreferences,
+  hourly?: HourlyWeather[],
+  timeZone?: string
 ): LocalSignal[] {
   if (!forecast || forecast.length === 0) return [];
 
@@ -735,14 +804,18 @@ export function generateLocalSignals(
   if (slugSignal) allSignals.push(slugSignal);
 
   // Disease risk signals
-  const blightSignal = detectLateBlightRisk(forecast);
-  if (blightSignal) allSignals.push(blightSignal);
+  if (hourly && hourly.length >= MIN_HOURLY_READINGS) {
+    allSignals.push(...detectHourlyDiseaseSignals(hourly, timeZone));
+  } else {
+    const blightSignal = detectLateBlightRisk(forecast);
+    if (blightSignal) allSignals.push(blightSignal);
 
-  const mildewSignal = detectPowderyMildewRisk(forecast);
-  if (mildewSignal) allSignals.push(mildewSignal);
+    const mildewSignal = detectPowderyMildewRisk(forecast);
+    if (mildewSignal) allSignals.push(mildewSignal);
 
-  const botrytisSignal = detectBotrytisRisk(forecast);
-  if (botrytisSignal) allSignals.push(botrytisSignal);
+    const botrytisSignal = detectBotrytisRisk(forecast);
+    if (botrytisSignal) allSignals.push(botrytisSignal);
+  }
 
   // Weather damage signals
   const frostSignal = detectFrostDamage(forecast);
@@ -0,0 +1,409 @@
+/**
+ * Soil Water Balance
+ *
+ * Daily root-zone water balance per garden bed, following FAO Irrigation and
+ * Drainage Paper 56 (Allen et al. 1998):
+ *
+ * - Reference evapotranspiration ET0 by Penman-Monteith (eq. 6) when solar
+ *   radiation is known, Hargreaves (eq. 52) from temperature alone otherwise
+ * - Crop evapotranspiration ETc = Kc × ET0, with mid-season Kc, rooting
+ *   depth and depletion fraction p per crop from tables 12 and 22
+ * - Root-zone depletion Dr carried day to day: up with ETc, down with
+ *   effective rain and irrigation, bounded by field capacity (0) and the
+ *   total available water (TAW)
+ * - Water when depletion passes the readily available water (RAW = p × TAW),
+ *   refilling to field capacity: 1 mm of depletion is 1 litre per m²
+ *
+ * Irrigation comes from logged waterings (`LOG_WATERING` mutations): the
+ * queue drops them once synced, so pass the queue's synced history along
+ * with the pending ones (see `irrigationFromMutations`).
+ *
+ * @module lib/grow/soilWaterBalance
+ */
+
+import type { Mutation } from '../offline/mutationQueue';
+import { getTimezoneOffsetMinutes } from '../date/timezone';
+import type { UserPlant } from './weatherTaskEngine';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SoilTexture = 'sand' | 'loamy_sand' | 'sandy_loam' | 'loam' | 'silt_loam' | 'clay_loam' | 'clay';
+
+export type Et0Method = 'penman-monteith' | 'hargreaves';
+
+/**
+ * One day of weather for the balance, observed or forecast. `WeatherForecast`
+ * rows fit as they are; radiation and dew point are extras where a station
+ * or forecast provides them.
+ */
+export interface WaterBalanceWeather {
+  date: string;
+  tempMin: number;
+  tempMax: number;
+  /** mm */
+  precipitation: number;
+  /** Mean relative humidity, % */
+  humidity?: number;
+  dewPoint?: number;
+  /** km/h at 10 m, as forecasts report it */
+  windSpeed?: number;
+  /** Daily total, MJ/m² (mean W/m² over 24 h × 0.0864) */
+  solarRadiation?: number;
+}
+
+export interface GardenBed {
+  id: string;
+  name?: string;
+  areaM2: number;
+  plants: UserPlant[];
+  soil?: SoilTexture;
+  /** Override the rooting depth implied by the plants, metres */
+  rootDepthM?: number;
+}
+
+export interface IrrigationEvent {
+  date: string;
+  /** Water applied; omitted when the log has no amount, which counts as a thorough soak */
+  litres?: number;
+  bedId?: string;
+  plantId?: string;
+}
+
+export interface WaterBalanceOptions {
+  latitude: number;
+  elevationM?: number;
+  /** First forecast day; days before it are history (default: today, UTC) */
+  today?: string;
+  /** Depletion at the start of the first day, mm; otherwise from `soilMoisturePct` or field capacity */
+  initialDepletionMm?: number;
+  /** Volumetric soil moisture from a sensor at the start, % */
+  soilMoisturePct?: number;
+}
+
+export interface WaterBalanceDay {
+  date: string;
+  forecast: boolean;
+  et0: number;
+  et0Method: Et0Method;
+  etc: number;
+  effectiveRain: number;
+  irrigation: number;
+  /** Depletion at the end of the day, mm below field capacity */
+  depletion: number;
+  /** Readily available water that day, mm; p shifts with the day's ETc */
+  raw: number;
+  /** Water stress coefficient: 1 while depletion is within RAW */
+  ks: number;
+}
+
+export interface BedWaterBalance {
+  bedId: string;
+  bedName?: string;
+  kc: number;
+  rootDepthM: number;
+  depletionFraction: number;
+  /** Total available water in the root zone, mm */
+  taw: number;
+  days: WaterBalanceDay[];
+  /** First forecast day the bed needs water, or null if it lasts the forecast */
+  waterOn: string | null;
+  litresPerM2: number;
+  totalLitres: number;
+  reason: string;
+}
+
+interface CropProfile {
+  kc: number;
+  rootDepthM: number;
+  p: number;
+}
+
+export class WaterBalanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WaterBalanceError';
+  }
+}
+
+// =============================================================================
+// CROP AND SOIL TABLES
+// =============================================================================
+
+/**
+ * Mid-season Kc (FAO-56 table 12) with the shallow end of the rooting depth
+ * and p (table 22) for garden-scale plantings. Matched against the plant
+ * slug or name.
+ */
+const CROP_PROFILES: Array<[string[], CropProfile]> = [
+  [['tomato'], { kc: 1.15, rootDepthM: 0.7, p: 0.4 }],
+  [['potato'], { kc: 1.15, rootDepthM: 0.4, p: 0.35 }],
+  [['lettuce', 'spinach', 'salad'], { kc: 1.0, rootDepthM: 0.3, p: 0.3 }],
+  [['bean'], { kc: 1.05, rootDepthM: 0.5, p: 0.45 }],
+  [['pea'], { kc: 1.15, rootDepthM: 0.6, p: 0.35 }],
+  [['cabbage', 'brassica', 'broccoli', 'kale', 'cauliflower', 'sprout'], { kc: 1.05, rootDepthM: 0.5, p: 0.45 }],
+  [['carrot', 'beet', 'parsnip', 'radish'], { kc: 1.05, rootDepthM: 0.5, p: 0.35 }],
+  [['onion', 'garlic', 'leek'], { kc: 1.05, rootDepthM: 0.3, p: 0.3 }],
+  [['courgette', 'zucchini', 'squash', 'pumpkin', 'marrow'], { kc: 0.95, rootDepthM: 0.6, p: 0.5 }],
+  [['cucumber', 'melon'], { kc: 1.0, rootDepthM: 0.7, p: 0.5 }],
+  [['pepper', 'chilli', 'aubergine', 'eggplant'], { kc: 1.05, rootDepthM: 0.5, p: 0.3 }],
+  [['strawberr'], { kc: 0.85, rootDepthM: 0.2, p: 0.2 }],
+  [['corn', 'maize'], { kc: 1.15, rootDepthM: 0.8, p: 0.5 }],
+  [['lawn', 'grass', 'turf'], { kc: 0.95, rootDepthM: 0.5, p: 0.4 }],
+  [['apple', 'pear', 'plum', 'cherry'], { kc: 0.95, rootDepthM: 1.0, p: 0.5 }],
+  [['grape', 'vine'], { kc: 0.85, rootDepthM: 1.0, p: 0.35 }],
+  [['raspberr', 'blackberr', 'currant', 'gooseberr', 'blueberr'], { kc: 1.05, rootDepthM: 0.5, p: 0.5 }],
+  [['rose', 'shrub', 'lavender', 'herb', 'rosemary', 'thyme', 'sage'], { kc: 0.7, rootDepthM: 0.5, p: 0.5 }],
+];
+
+/** Mixed ornamental border, when nothing in the bed matches a crop */
+const DEFAULT_PROFILE: CropProfile = { kc: 0.8, rootDepthM: 0.4, p: 0.5 };
+
+/** Volumetric water content at field capacity and wilting point (FAO-56 table 19, mid-range) */
+const SOIL_WATER: Record<SoilTexture, { fieldCapacity: number; wiltingPoint: number }> = {
+  sand: { fieldCapacity: 0.12, wiltingPoint: 0.045 },
+  loamy_sand: { fieldCapacity: 0.14, wiltingPoint: 0.06 },
+  sandy_loam: { fieldCapacity: 0.23, wiltingPoint: 0.1 },
+  loam: { fieldCapacity: 0.25, wiltingPoint: 0.12 },
+  silt_loam: { fieldCapacity: 0.29, wiltingPoint: 0.15 },
+  clay_loam: { fieldCapacity: 0.32, wiltingPoint: 0.2 },
+  clay: { fieldCapacity: 0.36, wiltingPoint: 0.22 },
+};
+
+// FAO-56 assumes 2 m/s where wind is unknown
+const DEFAULT_WIND_MS = 2;
+const SOLAR_CONSTANT = 0.082;
+const STEFAN_BOLTZMANN = 4.903e-9;
+
+// =============================================================================
+// REFERENCE EVAPOTRANSPIRATION
+// =============================================================================
+
+function saturationVapourPressure(t: number): number {
+  return 0.6108 * Math.exp((17.27 * t) / (t + 237.3));
+}
+
+function dayOfYear(date: string): number {
+  const ms = Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+  return Math.round((ms - Date.UTC(new Date(ms).getUTCFullYear(), 0, 1)) / 86400000) + 1;
+}
+
+/**
+ * Extraterrestrial radiation for a day, MJ/m²/day (FAO-56 eq. 21)
+ */
+export function extraterrestrialRadiation(latitude: number, date: string): number {
+  const j = dayOfYear(date);
+  const phi = (latitude * Math.PI) / 180;
+  const dr = 1 + 0.033 * Math.cos((2 * Math.PI * j) / 365);
+  const delta = 0.409 * Math.sin((2 * Math.PI * j) / 365 - 1.39);
+  // Clamp for polar day and night
+  const ws = Math.acos(Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(delta))));
+  return ((24 * 60) / Math.PI) * SOLAR_CONSTANT * dr
+    * (ws * Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.sin(ws));
+}
+
+/**
+ * Reference evapotranspiration for one day, mm. Penman-Monteith when solar
+ * radiation is known; Hargreaves from the temperature range otherwise.
+ */
+export function referenceEvapotranspiration(
+  day: WaterBalanceWeather,
+  latitude: number,
+  elevationM = 0
+): { et0: number; method: Et0Method } {
+  const tMean = (day.tempMax + day.tempMin) / 2;
+  const ra = extraterrestrialRadiation(latitude, day.date);
+
+  if (typeof day.solarRadiation !== 'number' || !Number.isFinite(day.solarRadiation)) {
+    const range = Math.max(0, day.tempMax - day.tempMin);
+    const et0 = 0.0023 * (tMean + 17.8) * Math.sqrt(range) * 0.408 * ra;
+    return { et0: Math.max(0, et0), method: 'hargreaves' };
+  }
+
+  const pressure = 101.3 * Math.pow((293 - 0.0065 * elevationM) / 293, 5.26);
+  const gamma = 0.000665 * pressure;
+  const es = (saturationVapourPressure(day.tempMax) + saturationVapourPressure(day.tempMin)) / 2;
+  const ea = typeof day.dewPoint === 'number'
+    ? saturationVapourPressure(day.dewPoint)
+    : typeof day.humidity === 'number'
+      ? (day.humidity / 100) * es
+      // Dew point near the minimum temperature is FAO-56's fallback for missing humidity
+      : saturationVapourPressure(day.tempMin);
+  const delta = (4098 * saturationVapourPressure(tMean)) / Math.pow(tMean + 237.3, 2);
+
+  // Wind from km/h at 10 m to m/s at 2 m (eq. 47)
+  const u2 = typeof day.windSpeed === 'number'
+    ? (day.windSpeed / 3.6) * (4.87 / Math.log(67.8 * 10 - 5.42))
+    : DEFAULT_WIND_MS;
+
+  const rs = day.solarRadiation;
+  const rso = (0.75 + 2e-5 * elevationM) * ra;
+  const rns = 0.77 * rs;
+  const tMaxK = day.tempMax + 273.16;
+  const tMinK = day.tempMin + 273.16;
+  const rnl = STEFAN_BOLTZMANN * ((tMaxK ** 4 + tMinK ** 4) / 2)
+    * (0.34 - 0.14 * Math.sqrt(Math.max(0, ea)))
+    * (1.35 * Math.min(1, rso > 0 ? rs / rso : 1) - 0.35);
+  const rn = rns - rnl;
+
+  const et0 = (0.408 * delta * rn + gamma * (900 / (tMean + 273)) * u2 * (es - ea))
+    / (delta + gamma * (1 + 0.34 * u2));
+  return { et0: Math.max(0, et0), method: 'penman-monteith' };
+}
+
+// =============================================================================
+// BED PROPERTIES
+// =============================================================================
+
+function cropProfile(plant: UserPlant): CropProfile {
+  const key = `${plant.plantSlug || ''} ${plant.plantName || ''}`.toLowerCase();
+  return CROP_PROFILES.find(([names]) => names.some(name => key.includes(name)))?.[1] ?? DEFAULT_PROFILE;
+}
+
+/**
+ * Crop figures for a bed: mean Kc across its plants, and the shallowest
+ * roots and smallest p, since the most sensitive plant decides when to water
+ */
+export function bedCropProfile(bed: GardenBed): CropProfile {
+  const profiles = bed.plants.length > 0 ? bed.plants.map(cropProfile) : [DEFAULT_PROFILE];
+  return {
+    kc: profiles.reduce((sum, p) => sum + p.kc, 0) / profiles.length,
+    rootDepthM: bed.rootDepthM ?? Math.min(...profiles.map(p => p.rootDepthM)),
+    p: Math.min(...profiles.map(p => p.p)),
+  };
+}
+
+/**
+ * Irrigation events from `LOG_WATERING` mutations. Payloads may carry
+ * `litres`, `bedId`, `plantId` and `date`; without a date the mutation
+ * timestamp's calendar day (in `timeZone`, default UTC) is used.
+ *
+ * Synced mutations leave the queue, so pass both:
+ * `[...mutationQueue.getSyncedHistory('LOG_WATERING'), ...mutationQueue.getMutationsByType('LOG_WATERING')]`.
+ * The synced history covers the last 30 days, more than the balance needs.
+ */
+export function irrigationFromMutations(
+  mutations: Array<Pick<Mutation, 'type' | 'payload' | 'timestamp'>>,
+  timeZone?: string
+): IrrigationEvent[] {
+  return mutations
+    .filter(m => m.type === 'LOG_WATERING')
+    .map(m => {
+      const { litres, bedId, plantId, date } = m.payload;
+      const offsetMs = timeZone ? getTimezoneOffsetMinutes(timeZone, m.timestamp) * 60000 : 0;
+      return {
+        date: typeof date === 'string' ? date.slice(0, 10) : new Date(m.timestamp + offsetMs).toISOString().slice(0, 10),
+        litres: typeof litres === 'number' && litres >= 0 ? litres : undefined,
+        bedId: typeof bedId === 'string' ? bedId : undefined,
+        plantId: typeof plantId === 'string' ? plantId : undefined,
+      };
+    });
+}
+
+function appliesToBed(event: IrrigationEvent, bed: GardenBed): boolean {
+  if (event.bedId) return event.bedId === bed.id;
+  return !!event.plantId && bed.plants.some(p => p.id === event.plantId);
+}
+
+// =============================================================================
+// WATER BALANCE
+// =============================================================================
+
+const round1 = (x: number) => Math.round(x * 10) / 10;
+
+/**
+ * Run the daily balance for one bed over history and forecast days and work
+ * out when it next needs water and how much. Watering is put off a day when
+ * the next day's rain alone would refill the root zone.
+ * @throws WaterBalanceError when the bed has no positive area
+ */
+export function calculateBedWaterBalance(
+  bed: GardenBed,
+  weather: WaterBalanceWeather[],
+  irrigation: IrrigationEvent[],
+  options: WaterBalanceOptions
+): BedWaterBalance {
+  if (!(Number.isFinite(bed.areaM2) && bed.areaM2 > 0)) {
+    throw new WaterBalanceError(`Bed ${bed.id} needs an area above 0 m², got ${bed.areaM2}`);
+  }
+  const today = options.today ?? new Date().toISOString().split('T')[0];
+  const crop = bedCropProfile(bed);
+  const soil = SOIL_WATER[bed.soil ?? 'loam'];
+  const taw = 1000 * (soil.fieldCapacity - soil.wiltingPoint) * crop.rootDepthM;
+
+  let depletion = options.initialDepletionMm
+    ?? (typeof options.soilMoisturePct === 'number'
+      ? 1000 * (soil.fieldCapacity - options.soilMoisturePct / 100) * crop.rootDepthM
+      : 0);
+  depletion = Math.max(0, Math.min(taw, depletion));
+
+  const bedIrrigation = irrigation.filter(e => appliesToBed(e, bed));
+  const ordered = [...weather].sort((a, b) => a.date.localeCompare(b.date));
+  const days: WaterBalanceDay[] = [];
+
+  for (const day of ordered) {
+    const { et0, method } = referenceEvapotranspiration(day, options.latitude, options.elevationM);
+    // p rises when the crop is using little water and falls when it uses a lot (table 22 note)
+    const etcPotential = crop.kc * et0;
+    const p = Math.max(0.1, Math.min(0.8, crop.p + 0.04 * (5 - etcPotential)));
+    const raw = p * taw;
+
+    // Light rain evaporates off leaves and the surface before reaching roots
+    const effectiveRain = day.precipitation >= 0.2 * et0 ? day.precipitation : 0;
+    const events = bedIrrigation.filter(e => e.date === day.date);
+    const soak = events.some(e => e.litres === undefined);
+    const irrigationMm = soak
+      ? depletion + etcPotential
+      : events.reduce((sum, e) => sum + (e.litres ?? 0), 0) / bed.areaM2;
+
+    const ks = depletion > raw ? Math.max(0, (taw - depletion) / ((1 - p) * taw)) : 1;
+    const etc = ks * etcPotential;
+    depletion = Math.max(0, Math.min(taw, depletion - effectiveRain - irrigationMm + etc));
+
+    days.push({
+      date: day.date,
+      forecast: day.date >= today,
+      et0: round1(et0),
+      et0Method: method,
+      etc: round1(etc),
+      effectiveRain: round1(effectiveRain),
+      irrigation: round1(irrigationMm),
+      depletion: round1(depletion),
+      raw: round1(raw),
+      ks: Math.round(ks * 100) / 100,
+    });
+  }
+
+  // First forecast day ending beyond RAW, unless tomorrow's rain covers it
+  let waterOn: string | null = null;
+  let litresPerM2 = 0;
+  for (let i = 0; i < days.length; i++) {
+    const day = days[i];
+    if (!day.forecast || day.depletion <= day.raw) continue;
+    if ((days[i + 1]?.effectiveRain ?? 0) >= day.depletion) continue;
+    waterOn = day.date;
+    // Water at the start of the day: refill what is missing by the evening
+    litresPerM2 = Math.round(day.depletion * 2) / 2;
+    break;
+  }
+
+  const lastDate = days[days.length - 1]?.date ?? today;
+  const reason = waterOn
+    ? `Water ${litresPerM2} litres per m² on ${waterOn}`
+    : `Soil holds enough water until at least ${lastDate}`;
+
+  return {
+    bedId: bed.id,
+    bedName: bed.name,
+    kc: Math.round(crop.kc * 100) / 100,
+    rootDepthM: crop.rootDepthM,
+    depletionFraction: crop.p,
+    taw: round1(taw),
+    days,
+    waterOn,
+    litresPerM2,
+    totalLitres: Math.round(litresPerM2 * bed.areaM2),
+    reason,
+  };
+}
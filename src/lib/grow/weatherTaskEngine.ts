@@ -7,6 +7,9 @@
  * @module lib/grow/weatherTaskEngine
  */
 
+import { DISEASE_ADVICE, MIN_HOURLY_READINGS, runDiseaseModels, type ModelledDisease } from './diseaseModels';
+import type { BedWaterBalance } from './soilWaterBalance';
+
 // =============================================================================
 // TYPES
 // =============================================================================
@@ -24,6 +27,23 @@ export interface WeatherForecast {
   description: string;
 }
 
+/**
+ * One hour of observed or forecast weather, for the disease models that
+ * need durations rather than daily summaries
+ */
+export interface HourlyWeather {
+  /**
+   * Start of the hour. Disease models split days on the date as written,
+   * unless given a time zone for times with an offset (see ./diseaseModels)
+   */
+  time: string;
+  temp: number;
+  humidity: number;
+  precipitation?: number;
+  /** Leaf wetness sensor reading (minutes wet in the hour, 0-60); estimated from humidity and rain when absent */
+  leafWetness?: number;
+}
+
 export interface SoilConditions {
   temp0cm: number;
   temp6cm: number;
@@ -836,17 +856,74 @@ export function detectWindDesiccation(
   return alerts;
 }
 
+// =============================================================================
+// HOURLY DISEASE MODELS
+// =============================================================================
+
+const HOURLY_DISEASE_TITLES: Record<ModelledDisease, string> = {
+  late_blight: 'Late Blight',
+  powdery_mildew: 'Powdery Mildew',
+  botrytis: 'Grey Mold (Botrytis)',
+};
+
 /**
- * Combined pest & disease alert detection
+ * Disease alerts from the hourly models: Hutton Criteria and Smith Periods
+ * for late blight, the Gubler-Thomas index for powdery mildew and the
+ * leaf-wetness model for botrytis. Smith Periods are folded into the Hutton
+ * alert they fall within rather than alerted twice. Pass `timeZone` when the
+ * hourly times carry an offset, so days split on the garden's local date.
+ */
+export function detectHourlyDiseaseRisks(
+  hourly: HourlyWeather[],
+  plants: UserPlant[],
+  timeZone?: string
+): WeatherAlert[] {
+  const periods = runDiseaseModels(hourly, { timeZone });
+  const smith = periods.filter(p => p.model === 'smith_period');
+
+  return periods
+    .filter(p => p.model !== 'smith_period')
+    .map(period => {
+      const susceptiblePlants = findSusceptiblePlants(plants, period.disease);
+      const withinSmith = period.model === 'hutton'
+        && smith.some(sp => sp.risk === 'high' && sp.startTime >= period.startTime && sp.endTime <= period.endTime);
+      const severity: 'warning' | 'critical' = period.risk === 'high' ? 'critical' : 'warning';
+      const title = HOURLY_DISEASE_TITLES[period.disease];
+
+      return {
+        type: period.disease,
+        severity,
+        title: `${severity === 'critical' ? 'HIGH' : 'ELEVATED'} ${title} Risk`,
+        message: period.summary +
+          (withinSmith ? ' A full Smith Period was also met.' : '') +
+          (susceptiblePlants.length > 0 ? ` ${susceptiblePlants.length} of your plants are at risk.` : ''),
+        forecastDate: period.startTime.slice(0, 10),
+        forecastValue: period.value,
+        affectedPlantIds: susceptiblePlants.map(p => p.id),
+        suggestedAction: DISEASE_ADVICE[period.disease][period.risk],
+      };
+    });
+}
+
+/**
+ * Combined pest & disease alert detection. With at least two days of hourly
+ * weather, the hourly models replace the daily blight, mildew and botrytis rules.
  */
 export function detectPestDiseaseRisks(
   forecast: WeatherForecast[],
-  plants: UserPlant[]
+  plants: UserPlant[],
+  hourly?: HourlyWeather[],
+  timeZone?: string
 ): WeatherAlert[] {
+  const diseaseAlerts = hourly && hourly.length >= MIN_HOURLY_READINGS
+    ? detectHourlyDiseaseRisks(hourly, plants, timeZone)
+    : [
+      ...detectLateBlight(forecast, plants),
+      ...detectPowderyMildew(forecast, plants),
+      ...detectBotrytis(forecast, plants),
+    ];
   return [
-    ...detectLateBlight(forecast, plants),
-    ...detectPowderyMildew(forecast, plants),
-    ...detectBotrytis(forecast, plants),
+    ...diseaseAlerts,
     ...detectAphidRisk(forecast, plants),
     ...detectSlugRisk(forecast, plants),
     ...detectWindDesiccation(forecast, plants),
@@ -873,14 +950,46 @@ function calculateNextUnfrozenDate(forecast: WeatherForecast[]): string {
   return checkDate.toISOString().split('T')[0];
 }
 
+/**
+ * Watering advice from a bed's soil water balance: the amount and day come
+ * from the modelled depletion rather than the moisture and rain heuristics
+ */
+function balanceWateringRecommendation(
+  balance: BedWaterBalance,
+  today: WeatherForecast,
+  forecast: WeatherForecast[]
+): WateringRecommendation {
+  const current = balance.days.find(d => d.date === today.date) ?? balance.days.find(d => d.forecast);
+  const methods = new Set(balance.days.filter(d => d.forecast).map(d => d.et0Method));
+  const details = [
+    `Evapotranspiration by ${methods.has('hargreaves') ? 'Hargreaves (no solar radiation data)' : 'Penman-Monteith'}, crop coefficient ${balance.kc}`,
+  ];
+  if (current) {
+    details.push(`Root zone depletion ${current.depletion}mm of ${current.raw}mm readily available (${balance.taw}mm total)`);
+  }
+  if (balance.waterOn) {
+    details.push(`${balance.totalLitres} litres for the whole bed`);
+  }
+
+  return {
+    shouldWater: balance.waterOn !== null && balance.waterOn <= today.date,
+    reason: balance.reason,
+    nextWateringDate: balance.waterOn ?? forecast[forecast.length - 1].date,
+    adjustmentFactor: balance.waterOn ? 1.0 : 0,
+    details,
+  };
+}
+
 /**
  * Calculate smart watering recommendation based on weather and plant properties
- * Now includes per-plant multipliers for personalized recommendations
+ * Now includes per-plant multipliers for personalized recommendations.
+ * A bed's soil water balance, when given, decides the day and amount.
  */
 export function calculateWateringRecommendation(
   forecast: WeatherForecast[],
   soil: SoilConditions,
-  plants: UserPlant[]
+  plants: UserPlant[],
+  waterBalance?: BedWaterBalance
 ): WateringRecommendation {
   const today = forecast[0];
   const tomorrow = forecast[1];
@@ -934,6 +1043,14 @@ export function calculateWateringRecommendation(
     };
   }
 
+  if (waterBalance) {
+    const recommendation = balanceWateringRecommendation(waterBalance, today, forecast);
+    if (airIsNearFreezing) {
+      recommendation.details.unshift(`⚠️ Frost possible tonight (${today.tempMin.toFixed(0)}°C) - water early in the day if needed`);
+    }
+    return recommendation;
+  }
+
   // Add warning if near-freezing (but still can water if soil is warm)
   if (airIsNearFreezing && !soilIsFrozen) {
     details.push(`⚠️ Frost possible tonight (${today.tempMin.toFixed(0)}°C) - water early in the day if needed`);
@@ -1359,7 +1476,11 @@ export function analyzeWeatherForTasks(
   forecast: WeatherForecast[],
   soil: SoilConditions,
   plants: UserPlant[],
-  plannedActivities: string[] = []
+  plannedActivities: string[] = [],
+  hourly?: HourlyWeather[],
+  waterBalance?: BedWaterBalance,
+  /** Garden's IANA zone, for hourly times given with an offset */
+  timeZone?: string
 ): WeatherTaskResult {
   // Separate indoor and outdoor plants
   const outdoorPlants = filterOutdoorPlants(plants);
@@ -1371,13 +1492,13 @@ export function analyzeWeatherForTasks(
   const windAlerts = detectWindRisk(forecast);
 
   // Generate pest & disease alerts based on weather conditions (outdoor plants)
-  const pestDiseaseAlerts = detectPestDiseaseRisks(forecast, outdoorPlants);
+  const pestDiseaseAlerts = detectPestDiseaseRisks(forecast, outdoorPlants, hourly, timeZone);
 
   // Analyze wind impact on activities
   const windAdjustments = assessWindImpact(forecast, plannedActivities);
 
   // Calculate watering recommendation (for outdoor plants)
-  const wateringRecommendation = calculateWateringRecommendation(forecast, soil, outdoorPlants);
+  const wateringRecommendation = calculateWateringRecommendation(forecast, soil, outdoorPlants, waterBalance);
 
   // Calculate planting windows (outdoor context)
   const plantingWindows = calculatePlantingWindows(soil, forecast, outdoorPlants);
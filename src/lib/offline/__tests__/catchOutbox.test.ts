@@ -0,0 +1,258 @@
+/**
+ * Tests for the catch outbox
+ *
+ * Covers idempotency keys, retry/dead-letter policy, migration from the
+ * legacy pending catch store and the progress event stream.
+ */
+
+import { CatchOutbox, type CatchOutboxEvent } from '../catchOutbox';
+
+const mockHistoryUpdates: Array<{ userId: string; catchId: string; updates: Record<string, unknown> }> = [];
+const mockSession = { token: 'token-1' as string | null };
+
+jest.mock('../catchHistory', () => ({
+  addCatchToCache: async () => {},
+  updateCatchInCache: async (userId: string, catchId: string, updates: Record<string, unknown>) => {
+    mockHistoryUpdates.push({ userId, catchId, updates });
+  },
+}));
+
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    auth: {
+      getSession: async () => ({
+        data: { session: mockSession.token ? { access_token: mockSession.token } : null },
+        error: null,
+      }),
+    },
+  },
+}));
+
+const mockCatchQueue = new Map<string, { id: string; timestamp: number; retryCount: number; data: Record<string, unknown> }>();
+
+jest.mock('../storage', () => ({
+  getStorage: () => ({
+    getPendingCatchLogs: async () => Array.from(mockCatchQueue.values()),
+    getCatchLog: async (id: string) => mockCatchQueue.get(id) ?? null,
+    removeCatchLog: async (id: string) => { mockCatchQueue.delete(id); },
+  }),
+}));
+
+const memoryStorage = new Map<string, string>();
+const failingKeys = new Set<string>();
+(globalThis as { localStorage?: unknown }).localStorage = {
+  getItem: (key: string) => memoryStorage.get(key) ?? null,
+  setItem: (key: string, value: string) => {
+    if (failingKeys.has(key)) throw new Error('QuotaExceededError');
+    memoryStorage.set(key, value);
+  },
+  removeItem: (key: string) => { memoryStorage.delete(key); },
+};
+
+const catchInput = {
+  speciesCommonName: 'Bass',
+  quantity: 1,
+  catchDate: '2025-06-01',
+};
+
+interface Call {
+  url: string;
+  headers: Record<string, string>;
+  body: FormData;
+}
+
+function fakeFetch(responses: Array<{ status: number; body?: unknown } | Error>) {
+  const calls: Call[] = [];
+  const impl = (async (url: string, init: { headers: Record<string, string>; body: FormData }) => {
+    calls.push({ url, headers: init.headers, body: init.body });
+    const next = responses.length > 1 ? responses.shift()! : responses[0];
+    if (next instanceof Error) throw next;
+    return new Response(next.body === undefined ? '' : JSON.stringify(next.body), { status: next.status });
+  }) as unknown as typeof fetch;
+  return { impl, calls };
+}
+
+describe('lib/offline/catchOutbox', () => {
+  beforeEach(() => {
+    memoryStorage.clear();
+    failingKeys.clear();
+    mockCatchQueue.clear();
+    mockHistoryUpdates.length = 0;
+    mockSession.token = 'token-1';
+  });
+
+  it('sends the idempotency key and swaps in the server id', async () => {
+    const { impl, calls } = fakeFetch([{ status: 200, body: { id: 'srv-1' } }]);
+    const outbox = new CatchOutbox(impl);
+
+    const entry = await outbox.enqueue(catchInput, { userId: 'user-1' });
+    const result = await outbox.sync();
+
+    expect(result.synced).toBe(1);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].url).toBe('/api/findr/log-catch-enriched');
+    expect(calls[0].headers['Idempotency-Key']).toBe(entry.idempotencyKey);
+    expect(calls[0].headers.Authorization).toBe('Bearer token-1');
+    expect(calls[0].body.get('idempotency_key')).toBe(entry.idempotencyKey);
+    expect(calls[0].body.get('species_name')).toBe('Bass');
+    expect(await outbox.getEntries()).toHaveLength(0);
+    expect(mockHistoryUpdates).toEqual([
+      { userId: 'user-1', catchId: entry.id, updates: { id: 'srv-1', sync_status: undefined } },
+    ]);
+  });
+
+  it('keeps the same key across retries and dead-letters after five attempts', async () => {
+    const { impl, calls } = fakeFetch([new Error('Network failure')]);
+    const outbox = new CatchOutbox(impl);
+    const entry = await outbox.enqueue(catchInput);
+    let now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    for (let i = 0; i < 5; i++) {
+      await outbox.sync();
+      now += 2 * 60 * 60 * 1000; // past the longest backoff
+    }
+    await outbox.sync(); // dead entries are not attempted again
+    clock.mockRestore();
+
+    expect(calls).toHaveLength(5);
+    expect(new Set(calls.map(c => c.headers['Idempotency-Key'])).size).toBe(1);
+    const [dead] = await outbox.getEntries();
+    expect(dead.status).toBe('dead');
+    expect(dead.lastError).toBe('Network failure');
+    expect(outbox.getState().dead).toBe(1);
+
+    expect(await outbox.retry(entry.id)).toBe(true);
+    expect(outbox.getState().pending).toBe(1);
+  });
+
+  it('backs off exponentially between failed attempts', async () => {
+    const { impl, calls } = fakeFetch([{ status: 503 }]);
+    const outbox = new CatchOutbox(impl);
+    await outbox.enqueue(catchInput);
+    let now = Date.parse('2025-06-01T12:00:00Z');
+    const clock = jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    await outbox.sync();
+    const [failed] = await outbox.getEntries();
+    expect(failed.nextAttemptAt).toBe('2025-06-01T12:00:30.000Z');
+
+    // A reconnect inside the backoff window doesn't resend
+    now += 10 * 1000;
+    expect((await outbox.sync()).skipped).toBe(1);
+    expect(calls).toHaveLength(1);
+
+    now += 30 * 1000;
+    await outbox.sync();
+    expect(calls).toHaveLength(2);
+    expect((await outbox.getEntries())[0].nextAttemptAt).toBe('2025-06-01T12:01:40.000Z');
+    expect(outbox.getBackoffDelay(20)).toBe(60 * 60 * 1000);
+    clock.mockRestore();
+  });
+
+  it('gives up immediately on a rejected payload', async () => {
+    const { impl, calls } = fakeFetch([{ status: 400, body: { error: 'Invalid species' } }]);
+    const outbox = new CatchOutbox(impl);
+    await outbox.enqueue(catchInput);
+
+    const result = await outbox.sync();
+
+    expect(result.errors[0].error).toBe('Invalid species');
+    expect(calls).toHaveLength(1);
+    expect((await outbox.getEntries())[0].status).toBe('dead');
+  });
+
+  it('waits for a session before sending enriched catches', async () => {
+    mockSession.token = null;
+    const { impl, calls } = fakeFetch([{ status: 200, body: {} }]);
+    const outbox = new CatchOutbox(impl);
+    await outbox.enqueue(catchInput);
+
+    const result = await outbox.sync();
+
+    expect(result.skipped).toBe(1);
+    expect(calls).toHaveLength(0);
+    expect((await outbox.getEntries())[0].attempts).toBe(0);
+  });
+
+  it('imports legacy pending catches once, keyed by their old id', async () => {
+    memoryStorage.set('findr_pending_catches', JSON.stringify({
+      catches: [
+        { id: 'local_old', createdAt: '2025-05-01T10:00:00Z', syncStatus: 'failed', syncAttempts: 2, catchData: catchInput, photoBase64: 'aGk=', photoMimeType: 'image/png' },
+        { id: 'local_done', createdAt: '2025-05-01T09:00:00Z', syncStatus: 'synced', syncAttempts: 1, catchData: catchInput },
+      ],
+      lastUpdated: '2025-05-01T10:00:00Z',
+    }));
+    const outbox = new CatchOutbox(fakeFetch([{ status: 200 }]).impl);
+
+    expect(await outbox.importLegacy()).toBe(1);
+    expect(await outbox.importLegacy()).toBe(0);
+
+    const entries = await outbox.getEntries();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].idempotencyKey).toBe('local_old');
+    expect(entries[0].photos).toEqual([{ base64: 'aGk=', mimeType: 'image/png' }]);
+    expect(entries[0].attempts).toBe(2);
+    expect(memoryStorage.has('findr_pending_catches')).toBe(false);
+  });
+
+  it('keeps legacy pending catches when the outbox cannot be written', async () => {
+    const legacy = JSON.stringify({
+      catches: [{ id: 'local_old', createdAt: '2025-05-01T10:00:00Z', syncStatus: 'pending', syncAttempts: 0, catchData: catchInput }],
+    });
+    memoryStorage.set('findr_pending_catches', legacy);
+    failingKeys.add('findr_catch_outbox');
+
+    await new CatchOutbox(fakeFetch([{ status: 200 }]).impl).importLegacy();
+
+    expect(memoryStorage.get('findr_pending_catches')).toBe(legacy);
+  });
+
+  it('keeps IndexedDB catch log photos in place until the log is sent', async () => {
+    const photo = new Blob([new Uint8Array(3 * 1024 * 1024)], { type: 'image/jpeg' });
+    mockCatchQueue.set('idb-1', {
+      id: 'idb-1',
+      timestamp: Date.UTC(2025, 4, 1),
+      retryCount: 2,
+      data: { speciesId: 'bass', rectangleCode: '31F1', date: '2025-05-01', photos: [photo] },
+    });
+    (globalThis as { indexedDB?: unknown }).indexedDB = {};
+    const { impl, calls } = fakeFetch([{ status: 200 }]);
+    const outbox = new CatchOutbox(impl);
+
+    try {
+      expect(await outbox.importLegacy()).toBe(1);
+      const [entry] = await outbox.getEntries();
+      expect(entry).toMatchObject({ attempts: 2, photos: [], photoStore: 'catch-queue', migratedFrom: 'catch-queue' });
+      expect(mockCatchQueue.has('idb-1')).toBe(true);
+
+      expect((await outbox.sync()).synced).toBe(1);
+      const sent = calls[0].body.getAll('photos') as Blob[];
+      expect(sent.map(p => p.size)).toEqual([photo.size]);
+      expect(mockCatchQueue.has('idb-1')).toBe(false);
+    } finally {
+      delete (globalThis as { indexedDB?: unknown }).indexedDB;
+    }
+  });
+
+  it('reports progress through one event stream', async () => {
+    const { impl } = fakeFetch([{ status: 200, body: {} }]);
+    const outbox = new CatchOutbox(impl);
+    await outbox.enqueue(catchInput);
+    await outbox.enqueue(catchInput);
+
+    const events: CatchOutboxEvent['type'][] = [];
+    const totals: number[] = [];
+    const unsubscribe = outbox.subscribe((event, state) => {
+      if (event.type === 'changed') return;
+      events.push(event.type);
+      totals.push(state.progress.synced);
+    });
+    await outbox.sync();
+    unsubscribe();
+
+    expect(events).toEqual(['sync-started', 'entry-synced', 'entry-synced', 'sync-completed']);
+    expect(totals).toEqual([0, 1, 2, 2]);
+    expect(outbox.getState().progress.inProgress).toBe(false);
+  });
+});
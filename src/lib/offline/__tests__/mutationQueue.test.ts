@@ -0,0 +1,178 @@
+/**
+ * Tests for the mutation queue sync engine
+ *
+ * Covers dependency ordering with local->server id remapping, coalescing,
+ * conflict strategies and dead letters.
+ */
+
+import { MutationQueueService, conflictStrategies, type Mutation } from '../mutationQueue';
+
+jest.mock('@capacitor/preferences', () => {
+  const store = new Map<string, string>();
+  return {
+    Preferences: {
+      get: async ({ key }: { key: string }) => ({ value: store.get(key) ?? null }),
+      set: async ({ key, value }: { key: string; value: string }) => { store.set(key, value); },
+    },
+  };
+});
+
+describe('lib/offline/mutationQueue', () => {
+  let queue: MutationQueueService;
+  let calls: Mutation[];
+
+  beforeEach(() => {
+    queue = new MutationQueueService();
+    calls = [];
+  });
+
+  it('runs dependents after the create and swaps in the server id', async () => {
+    queue.registerHandler('CREATE_PLANT', async (m) => {
+      calls.push(m);
+      return { success: true, serverId: 'srv-1' };
+    });
+    queue.registerHandler('LOG_WATERING', async (m) => {
+      calls.push(m);
+      return { success: true };
+    });
+
+    // Enqueued in the "wrong" order: the watering references the unsynced plant
+    const createId = await queue.enqueue({ type: 'CREATE_PLANT', payload: { name: 'Basil' }, localId: 'local-1', timestamp: 1 });
+    await queue.enqueue({ type: 'LOG_WATERING', payload: { plantId: 'local-1' }, timestamp: 2 });
+
+    expect(queue.getState().mutations[1].dependsOn).toEqual([createId]);
+
+    const result = await queue.processQueue();
+    expect(result).toEqual({ processed: 2, failed: 0 });
+    expect(calls.map(c => c.type)).toEqual(['CREATE_PLANT', 'LOG_WATERING']);
+    expect(calls[1].payload.plantId).toBe('srv-1');
+    expect(queue.resolveId('local-1')).toBe('srv-1');
+  });
+
+  it('keeps synced waterings as history once they leave the queue', async () => {
+    queue.registerHandler('LOG_WATERING', async () => ({ success: true }));
+    queue.registerHandler('UPDATE_HEALTH', async () => ({ success: true }));
+
+    const now = Date.now();
+    await queue.enqueue({ type: 'LOG_WATERING', payload: { bedId: 'b1', litres: 10 }, timestamp: now });
+    await queue.enqueue({ type: 'UPDATE_HEALTH', payload: { health: 'good' }, localId: 'p1', timestamp: now });
+    await queue.processQueue();
+
+    expect(queue.getPendingCount()).toBe(0);
+    expect(queue.getSyncedHistory().map(m => m.type)).toEqual(['LOG_WATERING']);
+    expect(queue.getSyncedHistory('LOG_WATERING')[0].payload).toEqual({ bedId: 'b1', litres: 10 });
+
+    // Reloaded from storage by a fresh instance
+    const reloaded = new MutationQueueService();
+    await reloaded.initialize();
+    expect(reloaded.getSyncedHistory('LOG_WATERING')).toHaveLength(1);
+  });
+
+  it('holds dependents while the create keeps failing', async () => {
+    queue.registerHandler('CREATE_PLANT', async () => ({ success: false, error: 'offline' }));
+    queue.registerHandler('LOG_WATERING', async (m) => {
+      calls.push(m);
+      return { success: true };
+    });
+
+    await queue.enqueue({ type: 'CREATE_PLANT', payload: {}, localId: 'local-1', timestamp: 1 });
+    await queue.enqueue({ type: 'LOG_WATERING', payload: { plantId: 'local-1' }, timestamp: 2 });
+
+    const result = await queue.processQueue();
+    expect(result).toEqual({ processed: 0, failed: 1 });
+    expect(calls).toHaveLength(0);
+    expect(queue.getPendingCount()).toBe(2);
+  });
+
+  it('coalesces updates and cancels the history of unsynced deletes', async () => {
+    await queue.enqueue({ type: 'UPDATE_PLANT', payload: { name: 'Mint' }, localId: 'p1', timestamp: 1 });
+    await queue.enqueue({ type: 'UPDATE_PLANT', payload: { notes: 'repotted' }, localId: 'p1', timestamp: 2 });
+
+    expect(queue.getPendingCount()).toBe(1);
+    expect(queue.getState().mutations[0].payload).toEqual({ name: 'Mint', notes: 'repotted' });
+
+    await queue.enqueue({ type: 'CREATE_PLANT', payload: {}, localId: 'local-2', timestamp: 3 });
+    await queue.enqueue({ type: 'LOG_WATERING', payload: { plantId: 'local-2' }, timestamp: 4 });
+    await queue.enqueue({ type: 'DELETE_PLANT', payload: {}, localId: 'local-2', timestamp: 5 });
+
+    expect(queue.getState().mutations.map(m => m.type)).toEqual(['UPDATE_PLANT']);
+  });
+
+  it('applies the conflict strategy for the mutation type', async () => {
+    let attempts = 0;
+    queue.registerHandler('UPDATE_PLANT', async (m) => {
+      calls.push(m);
+      attempts++;
+      return attempts === 1
+        ? { success: false, conflict: { serverVersion: 7 } }
+        : { success: true };
+    });
+    queue.setConflictResolver('UPDATE_PLANT', conflictStrategies.clientWins);
+
+    await queue.enqueue({ type: 'UPDATE_PLANT', payload: { name: 'Sage' }, localId: 'p1', baseVersion: 6, timestamp: 1 });
+    await queue.processQueue();
+    await queue.processQueue();
+
+    expect(calls[1].baseVersion).toBe(7);
+    expect(queue.getPendingCount()).toBe(0);
+
+    queue.setConflictResolver('UPDATE_HEALTH', conflictStrategies.serverWins);
+    queue.registerHandler('UPDATE_HEALTH', async () => ({ success: false, conflict: { serverVersion: 3 } }));
+    await queue.enqueue({ type: 'UPDATE_HEALTH', payload: {}, localId: 'p1', timestamp: 2 });
+    const result = await queue.processQueue();
+    expect(result.processed).toBe(1);
+    expect(queue.getPendingCount()).toBe(0);
+  });
+
+  it('dead-letters permanent failures with their dependents, and can retry them', async () => {
+    let fail = true;
+    queue.registerHandler('CREATE_PLANT', async () =>
+      fail ? { success: false, error: 'invalid species', permanent: true } : { success: true, serverId: 'srv-9' });
+    queue.registerHandler('LOG_WATERING', async (m) => {
+      calls.push(m);
+      return { success: true };
+    });
+
+    const createId = await queue.enqueue({ type: 'CREATE_PLANT', payload: {}, localId: 'local-9', timestamp: 1 });
+    await queue.enqueue({ type: 'LOG_WATERING', payload: { plantId: 'local-9' }, timestamp: 2 });
+    await queue.processQueue();
+
+    expect(queue.getPendingCount()).toBe(0);
+    expect(queue.getDeadLetters().map(d => d.mutation.type)).toEqual(['CREATE_PLANT', 'LOG_WATERING']);
+
+    fail = false;
+    expect(await queue.retryDeadLetter(createId)).toBe(true);
+    await queue.processQueue();
+
+    expect(queue.getDeadLetters()).toHaveLength(0);
+    expect(calls[0].payload.plantId).toBe('srv-9');
+  });
+
+  it('runs a re-created entity before changes queued after its dead-lettered create', async () => {
+    let fail = true;
+    queue.registerHandler('CREATE_PLANT', async (m) => {
+      calls.push(m);
+      return fail ? { success: false, error: 'invalid species', permanent: true } : { success: true, serverId: 'srv-4' };
+    });
+    queue.registerHandler('UPDATE_PLANT', async (m) => {
+      calls.push(m);
+      return m.localId === 'srv-4' ? { success: true } : { success: false, error: 'not found' };
+    });
+
+    await queue.enqueue({ type: 'CREATE_PLANT', payload: { name: 'Basil' }, localId: 'local-4', timestamp: 1 });
+    await queue.processQueue();
+    expect(queue.getDeadLetters()).toHaveLength(1);
+
+    // Edited while no create is pending, then created again
+    const updateId = await queue.enqueue({ type: 'UPDATE_PLANT', payload: { name: 'Thai basil' }, localId: 'local-4', timestamp: 2 });
+    fail = false;
+    const createId = await queue.enqueue({ type: 'CREATE_PLANT', payload: { name: 'Basil' }, localId: 'local-4', timestamp: 3 });
+
+    expect(queue.getState().mutations.map(m => m.id)).toEqual([createId, updateId]);
+    expect(queue.getState().mutations[1].dependsOn).toEqual([createId]);
+
+    await queue.processQueue();
+    expect(calls.slice(1).map(m => [m.type, m.localId])).toEqual([['CREATE_PLANT', 'local-4'], ['UPDATE_PLANT', 'srv-4']]);
+    expect(queue.getPendingCount()).toBe(0);
+  });
+});
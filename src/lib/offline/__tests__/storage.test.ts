@@ -16,6 +16,12 @@ jest.mock('../db', () => ({
   clearAllData: jest.fn(),
 }));
 
+const mockEnqueueCatchLog = jest.fn();
+
+jest.mock('../catchOutbox', () => ({
+  getCatchOutbox: () => ({ enqueueCatchLog: mockEnqueueCatchLog }),
+}));
+
 import { getDB, getDatabaseSize, clearAllData } from '../db';
 
 const mockGetDB = getDB as jest.MockedFunction<typeof getDB>;
@@ -487,6 +493,15 @@ describe('lib/offline/storage', () => {
         });
       });
 
+      it('should hand the queued log to the catch outbox', async () => {
+        const id = await storage.queueCatchLog({
+          data: { speciesId: 'cod', rectangleCode: '31F1', date: '2025-01-06' },
+        });
+
+        expect(mockEnqueueCatchLog).toHaveBeenCalledWith(mockDB.put.mock.calls[0][1]);
+        expect(mockEnqueueCatchLog.mock.calls[0][0].id).toBe(id);
+      });
+
       it('should initialize retryCount to 0', async () => {
         await storage.queueCatchLog({
           data: {
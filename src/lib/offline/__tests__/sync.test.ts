@@ -1,28 +1,27 @@
 /**
  * Tests for Sync Service
  *
- * Tests background sync of catch logs, retry logic with exponential backoff,
- * network reconnection handling, and event listeners.
+ * Tests network reconnection handling, delegation of catch uploads to the
+ * catch outbox, and event listeners. Upload, retry and idempotency behaviour
+ * is covered in catchOutbox.test.ts.
  */
 
-import { SyncService, getSyncService, SyncResult } from '../sync';
-import { getStorage, PendingCatchLog } from '../storage';
+import { SyncService, getSyncService } from '../sync';
+import { getCatchOutbox, type CatchOutboxSyncResult } from '../catchOutbox';
 import { getNetworkMonitor, NetworkStatus } from '../network';
 
 // Mock dependencies
-jest.mock('../storage');
+jest.mock('../catchOutbox');
 jest.mock('../network');
 
-const mockGetStorage = getStorage as jest.MockedFunction<typeof getStorage>;
+const mockGetCatchOutbox = getCatchOutbox as jest.MockedFunction<typeof getCatchOutbox>;
 const mockGetNetworkMonitor = getNetworkMonitor as jest.MockedFunction<typeof getNetworkMonitor>;
 
-// Mock fetch
-global.fetch = jest.fn();
-const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+const emptyResult: CatchOutboxSyncResult = { synced: 0, failed: 0, skipped: 0, errors: [] };
 
 describe('lib/offline/sync', () => {
   let syncService: SyncService;
-  let mockStorage: any;
+  let mockOutbox: any;
   let mockNetworkMonitor: any;
   let networkListeners: Set<(status: NetworkStatus) => void>;
 
@@ -30,13 +29,12 @@ describe('lib/offline/sync', () => {
     jest.clearAllMocks();
     networkListeners = new Set();
 
-    // Mock storage service
-    mockStorage = {
-      getPendingCatchLogs: jest.fn(),
-      removeCatchLog: jest.fn(),
-      updateCatchLogRetryCount: jest.fn(),
+    // Mock catch outbox
+    mockOutbox = {
+      sync: jest.fn().mockResolvedValue(emptyResult),
+      getEntries: jest.fn().mockResolvedValue([]),
     };
-    mockGetStorage.mockReturnValue(mockStorage);
+    mockGetCatchOutbox.mockReturnValue(mockOutbox);
 
     // Mock network monitor
     mockNetworkMonitor = {
@@ -86,7 +84,6 @@ describe('lib/offline/sync', () => {
 
     it('should trigger sync when network reconnects', async () => {
       mockNetworkMonitor.isOnline.mockResolvedValue(true);
-      mockStorage.getPendingCatchLogs.mockResolvedValue([]);
 
       syncService.start();
 
@@ -103,7 +100,7 @@ describe('lib/offline/sync', () => {
       // Wait for async sync to complete
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(mockStorage.getPendingCatchLogs).toHaveBeenCalled();
+      expect(mockOutbox.sync).toHaveBeenCalled();
     });
 
     it('should not sync when network disconnects', async () => {
@@ -121,7 +118,7 @@ describe('lib/offline/sync', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(mockStorage.getPendingCatchLogs).not.toHaveBeenCalled();
+      expect(mockOutbox.sync).not.toHaveBeenCalled();
     });
 
     it('should stop listening when stopped', () => {
@@ -136,21 +133,20 @@ describe('lib/offline/sync', () => {
 
     it('should trigger initial sync if online when started', async () => {
       mockNetworkMonitor.isOnline.mockResolvedValue(true);
-      mockStorage.getPendingCatchLogs.mockResolvedValue([]);
 
       syncService.start();
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(mockStorage.getPendingCatchLogs).toHaveBeenCalled();
+      expect(mockOutbox.sync).toHaveBeenCalled();
     });
   });
 
   describe('syncNow', () => {
     it('should return early if already syncing', async () => {
       mockNetworkMonitor.isOnline.mockResolvedValue(true);
-      mockStorage.getPendingCatchLogs.mockImplementation(
-        () => new Promise((resolve) => setTimeout(() => resolve([]), 100))
+      mockOutbox.sync.mockImplementation(
+        () => new Promise((resolve) => setTimeout(() => resolve(emptyResult), 100))
       );
 
       // Start first sync
@@ -163,6 +159,7 @@ describe('lib/offline/sync', () => {
 
       // Cleanup
       await sync1Promise;
+      expect(mockOutbox.sync).toHaveBeenCalledTimes(1);
     });
 
     it('should return early if offline', async () => {
@@ -171,298 +168,50 @@ describe('lib/offline/sync', () => {
       const result = await syncService.syncNow();
 
       expect(result).toEqual({ syncedCount: 0, failedCount: 0, errors: [] });
-      expect(mockStorage.getPendingCatchLogs).not.toHaveBeenCalled();
+      expect(mockOutbox.sync).not.toHaveBeenCalled();
     });
 
-    it('should return early if no pending logs', async () => {
+    it('should delegate to the catch outbox and map the result', async () => {
       mockNetworkMonitor.isOnline.mockResolvedValue(true);
-      mockStorage.getPendingCatchLogs.mockResolvedValue([]);
-
-      const result = await syncService.syncNow();
-
-      expect(result).toEqual({ syncedCount: 0, failedCount: 0, errors: [] });
-    });
-
-    it('should sync pending catch logs successfully', async () => {
-      mockNetworkMonitor.isOnline.mockResolvedValue(true);
-
-      const pendingLogs: PendingCatchLog[] = [
-        {
-          id: 'log-1',
-          timestamp: Date.now(),
-          data: {
-            speciesId: 'cod',
-            rectangleCode: '31F1',
-            date: '2025-01-06',
-          },
-          retryCount: 0,
-        },
-      ];
-
-      mockStorage.getPendingCatchLogs.mockResolvedValue(pendingLogs);
-      mockFetch.mockResolvedValue({
-        ok: true,
-        text: async () => 'Success',
-      } as Response);
-
-      const result = await syncService.syncNow();
-
-      expect(result.syncedCount).toBe(1);
-      expect(result.failedCount).toBe(0);
-      expect(mockStorage.removeCatchLog).toHaveBeenCalledWith('log-1');
-    });
-
-    it('should handle sync failures and update retry count', async () => {
-      mockNetworkMonitor.isOnline.mockResolvedValue(true);
-
-      const pendingLogs: PendingCatchLog[] = [
-        {
-          id: 'log-1',
-          timestamp: Date.now(),
-          data: {
-            speciesId: 'cod',
-            rectangleCode: '31F1',
-            date: '2025-01-06',
-          },
-          retryCount: 0,
-        },
-      ];
-
-      mockStorage.getPendingCatchLogs.mockResolvedValue(pendingLogs);
-      mockFetch.mockResolvedValue({
-        ok: false,
-        status: 500,
-        text: async () => 'Server error',
-      } as Response);
-
-      const result = await syncService.syncNow();
-
-      expect(result.syncedCount).toBe(0);
-      expect(result.failedCount).toBe(1);
-      expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toEqual({
-        id: 'log-1',
-        error: 'API error: 500 - Server error',
+      mockOutbox.sync.mockResolvedValue({
+        synced: 2,
+        failed: 1,
+        skipped: 0,
+        errors: [{ id: 'local_3', error: 'HTTP 500' }],
       });
-      expect(mockStorage.updateCatchLogRetryCount).toHaveBeenCalledWith('log-1');
-    });
-
-    it('should remove logs after 5 failed retries', async () => {
-      mockNetworkMonitor.isOnline.mockResolvedValue(true);
-
-      const pendingLogs: PendingCatchLog[] = [
-        {
-          id: 'log-1',
-          timestamp: Date.now(),
-          data: {
-            speciesId: 'cod',
-            rectangleCode: '31F1',
-            date: '2025-01-06',
-          },
-          retryCount: 5, // Already at max retries
-        },
-      ];
-
-      mockStorage.getPendingCatchLogs.mockResolvedValue(pendingLogs);
-      mockFetch.mockResolvedValue({
-        ok: false,
-        status: 500,
-        text: async () => 'Server error',
-      } as Response);
-
-      await syncService.syncNow();
-
-      expect(mockStorage.removeCatchLog).toHaveBeenCalledWith('log-1');
-    });
-
-    it('should send FormData with all log fields', async () => {
-      mockNetworkMonitor.isOnline.mockResolvedValue(true);
-
-      const pendingLogs: PendingCatchLog[] = [
-        {
-          id: 'log-1',
-          timestamp: Date.now(),
-          data: {
-            speciesId: 'cod',
-            rectangleCode: '31F1',
-            date: '2025-01-06',
-            bait: 'lugworm',
-            habitat: 'rocky',
-            metadata: { notes: 'Good catch' },
-          },
-          retryCount: 0,
-        },
-      ];
-
-      mockStorage.getPendingCatchLogs.mockResolvedValue(pendingLogs);
-      mockFetch.mockResolvedValue({
-        ok: true,
-        text: async () => 'Success',
-      } as Response);
-
-      await syncService.syncNow();
-
-      expect(mockFetch).toHaveBeenCalledWith(
-        '/api/findr/catch-log',
-        expect.objectContaining({
-          method: 'POST',
-          body: expect.any(FormData),
-        })
-      );
-
-      const formData = mockFetch.mock.calls[0][1]?.body as FormData;
-      expect(formData.get('speciesId')).toBe('cod');
-      expect(formData.get('rectangleCode')).toBe('31F1');
-      expect(formData.get('date')).toBe('2025-01-06');
-      expect(formData.get('bait')).toBe('lugworm');
-      expect(formData.get('habitat')).toBe('rocky');
-      expect(formData.get('metadata')).toBe(JSON.stringify({ notes: 'Good catch' }));
-    });
-
-    it('should preserve photo blobs during sync', async () => {
-      mockNetworkMonitor.isOnline.mockResolvedValue(true);
-
-      const photo1 = new Blob(['photo1'], { type: 'image/jpeg' });
-      const photo2 = new Blob(['photo2'], { type: 'image/jpeg' });
-
-      const pendingLogs: PendingCatchLog[] = [
-        {
-          id: 'log-1',
-          timestamp: Date.now(),
-          data: {
-            speciesId: 'cod',
-            rectangleCode: '31F1',
-            date: '2025-01-06',
-            photos: [photo1, photo2],
-          },
-          retryCount: 0,
-        },
-      ];
-
-      mockStorage.getPendingCatchLogs.mockResolvedValue(pendingLogs);
-      mockFetch.mockResolvedValue({
-        ok: true,
-        text: async () => 'Success',
-      } as Response);
-
-      await syncService.syncNow();
-
-      const formData = mockFetch.mock.calls[0][1]?.body as FormData;
-      const photos = formData.getAll('photos');
-
-      expect(photos).toHaveLength(2);
-      expect(photos[0]).toBeInstanceOf(Blob);
-      expect(photos[1]).toBeInstanceOf(Blob);
-    });
-
-    it('should sync multiple logs in sequence', async () => {
-      mockNetworkMonitor.isOnline.mockResolvedValue(true);
-
-      const pendingLogs: PendingCatchLog[] = [
-        {
-          id: 'log-1',
-          timestamp: Date.now(),
-          data: { speciesId: 'cod', rectangleCode: '31F1', date: '2025-01-06' },
-          retryCount: 0,
-        },
-        {
-          id: 'log-2',
-          timestamp: Date.now(),
-          data: { speciesId: 'haddock', rectangleCode: '31F2', date: '2025-01-06' },
-          retryCount: 0,
-        },
-        {
-          id: 'log-3',
-          timestamp: Date.now(),
-          data: { speciesId: 'mackerel', rectangleCode: '31F1', date: '2025-01-06' },
-          retryCount: 0,
-        },
-      ];
-
-      mockStorage.getPendingCatchLogs.mockResolvedValue(pendingLogs);
-      mockFetch.mockResolvedValue({
-        ok: true,
-        text: async () => 'Success',
-      } as Response);
 
       const result = await syncService.syncNow();
 
-      expect(result.syncedCount).toBe(3);
-      expect(result.failedCount).toBe(0);
-      expect(mockFetch).toHaveBeenCalledTimes(3);
-      expect(mockStorage.removeCatchLog).toHaveBeenCalledWith('log-1');
-      expect(mockStorage.removeCatchLog).toHaveBeenCalledWith('log-2');
-      expect(mockStorage.removeCatchLog).toHaveBeenCalledWith('log-3');
+      expect(result).toEqual({
+        syncedCount: 2,
+        failedCount: 1,
+        errors: [{ id: 'local_3', error: 'HTTP 500' }],
+      });
     });
 
-    it('should continue syncing even if some logs fail', async () => {
+    it('should propagate outbox errors and reset syncing state', async () => {
       mockNetworkMonitor.isOnline.mockResolvedValue(true);
+      mockOutbox.sync.mockRejectedValue(new Error('Storage unavailable'));
 
-      const pendingLogs: PendingCatchLog[] = [
-        {
-          id: 'log-1',
-          timestamp: Date.now(),
-          data: { speciesId: 'cod', rectangleCode: '31F1', date: '2025-01-06' },
-          retryCount: 0,
-        },
-        {
-          id: 'log-2',
-          timestamp: Date.now(),
-          data: { speciesId: 'haddock', rectangleCode: '31F2', date: '2025-01-06' },
-          retryCount: 0,
-        },
-      ];
-
-      mockStorage.getPendingCatchLogs.mockResolvedValue(pendingLogs);
-
-      // First log succeeds, second fails
-      mockFetch
-        .mockResolvedValueOnce({
-          ok: true,
-          text: async () => 'Success',
-        } as Response)
-        .mockResolvedValueOnce({
-          ok: false,
-          status: 500,
-          text: async () => 'Server error',
-        } as Response);
-
-      const result = await syncService.syncNow();
-
-      expect(result.syncedCount).toBe(1);
-      expect(result.failedCount).toBe(1);
-      expect(mockStorage.removeCatchLog).toHaveBeenCalledWith('log-1');
-      expect(mockStorage.updateCatchLogRetryCount).toHaveBeenCalledWith('log-2');
+      await expect(syncService.syncNow()).rejects.toThrow('Storage unavailable');
+      expect(syncService.isSyncInProgress()).toBe(false);
     });
   });
 
   describe('getPendingSyncCount', () => {
-    it('should return count of pending logs', async () => {
-      const pendingLogs: PendingCatchLog[] = [
-        {
-          id: 'log-1',
-          timestamp: Date.now(),
-          data: { speciesId: 'cod', rectangleCode: '31F1', date: '2025-01-06' },
-          retryCount: 0,
-        },
-        {
-          id: 'log-2',
-          timestamp: Date.now(),
-          data: { speciesId: 'haddock', rectangleCode: '31F2', date: '2025-01-06' },
-          retryCount: 0,
-        },
-      ];
-
-      mockStorage.getPendingCatchLogs.mockResolvedValue(pendingLogs);
+    it('should count outbox entries that will be retried', async () => {
+      mockOutbox.getEntries.mockResolvedValue([
+        { id: 'a', status: 'pending' },
+        { id: 'b', status: 'failed' },
+        { id: 'c', status: 'dead' },
+      ]);
 
       const count = await syncService.getPendingSyncCount();
 
       expect(count).toBe(2);
     });
 
-    it('should return 0 if no pending logs', async () => {
-      mockStorage.getPendingCatchLogs.mockResolvedValue([]);
-
+    it('should return 0 if the outbox is empty', async () => {
       const count = await syncService.getPendingSyncCount();
 
       expect(count).toBe(0);
@@ -476,8 +225,8 @@ describe('lib/offline/sync', () => {
 
     it('should return true during sync', async () => {
       mockNetworkMonitor.isOnline.mockResolvedValue(true);
-      mockStorage.getPendingCatchLogs.mockImplementation(
-        () => new Promise((resolve) => setTimeout(() => resolve([]), 50))
+      mockOutbox.sync.mockImplementation(
+        () => new Promise((resolve) => setTimeout(() => resolve(emptyResult), 50))
       );
 
       // Start sync (don't await)
@@ -496,7 +245,6 @@ describe('lib/offline/sync', () => {
   describe('Event listeners', () => {
     it('should notify listeners on sync complete', async () => {
       mockNetworkMonitor.isOnline.mockResolvedValue(true);
-      mockStorage.getPendingCatchLogs.mockResolvedValue([]);
 
       const listener = jest.fn();
       syncService.onSyncComplete(listener);
@@ -512,7 +260,6 @@ describe('lib/offline/sync', () => {
 
     it('should notify multiple listeners', async () => {
       mockNetworkMonitor.isOnline.mockResolvedValue(true);
-      mockStorage.getPendingCatchLogs.mockResolvedValue([]);
 
       const listener1 = jest.fn();
       const listener2 = jest.fn();
@@ -527,7 +274,6 @@ describe('lib/offline/sync', () => {
 
     it('should remove listener via cleanup function', async () => {
       mockNetworkMonitor.isOnline.mockResolvedValue(true);
-      mockStorage.getPendingCatchLogs.mockResolvedValue([]);
 
       const listener = jest.fn();
       const cleanup = syncService.onSyncComplete(listener);
@@ -542,7 +288,6 @@ describe('lib/offline/sync', () => {
 
     it('should handle listener errors gracefully', async () => {
       mockNetworkMonitor.isOnline.mockResolvedValue(true);
-      mockStorage.getPendingCatchLogs.mockResolvedValue([]);
 
       const badListener = jest.fn().mockImplementation(() => {
         throw new Error('Listener error');
@@ -562,7 +307,6 @@ describe('lib/offline/sync', () => {
   describe('destroy', () => {
     it('should stop sync and clear listeners', async () => {
       mockNetworkMonitor.isOnline.mockResolvedValue(true);
-      mockStorage.getPendingCatchLogs.mockResolvedValue([]);
 
       const listener = jest.fn();
       syncService.onSyncComplete(listener);
@@ -578,113 +322,4 @@ describe('lib/offline/sync', () => {
       expect(networkListeners.size).toBe(0);
     });
   });
-
-  describe('Error handling', () => {
-    it('should handle network errors during sync', async () => {
-      mockNetworkMonitor.isOnline.mockResolvedValue(true);
-
-      const pendingLogs: PendingCatchLog[] = [
-        {
-          id: 'log-1',
-          timestamp: Date.now(),
-          data: { speciesId: 'cod', rectangleCode: '31F1', date: '2025-01-06' },
-          retryCount: 0,
-        },
-      ];
-
-      mockStorage.getPendingCatchLogs.mockResolvedValue(pendingLogs);
-      mockFetch.mockRejectedValue(new Error('Network failure'));
-
-      const result = await syncService.syncNow();
-
-      expect(result.failedCount).toBe(1);
-      expect(result.errors[0].error).toBe('Network failure');
-    });
-
-    it('should handle malformed responses', async () => {
-      mockNetworkMonitor.isOnline.mockResolvedValue(true);
-
-      const pendingLogs: PendingCatchLog[] = [
-        {
-          id: 'log-1',
-          timestamp: Date.now(),
-          data: { speciesId: 'cod', rectangleCode: '31F1', date: '2025-01-06' },
-          retryCount: 0,
-        },
-      ];
-
-      mockStorage.getPendingCatchLogs.mockResolvedValue(pendingLogs);
-      mockFetch.mockResolvedValue({
-        ok: false,
-        status: 400,
-        text: async () => {
-          throw new Error('Failed to read response');
-        },
-      } as Response);
-
-      const result = await syncService.syncNow();
-
-      expect(result.failedCount).toBe(1);
-    });
-  });
-
-  describe('Retry logic', () => {
-    it('should track retry count correctly', async () => {
-      mockNetworkMonitor.isOnline.mockResolvedValue(true);
-
-      const pendingLogs: PendingCatchLog[] = [
-        {
-          id: 'log-1',
-          timestamp: Date.now(),
-          data: { speciesId: 'cod', rectangleCode: '31F1', date: '2025-01-06' },
-          retryCount: 2, // Already retried twice
-        },
-      ];
-
-      mockStorage.getPendingCatchLogs.mockResolvedValue(pendingLogs);
-      mockFetch.mockResolvedValue({
-        ok: false,
-        status: 500,
-        text: async () => 'Error',
-      } as Response);
-
-      await syncService.syncNow();
-
-      expect(mockStorage.updateCatchLogRetryCount).toHaveBeenCalledWith('log-1');
-      // Should NOT remove yet (< 5 retries)
-      expect(mockStorage.removeCatchLog).not.toHaveBeenCalled();
-    });
-
-    it('should remove logs exactly at 5 retries', async () => {
-      mockNetworkMonitor.isOnline.mockResolvedValue(true);
-
-      for (let retries = 0; retries <= 6; retries++) {
-        jest.clearAllMocks();
-
-        const pendingLogs: PendingCatchLog[] = [
-          {
-            id: `log-${retries}`,
-            timestamp: Date.now(),
-            data: { speciesId: 'cod', rectangleCode: '31F1', date: '2025-01-06' },
-            retryCount: retries,
-          },
-        ];
-
-        mockStorage.getPendingCatchLogs.mockResolvedValue(pendingLogs);
-        mockFetch.mockResolvedValue({
-          ok: false,
-          status: 500,
-          text: async () => 'Error',
-        } as Response);
-
-        await syncService.syncNow();
-
-        if (retries >= 5) {
-          expect(mockStorage.removeCatchLog).toHaveBeenCalledWith(`log-${retries}`);
-        } else {
-          expect(mockStorage.removeCatchLog).not.toHaveBeenCalled();
-        }
-      }
-    });
-  });
 });
@@ -23,6 +23,8 @@ export interface CachedCatch {
   }> | null;
   // Cached thumbnail as base64 for offline
   cached_thumbnail?: string;
+  // Set while the catch is still in the offline outbox
+  sync_status?: 'pending' | 'failed';
 }
 
 export interface CatchHistoryCache {
@@ -0,0 +1,805 @@
+/**
+ * Catch Outbox
+ *
+ * The single offline queue for logged catches. Replaces the separate queues
+ * in storage.ts (IndexedDB `catch-queue`) and pendingCatches.ts (Preferences),
+ * which now either delegate here or are drained into it by `importLegacy()`.
+ * Catch logs with photo blobs keep them in their IndexedDB `catch-queue`
+ * record (no size limit, no localStorage quota); the outbox entry refers to
+ * it and the record is deleted once the entry is synced or removed.
+ *
+ * - Every entry carries an idempotency key, sent as the `Idempotency-Key`
+ *   header, so a retry after a lost response cannot create a duplicate.
+ * - One retry policy: MAX_ATTEMPTS transient failures, or any permanent
+ *   (4xx) failure, moves an entry to `dead` where it stays visible and can be
+ *   retried by the user instead of disappearing. Between attempts an entry
+ *   waits out an exponential backoff, so a catch the server keeps rejecting
+ *   isn't resent on every connectivity change.
+ * - One progress/event stream via `subscribe()`, used by OfflineIndicator.
+ * - Catches logged with a userId are shown in the cached catch history
+ *   straight away and get their server id once synced.
+ *
+ * Usage:
+ * ```typescript
+ * import { getCatchOutbox } from './catchOutbox';
+ *
+ * const outbox = getCatchOutbox();
+ * await outbox.enqueue(catchInput, { userId });
+ * const unsubscribe = outbox.subscribe((event, state) => render(state.progress));
+ * await outbox.sync();
+ * ```
+ */
+
+import type { CatchLogInput, CatchLogResponse } from '../findr-enrichment';
+import { addCatchToCache, updateCatchInCache, type CachedCatch } from './catchHistory';
+import type { PendingCatchLog } from './storage';
+
+const STORAGE_KEY = 'findr_catch_outbox';
+const LEGACY_PENDING_KEY = 'findr_pending_catches';
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const MAX_PHOTO_SIZE_BYTES = 2 * 1024 * 1024; // 2MB max for offline photo storage
+const ENRICHED_ENDPOINT = '/api/findr/log-catch-enriched';
+const BASIC_ENDPOINT = '/api/findr/catch-log';
+
+export type CatchOutboxStatus = 'pending' | 'syncing' | 'failed' | 'dead';
+
+export interface OutboxPhoto {
+  base64: string;
+  mimeType: string;
+}
+
+/**
+ * What to send. `enriched` is the current catch logger format; `basic` is
+ * the older IndexedDB catch log format, kept so migrated entries are sent
+ * to the endpoint that understands them.
+ */
+export type CatchOutboxPayload =
+  | { kind: 'enriched'; input: Omit<CatchLogInput, 'photo'> }
+  | { kind: 'basic'; data: Omit<PendingCatchLog['data'], 'photos'> };
+
+export interface CatchOutboxEntry {
+  id: string;
+  idempotencyKey: string;
+  createdAt: string;
+  status: CatchOutboxStatus;
+  attempts: number;
+  lastAttemptAt?: string;
+  /** Not sent again before this time (set after a failed attempt) */
+  nextAttemptAt?: string;
+  lastError?: string;
+  payload: CatchOutboxPayload;
+  photos: OutboxPhoto[];
+  /** Owner of the optimistic catch history entry */
+  userId?: string;
+  /** Photos are blobs in the IndexedDB `catch-queue` record with this entry's id */
+  photoStore?: 'catch-queue';
+  migratedFrom?: 'catch-queue' | 'pending-catches';
+}
+
+export interface CatchOutboxProgress {
+  total: number;
+  synced: number;
+  failed: number;
+  inProgress: boolean;
+  current: CatchOutboxEntry | null;
+}
+
+export interface CatchOutboxState {
+  entries: CatchOutboxEntry[];
+  /** Waiting for (another) attempt */
+  pending: number;
+  /** Gave up; needs `retry()` or `remove()` */
+  dead: number;
+  progress: CatchOutboxProgress;
+}
+
+export interface CatchOutboxSyncResult {
+  synced: number;
+  failed: number;
+  skipped: number;
+  errors: Array<{ id: string; error: string }>;
+}
+
+export type CatchOutboxEvent =
+  | { type: 'changed' }
+  | { type: 'migrated'; count: number }
+  | { type: 'sync-started'; total: number }
+  | { type: 'entry-synced'; entry: CatchOutboxEntry; serverId?: string }
+  | { type: 'entry-failed'; entry: CatchOutboxEntry; error: string; willRetry: boolean }
+  | { type: 'sync-completed'; result: CatchOutboxSyncResult };
+
+export type CatchOutboxListener = (event: CatchOutboxEvent, state: CatchOutboxState) => void;
+
+interface OutboxStore {
+  entries: CatchOutboxEntry[];
+  version: number;
+}
+
+interface SendResult {
+  ok: boolean;
+  /** Retrying cannot succeed */
+  permanent?: boolean;
+  serverId?: string;
+  error?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function generateLocalId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return `local_${crypto.randomUUID()}`;
+  }
+  // Fallback for older browsers
+  return `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Convert a File/Blob to base64 (null if too large to keep offline)
+ */
+export async function blobToBase64(blob: Blob): Promise<OutboxPhoto | null> {
+  if (blob.size > MAX_PHOTO_SIZE_BYTES) {
+    console.warn('[catchOutbox] Photo too large for offline storage:', blob.size);
+    return null;
+  }
+  try {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    return { base64: btoa(binary), mimeType: blob.type || 'image/jpeg' };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert base64 back to Blob
+ */
+export function base64ToBlob(base64: string, mimeType: string): Blob {
+  const byteCharacters = atob(base64);
+  const byteArray = new Uint8Array(byteCharacters.length);
+  for (let i = 0; i < byteCharacters.length; i++) {
+    byteArray[i] = byteCharacters.charCodeAt(i);
+  }
+  return new Blob([byteArray], { type: mimeType });
+}
+
+/**
+ * Build FormData for the enriched catch endpoint
+ */
+export function buildCatchFormData(input: CatchLogInput): FormData {
+  const formData = new FormData();
+
+  // Core fields
+  formData.append('species_name', input.speciesCommonName);
+  formData.append('quantity', String(input.quantity));
+  formData.append('catch_date', input.catchDate);
+
+  // Optional fields
+  if (input.catchTime) formData.append('catch_time', input.catchTime);
+  if (input.speciesId) formData.append('species_id', input.speciesId);
+  if (input.scientificName) formData.append('scientific_name', input.scientificName);
+  if (input.rectangleCode) formData.append('rectangle_code', input.rectangleCode);
+  if (input.sizeCategory) formData.append('size_category', input.sizeCategory);
+  if (input.weightKg !== undefined && input.weightKg !== null) {
+    formData.append('weight_kg', String(input.weightKg));
+  }
+  if (input.lengthCm !== undefined && input.lengthCm !== null) {
+    formData.append('length_cm', String(input.lengthCm));
+  }
+  if (input.baitUsed) formData.append('bait_used', input.baitUsed);
+  if (input.tackleUsed) formData.append('tackle_used', input.tackleUsed);
+  if (input.method) formData.append('method', input.method);
+  if (input.habitatType) formData.append('habitat_type', input.habitatType);
+  if (input.depthRange) formData.append('depth_range', input.depthRange);
+  if (input.notes) formData.append('notes', input.notes);
+  if (input.entryType) formData.append('entry_type', input.entryType);
+  if (input.isBlankTrip !== undefined) {
+    formData.append('is_blank_trip', String(input.isBlankTrip));
+  }
+
+  // Location
+  if (input.userLocation) {
+    formData.append('user_lat', String(input.userLocation.lat));
+    formData.append('user_lon', String(input.userLocation.lon));
+  }
+
+  // AI identification fields
+  if (input.aiSuggestedSpeciesId) {
+    formData.append('ai_suggested_species_id', input.aiSuggestedSpeciesId);
+  }
+  if (input.aiSuggestedSpeciesName) {
+    formData.append('ai_suggested_species_name', input.aiSuggestedSpeciesName);
+  }
+  if (input.aiConfidence !== undefined && input.aiConfidence !== null) {
+    formData.append('ai_confidence', String(input.aiConfidence));
+  }
+  if (input.aiMethod) formData.append('ai_method', input.aiMethod);
+  if (input.aiReasoning) formData.append('ai_reasoning', input.aiReasoning);
+  if (input.aiWasCorrected !== undefined) {
+    formData.append('ai_was_corrected', String(input.aiWasCorrected));
+  }
+  if (input.aiGaveUp !== undefined) {
+    formData.append('ai_gave_up', String(input.aiGaveUp));
+  }
+  if (input.identificationSource) {
+    formData.append('identification_source', input.identificationSource);
+  }
+
+  // Photo
+  if (input.photo) {
+    formData.append('photo', input.photo, 'catch-photo.jpg');
+  }
+
+  return formData;
+}
+
+/**
+ * Build FormData for the basic catch log endpoint
+ */
+function buildBasicFormData(
+  entry: CatchOutboxEntry,
+  data: Omit<PendingCatchLog['data'], 'photos'>,
+  storedPhotos: Blob[] = []
+): FormData {
+  const formData = new FormData();
+  formData.append('speciesId', data.speciesId);
+  formData.append('rectangleCode', data.rectangleCode);
+  formData.append('date', data.date);
+  if (data.bait) formData.append('bait', data.bait);
+  if (data.habitat) formData.append('habitat', data.habitat);
+  if (data.metadata) formData.append('metadata', JSON.stringify(data.metadata));
+  const photos = [...entry.photos.map(photo => base64ToBlob(photo.base64, photo.mimeType)), ...storedPhotos];
+  photos.forEach((photo, i) => {
+    formData.append('photos', photo, `catch-photo-${entry.id}-${i}.jpg`);
+  });
+  return formData;
+}
+
+/**
+ * Optimistic catch history entry for a catch that has not synced yet
+ */
+function toCachedCatch(id: string, input: Omit<CatchLogInput, 'photo'>, photo?: OutboxPhoto): CachedCatch {
+  return {
+    id,
+    species_id: input.speciesId ?? '',
+    species_common_name: input.speciesCommonName,
+    caught_at: input.catchTime ? `${input.catchDate}T${input.catchTime}` : input.catchDate,
+    rectangle_code: input.rectangleCode ?? '',
+    quantity: input.quantity,
+    size_category: input.sizeCategory ?? '',
+    bait_used: input.baitUsed ?? '',
+    habitat_type: input.habitatType ?? undefined,
+    notes: input.notes ?? undefined,
+    cached_thumbnail: photo ? `data:${photo.mimeType};base64,${photo.base64}` : undefined,
+    sync_status: 'pending',
+  };
+}
+
+/**
+ * Outbox entry for an IndexedDB catch log, carrying over its retry count.
+ * The photos stay in the IndexedDB record.
+ */
+function fromCatchQueue(log: PendingCatchLog, migrated: boolean): CatchOutboxEntry {
+  const { photos: _photos, ...data } = log.data;
+  return {
+    id: log.id,
+    idempotencyKey: log.id,
+    createdAt: new Date(log.timestamp).toISOString(),
+    ...carriedAttempts(log.retryCount),
+    payload: { kind: 'basic', data },
+    photos: [],
+    photoStore: 'catch-queue',
+    ...(migrated ? { migratedFrom: 'catch-queue' as const } : {}),
+  };
+}
+
+/**
+ * Attempts already made by a legacy queue; out of attempts means dead
+ */
+function carriedAttempts(attempts = 0): Pick<CatchOutboxEntry, 'status' | 'attempts'> {
+  return { status: attempts >= MAX_ATTEMPTS ? 'dead' : 'pending', attempts };
+}
+
+/**
+ * Check if running on native platform
+ */
+async function isNativePlatform(): Promise<boolean> {
+  if (typeof window === 'undefined') return false;
+  try {
+    const { Capacitor } = await import('@capacitor/core');
+    return Capacitor.isNativePlatform();
+  } catch {
+    return false;
+  }
+}
+
+async function readKey(key: string): Promise<string | null> {
+  if (await isNativePlatform()) {
+    const { Preferences } = await import('@capacitor/preferences');
+    const { value } = await Preferences.get({ key });
+    return value;
+  }
+  if (typeof localStorage === 'undefined') return null;
+  return localStorage.getItem(key);
+}
+
+async function writeKey(key: string, value: string | null): Promise<void> {
+  if (await isNativePlatform()) {
+    const { Preferences } = await import('@capacitor/preferences');
+    if (value === null) {
+      await Preferences.remove({ key });
+    } else {
+      await Preferences.set({ key, value });
+    }
+    return;
+  }
+  if (typeof localStorage === 'undefined') return;
+  if (value === null) {
+    localStorage.removeItem(key);
+  } else {
+    localStorage.setItem(key, value);
+  }
+}
+
+/**
+ * Get Supabase access token
+ */
+async function getAccessToken(): Promise<string | null> {
+  try {
+    const { supabase } = await import('../supabase/client');
+    const { data, error } = await supabase.auth.getSession();
+    if (error || !data.session) return null;
+    return data.session.access_token;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Outbox
+// ============================================================================
+
+export class CatchOutbox {
+  private entries: CatchOutboxEntry[] = [];
+  private loaded: Promise<void> | null = null;
+  private listeners: Set<CatchOutboxListener> = new Set();
+  private syncing: Promise<CatchOutboxSyncResult> | null = null;
+  private progress: CatchOutboxProgress = { total: 0, synced: 0, failed: 0, inProgress: false, current: null };
+
+  constructor(private readonly fetchImpl: typeof fetch = (...args) => fetch(...args)) {}
+
+  /**
+   * Queue a catch for upload
+   * @param options.userId Show the catch in this user's cached history until it syncs
+   */
+  async enqueue(input: CatchLogInput, options: { userId?: string } = {}): Promise<CatchOutboxEntry> {
+    await this.load();
+
+    const photo = input.photo ? await blobToBase64(input.photo) : null;
+    const { photo: _photo, ...rest } = input;
+    const id = generateLocalId();
+
+    const entry: CatchOutboxEntry = {
+      id,
+      idempotencyKey: id,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      payload: { kind: 'enriched', input: rest },
+      photos: photo ? [photo] : [],
+      userId: options.userId,
+    };
+
+    this.entries.push(entry);
+    await this.persist();
+
+    if (options.userId) {
+      await addCatchToCache(options.userId, toCachedCatch(id, rest, photo ?? undefined));
+    }
+
+    console.log('[catchOutbox] Queued catch:', id);
+    this.emit({ type: 'changed' });
+    return entry;
+  }
+
+  /**
+   * Queue a catch log already saved in the IndexedDB `catch-queue` (see
+   * `OfflineStorage.queueCatchLog`); its photos are read from there when sent
+   */
+  async enqueueCatchLog(log: PendingCatchLog): Promise<CatchOutboxEntry> {
+    await this.load();
+    const existing = this.entries.find(e => e.idempotencyKey === log.id);
+    if (existing) return existing;
+
+    const entry = fromCatchQueue(log, false);
+    this.entries.push(entry);
+    await this.persist();
+    this.emit({ type: 'changed' });
+    return entry;
+  }
+
+  /**
+   * Move items left in the old catch queues into the outbox.
+   * Safe to call repeatedly: the legacy id becomes the idempotency key, so
+   * an item is never imported (or sent) twice.
+   */
+  async importLegacy(): Promise<number> {
+    await this.load();
+    const known = new Set(this.entries.map(e => e.idempotencyKey));
+    let imported = 0;
+
+    // pendingCatches.ts (Preferences / localStorage)
+    try {
+      const raw = await readKey(LEGACY_PENDING_KEY);
+      if (raw) {
+        const legacy = JSON.parse(raw) as {
+          catches?: Array<{
+            id: string;
+            createdAt: string;
+            syncStatus: string;
+            syncAttempts: number;
+            lastSyncError?: string;
+            catchData: Omit<CatchLogInput, 'photo'>;
+            photoBase64?: string;
+            photoMimeType?: string;
+          }>;
+        };
+        for (const item of legacy.catches ?? []) {
+          if (item.syncStatus === 'synced' || known.has(item.id)) continue;
+          this.entries.push({
+            id: item.id,
+            idempotencyKey: item.id,
+            createdAt: item.createdAt,
+            ...carriedAttempts(item.syncAttempts),
+            lastError: item.lastSyncError,
+            payload: { kind: 'enriched', input: item.catchData },
+            photos: item.photoBase64 ? [{ base64: item.photoBase64, mimeType: item.photoMimeType || 'image/jpeg' }] : [],
+            migratedFrom: 'pending-catches',
+          });
+          known.add(item.id);
+          imported++;
+        }
+        // Only drop the old queue once its catches are safely in ours
+        if (await this.persist()) {
+          await writeKey(LEGACY_PENDING_KEY, null);
+        }
+      }
+    } catch (error) {
+      console.error('[catchOutbox] Failed to import pending catches:', error);
+    }
+
+    // storage.ts (IndexedDB catch-queue)
+    if (typeof indexedDB !== 'undefined') {
+      try {
+        const { getStorage } = await import('./storage');
+        const storage = getStorage();
+        // The records stay put as the entries' photo store, so nothing is deleted here
+        let added = false;
+        for (const log of await storage.getPendingCatchLogs()) {
+          if (known.has(log.id)) continue;
+          this.entries.push(fromCatchQueue(log, true));
+          known.add(log.id);
+          imported++;
+          added = true;
+        }
+        if (added) await this.persist();
+      } catch (error) {
+        console.error('[catchOutbox] Failed to import IndexedDB catch queue:', error);
+      }
+    }
+
+    if (imported > 0) {
+      console.log('[catchOutbox] Imported', imported, 'catches from legacy queues');
+      this.emit({ type: 'migrated', count: imported });
+    }
+    return imported;
+  }
+
+  /**
+   * Upload everything that is due. Concurrent calls share one run.
+   */
+  sync(): Promise<CatchOutboxSyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async runSync(): Promise<CatchOutboxSyncResult> {
+    await this.importLegacy();
+    const result: CatchOutboxSyncResult = { synced: 0, failed: 0, skipped: 0, errors: [] };
+
+    // 'syncing' left over from an interrupted run is safe to resend: the server dedupes by key
+    const now = Date.now();
+    const waiting = this.entries.filter(e => e.status !== 'dead');
+    const due = waiting.filter(e => !e.nextAttemptAt || Date.parse(e.nextAttemptAt) <= now);
+    result.skipped = waiting.length - due.length;
+    if (due.length === 0) {
+      return result;
+    }
+
+    const needsAuth = due.some(e => e.payload.kind === 'enriched');
+    const accessToken = needsAuth ? await getAccessToken() : null;
+
+    this.progress = { total: due.length, synced: 0, failed: 0, inProgress: true, current: null };
+    this.emit({ type: 'sync-started', total: due.length });
+    console.log('[catchOutbox] Syncing', due.length, 'catches');
+
+    for (const entry of due) {
+      if (entry.payload.kind === 'enriched' && !accessToken) {
+        result.skipped++;
+        continue;
+      }
+
+      entry.status = 'syncing';
+      entry.attempts++;
+      entry.lastAttemptAt = new Date().toISOString();
+      entry.nextAttemptAt = undefined;
+      this.progress = { ...this.progress, current: entry };
+      await this.persist();
+      this.emit({ type: 'changed' });
+
+      const sent = await this.send(entry, accessToken);
+
+      if (sent.ok) {
+        this.entries = this.entries.filter(e => e.id !== entry.id);
+        await this.persist();
+        await this.removeStoredPhotos(entry);
+        if (entry.userId) {
+          await updateCatchInCache(entry.userId, entry.id, {
+            ...(sent.serverId ? { id: sent.serverId } : {}),
+            sync_status: undefined,
+          });
+        }
+        result.synced++;
+        this.progress = { ...this.progress, synced: this.progress.synced + 1 };
+        this.emit({ type: 'entry-synced', entry, serverId: sent.serverId });
+      } else {
+        const error = sent.error || 'Unknown error';
+        const willRetry = !sent.permanent && entry.attempts < MAX_ATTEMPTS;
+        entry.status = willRetry ? 'failed' : 'dead';
+        entry.lastError = error;
+        if (willRetry) {
+          entry.nextAttemptAt = new Date(Date.now() + this.getBackoffDelay(entry.attempts)).toISOString();
+        }
+        await this.persist();
+        if (!willRetry && entry.userId) {
+          await updateCatchInCache(entry.userId, entry.id, { sync_status: 'failed' });
+        }
+        result.failed++;
+        result.errors.push({ id: entry.id, error });
+        this.progress = { ...this.progress, failed: this.progress.failed + 1 };
+        this.emit({ type: 'entry-failed', entry, error, willRetry });
+        console.warn('[catchOutbox] Failed to sync catch:', entry.id, error, willRetry ? '(will retry)' : '(giving up)');
+      }
+    }
+
+    this.progress = { ...this.progress, inProgress: false, current: null };
+    this.emit({ type: 'sync-completed', result });
+    console.log('[catchOutbox] Sync complete:', result);
+    return result;
+  }
+
+  private async send(entry: CatchOutboxEntry, accessToken: string | null): Promise<SendResult> {
+    const headers: Record<string, string> = { 'Idempotency-Key': entry.idempotencyKey };
+    let url: string;
+    let body: FormData;
+
+    if (entry.payload.kind === 'enriched') {
+      const photo = entry.photos[0];
+      body = buildCatchFormData({
+        ...entry.payload.input,
+        ...(photo ? { photo: base64ToBlob(photo.base64, photo.mimeType) } : {}),
+      } as CatchLogInput);
+      url = ENRICHED_ENDPOINT;
+      headers.Authorization = `Bearer ${accessToken}`;
+    } else {
+      let storedPhotos: Blob[] = [];
+      if (entry.photoStore === 'catch-queue') {
+        try {
+          const { getStorage } = await import('./storage');
+          storedPhotos = (await getStorage().getCatchLog(entry.id))?.data.photos ?? [];
+        } catch (error) {
+          return { ok: false, error: `Could not read stored photos: ${error instanceof Error ? error.message : error}` };
+        }
+      }
+      body = buildBasicFormData(entry, entry.payload.data, storedPhotos);
+      url = BASIC_ENDPOINT;
+    }
+    body.append('idempotency_key', entry.idempotencyKey);
+
+    try {
+      const response = await this.fetchImpl(url, { method: 'POST', headers, body });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        let errorMessage: string;
+        try {
+          const errorJson = JSON.parse(errorText);
+          errorMessage = errorJson.error || errorJson.message || `HTTP ${response.status}`;
+        } catch {
+          errorMessage = errorText || `HTTP ${response.status}`;
+        }
+        // 401 (expired session), 408, 429 and 5xx are worth retrying; other client errors are not
+        const permanent = response.status >= 400 && response.status < 500 &&
+          response.status !== 408 && response.status !== 429 && response.status !== 401;
+        return { ok: false, permanent, error: errorMessage };
+      }
+
+      let serverId: string | undefined;
+      try {
+        const data = (await response.json()) as CatchLogResponse & { id?: string; catchId?: string };
+        serverId = data?.id ?? data?.catchId;
+      } catch {
+        // Basic endpoint replies with plain text
+      }
+      return { ok: true, serverId };
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Calculate exponential backoff delay after a failed attempt
+   */
+  getBackoffDelay(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY_MS);
+  }
+
+  /**
+   * Give a dead entry another round of attempts
+   */
+  async retry(id: string): Promise<boolean> {
+    await this.load();
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry || entry.status !== 'dead') return false;
+    entry.status = 'pending';
+    entry.attempts = 0;
+    entry.nextAttemptAt = undefined;
+    await this.persist();
+    if (entry.userId) {
+      await updateCatchInCache(entry.userId, entry.id, { sync_status: 'pending' });
+    }
+    this.emit({ type: 'changed' });
+    return true;
+  }
+
+  /**
+   * Set an entry's status directly, for the legacy pending catches API.
+   * Counts an attempt for 'syncing' and 'failed', as that API did; a failure
+   * also starts the backoff.
+   */
+  async setStatus(id: string, status: CatchOutboxStatus, error?: string): Promise<boolean> {
+    await this.load();
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry) return false;
+    entry.status = status;
+    entry.lastAttemptAt = new Date().toISOString();
+    if (status === 'syncing' || status === 'failed') {
+      entry.attempts++;
+    }
+    entry.nextAttemptAt = status === 'failed'
+      ? new Date(Date.now() + this.getBackoffDelay(entry.attempts)).toISOString()
+      : undefined;
+    if (error) {
+      entry.lastError = error;
+    }
+    await this.persist();
+    this.emit({ type: 'changed' });
+    return true;
+  }
+
+  /**
+   * Drop an entry without sending it
+   */
+  async remove(id: string): Promise<void> {
+    await this.load();
+    const entry = this.entries.find(e => e.id === id);
+    this.entries = this.entries.filter(e => e.id !== id);
+    await this.persist();
+    if (entry) await this.removeStoredPhotos(entry);
+    this.emit({ type: 'changed' });
+  }
+
+  /**
+   * Delete the IndexedDB record holding an entry's photos, once the entry is gone
+   */
+  private async removeStoredPhotos(entry: CatchOutboxEntry): Promise<void> {
+    if (entry.photoStore !== 'catch-queue') return;
+    try {
+      const { getStorage } = await import('./storage');
+      await getStorage().removeCatchLog(entry.id);
+    } catch (error) {
+      console.error('[catchOutbox] Failed to remove stored catch log:', error);
+    }
+  }
+
+  async getEntries(): Promise<CatchOutboxEntry[]> {
+    await this.load();
+    return [...this.entries];
+  }
+
+  getState(): CatchOutboxState {
+    return {
+      entries: [...this.entries],
+      pending: this.entries.filter(e => e.status !== 'dead').length,
+      dead: this.entries.filter(e => e.status === 'dead').length,
+      progress: { ...this.progress },
+    };
+  }
+
+  /**
+   * Listen to outbox events; the listener is called once immediately with the current state
+   */
+  subscribe(listener: CatchOutboxListener): () => void {
+    this.listeners.add(listener);
+    this.load().then(() => listener({ type: 'changed' }, this.getState()));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: CatchOutboxEvent): void {
+    const state = this.getState();
+    for (const listener of this.listeners) {
+      try {
+        listener(event, state);
+      } catch (error) {
+        console.error('[catchOutbox] Listener error:', error);
+      }
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const raw = await readKey(STORAGE_KEY);
+          if (raw) {
+            this.entries = (JSON.parse(raw) as OutboxStore).entries ?? [];
+          }
+        } catch (error) {
+          console.error('[catchOutbox] Failed to read from storage:', error);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Write the entries to storage; false if that failed (e.g. quota exceeded)
+   */
+  private async persist(): Promise<boolean> {
+    try {
+      const store: OutboxStore = { entries: this.entries, version: 1 };
+      await writeKey(STORAGE_KEY, JSON.stringify(store));
+      return true;
+    } catch (error) {
+      console.error('[catchOutbox] Failed to write to storage:', error);
+      return false;
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let outboxInstance: CatchOutbox | null = null;
+
+/**
+ * Get the catch outbox instance
+ */
+export function getCatchOutbox(): CatchOutbox {
+  if (!outboxInstance) {
+    outboxInstance = new CatchOutbox();
+  }
+  return outboxInstance;
+}
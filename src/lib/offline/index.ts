@@ -18,7 +18,7 @@ export { offlineDb, type Plant, type CalendarEntry, type Species } from './datab
 // export { findrSync, type FindrSyncState } from './findrSync';
 
 // Mutation queue (persistent offline queue)
-export { mutationQueue, type Mutation, type MutationType, type QueueState } from './mutationQueue';
+export { mutationQueue, conflictStrategies, type Mutation, type MutationType, type QueueState, type DeadLetter, type MutationResult, type MutationConflict, type ConflictResolver } from './mutationQueue';
 
 // Image caching
 export { imageCache } from './imageCache';
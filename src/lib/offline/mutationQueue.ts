@@ -4,6 +4,19 @@
  * Persistent queue for offline mutations that survives app restarts.
  * Processes mutations in order when connectivity returns.
  *
+ * Sync semantics:
+ * - Dependencies: a mutation waits for the mutations in `dependsOn`. Any
+ *   mutation referencing the `localId` of a pending create depends on it
+ *   automatically.
+ * - Id remapping: when a create returns a `serverId`, the local id is
+ *   replaced in every queued payload (and in later enqueues).
+ * - Coalescing: consecutive updates to the same entity merge into one
+ *   mutation; deleting an entity that was never synced cancels its queue.
+ * - Conflicts: handlers report a newer server version via `conflict`, and a
+ *   per-type strategy decides whether to retry, discard or dead-letter.
+ * - Dead letters: mutations that exhaust retries or fail permanently are
+ *   kept for review instead of being dropped.
+ *
  * Usage:
  * ```typescript
  * import { mutationQueue } from './mutationQueue';
@@ -12,6 +25,14 @@
  * await mutationQueue.enqueue({
  *   type: 'CREATE_PLANT',
  *   payload: plantData,
+ *   localId: 'local-123',
+ *   timestamp: Date.now()
+ * });
+ *
+ * // Runs after CREATE_PLANT with the server id substituted for 'local-123'
+ * await mutationQueue.enqueue({
+ *   type: 'LOG_WATERING',
+ *   payload: { plantId: 'local-123' },
  *   timestamp: Date.now()
  * });
  *
@@ -23,8 +44,12 @@
 import { Preferences } from '@capacitor/preferences';
 
 const QUEUE_KEY = 'offline_mutation_queue';
+const DEAD_LETTER_KEY = 'offline_mutation_dead_letters';
+const HISTORY_KEY = 'offline_mutation_history';
+/** Synced mutations of `keepHistory` types are kept this long */
+const HISTORY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
 const MAX_RETRIES = 5;
-const BASE_DELAY_MS = 1000;
+const MAX_CONFLICT_RETRIES = 3;
 
 export type MutationType =
   | 'CREATE_PLANT'
@@ -40,21 +65,132 @@ export interface Mutation {
   timestamp: number;
   retries: number;
   lastError?: string;
-  localId?: string; // For optimistic updates
+  localId?: string; // Entity the mutation is about; for creates, the optimistic id
+  dependsOn?: string[]; // Mutation ids that must succeed first
+  baseVersion?: number; // Server version the change was made against
+  conflictRetries?: number;
+}
+
+export interface DeadLetter {
+  mutation: Mutation;
+  reason: string;
+  deadLetteredAt: number;
 }
 
 export interface QueueState {
   mutations: Mutation[];
+  deadLetters: DeadLetter[];
   isProcessing: boolean;
   lastProcessedAt: number | null;
 }
 
-type MutationHandler = (mutation: Mutation) => Promise<{ success: boolean; serverId?: string; error?: string }>;
+/**
+ * Server state reported by a handler when `baseVersion` is stale
+ */
+export interface MutationConflict {
+  serverVersion: number;
+  serverData?: Record<string, unknown>;
+  serverUpdatedAt?: number;
+}
+
+export interface MutationResult {
+  success: boolean;
+  serverId?: string;
+  error?: string;
+  conflict?: MutationConflict;
+  /** Retrying cannot help (e.g. validation error); dead-letter immediately */
+  permanent?: boolean;
+}
+
+type MutationHandler = (mutation: Mutation) => Promise<MutationResult>;
 
-class MutationQueueService {
+export type ConflictResolution =
+  | { action: 'retry'; payload: Record<string, unknown>; baseVersion: number }
+  | { action: 'discard' }
+  | { action: 'dead-letter'; reason: string };
+
+export type ConflictResolver = (mutation: Mutation, conflict: MutationConflict) => ConflictResolution;
+
+/**
+ * Built-in conflict strategies
+ */
+export const conflictStrategies = {
+  /** Re-apply the local change on top of the server version */
+  clientWins: ((mutation, conflict) => ({
+    action: 'retry',
+    payload: mutation.payload,
+    baseVersion: conflict.serverVersion,
+  })) as ConflictResolver,
+
+  /** Keep the server version and drop the local change */
+  serverWins: (() => ({ action: 'discard' })) as ConflictResolver,
+
+  /** Whichever change was made last wins; unknown server time keeps the local change */
+  lastWriteWins: ((mutation, conflict) =>
+    conflict.serverUpdatedAt !== undefined && conflict.serverUpdatedAt > mutation.timestamp
+      ? { action: 'discard' }
+      : { action: 'retry', payload: mutation.payload, baseVersion: conflict.serverVersion }) as ConflictResolver,
+
+  /** Leave the decision to the user */
+  manual: (() => ({ action: 'dead-letter', reason: 'Conflict requires manual resolution' })) as ConflictResolver,
+};
+
+interface MutationPolicy {
+  /** Creates a new entity whose local id is replaced by the server id */
+  creates?: boolean;
+  /** Deletes the entity; cancels pending mutations if it was never synced */
+  deletes?: boolean;
+  /** Consecutive mutations of this type for the same entity merge */
+  coalesce?: boolean;
+  /** Keep synced mutations of this type for readers of past events (see getSyncedHistory) */
+  keepHistory?: boolean;
+}
+
+const MUTATION_POLICIES: Record<MutationType, MutationPolicy> = {
+  CREATE_PLANT: { creates: true },
+  UPDATE_PLANT: { coalesce: true },
+  DELETE_PLANT: { deletes: true },
+  LOG_WATERING: { keepHistory: true },
+  UPDATE_HEALTH: { coalesce: true },
+};
+
+/**
+ * Replace every string equal to `from` in a payload (deeply)
+ */
+function replaceId<T>(value: T, from: string, to: string): T {
+  if (value === from) return to as unknown as T;
+  if (Array.isArray(value)) return value.map(v => replaceId(v, from, to)) as unknown as T;
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+      result[key] = replaceId(v, from, to);
+    }
+    return result as T;
+  }
+  return value;
+}
+
+/**
+ * Whether a payload mentions an id anywhere
+ */
+function referencesId(value: unknown, id: string): boolean {
+  if (value === id) return true;
+  if (Array.isArray(value)) return value.some(v => referencesId(v, id));
+  if (value && typeof value === 'object') {
+    return Object.values(value as Record<string, unknown>).some(v => referencesId(v, id));
+  }
+  return false;
+}
+
+export class MutationQueueService {
   private queue: Mutation[] = [];
+  private deadLetters: DeadLetter[] = [];
+  private history: Mutation[] = [];
+  private idMap: Record<string, string> = {};
   private isProcessing = false;
+  private inFlightId: string | null = null;
   private handlers: Map<MutationType, MutationHandler> = new Map();
+  private conflictResolvers: Map<MutationType, ConflictResolver> = new Map();
   private listeners: Set<(state: QueueState) => void> = new Set();
   private lastProcessedAt: number | null = null;
 
@@ -67,9 +203,14 @@ class MutationQueueService {
       if (value) {
         const data = JSON.parse(value);
         this.queue = data.mutations || [];
+        this.idMap = data.idMap || {};
         this.lastProcessedAt = data.lastProcessedAt || null;
       }
-      console.log('[MutationQueue] Initialized with ' + this.queue.length + ' pending mutations');
+      const { value: deadLetters } = await Preferences.get({ key: DEAD_LETTER_KEY });
+      this.deadLetters = deadLetters ? JSON.parse(deadLetters) : [];
+      const { value: history } = await Preferences.get({ key: HISTORY_KEY });
+      this.history = history ? JSON.parse(history) : [];
+      console.log('[MutationQueue] Initialized with ' + this.queue.length + ' pending mutations, ' + this.deadLetters.length + ' dead letters');
     } catch (error) {
       console.error('[MutationQueue] Failed to load queue:', error);
       this.queue = [];
@@ -83,18 +224,80 @@ class MutationQueueService {
     this.handlers.set(type, handler);
   }
 
+  /**
+   * Set the conflict strategy for a mutation type (default: last write wins)
+   */
+  setConflictResolver(type: MutationType, resolver: ConflictResolver): void {
+    this.conflictResolvers.set(type, resolver);
+  }
+
+  /**
+   * Server id for a local id, once its create has synced
+   */
+  resolveId(localId: string): string {
+    return this.idMap[localId] ?? localId;
+  }
+
   /**
    * Add a mutation to the queue
+   * @returns The mutation id (an existing one when coalesced)
    */
   async enqueue(mutation: Omit<Mutation, 'id' | 'retries'>): Promise<string> {
+    // Ids whose creates already synced are substituted straight away
+    let payload = mutation.payload;
+    let localId = mutation.localId;
+    for (const [from, to] of Object.entries(this.idMap)) {
+      payload = replaceId(payload, from, to);
+      if (localId === from) localId = to;
+    }
+
+    const policy = MUTATION_POLICIES[mutation.type];
+    const pendingCreate = localId
+      ? this.queue.find((m) => MUTATION_POLICIES[m.type].creates && m.localId === localId)
+      : undefined;
+
+    // Deleting an entity that never reached the server: drop its whole history
+    if (policy.deletes && pendingCreate && pendingCreate.id !== this.inFlightId) {
+      this.queue = this.queue.filter((m) => m.localId !== localId && !referencesId(m.payload, localId!));
+      await this.persistQueue();
+      this.notifyListeners();
+      console.log('[MutationQueue] Cancelled unsynced entity ' + localId);
+      return pendingCreate.id;
+    }
+
+    // Merge into the last pending mutation of the same type for this entity
+    const last = localId ? [...this.queue].reverse().find((m) => m.localId === localId) : undefined;
+    if (policy.coalesce && last && last.type === mutation.type && last.id !== this.inFlightId) {
+      last.payload = { ...last.payload, ...payload };
+      last.timestamp = mutation.timestamp;
+      await this.persistQueue();
+      this.notifyListeners();
+      console.log('[MutationQueue] Coalesced ' + mutation.type + ' into ' + last.id);
+      return last.id;
+    }
+
+    const dependsOn = new Set(mutation.dependsOn ?? []);
+    for (const m of this.queue) {
+      if (MUTATION_POLICIES[m.type].creates && m.localId && (m.localId === localId || referencesId(payload, m.localId))) {
+        dependsOn.add(m.id);
+      }
+    }
+
     const id = this.generateId();
     const newMutation: Mutation = {
       ...mutation,
+      payload,
+      localId,
       id,
       retries: 0,
+      ...(dependsOn.size > 0 ? { dependsOn: Array.from(dependsOn) } : {}),
     };
 
-    this.queue.push(newMutation);
+    if (policy.creates && localId && !pendingCreate) {
+      this.queueCreate(newMutation);
+    } else {
+      this.queue.push(newMutation);
+    }
     await this.persistQueue();
     this.notifyListeners();
 
@@ -117,6 +320,7 @@ class MutationQueueService {
   getState(): QueueState {
     return {
       mutations: [...this.queue],
+      deadLetters: [...this.deadLetters],
       isProcessing: this.isProcessing,
       lastProcessedAt: this.lastProcessedAt,
     };
@@ -159,27 +363,60 @@ class MutationQueueService {
 
     console.log('[MutationQueue] Processing ' + this.queue.length + ' mutations...');
 
-    // Process in order (FIFO)
+    // Process in order (FIFO); a mutation waits while a dependency or an
+    // earlier mutation for the same entity is still queued
     const toProcess = [...this.queue];
+    const blockedEntities = new Set<string>();
+
+    for (const original of toProcess) {
+      // Re-read: payloads may have been remapped by an earlier create
+      const mutation = this.queue.find((m) => m.id === original.id);
+      if (!mutation) continue;
+
+      const waiting = (mutation.dependsOn ?? []).some((dep) => this.queue.some((m) => m.id === dep));
+      if (waiting || (mutation.localId && blockedEntities.has(mutation.localId))) {
+        if (mutation.localId) blockedEntities.add(mutation.localId);
+        continue;
+      }
 
-    for (const mutation of toProcess) {
       try {
+        this.inFlightId = mutation.id;
         const result = await this.processMutation(mutation);
+        this.inFlightId = null;
 
         if (result.success) {
           await this.dequeue(mutation.id);
+          if (MUTATION_POLICIES[mutation.type].keepHistory) await this.recordHistory(mutation);
+          if (result.serverId && mutation.localId && MUTATION_POLICIES[mutation.type].creates) {
+            await this.remapId(mutation.localId, result.serverId);
+          }
           processed++;
           console.log('[MutationQueue] Processed ' + mutation.type + ' successfully');
+        } else if (result.conflict) {
+          const settled = await this.handleConflict(mutation, result.conflict);
+          if (settled) {
+            processed++;
+          } else {
+            failed++;
+          }
+        } else if (result.permanent) {
+          await this.moveToDeadLetter(mutation, result.error || 'Permanent failure');
+          failed++;
         } else {
           await this.handleFailure(mutation, result.error || 'Unknown error');
           failed++;
         }
       } catch (error) {
+        this.inFlightId = null;
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         await this.handleFailure(mutation, errorMessage);
         failed++;
       }
 
+      if (mutation.localId && this.queue.some((m) => m.id === mutation.id)) {
+        blockedEntities.add(mutation.localId);
+      }
+
       // Small delay between mutations to avoid rate limiting
       await this.delay(100);
     }
@@ -196,7 +433,7 @@ class MutationQueueService {
   /**
    * Process a single mutation
    */
-  private async processMutation(mutation: Mutation): Promise<{ success: boolean; serverId?: string; error?: string }> {
+  private async processMutation(mutation: Mutation): Promise<MutationResult> {
     const handler = this.handlers.get(mutation.type);
 
     if (!handler) {
@@ -208,28 +445,151 @@ class MutationQueueService {
   }
 
   /**
-   * Handle a failed mutation with exponential backoff
+   * Record a local to server id mapping and rewrite queued mutations
+   */
+  private async remapId(localId: string, serverId: string): Promise<void> {
+    this.idMap[localId] = serverId;
+    this.queue = this.queue.map((m) => ({
+      ...m,
+      payload: replaceId(m.payload, localId, serverId),
+      localId: m.localId === localId ? serverId : m.localId,
+    }));
+    await this.persistQueue();
+    console.log('[MutationQueue] Remapped ' + localId + ' -> ' + serverId);
+  }
+
+  /**
+   * Apply the conflict strategy for a mutation
+   * @returns true when the conflict was settled (discarded), false if the mutation stays queued or was dead-lettered
+   */
+  private async handleConflict(mutation: Mutation, conflict: MutationConflict): Promise<boolean> {
+    const resolver = this.conflictResolvers.get(mutation.type) ?? conflictStrategies.lastWriteWins;
+    const resolution = resolver(mutation, conflict);
+    console.warn('[MutationQueue] ' + mutation.type + ' conflicts with server version ' + conflict.serverVersion + ': ' + resolution.action);
+
+    switch (resolution.action) {
+      case 'discard':
+        await this.dequeue(mutation.id);
+        return true;
+      case 'dead-letter':
+        await this.moveToDeadLetter(mutation, resolution.reason);
+        return false;
+      case 'retry': {
+        const conflictRetries = (mutation.conflictRetries ?? 0) + 1;
+        if (conflictRetries > MAX_CONFLICT_RETRIES) {
+          await this.moveToDeadLetter(mutation, 'Conflict unresolved after ' + MAX_CONFLICT_RETRIES + ' attempts');
+          return false;
+        }
+        this.replaceMutation({
+          ...mutation,
+          payload: resolution.payload,
+          baseVersion: resolution.baseVersion,
+          conflictRetries,
+          lastError: 'Conflict with server version ' + conflict.serverVersion,
+        });
+        await this.persistQueue();
+        return false;
+      }
+    }
+  }
+
+  /**
+   * Count a failed attempt; dead-letter the mutation after MAX_RETRIES
    */
   private async handleFailure(mutation: Mutation, error: string): Promise<void> {
     mutation.retries++;
     mutation.lastError = error;
 
     if (mutation.retries >= MAX_RETRIES) {
-      console.error('[MutationQueue] ' + mutation.type + ' failed after ' + MAX_RETRIES + ' retries, removing from queue');
-      await this.dequeue(mutation.id);
-      // TODO: Store in dead letter queue for manual review
+      console.error('[MutationQueue] ' + mutation.type + ' failed after ' + MAX_RETRIES + ' retries');
+      await this.moveToDeadLetter(mutation, error);
       return;
     }
 
     console.warn('[MutationQueue] ' + mutation.type + ' failed (attempt ' + mutation.retries + '/' + MAX_RETRIES + '): ' + error);
 
-    // Update in place
-    const index = this.queue.findIndex((m) => m.id === mutation.id);
-    if (index !== -1) {
-      this.queue[index] = mutation;
+    this.replaceMutation(mutation);
+    await this.persistQueue();
+  }
+
+  /**
+   * Move a mutation, and everything depending on it, to the dead letter list
+   */
+  private async moveToDeadLetter(mutation: Mutation, reason: string): Promise<void> {
+    const now = Date.now();
+    const failedIds = new Set([mutation.id]);
+    this.deadLetters.push({ mutation, reason, deadLetteredAt: now });
+
+    // Dependents can never succeed without their parent
+    let added = true;
+    while (added) {
+      added = false;
+      for (const m of this.queue) {
+        if (!failedIds.has(m.id) && (m.dependsOn ?? []).some((dep) => failedIds.has(dep))) {
+          failedIds.add(m.id);
+          this.deadLetters.push({ mutation: m, reason: 'Dependency ' + mutation.id + ' failed', deadLetteredAt: now });
+          added = true;
+        }
+      }
     }
 
+    this.queue = this.queue.filter((m) => !failedIds.has(m.id));
+    console.error('[MutationQueue] Dead-lettered ' + failedIds.size + ' mutation(s): ' + reason);
     await this.persistQueue();
+    await this.persistDeadLetters();
+    this.notifyListeners();
+  }
+
+  /**
+   * Get mutations that could not be synced
+   */
+  getDeadLetters(): DeadLetter[] {
+    return [...this.deadLetters];
+  }
+
+  /**
+   * Put a dead-lettered mutation (and its dead-lettered dependents) back on the queue
+   */
+  async retryDeadLetter(id: string): Promise<boolean> {
+    const ids = new Set([id]);
+    let added = true;
+    while (added) {
+      added = false;
+      for (const d of this.deadLetters) {
+        if (!ids.has(d.mutation.id) && (d.mutation.dependsOn ?? []).some((dep) => ids.has(dep))) {
+          ids.add(d.mutation.id);
+          added = true;
+        }
+      }
+    }
+
+    const revived = this.deadLetters.filter((d) => ids.has(d.mutation.id));
+    if (revived.length === 0) return false;
+
+    this.deadLetters = this.deadLetters.filter((d) => !ids.has(d.mutation.id));
+    for (const { mutation } of revived) {
+      let payload = mutation.payload;
+      for (const [from, to] of Object.entries(this.idMap)) {
+        payload = replaceId(payload, from, to);
+      }
+      const retried = { ...mutation, payload, retries: 0, conflictRetries: 0 };
+      if (MUTATION_POLICIES[retried.type].creates && retried.localId) this.queueCreate(retried);
+      else this.queue.push(retried);
+    }
+
+    await this.persistQueue();
+    await this.persistDeadLetters();
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * Permanently drop a dead-lettered mutation
+   */
+  async discardDeadLetter(id: string): Promise<void> {
+    this.deadLetters = this.deadLetters.filter((d) => d.mutation.id !== id);
+    await this.persistDeadLetters();
+    this.notifyListeners();
   }
 
   /**
@@ -237,6 +597,7 @@ class MutationQueueService {
    */
   async clear(): Promise<void> {
     this.queue = [];
+    this.idMap = {};
     await this.persistQueue();
     this.notifyListeners();
     console.log('[MutationQueue] Queue cleared');
@@ -249,6 +610,16 @@ class MutationQueueService {
     return this.queue.filter((m) => m.type === type);
   }
 
+  /**
+   * Mutations of `keepHistory` types (e.g. LOG_WATERING) synced in the last
+   * 30 days, oldest first. Once synced they leave the queue, so readers of
+   * past events combine these with the pending ones.
+   */
+  getSyncedHistory(type?: MutationType): Mutation[] {
+    const cutoff = Date.now() - HISTORY_RETENTION_MS;
+    return this.history.filter((m) => m.timestamp >= cutoff && (!type || m.type === type));
+  }
+
   /**
    * Check if a specific entity has pending mutations
    */
@@ -266,6 +637,7 @@ class MutationQueueService {
         key: QUEUE_KEY,
         value: JSON.stringify({
           mutations: this.queue,
+          idMap: this.idMap,
           lastProcessedAt: this.lastProcessedAt,
         }),
       });
@@ -274,6 +646,50 @@ class MutationQueueService {
     }
   }
 
+  private async recordHistory(mutation: Mutation): Promise<void> {
+    const cutoff = Date.now() - HISTORY_RETENTION_MS;
+    this.history = [...this.history.filter((m) => m.timestamp >= cutoff), mutation];
+    try {
+      await Preferences.set({ key: HISTORY_KEY, value: JSON.stringify(this.history) });
+    } catch (error) {
+      console.error('[MutationQueue] Failed to persist history:', error);
+    }
+  }
+
+  private async persistDeadLetters(): Promise<void> {
+    try {
+      await Preferences.set({ key: DEAD_LETTER_KEY, value: JSON.stringify(this.deadLetters) });
+    } catch (error) {
+      console.error('[MutationQueue] Failed to persist dead letters:', error);
+    }
+  }
+
+  /**
+   * Queue a create ahead of anything already queued for its entity, and make
+   * those wait for it. They were queued while no create was pending, e.g.
+   * after an earlier create for the same local id was dead-lettered.
+   */
+  private queueCreate(create: Mutation): void {
+    const localId = create.localId!;
+    const concerns = (m: Mutation) => m.localId === localId || referencesId(m.payload, localId);
+    const index = this.queue.findIndex(concerns);
+    if (index === -1) {
+      this.queue.push(create);
+      return;
+    }
+    for (const m of this.queue.slice(index)) {
+      if (concerns(m)) m.dependsOn = Array.from(new Set([...(m.dependsOn ?? []), create.id]));
+    }
+    this.queue.splice(index, 0, create);
+  }
+
+  private replaceMutation(mutation: Mutation): void {
+    const index = this.queue.findIndex((m) => m.id === mutation.id);
+    if (index !== -1) {
+      this.queue[index] = mutation;
+    }
+  }
+
   private notifyListeners(): void {
     const state = this.getState();
     for (const listener of this.listeners) {
@@ -288,13 +704,6 @@ class MutationQueueService {
   private delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
-
-  /**
-   * Calculate exponential backoff delay
-   */
-  getBackoffDelay(retries: number): number {
-    return Math.min(BASE_DELAY_MS * Math.pow(2, retries), 60000);
-  }
 }
 
 // Singleton instance
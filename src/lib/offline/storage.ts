@@ -284,7 +284,8 @@ export class OfflineStorage {
   }
 
   /**
-   * Add a catch log to the sync queue
+   * Queue a catch log for upload through the catch outbox. The log (and its
+   * photo blobs) is kept in the catch queue until the outbox has sent it.
    */
   async queueCatchLog(log: Omit<PendingCatchLog, 'id' | 'timestamp' | 'retryCount'>): Promise<string> {
     const db = await getDB();
@@ -298,9 +299,19 @@ export class OfflineStorage {
     };
 
     await db.put('catch-queue', pendingLog);
+    const { getCatchOutbox } = await import('./catchOutbox');
+    await getCatchOutbox().enqueueCatchLog(pendingLog);
     return id;
   }
 
+  /**
+   * Get a queued catch log by id
+   */
+  async getCatchLog(id: string): Promise<PendingCatchLog | null> {
+    const db = await getDB();
+    return (await db.get('catch-queue', id)) || null;
+  }
+
   /**
    * Get all pending catch logs
    */
@@ -8,6 +8,7 @@
  */
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import type { EntitlementSnapshot } from '../subscriptions/entitlements';
 
 interface SubscriptionCacheSchema extends DBSchema {
   subscriptions: {
@@ -21,6 +22,7 @@ interface SubscriptionCacheSchema extends DBSchema {
       subscriptionStartDate?: string | null;
       subscriptionEndDate?: string | null;
       trialEndsAt?: string | null;
+      entitlements?: EntitlementSnapshot;
       cachedAt: number; // Timestamp
     };
   };
@@ -54,12 +56,16 @@ async function getDB(): Promise<IDBPDatabase<SubscriptionCacheSchema>> {
  *
  * Returns null if:
  * - No cache exists
- * - Cache is stale (older than 24h)
+ * - Cache is stale (older than 24h), unless `allowStale` is set
+ *
+ * Stale entries are what an offline device falls back to; their entitlement
+ * grants still lapse at their own expiry.
  *
  * @param userId - User ID to look up
+ * @param options - `allowStale` returns entries past the TTL instead of dropping them
  * @returns Cached subscription data or null
  */
-export async function getCachedSubscription(userId: string) {
+export async function getCachedSubscription(userId: string, options: { allowStale?: boolean } = {}) {
   try {
     const db = await getDB();
     const cached = await db.get(STORE_NAME, userId);
@@ -70,9 +76,8 @@ export async function getCachedSubscription(userId: string) {
 
     // Check if cache is stale
     const age = Date.now() - cached.cachedAt;
-    if (age > CACHE_TTL_MS) {
-      // Clean up stale cache
-      await db.delete(STORE_NAME, userId);
+    if (age > CACHE_TTL_MS && !options.allowStale) {
+      // Kept (not deleted) so it can still serve as the offline fallback
       return null;
     }
 
@@ -97,6 +102,7 @@ export async function setCachedSubscription(data: {
   subscriptionStartDate?: string | null;
   subscriptionEndDate?: string | null;
   trialEndsAt?: string | null;
+  entitlements?: EntitlementSnapshot;
 }) {
   try {
     const db = await getDB();
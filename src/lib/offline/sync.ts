@@ -2,7 +2,8 @@
  * Sync Service
  *
  * Manages synchronization of offline data (catch logs, favorites) when
- * network connectivity is restored.
+ * network connectivity is restored. Catch uploads themselves are handled by
+ * the catch outbox; this service decides when to run them.
  *
  * Usage:
  * ```typescript
@@ -24,7 +25,7 @@
  * ```
  */
 
-import { getStorage, PendingCatchLog } from './storage';
+import { getCatchOutbox } from './catchOutbox';
 import { getNetworkMonitor, NetworkStatus } from './network';
 import { createLogger } from '../utils/logger';
 
@@ -48,7 +49,7 @@ export type SyncEventListener = (result: SyncResult) => void;
  * Sync Service
  */
 export class SyncService {
-  private storage = getStorage();
+  private outbox = getCatchOutbox();
   private networkMonitor = getNetworkMonitor();
   private isSyncing = false;
   private syncListeners: Set<SyncEventListener> = new Set();
@@ -107,16 +108,17 @@ export class SyncService {
       return { syncedCount: 0, failedCount: 0, errors: [] };
     }
 
-    // Check if online
-    const online = await this.networkMonitor.isOnline();
-    if (!online) {
-      logger.info('Cannot sync while offline');
-      return { syncedCount: 0, failedCount: 0, errors: [] };
-    }
-
+    // Claim the sync before awaiting, so back-to-back calls don't both get through
     this.isSyncing = true;
 
     try {
+      // Check if online
+      const online = await this.networkMonitor.isOnline();
+      if (!online) {
+        logger.info('Cannot sync while offline');
+        return { syncedCount: 0, failedCount: 0, errors: [] };
+      }
+
       const result = await this.syncCatchLogs();
       this.notifySyncComplete(result);
       return result;
@@ -126,104 +128,24 @@ export class SyncService {
   }
 
   /**
-   * Sync all pending catch logs
+   * Sync all pending catch logs through the catch outbox
    */
   private async syncCatchLogs(): Promise<SyncResult> {
-    const pendingLogs = await this.storage.getPendingCatchLogs();
-
-    if (pendingLogs.length === 0) {
-      logger.info('No pending catch logs to sync');
-      return { syncedCount: 0, failedCount: 0, errors: [] };
-    }
-
-    logger.info(`Syncing ${pendingLogs.length} pending catch logs...`);
-
-    const result: SyncResult = {
-      syncedCount: 0,
-      failedCount: 0,
-      errors: [],
+    const result = await this.outbox.sync();
+    logger.info(`Sync complete: ${result.synced} synced, ${result.failed} failed`);
+    return {
+      syncedCount: result.synced,
+      failedCount: result.failed,
+      errors: result.errors,
     };
-
-    for (const log of pendingLogs) {
-      try {
-        await this.syncSingleCatchLog(log);
-        result.syncedCount++;
-        logger.info(`Successfully synced catch log ${log.id}`);
-      } catch (error) {
-        result.failedCount++;
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        result.errors.push({ id: log.id, error: errorMessage });
-        logger.error(`Failed to sync catch log ${log.id}:`, errorMessage);
-
-        // Update retry count
-        await this.storage.updateCatchLogRetryCount(log.id);
-
-        // If too many retries, consider removing it
-        if (log.retryCount >= 5) {
-          logger.warn(`Catch log ${log.id} failed 5+ times, removing from queue`);
-          await this.storage.removeCatchLog(log.id);
-        }
-      }
-    }
-
-    logger.info(`Sync complete: ${result.syncedCount} synced, ${result.failedCount} failed`);
-    return result;
-  }
-
-  /**
-   * Sync a single catch log
-   */
-  private async syncSingleCatchLog(log: PendingCatchLog): Promise<void> {
-    // Prepare FormData for API request
-    const formData = new FormData();
-
-    // Add basic data
-    formData.append('speciesId', log.data.speciesId);
-    formData.append('rectangleCode', log.data.rectangleCode);
-    formData.append('date', log.data.date);
-
-    if (log.data.bait) {
-      formData.append('bait', log.data.bait);
-    }
-
-    if (log.data.habitat) {
-      formData.append('habitat', log.data.habitat);
-    }
-
-    if (log.data.metadata) {
-      formData.append('metadata', JSON.stringify(log.data.metadata));
-    }
-
-    // Add photos if present
-    if (log.data.photos && log.data.photos.length > 0) {
-      for (let i = 0; i < log.data.photos.length; i++) {
-        const photo = log.data.photos[i];
-        const filename = `catch-photo-${log.id}-${i}.jpg`;
-        formData.append('photos', photo, filename);
-      }
-    }
-
-    // Send to API
-    const response = await fetch('/api/findr/catch-log', {
-      method: 'POST',
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`API error: ${response.status} - ${error}`);
-    }
-
-    // Success - remove from queue
-    await this.storage.removeCatchLog(log.id);
   }
 
   /**
    * Get pending sync count
    */
   async getPendingSyncCount(): Promise<number> {
-    const pendingLogs = await this.storage.getPendingCatchLogs();
-    return pendingLogs.length;
+    const entries = await this.outbox.getEntries();
+    return entries.filter(e => e.status !== 'dead').length;
   }
 
   /**
@@ -6,8 +6,14 @@
  *
  * Tides are predictable days in advance, so we can cache
  * multiple days of data for offline use.
+ *
+ * Fetched extremes are also kept as a longer history per location; once it
+ * spans two weeks, harmonic constituents are fitted from it so tides can be
+ * predicted offline for weeks (see lib/tides/harmonicPredictor).
  */
 
+import { fitHarmonicStation, type HarmonicStation } from '../tides/harmonicPredictor';
+
 export interface TideExtreme {
   time: string;
   type: 'high' | 'low';
@@ -31,9 +37,25 @@ interface TideCacheStore {
   version: number;
 }
 
+interface TideHarmonicEntry {
+  lat: number;
+  lon: number;
+  history: TideExtreme[];
+  station?: HarmonicStation;
+}
+
+interface TideHarmonicStore {
+  entries: TideHarmonicEntry[];
+  version: number;
+}
+
 const STORAGE_KEY = 'findr_tide_cache';
+const HARMONIC_STORAGE_KEY = 'findr_tide_harmonics';
 const MAX_ENTRIES = 5; // Cache last 5 locations
 const CACHE_TTL_HOURS = 12; // Tide data valid for 12 hours
+const HISTORY_DAYS = 60; // Extremes kept per location for fitting
+const MIN_FIT_SPAN_DAYS = 14; // Enough to separate M2/S2 and K1/O1
+const REFIT_AFTER_DAYS = 7;
 
 /**
  * Check if running on native platform
@@ -49,24 +71,22 @@ async function isNativePlatform(): Promise<boolean> {
 }
 
 /**
- * Read cache from storage
+ * Read a JSON store from storage
  */
-async function readCache(): Promise<TideCacheStore> {
-  const defaultStore: TideCacheStore = { entries: [], version: 1 };
-
+async function readStore<T>(key: string, defaultStore: T): Promise<T> {
   try {
     const isNative = await isNativePlatform();
 
     if (isNative) {
       const { Preferences } = await import('@capacitor/preferences');
-      const { value } = await Preferences.get({ key: STORAGE_KEY });
+      const { value } = await Preferences.get({ key });
       if (!value) return defaultStore;
-      return JSON.parse(value) as TideCacheStore;
+      return JSON.parse(value) as T;
     } else {
       if (typeof localStorage === 'undefined') return defaultStore;
-      const raw = localStorage.getItem(STORAGE_KEY);
+      const raw = localStorage.getItem(key);
       if (!raw) return defaultStore;
-      return JSON.parse(raw) as TideCacheStore;
+      return JSON.parse(raw) as T;
     }
   } catch (error) {
     console.error('[tideCache] Failed to read:', error);
@@ -75,19 +95,19 @@ async function readCache(): Promise<TideCacheStore> {
 }
 
 /**
- * Write cache to storage
+ * Write a JSON store to storage
  */
-async function writeCache(store: TideCacheStore): Promise<void> {
+async function writeStore<T>(key: string, store: T): Promise<void> {
   try {
     const isNative = await isNativePlatform();
     const json = JSON.stringify(store);
 
     if (isNative) {
       const { Preferences } = await import('@capacitor/preferences');
-      await Preferences.set({ key: STORAGE_KEY, value: json });
+      await Preferences.set({ key, value: json });
     } else {
       if (typeof localStorage !== 'undefined') {
-        localStorage.setItem(STORAGE_KEY, json);
+        localStorage.setItem(key, json);
       }
     }
   } catch (error) {
@@ -95,6 +115,20 @@ async function writeCache(store: TideCacheStore): Promise<void> {
   }
 }
 
+/**
+ * Read cache from storage
+ */
+function readCache(): Promise<TideCacheStore> {
+  return readStore<TideCacheStore>(STORAGE_KEY, { entries: [], version: 1 });
+}
+
+/**
+ * Write cache to storage
+ */
+function writeCache(store: TideCacheStore): Promise<void> {
+  return writeStore(STORAGE_KEY, store);
+}
+
 /**
  * Generate cache key from coordinates (rounded to 3 decimals)
  */
@@ -208,6 +242,63 @@ export function isTideCacheStale(data: CachedTideData): boolean {
   return diffMs > 3 * 60 * 60 * 1000; // 3 hours
 }
 
+/**
+ * Add fetched extremes to the location's history and refit harmonic
+ * constituents when the history is long enough.
+ * @returns The current fitted station for the location, if any
+ */
+export async function recordTideHistory(
+  lat: number,
+  lon: number,
+  extremes: TideExtreme[]
+): Promise<HarmonicStation | null> {
+  const store = await readStore<TideHarmonicStore>(HARMONIC_STORAGE_KEY, { entries: [], version: 1 });
+  const key = getCacheKey(lat, lon);
+  const existing = store.entries.find(e => getCacheKey(e.lat, e.lon) === key);
+  const entry: TideHarmonicEntry = existing ?? { lat, lon, history: [] };
+
+  // Merge, de-duplicating extremes within 30 minutes of each other (newest wins)
+  const byTime = new Map<number, TideExtreme>();
+  for (const extreme of [...entry.history, ...extremes]) {
+    const bucket = Math.round(new Date(extreme.time).getTime() / (30 * 60 * 1000));
+    byTime.set(bucket, extreme);
+  }
+  const cutoff = Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000;
+  entry.history = Array.from(byTime.values())
+    .filter(e => new Date(e.time).getTime() >= cutoff)
+    .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+
+  const first = entry.history[0];
+  const last = entry.history[entry.history.length - 1];
+  const spanDays = first && last
+    ? (new Date(last.time).getTime() - new Date(first.time).getTime()) / (24 * 60 * 60 * 1000)
+    : 0;
+  const fitAge = entry.station?.fittedAt
+    ? (Date.now() - new Date(entry.station.fittedAt).getTime()) / (24 * 60 * 60 * 1000)
+    : Infinity;
+
+  if (spanDays >= MIN_FIT_SPAN_DAYS && fitAge >= REFIT_AFTER_DAYS) {
+    const station = fitHarmonicStation(entry.history, { id: key, lat, lon });
+    if (station) {
+      entry.station = station;
+      console.log('[tideCache] Fitted harmonic constituents for', key, `(${station.constituents.length} constituents)`);
+    }
+  }
+
+  store.entries = [entry, ...store.entries.filter(e => getCacheKey(e.lat, e.lon) !== key)].slice(0, MAX_ENTRIES);
+  await writeStore(HARMONIC_STORAGE_KEY, store);
+  return entry.station ?? null;
+}
+
+/**
+ * Fitted harmonic station for a location (no expiry: constituents are stable for years)
+ */
+export async function getCachedHarmonicStation(lat: number, lon: number): Promise<HarmonicStation | null> {
+  const store = await readStore<TideHarmonicStore>(HARMONIC_STORAGE_KEY, { entries: [], version: 1 });
+  const key = getCacheKey(lat, lon);
+  return store.entries.find(e => getCacheKey(e.lat, e.lon) === key)?.station ?? null;
+}
+
 /**
  * Clear all cached tides
  */
@@ -218,9 +309,11 @@ export async function clearTideCache(): Promise<void> {
     if (isNative) {
       const { Preferences } = await import('@capacitor/preferences');
       await Preferences.remove({ key: STORAGE_KEY });
+      await Preferences.remove({ key: HARMONIC_STORAGE_KEY });
     } else {
       if (typeof localStorage !== 'undefined') {
         localStorage.removeItem(STORAGE_KEY);
+        localStorage.removeItem(HARMONIC_STORAGE_KEY);
       }
     }
     console.log('[tideCache] Cache cleared');
@@ -235,6 +328,8 @@ export const tideCacheApi = {
   getTideCacheAge,
   isTideCacheStale,
   clearTideCache,
+  recordTideHistory,
+  getCachedHarmonicStation,
 };
 
 export default tideCacheApi;
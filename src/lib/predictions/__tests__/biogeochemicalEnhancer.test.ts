@@ -0,0 +1,79 @@
+/**
+ * Tests for the explainable score breakdown
+ */
+
+import { enhancePrediction } from '../biogeochemicalEnhancer';
+
+const conditions = {
+  dissolved_oxygen_mg_l: 6.5,
+  water_temp_c: 17,
+  salinity_psu: 34,
+  chlorophyll_mg_m3: 2,
+  water_clarity_kd490: 0.3,
+};
+
+describe('lib/predictions/biogeochemicalEnhancer', () => {
+  it('lists the factors behind each index with their bands and sources', () => {
+    const result = enhancePrediction(conditions, 'Mackerel', 'day', {
+      sources: { water_temp_c: { source: 'copernicus', observedAt: '2025-09-27T00:00:00Z' } },
+      now: new Date('2025-09-27T06:00:00Z'),
+    });
+
+    expect(result.factors.map(f => f.key)).toEqual([
+      'dissolved_oxygen_mg_l',
+      'water_temp_c',
+      'salinity_psu',
+      'chlorophyll_mg_m3',
+      'water_clarity_kd490',
+      'time_of_day',
+    ]);
+
+    const temperature = result.factors[1];
+    expect(temperature.band).toBe('tolerated');
+    expect(temperature.points).toBe(24.5);
+    expect(temperature.source).toBe('copernicus');
+    expect(temperature.age_hours).toBe(6);
+    expect(result.factors[0].source).toBeNull();
+
+    const habitatPoints = result.factors.filter(f => f.index === 'habitat').reduce((sum, f) => sum + f.points, 0);
+    expect(Math.round(habitatPoints)).toBe(result.habitat_index);
+  });
+
+  it('steps the multiplier through each index', () => {
+    const result = enhancePrediction(conditions, 'Mackerel', 'day');
+
+    expect(result.multiplier_steps).toEqual([
+      { index: 'habitat', score: 85, band: 'excellent', delta: 0.3 },
+      { index: 'baitfish', score: 65, band: 'active', delta: 0.15 },
+      { index: 'visibility', score: 65, band: 'average', delta: 0 },
+    ]);
+    expect(result.overall_multiplier).toBe(1.45);
+  });
+
+  it('suggests the smallest change that raises the multiplier most', () => {
+    const hint = enhancePrediction(conditions, 'Mackerel', 'day').what_would_change;
+
+    expect(hint).toEqual({
+      factor: 'chlorophyll_mg_m3',
+      current: 2,
+      target: 3,
+      multiplier: 1.6,
+      delta: 0.15,
+      message: 'Chlorophyll of 3.0 mg/m³ (now 2.0 mg/m³) would lift the multiplier from 1.45× to 1.60×',
+    });
+
+    const dawn = enhancePrediction({ ...conditions, chlorophyll_mg_m3: 5, water_clarity_kd490: 0.1 }, 'Mackerel', 'night');
+    expect(dawn.what_would_change?.factor).toBe('time_of_day');
+  });
+
+  it('has no hint when every index is already at its best band', () => {
+    const result = enhancePrediction(
+      { ...conditions, water_temp_c: 13, chlorophyll_mg_m3: 5, water_clarity_kd490: 0.1 },
+      'Mackerel',
+      'dawn'
+    );
+
+    expect(result.overall_multiplier).toBe(1.7);
+    expect(result.what_would_change).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for prediction calibration against logged catches
+ */
+
+import {
+  applyCalibration,
+  brierScore,
+  buildCalibrationReport,
+  calibrateConfidence,
+  fitCalibrationMap,
+  fitCalibrationModel,
+  joinPredictionsWithCatches,
+  reliabilityCurve,
+  type CalibrationSample,
+} from '../calibration';
+import type { CachedCatch } from '../../offline/catchHistory';
+import type { CachedPrediction } from '../../offline/storage';
+
+function logged(species_id: string, rectangle_code: string, caught_at: string): CachedCatch {
+  return {
+    id: `${species_id}-${caught_at}`,
+    species_id,
+    species_common_name: species_id,
+    caught_at,
+    rectangle_code,
+    quantity: 1,
+    size_category: 'medium',
+    bait_used: 'lure',
+  };
+}
+
+function sample(confidence: number, caught: boolean, speciesId = 'bass'): CalibrationSample {
+  return { speciesId, rectangleCode: '25E1', date: '2025-06-01', confidence, caught };
+}
+
+describe('lib/predictions/calibration', () => {
+  it('joins predictions with catches on fished rectangle-days only', () => {
+    const predictions: CachedPrediction[] = [
+      {
+        rectangleCode: '25E1',
+        date: '2025-06-01',
+        timestamp: 0,
+        data: [
+          { species_id: 'bass', confidence: 80 },
+          { species_id: 'mackerel', confidence_score: 60 },
+        ],
+      },
+      { rectangleCode: '25E1', date: '2025-06-02', timestamp: 0, data: { predictions: [{ species_id: 'bass', confidence: 90 }] } },
+    ];
+    const catches = [logged('bass', '25E1', '2025-06-01T07:30:00Z')];
+
+    const samples = joinPredictionsWithCatches(predictions, catches, { guilds: { bass: 'surf_estuary' } });
+
+    expect(samples).toEqual([
+      { speciesId: 'bass', guild: 'surf_estuary', region: 'Bay of Biscay', rectangleCode: '25E1', date: '2025-06-01', confidence: 80, caught: true },
+      { speciesId: 'mackerel', region: 'Bay of Biscay', rectangleCode: '25E1', date: '2025-06-01', confidence: 60, caught: false },
+    ]);
+  });
+
+  it('computes Brier scores and reliability bins', () => {
+    const samples = [sample(80, true), sample(80, false), sample(20, false), sample(25, false)];
+
+    expect(brierScore(samples)).toBeCloseTo((0.04 + 0.64 + 0.04 + 0.0625) / 4, 6);
+    expect(reliabilityCurve(samples, 5)).toEqual([
+      { lower: 20, upper: 40, count: 2, meanConfidence: 22.5, observedRate: 0 },
+      { lower: 80, upper: 100, count: 2, meanConfidence: 80, observedRate: 50 },
+    ]);
+
+    const report = buildCalibrationReport([...samples, sample(50, true, 'cod')]);
+    expect(report.overall.count).toBe(5);
+    expect(report.bySpecies.map(s => s.key)).toEqual(['bass', 'cod']);
+    expect(report.byGuild[0].key).toBe('unknown');
+  });
+
+  it('fits a monotone map that corrects over-confidence', () => {
+    // 70% predictions only came good 30% of the time, 90% ones 60% of the time
+    const samples = [
+      ...Array.from({ length: 100 }, (_, i) => sample(70, i < 30)),
+      ...Array.from({ length: 100 }, (_, i) => sample(90, i < 60)),
+      ...Array.from({ length: 20 }, (_, i) => sample(50, i < 15)), // noisy bin above its neighbour
+    ];
+    const map = fitCalibrationMap(samples, { priorStrength: 0 });
+
+    const calibrated = map.points.map(p => p.calibrated);
+    expect(calibrated).toEqual([...calibrated].sort((a, b) => a - b));
+    expect(applyCalibration(90, map)).toBe(60);
+    expect(applyCalibration(70, map)).toBeLessThan(50);
+    expect(applyCalibration(100, map)).toBe(70);
+    expect(applyCalibration(40, { points: [], sampleCount: 0 })).toBe(40);
+  });
+
+  it('prefers the most specific group map with enough samples', () => {
+    const samples = [
+      ...Array.from({ length: 40 }, (_, i) => sample(80, i < 8, 'bass')),
+      ...Array.from({ length: 10 }, () => sample(80, true, 'cod')),
+    ];
+    const model = fitCalibrationModel(samples, { priorStrength: 0 });
+
+    expect(Object.keys(model.bySpecies)).toEqual(['bass']);
+    expect(calibrateConfidence(80, model, { speciesId: 'bass' })).toBe(20);
+    expect(calibrateConfidence(80, model, { speciesId: 'cod' })).toBe(calibrateConfidence(80, model));
+  });
+});
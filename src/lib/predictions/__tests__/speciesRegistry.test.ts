@@ -0,0 +1,81 @@
+/**
+ * Tests for the species preference registry
+ */
+
+import { enhancePrediction } from '../biogeochemicalEnhancer';
+import { DEFAULT_SPECIES_PREFERENCES, SpeciesRegistry } from '../speciesRegistry';
+import type { CachedSpecies } from '../../offline/storage';
+
+function cached(overrides: Partial<CachedSpecies>): CachedSpecies {
+  return {
+    id: 'sp-1',
+    slug: 'species',
+    name: 'Species',
+    nameScientific: 'Species species',
+    guild: 'demersal',
+    timestamp: 0,
+    data: null,
+    ...overrides,
+  };
+}
+
+describe('lib/predictions/speciesRegistry', () => {
+  it('resolves species by id, scientific, common and accented names', () => {
+    const registry = new SpeciesRegistry();
+
+    expect(registry.resolve('Dicentrarchus labrax')?.commonName).toBe('Bass');
+    expect(registry.resolve('dicentrarchus-labrax')?.commonName).toBe('Bass');
+    expect(registry.resolve('EUROPEAN SEABASS')?.id).toBe('dicentrarchus-labrax');
+    expect(registry.resolve('merlan')?.id).toBe('merlangius-merlangus');
+    expect(registry.resolve('Kraken')).toBeNull();
+  });
+
+  it('applies regional and monthly overrides from least to most specific', () => {
+    const registry = new SpeciesRegistry([
+      {
+        id: 'gadus-morhua',
+        scientificName: 'Gadus morhua',
+        commonName: 'Cod',
+        preferences: { temp_min: 0, salinity_min: 28, oxygen_min: 6 },
+        overrides: [
+          { regions: ['Baltic', 'Finnish Gulf'], months: [3], preferences: { temp_min: 2 } },
+          { months: [3], preferences: { temp_min: 1, oxygen_min: 5 } },
+          { regions: ['Baltic', 'Finnish Gulf'], preferences: { salinity_min: 7 } },
+        ],
+      },
+    ]);
+
+    expect(registry.getPreferences('Cod')).toEqual({ temp_min: 0, salinity_min: 28, oxygen_min: 6 });
+    expect(registry.getPreferences('Cod', { region: 'Baltic Sea' })).toEqual({ temp_min: 0, salinity_min: 7, oxygen_min: 6 });
+    expect(registry.getPreferences('Cod', { region: 'Finnish Gulf', month: 3 })).toEqual({ temp_min: 2, salinity_min: 7, oxygen_min: 5 });
+    expect(registry.getPreferences('Cod', { region: 'Balticish' }).salinity_min).toBe(28);
+    expect(registry.getPreferences('Unknown fish')).toEqual(DEFAULT_SPECIES_PREFERENCES);
+  });
+
+  it('loads aliases and preference bands from cached species', async () => {
+    const registry = new SpeciesRegistry();
+    const loaded = await registry.loadFromCache({
+      getAllSpecies: async () => [
+        cached({ id: 'sp-7', slug: 'atlantic-mackerel', name: 'Atlantic Mackerel', nameScientific: 'Scomber scombrus', localizedNames: { fi: 'Makrilli' } }),
+        cached({ id: 'sp-9', slug: 'garfish', name: 'Garfish', nameScientific: 'Belone belone', data: { preferences: { temp_min: 10, salinity_min: 'low' } } }),
+        cached({ id: 'sp-11', slug: 'ling', name: 'Ling', nameScientific: 'Molva molva' }),
+      ],
+    });
+
+    expect(loaded).toBe(2);
+    expect(registry.resolve('makrilli')?.id).toBe('scomber-scombrus');
+    expect(registry.resolve('sp-7')?.id).toBe('scomber-scombrus');
+    expect(registry.getPreferences('Belone belone')).toEqual({ ...DEFAULT_SPECIES_PREFERENCES, temp_min: 10 });
+    expect(registry.resolve('Ling')).toBeNull();
+  });
+
+  it('scores habitat with the regional bands', () => {
+    const bioData = { dissolved_oxygen_mg_l: 7, water_temp_c: 6, salinity_psu: 8 };
+
+    const northSea = enhancePrediction(bioData, 'Gadus morhua', 'day', { region: 'North Sea' });
+    const baltic = enhancePrediction(bioData, 'Gadus morhua', 'day', { region: 'Baltic Sea' });
+
+    expect(northSea.habitat_index).toBeLessThan(baltic.habitat_index);
+    expect(baltic.habitat_index).toBe(enhancePrediction({ ...bioData, salinity_psu: 30 }, 'Cod').habitat_index);
+  });
+});
@@ -7,6 +7,13 @@
  * Expected accuracy improvement: +40-50% over base predictions
  */
 
+import {
+  getSpeciesRegistry,
+  type SpeciesContext,
+  type SpeciesPreferences,
+  type SpeciesRegistry,
+} from './speciesRegistry';
+
 export interface BiogeochemicalData {
   chlorophyll_mg_m3?: number | null;
   water_clarity_kd490?: number | null;
@@ -25,124 +32,80 @@ export interface EnhancementResult {
   confidence: number;             // 0-100: Data quality confidence
   tactical_recommendation: string;
   warnings: string[];
+  factors: ScoreFactor[];               // Inputs behind each index, in index order
+  multiplier_steps: MultiplierStep[];   // How the indices moved the multiplier from 1.0
+  what_would_change: ScoreHint | null;  // Smallest single change that raises the multiplier
 }
 
-export interface SpeciesPreferences {
-  temp_min?: number;
-  temp_max?: number;
-  temp_optimal_min?: number;
-  temp_optimal_max?: number;
-  oxygen_min?: number;
-  salinity_min?: number;
-  salinity_max?: number;
-  prefers_turbid?: boolean;  // Some species like murky water
-  prefers_clear?: boolean;   // Others need clarity for visual hunting
+export type { SpeciesPreferences } from './speciesRegistry';
+
+export type TimeOfDay = 'dawn' | 'day' | 'dusk' | 'night';
+
+export type ScoreIndex = 'habitat' | 'baitfish' | 'visibility';
+
+export type ScoreFactorKey = keyof BiogeochemicalData | 'time_of_day';
+
+/**
+ * One input's contribution to an index
+ */
+export interface ScoreFactor {
+  key: ScoreFactorKey;
+  index: ScoreIndex;
+  label: string;
+  value: number | string | null;  // null when the input is missing
+  unit?: string;
+  band: string;                   // e.g. 'optimal', 'below_species_minimum', 'missing'
+  points: number;                 // Points added to the index (habitat points are weighted)
+  source: string | null;
+  age_hours: number | null;
 }
 
-// Species-specific environmental preferences
-const SPECIES_PREFERENCES: Record<string, SpeciesPreferences> = {
-  'Mackerel': {
-    temp_min: 8,
-    temp_max: 20,
-    temp_optimal_min: 11,
-    temp_optimal_max: 15,
-    oxygen_min: 5,
-    salinity_min: 30,
-    salinity_max: 38,
-    prefers_clear: true
-  },
-  'Bass': {
-    temp_min: 8,
-    temp_max: 24,
-    temp_optimal_min: 12,
-    temp_optimal_max: 18,
-    oxygen_min: 5,
-    salinity_min: 28,
-    salinity_max: 40,
-    prefers_clear: true
-  },
-  'Pollock': {
-    temp_min: 4,
-    temp_max: 16,
-    temp_optimal_min: 8,
-    temp_optimal_max: 12,
-    oxygen_min: 6,
-    salinity_min: 30,
-    salinity_max: 36,
-    prefers_clear: false
-  },
-  'Cod': {
-    temp_min: 0,
-    temp_max: 16,
-    temp_optimal_min: 4,
-    temp_optimal_max: 10,
-    oxygen_min: 6,
-    salinity_min: 28,
-    salinity_max: 35,
-    prefers_clear: false
-  },
-  'Plaice': {
-    temp_min: 2,
-    temp_max: 20,
-    temp_optimal_min: 8,
-    temp_optimal_max: 15,
-    oxygen_min: 4,
-    salinity_min: 28,
-    salinity_max: 36,
-    prefers_turbid: true
-  },
-  'Flounder': {
-    temp_min: 2,
-    temp_max: 22,
-    temp_optimal_min: 10,
-    temp_optimal_max: 18,
-    oxygen_min: 4,
-    salinity_min: 5,  // Euryhaline - tolerates brackish
-    salinity_max: 35,
-    prefers_turbid: true
-  },
-  'Whiting': {
-    temp_min: 4,
-    temp_max: 16,
-    temp_optimal_min: 8,
-    temp_optimal_max: 12,
-    oxygen_min: 5,
-    salinity_min: 30,
-    salinity_max: 36,
-    prefers_clear: false
-  },
-  'Herring': {
-    temp_min: 4,
-    temp_max: 18,
-    temp_optimal_min: 8,
-    temp_optimal_max: 14,
-    oxygen_min: 5,
-    salinity_min: 25,
-    salinity_max: 38,
-    prefers_clear: true
-  },
-  'Bream': {
-    temp_min: 8,
-    temp_max: 24,
-    temp_optimal_min: 12,
-    temp_optimal_max: 20,
-    oxygen_min: 4,
-    salinity_min: 28,
-    salinity_max: 36,
-    prefers_turbid: true
-  },
-  // Default fallback for unknown species
-  'default': {
-    temp_min: 4,
-    temp_max: 20,
-    temp_optimal_min: 10,
-    temp_optimal_max: 16,
-    oxygen_min: 5,
-    salinity_min: 28,
-    salinity_max: 38,
-    prefers_clear: false
-  }
-};
+/**
+ * Multiplier adjustment from one index ('limit' when clamped to 0.5-2.0)
+ */
+export interface MultiplierStep {
+  index: ScoreIndex | 'limit';
+  score: number | null;
+  band: string;
+  delta: number;
+}
+
+/**
+ * Deterministic "what would change the score" hint
+ */
+export interface ScoreHint {
+  factor: ScoreFactorKey;
+  current: number | string | null;
+  target: number | string;
+  multiplier: number;             // Multiplier after the change
+  delta: number;
+  message: string;
+}
+
+/** Explainable part of an enhancement result, e.g. for email templates */
+export type ScoreBreakdown = Pick<
+  EnhancementResult,
+  'overall_multiplier' | 'factors' | 'multiplier_steps' | 'what_would_change'
+>;
+
+export interface DataSource {
+  source: string;                 // e.g. 'copernicus:cmems_mod_ibi_bgc_anfc'
+  observedAt?: string | null;     // ISO time of the model step or observation
+}
+
+export interface EnhancementContext extends SpeciesContext {
+  /** Registry used to resolve species (defaults to the shared registry) */
+  registry?: SpeciesRegistry;
+  /** Where each input came from, for factor provenance */
+  sources?: Partial<Record<keyof BiogeochemicalData, DataSource>>;
+  /** Reference time for data ages (defaults to now) */
+  now?: Date;
+}
+
+type IndexScore = { score: number; explanation: string; factors: FactorScore[] };
+type FactorScore = Omit<ScoreFactor, 'source' | 'age_hours'>;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
 
 /**
  * Calculate Baitfish Activity Index (0-100)
@@ -160,50 +123,84 @@ function calculateBaitfishActivity(
   chlorophyll?: number | null,
   nitrate?: number | null,
   phosphate?: number | null
-): { score: number; explanation: string } {
+): IndexScore {
   
+  const chlorophyllFactor = (band: string, points: number): FactorScore => ({
+    key: 'chlorophyll_mg_m3',
+    index: 'baitfish',
+    label: 'Chlorophyll',
+    value: chlorophyll ?? null,
+    unit: 'mg/m³',
+    band,
+    points
+  });
+
   if (chlorophyll === null || chlorophyll === undefined) {
     return {
       score: 50,
-      explanation: 'No chlorophyll data available—assuming average baitfish activity'
+      explanation: 'No chlorophyll data available—assuming average baitfish activity',
+      factors: [chlorophyllFactor('missing', 50)]
     };
   }
 
   let score = 50;
   let explanation = '';
+  let band = '';
 
   // Primary indicator: Chlorophyll concentration
   if (chlorophyll < 0.5) {
     score = 25;
     explanation = 'Very low productivity (desert ocean)—baitfish scarce';
+    band = 'very_low';
   } else if (chlorophyll < 1.0) {
     score = 40;
     explanation = 'Low productivity—limited baitfish activity';
+    band = 'low';
   } else if (chlorophyll < 3.0) {
     score = 65;
     explanation = 'Moderate productivity—decent baitfish presence';
+    band = 'moderate';
   } else if (chlorophyll < 8.0) {
     score = 85;
     explanation = `Active feeding zone (${chlorophyll.toFixed(1)} mg/m³)—good baitfish activity`;
+    band = 'active';
   } else if (chlorophyll < 20.0) {
     score = 95;
     explanation = `Phytoplankton bloom detected (${chlorophyll.toFixed(1)} mg/m³)—excellent baitfish activity`;
+    band = 'bloom';
   } else {
     score = 80; // Hypereutrophic can sometimes be TOO much
     explanation = `Major bloom (${chlorophyll.toFixed(1)} mg/m³)—exceptional baitfish, but watch water quality`;
+    band = 'major_bloom';
   }
 
+  const factors: FactorScore[] = [chlorophyllFactor(band, score)];
+
   // Secondary boost: Nutrient availability suggests sustained productivity
-  if (nitrate && nitrate > 5) {
-    score = Math.min(100, score + 5);
-    explanation += '. High nutrients sustaining productivity';
+  if (nitrate !== null && nitrate !== undefined) {
+    const before = score;
+    if (nitrate > 5) {
+      score = Math.min(100, score + 5);
+      explanation += '. High nutrients sustaining productivity';
+    }
+    factors.push({
+      key: 'nitrate_umol_l', index: 'baitfish', label: 'Nitrate', value: nitrate, unit: 'µmol/L',
+      band: nitrate > 5 ? 'high' : 'normal', points: score - before
+    });
   }
-  if (phosphate && phosphate > 0.5) {
-    score = Math.min(100, score + 5);
-    explanation += '. Phosphate-rich waters';
+  if (phosphate !== null && phosphate !== undefined) {
+    const before = score;
+    if (phosphate > 0.5) {
+      score = Math.min(100, score + 5);
+      explanation += '. Phosphate-rich waters';
+    }
+    factors.push({
+      key: 'phosphate_umol_l', index: 'baitfish', label: 'Phosphate', value: phosphate, unit: 'µmol/L',
+      band: phosphate > 0.5 ? 'high' : 'normal', points: score - before
+    });
   }
 
-  return { score: Math.round(score), explanation };
+  return { score: Math.round(score), explanation, factors };
 }
 
 /**
@@ -223,19 +220,31 @@ function calculateBaitfishActivity(
 function calculateVisibility(
   clarity?: number | null,
   chlorophyll?: number | null,
-  timeOfDay?: 'dawn' | 'day' | 'dusk' | 'night',
+  timeOfDay?: TimeOfDay,
   speciesPreferences?: SpeciesPreferences
-): { score: number; explanation: string } {
+): IndexScore {
+
+  const clarityFactor = (band: string, points: number): FactorScore => ({
+    key: 'water_clarity_kd490',
+    index: 'visibility',
+    label: 'Water clarity (KD490)',
+    value: clarity ?? null,
+    unit: 'm⁻¹',
+    band,
+    points
+  });
 
   if (clarity === null || clarity === undefined) {
     return {
       score: 50,
-      explanation: 'No clarity data—assuming moderate visibility'
+      explanation: 'No clarity data—assuming moderate visibility',
+      factors: [clarityFactor('missing', 50)]
     };
   }
 
   let score = 50;
   let explanation = '';
+  let band = '';
 
   // Secchi depth approximation: 1.7 / KD490 (meters)
   const secchiDepth = 1.7 / clarity;
@@ -244,21 +253,27 @@ function calculateVisibility(
   if (clarity < 0.05) {
     score = 100;
     explanation = `Crystal clear waters (${secchiDepth.toFixed(1)}m visibility)—excellent for lures`;
+    band = 'very_clear';
   } else if (clarity < 0.15) {
     score = 85;
     explanation = `Clear waters (${secchiDepth.toFixed(1)}m visibility)—good lure visibility`;
+    band = 'clear';
   } else if (clarity < 0.5) {
     score = 65;
     explanation = `Moderate clarity (${secchiDepth.toFixed(1)}m visibility)—decent conditions`;
+    band = 'moderate';
   } else if (clarity < 1.0) {
     score = 45;
     explanation = `Turbid waters (${secchiDepth.toFixed(1)}m visibility)—limited lure effectiveness`;
+    band = 'turbid';
   } else if (clarity < 2.0) {
     score = 30;
     explanation = `Very turbid (${secchiDepth.toFixed(1)}m visibility)—use bright/noisy lures`;
+    band = 'very_turbid';
   } else {
     score = 20;
     explanation = `Extremely turbid (${secchiDepth.toFixed(1)}m visibility)—bait fishing recommended`;
+    band = 'extremely_turbid';
   }
 
   // Species preference adjustments
@@ -271,7 +286,10 @@ function calculateVisibility(
                              .replace('use bright', 'ideal conditions, use natural');
   }
 
+  const factors: FactorScore[] = [clarityFactor(band, score)];
+
   // Time of day modifiers
+  const before = score;
   if (timeOfDay === 'dawn' || timeOfDay === 'dusk') {
     score = Math.min(100, score * 1.2); // Dawn/dusk feeding periods
     explanation += '. Prime feeding time enhances visual hunting';
@@ -279,13 +297,23 @@ function calculateVisibility(
     score = Math.max(20, score * 0.6); // Night reduces visual hunting
     explanation += '. Night conditions reduce visual hunting effectiveness';
   }
+  if (timeOfDay) {
+    factors.push({
+      key: 'time_of_day',
+      index: 'visibility',
+      label: 'Time of day',
+      value: timeOfDay,
+      band: timeOfDay === 'dawn' || timeOfDay === 'dusk' ? 'feeding_window' : timeOfDay,
+      points: round1(score - before)
+    });
+  }
 
   // Chlorophyll can indicate suspended particles affecting clarity
   if (chlorophyll && chlorophyll > 10 && clarity > 0.5) {
     explanation += '. Algal bloom reducing clarity';
   }
 
-  return { score: Math.round(score), explanation };
+  return { score: Math.round(score), explanation, factors };
 }
 
 /**
@@ -301,18 +329,21 @@ function calculateVisibility(
  * - Dissolved oxygen >12 mg/L: Supersaturated (sometimes stressful)
  */
 function calculateHabitatSuitability(
+  prefs: SpeciesPreferences,
   oxygen?: number | null,
   temperature?: number | null,
   salinity?: number | null,
   speciesName?: string
-): { score: number; explanation: string; warnings: string[] } {
+): IndexScore & { warnings: string[] } {
 
   const warnings: string[] = [];
-  const prefs = SPECIES_PREFERENCES[speciesName || 'default'] || SPECIES_PREFERENCES['default'];
   
   let oxygenScore = 50;
   let tempScore = 50;
   let salinityScore = 50;
+  let oxygenBand = 'missing';
+  let tempBand = temperature === null || temperature === undefined ? 'missing' : 'no_preference';
+  let salinityBand = salinity === null || salinity === undefined ? 'missing' : 'no_preference';
   
   const explanations: string[] = [];
 
@@ -320,23 +351,29 @@ function calculateHabitatSuitability(
   if (oxygen !== null && oxygen !== undefined) {
     if (oxygen < 2) {
       oxygenScore = 0;
+      oxygenBand = 'hypoxic';
       explanations.push(`Hypoxic dead zone (${oxygen.toFixed(1)} mg/L O₂)—fish will avoid`);
       warnings.push('⚠️ HYPOXIC CONDITIONS: Fish are likely absent or fleeing this area');
     } else if (oxygen < prefs.oxygen_min!) {
       oxygenScore = 30;
+      oxygenBand = 'below_species_minimum';
       explanations.push(`Low oxygen (${oxygen.toFixed(1)} mg/L)—fish stressed and less active`);
       warnings.push(`Oxygen below ${prefs.oxygen_min} mg/L—${speciesName || 'fish'} activity reduced`);
     } else if (oxygen < 5) {
       oxygenScore = 50;
+      oxygenBand = 'marginal';
       explanations.push(`Marginal oxygen (${oxygen.toFixed(1)} mg/L)—reduced fish activity`);
     } else if (oxygen < 8) {
       oxygenScore = 90;
+      oxygenBand = 'good';
       explanations.push(`Good oxygen levels (${oxygen.toFixed(1)} mg/L)—healthy fish activity`);
     } else if (oxygen < 12) {
       oxygenScore = 100;
+      oxygenBand = 'excellent';
       explanations.push(`Excellent oxygen (${oxygen.toFixed(1)} mg/L)—prime habitat`);
     } else {
       oxygenScore = 85;
+      oxygenBand = 'supersaturated';
       explanations.push(`Very high oxygen (${oxygen.toFixed(1)} mg/L)—possibly supersaturated`);
     }
   } else {
@@ -347,10 +384,12 @@ function calculateHabitatSuitability(
   if (temperature !== null && temperature !== undefined && prefs.temp_min !== undefined) {
     if (temperature < prefs.temp_min!) {
       tempScore = 20;
+      tempBand = 'too_cold';
       explanations.push(`Too cold (${temperature.toFixed(1)}°C)—below species minimum`);
       warnings.push(`Temperature ${temperature.toFixed(1)}°C is below optimal for ${speciesName || 'this species'}`);
     } else if (temperature > prefs.temp_max!) {
       tempScore = 20;
+      tempBand = 'too_warm';
       explanations.push(`Too warm (${temperature.toFixed(1)}°C)—above species maximum`);
       warnings.push(`Temperature ${temperature.toFixed(1)}°C is above optimal for ${speciesName || 'this species'}`);
     } else if (
@@ -358,10 +397,12 @@ function calculateHabitatSuitability(
       temperature <= prefs.temp_optimal_max!
     ) {
       tempScore = 100;
+      tempBand = 'optimal';
       explanations.push(`Ideal temperature (${temperature.toFixed(1)}°C)—prime feeding conditions`);
     } else {
       // Within tolerance but not optimal
       tempScore = 70;
+      tempBand = 'tolerated';
       explanations.push(`Acceptable temperature (${temperature.toFixed(1)}°C)—within species range`);
     }
   }
@@ -370,6 +411,7 @@ function calculateHabitatSuitability(
   if (salinity !== null && salinity !== undefined && prefs.salinity_min !== undefined) {
     if (salinity < prefs.salinity_min! || salinity > prefs.salinity_max!) {
       salinityScore = 30;
+      salinityBand = 'outside_range';
       explanations.push(`Salinity stress (${salinity.toFixed(1)} PSU)—outside preferred range`);
       if (salinity < 10) {
         warnings.push('Brackish water—some marine species may be absent');
@@ -378,6 +420,7 @@ function calculateHabitatSuitability(
       }
     } else {
       salinityScore = 100;
+      salinityBand = 'within_range';
       explanations.push(`Good salinity (${salinity.toFixed(1)} PSU)—within species tolerance`);
     }
   }
@@ -387,10 +430,26 @@ function calculateHabitatSuitability(
     (oxygenScore * 0.5) + (tempScore * 0.35) + (salinityScore * 0.15)
   );
 
+  const factors: FactorScore[] = [
+    {
+      key: 'dissolved_oxygen_mg_l', index: 'habitat', label: 'Dissolved oxygen', value: oxygen ?? null,
+      unit: 'mg/L', band: oxygenBand, points: round1(oxygenScore * 0.5)
+    },
+    {
+      key: 'water_temp_c', index: 'habitat', label: 'Water temperature', value: temperature ?? null,
+      unit: '°C', band: tempBand, points: round1(tempScore * 0.35)
+    },
+    {
+      key: 'salinity_psu', index: 'habitat', label: 'Salinity', value: salinity ?? null,
+      unit: 'PSU', band: salinityBand, points: round1(salinityScore * 0.15)
+    }
+  ];
+
   return {
     score: overallScore,
     explanation: explanations.join('. '),
-    warnings
+    warnings,
+    factors
   };
 }
 
@@ -420,17 +479,14 @@ function calculateConfidence(data: BiogeochemicalData): number {
 }
 
 /**
- * Main enhancement function
- * Combines all indices and generates tactical recommendations
+ * Score all indices and step the multiplier through them
  */
-export function enhancePrediction(
+function scoreConditions(
   bioData: BiogeochemicalData,
-  speciesName?: string,
-  timeOfDay?: 'dawn' | 'day' | 'dusk' | 'night'
-): EnhancementResult {
-  
-  const speciesPrefs = SPECIES_PREFERENCES[speciesName || 'default'] || SPECIES_PREFERENCES['default'];
-  
+  speciesPrefs: SpeciesPreferences,
+  timeOfDay?: TimeOfDay,
+  speciesName?: string
+) {
   // Calculate individual indices
   const baitfish = calculateBaitfishActivity(
     bioData.chlorophyll_mg_m3,
@@ -446,6 +502,7 @@ export function enhancePrediction(
   );
   
   const habitat = calculateHabitatSuitability(
+    speciesPrefs,
     bioData.dissolved_oxygen_mg_l,
     bioData.water_temp_c,
     bioData.salinity_psu,
@@ -456,37 +513,203 @@ export function enhancePrediction(
   // Habitat is most critical (can be 0x for dead zones)
   // Baitfish and visibility provide additional boost
   let multiplier = 1.0;
+  const steps: MultiplierStep[] = [];
+  const step = (index: MultiplierStep['index'], score: number | null, band: string, delta: number) => {
+    steps.push({ index, score, band, delta: Number(delta.toFixed(2)) });
+    multiplier += delta;
+  };
   
   if (habitat.score < 20) {
-    multiplier = 0.5; // Dead zone - severe penalty
+    step('habitat', habitat.score, 'dead_zone', -0.5); // Dead zone - severe penalty
   } else if (habitat.score < 50) {
-    multiplier = 0.7; // Poor habitat - moderate penalty
+    step('habitat', habitat.score, 'poor', -0.3); // Poor habitat - moderate penalty
   } else if (habitat.score < 70) {
-    multiplier = 0.9; // Acceptable habitat - slight penalty
+    step('habitat', habitat.score, 'acceptable', -0.1); // Acceptable habitat - slight penalty
   } else if (habitat.score < 85) {
-    multiplier = 1.1; // Good habitat - slight boost
+    step('habitat', habitat.score, 'good', 0.1); // Good habitat - slight boost
   } else {
-    multiplier = 1.3; // Excellent habitat - significant boost
+    step('habitat', habitat.score, 'excellent', 0.3); // Excellent habitat - significant boost
   }
 
   // Baitfish activity modifies multiplier
   if (baitfish.score > 80) {
-    multiplier += 0.3; // Major bloom - big boost
+    step('baitfish', baitfish.score, 'bloom', 0.3); // Major bloom - big boost
   } else if (baitfish.score > 60) {
-    multiplier += 0.15; // Good activity - moderate boost
+    step('baitfish', baitfish.score, 'active', 0.15); // Good activity - moderate boost
   } else if (baitfish.score < 40) {
-    multiplier -= 0.1; // Low activity - slight penalty
+    step('baitfish', baitfish.score, 'low', -0.1); // Low activity - slight penalty
+  } else {
+    step('baitfish', baitfish.score, 'average', 0);
   }
 
   // Visibility has smaller impact (depends on fishing method)
   if (visibility.score > 80) {
-    multiplier += 0.1;
+    step('visibility', visibility.score, 'high', 0.1);
   } else if (visibility.score < 30) {
-    multiplier -= 0.05;
+    step('visibility', visibility.score, 'low', -0.05);
+  } else {
+    step('visibility', visibility.score, 'average', 0);
   }
 
   // Clamp multiplier to reasonable range
-  multiplier = Math.max(0.5, Math.min(2.0, multiplier));
+  const clamped = Math.max(0.5, Math.min(2.0, multiplier));
+  if (Math.abs(clamped - multiplier) > 1e-9) {
+    step('limit', null, clamped > multiplier ? 'minimum' : 'maximum', clamped - multiplier);
+  }
+
+  return { baitfish, visibility, habitat, steps, multiplier: Number(clamped.toFixed(2)) };
+}
+
+// Order in which equally good hints are preferred (most actionable first)
+const HINT_ORDER: ScoreFactorKey[] = [
+  'time_of_day',
+  'water_temp_c',
+  'dissolved_oxygen_mg_l',
+  'salinity_psu',
+  'chlorophyll_mg_m3',
+  'water_clarity_kd490',
+  'nitrate_umol_l',
+  'phosphate_umol_l'
+];
+
+/**
+ * Band edges worth trying for each input: the value just inside the
+ * neighbouring band on either side
+ */
+function hintCandidates(key: keyof BiogeochemicalData, prefs: SpeciesPreferences): number[] {
+  const defined = (values: (number | undefined)[]) => values.filter((v): v is number => v !== undefined);
+
+  switch (key) {
+    case 'dissolved_oxygen_mg_l':
+      return defined([2, prefs.oxygen_min, 5, 8]);
+    case 'water_temp_c':
+      return defined([prefs.temp_min, prefs.temp_optimal_min, prefs.temp_optimal_max, prefs.temp_max]);
+    case 'salinity_psu':
+      return defined([prefs.salinity_min, prefs.salinity_max]);
+    case 'chlorophyll_mg_m3':
+      return [0.5, 1, 3, 8];
+    case 'water_clarity_kd490':
+      return [0.04, 0.05, 0.14, 0.15, 0.49, 0.5, 0.99, 1, 1.99, 2];
+    case 'nitrate_umol_l':
+      return [5.1];
+    case 'phosphate_umol_l':
+      return [0.51];
+  }
+}
+
+function formatValue(key: ScoreFactorKey, value: number): string {
+  return value.toFixed(key === 'water_clarity_kd490' || key === 'phosphate_umol_l' ? 2 : 1);
+}
+
+/**
+ * Find the single input change that raises the multiplier the most.
+ * Ties go to the smallest relative change, then to HINT_ORDER, so the same
+ * conditions always produce the same hint.
+ */
+function findImprovementHint(
+  bioData: BiogeochemicalData,
+  speciesPrefs: SpeciesPreferences,
+  timeOfDay: TimeOfDay | undefined,
+  speciesName: string | undefined,
+  multiplier: number,
+  factors: ScoreFactor[]
+): ScoreHint | null {
+
+  type Candidate = { key: ScoreFactorKey; target: number | string; multiplier: number; distance: number };
+  const candidates: Candidate[] = [];
+
+  if (timeOfDay !== 'dawn' && timeOfDay !== 'dusk') {
+    const scored = scoreConditions(bioData, speciesPrefs, 'dawn', speciesName);
+    candidates.push({ key: 'time_of_day', target: 'dawn', multiplier: scored.multiplier, distance: 0 });
+  }
+
+  for (const key of HINT_ORDER) {
+    if (key === 'time_of_day') continue;
+    const current = bioData[key];
+    if (current === null || current === undefined) continue;
+
+    for (const target of hintCandidates(key, speciesPrefs)) {
+      if (target === current) continue;
+      const scored = scoreConditions({ ...bioData, [key]: target }, speciesPrefs, timeOfDay, speciesName);
+      candidates.push({
+        key,
+        target,
+        multiplier: scored.multiplier,
+        distance: Math.abs(target - current) / Math.max(Math.abs(current), 0.01)
+      });
+    }
+  }
+
+  const best = candidates
+    .filter(candidate => candidate.multiplier - multiplier > 0.001)
+    .sort((a, b) =>
+      (b.multiplier - a.multiplier) ||
+      (a.distance - b.distance) ||
+      (HINT_ORDER.indexOf(a.key) - HINT_ORDER.indexOf(b.key))
+    )[0];
+  if (!best) return null;
+
+  const change = `lift the multiplier from ${multiplier.toFixed(2)}× to ${best.multiplier.toFixed(2)}×`;
+  if (best.key === 'time_of_day') {
+    return {
+      factor: 'time_of_day',
+      current: timeOfDay ?? null,
+      target: 'dawn',
+      multiplier: best.multiplier,
+      delta: Number((best.multiplier - multiplier).toFixed(2)),
+      message: `Fishing at dawn or dusk would ${change}`
+    };
+  }
+
+  const factor = factors.find(f => f.key === best.key);
+  const current = bioData[best.key as keyof BiogeochemicalData] as number;
+  const unit = factor?.unit ? ` ${factor.unit}` : '';
+  return {
+    factor: best.key,
+    current,
+    target: best.target,
+    multiplier: best.multiplier,
+    delta: Number((best.multiplier - multiplier).toFixed(2)),
+    message: `${factor?.label ?? best.key} of ${formatValue(best.key, best.target as number)}${unit} ` +
+      `(now ${formatValue(best.key, current)}${unit}) would ${change}`
+  };
+}
+
+/**
+ * Main enhancement function
+ * Combines all indices and generates tactical recommendations
+ *
+ * `speciesName` may be a species id, scientific, common or translated name;
+ * `context` selects regional and monthly preference overrides and supplies
+ * the data sources reported on each factor.
+ */
+export function enhancePrediction(
+  bioData: BiogeochemicalData,
+  speciesName?: string,
+  timeOfDay?: TimeOfDay,
+  context: EnhancementContext = {}
+): EnhancementResult {
+  
+  const { registry = getSpeciesRegistry(), sources = {}, now = new Date(), ...speciesContext } = context;
+  const speciesPrefs = registry.getPreferences(speciesName, speciesContext);
+
+  const { baitfish, visibility, habitat, steps, multiplier } = scoreConditions(
+    bioData,
+    speciesPrefs,
+    timeOfDay,
+    speciesName
+  );
+
+  // Attach provenance to every factor that came from an input
+  const factors: ScoreFactor[] = [...habitat.factors, ...baitfish.factors, ...visibility.factors].map(factor => {
+    const source = factor.key === 'time_of_day' || factor.value === null ? undefined : sources[factor.key];
+    const observedAt = source?.observedAt ? Date.parse(source.observedAt) : NaN;
+    return {
+      ...factor,
+      source: source?.source ?? null,
+      age_hours: Number.isNaN(observedAt) ? null : round1(Math.max(0, now.getTime() - observedAt) / 3_600_000)
+    };
+  });
 
   // Generate tactical recommendation
   const tactical = generateTacticalRecommendation(
@@ -503,10 +726,13 @@ export function enhancePrediction(
     baitfish_index: baitfish.score,
     visibility_index: visibility.score,
     habitat_index: habitat.score,
-    overall_multiplier: Number(multiplier.toFixed(2)),
+    overall_multiplier: multiplier,
     confidence,
     tactical_recommendation: tactical,
-    warnings: habitat.warnings
+    warnings: habitat.warnings,
+    factors,
+    multiplier_steps: steps,
+    what_would_change: findImprovementHint(bioData, speciesPrefs, timeOfDay, speciesName, multiplier, factors)
   };
 }
 
@@ -570,13 +796,14 @@ function generateTacticalRecommendation(
 export function enhanceMultipleSpecies(
   bioData: BiogeochemicalData,
   speciesNames: string[],
-  timeOfDay?: 'dawn' | 'day' | 'dusk' | 'night'
+  timeOfDay?: TimeOfDay,
+  context: EnhancementContext = {}
 ): Record<string, EnhancementResult> {
   
   const results: Record<string, EnhancementResult> = {};
   
   for (const species of speciesNames) {
-    results[species] = enhancePrediction(bioData, species, timeOfDay);
+    results[species] = enhancePrediction(bioData, species, timeOfDay, context);
   }
   
   return results;
@@ -0,0 +1,364 @@
+/**
+ * Prediction Calibration
+ *
+ * Checks whether prediction confidence means what it says: cached predictions
+ * (IndexedDB `predictions` store) are joined with logged catches, reliability
+ * curves and Brier scores are computed per species, guild and region, and a
+ * monotone calibration map is fitted to correct future confidence values.
+ *
+ * Only rectangle-days on which the user logged at least one catch count as
+ * observations: on other days we cannot tell "fished and caught nothing"
+ * from "did not fish".
+ *
+ * Usage:
+ * ```typescript
+ * const samples = await loadCalibrationSamples(userId);
+ * const report = buildCalibrationReport(samples);
+ * const model = fitCalibrationModel(samples);
+ *
+ * calibrateConfidence(72, model, { speciesId, guild: 'pelagic' }); // e.g. 58
+ * ```
+ */
+
+import type { CachedCatch } from '../offline/catchHistory';
+import type { CachedPrediction, CachedSpecies } from '../offline/storage';
+import { FALLBACK_RECTANGLE_OPTIONS } from '../findr/fallbackRectangles';
+import { normalizePrediction } from '../utils/rpcResponseNormalizer';
+
+export type CalibrationGroup = 'species' | 'guild' | 'region';
+
+/** One predicted species on one observed rectangle-day */
+export interface CalibrationSample {
+  speciesId: string;
+  guild?: string;
+  region?: string;
+  rectangleCode: string;
+  date: string;          // YYYY-MM-DD
+  confidence: number;    // 0-100 as predicted
+  caught: boolean;
+}
+
+export interface ReliabilityBin {
+  lower: number;         // Confidence range (0-100), lower inclusive
+  upper: number;
+  count: number;
+  meanConfidence: number;
+  observedRate: number;  // Share of samples with a catch (0-100)
+}
+
+export interface CalibrationSummary {
+  key: string;
+  count: number;
+  brierScore: number;    // Mean squared error of confidence/100 vs outcome (0 = perfect)
+  baseRate: number;      // Overall catch rate (0-100)
+  reliability: ReliabilityBin[];
+}
+
+export interface CalibrationReport {
+  overall: CalibrationSummary;
+  bySpecies: CalibrationSummary[];
+  byGuild: CalibrationSummary[];
+  byRegion: CalibrationSummary[];
+}
+
+/** Piecewise-linear, non-decreasing map from predicted to calibrated confidence */
+export interface CalibrationMap {
+  points: Array<{ confidence: number; calibrated: number }>;
+  sampleCount: number;
+}
+
+export interface CalibrationModel {
+  overall: CalibrationMap;
+  bySpecies: Record<string, CalibrationMap>;
+  byGuild: Record<string, CalibrationMap>;
+  byRegion: Record<string, CalibrationMap>;
+  fittedAt: string;
+}
+
+export interface JoinOptions {
+  /** Species id → guild (e.g. from the cached species store) */
+  guilds?: Record<string, string>;
+  /** Rectangle code → region; defaults to the fallback rectangle regions */
+  regionOf?: (rectangleCode: string) => string | undefined;
+}
+
+export interface FitOptions {
+  /** Reliability bins used for fitting (default 10) */
+  bins?: number;
+  /**
+   * Pseudo-observations pulling each bin towards its own confidence, so
+   * sparse bins stay close to the identity map (default 10)
+   */
+  priorStrength?: number;
+  /** Groups with fewer samples get no map of their own (default 30) */
+  minGroupSamples?: number;
+}
+
+const DEFAULT_REGIONS = new Map(FALLBACK_RECTANGLE_OPTIONS.map(option => [option.code, option.region]));
+const UNKNOWN = 'unknown';
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Species predictions stored in a cached prediction response, which is
+ * either an RPC row array or an object holding one
+ */
+function readPredictionRows(data: unknown): Array<Record<string, unknown>> {
+  if (Array.isArray(data)) return data.filter(row => row && typeof row === 'object');
+  if (data && typeof data === 'object') {
+    for (const key of ['predictions', 'species', 'data']) {
+      const rows = (data as Record<string, unknown>)[key];
+      if (Array.isArray(rows)) return readPredictionRows(rows);
+    }
+  }
+  return [];
+}
+
+/**
+ * Join cached predictions with logged catches into calibration samples
+ *
+ * A sample is produced for every predicted species on each rectangle-day
+ * with at least one logged catch; it counts as caught when one of those
+ * catches is of that species.
+ */
+export function joinPredictionsWithCatches(
+  predictions: CachedPrediction[],
+  catches: CachedCatch[],
+  options: JoinOptions = {}
+): CalibrationSample[] {
+  const regionOf = options.regionOf ?? ((code: string) => DEFAULT_REGIONS.get(code));
+
+  // Species caught per rectangle-day
+  const caughtByDay = new Map<string, Set<string>>();
+  for (const logged of catches) {
+    if (!logged.rectangle_code || !logged.caught_at) continue;
+    const key = `${logged.rectangle_code}|${logged.caught_at.slice(0, 10)}`;
+    const species = caughtByDay.get(key) ?? new Set<string>();
+    species.add(logged.species_id);
+    caughtByDay.set(key, species);
+  }
+
+  const samples: CalibrationSample[] = [];
+  for (const prediction of predictions) {
+    const caught = caughtByDay.get(`${prediction.rectangleCode}|${prediction.date}`);
+    if (!caught) continue;
+
+    const seen = new Set<string>();
+    for (const row of readPredictionRows(prediction.data)) {
+      const { species_id: speciesId, confidence } = normalizePrediction(row);
+      if (!speciesId || seen.has(speciesId) || !Number.isFinite(confidence)) continue;
+      seen.add(speciesId);
+
+      samples.push({
+        speciesId,
+        guild: options.guilds?.[speciesId],
+        region: regionOf(prediction.rectangleCode),
+        rectangleCode: prediction.rectangleCode,
+        date: prediction.date,
+        confidence: clamp(confidence),
+        caught: caught.has(speciesId),
+      });
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Brier score of the samples (confidence read as a probability)
+ */
+export function brierScore(samples: CalibrationSample[]): number {
+  if (samples.length === 0) return NaN;
+  const total = samples.reduce((sum, s) => sum + (s.confidence / 100 - (s.caught ? 1 : 0)) ** 2, 0);
+  return total / samples.length;
+}
+
+/**
+ * Reliability curve: predicted vs observed catch rate per confidence bin.
+ * Empty bins are omitted.
+ */
+export function reliabilityCurve(samples: CalibrationSample[], bins: number = 10): ReliabilityBin[] {
+  const width = 100 / bins;
+  const grouped: CalibrationSample[][] = Array.from({ length: bins }, () => []);
+  for (const sample of samples) {
+    grouped[Math.min(bins - 1, Math.floor(sample.confidence / width))].push(sample);
+  }
+
+  return grouped.flatMap((group, i) => {
+    if (group.length === 0) return [];
+    const caught = group.filter(s => s.caught).length;
+    return [{
+      lower: round2(i * width),
+      upper: round2((i + 1) * width),
+      count: group.length,
+      meanConfidence: round2(group.reduce((sum, s) => sum + s.confidence, 0) / group.length),
+      observedRate: round2((caught / group.length) * 100),
+    }];
+  });
+}
+
+function summarize(key: string, samples: CalibrationSample[], bins: number): CalibrationSummary {
+  const caught = samples.filter(s => s.caught).length;
+  return {
+    key,
+    count: samples.length,
+    brierScore: Math.round(brierScore(samples) * 10000) / 10000,
+    baseRate: samples.length > 0 ? round2((caught / samples.length) * 100) : NaN,
+    reliability: reliabilityCurve(samples, bins),
+  };
+}
+
+function groupSamples(samples: CalibrationSample[], group: CalibrationGroup): Map<string, CalibrationSample[]> {
+  const groups = new Map<string, CalibrationSample[]>();
+  for (const sample of samples) {
+    const key = (group === 'species' ? sample.speciesId : sample[group]) ?? UNKNOWN;
+    const members = groups.get(key);
+    if (members) members.push(sample);
+    else groups.set(key, [sample]);
+  }
+  return groups;
+}
+
+/**
+ * Reliability and Brier score overall and per species, guild and region
+ * (groups sorted by sample count, largest first)
+ */
+export function buildCalibrationReport(samples: CalibrationSample[], bins: number = 10): CalibrationReport {
+  const byGroup = (group: CalibrationGroup) =>
+    Array.from(groupSamples(samples, group), ([key, members]) => summarize(key, members, bins))
+      .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+
+  return {
+    overall: summarize('overall', samples, bins),
+    bySpecies: byGroup('species'),
+    byGuild: byGroup('guild'),
+    byRegion: byGroup('region'),
+  };
+}
+
+/**
+ * Fit a calibration map: smoothed observed rate per reliability bin, made
+ * non-decreasing with pool-adjacent-violators (isotonic regression)
+ */
+export function fitCalibrationMap(samples: CalibrationSample[], options: FitOptions = {}): CalibrationMap {
+  const { bins = 10, priorStrength = 10 } = options;
+
+  // Each bin starts as a block: weight, smoothed rate and mean confidence
+  const blocks = reliabilityCurve(samples, bins).map(bin => ({
+    weight: bin.count + priorStrength,
+    rate: (bin.observedRate * bin.count + bin.meanConfidence * priorStrength) / (bin.count + priorStrength),
+    confidences: [bin.meanConfidence],
+  }));
+
+  const pooled: typeof blocks = [];
+  for (const block of blocks) {
+    pooled.push({ ...block });
+    while (pooled.length > 1 && pooled[pooled.length - 2].rate > pooled[pooled.length - 1].rate) {
+      const last = pooled.pop()!;
+      const prev = pooled.pop()!;
+      const weight = prev.weight + last.weight;
+      pooled.push({
+        weight,
+        rate: (prev.rate * prev.weight + last.rate * last.weight) / weight,
+        confidences: [...prev.confidences, ...last.confidences],
+      });
+    }
+  }
+
+  const points = pooled.flatMap(block =>
+    block.confidences.map(confidence => ({ confidence, calibrated: round2(clamp(block.rate)) }))
+  );
+
+  return { points, sampleCount: samples.length };
+}
+
+/**
+ * Fit the overall map plus one per species, guild and region with enough samples
+ */
+export function fitCalibrationModel(samples: CalibrationSample[], options: FitOptions = {}): CalibrationModel {
+  const minGroupSamples = options.minGroupSamples ?? 30;
+  const fitGroups = (group: CalibrationGroup) => {
+    const maps: Record<string, CalibrationMap> = {};
+    for (const [key, members] of groupSamples(samples, group)) {
+      if (key !== UNKNOWN && members.length >= minGroupSamples) {
+        maps[key] = fitCalibrationMap(members, options);
+      }
+    }
+    return maps;
+  };
+
+  return {
+    overall: fitCalibrationMap(samples, options),
+    bySpecies: fitGroups('species'),
+    byGuild: fitGroups('guild'),
+    byRegion: fitGroups('region'),
+    fittedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Map a confidence value (0-100) through a calibration map. Values between
+ * points are interpolated; outside them the nearest point's offset is kept.
+ * An empty map leaves the value unchanged.
+ */
+export function applyCalibration(confidence: number, map: CalibrationMap): number {
+  const { points } = map;
+  if (points.length === 0) return Math.round(clamp(confidence));
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (confidence <= first.confidence) {
+    return Math.round(clamp(confidence + first.calibrated - first.confidence));
+  }
+  if (confidence >= last.confidence) {
+    return Math.round(clamp(confidence + last.calibrated - last.confidence));
+  }
+
+  const upper = points.findIndex(p => p.confidence >= confidence);
+  const a = points[upper - 1];
+  const b = points[upper];
+  const t = b.confidence === a.confidence ? 0 : (confidence - a.confidence) / (b.confidence - a.confidence);
+  return Math.round(clamp(a.calibrated + t * (b.calibrated - a.calibrated)));
+}
+
+/**
+ * Calibrate a confidence value with the most specific fitted map
+ * (species, then guild, then region, then overall)
+ */
+export function calibrateConfidence(
+  confidence: number,
+  model: CalibrationModel,
+  context: { speciesId?: string; guild?: string; region?: string } = {}
+): number {
+  const map =
+    (context.speciesId && model.bySpecies[context.speciesId]) ||
+    (context.guild && model.byGuild[context.guild]) ||
+    (context.region && model.byRegion[context.region]) ||
+    model.overall;
+  return applyCalibration(confidence, map);
+}
+
+/**
+ * Build calibration samples from the offline stores: the user's cached catch
+ * history, the cached predictions for the rectangles they fished and the
+ * guilds of the cached species
+ */
+export async function loadCalibrationSamples(
+  userId: string,
+  options: Pick<JoinOptions, 'regionOf'> = {}
+): Promise<CalibrationSample[]> {
+  const { getCachedCatchHistory } = await import('../offline/catchHistory');
+  const { getStorage } = await import('../offline/storage');
+
+  const history = await getCachedCatchHistory(userId);
+  if (!history || history.catches.length === 0) return [];
+
+  const storage = getStorage();
+  const rectangles = Array.from(new Set(history.catches.map(c => c.rectangle_code).filter(Boolean)));
+  const predictions = (await Promise.all(rectangles.map(code => storage.getPredictionsForRectangle(code)))).flat();
+  const species: CachedSpecies[] = await storage.getAllSpecies();
+  const guilds = Object.fromEntries(species.map(s => [s.id, s.guild]));
+
+  return joinPredictionsWithCatches(predictions, history.catches, { ...options, guilds });
+}
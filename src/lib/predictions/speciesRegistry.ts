@@ -0,0 +1,433 @@
+/**
+ * Species Preference Registry
+ *
+ * Environmental preference bands used by the biogeochemical enhancer, keyed by
+ * stable species id and scientific name. Species resolve from any alias (common,
+ * translated or cached names), and bands can be overridden per region and per
+ * month where local populations behave differently (e.g. Baltic cod and herring
+ * living in brackish water).
+ */
+
+import type { CachedSpecies } from '../offline/storage';
+
+export interface SpeciesPreferences {
+  temp_min?: number;
+  temp_max?: number;
+  temp_optimal_min?: number;
+  temp_optimal_max?: number;
+  oxygen_min?: number;
+  salinity_min?: number;
+  salinity_max?: number;
+  prefers_turbid?: boolean;  // Some species like murky water
+  prefers_clear?: boolean;   // Others need clarity for visual hunting
+}
+
+export interface SpeciesPreferenceOverride {
+  /**
+   * ICES area/ecoregion names or CMEMS region codes ('Baltic Sea', 'BAL').
+   * Matched case-insensitively against the region name, which may be longer.
+   */
+  regions?: string[];
+  /** Months (1-12) the override applies to */
+  months?: number[];
+  preferences: Partial<SpeciesPreferences>;
+}
+
+export interface SpeciesProfile {
+  /** Stable id (scientific name slug) */
+  id: string;
+  scientificName: string;
+  commonName: string;
+  aliases?: string[];
+  preferences: SpeciesPreferences;
+  overrides?: SpeciesPreferenceOverride[];
+}
+
+export interface SpeciesContext {
+  /** ICES region name or CMEMS region code of the location */
+  region?: string;
+  /** Month of the prediction (1-12) */
+  month?: number;
+}
+
+export type SpeciesPreferenceKey = keyof SpeciesPreferences;
+
+const NUMERIC_KEYS: SpeciesPreferenceKey[] = [
+  'temp_min',
+  'temp_max',
+  'temp_optimal_min',
+  'temp_optimal_max',
+  'oxygen_min',
+  'salinity_min',
+  'salinity_max',
+];
+const BOOLEAN_KEYS: SpeciesPreferenceKey[] = ['prefers_turbid', 'prefers_clear'];
+
+// Default fallback for unknown species
+export const DEFAULT_SPECIES_PREFERENCES: SpeciesPreferences = {
+  temp_min: 4,
+  temp_max: 20,
+  temp_optimal_min: 10,
+  temp_optimal_max: 16,
+  oxygen_min: 5,
+  salinity_min: 28,
+  salinity_max: 38,
+  prefers_clear: false
+};
+
+const BALTIC = ['Baltic', 'BAL', 'Finnish Gulf', 'Gulf of Bothnia', 'Gulf of Riga'];
+
+// Built-in profiles for the species the app predicts most often
+const BUILT_IN_PROFILES: SpeciesProfile[] = [
+  {
+    id: 'scomber-scombrus',
+    scientificName: 'Scomber scombrus',
+    commonName: 'Mackerel',
+    aliases: ['Atlantic mackerel', 'Caballa', 'Maquereau'],
+    preferences: {
+      temp_min: 8,
+      temp_max: 20,
+      temp_optimal_min: 11,
+      temp_optimal_max: 15,
+      oxygen_min: 5,
+      salinity_min: 30,
+      salinity_max: 38,
+      prefers_clear: true
+    }
+  },
+  {
+    id: 'dicentrarchus-labrax',
+    scientificName: 'Dicentrarchus labrax',
+    commonName: 'Bass',
+    aliases: ['Sea bass', 'European seabass', 'Lubina', 'Bar'],
+    preferences: {
+      temp_min: 8,
+      temp_max: 24,
+      temp_optimal_min: 12,
+      temp_optimal_max: 18,
+      oxygen_min: 5,
+      salinity_min: 28,
+      salinity_max: 40,
+      prefers_clear: true
+    },
+    overrides: [
+      // Mediterranean stocks feed well into warmer water
+      { regions: ['Mediterranean', 'MED'], preferences: { temp_max: 28, temp_optimal_min: 15, temp_optimal_max: 23 } }
+    ]
+  },
+  {
+    id: 'pollachius-pollachius',
+    scientificName: 'Pollachius pollachius',
+    commonName: 'Pollock',
+    aliases: ['Pollack', 'Lythe', 'Abadejo', 'Lieu jaune'],
+    preferences: {
+      temp_min: 4,
+      temp_max: 16,
+      temp_optimal_min: 8,
+      temp_optimal_max: 12,
+      oxygen_min: 6,
+      salinity_min: 30,
+      salinity_max: 36,
+      prefers_clear: false
+    }
+  },
+  {
+    id: 'gadus-morhua',
+    scientificName: 'Gadus morhua',
+    commonName: 'Cod',
+    aliases: ['Atlantic cod', 'Bacalao', 'Cabillaud'],
+    preferences: {
+      temp_min: 0,
+      temp_max: 16,
+      temp_optimal_min: 4,
+      temp_optimal_max: 10,
+      oxygen_min: 6,
+      salinity_min: 28,
+      salinity_max: 35,
+      prefers_clear: false
+    },
+    overrides: [
+      // Eastern Baltic cod is adapted to brackish, often oxygen-poor water
+      { regions: BALTIC, preferences: { salinity_min: 7, oxygen_min: 4 } }
+    ]
+  },
+  {
+    id: 'pleuronectes-platessa',
+    scientificName: 'Pleuronectes platessa',
+    commonName: 'Plaice',
+    aliases: ['European plaice', 'Solla', 'Plie'],
+    preferences: {
+      temp_min: 2,
+      temp_max: 20,
+      temp_optimal_min: 8,
+      temp_optimal_max: 15,
+      oxygen_min: 4,
+      salinity_min: 28,
+      salinity_max: 36,
+      prefers_turbid: true
+    },
+    overrides: [
+      { regions: BALTIC, preferences: { salinity_min: 12 } }
+    ]
+  },
+  {
+    id: 'platichthys-flesus',
+    scientificName: 'Platichthys flesus',
+    commonName: 'Flounder',
+    aliases: ['European flounder', 'Platija', 'Flet'],
+    preferences: {
+      temp_min: 2,
+      temp_max: 22,
+      temp_optimal_min: 10,
+      temp_optimal_max: 18,
+      oxygen_min: 4,
+      salinity_min: 5,  // Euryhaline - tolerates brackish
+      salinity_max: 35,
+      prefers_turbid: true
+    }
+  },
+  {
+    id: 'merlangius-merlangus',
+    scientificName: 'Merlangius merlangus',
+    commonName: 'Whiting',
+    aliases: ['Merlán'],
+    preferences: {
+      temp_min: 4,
+      temp_max: 16,
+      temp_optimal_min: 8,
+      temp_optimal_max: 12,
+      oxygen_min: 5,
+      salinity_min: 30,
+      salinity_max: 36,
+      prefers_clear: false
+    }
+  },
+  {
+    id: 'clupea-harengus',
+    scientificName: 'Clupea harengus',
+    commonName: 'Herring',
+    aliases: ['Atlantic herring', 'Arenque', 'Hareng'],
+    preferences: {
+      temp_min: 4,
+      temp_max: 18,
+      temp_optimal_min: 8,
+      temp_optimal_max: 14,
+      oxygen_min: 5,
+      salinity_min: 25,
+      salinity_max: 38,
+      prefers_clear: true
+    },
+    overrides: [
+      // Baltic herring spawns and feeds down to near-fresh water
+      { regions: BALTIC, preferences: { salinity_min: 3 } }
+    ]
+  },
+  {
+    id: 'spondyliosoma-cantharus',
+    scientificName: 'Spondyliosoma cantharus',
+    commonName: 'Bream',
+    aliases: ['Black bream', 'Black seabream', 'Chopa', 'Griset'],
+    preferences: {
+      temp_min: 8,
+      temp_max: 24,
+      temp_optimal_min: 12,
+      temp_optimal_max: 20,
+      oxygen_min: 4,
+      salinity_min: 28,
+      salinity_max: 36,
+      prefers_turbid: true
+    }
+  }
+];
+
+/**
+ * Normalise a name for lookup: case, diacritics, punctuation and slug
+ * separators are ignored ('Merlán', 'merlan' and 'MERLAN' are the same key)
+ */
+function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function matchesRegion(override: SpeciesPreferenceOverride, region?: string): boolean {
+  if (!override.regions) return true;
+  if (!region) return false;
+  const target = normalizeName(region);
+  return override.regions.some(name => {
+    const key = normalizeName(name);
+    return ` ${target} `.includes(` ${key} `);
+  });
+}
+
+function matchesMonth(override: SpeciesPreferenceOverride, month?: number): boolean {
+  if (!override.months) return true;
+  return month !== undefined && override.months.includes(month);
+}
+
+/** Specificity used to apply overrides: region-wide, then monthly, then region + month */
+function specificity(override: SpeciesPreferenceOverride): number {
+  return (override.regions ? 1 : 0) + (override.months ? 2 : 0);
+}
+
+/**
+ * Pick preference fields out of untyped cached species data
+ * (`data.preferences`), ignoring anything of the wrong type
+ */
+function readCachedPreferences(data: unknown): Partial<SpeciesPreferences> | null {
+  if (!data || typeof data !== 'object') return null;
+  const source = (data as { preferences?: unknown }).preferences;
+  if (!source || typeof source !== 'object') return null;
+
+  const preferences: Record<string, number | boolean> = {};
+  for (const key of NUMERIC_KEYS) {
+    const value = (source as Record<string, unknown>)[key];
+    if (typeof value === 'number' && Number.isFinite(value)) preferences[key] = value;
+  }
+  for (const key of BOOLEAN_KEYS) {
+    const value = (source as Record<string, unknown>)[key];
+    if (typeof value === 'boolean') preferences[key] = value;
+  }
+  return Object.keys(preferences).length > 0 ? (preferences as Partial<SpeciesPreferences>) : null;
+}
+
+/**
+ * Registry of species preference profiles
+ *
+ * Usage:
+ * ```typescript
+ * const registry = getSpeciesRegistry();
+ * await registry.loadFromCache();
+ *
+ * registry.resolve('Lubina')?.id; // 'dicentrarchus-labrax'
+ * registry.getPreferences('Gadus morhua', { region: 'Baltic Sea', month: 3 });
+ * ```
+ */
+export class SpeciesRegistry {
+  private profiles = new Map<string, SpeciesProfile>();
+  private index = new Map<string, string>();
+
+  constructor(profiles: SpeciesProfile[] = BUILT_IN_PROFILES) {
+    profiles.forEach(profile => this.register(profile));
+  }
+
+  /**
+   * Add or replace a profile. The id and scientific name always point at the
+   * profile; aliases only claim names not already taken by another species.
+   */
+  register(profile: SpeciesProfile): void {
+    const existing = this.profiles.get(profile.id);
+    const stored: SpeciesProfile = {
+      ...profile,
+      aliases: [...new Set([...(existing?.aliases ?? []), ...(profile.aliases ?? [])])],
+    };
+    this.profiles.set(profile.id, stored);
+
+    this.index.set(normalizeName(profile.id), profile.id);
+    this.index.set(normalizeName(profile.scientificName), profile.id);
+    this.addAliases(profile.id, [profile.commonName, ...(profile.aliases ?? [])]);
+  }
+
+  /**
+   * Register extra names for a species (e.g. translated names)
+   */
+  addAliases(id: string, aliases: string[]): void {
+    const profile = this.profiles.get(id);
+    if (!profile) return;
+
+    for (const alias of aliases) {
+      const key = normalizeName(alias);
+      if (!key || (this.index.has(key) && this.index.get(key) !== id)) continue;
+      this.index.set(key, id);
+      if (alias !== profile.commonName && !profile.aliases?.includes(alias)) {
+        profile.aliases = [...(profile.aliases ?? []), alias];
+      }
+    }
+  }
+
+  /**
+   * Find a profile by id, scientific name, common name or alias
+   */
+  resolve(nameOrId?: string | null): SpeciesProfile | null {
+    if (!nameOrId) return null;
+    const id = this.index.get(normalizeName(nameOrId));
+    return id ? this.profiles.get(id) ?? null : null;
+  }
+
+  /**
+   * Preference bands for a species at a region and month. Matching overrides
+   * are applied from least to most specific; unknown species get the defaults.
+   */
+  getPreferences(nameOrId?: string | null, context: SpeciesContext = {}): SpeciesPreferences {
+    const profile = this.resolve(nameOrId);
+    if (!profile) return { ...DEFAULT_SPECIES_PREFERENCES };
+
+    return (profile.overrides ?? [])
+      .filter(override => matchesRegion(override, context.region) && matchesMonth(override, context.month))
+      .sort((a, b) => specificity(a) - specificity(b))
+      .reduce<SpeciesPreferences>(
+        (preferences, override) => ({ ...preferences, ...override.preferences }),
+        { ...profile.preferences }
+      );
+  }
+
+  getAll(): SpeciesProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  /**
+   * Merge cached species into the registry. Known species gain the cached id,
+   * slug, name and localized names as aliases; species whose cached data has
+   * `preferences` bands are registered (or have their base bands updated).
+   *
+   * @returns Number of cached species matched or registered
+   */
+  async loadFromCache(
+    source?: { getAllSpecies(): Promise<CachedSpecies[]> }
+  ): Promise<number> {
+    const storage = source ?? (await import('../offline/storage')).getStorage();
+    const cached = await storage.getAllSpecies();
+    let loaded = 0;
+
+    for (const species of cached) {
+      const aliases = [species.id, species.slug, species.name, ...Object.values(species.localizedNames ?? {})]
+        .filter((alias): alias is string => typeof alias === 'string' && alias.length > 0);
+      const preferences = readCachedPreferences(species.data);
+      const profile = this.resolve(species.nameScientific) ?? this.resolve(species.slug) ?? this.resolve(species.name);
+
+      if (profile) {
+        if (preferences) {
+          profile.preferences = { ...profile.preferences, ...preferences };
+        }
+        this.addAliases(profile.id, aliases);
+        loaded++;
+      } else if (preferences) {
+        this.register({
+          id: species.slug || species.id,
+          scientificName: species.nameScientific || species.name,
+          commonName: species.name,
+          aliases,
+          preferences: { ...DEFAULT_SPECIES_PREFERENCES, ...preferences },
+        });
+        loaded++;
+      }
+    }
+
+    return loaded;
+  }
+}
+
+let registryInstance: SpeciesRegistry | null = null;
+
+/**
+ * Get the shared species registry instance
+ */
+export function getSpeciesRegistry(): SpeciesRegistry {
+  if (!registryInstance) {
+    registryInstance = new SpeciesRegistry();
+  }
+  return registryInstance;
+}
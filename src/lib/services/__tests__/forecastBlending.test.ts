@@ -0,0 +1,116 @@
+/**
+ * Tests for multi-provider forecast blending
+ */
+
+import {
+  SINGLE_SOURCE_CONFIDENCE,
+  aggregateDaily,
+  blendForecasts,
+  formatWithSpread,
+  normalizeProviderForecast,
+  type NormalizedHour,
+  type ProviderForecast,
+} from '../forecastBlending';
+
+// New York in January: UTC-5
+const NY_OFFSET = -5 * 3600;
+
+/** `count` consecutive hours from `startISO` */
+const hoursFrom = (startISO: string, count: number, row: (i: number) => Partial<NormalizedHour> = () => ({})) =>
+  Array.from({ length: count }, (_, i): NormalizedHour => ({
+    timeISO: new Date(Date.parse(startISO) + i * 3600 * 1000).toISOString(),
+    ...row(i),
+  }));
+
+describe('lib/services/forecastBlending', () => {
+  it('blends with weights and reports spread and confidence', () => {
+    const forecasts: ProviderForecast[] = [
+      { source: 'a', hourly: [{ timeISO: '2025-01-10T12:00:00.000Z', tempC: 10, windDirection: 350 }], daily: [] },
+      { source: 'b', hourly: [{ timeISO: '2025-01-10T12:00:00.000Z', tempC: 14, windDirection: 10 }], daily: [] },
+    ];
+
+    const [hour] = blendForecasts(forecasts).hourly;
+    expect(hour.fields.tempC).toMatchObject({ value: 12, spread: 2, min: 10, max: 14, confidence: 0.5, sources: ['a', 'b'] });
+    // Circular mean across north, not 180°
+    expect(hour.fields.windDirection?.value).toBe(0);
+    expect(hour.fields.windDirection?.spread).toBe(10);
+
+    const weighted = blendForecasts(forecasts, { weights: { a: 3 } }).hourly[0];
+    expect(weighted.fields.tempC?.value).toBe(11);
+    expect(weighted.fields.tempC?.spread).toBeCloseTo(1.73, 2);
+    expect(formatWithSpread(weighted.fields.tempC, 0)).toBe('11 ±1.7');
+  });
+
+  it('gives a single source reduced confidence', () => {
+    const single = blendForecasts([
+      { source: 'a', hourly: [{ timeISO: '2025-01-10T12:00:00.000Z', tempC: 10 }], daily: [] },
+    ]).hourly[0].fields.tempC;
+
+    expect(single?.spread).toBe(0);
+    expect(single?.confidence).toBe(SINGLE_SOURCE_CONFIDENCE);
+
+    const agreeing = blendForecasts([
+      { source: 'a', hourly: [{ timeISO: '2025-01-10T12:00:00.000Z', tempC: 10 }], daily: [] },
+      { source: 'b', hourly: [{ timeISO: '2025-01-10T12:00:00.000Z', tempC: 10 }], daily: [] },
+    ]).hourly[0].fields.tempC;
+    expect(agreeing?.confidence).toBe(1);
+  });
+
+  it('keys every provider by the local date', () => {
+    // Daily dt is 12:00 local; 17:00 UTC the same day, but 19:00 local on 10 Jan is 00:00 UTC on the 11th
+    const openWeather = normalizeProviderForecast({
+      source: 'openweather',
+      timezone_offset: NY_OFFSET,
+      hourly: [{ dt: Date.UTC(2025, 0, 11, 0) / 1000, temp: 1 }],
+      daily: [{ dt: Date.UTC(2025, 0, 10, 17) / 1000, temp: { min: -2, max: 4 } }],
+    })!;
+    const openMeteo = normalizeProviderForecast({
+      source: 'openmeteo',
+      utc_offset_seconds: NY_OFFSET,
+      hourly: [{ time: ['2025-01-10T19:00'], temperature_2m: [3] }],
+      daily: [{ time: ['2025-01-10'], temperature_2m_min: [0], temperature_2m_max: [6] }],
+    })!;
+    const nws = normalizeProviderForecast({
+      source: 'nws',
+      hourly: [],
+      daily: [
+        { dt: Date.parse('2025-01-10T18:00:00-05:00') / 1000, startTime: '2025-01-10T18:00:00-05:00', temp: { day: -1 } },
+      ],
+    })!;
+    // Met.no has no dailies: the whole local day, 05:00 UTC on the 10th to 04:00 UTC on the 11th
+    const metNo = normalizeProviderForecast({
+      source: 'metno',
+      hourly: hoursFrom('2025-01-10T05:00:00Z', 24).map(h => ({
+        time: h.timeISO,
+        data: { instant: { details: { air_temperature: 2 } } },
+      })),
+      daily: [],
+    }, { utcOffsetSeconds: NY_OFFSET })!;
+
+    // Open-Meteo's local 19:00 is the same instant as OpenWeather's 00:00 UTC
+    expect(openMeteo.hourly[0].timeISO).toBe('2025-01-11T00:00:00.000Z');
+    expect(openWeather.hourly[0].timeISO).toBe('2025-01-11T00:00:00.000Z');
+
+    const blended = blendForecasts([openWeather, openMeteo, nws, metNo]);
+    expect(blended.daily.map(d => d.dateISO)).toEqual(['2025-01-10']);
+    expect(blended.daily[0].fields.maxC?.sources).toEqual(['openweather', 'openmeteo', 'nws', 'metno']);
+    expect(blended.hourly).toHaveLength(24);
+    expect(blended.hourly.find(h => h.timeISO === '2025-01-11T00:00:00.000Z')?.fields.tempC?.sources).toEqual([
+      'openweather',
+      'openmeteo',
+      'metno',
+    ]);
+  });
+
+  it('aggregates hourly-only providers into complete local days', () => {
+    // A 48 h window starting 13:00 local on the 9th: only the 10th is covered in full
+    const hourly = hoursFrom('2025-01-09T18:00:00Z', 48, i => ({ tempC: i % 10, precipMm: 0.1, pop: i === 20 ? 0.6 : 0.2 }));
+    const days = aggregateDaily(hourly, NY_OFFSET);
+
+    expect(days).toEqual([{ dateISO: '2025-01-10', minC: 0, maxC: 9, precipMm: 2.4, pop: 0.6 }]);
+
+    // 20 of 24 hours is enough; 19 is not
+    expect(aggregateDaily(hoursFrom('2025-01-10T05:00:00Z', 20), NY_OFFSET).map(d => d.dateISO)).toEqual(['2025-01-10']);
+    expect(aggregateDaily(hoursFrom('2025-01-10T05:00:00Z', 19), NY_OFFSET)).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for the weather provider registry: routing, circuit breaking and fall-through
+ */
+
+import { weatherMetrics } from '../../monitoring/weatherMetrics';
+import {
+  WeatherProviderRegistry,
+  boundingBox,
+  type FullWeather,
+  type WeatherProvider,
+} from '../weatherProviders';
+
+const CORNWALL = { lat: 50.2, lon: -5.3 };
+const UK = [boundingBox(49.8, -8.7, 60.9, 1.8)];
+
+function fakeProvider(id: string, overrides: Partial<WeatherProvider> = {}): WeatherProvider {
+  return {
+    id,
+    name: id,
+    costTier: 'free',
+    coverage: UK,
+    capabilities: ['current', 'hourly', 'daily'],
+    fetch: async () => ({ source: id }),
+    ...overrides,
+  };
+}
+
+/** Record request outcomes for a provider, each taking `durationMs` */
+function record(id: string, outcomes: Array<'ok' | 'fail'>, durationMs = 100): void {
+  const now = jest.spyOn(Date, 'now');
+  try {
+    for (const outcome of outcomes) {
+      now.mockReturnValue(0);
+      const span = weatherMetrics.start(id, 'forecast');
+      now.mockReturnValue(durationMs);
+      if (outcome === 'ok') span.success({ status: 200 });
+      else span.failure(new Error('HTTP 503'), { status: 503 });
+    }
+  } finally {
+    now.mockRestore();
+  }
+}
+
+describe('lib/services/weatherProviders', () => {
+  beforeEach(() => weatherMetrics.reset());
+
+  it('routes by cost, then scope, then health, then priority, then latency', () => {
+    const registry = new WeatherProviderRegistry({ minSamples: 3 });
+    registry.register(fakeProvider('paid-regional', { costTier: 'paid' }));
+    registry.register(fakeProvider('free-global', { coverage: 'global' }));
+    registry.register(fakeProvider('degraded', { priority: 1 }));
+    registry.register(fakeProvider('slow', { priority: 50 }));
+    registry.register(fakeProvider('fast', { priority: 50 }));
+    registry.register(fakeProvider('preferred', { priority: 5 }));
+    registry.register(fakeProvider('no-key', { isAvailable: () => false }));
+
+    // One success in three: degraded, but the circuit stays closed
+    record('degraded', ['fail', 'fail', 'ok']);
+    record('slow', ['ok'], 900);
+    record('fast', ['ok'], 100);
+
+    const ids = (providers: WeatherProvider[]) => providers.map(p => p.id);
+    expect(ids(registry.route(CORNWALL.lat, CORNWALL.lon))).toEqual([
+      'preferred', 'fast', 'slow', 'degraded', 'free-global', 'paid-regional',
+    ]);
+    expect(registry.getHealth(registry.get('degraded')!)).toMatchObject({ circuit: 'closed', degraded: true });
+
+    // Outside the regional boxes only the global provider is left
+    expect(ids(registry.route(40.7, -74))).toEqual(['free-global']);
+    expect(ids(registry.route(CORNWALL.lat, CORNWALL.lon, { freeOnly: true }))).not.toContain('paid-regional');
+    expect(ids(registry.route(CORNWALL.lat, CORNWALL.lon, { capabilities: ['alerts'] }))).toEqual([]);
+  });
+
+  it('opens the circuit after repeated failures, probes after the cooldown, and closes on success', () => {
+    const registry = new WeatherProviderRegistry({ failureThreshold: 2, cooldownMs: 60_000 });
+    const flaky = fakeProvider('flaky');
+    registry.register(flaky);
+    registry.register(fakeProvider('backup', { priority: 200 }));
+
+    record('flaky', ['fail']);
+    expect(registry.getHealth(flaky).circuit).toBe('closed');
+
+    record('flaky', ['fail']);
+    const failedAt = Date.parse(weatherMetrics.snapshot('flaky').providers[0].lastFailureAt!);
+    expect(registry.getHealth(flaky, failedAt + 1_000)).toMatchObject({ circuit: 'open', consecutiveFailures: 2 });
+    expect(registry.getHealth(flaky, failedAt + 61_000).circuit).toBe('half-open');
+
+    const now = jest.spyOn(Date, 'now');
+    try {
+      now.mockReturnValue(failedAt + 1_000);
+      expect(registry.route(CORNWALL.lat, CORNWALL.lon).map(p => p.id)).toEqual(['backup']);
+
+      // Half-open: routed again for a probe, but behind healthy providers
+      now.mockReturnValue(failedAt + 61_000);
+      expect(registry.route(CORNWALL.lat, CORNWALL.lon).map(p => p.id)).toEqual(['backup', 'flaky']);
+    } finally {
+      now.mockRestore();
+    }
+
+    record('flaky', ['ok']);
+    expect(registry.getHealth(flaky)).toMatchObject({ circuit: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('falls through to the next provider when one throws or returns nothing', async () => {
+    const registry = new WeatherProviderRegistry();
+    const calls: string[] = [];
+    const provider = (id: string, priority: number, result: () => Promise<FullWeather | null>) =>
+      fakeProvider(id, { priority, fetch: async () => { calls.push(id); return result(); } });
+
+    registry.register(provider('throws', 1, async () => { throw new Error('HTTP 500'); }));
+    registry.register(provider('empty', 2, async () => null));
+    registry.register(provider('works', 3, async () => ({ source: 'works' })));
+    registry.register(provider('unused', 4, async () => ({ source: 'unused' })));
+
+    const result = await registry.fetchWithFallback(CORNWALL.lat, CORNWALL.lon);
+    expect(result?.provider.id).toBe('works');
+    expect(result?.data).toEqual({ source: 'works' });
+    expect(calls).toEqual(['throws', 'empty', 'works']);
+
+    registry.unregister('works');
+    registry.unregister('unused');
+    expect(await registry.fetchWithFallback(CORNWALL.lat, CORNWALL.lon)).toBeNull();
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * Multi-provider forecast blending
+ *
+ * Normalises the raw `FullWeather` payloads returned by the weather providers
+ * (NWS, Met.no, Open-Meteo, OpenWeather) into one hourly/daily shape, then
+ * blends them with configurable weights. Every blended field carries its
+ * spread across providers and a 0-1 confidence, so cards can show
+ * uncertainty (e.g. "12 °C ±1.5", "rain chance: providers disagree").
+ *
+ * Units after normalisation: °C, mm, m/s, degrees, %, probability 0-1.
+ * Hours are keyed by UTC hour; days by the location's local date, using the
+ * UTC offset the payload reports (Open-Meteo `utc_offset_seconds`,
+ * OpenWeather `timezone_offset`) or the one passed in. Days derived from
+ * hourly data are only emitted when the hours cover most of the local day,
+ * so the ragged ends of a short window (Met.no's ~48 h) don't turn into
+ * days with a misleading min/max or rain total.
+ */
+
+import type { FullWeather } from './weatherProviders';
+import { compassToDegrees, mphToMs } from '../utils/conversions';
+
+export type BlendHourField =
+  | 'tempC'
+  | 'precipMm'
+  | 'pop'
+  | 'windMS'
+  | 'windGustMS'
+  | 'windDirection'
+  | 'cloudCoverPct'
+  | 'humidityPct';
+
+export type BlendDayField = 'minC' | 'maxC' | 'precipMm' | 'pop';
+
+export interface NormalizedHour {
+  timeISO: string;
+  tempC?: number;
+  precipMm?: number;
+  pop?: number;
+  windMS?: number;
+  windGustMS?: number;
+  windDirection?: number;
+  cloudCoverPct?: number;
+  humidityPct?: number;
+}
+
+export interface NormalizedDay {
+  dateISO: string;
+  minC?: number;
+  maxC?: number;
+  precipMm?: number;
+  pop?: number;
+}
+
+export interface ProviderForecast {
+  source: string;
+  hourly: NormalizedHour[];
+  daily: NormalizedDay[];
+}
+
+export interface BlendedValue {
+  /** Weighted mean (circular mean for directions) */
+  value: number;
+  /** Weighted standard deviation across providers (degrees for directions) */
+  spread: number;
+  min: number;
+  max: number;
+  /** 0 (providers disagree completely) to 1 (several providers in full agreement); a single source is capped at SINGLE_SOURCE_CONFIDENCE */
+  confidence: number;
+  sources: string[];
+}
+
+export interface BlendedHour {
+  timeISO: string;
+  fields: Partial<Record<BlendHourField, BlendedValue>>;
+}
+
+export interface BlendedDay {
+  dateISO: string;
+  fields: Partial<Record<BlendDayField, BlendedValue>>;
+}
+
+export interface BlendedForecast {
+  sources: string[];
+  hourly: BlendedHour[];
+  daily: BlendedDay[];
+}
+
+export interface NormalizeOptions {
+  /** Location's UTC offset, for payloads that don't report one (default 0) */
+  utcOffsetSeconds?: number;
+}
+
+export interface BlendOptions {
+  /** Weight per provider source (default 1) */
+  weights?: Record<string, number>;
+  /** Per-field overrides of the provider weights */
+  fieldWeights?: Partial<Record<BlendHourField | BlendDayField, Record<string, number>>>;
+  /** Spread at which confidence reaches 0, per field */
+  tolerances?: Partial<Record<BlendHourField | BlendDayField, number>>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Hours of a local day that must be present to derive the day from hourly data */
+export const MIN_DAILY_COVERAGE_HOURS = 20;
+
+/** Confidence of a field only one provider reported: nothing to check it against */
+export const SINGLE_SOURCE_CONFIDENCE = 0.5;
+
+const DEFAULT_TOLERANCES: Record<BlendHourField | BlendDayField, number> = {
+  tempC: 4,
+  minC: 4,
+  maxC: 4,
+  precipMm: 5,
+  pop: 0.5,
+  windMS: 5,
+  windGustMS: 8,
+  windDirection: 90,
+  cloudCoverPct: 50,
+  humidityPct: 30,
+};
+
+const HOUR_FIELDS: BlendHourField[] = ['tempC', 'precipMm', 'pop', 'windMS', 'windGustMS', 'windDirection', 'cloudCoverPct', 'humidityPct'];
+const DAY_FIELDS: BlendDayField[] = ['minC', 'maxC', 'precipMm', 'pop'];
+
+type Json = Record<string, unknown>;
+
+const num = (v: unknown): number | undefined =>
+  typeof v === 'number' && Number.isFinite(v) ? v : undefined;
+const obj = (v: unknown): Json | undefined =>
+  v && typeof v === 'object' && !Array.isArray(v) ? (v as Json) : undefined;
+const arr = (v: unknown): unknown[] => (Array.isArray(v) ? v : []);
+const hourKey = (ms: number) => new Date(Math.round(ms / HOUR_MS) * HOUR_MS).toISOString();
+/** Local calendar date of an instant at a fixed UTC offset */
+const localDate = (ms: number, offsetSeconds: number) => new Date(ms + offsetSeconds * 1000).toISOString().slice(0, 10);
+/** Instant of a time string; strings without a zone are local time at the offset */
+const parseLocalTime = (time: string, offsetSeconds: number) =>
+  /(Z|[+-]\d{2}:?\d{2})$/.test(time) ? Date.parse(time) : Date.parse(`${time}Z`) - offsetSeconds * 1000;
+const round = (n: number, dp = 2) => Math.round(n * 10 ** dp) / 10 ** dp;
+
+// ============================================================================
+// PROVIDER NORMALISERS
+// ============================================================================
+
+function normalizeNws(data: FullWeather, offsetSeconds: number): ProviderForecast {
+  const hourly = arr(data.hourly).map((raw): NormalizedHour | null => {
+    const h = obj(raw);
+    if (!h || typeof h.startTime !== 'string') return null;
+    const popPct = num(obj(h.probabilityOfPrecipitation)?.value);
+    return {
+      timeISO: hourKey(Date.parse(h.startTime)),
+      tempC: num(h.temperature), // already converted to °C in fetchFromNWS
+      windMS: mphToMs(typeof h.windSpeed === 'string' || typeof h.windSpeed === 'number' ? h.windSpeed : undefined),
+      windDirection: typeof h.windDirection === 'string' ? compassToDegrees(h.windDirection) : undefined,
+      pop: popPct !== undefined ? popPct / 100 : undefined,
+      humidityPct: num(obj(h.relativeHumidity)?.value),
+    };
+  }).filter((h): h is NormalizedHour => h !== null);
+
+  // NWS daily periods alternate day/night; daytime temperature → max, night → min
+  const days = new Map<string, NormalizedDay>();
+  for (const raw of arr(data.daily)) {
+    const d = obj(raw);
+    const dt = num(d?.dt);
+    const temp = num(obj(d?.temp)?.day);
+    if (dt === undefined || temp === undefined) continue;
+    // Period start times carry the forecast office's offset, so their date is already local
+    const dateISO = typeof d?.startTime === 'string' ? d.startTime.slice(0, 10) : localDate(dt * 1000, offsetSeconds);
+    const day = days.get(dateISO) ?? { dateISO };
+    day.maxC = Math.max(day.maxC ?? -Infinity, temp);
+    day.minC = Math.min(day.minC ?? Infinity, temp);
+    days.set(dateISO, day);
+  }
+
+  return { source: 'nws', hourly, daily: Array.from(days.values()) };
+}
+
+function normalizeMetNo(data: FullWeather): ProviderForecast {
+  const hourly = arr(data.hourly).map((raw): NormalizedHour | null => {
+    const entry = obj(raw);
+    if (!entry || typeof entry.time !== 'string') return null;
+    const dataObj = obj(entry.data);
+    const details = obj(obj(dataObj?.instant)?.details) ?? {};
+    const next1 = obj(dataObj?.next_1_hours);
+    const popPct = num(next1?.probability_of_precipitation);
+    return {
+      timeISO: hourKey(Date.parse(entry.time)),
+      tempC: num(details.air_temperature),
+      windMS: num(details.wind_speed),
+      windGustMS: num(details.wind_speed_of_gust),
+      windDirection: num(details.wind_from_direction),
+      cloudCoverPct: num(details.cloud_area_fraction),
+      humidityPct: num(details.relative_humidity),
+      precipMm: num(obj(next1?.details)?.precipitation_amount),
+      pop: popPct !== undefined ? popPct / 100 : undefined,
+    };
+  }).filter((h): h is NormalizedHour => h !== null);
+
+  return { source: 'metno', hourly, daily: [] };
+}
+
+function normalizeOpenMeteo(data: FullWeather, offsetSeconds: number): ProviderForecast {
+  // fetchFromOpenMeteoWeather wraps the columnar blocks in single-element arrays
+  const hourlyBlock = obj(arr(data.hourly)[0]) ?? obj(data.hourly) ?? {};
+  const dailyBlock = obj(arr(data.daily)[0]) ?? obj(data.daily) ?? {};
+  const kmhToMs = (v?: number) => (v === undefined ? undefined : v / 3.6);
+  const col = (block: Json, key: string, i: number) => num(arr(block[key])[i]);
+
+  const hourly = arr(hourlyBlock.time).map((time, i): NormalizedHour | null => {
+    if (typeof time !== 'string') return null;
+    const popPct = col(hourlyBlock, 'precipitation_probability', i);
+    return {
+      // With timezone=auto the times are local wall-clock times without an offset
+      timeISO: hourKey(parseLocalTime(time, offsetSeconds)),
+      tempC: col(hourlyBlock, 'temperature_2m', i),
+      precipMm: col(hourlyBlock, 'precipitation', i),
+      pop: popPct !== undefined ? popPct / 100 : undefined,
+      // Open-Meteo reports wind in km/h by default
+      windMS: kmhToMs(col(hourlyBlock, 'wind_speed_10m', i)),
+      windGustMS: kmhToMs(col(hourlyBlock, 'wind_gusts_10m', i)),
+      windDirection: col(hourlyBlock, 'wind_direction_10m', i),
+      cloudCoverPct: col(hourlyBlock, 'cloud_cover', i),
+      humidityPct: col(hourlyBlock, 'relative_humidity_2m', i),
+    };
+  }).filter((h): h is NormalizedHour => h !== null);
+
+  const daily = arr(dailyBlock.time).map((date, i): NormalizedDay | null => {
+    if (typeof date !== 'string') return null;
+    const popPct = col(dailyBlock, 'precipitation_probability_max', i);
+    return {
+      dateISO: date.slice(0, 10),
+      minC: col(dailyBlock, 'temperature_2m_min', i),
+      maxC: col(dailyBlock, 'temperature_2m_max', i),
+      precipMm: col(dailyBlock, 'precipitation_sum', i),
+      pop: popPct !== undefined ? popPct / 100 : undefined,
+    };
+  }).filter((d): d is NormalizedDay => d !== null);
+
+  return { source: 'openmeteo', hourly, daily };
+}
+
+function normalizeOpenWeather(data: FullWeather, offsetSeconds: number): ProviderForecast {
+  const hourly = arr(data.hourly).map((raw): NormalizedHour | null => {
+    const h = obj(raw);
+    const dt = num(h?.dt);
+    if (!h || dt === undefined) return null;
+    return {
+      timeISO: hourKey(dt * 1000),
+      tempC: num(h.temp),
+      precipMm: (num(obj(h.rain)?.['1h']) ?? 0) + (num(obj(h.snow)?.['1h']) ?? 0),
+      pop: num(h.pop),
+      windMS: num(h.wind_speed),
+      windGustMS: num(h.wind_gust),
+      windDirection: num(h.wind_deg),
+      cloudCoverPct: num(h.clouds),
+      humidityPct: num(h.humidity),
+    };
+  }).filter((h): h is NormalizedHour => h !== null);
+
+  const daily = arr(data.daily).map((raw): NormalizedDay | null => {
+    const d = obj(raw);
+    const dt = num(d?.dt);
+    if (!d || dt === undefined) return null;
+    const temp = obj(d.temp);
+    return {
+      dateISO: localDate(dt * 1000, offsetSeconds),
+      minC: num(temp?.min),
+      maxC: num(temp?.max),
+      precipMm: (num(d.rain) ?? 0) + (num(d.snow) ?? 0),
+      pop: num(d.pop),
+    };
+  }).filter((d): d is NormalizedDay => d !== null);
+
+  return { source: 'openweather', hourly, daily };
+}
+
+/**
+ * Derive daily min/max/precip from hourly data, for providers without dailies.
+ * Hours are grouped by local date at `utcOffsetSeconds`; days with fewer than
+ * `minHours` distinct hours (the partial first and last day of a forecast
+ * window) are left out.
+ */
+export function aggregateDaily(
+  hourly: NormalizedHour[],
+  utcOffsetSeconds = 0,
+  minHours = MIN_DAILY_COVERAGE_HOURS
+): NormalizedDay[] {
+  const days = new Map<string, NormalizedDay>();
+  const hoursByDay = new Map<string, Set<string>>();
+  for (const hour of hourly) {
+    const dateISO = localDate(Date.parse(hour.timeISO), utcOffsetSeconds);
+    const hours = hoursByDay.get(dateISO) ?? new Set<string>();
+    hours.add(hour.timeISO);
+    hoursByDay.set(dateISO, hours);
+    const day = days.get(dateISO) ?? { dateISO };
+    if (hour.tempC !== undefined) {
+      day.minC = Math.min(day.minC ?? Infinity, hour.tempC);
+      day.maxC = Math.max(day.maxC ?? -Infinity, hour.tempC);
+    }
+    if (hour.precipMm !== undefined) day.precipMm = round((day.precipMm ?? 0) + hour.precipMm);
+    if (hour.pop !== undefined) day.pop = Math.max(day.pop ?? 0, hour.pop);
+    days.set(dateISO, day);
+  }
+  return Array.from(days.values()).filter(day => hoursByDay.get(day.dateISO)!.size >= minHours);
+}
+
+/**
+ * UTC offset a provider payload reports for the location, in seconds
+ */
+export function payloadUtcOffsetSeconds(data: FullWeather): number | undefined {
+  return num(data.utc_offset_seconds) ?? num(data.timezone_offset);
+}
+
+/**
+ * Convert a provider payload into the common hourly/daily shape.
+ * @returns null for unknown sources
+ */
+export function normalizeProviderForecast(data: FullWeather, options: NormalizeOptions = {}): ProviderForecast | null {
+  const offsetSeconds = payloadUtcOffsetSeconds(data) ?? options.utcOffsetSeconds ?? 0;
+  let forecast: ProviderForecast | null;
+  switch (data.source) {
+    case 'nws': forecast = normalizeNws(data, offsetSeconds); break;
+    case 'metno': forecast = normalizeMetNo(data); break;
+    case 'openmeteo': forecast = normalizeOpenMeteo(data, offsetSeconds); break;
+    case 'openweather':
+    case 'onecall3': forecast = normalizeOpenWeather(data, offsetSeconds); break;
+    default: forecast = null;
+  }
+  if (forecast && forecast.daily.length === 0) {
+    forecast.daily = aggregateDaily(forecast.hourly, offsetSeconds);
+  }
+  return forecast;
+}
+
+// ============================================================================
+// BLENDING
+// ============================================================================
+
+type Sample = { source: string; value: number; weight: number };
+
+/** Agreement between providers, scaled down when there is only one */
+function confidenceFor(samples: Sample[], spread: number, tolerance: number): number {
+  const agreement = Math.max(0, 1 - spread / tolerance);
+  return round(samples.length < 2 ? Math.min(agreement, SINGLE_SOURCE_CONFIDENCE) : agreement);
+}
+
+function blendLinear(samples: Sample[], tolerance: number): BlendedValue {
+  const totalWeight = samples.reduce((sum, s) => sum + s.weight, 0);
+  const mean = samples.reduce((sum, s) => sum + s.value * s.weight, 0) / totalWeight;
+  const variance = samples.reduce((sum, s) => sum + s.weight * (s.value - mean) ** 2, 0) / totalWeight;
+  const spread = Math.sqrt(variance);
+  const values = samples.map(s => s.value);
+  return {
+    value: round(mean),
+    spread: round(spread),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    confidence: confidenceFor(samples, spread, tolerance),
+    sources: samples.map(s => s.source),
+  };
+}
+
+function blendCircular(samples: Sample[], tolerance: number): BlendedValue {
+  const toRad = Math.PI / 180;
+  const totalWeight = samples.reduce((sum, s) => sum + s.weight, 0);
+  const x = samples.reduce((sum, s) => sum + s.weight * Math.cos(s.value * toRad), 0) / totalWeight;
+  const y = samples.reduce((sum, s) => sum + s.weight * Math.sin(s.value * toRad), 0) / totalWeight;
+  const mean = (Math.atan2(y, x) / toRad + 360) % 360;
+  // Circular standard deviation from the mean resultant length
+  const r = Math.min(1, Math.sqrt(x * x + y * y));
+  const spread = r <= 0 ? 180 : Math.sqrt(-2 * Math.log(r)) / toRad;
+  const values = samples.map(s => s.value);
+  return {
+    value: round(mean, 0),
+    spread: round(spread, 0),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    confidence: confidenceFor(samples, spread, tolerance),
+    sources: samples.map(s => s.source),
+  };
+}
+
+function blendField<F extends string>(
+  field: F,
+  rows: Array<{ source: string; row: Partial<Record<F, number>> }>,
+  options: BlendOptions
+): BlendedValue | undefined {
+  const fieldWeights = options.fieldWeights?.[field as BlendHourField | BlendDayField];
+  const samples: Sample[] = [];
+  for (const { source, row } of rows) {
+    const value = row[field];
+    if (value === undefined || !Number.isFinite(value)) continue;
+    const weight = fieldWeights?.[source] ?? options.weights?.[source] ?? 1;
+    if (weight > 0) samples.push({ source, value, weight });
+  }
+  if (samples.length === 0) return undefined;
+
+  const tolerance = options.tolerances?.[field as BlendHourField | BlendDayField]
+    ?? DEFAULT_TOLERANCES[field as BlendHourField | BlendDayField];
+  return field === 'windDirection' ? blendCircular(samples, tolerance) : blendLinear(samples, tolerance);
+}
+
+/**
+ * Blend normalised provider forecasts hour by hour and day by day.
+ * Hours are aligned on the UTC hour and days on the local date keys the
+ * normalisers produced; each field only uses the providers that reported it.
+ */
+export function blendForecasts(forecasts: ProviderForecast[], options: BlendOptions = {}): BlendedForecast {
+  const hoursByKey = new Map<string, Array<{ source: string; row: NormalizedHour }>>();
+  const daysByKey = new Map<string, Array<{ source: string; row: NormalizedDay }>>();
+
+  for (const forecast of forecasts) {
+    for (const row of forecast.hourly) {
+      const list = hoursByKey.get(row.timeISO) ?? [];
+      list.push({ source: forecast.source, row });
+      hoursByKey.set(row.timeISO, list);
+    }
+    for (const row of forecast.daily) {
+      const list = daysByKey.get(row.dateISO) ?? [];
+      list.push({ source: forecast.source, row });
+      daysByKey.set(row.dateISO, list);
+    }
+  }
+
+  const hourly: BlendedHour[] = Array.from(hoursByKey.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([timeISO, rows]) => {
+      const fields: BlendedHour['fields'] = {};
+      for (const field of HOUR_FIELDS) {
+        const blended = blendField(field, rows as Array<{ source: string; row: Partial<Record<BlendHourField, number>> }>, options);
+        if (blended) fields[field] = blended;
+      }
+      return { timeISO, fields };
+    });
+
+  const daily: BlendedDay[] = Array.from(daysByKey.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([dateISO, rows]) => {
+      const fields: BlendedDay['fields'] = {};
+      for (const field of DAY_FIELDS) {
+        const blended = blendField(field, rows as Array<{ source: string; row: Partial<Record<BlendDayField, number>> }>, options);
+        if (blended) fields[field] = blended;
+      }
+      return { dateISO, fields };
+    });
+
+  return { sources: forecasts.map(f => f.source), hourly, daily };
+}
+
+/**
+ * Format a blended value for display, e.g. "12 ±1.5"
+ */
+export function formatWithSpread(blended: BlendedValue | undefined, dp = 0): string {
+  if (!blended) return '–';
+  const value = blended.value.toFixed(dp);
+  if (blended.sources.length < 2 || blended.spread < 10 ** -dp / 2) return value;
+  return `${value} ±${blended.spread.toFixed(Math.max(dp, 1))}`;
+}
@@ -1,5 +1,5 @@
 // Core sharing service with utilities from share.yml spec
-import { db, Invite, Poll, Vote, ShareToken, PollCandidate } from '../db/sharing';
+import { getSharingStore, selectPollWinner, Invite, Poll, Vote, ShareToken, PollCandidate } from '../db/sharing';
 import { generateId, generateShortId } from '../utils/idGenerator';
 import { signData } from '../utils/crypto';
 
@@ -103,7 +103,7 @@ export class SharingService {
       used: false
     };
     
-    return db.putToken(token);
+    return (await getSharingStore()).putToken(token);
   }
 
   // Create invite
@@ -143,7 +143,7 @@ export class SharingService {
       analytics: { opens: 0, clicks: 0, conversions: 0 }
     };
 
-    return db.putInvite(invite);
+    return (await getSharingStore()).putInvite(invite);
   }
 
   // Create poll
@@ -187,7 +187,7 @@ export class SharingService {
       analytics: { opens: 0, votes: 0, uniqueVoters: 0 }
     };
 
-    return db.putPoll(poll);
+    return (await getSharingStore()).putPoll(poll);
   }
 
   // Submit vote
@@ -199,6 +199,8 @@ export class SharingService {
     accessibilityNeeded?: boolean;
     ipAddress: string;
   }): Promise<Vote | null> {
+    const db = await getSharingStore();
+
     // Check if already voted
     const hasVoted = await db.hasVoted(params.pollId, params.deviceFingerprint);
     if (hasVoted) {
@@ -227,10 +229,20 @@ export class SharingService {
       ipAddress: params.ipAddress
     };
 
-    await db.updatePollAnalytics(params.pollId, 'votes');
-    await db.updatePollAnalytics(params.pollId, 'uniqueVoters');
-    
-    return db.putVote(vote);
+    // The store enforces one vote per device, so a concurrent duplicate still lands here
+    const result = await db.castVote(vote);
+    switch (result.status) {
+      case 'recorded':
+        return result.vote;
+      case 'duplicate':
+        return null;
+      case 'closed':
+        throw new Error('Poll is closed');
+      case 'invalid_candidate':
+        throw new Error('Place is not a candidate in this poll');
+      case 'not_found':
+        throw new Error('Poll not found');
+    }
   }
 
   // Get poll results and determine winner
@@ -239,19 +251,20 @@ export class SharingService {
     winner?: PollCandidate;
     fairnessScore?: { medianETA: number; maxETA: number; accessibilityFlags: number };
   } | null> {
+    const db = await getSharingStore();
     const poll = await db.getPoll(pollId);
     if (!poll) return null;
 
     const votes = await db.getVotesByPoll(pollId);
-    
-    // Sort candidates by votes (descending)
-    const sortedCandidates = [...poll.candidates].sort((a, b) => b.votes - a.votes);
-    
-    if (sortedCandidates.length === 0) {
+
+    // Closed polls keep the winner picked at closesAt; open ones show the current leader
+    const winner = poll.status === 'closed'
+      ? poll.candidates.find(c => c.placeId === poll.winnerId)
+      : selectPollWinner(poll);
+
+    if (!winner) {
       return { poll };
     }
-
-    const winner = sortedCandidates[0];
     
     // Calculate fairness metrics
     const etas = votes
@@ -0,0 +1,235 @@
+/**
+ * Pluggable weather provider registry with health-based routing
+ *
+ * Each provider declares where it has coverage, what it costs and what it can
+ * return. `route()` orders the providers for a location:
+ *   free before paid → regional before global → healthy before degraded → priority → latency
+ * and skips providers whose circuit is open (too many consecutive failures
+ * recorded in `weatherMetrics` within the cooldown).
+ *
+ * Register a new provider (e.g. DWD, Environment Canada) without touching
+ * `getWeatherData`:
+ *
+ * ```typescript
+ * weatherProviderRegistry.register({
+ *   id: 'dwd',
+ *   name: 'Deutscher Wetterdienst',
+ *   costTier: 'free',
+ *   coverage: [[[5.8, 47.2], [15.1, 47.2], [15.1, 55.1], [5.8, 55.1]]],
+ *   capabilities: ['current', 'hourly', 'daily'],
+ *   fetch: (lat, lon) => fetchFromDwd(lat, lon),
+ * });
+ * ```
+ */
+
+import { weatherMetrics } from '../monitoring/weatherMetrics';
+
+export interface FullWeather {
+  alerts?: unknown[];
+  daily?: unknown[];
+  source?: string;
+  [key: string]: unknown;
+}
+
+export type WeatherCapability = 'current' | 'hourly' | 'daily' | 'alerts' | 'marine';
+
+export type WeatherCostTier = 'free' | 'paid';
+
+/** Closed ring of [lon, lat] pairs (GeoJSON order); closing point optional */
+export type CoveragePolygon = Array<[number, number]>;
+
+export interface WeatherProvider {
+  /** Stable id; also the default `weatherMetrics` provider key */
+  id: string;
+  name: string;
+  costTier: WeatherCostTier;
+  /** Polygons the provider covers, or 'global' */
+  coverage: CoveragePolygon[] | 'global';
+  capabilities: WeatherCapability[];
+  /** Lower runs first among otherwise equal providers (default 100) */
+  priority?: number;
+  /** Provider key used in `monitoredFetch` calls, if different from `id` */
+  metricsKey?: string;
+  /** e.g. API key present; unavailable providers are never routed to */
+  isAvailable?: () => boolean;
+  fetch: (lat: number, lon: number) => Promise<FullWeather | null>;
+}
+
+export type CircuitState = 'closed' | 'half-open' | 'open';
+
+export interface ProviderHealth {
+  providerId: string;
+  circuit: CircuitState;
+  /** True when enough samples exist and the success rate is below the threshold */
+  degraded: boolean;
+  successRate: number | null;
+  avgDurationMs: number | null;
+  consecutiveFailures: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before the circuit opens (default 3) */
+  failureThreshold?: number;
+  /** How long an open circuit stays open before a probe is allowed (default 5 min) */
+  cooldownMs?: number;
+  /** Minimum requests before success rate is trusted (default 10) */
+  minSamples?: number;
+  /** Success rate below which a provider is ranked as degraded (default 0.5) */
+  minSuccessRate?: number;
+}
+
+export interface RouteOptions {
+  /** Only providers that offer all of these */
+  capabilities?: WeatherCapability[];
+  /** Skip paid providers */
+  freeOnly?: boolean;
+}
+
+const DEFAULT_PRIORITY = 100;
+
+/**
+ * Ray-casting point-in-polygon test
+ */
+export function pointInPolygon(lat: number, lon: number, polygon: CoveragePolygon): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    const crosses = (yi > lat) !== (yj > lat)
+      && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/** Axis-aligned box helper for coverage declarations */
+export function boundingBox(minLat: number, minLon: number, maxLat: number, maxLon: number): CoveragePolygon {
+  return [[minLon, minLat], [maxLon, minLat], [maxLon, maxLat], [minLon, maxLat]];
+}
+
+export function providerCovers(provider: WeatherProvider, lat: number, lon: number): boolean {
+  if (provider.coverage === 'global') return true;
+  return provider.coverage.some(polygon => pointInPolygon(lat, lon, polygon));
+}
+
+export class WeatherProviderRegistry {
+  private providers = new Map<string, WeatherProvider>();
+  private options: Required<CircuitBreakerOptions>;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = {
+      failureThreshold: options.failureThreshold ?? 3,
+      cooldownMs: options.cooldownMs ?? 5 * 60 * 1000,
+      minSamples: options.minSamples ?? 10,
+      minSuccessRate: options.minSuccessRate ?? 0.5,
+    };
+  }
+
+  /** Add or replace a provider (same id replaces) */
+  register(provider: WeatherProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  unregister(id: string): boolean {
+    return this.providers.delete(id);
+  }
+
+  get(id: string): WeatherProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  list(): WeatherProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Current health of a provider, derived from `weatherMetrics`
+   */
+  getHealth(provider: WeatherProvider, now: number = Date.now()): ProviderHealth {
+    const key = provider.metricsKey ?? provider.id;
+    const metric = weatherMetrics.snapshot(key).providers[0];
+
+    if (!metric) {
+      return {
+        providerId: provider.id,
+        circuit: 'closed',
+        degraded: false,
+        successRate: null,
+        avgDurationMs: null,
+        consecutiveFailures: 0,
+      };
+    }
+
+    let circuit: CircuitState = 'closed';
+    if (metric.consecutiveFailures >= this.options.failureThreshold) {
+      const lastFailure = metric.lastFailureAt ? Date.parse(metric.lastFailureAt) : 0;
+      circuit = now - lastFailure < this.options.cooldownMs ? 'open' : 'half-open';
+    }
+
+    const trusted = metric.requests >= this.options.minSamples;
+    return {
+      providerId: provider.id,
+      circuit,
+      degraded: trusted && metric.successRate < this.options.minSuccessRate,
+      successRate: metric.requests ? metric.successRate : null,
+      avgDurationMs: metric.avgDurationMs ?? null,
+      consecutiveFailures: metric.consecutiveFailures,
+    };
+  }
+
+  /**
+   * Providers to try for a location, in order. Open circuits are skipped.
+   */
+  route(lat: number, lon: number, options: RouteOptions = {}): WeatherProvider[] {
+    const now = Date.now();
+    const candidates = this.list()
+      .filter(provider => !options.freeOnly || provider.costTier === 'free')
+      .filter(provider => (options.capabilities ?? []).every(cap => provider.capabilities.includes(cap)))
+      .filter(provider => provider.isAvailable?.() ?? true)
+      .filter(provider => providerCovers(provider, lat, lon))
+      .map(provider => ({ provider, health: this.getHealth(provider, now) }))
+      .filter(({ health }) => health.circuit !== 'open');
+
+    const costRank = (p: WeatherProvider) => (p.costTier === 'free' ? 0 : 1);
+    const scopeRank = (p: WeatherProvider) => (p.coverage === 'global' ? 1 : 0);
+    const healthRank = (h: ProviderHealth) => (h.degraded || h.circuit === 'half-open' ? 1 : 0);
+
+    return candidates
+      .sort((a, b) =>
+        costRank(a.provider) - costRank(b.provider)
+        || scopeRank(a.provider) - scopeRank(b.provider)
+        || healthRank(a.health) - healthRank(b.health)
+        || (a.provider.priority ?? DEFAULT_PRIORITY) - (b.provider.priority ?? DEFAULT_PRIORITY)
+        || (a.health.avgDurationMs ?? Number.MAX_SAFE_INTEGER) - (b.health.avgDurationMs ?? Number.MAX_SAFE_INTEGER)
+      )
+      .map(({ provider }) => provider);
+  }
+
+  /**
+   * Fetch from the routed providers in order until one returns data. A
+   * provider that throws or returns null falls through to the next; null
+   * when none has anything.
+   */
+  async fetchWithFallback(
+    lat: number,
+    lon: number,
+    options: RouteOptions = {}
+  ): Promise<{ provider: WeatherProvider; data: FullWeather } | null> {
+    for (const provider of this.route(lat, lon, options)) {
+      console.log(`[Weather] Trying ${provider.name} (${lat.toFixed(2)}, ${lon.toFixed(2)})...`);
+      try {
+        const data = await provider.fetch(lat, lon);
+        if (data) return { provider, data };
+      } catch (error) {
+        console.error(`[Weather] ${provider.name} failed:`, error);
+      }
+    }
+    return null;
+  }
+}
+
+export const weatherProviderRegistry = new WeatherProviderRegistry();
+
+export function registerWeatherProvider(provider: WeatherProvider): void {
+  weatherProviderRegistry.register(provider);
+}
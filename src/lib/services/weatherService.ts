@@ -7,6 +7,9 @@ import {
   COORDINATE_PRECISION
 } from '../utils/coordinates';
 import { getSupabaseServerClient } from '../supabase/serverClient';
+import { boundingBox, weatherProviderRegistry, type CoveragePolygon, type FullWeather } from './weatherProviders';
+import { blendForecasts, normalizeProviderForecast, payloadUtcOffsetSeconds, type BlendOptions, type BlendedForecast, type ProviderForecast } from './forecastBlending';
+import { getTimezoneForCoordinates, getTimezoneOffsetMinutes } from '../date/timezone';
 
 /**
  * Normalize and merge core weather fields (clouds, rain, snow, etc.) with fallback logic
@@ -661,28 +664,21 @@ function normalizeCoreWeatherFields(
 }
 
 /**
- * Geographic region checks for waterfall optimization
+ * Provider coverage for the free regional services
  */
-function isUSLocation(lat: number, lon: number): boolean {
-  // Continental US, Alaska, Hawaii, and territories
-  // Continental US: roughly 24.5°N-49°N, 125°W-66°W
-  // Alaska: 51°N-71°N, 130°W-172°E
-  // Hawaii: 18°N-23°N, 160°W-154°W
-  return (
-    // Continental US
-    (lat >= 24.5 && lat <= 49 && lon >= -125 && lon <= -66) ||
-    // Alaska
-    (lat >= 51 && lat <= 71 && ((lon >= -180 && lon <= -130) || (lon >= 172 && lon <= 180))) ||
-    // Hawaii
-    (lat >= 18 && lat <= 23 && lon >= -160 && lon <= -154)
-  );
-}
-
-function isEuropeanLocation(lat: number, lon: number): boolean {
-  // Europe: roughly 35°N-71°N, 10°W-40°E
-  // Covers most of Europe including UK, Scandinavia, Mediterranean
-  return lat >= 35 && lat <= 71 && lon >= -10 && lon <= 40;
-}
+// Continental US: roughly 24.5°N-49°N, 125°W-66°W
+// Alaska: 51°N-71°N, 130°W-172°E (split at the antimeridian)
+// Hawaii: 18°N-23°N, 160°W-154°W
+const US_COVERAGE: CoveragePolygon[] = [
+  boundingBox(24.5, -125, 49, -66),
+  boundingBox(51, -180, 71, -130),
+  boundingBox(51, 172, 71, 180),
+  boundingBox(18, -160, 23, -154),
+];
+
+// Europe: roughly 35°N-71°N, 10°W-40°E
+// Covers most of Europe including UK, Scandinavia, Mediterranean
+const EUROPE_COVERAGE: CoveragePolygon[] = [boundingBox(35, -10, 71, 40)];
 
 /**
  * Fetch weather data from NWS (National Weather Service) - US only, FREE
@@ -764,6 +760,7 @@ async function fetchFromNWS(lat: number, lon: number): Promise<FullWeather | nul
       },
       daily: periods.slice(0, 7).map(period => ({
         dt: period.startTime ? new Date(period.startTime).getTime() / 1000 : undefined,
+        startTime: period.startTime,
         temp: { day: fahrenheitToCelsius(period.temperature) },
         weather: [{ description: period.shortForecast, icon: period.icon }],
         wind_speed: parseWindSpeed(period.windSpeed),
@@ -882,8 +879,8 @@ async function fetchFromOpenMeteoWeather(lat: number, lon: number): Promise<Full
       latitude: lat.toString(),
       longitude: lon.toString(),
       current: 'temperature_2m,relative_humidity_2m,wind_speed_10m,wind_direction_10m,weather_code',
-      hourly: 'temperature_2m,wind_speed_10m,wind_direction_10m,weather_code',
-      daily: 'temperature_2m_max,temperature_2m_min,weather_code,wind_speed_10m_max',
+      hourly: 'temperature_2m,relative_humidity_2m,precipitation,precipitation_probability,cloud_cover,wind_speed_10m,wind_gusts_10m,wind_direction_10m,weather_code',
+      daily: 'temperature_2m_max,temperature_2m_min,precipitation_sum,precipitation_probability_max,weather_code,wind_speed_10m_max',
       timezone: 'auto',
     });
     
@@ -905,6 +902,8 @@ async function fetchFromOpenMeteoWeather(lat: number, lon: number): Promise<Full
       };
       hourly?: { time?: string[]; temperature_2m?: number[] };
       daily?: { time?: string[]; temperature_2m_max?: number[] };
+      utc_offset_seconds?: number;
+      timezone?: string;
     };
     
     if (!data.current) {
@@ -925,6 +924,9 @@ async function fetchFromOpenMeteoWeather(lat: number, lon: number): Promise<Full
       hourly: data.hourly ? [data.hourly as unknown] : [],
       daily: data.daily ? [data.daily as unknown] : [],
       alerts: [],
+      // Hourly/daily times are local (timezone=auto)
+      utc_offset_seconds: data.utc_offset_seconds,
+      timezone: data.timezone,
     };
   } catch (error) {
     console.warn('[Open-Meteo] Error fetching weather:', error);
@@ -932,92 +934,155 @@ async function fetchFromOpenMeteoWeather(lat: number, lon: number): Promise<Full
   }
 }
 
+const getOpenWeatherKey = () => process.env.OPENWEATHER_KEY || process.env.NEXT_PUBLIC_OPENWEATHER_KEY;
+
+/**
+ * Fetch from OpenWeather One Call (PAID), including alerts
+ */
+async function fetchFromOpenWeather(lat: number, lon: number): Promise<FullWeather | null> {
+  const apiKey = getOpenWeatherKey();
+  if (!apiKey) return null;
+
+  const weatherData = await getFullWeather({
+    lat,
+    lon,
+    apiKey,
+    options: { units: 'metric' }
+  }) as FullWeather;
+
+  weatherData.source = 'openweather';
+
+  // Get weather alerts
+  try {
+    const alerts = await getWeatherAlerts({ lat, lon, apiKey });
+    weatherData.alerts = alerts.length > 0 ? alerts : (weatherData.alerts || []);
+  } catch (error) {
+    console.warn('[Weather] Failed to fetch alerts:', error);
+  }
+
+  return weatherData;
+}
+
+// Built-in providers. Apps can add more with `registerWeatherProvider`.
+weatherProviderRegistry.register({
+  id: 'nws',
+  name: 'NWS',
+  costTier: 'free',
+  coverage: US_COVERAGE,
+  capabilities: ['current', 'hourly', 'daily'],
+  fetch: fetchFromNWS,
+});
+weatherProviderRegistry.register({
+  id: 'metno',
+  name: 'Met.no',
+  costTier: 'free',
+  coverage: EUROPE_COVERAGE,
+  capabilities: ['current', 'hourly'],
+  fetch: fetchFromMetNoWeather,
+});
+weatherProviderRegistry.register({
+  id: 'openmeteo',
+  name: 'Open-Meteo',
+  costTier: 'free',
+  coverage: 'global',
+  capabilities: ['current', 'hourly', 'daily'],
+  fetch: fetchFromOpenMeteoWeather,
+});
+weatherProviderRegistry.register({
+  id: 'openweather',
+  name: 'OpenWeather',
+  costTier: 'paid',
+  coverage: 'global',
+  capabilities: ['current', 'hourly', 'daily', 'alerts'],
+  isAvailable: () => Boolean(getOpenWeatherKey()),
+  fetch: fetchFromOpenWeather,
+});
+
 /**
  * Get comprehensive weather data for a location with intelligent waterfall
  * 
- * Waterfall Strategy:
- * - US locations: NWS (free) → Open-Meteo (free) → OpenWeather (paid) → Stormglass (paid)
- * - Europe: Met.no (free) → Open-Meteo (free) → OpenWeather (paid) → Stormglass (paid)
- * - Other: Open-Meteo (free) → OpenWeather (paid) → Stormglass (paid)
+ * Providers come from `weatherProviderRegistry`, ordered by `route()`:
+ * - US locations: NWS (free) → Open-Meteo (free) → OpenWeather (paid)
+ * - Europe: Met.no (free) → Open-Meteo (free) → OpenWeather (paid)
+ * - Other: Open-Meteo (free) → OpenWeather (paid)
+ * Providers with an open circuit (repeated recent failures) are skipped.
  * 
  * @param lat Latitude
  * @param lon Longitude
  * @returns Unified weather data object with current, hourly, and daily forecasts
  */
-interface FullWeather {
-  alerts?: unknown[];
-  daily?: unknown[];
-  source?: string;
-  [key: string]: unknown;
+async function getWeatherData(lat: number, lon: number): Promise<FullWeather> {
+  const result = await weatherProviderRegistry.fetchWithFallback(lat, lon);
+
+  // Last resort: throw error
+  if (!result) throw new Error('No weather data available from any source');
+
+  const { provider, data: weatherData } = result;
+  const paid = provider.costTier === 'paid';
+  console.log(`${paid ? '⚠️ ' : '✅'} [Weather] Using ${provider.name} (${paid ? 'PAID' : 'FREE'})`);
+  // Get air quality from OpenWeather if available (cached 24h at 0dp)
+  weatherData.airQuality = await getAirQualityWithCache(lat, lon);
+  return weatherData;
 }
 
-async function getWeatherData(lat: number, lon: number): Promise<FullWeather> {
-  // Try free sources first based on location
-  let weatherData: FullWeather | null = null;
-  
-  // US locations: Try NWS first
-  if (isUSLocation(lat, lon)) {
-    console.log(`[Weather] US location detected (${lat.toFixed(2)}, ${lon.toFixed(2)}), trying NWS...`);
-    weatherData = await fetchFromNWS(lat, lon);
-    if (weatherData) {
-      console.log('✅ [Weather] Using NWS (FREE)');
-      // Get air quality from OpenWeather if available (cached 24h at 0dp)
-      weatherData.airQuality = await getAirQualityWithCache(lat, lon);
-      return weatherData;
-    }
-  }
-  
-  // European locations: Try Met.no first
-  if (isEuropeanLocation(lat, lon)) {
-    console.log(`[Weather] European location detected (${lat.toFixed(2)}, ${lon.toFixed(2)}), trying Met.no...`);
-    weatherData = await fetchFromMetNoWeather(lat, lon);
-    if (weatherData) {
-      console.log('✅ [Weather] Using Met.no (FREE)');
-      weatherData.airQuality = await getAirQualityWithCache(lat, lon);
-      return weatherData;
-    }
-  }
-  
-  // Try Open-Meteo (global, free)
-  console.log(`[Weather] Trying Open-Meteo (global)...`);
-  weatherData = await fetchFromOpenMeteoWeather(lat, lon);
-  if (weatherData) {
-    console.log('✅ [Weather] Using Open-Meteo (FREE)');
-    weatherData.airQuality = await getAirQualityWithCache(lat, lon);
-    return weatherData;
-  }
-  
-  // Fall back to OpenWeather (paid)
-  const apiKey = process.env.OPENWEATHER_KEY || process.env.NEXT_PUBLIC_OPENWEATHER_KEY;
-  if (apiKey) {
-    console.log('⚠️  [Weather] Falling back to OpenWeather (PAID)');
-    try {
-      weatherData = await getFullWeather({ 
-        lat, 
-        lon, 
-        apiKey, 
-        options: { units: 'metric' } 
-      }) as FullWeather;
-      
-      weatherData.source = 'openweather';
-      weatherData.airQuality = await getAirQualityWithCache(lat, lon);
-      
-      // Get weather alerts
-      try {
-        const alerts = await getWeatherAlerts({ lat, lon, apiKey });
-        weatherData.alerts = alerts.length > 0 ? alerts : (weatherData.alerts || []);
-      } catch (error) {
-        console.warn('[Weather] Failed to fetch alerts:', error);
-      }
-      
-      return weatherData;
-    } catch (error) {
-      console.error('[Weather] OpenWeather failed:', error);
+export interface EnsembleWeatherOptions extends BlendOptions {
+  /** Provider ids to blend (default: every routed free provider plus paid ones if available) */
+  providers?: string[];
+  /** Maximum number of providers to query (default 4) */
+  maxProviders?: number;
+}
+
+export interface EnsembleWeather extends BlendedForecast {
+  /** Raw payloads per provider, for fields that are not blended */
+  raw: Record<string, FullWeather>;
+  /** Providers that failed or returned nothing */
+  failed: string[];
+}
+
+/**
+ * Ensemble mode: query several providers in parallel and blend their hourly
+ * and daily fields with per-field spread/confidence.
+ *
+ * @throws Error if no provider returns usable data
+ */
+async function getEnsembleWeatherData(lat: number, lon: number, options: EnsembleWeatherOptions = {}): Promise<EnsembleWeather> {
+  const { providers: only, maxProviders = 4, ...blendOptions } = options;
+  const providers = weatherProviderRegistry
+    .route(lat, lon)
+    .filter(provider => !only || only.includes(provider.id))
+    .slice(0, maxProviders);
+
+  const results = await Promise.allSettled(providers.map(provider => provider.fetch(lat, lon)));
+
+  const raw: Record<string, FullWeather> = {};
+  const forecasts: ProviderForecast[] = [];
+  const failed: string[] = [];
+
+  // Days are keyed by local date: use an offset a provider reported, else the zone at the point
+  const payloads = results.map(result => (result.status === 'fulfilled' ? result.value : null));
+  const utcOffsetSeconds = payloads.map(data => (data ? payloadUtcOffsetSeconds(data) : undefined)).find(o => o !== undefined)
+    ?? getTimezoneOffsetMinutes(getTimezoneForCoordinates(lat, lon), Date.now()) * 60;
+
+  results.forEach((result, i) => {
+    const provider = providers[i];
+    const data = payloads[i];
+    const forecast = data ? normalizeProviderForecast({ ...data, source: data.source ?? provider.id }, { utcOffsetSeconds }) : null;
+    if (!data || !forecast || forecast.hourly.length === 0) {
+      if (result.status === 'rejected') console.warn(`[Weather] Ensemble: ${provider.name} failed:`, result.reason);
+      failed.push(provider.id);
+      return;
     }
+    raw[provider.id] = data;
+    // Blend by provider id so weights can be keyed the same way as the registry
+    forecasts.push({ ...forecast, source: provider.id });
+  });
+
+  if (forecasts.length === 0) {
+    throw new Error('No weather data available from any source');
   }
-  
-  // Last resort: throw error
-  throw new Error('No weather data available from any source');
+
+  console.log(`✅ [Weather] Ensemble blended ${forecasts.length} providers (${forecasts.map(f => f.source).join(', ')})`);
+  return { ...blendForecasts(forecasts, blendOptions), raw, failed };
 }
 
 /**
@@ -2194,6 +2259,7 @@ async function fetchStormglassBio(
 export {
   normalizeCoreWeatherFields,
   getWeatherData,
+  getEnsembleWeatherData,
   getWeatherAlerts,
   getAirPollution,
   handler,
@@ -0,0 +1,98 @@
+/**
+ * Tests for signed share tokens
+ */
+
+import {
+  generateShareToken,
+  decodeShareToken,
+  generateShareTokenAsync,
+  decodeShareTokenAsync,
+  revokeShareToken,
+  setShareTokenDenylist,
+  MemoryShareTokenDenylist,
+  type FindrShareData,
+} from '../shareToken';
+
+const findr: Omit<FindrShareData, 'createdAt' | 'expiresAt'> = {
+  app: 'findr',
+  speciesCode: 'BSS',
+  speciesName: 'Sea bass',
+  confidence: 82,
+  rectangleCode: '30E4',
+  regionName: 'Côte d’Émeraude',
+  date: '2025-06-10',
+};
+
+const toBase64Url = (json: string) =>
+  Buffer.from(json).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+describe('lib/share/shareToken', () => {
+  beforeEach(() => {
+    process.env.SHARE_TOKEN_KEYS = 'k2:second-secret,k1:first-secret';
+    setShareTokenDenylist(new MemoryShareTokenDenylist());
+  });
+
+  it('round-trips a signed token', async () => {
+    const token = await generateShareTokenAsync(findr);
+    const decoded = await decodeShareTokenAsync(token);
+
+    expect(decoded?.verified).toBe(true);
+    expect(decoded?.version).toBe(2);
+    expect(decoded?.keyId).toBe('k2');
+    expect(decoded?.data).toMatchObject({ speciesName: 'Sea bass', regionName: 'Côte d’Émeraude' });
+  });
+
+  it('rejects a token whose payload was edited', async () => {
+    const token = await generateShareTokenAsync(findr);
+    const [body, signature] = token.split('.');
+    const payload = JSON.parse(Buffer.from(body, 'base64').toString());
+    payload.d.expiresAt = '2099-01-01T00:00:00.000Z';
+
+    expect(await decodeShareTokenAsync(`${toBase64Url(JSON.stringify(payload))}.${signature}`)).toBeNull();
+  });
+
+  it('keeps verifying tokens signed with a rotated-out key until it is removed', async () => {
+    process.env.SHARE_TOKEN_KEYS = 'k1:first-secret';
+    const token = await generateShareTokenAsync(findr);
+
+    process.env.SHARE_TOKEN_KEYS = 'k2:second-secret,k1:first-secret';
+    expect((await decodeShareTokenAsync(token))?.keyId).toBe('k1');
+
+    process.env.SHARE_TOKEN_KEYS = 'k2:second-secret';
+    expect(await decodeShareTokenAsync(token)).toBeNull();
+  });
+
+  it('revokes tokens via the denylist', async () => {
+    const token = await generateShareTokenAsync(findr);
+
+    expect(await revokeShareToken(token)).toBe(true);
+    expect(await decodeShareTokenAsync(token)).toBeNull();
+  });
+
+  it('decodes only unverified v1 tokens synchronously', async () => {
+    const brittany: typeof findr = { ...findr, regionName: 'Brittany' };
+    const legacy = generateShareToken(brittany);
+
+    expect(decodeShareToken(legacy)).toMatchObject({ verified: false, version: 1, data: { app: 'findr', regionName: 'Brittany' } });
+    expect((await decodeShareTokenAsync(legacy))?.verified).toBe(false);
+
+    // A signed token, genuine or forged, cannot be checked without the keys
+    const signed = await generateShareTokenAsync(findr);
+    expect(decodeShareToken(signed)).toBeNull();
+    const forged = toBase64Url(JSON.stringify({ v: 2, jti: 'x', kid: 'k2', d: { ...findr, createdAt: '2025-06-10T00:00:00Z', expiresAt: '2099-01-01T00:00:00Z' } }));
+    expect(decodeShareToken(`${forged}.garbage`)).toBeNull();
+  });
+
+  it('decodes legacy v1 tokens as unverified', async () => {
+    const legacy = toBase64Url(JSON.stringify({
+      v: 1,
+      d: { ...findr, regionName: 'Brittany', createdAt: '2025-06-10T00:00:00Z', expiresAt: '2025-06-17T00:00:00Z' },
+    }));
+    const decoded = await decodeShareTokenAsync(legacy);
+
+    expect(decoded?.verified).toBe(false);
+    expect(decoded?.version).toBe(1);
+    expect(decoded?.tokenId).toBeUndefined();
+    expect(await revokeShareToken(legacy)).toBe(false);
+  });
+});
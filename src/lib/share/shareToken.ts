@@ -7,6 +7,19 @@
  * - Date
  * - Recommendation data
  * - Expiry (7 days default)
+ *
+ * v2 tokens are `<payload>.<signature>`: a base64url JSON payload carrying a
+ * token id and signing key id, HMAC-signed server-side (see utils/crypto).
+ * `generateShareTokenAsync` / `decodeShareTokenAsync` sign, verify and check
+ * revoked token ids against a denylist. Legacy v1 tokens (unsigned base64
+ * JSON) still decode, flagged as unverified. The synchronous
+ * `decodeShareToken` cannot verify, so it only accepts v1 tokens and rejects
+ * signed ones; `generateShareToken` (v1) is kept for old callers of this
+ * module and is not part of the package index.
+ *
+ * Revocations are stored in Supabase (share_token_revocations) when it is
+ * configured, like the sharing store. Without it they fall back to memory
+ * and only hold in the process that made them.
  */
 
 export type ShareApp = 'godaisy' | 'findr' | 'growdaisy';
@@ -64,7 +77,8 @@ export type ShareData = GoDaisyShareData | FindrShareData | GrowDaisyShareData;
 /**
  * Token version for future compatibility
  */
-const TOKEN_VERSION = 1;
+const TOKEN_VERSION = 2;
+const LEGACY_TOKEN_VERSION = 1;
 
 /**
  * Default token expiry in days
@@ -72,47 +86,206 @@ const TOKEN_VERSION = 1;
 const DEFAULT_EXPIRY_DAYS = 7;
 
 /**
- * Generate a shareable token from share data
+ * Result of decoding a share token
  */
-export function generateShareToken(data: Omit<ShareData, 'createdAt' | 'expiresAt'>, expiryDays = DEFAULT_EXPIRY_DAYS): string {
+export interface DecodedShareToken {
+  data: ShareData;
+  version: number;
+  /** False for legacy v1 tokens, which carry no signature */
+  verified: boolean;
+  tokenId?: string;
+  keyId?: string;
+}
+
+/**
+ * Server-side store of revoked token ids
+ */
+export interface ShareTokenDenylist {
+  revoke(tokenId: string, expiresAt: string): Promise<void>;
+  isRevoked(tokenId: string): Promise<boolean>;
+}
+
+/**
+ * In-memory denylist; entries are dropped once the token would have expired anyway.
+ * Per-process only: revocations are lost on restart and not seen by other instances.
+ */
+export class MemoryShareTokenDenylist implements ShareTokenDenylist {
+  private revoked = new Map<string, number>();
+
+  revoke(tokenId: string, expiresAt: string): Promise<void> {
+    this.revoked.set(tokenId, new Date(expiresAt).getTime());
+    return Promise.resolve();
+  }
+
+  isRevoked(tokenId: string): Promise<boolean> {
+    const now = Date.now();
+    for (const [id, expiresAt] of this.revoked) {
+      if (expiresAt < now) this.revoked.delete(id);
+    }
+    return Promise.resolve(this.revoked.has(tokenId));
+  }
+}
+
+let denylist: ShareTokenDenylist | null = null;
+
+/**
+ * Active denylist: Supabase when configured, otherwise in-memory (per-process)
+ */
+async function getShareTokenDenylist(): Promise<ShareTokenDenylist> {
+  if (!denylist) {
+    const hasSupabase = !!(process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL) &&
+      !!(process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY);
+    if (hasSupabase) {
+      const { SupabaseShareTokenDenylist } = await import('../db/supabaseSharingStore');
+      denylist = new SupabaseShareTokenDenylist();
+    } else {
+      console.warn('[ShareToken] Supabase not configured; revocations only last for this process');
+      denylist = new MemoryShareTokenDenylist();
+    }
+  }
+  return denylist;
+}
+
+/**
+ * Replace the denylist (tests, or a different backend)
+ */
+export function setShareTokenDenylist(store: ShareTokenDenylist | null): void {
+  denylist = store;
+}
+
+interface SignedPayload {
+  v: number;
+  jti: string;
+  kid: string;
+  d: ShareData;
+}
+
+function toBase64Url(base64: string): string {
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(token: string): string {
+  let base64 = token.replace(/-/g, '+').replace(/_/g, '/');
+  while (base64.length % 4) {
+    base64 += '=';
+  }
+  return base64;
+}
+
+function encodeUtf8Base64Url(json: string): string {
+  const bytes = new TextEncoder().encode(json);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return toBase64Url(btoa(binary));
+}
+
+function decodeUtf8Base64Url(encoded: string): string {
+  const binary = atob(fromBase64Url(encoded));
+  const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+function hasRequiredFields(data: ShareData | undefined): data is ShareData {
+  return !!data && !!data.app && !!data.createdAt && !!data.expiresAt;
+}
+
+function withExpiry(data: Omit<ShareData, 'createdAt' | 'expiresAt'>, expiryDays: number): ShareData {
   const now = new Date();
   const expiresAt = new Date(now.getTime() + expiryDays * 24 * 60 * 60 * 1000);
 
-  const fullData: ShareData = {
+  return {
     ...data,
     createdAt: now.toISOString(),
     expiresAt: expiresAt.toISOString(),
   } as ShareData;
+}
 
-  // Create payload with version
+/**
+ * Generate an unsigned (v1) shareable token from share data
+ * @deprecated Anyone can forge or edit v1 tokens; use `generateShareTokenAsync` on the server
+ */
+export function generateShareToken(data: Omit<ShareData, 'createdAt' | 'expiresAt'>, expiryDays = DEFAULT_EXPIRY_DAYS): string {
   const payload = {
+    v: LEGACY_TOKEN_VERSION,
+    d: withExpiry(data, expiryDays),
+  };
+  return toBase64Url(btoa(JSON.stringify(payload)));
+}
+
+/**
+ * Generate a signed shareable token from share data (server-side: needs the signing secret)
+ */
+export async function generateShareTokenAsync(data: Omit<ShareData, 'createdAt' | 'expiresAt'>, expiryDays = DEFAULT_EXPIRY_DAYS): Promise<string> {
+  const { signData, getActiveKeyId } = await import('../utils/crypto');
+  const fullData = withExpiry(data, expiryDays);
+
+  const keyId = getActiveKeyId();
+  const payload: SignedPayload = {
     v: TOKEN_VERSION,
+    jti: crypto.randomUUID(),
+    kid: keyId,
     d: fullData,
   };
 
-  // Encode to base64 (URL-safe)
-  const jsonString = JSON.stringify(payload);
-  const base64 = btoa(jsonString)
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=+$/, '');
+  const body = encodeUtf8Base64Url(JSON.stringify(payload));
+  const signature = await signData(body, keyId);
+  return `${body}.${signature}`;
+}
 
-  return base64;
+/**
+ * Decode a legacy v1 token (unsigned base64 JSON)
+ */
+function decodeLegacyToken(token: string): DecodedShareToken | null {
+  const payload = JSON.parse(atob(fromBase64Url(token)));
+
+  if (payload.v !== LEGACY_TOKEN_VERSION) {
+    console.warn('[ShareToken] Unknown token version:', payload.v);
+    return null;
+  }
+
+  const data = payload.d as ShareData;
+  if (!hasRequiredFields(data)) {
+    console.warn('[ShareToken] Missing required fields');
+    return null;
+  }
+
+  console.warn('[ShareToken] Decoded unsigned legacy token');
+  return { data, version: LEGACY_TOKEN_VERSION, verified: false };
 }
 
 /**
- * Decode a share token
+ * Decode a legacy v1 share token, always flagged `verified: false`.
+ * Signed v2 tokens are rejected: checking them needs the signing keys and
+ * the denylist, so use `decodeShareTokenAsync`.
+ * @deprecated Use `decodeShareTokenAsync`
  */
-export function decodeShareToken(token: string): ShareData | null {
+export function decodeShareToken(token: string): DecodedShareToken | null {
   try {
-    // Restore base64 padding and characters
-    let base64 = token.replace(/-/g, '+').replace(/_/g, '/');
-    while (base64.length % 4) {
-      base64 += '=';
+    if (token.includes('.')) {
+      console.warn('[ShareToken] Signed tokens must be verified with decodeShareTokenAsync');
+      return null;
+    }
+    return decodeLegacyToken(token);
+  } catch (error) {
+    console.error('[ShareToken] Failed to decode token:', error);
+    return null;
+  }
+}
+
+/**
+ * Decode and verify a share token.
+ * Returns null for malformed, forged, unknown-key or revoked tokens.
+ */
+export async function decodeShareTokenAsync(token: string): Promise<DecodedShareToken | null> {
+  try {
+    const separator = token.indexOf('.');
+    if (separator === -1) {
+      return decodeLegacyToken(token);
     }
 
-    const jsonString = atob(base64);
-    const payload = JSON.parse(jsonString);
+    const body = token.slice(0, separator);
+    const signature = token.slice(separator + 1);
+    const payload = JSON.parse(decodeUtf8Base64Url(body)) as SignedPayload;
 
     // Version check
     if (payload.v !== TOKEN_VERSION) {
@@ -120,21 +293,48 @@ export function decodeShareToken(token: string): ShareData | null {
       return null;
     }
 
-    const data = payload.d as ShareData;
+    const { verifySignature } = await import('../utils/crypto');
+    if (!payload.kid || !(await verifySignature(body, signature, payload.kid))) {
+      console.warn('[ShareToken] Invalid signature for key:', payload.kid);
+      return null;
+    }
 
-    // Validate required fields
-    if (!data.app || !data.createdAt || !data.expiresAt) {
+    if (!hasRequiredFields(payload.d)) {
       console.warn('[ShareToken] Missing required fields');
       return null;
     }
 
-    return data;
+    if (await (await getShareTokenDenylist()).isRevoked(payload.jti)) {
+      console.warn('[ShareToken] Token revoked:', payload.jti);
+      return null;
+    }
+
+    return {
+      data: payload.d,
+      version: payload.v,
+      verified: true,
+      tokenId: payload.jti,
+      keyId: payload.kid,
+    };
   } catch (error) {
     console.error('[ShareToken] Failed to decode token:', error);
     return null;
   }
 }
 
+/**
+ * Revoke a signed share token so it no longer decodes
+ * @returns false if the token is invalid or a legacy token (which has no id to revoke)
+ */
+export async function revokeShareToken(token: string): Promise<boolean> {
+  const decoded = await decodeShareTokenAsync(token);
+  if (!decoded?.tokenId) {
+    return false;
+  }
+  await (await getShareTokenDenylist()).revoke(decoded.tokenId, decoded.data.expiresAt);
+  return true;
+}
+
 /**
  * Check if a share token is expired
  */
@@ -0,0 +1,174 @@
+/**
+ * Tests for Stripe webhook verification and processing, replaying recorded events
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  MemoryStripeWebhookStore,
+  StripeWebhookError,
+  createStripeWebhookHandler,
+  processStripeEvent,
+  signStripePayload,
+  verifyStripeSignature,
+  type StripeEvent,
+} from '../webhooks';
+
+const SECRET = 'whsec_test_secret';
+const USER_ID = '9f1c2b7e-4d3a-4c1e-9a57-2f0d6b8e1a11';
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, '..', '__fixtures__', `${name}.json`), 'utf8');
+}
+
+const event = (name: string) => JSON.parse(fixture(name)) as StripeEvent;
+
+function makeStore(): MemoryStripeWebhookStore {
+  return new MemoryStripeWebhookStore([{ id: USER_ID, subscription_status: 'free', payment_platform: 'web' }]);
+}
+
+function post(body: string, signature?: string) {
+  const req = {
+    method: 'POST',
+    headers: signature ? { 'stripe-signature': signature } : {},
+    async *[Symbol.asyncIterator]() {
+      yield Buffer.from(body);
+    },
+  } as unknown as NextApiRequest;
+  const res = {
+    statusCode: 0,
+    body: undefined as unknown,
+    setHeader() { return this; },
+    status(code: number) { this.statusCode = code; return this; },
+    json(payload: unknown) { this.body = payload; return this; },
+  };
+  return { req, res: res as unknown as NextApiResponse & typeof res };
+}
+
+describe('lib/stripe/webhooks', () => {
+  it('should verify signatures against the raw body and tolerance window', () => {
+    const payload = fixture('customer.subscription.created');
+    const created = JSON.parse(payload).created as number;
+    const now = new Date(created * 1000);
+    const header = signStripePayload(payload, SECRET, created);
+
+    expect(verifyStripeSignature(payload, header, SECRET, { now }).id).toBe('evt_1PaSubCreated0002');
+    expect(verifyStripeSignature(payload, header, ['whsec_new', SECRET], { now }).type).toBe('customer.subscription.created');
+    expect(() => verifyStripeSignature(payload.replace('trialing', 'active'), header, SECRET, { now })).toThrow(StripeWebhookError);
+    expect(() => verifyStripeSignature(payload, header, SECRET, { now: new Date((created + 301) * 1000) })).toThrow(
+      'Signature timestamp outside the tolerance window'
+    );
+    expect(() => verifyStripeSignature(payload, undefined, SECRET, { now })).toThrow('Missing Stripe-Signature header');
+  });
+
+  it('should apply recorded subscription events once, in order', async () => {
+    const store = makeStore();
+
+    expect((await processStripeEvent(event('checkout.session.completed'), { store })).status).toBe('applied');
+    expect((await processStripeEvent(event('customer.subscription.created'), { store })).status).toBe('applied');
+    expect(store.profiles.get(USER_ID)).toMatchObject({
+      subscription_status: 'premium',
+      stripe_customer_id: 'cus_QX1fDn8sT2',
+      stripe_subscription_id: 'sub_1PaT7rLk4Fw',
+      trial_ends_at: '2025-06-08T10:00:01.000Z',
+    });
+
+    expect((await processStripeEvent(event('customer.subscription.updated.past_due'), { store })).status).toBe('applied');
+    // Past due: access runs for the 7-day grace period, not to the end of the unpaid period
+    expect(store.profiles.get(USER_ID)?.subscription_end_date).toBe('2025-07-15T10:00:01.000Z');
+
+    const duplicate = await processStripeEvent(event('customer.subscription.updated.past_due'), { store });
+    expect(duplicate.status).toBe('duplicate');
+
+    await processStripeEvent(event('customer.subscription.deleted'), { store });
+    expect(store.profiles.get(USER_ID)?.subscription_status).toBe('free');
+  });
+
+  it('should drop events older than the one already applied', async () => {
+    const store = makeStore();
+    await processStripeEvent(event('checkout.session.completed'), { store });
+
+    await processStripeEvent(event('customer.subscription.updated'), { store });
+    const late = await processStripeEvent(event('customer.subscription.created'), { store });
+
+    expect(late.status).toBe('stale');
+    expect(store.profiles.get(USER_ID)).toMatchObject({
+      subscription_status: 'premium',
+      subscription_end_date: '2025-07-08T10:00:01.000Z',
+      stripe_synced_at: '2025-06-08T10:00:05.000Z',
+    });
+  });
+
+  it('should not let an old subscription ending downgrade a newer one', async () => {
+    const store = new MemoryStripeWebhookStore([{
+      id: USER_ID,
+      subscription_status: 'premium',
+      payment_platform: 'web',
+      stripe_customer_id: 'cus_QX1fDn8sT2',
+      stripe_subscription_id: 'sub_newer',
+    }]);
+
+    expect((await processStripeEvent(event('customer.subscription.deleted'), { store })).status).toBe('ignored');
+    expect(store.profiles.get(USER_ID)?.subscription_status).toBe('premium');
+  });
+
+  it('should ask Stripe to retry events for customers not linked yet', async () => {
+    const store = makeStore();
+    const handler = createStripeWebhookHandler({ app: 'findr', secret: SECRET, store, retrieveSubscription: null });
+    const payload = fixture('customer.subscription.created');
+
+    const early = post(payload, signStripePayload(payload, SECRET));
+    await handler(early.req, early.res);
+    expect(early.res.statusCode).toBe(503);
+    expect(store.events.has('evt_1PaSubCreated0002')).toBe(false);
+
+    const checkout = fixture('checkout.session.completed');
+    const linked = post(checkout, signStripePayload(checkout, SECRET));
+    await handler(linked.req, linked.res);
+    expect(linked.res.statusCode).toBe(200);
+
+    const retry = post(payload, signStripePayload(payload, SECRET));
+    await handler(retry.req, retry.res);
+    expect(retry.res.statusCode).toBe(200);
+    expect(retry.res.body).toEqual({ received: true, status: 'applied' });
+
+    const forged = post(payload, signStripePayload(payload, 'whsec_other'));
+    await handler(forged.req, forged.res);
+    expect(forged.res.statusCode).toBe(400);
+  });
+
+  it('should take over a claim left processing past the lease, and 409 while it is live', async () => {
+    const store = new MemoryStripeWebhookStore([{ id: USER_ID, subscription_status: 'free', payment_platform: 'web' }], {
+      leaseMs: 60_000,
+    });
+    const handler = createStripeWebhookHandler({ app: 'findr', secret: SECRET, store, retrieveSubscription: null });
+    const payload = fixture('checkout.session.completed');
+    const stuck = event('checkout.session.completed');
+    // Date.now is faked below; the signature check reads the clock through new Date()
+    const signedAt = Math.floor(new Date().getTime() / 1000);
+
+    // A run that crashed after claiming the event never completes or releases it
+    const now = jest.spyOn(Date, 'now');
+    try {
+      now.mockReturnValue(1_000_000);
+      expect(await store.claimEvent(stuck)).toBe('claimed');
+
+      now.mockReturnValue(1_030_000);
+      const early = post(payload, signStripePayload(payload, SECRET, signedAt));
+      await handler(early.req, early.res);
+      expect(early.res.statusCode).toBe(409);
+
+      now.mockReturnValue(1_061_000);
+      const retry = post(payload, signStripePayload(payload, SECRET, signedAt));
+      await handler(retry.req, retry.res);
+      expect(retry.res.statusCode).toBe(200);
+      expect(retry.res.body).toEqual({ received: true, status: 'applied' });
+    } finally {
+      now.mockRestore();
+    }
+
+    expect(store.events.get(stuck.id)?.status).toBe('processed');
+    expect(await store.claimEvent(stuck)).toBe('processed');
+  });
+});
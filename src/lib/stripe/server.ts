@@ -1,32 +1,50 @@
 /**
  * Stripe Server-Side Client
  *
- * Server-only Stripe instance for API routes and server components.
- * Uses secret key from environment variables.
+ * Server-only Stripe instances for API routes and server components.
+ * Uses secret key from environment variables. All apps share one Stripe
+ * account; the app only changes the app info sent with each request.
  *
  * @module lib/stripe/server
  */
 
 import Stripe from 'stripe';
+import type { AppId } from '../subscriptions/entitlements';
 
 if (!process.env.STRIPE_SECRET_KEY) {
   throw new Error('STRIPE_SECRET_KEY is not defined in environment variables');
 }
 
+const APP_INFO: Record<AppId, Stripe.AppInfo> = {
+  godaisy: { name: 'Go Daisy', version: '1.0.0', url: 'https://godaisy.io' },
+  findr: { name: 'Findr', version: '1.0.0', url: 'https://fishfindr.eu' },
+  growdaisy: { name: 'Grow Daisy', version: '1.0.0', url: 'https://grow.godaisy.io' },
+};
+
+const clients = new Map<AppId, Stripe>();
+
 /**
- * Stripe client instance configured for server-side operations.
+ * Stripe client for an app, created once per app.
  *
  * Features:
  * - Uses account's default API version (safer for production)
  * - TypeScript types enabled
  * - App info for request tracking in Stripe dashboard
  */
-export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  // Use account's default API version (safer than hardcoding)
-  typescript: true,
-  appInfo: {
-    name: 'Findr',
-    version: '1.0.0',
-    url: 'https://fishfindr.eu',
-  },
-});
+export function getStripeServer(app: AppId): Stripe {
+  let client = clients.get(app);
+  if (!client) {
+    client = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+      // Use account's default API version (safer than hardcoding)
+      typescript: true,
+      appInfo: APP_INFO[app],
+    });
+    clients.set(app, client);
+  }
+  return client;
+}
+
+/**
+ * Stripe client for the app named by STRIPE_APP_ID (defaults to Findr).
+ */
+export const stripe = getStripeServer((process.env.STRIPE_APP_ID as AppId | undefined) ?? 'findr');
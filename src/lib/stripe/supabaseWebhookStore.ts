@@ -0,0 +1,129 @@
+/**
+ * Supabase-backed Stripe webhook store
+ *
+ * Tables (see supabase/migrations/20261019000000_stripe_webhook_events.sql):
+ * - stripe_webhook_events (id text pk, type text, event_created timestamptz,
+ *   status text ('processing' | 'processed'), claimed_at timestamptz,
+ *   processed_at timestamptz)
+ * - profiles: the subscription columns read by `useSubscription`, plus
+ *   stripe_synced_at timestamptz
+ *
+ * The primary key on stripe_webhook_events makes claiming an event atomic;
+ * taking over a lapsed claim is a conditional update on claimed_at, so only
+ * one delivery wins that too. Profile updates are conditional on
+ * stripe_synced_at in the same statement, so two deliveries racing for one
+ * row cannot let the older event win.
+ * Needs the service role key: webhooks write other users' rows.
+ */
+
+import { getSupabaseServerClient, type SupabaseClient } from '../supabase/serverClient';
+import {
+  DEFAULT_EVENT_LEASE_MS,
+  type StripeEvent,
+  type StripeEventClaim,
+  type StripeProfileRow,
+  type StripeProfileUpdate,
+  type StripeWebhookStore,
+} from './webhooks';
+
+const UNIQUE_VIOLATION = '23505';
+
+const PROFILE_COLUMNS =
+  'id, subscription_status, payment_platform, stripe_customer_id, stripe_subscription_id, subscription_start_date, subscription_end_date, trial_ends_at, stripe_synced_at';
+
+export class SupabaseStripeWebhookStore implements StripeWebhookStore {
+  private supabase: SupabaseClient | null = null;
+  private readonly leaseMs: number;
+
+  constructor(options: { leaseMs?: number } = {}) {
+    this.leaseMs = options.leaseMs ?? DEFAULT_EVENT_LEASE_MS;
+  }
+
+  private client(): SupabaseClient {
+    if (!this.supabase) this.supabase = getSupabaseServerClient();
+    return this.supabase;
+  }
+
+  async claimEvent(event: StripeEvent): Promise<StripeEventClaim> {
+    const now = new Date();
+    const { error } = await this.client().from('stripe_webhook_events').insert({
+      id: event.id,
+      type: event.type,
+      event_created: new Date(event.created * 1000).toISOString(),
+      status: 'processing',
+      claimed_at: now.toISOString(),
+    });
+    if (!error) return 'claimed';
+    if (error.code !== UNIQUE_VIOLATION) throw new Error(`Failed to record Stripe event: ${error.message}`);
+
+    // Already recorded: take the claim over if the run holding it has outlived the lease
+    const { data: taken, error: takeError } = await this.client()
+      .from('stripe_webhook_events')
+      .update({ claimed_at: now.toISOString() })
+      .eq('id', event.id)
+      .eq('status', 'processing')
+      .lt('claimed_at', new Date(now.getTime() - this.leaseMs).toISOString())
+      .select('id');
+    if (takeError) throw new Error(`Failed to take over Stripe event: ${takeError.message}`);
+    if ((taken ?? []).length > 0) return 'claimed';
+
+    const { data: row, error: readError } = await this.client()
+      .from('stripe_webhook_events')
+      .select('status')
+      .eq('id', event.id)
+      .maybeSingle();
+    if (readError) throw new Error(`Failed to read Stripe event: ${readError.message}`);
+    // Released between our insert and now: let Stripe's retry claim it afresh
+    return row?.status === 'processed' ? 'processed' : 'processing';
+  }
+
+  async completeEvent(eventId: string): Promise<void> {
+    const { error } = await this.client()
+      .from('stripe_webhook_events')
+      .update({ status: 'processed', processed_at: new Date().toISOString() })
+      .eq('id', eventId);
+    if (error) throw new Error(`Failed to complete Stripe event: ${error.message}`);
+  }
+
+  async releaseEvent(eventId: string): Promise<void> {
+    const { error } = await this.client()
+      .from('stripe_webhook_events')
+      .delete()
+      .eq('id', eventId)
+      .eq('status', 'processing');
+    if (error) console.error('[stripe-webhook] Failed to release event:', error.message);
+  }
+
+  async findProfile(match: { userId?: string | null; customerId?: string | null }): Promise<StripeProfileRow | null> {
+    for (const [column, value] of [['id', match.userId], ['stripe_customer_id', match.customerId]] as const) {
+      if (!value) continue;
+      const { data, error } = await this.client()
+        .from('profiles')
+        .select(PROFILE_COLUMNS)
+        .eq(column, value)
+        .maybeSingle();
+      if (error) throw new Error(`Failed to fetch profile: ${error.message}`);
+      if (data) return data as StripeProfileRow;
+    }
+    return null;
+  }
+
+  async linkCustomer(userId: string, customerId: string): Promise<void> {
+    const { error } = await this.client()
+      .from('profiles')
+      .update({ stripe_customer_id: customerId })
+      .eq('id', userId);
+    if (error) throw new Error(`Failed to link Stripe customer: ${error.message}`);
+  }
+
+  async updateProfile(userId: string, update: StripeProfileUpdate): Promise<boolean> {
+    const { data, error } = await this.client()
+      .from('profiles')
+      .update(update)
+      .eq('id', userId)
+      .or(`stripe_synced_at.is.null,stripe_synced_at.lte."${update.stripe_synced_at}"`)
+      .select('id');
+    if (error) throw new Error(`Failed to update subscription: ${error.message}`);
+    return (data ?? []).length > 0;
+  }
+}
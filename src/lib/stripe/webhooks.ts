@@ -0,0 +1,464 @@
+/**
+ * Stripe Webhook Processing
+ *
+ * Shared `customer.subscription.*` handling for every app's webhook route.
+ * Events are signature-checked against the raw body, recorded by id so a
+ * redelivered event is applied once, and written to the `profiles` row that
+ * `useSubscription` listens to. Each row remembers the creation time of the
+ * last event applied to it, so an event that arrives after a newer one is
+ * dropped instead of rolling the subscription back.
+ *
+ * The route must receive the raw body:
+ * ```typescript
+ * // pages/api/stripe/webhook.ts
+ * import { createStripeWebhookHandler } from '@/lib/stripe/webhooks';
+ *
+ * export const config = { api: { bodyParser: false } };
+ * export default createStripeWebhookHandler({ app: 'findr' });
+ * ```
+ *
+ * @module lib/stripe/webhooks
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { NextApiHandler, NextApiRequest } from 'next';
+import type { AppId, ProfileSubscriptionRow } from '../subscriptions/entitlements';
+import { purchaseFromStripe, type StripeSubscriptionLike } from '../subscriptions/stores';
+
+/** Seconds a signature stays valid (Stripe's own default) */
+export const DEFAULT_SIGNATURE_TOLERANCE = 300;
+
+/**
+ * How long a claim on an event lasts. A claim still 'processing' after this
+ * was left by a run that died (timeout, crash) and can be taken over.
+ */
+export const DEFAULT_EVENT_LEASE_MS = 60 * 1000;
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  /** Unix seconds */
+  created: number;
+  livemode?: boolean;
+  data: { object: unknown; previous_attributes?: Record<string, unknown> };
+}
+
+export type StripeSubscriptionObject = StripeSubscriptionLike & {
+  customer: string | { id: string };
+  metadata?: Record<string, string>;
+};
+
+interface CheckoutSessionObject {
+  mode?: string;
+  client_reference_id?: string | null;
+  customer?: string | { id: string } | null;
+  subscription?: string | { id: string } | null;
+}
+
+/** Profile columns the webhook reads */
+export interface StripeProfileRow extends ProfileSubscriptionRow {
+  id: string;
+  stripe_customer_id?: string | null;
+  /** Creation time of the last Stripe event applied to the row */
+  stripe_synced_at?: string | null;
+}
+
+/** Profile columns the webhook writes */
+export interface StripeProfileUpdate {
+  subscription_status: 'free' | 'premium';
+  payment_platform: 'web';
+  stripe_customer_id: string | null;
+  stripe_subscription_id: string;
+  subscription_start_date: string | null;
+  subscription_end_date: string | null;
+  trial_ends_at: string | null;
+  stripe_synced_at: string;
+}
+
+export type StripeWebhookStatus = 'applied' | 'duplicate' | 'stale' | 'ignored';
+
+/**
+ * Outcome of claiming an event: `claimed` (new, or a lapsed claim taken
+ * over), `processing` (another delivery holds a live claim) or `processed`
+ */
+export type StripeEventClaim = 'claimed' | 'processing' | 'processed';
+
+export interface StripeWebhookResult {
+  status: StripeWebhookStatus;
+  eventId: string;
+  userId?: string;
+}
+
+export class StripeWebhookError extends Error {
+  /** HTTP status to answer with; anything but 2xx makes Stripe redeliver */
+  readonly statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'StripeWebhookError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Storage for processed events and the subscription columns of profiles.
+ *
+ * `claimEvent` must be atomic (one caller wins per event id, including when
+ * taking over a lapsed claim), and `updateProfile` must only write when the
+ * row's `stripe_synced_at` is not newer than the update's, checked in the
+ * same statement as the write.
+ */
+export interface StripeWebhookStore {
+  /** Record an event as being processed, unless it is done or claimed within the lease */
+  claimEvent(event: StripeEvent): Promise<StripeEventClaim>;
+  completeEvent(eventId: string): Promise<void>;
+  /** Forget a claimed event whose processing failed, so a redelivery can retry it */
+  releaseEvent(eventId: string): Promise<void>;
+
+  /** Profile by user id, falling back to the Stripe customer id */
+  findProfile(match: { userId?: string | null; customerId?: string | null }): Promise<StripeProfileRow | null>;
+  linkCustomer(userId: string, customerId: string): Promise<void>;
+  /** Apply an update unless the row already reflects a newer event; true when written */
+  updateProfile(userId: string, update: StripeProfileUpdate): Promise<boolean>;
+}
+
+/**
+ * Check a `Stripe-Signature` header and parse the event
+ *
+ * The header carries a timestamp and one or more `v1` HMAC-SHA256
+ * signatures of `${timestamp}.${payload}`. Several secrets can be passed
+ * while an endpoint secret is being rolled.
+ */
+export function verifyStripeSignature(
+  payload: string | Buffer,
+  header: string | string[] | undefined,
+  secrets: string | string[],
+  options: { toleranceSeconds?: number; now?: Date } = {}
+): StripeEvent {
+  const body = typeof payload === 'string' ? payload : payload.toString('utf8');
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value) throw new StripeWebhookError('Missing Stripe-Signature header', 400);
+
+  let timestamp = NaN;
+  const signatures: string[] = [];
+  for (const part of value.split(',')) {
+    const [key, item] = part.split('=', 2).map(s => s.trim());
+    if (key === 't') timestamp = Number(item);
+    else if (key === 'v1' && item) signatures.push(item);
+  }
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new StripeWebhookError('Malformed Stripe-Signature header', 400);
+  }
+
+  const matches = (Array.isArray(secrets) ? secrets : [secrets]).some(secret => {
+    const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest();
+    return signatures.some(signature => {
+      const actual = Buffer.from(signature, 'hex');
+      return actual.length === expected.length && timingSafeEqual(actual, expected);
+    });
+  });
+  if (!matches) throw new StripeWebhookError('No signature matches the payload', 400);
+
+  const now = (options.now ?? new Date()).getTime() / 1000;
+  if (Math.abs(now - timestamp) > (options.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE)) {
+    throw new StripeWebhookError('Signature timestamp outside the tolerance window', 400);
+  }
+
+  try {
+    return JSON.parse(body) as StripeEvent;
+  } catch {
+    throw new StripeWebhookError('Payload is not valid JSON', 400);
+  }
+}
+
+/**
+ * Build a `Stripe-Signature` header for a payload (tests and local replays)
+ */
+export function signStripePayload(payload: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+const idOf = (value: string | { id: string } | null | undefined): string | null =>
+  typeof value === 'string' ? value : value?.id ?? null;
+
+/** Purchase states that still give access when the event is sent */
+const PREMIUM_STATES = new Set(['active', 'trialing', 'canceled', 'grace_period']);
+
+/**
+ * Profile update for a subscription as of an event
+ */
+export function profileUpdateFromSubscription(
+  subscription: StripeSubscriptionObject,
+  eventCreated: number
+): StripeProfileUpdate {
+  const purchase = purchaseFromStripe(subscription);
+  return {
+    subscription_status: PREMIUM_STATES.has(purchase.state) ? 'premium' : 'free',
+    payment_platform: 'web',
+    stripe_customer_id: idOf(subscription.customer),
+    stripe_subscription_id: subscription.id,
+    subscription_start_date: purchase.startedAt ?? null,
+    // Past-due access ends with the grace period, not the unpaid period
+    subscription_end_date: (purchase.state === 'grace_period' ? purchase.gracePeriodEndsAt : purchase.expiresAt) ?? null,
+    trial_ends_at: purchase.trialEndsAt ?? null,
+    stripe_synced_at: new Date(eventCreated * 1000).toISOString(),
+  };
+}
+
+export interface ProcessStripeEventOptions {
+  store: StripeWebhookStore;
+  /**
+   * Fetch the current subscription instead of trusting the event payload.
+   * Makes late events write current state rather than being dropped.
+   */
+  retrieveSubscription?: ((subscriptionId: string) => Promise<StripeSubscriptionObject>) | null;
+}
+
+async function syncSubscription(
+  event: StripeEvent,
+  current: StripeSubscriptionObject,
+  store: StripeWebhookStore
+): Promise<StripeWebhookResult> {
+  const customerId = idOf(current.customer);
+  const profile = await store.findProfile({ userId: current.metadata?.user_id, customerId });
+  if (!profile) {
+    // Usually checkout.session.completed (which links the customer) has not arrived yet
+    throw new StripeWebhookError(`No profile linked to Stripe customer ${customerId}`, 503);
+  }
+
+  const update = profileUpdateFromSubscription(current, event.created);
+  if (profile.stripe_synced_at && Date.parse(profile.stripe_synced_at) > Date.parse(update.stripe_synced_at)) {
+    return { status: 'stale', eventId: event.id, userId: profile.id };
+  }
+
+  // An ended subscription must not downgrade a user whose premium comes from elsewhere
+  const premiumElsewhere =
+    profile.subscription_status === 'premium' &&
+    ((!!profile.payment_platform && profile.payment_platform !== 'web') ||
+      (!!profile.stripe_subscription_id && profile.stripe_subscription_id !== current.id));
+  if (update.subscription_status === 'free' && premiumElsewhere) {
+    return { status: 'ignored', eventId: event.id, userId: profile.id };
+  }
+
+  const written = await store.updateProfile(profile.id, update);
+  return { status: written ? 'applied' : 'stale', eventId: event.id, userId: profile.id };
+}
+
+async function applyEvent(event: StripeEvent, options: ProcessStripeEventOptions): Promise<StripeWebhookResult> {
+  const { store, retrieveSubscription } = options;
+  if (event.type.startsWith('customer.subscription.')) {
+    const subscription = event.data.object as StripeSubscriptionObject;
+    return syncSubscription(event, retrieveSubscription ? await retrieveSubscription(subscription.id) : subscription, store);
+  }
+
+  if (event.type === 'checkout.session.completed') {
+    const session = event.data.object as CheckoutSessionObject;
+    const userId = session.client_reference_id;
+    const customerId = idOf(session.customer);
+    if (session.mode !== 'subscription' || !userId || !customerId) {
+      return { status: 'ignored', eventId: event.id };
+    }
+    await store.linkCustomer(userId, customerId);
+
+    const subscriptionId = idOf(session.subscription);
+    if (subscriptionId && retrieveSubscription) {
+      return syncSubscription(event, await retrieveSubscription(subscriptionId), store);
+    }
+    return { status: 'applied', eventId: event.id, userId };
+  }
+
+  return { status: 'ignored', eventId: event.id };
+}
+
+/**
+ * Apply a verified event once
+ *
+ * A failed event is released again, so Stripe's redelivery can retry it. A
+ * redelivery that arrives while another is still processing the event gets
+ * a 409, not a 200, so Stripe keeps retrying until one of them finishes.
+ */
+export async function processStripeEvent(event: StripeEvent, options: ProcessStripeEventOptions): Promise<StripeWebhookResult> {
+  const { store } = options;
+  const claim = await store.claimEvent(event);
+  if (claim === 'processed') {
+    return { status: 'duplicate', eventId: event.id };
+  }
+  if (claim === 'processing') {
+    throw new StripeWebhookError(`Event ${event.id} is still being processed`, 409);
+  }
+
+  try {
+    const result = await applyEvent(event, options);
+    await store.completeEvent(event.id);
+    return result;
+  } catch (error) {
+    await store.releaseEvent(event.id);
+    throw error;
+  }
+}
+
+/**
+ * In-memory store, used for tests and local development.
+ * Node runs each call to completion, so check-then-write is atomic here.
+ */
+export class MemoryStripeWebhookStore implements StripeWebhookStore {
+  readonly events = new Map<string, { type: string; status: 'processing' | 'processed'; claimedAt: number }>();
+  readonly profiles = new Map<string, StripeProfileRow>();
+  private readonly leaseMs: number;
+
+  constructor(profiles: StripeProfileRow[] = [], options: { leaseMs?: number } = {}) {
+    for (const profile of profiles) this.profiles.set(profile.id, { ...profile });
+    this.leaseMs = options.leaseMs ?? DEFAULT_EVENT_LEASE_MS;
+  }
+
+  claimEvent(event: StripeEvent): Promise<StripeEventClaim> {
+    const existing = this.events.get(event.id);
+    if (existing?.status === 'processed') return Promise.resolve('processed');
+    if (existing && Date.now() - existing.claimedAt < this.leaseMs) return Promise.resolve('processing');
+    this.events.set(event.id, { type: event.type, status: 'processing', claimedAt: Date.now() });
+    return Promise.resolve('claimed');
+  }
+
+  completeEvent(eventId: string): Promise<void> {
+    const event = this.events.get(eventId);
+    if (event) event.status = 'processed';
+    return Promise.resolve();
+  }
+
+  releaseEvent(eventId: string): Promise<void> {
+    if (this.events.get(eventId)?.status === 'processing') this.events.delete(eventId);
+    return Promise.resolve();
+  }
+
+  findProfile(match: { userId?: string | null; customerId?: string | null }): Promise<StripeProfileRow | null> {
+    const byId = match.userId ? this.profiles.get(match.userId) : undefined;
+    const byCustomer = match.customerId
+      ? Array.from(this.profiles.values()).find(p => p.stripe_customer_id === match.customerId)
+      : undefined;
+    const profile = byId ?? byCustomer;
+    return Promise.resolve(profile ? { ...profile } : null);
+  }
+
+  linkCustomer(userId: string, customerId: string): Promise<void> {
+    const profile = this.profiles.get(userId);
+    if (profile) profile.stripe_customer_id = customerId;
+    return Promise.resolve();
+  }
+
+  updateProfile(userId: string, update: StripeProfileUpdate): Promise<boolean> {
+    const profile = this.profiles.get(userId);
+    if (!profile) return Promise.resolve(false);
+    if (profile.stripe_synced_at && Date.parse(profile.stripe_synced_at) > Date.parse(update.stripe_synced_at)) {
+      return Promise.resolve(false);
+    }
+    this.profiles.set(userId, { ...profile, ...update });
+    return Promise.resolve(true);
+  }
+}
+
+let store: StripeWebhookStore | null = null;
+
+/**
+ * Active webhook store: Supabase when configured, otherwise in-memory
+ */
+export async function getStripeWebhookStore(): Promise<StripeWebhookStore> {
+  if (!store) {
+    const hasSupabase = !!(process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL) &&
+      !!process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (hasSupabase) {
+      const { SupabaseStripeWebhookStore } = await import('./supabaseWebhookStore');
+      store = new SupabaseStripeWebhookStore();
+    } else {
+      console.warn('[stripe-webhook] Supabase service role not configured; using in-memory store');
+      store = new MemoryStripeWebhookStore();
+    }
+  }
+  return store;
+}
+
+/**
+ * Override the webhook store (tests, or a different backend)
+ */
+export function setStripeWebhookStore(next: StripeWebhookStore | null): void {
+  store = next;
+}
+
+export interface StripeWebhookHandlerOptions {
+  /** App whose Stripe client fetches current subscriptions */
+  app: AppId;
+  /** Endpoint signing secret(s); defaults to STRIPE_WEBHOOK_SECRET */
+  secret?: string | string[];
+  store?: StripeWebhookStore;
+  /**
+   * Defaults to retrieving through the app's Stripe client; pass null to
+   * use event payloads as delivered
+   */
+  retrieveSubscription?: ProcessStripeEventOptions['retrieveSubscription'];
+  toleranceSeconds?: number;
+  /** Called after each processed (non-duplicate) event, e.g. for analytics */
+  onEvent?: (event: StripeEvent, result: StripeWebhookResult) => void | Promise<void>;
+}
+
+async function readRawBody(req: NextApiRequest): Promise<string> {
+  if (typeof req.body === 'string') return req.body;
+  if (Buffer.isBuffer(req.body)) return req.body.toString('utf8');
+  if (req.body !== undefined && req.body !== null) {
+    throw new StripeWebhookError('Body was already parsed; set `export const config = { api: { bodyParser: false } }`', 400);
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Next.js API route handler for Stripe webhooks
+ *
+ * Answers 400 for bad signatures, 409 for an event another delivery is still
+ * processing, 503 for events that should be retried (e.g. a subscription
+ * for a customer not yet linked to a profile) and 500 for unexpected
+ * failures; Stripe redelivers anything but 2xx.
+ */
+export function createStripeWebhookHandler(options: StripeWebhookHandlerOptions): NextApiHandler {
+  const retrieveSubscription = options.retrieveSubscription !== undefined
+    ? options.retrieveSubscription
+    : async (subscriptionId: string) => {
+      const { getStripeServer } = await import('./server');
+      return (await getStripeServer(options.app).subscriptions.retrieve(subscriptionId)) as StripeSubscriptionObject;
+    };
+
+  return async (req, res) => {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const secret = options.secret ?? process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret || secret.length === 0) {
+      console.error('[stripe-webhook] STRIPE_WEBHOOK_SECRET is not defined');
+      return res.status(500).json({ error: 'Webhook secret not configured' });
+    }
+
+    try {
+      const event = verifyStripeSignature(await readRawBody(req), req.headers['stripe-signature'], secret, {
+        toleranceSeconds: options.toleranceSeconds,
+      });
+      const result = await processStripeEvent(event, {
+        store: options.store ?? (await getStripeWebhookStore()),
+        retrieveSubscription,
+      });
+      if (result.status !== 'duplicate') await options.onEvent?.(event, result);
+      return res.status(200).json({ received: true, status: result.status });
+    } catch (error) {
+      if (error instanceof StripeWebhookError) {
+        console.warn(`[stripe-webhook] ${error.message}`);
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('[stripe-webhook] Failed to process event:', error);
+      return res.status(500).json({ error: 'Webhook processing failed' });
+    }
+  };
+}
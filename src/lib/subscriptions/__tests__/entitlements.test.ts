@@ -0,0 +1,149 @@
+/**
+ * Tests for subscription entitlements and the store mappers
+ */
+
+import {
+  ProductCatalog,
+  entitledApps,
+  hasEntitlement,
+  purchaseFromProfile,
+  resolveEntitlements,
+  type Purchase,
+} from '../entitlements';
+import { purchaseFromAppStore, purchaseFromPlay, purchaseFromStripe } from '../stores';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+const unix = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+
+function makeCatalog(): ProductCatalog {
+  const catalog = new ProductCatalog();
+  catalog.registerAll({
+    price_findr_monthly: { apps: ['findr'] },
+    'com.godaisy.plus': { apps: ['godaisy'], features: ['godaisy:extended_forecast'], familyShareable: true },
+    'findr.pro': { apps: ['findr'] },
+  });
+  return catalog;
+}
+
+describe('lib/subscriptions/entitlements', () => {
+  it('grants trial, active and grace access and prefers the strongest', () => {
+    const catalog = makeCatalog();
+    const trial: Purchase = {
+      store: 'stripe',
+      productId: 'price_findr_monthly',
+      state: 'trialing',
+      trialEndsAt: '2025-06-08T00:00:00Z',
+    };
+    const grace: Purchase = {
+      store: 'play_store',
+      productId: 'findr.pro',
+      state: 'grace_period',
+      gracePeriodEndsAt: '2025-06-03T00:00:00Z',
+    };
+
+    const trialOnly = resolveEntitlements([trial], { now: NOW, catalog });
+    expect(trialOnly.grants.every(g => g.status === 'trial' && g.app === 'findr')).toBe(true);
+    expect(hasEntitlement(trialOnly, 'findr:catch_insights', NOW)).toBe(true);
+    expect(hasEntitlement(trialOnly, 'godaisy:ad_free', NOW)).toBe(false);
+
+    const both = resolveEntitlements([trial, grace], { now: NOW, catalog });
+    const grant = both.grants.find(g => g.feature === 'findr:catch_insights');
+    expect(grant?.status).toBe('grace');
+    expect(grant?.store).toBe('play_store');
+  });
+
+  it('keeps canceled subscriptions until the period ends and expires cached grants', () => {
+    const catalog = makeCatalog();
+    const canceled: Purchase = {
+      store: 'stripe',
+      productId: 'price_findr_monthly',
+      state: 'canceled',
+      expiresAt: '2025-06-10T00:00:00Z',
+    };
+    const snapshot = resolveEntitlements([canceled], { now: NOW, catalog });
+
+    expect(hasEntitlement(snapshot, 'findr:offline_maps', NOW)).toBe(true);
+    expect(hasEntitlement(snapshot, 'findr:offline_maps', new Date('2025-06-11T00:00:00Z'))).toBe(false);
+    expect(entitledApps(snapshot, NOW)).toEqual(['findr']);
+    expect(resolveEntitlements([canceled], { now: new Date('2025-06-11T00:00:00Z'), catalog }).grants).toEqual([]);
+  });
+
+  it('only honours family sharing for shareable products', () => {
+    const catalog = makeCatalog();
+    const shared = (productId: string): Purchase => ({
+      store: 'app_store',
+      productId,
+      state: 'active',
+      expiresAt: '2025-07-01T00:00:00Z',
+      familyShared: true,
+    });
+    const snapshot = resolveEntitlements([shared('com.godaisy.plus'), shared('findr.pro')], { now: NOW, catalog });
+
+    expect(snapshot.grants.map(g => g.feature)).toEqual(['godaisy:extended_forecast']);
+    expect(snapshot.grants[0].familyShared).toBe(true);
+  });
+
+  it('maps Stripe, App Store and Play subscriptions to purchases', () => {
+    const pastDue = purchaseFromStripe({
+      id: 'sub_1',
+      status: 'past_due',
+      items: {
+        data: [{
+          price: { id: 'price_findr_monthly' },
+          current_period_start: unix('2025-05-30T00:00:00Z'),
+          current_period_end: unix('2025-06-30T00:00:00Z'),
+        }],
+      },
+    });
+    expect(pastDue.state).toBe('grace_period');
+    expect(pastDue.gracePeriodEndsAt).toBe('2025-06-06T00:00:00.000Z');
+
+    const ending = purchaseFromStripe({
+      id: 'sub_2',
+      status: 'active',
+      cancel_at_period_end: true,
+      current_period_end: unix('2025-06-30T00:00:00Z'),
+      items: { data: [{ price: { id: 'price_findr_monthly' } }] },
+    });
+    expect(ending.state).toBe('canceled');
+    expect(ending.expiresAt).toBe('2025-06-30T00:00:00.000Z');
+
+    const appStore = purchaseFromAppStore(
+      {
+        productId: 'com.godaisy.plus',
+        originalTransactionId: '1000',
+        expiresDate: Date.parse('2025-05-31T00:00:00Z'),
+        inAppOwnershipType: 'FAMILY_SHARED',
+      },
+      { isInBillingRetryPeriod: true, gracePeriodExpiresDate: Date.parse('2025-06-05T00:00:00Z') },
+      NOW
+    );
+    expect(appStore.state).toBe('grace_period');
+    expect(appStore.familyShared).toBe(true);
+
+    const play = purchaseFromPlay(
+      {
+        subscriptionState: 'SUBSCRIPTION_STATE_ACTIVE',
+        lineItems: [{ productId: 'findr.pro', expiryTime: '2025-06-08T00:00:00Z', offerPhase: { freeTrial: {} } }],
+      },
+      'token-1'
+    );
+    expect(play.state).toBe('trialing');
+    expect(play.trialEndsAt).toBe('2025-06-08T00:00:00Z');
+    expect(play.originalTransactionId).toBe('token-1');
+  });
+
+  it('resolves legacy premium profiles to every app', () => {
+    expect(purchaseFromProfile({ subscription_status: 'free' })).toBeNull();
+
+    const purchase = purchaseFromProfile({
+      subscription_status: 'premium',
+      payment_platform: 'ios',
+      subscription_end_date: '2025-12-31T00:00:00Z',
+    });
+    expect(purchase?.store).toBe('app_store');
+
+    const snapshot = resolveEntitlements([purchase!], { now: NOW, catalog: new ProductCatalog() });
+    expect(entitledApps(snapshot, NOW)).toEqual(['godaisy', 'findr', 'growdaisy']);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Subscription Entitlements
+ *
+ * Maps purchases from any store (Stripe on the web, the App Store on iOS,
+ * Google Play on Android) to per-app feature entitlements. A purchase is a
+ * store-neutral record of one subscription; the product catalog says which
+ * apps and features each product unlocks. Resolving purchases yields an
+ * entitlement snapshot that can be cached and checked offline, because every
+ * grant carries its own expiry.
+ *
+ * @module lib/subscriptions/entitlements
+ */
+
+export type AppId = 'godaisy' | 'findr' | 'growdaisy';
+export type PaymentPlatform = 'web' | 'ios' | 'android';
+export type PurchaseStore = 'stripe' | 'app_store' | 'play_store';
+
+/**
+ * Features each app can gate. Keys are namespaced by app so one snapshot can
+ * hold entitlements for all three apps.
+ */
+export const APP_FEATURES = {
+  godaisy: ['godaisy:extended_forecast', 'godaisy:multi_location', 'godaisy:activity_alerts', 'godaisy:ad_free'],
+  findr: ['findr:premium_predictions', 'findr:catch_insights', 'findr:offline_maps', 'findr:species_alerts'],
+  growdaisy: ['growdaisy:task_engine', 'growdaisy:disease_alerts', 'growdaisy:garden_plans'],
+} as const satisfies Record<AppId, readonly string[]>;
+
+export type EntitlementFeature = (typeof APP_FEATURES)[AppId][number];
+
+/**
+ * Store-neutral subscription state
+ *
+ * - `canceled`: will not renew, but access runs to `expiresAt`
+ * - `grace_period`: renewal failed, access kept until `gracePeriodEndsAt`
+ * - `billing_retry`: renewal failed and the store is retrying; no access
+ *   unless a grace period is also set
+ * - `pending`: first payment not yet confirmed; no access
+ */
+export type PurchaseState =
+  | 'active'
+  | 'trialing'
+  | 'canceled'
+  | 'grace_period'
+  | 'billing_retry'
+  | 'paused'
+  | 'pending'
+  | 'expired'
+  | 'refunded';
+
+export interface Purchase {
+  store: PurchaseStore;
+  /** Stripe price id, App Store product id or Play subscription id */
+  productId: string;
+  state: PurchaseState;
+  /** Store's stable id for the subscription (Stripe subscription, original transaction, purchase token) */
+  originalTransactionId?: string | null;
+  startedAt?: string | null;
+  /** End of the current paid (or trial) period */
+  expiresAt?: string | null;
+  trialEndsAt?: string | null;
+  gracePeriodEndsAt?: string | null;
+  /** Shared by a family organiser (App Store Family Sharing / Play Family Library) */
+  familyShared?: boolean;
+}
+
+export interface ProductDefinition {
+  apps: AppId[];
+  /** Features granted; defaults to every feature of `apps` */
+  features?: EntitlementFeature[];
+  /** Whether family members receive the entitlements too */
+  familyShareable?: boolean;
+}
+
+export type GrantStatus = 'active' | 'trial' | 'grace';
+
+export interface EntitlementGrant {
+  feature: EntitlementFeature;
+  app: AppId;
+  status: GrantStatus;
+  store: PurchaseStore;
+  productId: string;
+  /** When the grant lapses; null for non-expiring (lifetime) purchases */
+  expiresAt: string | null;
+  familyShared: boolean;
+}
+
+export interface EntitlementSnapshot {
+  grants: EntitlementGrant[];
+  resolvedAt: string;
+}
+
+/** Product id profiles rows resolve to (the original single 'premium' tier) */
+export const LEGACY_PREMIUM_PRODUCT = 'premium';
+
+const ALL_APPS = Object.keys(APP_FEATURES) as AppId[];
+const STATUS_RANK: Record<GrantStatus, number> = { active: 3, grace: 2, trial: 1 };
+
+/**
+ * Which apps and features each product unlocks
+ *
+ * Starts with the legacy premium product (every feature of every app); apps
+ * register their own Stripe prices and store product ids at start-up.
+ */
+export class ProductCatalog {
+  private products = new Map<string, ProductDefinition>([
+    [LEGACY_PREMIUM_PRODUCT, { apps: ALL_APPS, familyShareable: true }],
+  ]);
+
+  register(productId: string, definition: ProductDefinition): void {
+    this.products.set(productId, definition);
+  }
+
+  registerAll(products: Record<string, ProductDefinition>): void {
+    for (const [productId, definition] of Object.entries(products)) this.register(productId, definition);
+  }
+
+  get(productId: string): ProductDefinition | undefined {
+    return this.products.get(productId);
+  }
+
+  /** Features a product grants, paired with their app */
+  featuresOf(productId: string): Array<{ app: AppId; feature: EntitlementFeature }> {
+    const definition = this.products.get(productId);
+    if (!definition) return [];
+    return definition.apps.flatMap(app =>
+      (APP_FEATURES[app] as readonly EntitlementFeature[])
+        .filter(feature => !definition.features || definition.features.includes(feature))
+        .map(feature => ({ app, feature }))
+    );
+  }
+}
+
+let catalog: ProductCatalog | null = null;
+
+export function getProductCatalog(): ProductCatalog {
+  if (!catalog) catalog = new ProductCatalog();
+  return catalog;
+}
+
+const isFuture = (iso: string | null | undefined, now: number) => !!iso && new Date(iso).getTime() > now;
+
+/**
+ * Access a purchase gives right now, or null when it gives none
+ */
+function purchaseAccess(purchase: Purchase, now: number): { status: GrantStatus; expiresAt: string | null } | null {
+  const graceAccess = () =>
+    isFuture(purchase.gracePeriodEndsAt, now) ? { status: 'grace' as const, expiresAt: purchase.gracePeriodEndsAt! } : null;
+
+  switch (purchase.state) {
+    case 'trialing': {
+      const end = purchase.trialEndsAt ?? purchase.expiresAt ?? null;
+      return isFuture(end, now) ? { status: 'trial', expiresAt: end } : graceAccess();
+    }
+    case 'active':
+    case 'canceled':
+      if (!purchase.expiresAt) return purchase.state === 'active' ? { status: 'active', expiresAt: null } : null;
+      if (isFuture(purchase.expiresAt, now)) {
+        // Still inside a trial that converts to paid at trialEndsAt
+        const status = isFuture(purchase.trialEndsAt, now) ? 'trial' : 'active';
+        return { status, expiresAt: purchase.expiresAt };
+      }
+      return graceAccess();
+    case 'grace_period':
+    case 'billing_retry':
+      return graceAccess();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolve purchases into feature grants
+ *
+ * Family-shared purchases only count for products marked shareable. When
+ * several purchases grant the same feature, the strongest status wins
+ * (active over grace over trial), then the latest expiry.
+ */
+export function resolveEntitlements(
+  purchases: Purchase[],
+  options: { now?: Date; catalog?: ProductCatalog } = {}
+): EntitlementSnapshot {
+  const now = (options.now ?? new Date()).getTime();
+  const products = options.catalog ?? getProductCatalog();
+  const best = new Map<EntitlementFeature, EntitlementGrant>();
+
+  for (const purchase of purchases) {
+    if (purchase.familyShared && !products.get(purchase.productId)?.familyShareable) continue;
+    const access = purchaseAccess(purchase, now);
+    if (!access) continue;
+
+    for (const { app, feature } of products.featuresOf(purchase.productId)) {
+      const grant: EntitlementGrant = {
+        feature,
+        app,
+        status: access.status,
+        store: purchase.store,
+        productId: purchase.productId,
+        expiresAt: access.expiresAt,
+        familyShared: !!purchase.familyShared,
+      };
+      const current = best.get(feature);
+      const expiry = (g: EntitlementGrant) => (g.expiresAt ? new Date(g.expiresAt).getTime() : Infinity);
+      if (
+        !current ||
+        STATUS_RANK[grant.status] > STATUS_RANK[current.status] ||
+        (grant.status === current.status && expiry(grant) > expiry(current))
+      ) {
+        best.set(feature, grant);
+      }
+    }
+  }
+
+  return { grants: Array.from(best.values()), resolvedAt: new Date(now).toISOString() };
+}
+
+/**
+ * Grant for a feature that is still valid at `now`
+ *
+ * Checks the grant's own expiry, so a cached snapshot stops granting access
+ * on time even when it cannot be refreshed.
+ */
+export function findEntitlement(
+  snapshot: EntitlementSnapshot | null | undefined,
+  feature: EntitlementFeature,
+  now: Date = new Date()
+): EntitlementGrant | null {
+  const grant = snapshot?.grants.find(g => g.feature === feature);
+  if (!grant) return null;
+  return grant.expiresAt === null || new Date(grant.expiresAt).getTime() > now.getTime() ? grant : null;
+}
+
+export function hasEntitlement(
+  snapshot: EntitlementSnapshot | null | undefined,
+  feature: EntitlementFeature,
+  now?: Date
+): boolean {
+  return findEntitlement(snapshot, feature, now) !== null;
+}
+
+/** Apps with at least one valid grant */
+export function entitledApps(snapshot: EntitlementSnapshot | null | undefined, now?: Date): AppId[] {
+  const apps = new Set<AppId>();
+  for (const grant of snapshot?.grants ?? []) {
+    if (findEntitlement(snapshot, grant.feature, now)) apps.add(grant.app);
+  }
+  return ALL_APPS.filter(app => apps.has(app));
+}
+
+const PLATFORM_STORE: Record<PaymentPlatform, PurchaseStore> = { web: 'stripe', ios: 'app_store', android: 'play_store' };
+
+/** Subscription columns of a `profiles` row */
+export interface ProfileSubscriptionRow {
+  subscription_status?: string | null;
+  payment_platform?: string | null;
+  stripe_subscription_id?: string | null;
+  subscription_start_date?: string | null;
+  subscription_end_date?: string | null;
+  trial_ends_at?: string | null;
+}
+
+/**
+ * Purchase recorded on a `profiles` row (the legacy 'free' | 'premium' model)
+ */
+export function purchaseFromProfile(row: ProfileSubscriptionRow): Purchase | null {
+  if (row.subscription_status !== 'premium') return null;
+  const platform = (row.payment_platform ?? 'web') as PaymentPlatform;
+  return {
+    store: PLATFORM_STORE[platform] ?? 'stripe',
+    productId: LEGACY_PREMIUM_PRODUCT,
+    state: 'active',
+    originalTransactionId: row.stripe_subscription_id ?? null,
+    startedAt: row.subscription_start_date ?? null,
+    expiresAt: row.subscription_end_date ?? null,
+    trialEndsAt: row.trial_ends_at ?? null,
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Store Purchase Mapping
+ *
+ * Converts Stripe subscriptions, App Store transactions (decoded from the
+ * App Store Server API / notification JWS) and Google Play subscriptions
+ * (Play Developer API subscriptionsv2) into store-neutral purchases.
+ * Only the fields used here are typed, so callers can pass the SDK objects
+ * or raw webhook JSON.
+ *
+ * @module lib/subscriptions/stores
+ */
+
+import type { Purchase, PurchaseState } from './entitlements';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const fromUnixSeconds = (seconds: number | null | undefined) =>
+  typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : null;
+const fromMillis = (ms: number | null | undefined) =>
+  typeof ms === 'number' ? new Date(ms).toISOString() : null;
+
+export interface StripeSubscriptionLike {
+  id: string;
+  status: 'active' | 'trialing' | 'past_due' | 'canceled' | 'unpaid' | 'incomplete' | 'incomplete_expired' | 'paused';
+  cancel_at_period_end?: boolean;
+  start_date?: number;
+  /** Period fields sit on the subscription in older API versions and on the items in newer ones */
+  current_period_start?: number;
+  current_period_end?: number;
+  trial_end?: number | null;
+  items: {
+    data: Array<{
+      price: { id: string };
+      current_period_start?: number;
+      current_period_end?: number;
+    }>;
+  };
+}
+
+/**
+ * Purchase from a Stripe subscription
+ *
+ * Stripe has no grace period of its own; a `past_due` subscription keeps
+ * access for `graceDays` (default 7) from the start of the unpaid period
+ * while Smart Retries run.
+ */
+export function purchaseFromStripe(subscription: StripeSubscriptionLike, options: { graceDays?: number } = {}): Purchase {
+  const item = subscription.items.data[0];
+  const periodStart = item?.current_period_start ?? subscription.current_period_start;
+  const periodEnd = item?.current_period_end ?? subscription.current_period_end;
+
+  let state: PurchaseState;
+  let gracePeriodEndsAt: string | null = null;
+  switch (subscription.status) {
+    case 'trialing':
+      state = 'trialing';
+      break;
+    case 'active':
+      state = subscription.cancel_at_period_end ? 'canceled' : 'active';
+      break;
+    case 'past_due':
+      state = 'grace_period';
+      gracePeriodEndsAt = typeof periodStart === 'number'
+        ? new Date(periodStart * 1000 + (options.graceDays ?? 7) * DAY_MS).toISOString()
+        : null;
+      break;
+    case 'paused':
+      state = 'paused';
+      break;
+    case 'incomplete':
+      state = 'pending';
+      break;
+    default:
+      state = 'expired'; // canceled (ended), unpaid, incomplete_expired
+  }
+
+  return {
+    store: 'stripe',
+    productId: item?.price.id ?? '',
+    state,
+    originalTransactionId: subscription.id,
+    startedAt: fromUnixSeconds(subscription.start_date),
+    expiresAt: fromUnixSeconds(periodEnd),
+    trialEndsAt: fromUnixSeconds(subscription.trial_end),
+    gracePeriodEndsAt,
+  };
+}
+
+export interface AppStoreTransactionLike {
+  productId: string;
+  originalTransactionId: string;
+  purchaseDate?: number;
+  expiresDate?: number;
+  revocationDate?: number;
+  inAppOwnershipType?: 'PURCHASED' | 'FAMILY_SHARED';
+  /** 'FREE_TRIAL' for introductory free trials */
+  offerDiscountType?: string;
+}
+
+export interface AppStoreRenewalInfoLike {
+  autoRenewStatus?: 0 | 1;
+  isInBillingRetryPeriod?: boolean;
+  gracePeriodExpiresDate?: number;
+}
+
+/**
+ * Purchase from an App Store transaction and its renewal info
+ */
+export function purchaseFromAppStore(
+  transaction: AppStoreTransactionLike,
+  renewalInfo: AppStoreRenewalInfoLike = {},
+  now: Date = new Date()
+): Purchase {
+  const expiresAt = fromMillis(transaction.expiresDate);
+  const expired = typeof transaction.expiresDate === 'number' && transaction.expiresDate <= now.getTime();
+  const trial = transaction.offerDiscountType === 'FREE_TRIAL';
+
+  let state: PurchaseState;
+  if (transaction.revocationDate) state = 'refunded';
+  else if (!expired) state = renewalInfo.autoRenewStatus === 0 ? 'canceled' : trial ? 'trialing' : 'active';
+  else if (renewalInfo.isInBillingRetryPeriod) state = renewalInfo.gracePeriodExpiresDate ? 'grace_period' : 'billing_retry';
+  else state = 'expired';
+
+  return {
+    store: 'app_store',
+    productId: transaction.productId,
+    state,
+    originalTransactionId: transaction.originalTransactionId,
+    startedAt: fromMillis(transaction.purchaseDate),
+    expiresAt,
+    trialEndsAt: trial ? expiresAt : null,
+    gracePeriodEndsAt: fromMillis(renewalInfo.gracePeriodExpiresDate),
+    familyShared: transaction.inAppOwnershipType === 'FAMILY_SHARED',
+  };
+}
+
+export interface PlaySubscriptionLike {
+  subscriptionState: string;
+  startTime?: string;
+  lineItems: Array<{
+    productId: string;
+    expiryTime?: string;
+    offerPhase?: { freeTrial?: object };
+  }>;
+}
+
+const PLAY_STATES: Record<string, PurchaseState> = {
+  SUBSCRIPTION_STATE_ACTIVE: 'active',
+  SUBSCRIPTION_STATE_CANCELED: 'canceled',
+  SUBSCRIPTION_STATE_IN_GRACE_PERIOD: 'grace_period',
+  SUBSCRIPTION_STATE_ON_HOLD: 'billing_retry',
+  SUBSCRIPTION_STATE_PAUSED: 'paused',
+  SUBSCRIPTION_STATE_PENDING: 'pending',
+  SUBSCRIPTION_STATE_EXPIRED: 'expired',
+  SUBSCRIPTION_STATE_PENDING_PURCHASE_CANCELED: 'expired',
+};
+
+/**
+ * Purchase from a Google Play subscription (the purchase token identifies it)
+ *
+ * During a grace period Play extends the line item's expiry to the end of
+ * the grace period, so that is used as the grace end.
+ */
+export function purchaseFromPlay(subscription: PlaySubscriptionLike, purchaseToken?: string): Purchase {
+  const item = subscription.lineItems[0];
+  const trial = !!item?.offerPhase?.freeTrial;
+  let state = PLAY_STATES[subscription.subscriptionState] ?? 'expired';
+  if (state === 'active' && trial) state = 'trialing';
+  const expiresAt = item?.expiryTime ?? null;
+
+  return {
+    store: 'play_store',
+    productId: item?.productId ?? '',
+    state,
+    originalTransactionId: purchaseToken ?? null,
+    startedAt: subscription.startTime ?? null,
+    expiresAt,
+    trialEndsAt: trial ? expiresAt : null,
+    gracePeriodEndsAt: state === 'grace_period' ? expiresAt : null,
+  };
+}
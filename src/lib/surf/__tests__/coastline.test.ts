@@ -0,0 +1,97 @@
+/**
+ * Tests for coastline bearings and the orientation resolver
+ */
+
+import path from 'path';
+import { CoastlineError, findCoastlineBearing, parseCoastline } from '../coastline';
+import { loadCoastlineFile } from '../coastlineFile';
+import {
+  classifyWindRelative,
+  computeSimulatedOrientation,
+  resolveBeachOrientationAsync,
+  setCoastlineSource,
+} from '../orientation';
+
+const FIXTURE = path.join(__dirname, '..', '__fixtures__', 'coastline.geojson');
+
+describe('lib/surf/coastline', () => {
+  it('faces the sea side of the nearest shoreline', async () => {
+    const dataset = await loadCoastlineFile(FIXTURE);
+    const bearing = findCoastlineBearing(dataset, 43.505, -5.5)!;
+
+    expect(bearing.bearingDeg).toBe(0);
+    expect(bearing.distanceKm).toBeCloseTo(0.553, 2);
+    expect(bearing.confidence).toBe(0.99);
+    expect(bearing.nearestPoint.lat).toBeCloseTo(43.5, 6);
+  });
+
+  it('winds polygon rings so land stays on the left', async () => {
+    const dataset = await loadCoastlineFile(FIXTURE);
+
+    expect(findCoastlineBearing(dataset, 44.05, -3.89)?.bearingDeg).toBe(90);
+    expect(findCoastlineBearing(dataset, 43.99, -3.95)?.bearingDeg).toBe(180);
+  });
+
+  it('averages nearby segments and lowers confidence around corners', () => {
+    const dataset = parseCoastline([[[0, 0.1], [0, 0], [0.1, 0]]]); // land to the north-east
+    const corner = findCoastlineBearing(dataset, -0.001, -0.001)!;
+
+    expect(corner.bearingDeg).toBe(225);
+    expect(corner.confidence).toBeLessThan(0.8);
+
+    // Beside the headland only the western shore is close enough to average, but the coast turns within 2 km
+    const beside = findCoastlineBearing(dataset, 0.01, -0.005)!;
+    expect(beside.bearingDeg).toBe(270);
+    expect(beside.confidence).toBe(0);
+    expect(findCoastlineBearing(dataset, 0.01, -0.005, { bendKm: 0.5 })!.confidence).toBeGreaterThan(0.8);
+    expect(findCoastlineBearing(dataset, 1, 1)).toBeNull();
+    expect(() => parseCoastline({ type: 'Point', coordinates: [0, 0] })).toThrow(CoastlineError);
+  });
+});
+
+describe('lib/surf/orientation', () => {
+  it('resolves from the coastline and caches per coordinate', async () => {
+    let loads = 0;
+    setCoastlineSource(async () => {
+      loads++;
+      return loadCoastlineFile(FIXTURE);
+    });
+
+    try {
+      const resolved = await resolveBeachOrientationAsync({ lat: 43.505, lon: -5.5 });
+      expect(resolved).toEqual({ orientation: 0, source: 'coastline', confidence: 0.99, distanceKm: 0.553 });
+      await resolveBeachOrientationAsync({ lat: 43.5051, lon: -5.5001 });
+      expect(loads).toBe(1);
+
+      expect(await resolveBeachOrientationAsync({ lat: 45, lon: -5.5 })).toEqual({ orientation: null, source: 'unknown' });
+    } finally {
+      setCoastlineSource(null);
+    }
+  });
+
+  it('estimates a rough facing from the loaded coastline further out', async () => {
+    setCoastlineSource(() => loadCoastlineFile(FIXTURE));
+
+    try {
+      expect(computeSimulatedOrientation(43.6, -5.5)).toBeNull(); // Nothing loaded yet
+      expect((await resolveBeachOrientationAsync({ lat: 43.6, lon: -5.5 })).orientation).toBeNull();
+      expect(computeSimulatedOrientation(43.6, -5.5)).toBe(0);
+      expect(computeSimulatedOrientation(45, -5.5)).toBeNull();
+      expect(classifyWindRelative(0, 180)).toBe('offshore');
+      expect(classifyWindRelative(0, 20)).toBe('onshore');
+    } finally {
+      setCoastlineSource(null);
+    }
+  });
+
+  it('uses the bundled worldwide coastline by default', async () => {
+    const bondi = await resolveBeachOrientationAsync({ lat: -33.891, lon: 151.277 });
+    expect(bondi).toMatchObject({ orientation: 96, source: 'coastline' });
+
+    expect((await resolveBeachOrientationAsync({ lat: 43.66, lon: -1.445 })).orientation).toBe(283); // Hossegor
+    expect((await resolveBeachOrientationAsync({ lat: 21.665, lon: -158.053 })).orientation).toBe(316); // Pipeline
+    // Supertubos sits where the 1:50m outline turns round the Peniche headland
+    expect((await resolveBeachOrientationAsync({ lat: 39.345, lon: -9.365 })).confidence).toBeLessThan(0.5);
+    expect(await resolveBeachOrientationAsync({ lat: 45, lon: -30 })).toEqual({ orientation: null, source: 'unknown' });
+  });
+});
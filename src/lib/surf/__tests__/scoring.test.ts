@@ -0,0 +1,104 @@
+/**
+ * Tests for the surf scoring engine and orientation overrides
+ */
+
+import { gradeDay, gradeHour, toDayMarine, type SurfHour } from '../scoring';
+import { resolveBeachOrientationAsync, saveBeachOrientationOverride } from '../orientation';
+import type { MarineHourlyPoint } from '../../../types/weather';
+
+const WEST_FACING = 270;
+
+function hour(ts: string, heightM: number, periodS: number, windKt: number, windFrom: number): SurfHour {
+  return {
+    ts,
+    primary: { heightM, periodS, directionDeg: 280 },
+    wind: { speedKt: windKt, directionDeg: windFrom },
+  };
+}
+
+describe('lib/surf/scoring', () => {
+  it('scores wind relative to the beach orientation', () => {
+    const offshore = gradeHour(hour('2025-06-01T08:00:00Z', 1.2, 11, 12, 90), { beachFacingDeg: WEST_FACING });
+    const onshore = gradeHour(hour('2025-06-01T08:00:00Z', 1.2, 11, 12, 270), { beachFacingDeg: WEST_FACING });
+
+    expect(offshore.windRelative).toBe('offshore');
+    expect(offshore.light).toBe('green');
+    expect(onshore.windRelative).toBe('onshore');
+    expect(onshore.score).toBeLessThan(offshore.score);
+    expect(onshore.reasons.some(r => r.startsWith('Onshore wind'))).toBe(true);
+  });
+
+  it('grades the same surf differently by skill level', () => {
+    const overhead = hour('2025-06-01T08:00:00Z', 2.5, 14, 3, 90);
+
+    expect(gradeHour(overhead, { skill: 'advanced', beachFacingDeg: WEST_FACING }).light).toBe('green');
+    const novice = gradeHour(overhead, { skill: 'novice', beachFacingDeg: WEST_FACING });
+    expect(novice.light).toBe('red');
+    expect(novice.reasons[0]).toContain('not safe for novice');
+  });
+
+  it('needs the light to hold for two hours to give the day that light', () => {
+    const day = gradeDay({
+      beachFacingDeg: WEST_FACING,
+      hours: [
+        hour('2025-06-01T07:00:00Z', 1.2, 11, 4, 90),
+        hour('2025-06-01T08:00:00Z', 1.2, 11, 25, 270),
+        hour('2025-06-01T09:00:00Z', 1.2, 11, 25, 270),
+      ],
+    });
+
+    expect(day.bestHour?.ts).toBe('2025-06-01T07:00:00Z');
+    expect(day.bestHour?.light).toBe('green');
+    expect(day.hours[1].light).toBe('red');
+    expect(day.dayLight).toBe('amber');
+    expect(gradeDay({ hours: [] })).toEqual({ hours: [], bestHour: null, dayLight: 'red' });
+  });
+
+  it('builds hours from marine points and interpolates the tide', () => {
+    const points: MarineHourlyPoint[] = [
+      { timeISO: '2025-06-01T03:00:00Z', swellHeightM: 1.1, swellPeriodS: 10, swellDirectionDeg: 275, windKts: 8, windDirection: 90 },
+      { timeISO: '2025-06-01T04:00:00Z', waveM: 0.9, wavePeriodS: 7, windKts: 8, windDirection: 90 },
+    ];
+    const day = toDayMarine(points, {
+      beachFacingDeg: WEST_FACING,
+      tides: [
+        { timeISO: '2025-06-01T00:00:00Z', type: 'LOW', heightM: 0.5 },
+        { timeISO: '2025-06-01T06:00:00Z', type: 'HIGH', heightM: 4.5 },
+      ],
+    });
+
+    expect(day.tideProfile).toEqual({ minM: 0.5, maxM: 4.5 });
+    expect(day.hours[0].primary).toEqual({ heightM: 1.1, periodS: 10, directionDeg: 275 });
+    expect(day.hours[0].tide?.tideHeightM).toBeCloseTo(2.5, 6); // half way between low and high
+    expect(day.hours[1].primary.heightM).toBe(0.9);
+    expect(gradeDay(day).hours[0].reasons).toContain('Mid tide — best stage for this break');
+  });
+});
+
+describe('lib/surf/orientation', () => {
+  it('resolves a pinned orientation and clears it again', async () => {
+    const store = new Map<string, string>();
+    (globalThis as { window?: unknown }).window = {
+      localStorage: {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+        removeItem: (key: string) => store.delete(key),
+      },
+    };
+
+    try {
+      expect(await resolveBeachOrientationAsync({ lat: 50.215, lon: -5.48 })).toMatchObject({ orientation: 342, source: 'coastline' });
+
+      saveBeachOrientationOverride('porthmeor', -45);
+      expect(await resolveBeachOrientationAsync({ lat: 50.215, lon: -5.48, locationId: 'porthmeor' })).toEqual({
+        orientation: 315,
+        source: 'override',
+      });
+
+      saveBeachOrientationOverride('porthmeor', null);
+      expect(store.size).toBe(0);
+    } finally {
+      delete (globalThis as { window?: unknown }).window;
+    }
+  });
+});
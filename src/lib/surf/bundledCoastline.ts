@@ -0,0 +1,17 @@
+import { feature } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+
+import { parseCoastline, type CoastlineDataset } from './coastline';
+
+/**
+ * Load the bundled worldwide coastline: Natural Earth 1:50m land outlines
+ * (public domain, via world-atlas). Vertices are a few kilometres apart, so
+ * bearings are the general facing of a stretch of coast rather than of a
+ * single cove; the data is imported on first use to keep it out of the main
+ * bundle.
+ */
+export async function loadBundledCoastline(): Promise<CoastlineDataset> {
+  const { default: topology } = await import('world-atlas/land-50m.json');
+  const land = topology as unknown as Topology<{ land: GeometryCollection }>;
+  return parseCoastline(feature(land, land.objects.land));
+}
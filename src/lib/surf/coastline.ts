@@ -0,0 +1,266 @@
+/**
+ * Coastline geometry and seaward bearings
+ *
+ * Coastlines follow the OpenStreetMap `natural=coastline` convention: land is
+ * on the left and sea on the right when walking along the line. Polygons are
+ * treated as land masses (RFC 7946 ring winding is enforced, so the same rule
+ * holds for their rings). A shoreline segment's seaward bearing is therefore
+ * its direction of travel plus 90°.
+ */
+
+/** [lon, lat], as in GeoJSON */
+export type LonLat = [number, number];
+
+export interface CoastlineSegment {
+  start: LonLat;
+  end: LonLat;
+  /** Bearing a beach on this segment faces, towards the sea */
+  seawardDeg: number;
+  lengthKm: number;
+}
+
+export interface CoastlineDataset {
+  segments: CoastlineSegment[];
+  /** Segment indices per grid cell, keyed by `cellKey` */
+  cells: Map<string, number[]>;
+  cellDeg: number;
+}
+
+export interface CoastlineBearingOptions {
+  /** Points further than this from any shoreline get no bearing (default 5 km) */
+  maxDistanceKm?: number;
+  /** Segments this much further away than the nearest one are averaged in (default 0.5 km) */
+  smoothingKm?: number;
+  /** Segments this much further away than the nearest one count towards how sharply the coast bends (default 2 km) */
+  bendKm?: number;
+}
+
+export interface CoastlineBearing {
+  bearingDeg: number;
+  /** 0-1: falls with distance from the shore and with how much the shoreline within `bendKm` bends */
+  confidence: number;
+  distanceKm: number;
+  nearestPoint: { lat: number; lon: number };
+}
+
+export class CoastlineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CoastlineError';
+  }
+}
+
+const KM_PER_DEG_LAT = 110.574;
+const KM_PER_DEG_LON = 111.32;
+const DEFAULT_CELL_DEG = 0.1;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+const cellKey = (x: number, y: number) => `${x}:${y}`;
+
+function isLonLat(value: unknown): value is LonLat {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    typeof value[0] === 'number' &&
+    typeof value[1] === 'number' &&
+    Number.isFinite(value[0]) &&
+    Number.isFinite(value[1])
+  );
+}
+
+function toLine(value: unknown): LonLat[] {
+  if (!Array.isArray(value) || !value.every(isLonLat)) {
+    throw new CoastlineError('Coordinates must be [lon, lat] pairs');
+  }
+  return value.map(([lon, lat]) => [lon, lat] as LonLat);
+}
+
+/** Twice the signed area in degrees; positive for counter-clockwise rings */
+function signedArea(ring: LonLat[]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area;
+}
+
+function polygonLines(rings: unknown): LonLat[][] {
+  if (!Array.isArray(rings)) throw new CoastlineError('Polygon coordinates must be an array of rings');
+  return rings.map((value, i) => {
+    const ring = toLine(value);
+    // Exterior rings counter-clockwise, holes clockwise: land stays on the left
+    const counterClockwise = signedArea(ring) > 0;
+    return (i === 0) === counterClockwise ? ring : ring.reverse();
+  });
+}
+
+function geometryLines(geometry: { type?: unknown; coordinates?: unknown; geometries?: unknown }): LonLat[][] {
+  switch (geometry.type) {
+    case 'LineString':
+      return [toLine(geometry.coordinates)];
+    case 'MultiLineString':
+      if (!Array.isArray(geometry.coordinates)) throw new CoastlineError('MultiLineString coordinates must be an array');
+      return geometry.coordinates.map(toLine);
+    case 'Polygon':
+      return polygonLines(geometry.coordinates);
+    case 'MultiPolygon':
+      if (!Array.isArray(geometry.coordinates)) throw new CoastlineError('MultiPolygon coordinates must be an array');
+      return geometry.coordinates.flatMap(polygonLines);
+    case 'GeometryCollection':
+      if (!Array.isArray(geometry.geometries)) throw new CoastlineError('GeometryCollection has no geometries');
+      return geometry.geometries.flatMap(geometryLines);
+    case 'Point':
+    case 'MultiPoint':
+      return [];
+    default:
+      throw new CoastlineError(`Unsupported geometry type: ${String(geometry.type)}`);
+  }
+}
+
+function extractLines(input: unknown): LonLat[][] {
+  if (Array.isArray(input)) {
+    // Bare polyline ([lon, lat][]) or list of polylines ([lon, lat][][])
+    return input.length > 0 && isLonLat(input[0]) ? [toLine(input)] : input.map(toLine);
+  }
+  if (!input || typeof input !== 'object') throw new CoastlineError('Coastline data must be GeoJSON or an array of polylines');
+
+  const object = input as { type?: unknown; features?: unknown; geometry?: unknown };
+  if (object.type === 'FeatureCollection') {
+    if (!Array.isArray(object.features)) throw new CoastlineError('FeatureCollection has no features');
+    return object.features.flatMap(extractLines);
+  }
+  if (object.type === 'Feature') {
+    return object.geometry ? geometryLines(object.geometry as Record<string, unknown>) : [];
+  }
+  return geometryLines(object as Record<string, unknown>);
+}
+
+function initialBearing([lon1, lat1]: LonLat, [lon2, lat2]: LonLat): number {
+  const phi1 = toRad(lat1);
+  const phi2 = toRad(lat2);
+  const dLon = toRad(lon2 - lon1);
+  const y = Math.sin(dLon) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+function segmentLengthKm([lon1, lat1]: LonLat, [lon2, lat2]: LonLat): number {
+  const dx = (lon2 - lon1) * KM_PER_DEG_LON * Math.cos(toRad((lat1 + lat2) / 2));
+  const dy = (lat2 - lat1) * KM_PER_DEG_LAT;
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * Parse GeoJSON (any line or polygon geometry, features or collections) or
+ * bare [lon, lat] polylines into an indexed coastline dataset
+ */
+export function parseCoastline(input: unknown, cellDeg: number = DEFAULT_CELL_DEG): CoastlineDataset {
+  const segments: CoastlineSegment[] = [];
+  const cells = new Map<string, number[]>();
+
+  for (const line of extractLines(input)) {
+    for (let i = 0; i < line.length - 1; i++) {
+      const start = line[i];
+      const end = line[i + 1];
+      const lengthKm = segmentLengthKm(start, end);
+      if (lengthKm === 0) continue;
+
+      const index = segments.push({ start, end, seawardDeg: (initialBearing(start, end) + 90) % 360, lengthKm }) - 1;
+      const [x0, x1] = [start[0], end[0]].sort((a, b) => a - b).map(v => Math.floor(v / cellDeg));
+      const [y0, y1] = [start[1], end[1]].sort((a, b) => a - b).map(v => Math.floor(v / cellDeg));
+      for (let x = x0; x <= x1; x++) {
+        for (let y = y0; y <= y1; y++) {
+          const key = cellKey(x, y);
+          const members = cells.get(key);
+          if (members) members.push(index);
+          else cells.set(key, [index]);
+        }
+      }
+    }
+  }
+
+  if (segments.length === 0) throw new CoastlineError('Coastline data contains no shoreline segments');
+  return { segments, cells, cellDeg };
+}
+
+/**
+ * Seaward-facing bearing of the shoreline nearest to a point
+ *
+ * The bearings of the nearest segment and any others almost as close are
+ * averaged (length-weighted), so a point off a headland or in a cove gets
+ * the general facing rather than one jagged vertex. Confidence drops with
+ * the widest turn of the shoreline a little further out, since a spot beside
+ * a headland may face either side of it.
+ */
+export function findCoastlineBearing(
+  dataset: CoastlineDataset,
+  lat: number,
+  lon: number,
+  options: CoastlineBearingOptions = {}
+): CoastlineBearing | null {
+  const maxDistanceKm = options.maxDistanceKm ?? 5;
+  const smoothingKm = options.smoothingKm ?? 0.5;
+  const bendKm = options.bendKm ?? 2;
+  const kmPerDegLon = KM_PER_DEG_LON * Math.cos(toRad(lat));
+
+  // Local equirectangular projection around the query point
+  const project = ([pLon, pLat]: LonLat) => [(pLon - lon) * kmPerDegLon, (pLat - lat) * KM_PER_DEG_LAT];
+
+  const latSpan = maxDistanceKm / KM_PER_DEG_LAT;
+  const lonSpan = maxDistanceKm / Math.max(kmPerDegLon, 1e-6);
+  const { cellDeg } = dataset;
+  const candidates = new Set<number>();
+  for (let x = Math.floor((lon - lonSpan) / cellDeg); x <= Math.floor((lon + lonSpan) / cellDeg); x++) {
+    for (let y = Math.floor((lat - latSpan) / cellDeg); y <= Math.floor((lat + latSpan) / cellDeg); y++) {
+      dataset.cells.get(cellKey(x, y))?.forEach(index => candidates.add(index));
+    }
+  }
+
+  const measured = Array.from(candidates, index => {
+    const segment = dataset.segments[index];
+    const [ax, ay] = project(segment.start);
+    const [bx, by] = project(segment.end);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const t = Math.max(0, Math.min(1, -(ax * dx + ay * dy) / (dx * dx + dy * dy || 1)));
+    const px = ax + t * dx;
+    const py = ay + t * dy;
+    return { segment, distanceKm: Math.hypot(px, py), px, py };
+  }).filter(m => m.distanceKm <= maxDistanceKm);
+
+  if (measured.length === 0) return null;
+  const nearest = measured.reduce((best, m) => (m.distanceKm < best.distanceKm ? m : best));
+
+  // Length-weighted circular mean; its resultant length measures agreement
+  let x = 0;
+  let y = 0;
+  let weight = 0;
+  for (const m of measured) {
+    if (m.distanceKm > nearest.distanceKm + smoothingKm) continue;
+    x += Math.cos(toRad(m.segment.seawardDeg)) * m.segment.lengthKm;
+    y += Math.sin(toRad(m.segment.seawardDeg)) * m.segment.lengthKm;
+    weight += m.segment.lengthKm;
+  }
+  const agreement = Math.hypot(x, y) / weight;
+  const bearingDeg = (toDeg(Math.atan2(y, x)) + 360) % 360;
+
+  // Widest turn away from that facing, however short the segment: 90° or more leaves no confidence
+  let turnDeg = 0;
+  for (const m of measured) {
+    if (m.distanceKm > nearest.distanceKm + bendKm) continue;
+    const diff = Math.abs(m.segment.seawardDeg - bearingDeg) % 360;
+    turnDeg = Math.max(turnDeg, Math.min(diff, 360 - diff));
+  }
+  const straightness = Math.max(0, 1 - turnDeg / 90);
+  const proximity = nearest.distanceKm <= smoothingKm
+    ? 1
+    : Math.max(0, 1 - (nearest.distanceKm - smoothingKm) / (maxDistanceKm - smoothingKm));
+
+  return {
+    bearingDeg: Math.round(bearingDeg) % 360,
+    confidence: Math.round(agreement * straightness * proximity * 100) / 100,
+    distanceKm: Math.round(nearest.distanceKm * 1000) / 1000,
+    nearestPoint: { lat: lat + nearest.py / KM_PER_DEG_LAT, lon: lon + nearest.px / kmPerDegLon },
+  };
+}
@@ -0,0 +1,16 @@
+import { promises as fs } from 'node:fs';
+
+import { CoastlineError, parseCoastline, type CoastlineDataset } from './coastline';
+
+/**
+ * Load a coastline dataset (GeoJSON or a JSON array of [lon, lat] polylines) from disk
+ */
+export async function loadCoastlineFile(filePath: string): Promise<CoastlineDataset> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    throw new CoastlineError(`Failed to read coastline file ${filePath}: ${(error as Error).message}`);
+  }
+  return parseCoastline(data);
+}
@@ -0,0 +1,175 @@
+/**
+ * Beach orientation resolver
+ *
+ * The seaward-facing bearing of a beach (0 = faces north, 270 = faces west)
+ * is what turns a wind direction into offshore / onshore. Users can pin the
+ * bearing for a saved location or a spot; pinned values always win over
+ * anything computed. Otherwise the bearing comes from the nearest shoreline
+ * of the coastline dataset, cached per rounded coordinate. The bundled
+ * worldwide coastline is used unless `setCoastlineSource` swaps in a more
+ * detailed one.
+ */
+
+import { deriveWindRelative, type WindRelative } from '../activities/conditionVariables';
+import { loadBundledCoastline } from './bundledCoastline';
+import { findCoastlineBearing, type CoastlineBearingOptions, type CoastlineDataset } from './coastline';
+
+const OVERRIDE_STORAGE_KEY = 'beachOrientationOverrides';
+// Search radius for the rough, render-time estimate of `computeSimulatedOrientation`
+const ESTIMATE_MAX_DISTANCE_KM = 50;
+
+export type BeachOrientationSource = 'override' | 'coastline' | 'unknown';
+
+export interface BeachOrientationResult {
+  /** Seaward-facing bearing in degrees, null when it could not be resolved */
+  orientation: number | null;
+  source: BeachOrientationSource;
+  /** 0-1, for coastline-derived bearings */
+  confidence?: number;
+  /** Distance to the shoreline the bearing was taken from */
+  distanceKm?: number;
+}
+
+type CoastlineSource = CoastlineDataset | (() => Promise<CoastlineDataset>);
+
+let coastlineSource: CoastlineSource = loadBundledCoastline;
+let coastlineOptions: CoastlineBearingOptions = {};
+let coastline: Promise<CoastlineDataset | null> | null = null;
+let loadedCoastline: CoastlineDataset | null = null;
+const resolvedCache = new Map<string, BeachOrientationResult>();
+
+export interface BeachOrientationQuery {
+  lat: number;
+  lon: number;
+  /** Saved-location id; an override for it beats a coordinate override */
+  locationId?: string;
+}
+
+/** Override key for a coordinate (~100 m grid, so the same spot maps to one key) */
+export function orientationCoordKey(lat: number, lon: number): string {
+  return `${lat.toFixed(3)},${lon.toFixed(3)}`;
+}
+
+export function normalizeBearing(deg: number): number {
+  return ((deg % 360) + 360) % 360;
+}
+
+function readOverrides(): Record<string, number> {
+  if (typeof window === 'undefined' || !window.localStorage) return {};
+  try {
+    const raw = window.localStorage.getItem(OVERRIDE_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeOverrides(overrides: Record<string, number>): void {
+  if (typeof window === 'undefined' || !window.localStorage) return;
+  try {
+    if (Object.keys(overrides).length === 0) window.localStorage.removeItem(OVERRIDE_STORAGE_KEY);
+    else window.localStorage.setItem(OVERRIDE_STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.warn('Failed to persist beach orientation override:', error);
+  }
+}
+
+/**
+ * User-pinned orientation for a location id or coordinate key, if any
+ */
+export function getBeachOrientationOverride(key: string): number | null {
+  const value = readOverrides()[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Pin (or with null, clear) the orientation for a location id or coordinate key
+ */
+export function saveBeachOrientationOverride(key: string, deg: number | null): void {
+  const overrides = readOverrides();
+  if (deg === null || !Number.isFinite(deg)) delete overrides[key];
+  else overrides[key] = normalizeBearing(deg);
+  writeOverrides(overrides);
+}
+
+/**
+ * Set the coastline dataset used to compute orientations
+ *
+ * Pass the dataset itself or a loader (e.g. `() => loadCoastlineFile(path)`
+ * on the server, or a fetch of a regional GeoJSON in the browser); loaders
+ * run once, on first use. Null restores the bundled coastline. Changing the
+ * source clears cached results.
+ */
+export function setCoastlineSource(source: CoastlineSource | null, options: CoastlineBearingOptions = {}): void {
+  coastlineSource = source ?? loadBundledCoastline;
+  coastlineOptions = options;
+  coastline = null;
+  loadedCoastline = null;
+  resolvedCache.clear();
+}
+
+function getCoastline(): Promise<CoastlineDataset | null> {
+  if (!coastline) {
+    const source = coastlineSource;
+    const loading: Promise<CoastlineDataset | null> = (typeof source === 'function' ? source() : Promise.resolve(source))
+      .then(dataset => {
+        if (coastline === loading) loadedCoastline = dataset;
+        return dataset;
+      })
+      .catch(error => {
+        console.warn('Failed to load coastline data:', error);
+        coastline = null; // Retry on the next lookup
+        return null;
+      });
+    coastline = loading;
+  }
+  return coastline;
+}
+
+/**
+ * Resolve the seaward-facing bearing for a spot
+ */
+export async function resolveBeachOrientationAsync(query: BeachOrientationQuery): Promise<BeachOrientationResult> {
+  const key = orientationCoordKey(query.lat, query.lon);
+  const pinned =
+    (query.locationId ? getBeachOrientationOverride(query.locationId) : null) ?? getBeachOrientationOverride(key);
+  if (pinned !== null) return { orientation: pinned, source: 'override' };
+
+  const cached = resolvedCache.get(key);
+  if (cached) return cached;
+
+  const dataset = await getCoastline();
+  if (!dataset) return { orientation: null, source: 'unknown' };
+
+  const bearing = findCoastlineBearing(dataset, query.lat, query.lon, coastlineOptions);
+  const result: BeachOrientationResult = bearing
+    ? { orientation: bearing.bearingDeg, source: 'coastline', confidence: bearing.confidence, distanceKm: bearing.distanceKm }
+    : { orientation: null, source: 'unknown' };
+  resolvedCache.set(key, result);
+  return result;
+}
+
+/**
+ * Rough seaward-facing bearing for a spot the resolver could not place
+ *
+ * Takes the nearest shoreline within 50 km of the coastline already loaded
+ * by `resolveBeachOrientationAsync`, so it can run during render. Null when
+ * no coastline has loaded yet or the spot is far from any coast.
+ */
+export function computeSimulatedOrientation(lat: number, lon: number): number | null {
+  if (!loadedCoastline) return null;
+  const bearing = findCoastlineBearing(loadedCoastline, lat, lon, {
+    ...coastlineOptions,
+    maxDistanceKm: Math.max(coastlineOptions.maxDistanceKm ?? 0, ESTIMATE_MAX_DISTANCE_KM),
+  });
+  return bearing ? bearing.bearingDeg : null;
+}
+
+/**
+ * Classify a wind direction for a beach facing `beachFacingDeg`
+ * @example classifyWindRelative(270, 90) // 'offshore' (easterly wind on a west-facing beach)
+ */
+export function classifyWindRelative(beachFacingDeg: number, windFromDeg: number): WindRelative {
+  return deriveWindRelative(windFromDeg, beachFacingDeg);
+}
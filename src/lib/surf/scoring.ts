@@ -0,0 +1,363 @@
+/**
+ * Surf scoring engine
+ *
+ * Grades each forecast hour, and the day as a whole, as a green / amber / red
+ * light for a given skill level. Wave size, swell period, wind strength and
+ * direction relative to the beach, and tide level are scored separately and
+ * blended, then safety gates cap the light when the surf is too big (or too
+ * powerful) for the skill level.
+ */
+
+import type { MarineHourlyPoint, TideEvent } from '../../types/weather';
+import { deriveWindRelative, type WindRelative } from '../activities/conditionVariables';
+
+export type SurfSkill = 'novice' | 'intermediate' | 'advanced';
+export type SurfLight = 'green' | 'amber' | 'red';
+
+export interface SurfHour {
+  /** Hour start (ISO string or epoch ms) */
+  ts: string | number;
+  /** Dominant swell (or total sea when no swell partition is available) */
+  primary: {
+    heightM: number;
+    periodS: number;
+    /** Direction the swell comes FROM */
+    directionDeg?: number;
+  };
+  wind?: {
+    speedKt?: number;
+    gustKt?: number;
+    /** Direction the wind blows FROM */
+    directionDeg?: number;
+  };
+  tide?: {
+    tideHeightM: number;
+    tideRangeM?: number;
+  };
+}
+
+export interface TideProfile {
+  minM: number;
+  maxM: number;
+  name?: string;
+  /** Tide level the break works best on (default 'mid') */
+  preferred?: 'low' | 'mid' | 'high' | 'any';
+}
+
+export interface DayMarine {
+  hours: SurfHour[];
+  /** Seaward-facing bearing of the beach; null when unknown */
+  beachFacingDeg?: number | null;
+  skill?: SurfSkill;
+  tideProfile?: TideProfile;
+}
+
+export interface HourGrade {
+  ts: string | number;
+  light: SurfLight;
+  score: number;           // 0-100
+  reasons: string[];
+  windRelative: WindRelative | null;
+}
+
+export interface DayGrade {
+  hours: HourGrade[];
+  bestHour: HourGrade | null;
+  dayLight: SurfLight;
+}
+
+interface SkillProfile {
+  minM: number;            // Smallest rideable wave
+  idealMinM: number;
+  idealMaxM: number;
+  maxM: number;            // Above this the light is red whatever else
+  maxWindKt: number;       // Onshore wind above this makes it unrideable
+  /** Long-period swell above this height is too powerful for the skill level */
+  powerfulSwell?: { heightM: number; periodS: number };
+}
+
+const SKILL_PROFILES: Record<SurfSkill, SkillProfile> = {
+  novice: {
+    minM: 0.3,
+    idealMinM: 0.5,
+    idealMaxM: 1.0,
+    maxM: 1.5,
+    maxWindKt: 15,
+    powerfulSwell: { heightM: 1.0, periodS: 13 },
+  },
+  intermediate: {
+    minM: 0.5,
+    idealMinM: 0.8,
+    idealMaxM: 2.0,
+    maxM: 2.8,
+    maxWindKt: 20,
+    powerfulSwell: { heightM: 2.2, periodS: 15 },
+  },
+  advanced: {
+    minM: 0.7,
+    idealMinM: 1.2,
+    idealMaxM: 3.5,
+    maxM: 6,
+    maxWindKt: 25,
+  },
+};
+
+// Blend weights of the component scores
+const WEIGHTS = { size: 0.4, period: 0.2, wind: 0.3, tide: 0.1 };
+
+const GREEN_SCORE = 70;
+const AMBER_SCORE = 45;
+const LIGHT_RANK: Record<SurfLight, number> = { red: 0, amber: 1, green: 2 };
+
+const angDiff = (a: number, b: number) => Math.abs(((a - b + 540) % 360) - 180);
+const finite = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const tsMs = (ts: string | number) => (typeof ts === 'number' ? ts : new Date(ts).getTime());
+
+function scoreSize(heightM: number, profile: SkillProfile, skill: SurfSkill): { score: number; reason: string } {
+  const size = `${heightM.toFixed(1)} m`;
+  if (heightM < profile.minM) return { score: 0, reason: `${size} — too small to ride` };
+  if (heightM > profile.maxM) return { score: 0, reason: `${size} — too big for ${skill} surfers` };
+  if (heightM < profile.idealMinM) {
+    const t = (heightM - profile.minM) / (profile.idealMinM - profile.minM);
+    return { score: Math.round(40 + t * 40), reason: `${size} — small but rideable` };
+  }
+  if (heightM <= profile.idealMaxM) return { score: 100, reason: `${size} — ideal size for ${skill} surfers` };
+  const t = (heightM - profile.idealMaxM) / (profile.maxM - profile.idealMaxM);
+  return { score: Math.round(80 - t * 50), reason: `${size} — on the big side for ${skill} surfers` };
+}
+
+function scorePeriod(periodS: number): { score: number; reason: string } {
+  const period = `${Math.round(periodS)} s`;
+  if (!(periodS > 0)) return { score: 50, reason: 'No swell period data' };
+  if (periodS < 6) return { score: 20, reason: `${period} period — short, messy wind swell` };
+  if (periodS < 9) return { score: 55, reason: `${period} period — short-period swell, softer waves` };
+  if (periodS < 13) return { score: 90, reason: `${period} period — good, organised swell` };
+  return { score: 100, reason: `${period} period — long-period groundswell` };
+}
+
+function scoreWind(
+  wind: SurfHour['wind'],
+  beachFacingDeg: number | null,
+  profile: SkillProfile
+): { score: number; reason: string; relative: WindRelative | null; blownOut: boolean } {
+  const speed = finite(wind?.speedKt) ? wind!.speedKt! : null;
+  if (speed === null) return { score: 60, reason: 'No wind data', relative: null, blownOut: false };
+
+  const kt = `${Math.round(speed)} kt`;
+  const relative = finite(beachFacingDeg) && finite(wind?.directionDeg)
+    ? deriveWindRelative(wind!.directionDeg!, beachFacingDeg)
+    : null;
+
+  if (speed < 5) return { score: 100, reason: `Light wind (${kt}) — glassy`, relative, blownOut: false };
+
+  if (relative === null) {
+    const score = Math.max(0, Math.round(100 - (speed - 5) * 4));
+    return {
+      score,
+      reason: `Wind ${kt} (beach orientation unknown, direction not scored)`,
+      relative,
+      blownOut: speed > profile.maxWindKt + 10,
+    };
+  }
+
+  switch (relative) {
+    case 'offshore':
+    case 'side-offshore': {
+      // Clean faces, but strong offshore holds waves up and makes paddling hard
+      const score = speed <= 20 ? 100 : Math.max(40, 100 - (speed - 20) * 5);
+      return { score, reason: `${relative === 'offshore' ? 'Offshore' : 'Side-offshore'} wind ${kt} — clean faces`, relative, blownOut: false };
+    }
+    case 'cross-shore': {
+      const score = Math.max(10, Math.round(85 - (speed - 5) * 4));
+      return { score, reason: `Cross-shore wind ${kt}`, relative, blownOut: speed > profile.maxWindKt + 5 };
+    }
+    default: {
+      // Onshore: chop builds quickly with speed
+      const factor = relative === 'onshore' ? 7 : 5;
+      const score = Math.max(0, Math.round(80 - (speed - 5) * factor));
+      const label = relative === 'onshore' ? 'Onshore' : 'Side-onshore';
+      return { score, reason: `${label} wind ${kt} — ${score < 40 ? 'choppy, blown out' : 'some chop'}`, relative, blownOut: speed > profile.maxWindKt };
+    }
+  }
+}
+
+function scoreTide(tide: SurfHour['tide'], profile?: TideProfile): { score: number; reason: string } | null {
+  if (!tide || !finite(tide.tideHeightM)) return null;
+  const min = profile?.minM;
+  const max = profile?.maxM;
+  const range = finite(min) && finite(max) && max > min ? max - min : tide.tideRangeM;
+  if (!finite(range) || range <= 0) return null;
+
+  const base = finite(min) ? min : 0;
+  const level = Math.max(0, Math.min(1, (tide.tideHeightM - base) / range));
+  const stage = level < 1 / 3 ? 'low' : level > 2 / 3 ? 'high' : 'mid';
+  const preferred = profile?.preferred ?? 'mid';
+  if (preferred === 'any') return { score: 100, reason: `${stage[0].toUpperCase()}${stage.slice(1)} tide` };
+
+  const target = preferred === 'low' ? 0.2 : preferred === 'high' ? 0.8 : 0.5;
+  const score = Math.round(100 - Math.min(1, Math.abs(level - target) * 2) * 60);
+  return { score, reason: `${stage[0].toUpperCase()}${stage.slice(1)} tide${stage === preferred ? ' — best stage for this break' : ''}` };
+}
+
+/**
+ * Grade a single hour
+ */
+export function gradeHour(
+  hour: SurfHour,
+  options: { skill?: SurfSkill; beachFacingDeg?: number | null; tideProfile?: TideProfile } = {}
+): HourGrade {
+  const skill = options.skill ?? 'intermediate';
+  const profile = SKILL_PROFILES[skill];
+  const facing = finite(options.beachFacingDeg) ? options.beachFacingDeg : null;
+
+  // Swell arriving from behind the beach barely reaches it
+  let heightM = Math.max(0, hour.primary.heightM || 0);
+  const reasons: string[] = [];
+  if (facing !== null && finite(hour.primary.directionDeg)) {
+    const offAxis = angDiff(hour.primary.directionDeg, facing);
+    if (offAxis > 100) {
+      heightM *= 0.3;
+      reasons.push('Swell direction is blocked for this beach');
+    } else if (offAxis > 60) {
+      heightM *= 0.7;
+      reasons.push('Swell arrives at an angle — smaller at the beach');
+    }
+  }
+
+  const size = scoreSize(heightM, profile, skill);
+  const period = scorePeriod(hour.primary.periodS);
+  const wind = scoreWind(hour.wind, facing, profile);
+  const tide = scoreTide(hour.tide, options.tideProfile);
+
+  const weights = tide ? WEIGHTS : { ...WEIGHTS, tide: 0 };
+  const total = weights.size + weights.period + weights.wind + weights.tide;
+  let score = Math.round(
+    (size.score * weights.size + period.score * weights.period + wind.score * weights.wind + (tide?.score ?? 0) * weights.tide) / total
+  );
+
+  reasons.unshift(size.reason, wind.reason, period.reason);
+  if (tide) reasons.push(tide.reason);
+
+  let light: SurfLight = score >= GREEN_SCORE ? 'green' : score >= AMBER_SCORE ? 'amber' : 'red';
+
+  // Safety gates
+  if (size.score === 0 || wind.blownOut) {
+    light = 'red';
+    score = Math.min(score, AMBER_SCORE - 1);
+    if (wind.blownOut) reasons.unshift('Too windy to surf');
+  }
+  const powerful = profile.powerfulSwell;
+  if (powerful && heightM >= powerful.heightM && hour.primary.periodS >= powerful.periodS) {
+    light = 'red';
+    score = Math.min(score, AMBER_SCORE - 1);
+    reasons.unshift(`Powerful long-period swell — not safe for ${skill} surfers`);
+  }
+
+  return { ts: hour.ts, light, score, reasons, windRelative: wind.relative };
+}
+
+/**
+ * Grade every hour of a day, pick the best hour and an overall light
+ *
+ * The day only gets the best hour's light when at least two hours reach it;
+ * a single good hour makes the day one step lower.
+ */
+export function gradeDay(day: DayMarine): DayGrade {
+  const hours = day.hours.map(hour => gradeHour(hour, day));
+  if (hours.length === 0) return { hours, bestHour: null, dayLight: 'red' };
+
+  const bestHour = hours.reduce((best, hour) =>
+    LIGHT_RANK[hour.light] > LIGHT_RANK[best.light] ||
+    (hour.light === best.light && hour.score > best.score)
+      ? hour
+      : best
+  );
+
+  const atBest = hours.filter(h => LIGHT_RANK[h.light] >= LIGHT_RANK[bestHour.light]).length;
+  const dayLight: SurfLight = atBest >= 2 || bestHour.light === 'red'
+    ? bestHour.light
+    : bestHour.light === 'green' ? 'amber' : 'red';
+
+  return { hours, bestHour, dayLight };
+}
+
+/**
+ * Tide height at a time, interpolated between HIGH/LOW events along a
+ * half-cosine (the usual rule-of-twelfths shape)
+ */
+function tideHeightAt(timeMs: number, events: TideEvent[]): number | null {
+  const withHeights = events
+    .filter(e => finite(e.heightM))
+    .map(e => ({ t: new Date(e.timeISO).getTime(), h: e.heightM as number }))
+    .sort((a, b) => a.t - b.t);
+
+  for (let i = 1; i < withHeights.length; i++) {
+    const prev = withHeights[i - 1];
+    const next = withHeights[i];
+    if (timeMs >= prev.t && timeMs <= next.t) {
+      const progress = next.t === prev.t ? 0 : (timeMs - prev.t) / (next.t - prev.t);
+      return prev.h + (next.h - prev.h) * (1 - Math.cos(Math.PI * progress)) / 2;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build surf-scoring input from the unified marine hourly series and tide events
+ */
+export function toDayMarine(
+  points: MarineHourlyPoint[],
+  options: { tides?: TideEvent[]; beachFacingDeg?: number | null; skill?: SurfSkill; preferredTide?: TideProfile['preferred'] } = {}
+): DayMarine {
+  const tides = options.tides ?? [];
+  const heights = tides.map(t => t.heightM).filter(finite);
+  const tideProfile: TideProfile | undefined = heights.length >= 2
+    ? { minM: Math.min(...heights), maxM: Math.max(...heights), preferred: options.preferredTide }
+    : undefined;
+
+  const hours: SurfHour[] = points.map(point => {
+    const tideHeightM = tides.length > 0 ? tideHeightAt(new Date(point.timeISO).getTime(), tides) : null;
+    return {
+      ts: point.timeISO,
+      primary: {
+        // Prefer the swell partition for surf; fall back to total sea state
+        heightM: point.swellHeightM ?? point.waveM ?? 0,
+        periodS: point.swellPeriodS ?? point.wavePeriodS ?? 0,
+        directionDeg: point.swellDirectionDeg ?? point.waveDirectionDeg ?? undefined,
+      },
+      wind: { speedKt: point.windKts, gustKt: point.windGustKts, directionDeg: point.windDirection },
+      tide: tideHeightM !== null && tideProfile ? { tideHeightM, tideRangeM: tideProfile.maxM - tideProfile.minM } : undefined,
+    };
+  });
+
+  return { hours, beachFacingDeg: options.beachFacingDeg ?? null, skill: options.skill, tideProfile };
+}
+
+/**
+ * Hour-by-hour and daily grades straight from marine hourly points,
+ * one DayGrade per local calendar day (UTC unless `timeZone` is given)
+ */
+export function gradeMarineDays(
+  points: MarineHourlyPoint[],
+  options: Parameters<typeof toDayMarine>[1] & { timeZone?: string } = {}
+): Array<{ date: string; grade: DayGrade }> {
+  const dayKey = (timeISO: string) => {
+    const date = new Date(timeISO);
+    if (!options.timeZone) return date.toISOString().slice(0, 10);
+    return new Intl.DateTimeFormat('en-CA', { timeZone: options.timeZone }).format(date);
+  };
+
+  const byDay = new Map<string, MarineHourlyPoint[]>();
+  for (const point of points) {
+    if (!Number.isFinite(new Date(point.timeISO).getTime())) continue;
+    const key = dayKey(point.timeISO);
+    const members = byDay.get(key);
+    if (members) members.push(point);
+    else byDay.set(key, [point]);
+  }
+
+  return Array.from(byDay, ([date, dayPoints]) => ({
+    date,
+    grade: gradeDay(toDayMarine(dayPoints.sort((a, b) => tsMs(a.timeISO) - tsMs(b.timeISO)), options)),
+  }));
+}
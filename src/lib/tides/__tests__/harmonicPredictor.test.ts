@@ -0,0 +1,98 @@
+/**
+ * Tests for the harmonic tide predictor
+ *
+ * Uses a synthetic station so expected values are self-consistent: predict
+ * extremes, fit constituents back from them, and compare the curves.
+ */
+
+import { constituentSpeed } from '../harmonicConstituents';
+import {
+  predictTideHeight,
+  predictTideExtremes,
+  fitHarmonicStation,
+  parseHarmonicStations,
+  findNearestHarmonicStation,
+  type HarmonicStation,
+} from '../harmonicPredictor';
+
+const station: HarmonicStation = {
+  id: 'test',
+  lat: 43.55,
+  lon: -5.92,
+  datumOffset: 2.6,
+  constituents: [
+    { name: 'M2', amplitude: 1.2, phase: 95 },
+    { name: 'S2', amplitude: 0.42, phase: 125 },
+    { name: 'K1', amplitude: 0.07, phase: 65 },
+    { name: 'O1', amplitude: 0.06, phase: 320 },
+  ],
+};
+
+describe('lib/tides/harmonicPredictor', () => {
+  const start = new Date('2026-03-01T00:00:00Z');
+  const end = new Date('2026-03-31T00:00:00Z');
+
+  it('should use standard constituent speeds', () => {
+    expect(constituentSpeed('M2')).toBeCloseTo(28.9841042, 5);
+    expect(constituentSpeed('S2')).toBeCloseTo(30, 5);
+    expect(constituentSpeed('K1')).toBeCloseTo(15.0410686, 5);
+    expect(constituentSpeed('O1')).toBeCloseTo(13.9430356, 5);
+  });
+
+  it('should find alternating highs and lows about twice a day', () => {
+    const extremes = predictTideExtremes(station, start, new Date('2026-03-02T00:00:00Z'));
+    expect(extremes.length).toBeGreaterThanOrEqual(3);
+    expect(extremes.length).toBeLessThanOrEqual(5);
+    for (let i = 1; i < extremes.length; i++) {
+      expect(extremes[i].type).not.toBe(extremes[i - 1].type);
+    }
+    const high = extremes.find(e => e.type === 'high')!;
+    const low = extremes.find(e => e.type === 'low')!;
+    expect(high.height).toBeGreaterThan(low.height);
+  });
+
+  it('should place extremes at turning points of the curve', () => {
+    const [first] = predictTideExtremes(station, start, new Date('2026-03-01T12:00:00Z'));
+    const t = Date.parse(first.time);
+    const at = predictTideHeight(station, new Date(t));
+    const before = predictTideHeight(station, new Date(t - 20 * 60 * 1000));
+    const after = predictTideHeight(station, new Date(t + 20 * 60 * 1000));
+    if (first.type === 'high') {
+      expect(at).toBeGreaterThanOrEqual(Math.max(before, after));
+    } else {
+      expect(at).toBeLessThanOrEqual(Math.min(before, after));
+    }
+  });
+
+  it('should fit constituents back from a month of extremes', () => {
+    const extremes = predictTideExtremes(station, start, end);
+    const fitted = fitHarmonicStation(extremes)!;
+    expect(fitted).not.toBeNull();
+
+    const m2 = fitted.constituents.find(c => c.name === 'M2')!;
+    expect(m2.amplitude).toBeCloseTo(1.2, 1);
+
+    // Predict outside the fitting window and compare
+    for (let h = 0; h < 48; h += 5) {
+      const date = new Date(Date.parse('2026-04-10T00:00:00Z') + h * 3600 * 1000);
+      expect(Math.abs(predictTideHeight(fitted, date) - predictTideHeight(station, date))).toBeLessThan(0.1);
+    }
+  });
+
+  it('should return null when there are too few extremes', () => {
+    expect(fitHarmonicStation([{ time: start.toISOString(), height: 1, type: 'high' }])).toBeNull();
+  });
+
+  it('should parse station files and drop unknown constituents', () => {
+    const stations = parseHarmonicStations({
+      stations: [
+        { id: 'a', lat: 50, lon: -4, datumOffset: 3, constituents: [{ name: 'M2', amplitude: 1, phase: 10 }, { name: 'XX9', amplitude: 1, phase: 0 }] },
+        { id: 'broken' },
+      ],
+    });
+    expect(stations).toHaveLength(1);
+    expect(stations[0].constituents).toHaveLength(1);
+    expect(findNearestHarmonicStation(stations, 50.1, -4.1)?.station.id).toBe('a');
+    expect(findNearestHarmonicStation(stations, 40, 10)).toBeNull();
+  });
+});
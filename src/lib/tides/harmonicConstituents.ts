@@ -0,0 +1,151 @@
+/**
+ * Tidal harmonic constituents and astronomical arguments
+ *
+ * Equilibrium arguments (V) and nodal corrections (f, u) follow Schureman,
+ * "Manual of Harmonic Analysis and Prediction of Tides" (1958), using the
+ * simplified series in the lunar node longitude N. Good to a few centimetres
+ * for the major constituents, which is plenty for app-level predictions.
+ */
+
+const DEG = Math.PI / 180;
+
+/** Mean astronomical longitudes in degrees at an instant */
+export interface AstronomicalArguments {
+  /** Hour angle of the mean sun, 180° + 15°·UT hours */
+  T: number;
+  /** Mean longitude of the moon */
+  s: number;
+  /** Mean longitude of the sun */
+  h: number;
+  /** Longitude of lunar perigee */
+  p: number;
+  /** Longitude of the moon's ascending node */
+  N: number;
+  /** Longitude of solar perigee */
+  p1: number;
+}
+
+/** Rates of change in degrees per hour, matching `AstronomicalArguments` */
+const RATES: AstronomicalArguments = {
+  T: 15,
+  s: 481267.88123421 / (36525 * 24),
+  h: 36000.76983 / (36525 * 24),
+  p: 4069.0137287 / (36525 * 24),
+  N: -1934.136261 / (36525 * 24),
+  p1: 1.7192 / (36525 * 24),
+};
+
+const norm360 = (deg: number) => ((deg % 360) + 360) % 360;
+
+export function astronomicalArguments(date: Date): AstronomicalArguments {
+  const ms = date.getTime();
+  // Julian centuries since J2000.0 (2000-01-01T12:00:00Z)
+  const T = (ms - Date.UTC(2000, 0, 1, 12)) / (36525 * 86400000);
+  const utHours = (((ms / 3600000) % 24) + 24) % 24;
+  return {
+    T: norm360(180 + 15 * utHours),
+    s: norm360(218.3164477 + 481267.88123421 * T),
+    h: norm360(280.4664567 + 36000.76983 * T),
+    p: norm360(83.3532465 + 4069.0137287 * T),
+    N: norm360(125.04452 - 1934.136261 * T),
+    p1: norm360(282.94 + 1.7192 * T),
+  };
+}
+
+type NodalKind = 'none' | 'M2' | 'K1' | 'O1' | 'K2' | 'MF' | 'MM';
+
+interface ConstituentDefinition {
+  /** Coefficients of [T, s, h, p, p1] in the equilibrium argument */
+  coefficients: [number, number, number, number, number];
+  /** Constant phase offset in degrees */
+  offset: number;
+  /** Nodal correction family; compound tides raise it to `nodalPower` */
+  nodal: NodalKind;
+  nodalPower?: number;
+}
+
+export const CONSTITUENTS: Record<string, ConstituentDefinition> = {
+  // Semidiurnal
+  M2: { coefficients: [2, -2, 2, 0, 0], offset: 0, nodal: 'M2' },
+  S2: { coefficients: [2, 0, 0, 0, 0], offset: 0, nodal: 'none' },
+  N2: { coefficients: [2, -3, 2, 1, 0], offset: 0, nodal: 'M2' },
+  K2: { coefficients: [2, 0, 2, 0, 0], offset: 0, nodal: 'K2' },
+  '2N2': { coefficients: [2, -4, 2, 2, 0], offset: 0, nodal: 'M2' },
+  MU2: { coefficients: [2, -4, 4, 0, 0], offset: 0, nodal: 'M2' },
+  NU2: { coefficients: [2, -3, 4, -1, 0], offset: 0, nodal: 'M2' },
+  L2: { coefficients: [2, -1, 2, -1, 0], offset: 180, nodal: 'M2' },
+  T2: { coefficients: [2, 0, -1, 0, 1], offset: 0, nodal: 'none' },
+  // Diurnal
+  K1: { coefficients: [1, 0, 1, 0, 0], offset: -90, nodal: 'K1' },
+  O1: { coefficients: [1, -2, 1, 0, 0], offset: 90, nodal: 'O1' },
+  P1: { coefficients: [1, 0, -1, 0, 0], offset: 90, nodal: 'none' },
+  Q1: { coefficients: [1, -3, 1, 1, 0], offset: 90, nodal: 'O1' },
+  // Shallow water
+  M4: { coefficients: [4, -4, 4, 0, 0], offset: 0, nodal: 'M2', nodalPower: 2 },
+  MS4: { coefficients: [4, -2, 2, 0, 0], offset: 0, nodal: 'M2' },
+  MN4: { coefficients: [4, -5, 4, 1, 0], offset: 0, nodal: 'M2', nodalPower: 2 },
+  M6: { coefficients: [6, -6, 6, 0, 0], offset: 0, nodal: 'M2', nodalPower: 3 },
+  // Long period
+  MF: { coefficients: [0, 2, 0, 0, 0], offset: 0, nodal: 'MF' },
+  MM: { coefficients: [0, 1, 0, -1, 0], offset: 0, nodal: 'MM' },
+  SSA: { coefficients: [0, 0, 2, 0, 0], offset: 0, nodal: 'none' },
+  SA: { coefficients: [0, 0, 1, 0, 0], offset: 0, nodal: 'none' },
+};
+
+export function isKnownConstituent(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(CONSTITUENTS, name);
+}
+
+/** Angular speed in degrees per hour */
+export function constituentSpeed(name: string): number {
+  const [cT, cs, ch, cp, cp1] = CONSTITUENTS[name].coefficients;
+  return cT * RATES.T + cs * RATES.s + ch * RATES.h + cp * RATES.p + cp1 * RATES.p1;
+}
+
+/** Equilibrium argument V in degrees */
+export function equilibriumArgument(name: string, args: AstronomicalArguments): number {
+  const def = CONSTITUENTS[name];
+  const [cT, cs, ch, cp, cp1] = def.coefficients;
+  return norm360(cT * args.T + cs * args.s + ch * args.h + cp * args.p + cp1 * args.p1 + def.offset);
+}
+
+/** Node factor f and nodal angle u (degrees) */
+export function nodalCorrection(name: string, args: AstronomicalArguments): { f: number; u: number } {
+  const def = CONSTITUENTS[name];
+  const N = args.N * DEG;
+  const c1 = Math.cos(N), c2 = Math.cos(2 * N), c3 = Math.cos(3 * N);
+  const s1 = Math.sin(N), s2 = Math.sin(2 * N), s3 = Math.sin(3 * N);
+
+  let f = 1;
+  let u = 0;
+  switch (def.nodal) {
+    case 'M2':
+      f = 1.0004 - 0.0373 * c1 + 0.0002 * c2;
+      u = -2.14 * s1;
+      break;
+    case 'K1':
+      f = 1.006 + 0.115 * c1 - 0.0088 * c2 + 0.0006 * c3;
+      u = -8.86 * s1 + 0.68 * s2 - 0.07 * s3;
+      break;
+    case 'O1':
+      f = 1.0089 + 0.1871 * c1 - 0.0147 * c2 + 0.0014 * c3;
+      u = 10.8 * s1 - 1.34 * s2 + 0.19 * s3;
+      break;
+    case 'K2':
+      f = 1.0241 + 0.2863 * c1 + 0.0083 * c2 - 0.0015 * c3;
+      u = -17.74 * s1 + 0.68 * s2 - 0.04 * s3;
+      break;
+    case 'MF':
+      f = 1.043 + 0.414 * c1;
+      u = -23.74 * s1 + 2.68 * s2 - 0.38 * s3;
+      break;
+    case 'MM':
+      f = 1 - 0.13 * c1;
+      break;
+    case 'none':
+      break;
+  }
+
+  const power = def.nodalPower ?? 1;
+  return { f: f ** power, u: u * power };
+}
@@ -0,0 +1,349 @@
+/**
+ * Harmonic tide prediction
+ *
+ * Predicts continuous tide heights and high/low extremes from a station's
+ * harmonic constituents, so tides work offline for weeks without calling
+ * WorldTides/Stormglass. Constituents come either from a bundled station
+ * file (`parseHarmonicStations`) or are fitted once from cached API extremes
+ * (`fitHarmonicStation`).
+ *
+ *   h(t) = Z0 + Σ f·H·cos(V(t) + u − g)
+ */
+
+import {
+  astronomicalArguments,
+  constituentSpeed,
+  equilibriumArgument,
+  isKnownConstituent,
+  nodalCorrection,
+} from './harmonicConstituents';
+import { calculateTidePhase, type TideExtreme, type TidePhase } from './calculateTidePhase';
+
+const DEG = Math.PI / 180;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface HarmonicConstituent {
+  /** Constituent name, e.g. 'M2' */
+  name: string;
+  /** Amplitude in metres */
+  amplitude: number;
+  /** Greenwich phase lag in degrees (UTC) */
+  phase: number;
+}
+
+export interface HarmonicStation {
+  id: string;
+  name?: string;
+  lat?: number;
+  lon?: number;
+  /** Mean water level above the prediction datum (Z0), metres */
+  datumOffset: number;
+  constituents: HarmonicConstituent[];
+  source?: 'bundled' | 'fitted';
+  /** When fitted, the ISO time of the fit */
+  fittedAt?: string;
+}
+
+export interface TideCurvePoint {
+  time: string;
+  height: number;
+}
+
+export interface FitOptions {
+  id?: string;
+  name?: string;
+  lat?: number;
+  lon?: number;
+  /** Constituents to solve for; defaults to what the data span can resolve */
+  constituents?: string[];
+}
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+function harmonicTerms(station: HarmonicStation, date: Date) {
+  const args = astronomicalArguments(date);
+  return station.constituents.map(c => {
+    const { f, u } = nodalCorrection(c.name, args);
+    const angle = (equilibriumArgument(c.name, args) + u - c.phase) * DEG;
+    return { c, f, angle, omega: constituentSpeed(c.name) * DEG };
+  });
+}
+
+/**
+ * Tide height (metres above datum) at an instant
+ */
+export function predictTideHeight(station: HarmonicStation, date: Date): number {
+  return harmonicTerms(station, date)
+    .reduce((sum, { c, f, angle }) => sum + f * c.amplitude * Math.cos(angle), station.datumOffset);
+}
+
+/** Rate of change in metres per hour */
+function tideRate(station: HarmonicStation, date: Date): number {
+  return harmonicTerms(station, date)
+    .reduce((sum, { c, f, angle, omega }) => sum - f * c.amplitude * omega * Math.sin(angle), 0);
+}
+
+/**
+ * Sampled height curve between two instants
+ */
+export function predictTideCurve(
+  station: HarmonicStation,
+  start: Date,
+  end: Date,
+  stepMinutes = 15
+): TideCurvePoint[] {
+  const points: TideCurvePoint[] = [];
+  const stepMs = stepMinutes * 60 * 1000;
+  for (let t = start.getTime(); t <= end.getTime(); t += stepMs) {
+    const date = new Date(t);
+    points.push({ time: date.toISOString(), height: round3(predictTideHeight(station, date)) });
+  }
+  return points;
+}
+
+/**
+ * High and low water times between two instants.
+ * Scans the rate of change every 10 minutes and refines each turning point
+ * by bisection to within 30 seconds.
+ */
+export function predictTideExtremes(station: HarmonicStation, start: Date, end: Date): TideExtreme[] {
+  const stepMs = 10 * 60 * 1000;
+  const extremes: TideExtreme[] = [];
+
+  let prevT = start.getTime();
+  let prevRate = tideRate(station, start);
+
+  for (let t = prevT + stepMs; t <= end.getTime(); t += stepMs) {
+    const rate = tideRate(station, new Date(t));
+    if (prevRate === 0 || Math.sign(rate) !== Math.sign(prevRate)) {
+      let lo = prevT;
+      let hi = t;
+      let loRate = prevRate;
+      while (hi - lo > 30 * 1000) {
+        const mid = (lo + hi) / 2;
+        const midRate = tideRate(station, new Date(mid));
+        if (Math.sign(midRate) === Math.sign(loRate)) {
+          lo = mid;
+          loRate = midRate;
+        } else {
+          hi = mid;
+        }
+      }
+      const when = new Date(Math.round((lo + hi) / 2 / 60000) * 60000);
+      extremes.push({
+        time: when.toISOString(),
+        height: round3(predictTideHeight(station, when)),
+        // Rising before the turning point means high water
+        type: prevRate > 0 ? 'high' : 'low',
+      });
+    }
+    prevT = t;
+    prevRate = rate;
+  }
+
+  return extremes;
+}
+
+/**
+ * Tide phase from harmonic predictions, with the current height taken from
+ * the continuous curve rather than linear interpolation between extremes.
+ */
+export function calculateTidePhaseFromStation(station: HarmonicStation, now: Date = new Date()): TidePhase | null {
+  const extremes = predictTideExtremes(
+    station,
+    new Date(now.getTime() - 14 * HOUR_MS),
+    new Date(now.getTime() + 14 * HOUR_MS)
+  );
+  const phase = calculateTidePhase(extremes, now);
+  if (!phase) return null;
+  return { ...phase, currentHeight: Math.round(predictTideHeight(station, now) * 100) / 100 };
+}
+
+// ============================================================================
+// FITTING
+// ============================================================================
+
+/**
+ * Constituents that can be separated (Rayleigh criterion) over a data span
+ */
+export function constituentsForSpan(spanDays: number): string[] {
+  const set = ['M2', 'K1'];
+  if (spanDays >= 2) set.push('M4');
+  if (spanDays >= 14) set.push('S2', 'O1', 'MS4');
+  if (spanDays >= 28) set.push('N2', 'Q1');
+  if (spanDays >= 183) set.push('K2', 'P1');
+  return set;
+}
+
+/** Solve A·x = b (square) by Gaussian elimination with partial pivoting */
+function solveLinear(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-12) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    for (let r = col + 1; r < n; r++) {
+      const factor = M[r][col] / M[col][col];
+      for (let k = col; k <= n; k++) M[r][k] -= factor * M[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n];
+    for (let k = r + 1; k < n; k++) sum -= M[r][k] * x[k];
+    x[r] = sum / M[r][r];
+  }
+  return x;
+}
+
+/**
+ * Fit harmonic constituents to a list of observed/cached high and low waters.
+ *
+ * Each extreme contributes its height, plus the constraint that the rate of
+ * change is zero at that time. A couple of weeks of extremes gives a usable
+ * M2/S2/K1/O1 set; a month or more adds N2 and Q1.
+ *
+ * @returns null if there are too few extremes to solve the system
+ */
+export function fitHarmonicStation(extremes: TideExtreme[], options: FitOptions = {}): HarmonicStation | null {
+  const points = extremes
+    .map(e => ({ t: Date.parse(e.time), height: e.height }))
+    .filter(p => Number.isFinite(p.t) && Number.isFinite(p.height))
+    .sort((a, b) => a.t - b.t);
+  if (points.length < 4) return null;
+
+  const spanDays = (points[points.length - 1].t - points[0].t) / (24 * HOUR_MS);
+  const names = (options.constituents ?? constituentsForSpan(spanDays)).filter(isKnownConstituent);
+  const unknowns = 1 + 2 * names.length;
+  if (points.length * 2 < unknowns) return null;
+
+  // Normal equations: (AᵀA) x = Aᵀb
+  const AtA = Array.from({ length: unknowns }, () => new Array<number>(unknowns).fill(0));
+  const Atb = new Array<number>(unknowns).fill(0);
+  const addRow = (row: number[], value: number, weight: number) => {
+    for (let i = 0; i < unknowns; i++) {
+      Atb[i] += weight * row[i] * value;
+      for (let j = 0; j < unknowns; j++) AtA[i][j] += weight * row[i] * row[j];
+    }
+  };
+
+  for (const { t, height } of points) {
+    const args = astronomicalArguments(new Date(t));
+    const heightRow = [1];
+    const rateRow = [0];
+    for (const name of names) {
+      const { f, u } = nodalCorrection(name, args);
+      const angle = (equilibriumArgument(name, args) + u) * DEG;
+      const omega = constituentSpeed(name) * DEG;
+      // H·cos(angle − g) = a·cos(angle) + b·sin(angle), with a = H·cos g, b = H·sin g
+      heightRow.push(f * Math.cos(angle), f * Math.sin(angle));
+      rateRow.push(-f * omega * Math.sin(angle), f * omega * Math.cos(angle));
+    }
+    addRow(heightRow, height, 1);
+    // Rate is in m/h; weight it so a 1 m/h error counts like a 0.5 m height error
+    addRow(rateRow, 0, 0.25);
+  }
+
+  // Light ridge keeps near-degenerate pairs solvable
+  for (let i = 1; i < unknowns; i++) AtA[i][i] += 1e-6;
+
+  const solution = solveLinear(AtA, Atb);
+  if (!solution) return null;
+
+  const constituents: HarmonicConstituent[] = names.map((name, i) => {
+    const a = solution[1 + 2 * i];
+    const b = solution[2 + 2 * i];
+    return {
+      name,
+      amplitude: round3(Math.sqrt(a * a + b * b)),
+      phase: Math.round((((Math.atan2(b, a) / DEG) % 360) + 360) % 360 * 10) / 10,
+    };
+  });
+
+  return {
+    id: options.id ?? 'fitted',
+    name: options.name,
+    lat: options.lat,
+    lon: options.lon,
+    datumOffset: round3(solution[0]),
+    constituents,
+    source: 'fitted',
+    fittedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// STATION FILES
+// ============================================================================
+
+/**
+ * Validate a bundled station file (array of stations, or `{ stations: [...] }`).
+ * Unknown constituents are dropped with a warning; invalid stations are skipped.
+ */
+export function parseHarmonicStations(json: unknown): HarmonicStation[] {
+  const list = Array.isArray(json)
+    ? json
+    : json && typeof json === 'object' && Array.isArray((json as { stations?: unknown }).stations)
+      ? (json as { stations: unknown[] }).stations
+      : [];
+
+  const stations: HarmonicStation[] = [];
+  for (const raw of list) {
+    if (!raw || typeof raw !== 'object') continue;
+    const s = raw as Record<string, unknown>;
+    if (typeof s.id !== 'string' || !Array.isArray(s.constituents)) continue;
+
+    const constituents: HarmonicConstituent[] = [];
+    for (const c of s.constituents as Array<Record<string, unknown>>) {
+      if (typeof c?.name !== 'string' || typeof c.amplitude !== 'number' || typeof c.phase !== 'number') continue;
+      if (!isKnownConstituent(c.name)) {
+        console.warn(`[harmonicPredictor] Station ${s.id}: unsupported constituent ${c.name} ignored`);
+        continue;
+      }
+      constituents.push({ name: c.name, amplitude: c.amplitude, phase: c.phase });
+    }
+    if (constituents.length === 0) continue;
+
+    stations.push({
+      id: s.id,
+      name: typeof s.name === 'string' ? s.name : undefined,
+      lat: typeof s.lat === 'number' ? s.lat : undefined,
+      lon: typeof s.lon === 'number' ? s.lon : undefined,
+      datumOffset: typeof s.datumOffset === 'number' ? s.datumOffset : 0,
+      constituents,
+      source: 'bundled',
+    });
+  }
+  return stations;
+}
+
+const haversineKm = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const dLat = (lat2 - lat1) * DEG;
+  const dLon = (lon2 - lon1) * DEG;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * DEG) * Math.cos(lat2 * DEG) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Nearest station with coordinates within `maxDistanceKm`
+ */
+export function findNearestHarmonicStation(
+  stations: HarmonicStation[],
+  lat: number,
+  lon: number,
+  maxDistanceKm = 50
+): { station: HarmonicStation; distanceKm: number } | null {
+  let best: { station: HarmonicStation; distanceKm: number } | null = null;
+  for (const station of stations) {
+    if (station.lat == null || station.lon == null) continue;
+    const distanceKm = haversineKm(lat, lon, station.lat, station.lon);
+    if (distanceKm <= maxDistanceKm && (!best || distanceKm < best.distanceKm)) {
+      best = { station, distanceKm };
+    }
+  }
+  return best;
+}
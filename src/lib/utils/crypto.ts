@@ -1,15 +1,60 @@
 // Cryptographic utilities for signing and verifying share tokens
-import { createHmac } from 'crypto';
+import { createHmac, timingSafeEqual } from 'crypto';
 
-const SECRET_KEY = process.env.SHARE_TOKEN_SECRET || 'dev-secret-key-change-in-production';
+const DEFAULT_KEY_ID = 'default';
 
-export async function signData(data: string): Promise<string> {
-  const hmac = createHmac('sha256', SECRET_KEY);
+interface SigningKey {
+  id: string;
+  secret: string;
+}
+
+/**
+ * Signing keys, newest first.
+ *
+ * SHARE_TOKEN_KEYS="2025b:new-secret,2025a:old-secret" enables rotation: the
+ * first key signs, every listed key still verifies. Without it the single
+ * SHARE_TOKEN_SECRET is used under the id "default".
+ */
+function getSigningKeys(): SigningKey[] {
+  const keyring = process.env.SHARE_TOKEN_KEYS;
+  if (keyring) {
+    const keys = keyring
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const separator = entry.indexOf(':');
+        return { id: entry.slice(0, separator), secret: entry.slice(separator + 1) };
+      })
+      .filter(key => key.id && key.secret);
+    if (keys.length > 0) return keys;
+  }
+  return [{ id: DEFAULT_KEY_ID, secret: process.env.SHARE_TOKEN_SECRET || 'dev-secret-key-change-in-production' }];
+}
+
+/**
+ * Id of the key new signatures are made with
+ */
+export function getActiveKeyId(): string {
+  return getSigningKeys()[0].id;
+}
+
+export async function signData(data: string, keyId?: string): Promise<string> {
+  const keys = getSigningKeys();
+  const key = keyId ? keys.find(k => k.id === keyId) : keys[0];
+  if (!key) {
+    throw new Error(`Unknown signing key: ${keyId}`);
+  }
+  const hmac = createHmac('sha256', key.secret);
   hmac.update(data);
   return hmac.digest('hex');
 }
 
-export async function verifySignature(data: string, signature: string): Promise<boolean> {
-  const expectedSignature = await signData(data);
-  return expectedSignature === signature;
+export async function verifySignature(data: string, signature: string, keyId?: string): Promise<boolean> {
+  if (keyId && !getSigningKeys().some(k => k.id === keyId)) {
+    return false;
+  }
+  const expected = Buffer.from(await signData(data, keyId), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
 }
@@ -0,0 +1,99 @@
+/**
+ * Tests for the air quality and pollen models
+ */
+
+import {
+  AirQualityLevel,
+  assessAirQualityConditions,
+  calculateEuropeanAqi,
+  calculateUsAqi,
+  dailyAirQualitySummaries,
+  normalizeAirQualityPayload,
+  withAqi,
+} from '../airQuality';
+import { assessPollenConditions, normalizeOpenMeteoPollen, pollenDailyPeaks, PollenLevel, toPollenSummary } from '../pollen';
+
+const OPEN_METEO = {
+  utc_offset_seconds: 7200,
+  hourly: {
+    time: ['2025-06-01T00:00', '2025-06-01T01:00', '2025-06-02T00:00'],
+    pm2_5: [5, 40, 8],
+    european_aqi: [10, null, 15],
+    grass_pollen: [10, 80, 3],
+    birch_pollen: [5, null, 0],
+    ragweed_pollen: [0, 0, 6],
+  },
+};
+
+describe('lib/weather/airQuality', () => {
+  it('computes US and European AQI from concentrations', () => {
+    expect(calculateUsAqi({ pm2_5: 35.4 })?.aqi).toBe(100);
+    expect(calculateUsAqi({ pm2_5: 12, o3: 100 })).toEqual({
+      aqi: 56,
+      dominantPollutant: 'pm2_5',
+      subIndices: { pm2_5: 56, o3: 46 },
+    });
+    expect(calculateUsAqi({ no2: 100 })?.aqi).toBe(50); // 53 ppb
+    expect(calculateEuropeanAqi({ pm2_5: 22.5, no2: 30 })?.aqi).toBe(50);
+    expect(calculateEuropeanAqi({ pm10: 300 })?.aqi).toBe(200);
+    expect(calculateUsAqi({})).toBeNull();
+  });
+
+  it('normalises both providers into one reading shape', () => {
+    const [openWeather] = withAqi(normalizeAirQualityPayload({
+      list: [{ dt: 1717243200, main: { aqi: 2 }, components: { co: 230, no2: 15, o3: 90, so2: 2, pm2_5: 12, pm10: 20 } }],
+    }));
+    expect(openWeather).toEqual({
+      time: '2024-06-01T12:00:00.000Z',
+      localDate: '2024-06-01',
+      pollutants: { pm2_5: 12, pm10: 20, no2: 15, o3: 90, so2: 2, co: 230 },
+      source: 'openweather',
+      europeanAqi: 36,
+      usAqi: 56,
+    });
+
+    const openMeteo = normalizeAirQualityPayload(OPEN_METEO);
+    expect(openMeteo[0].time).toBe('2025-05-31T22:00:00.000Z');
+    expect(openMeteo[0].localDate).toBe('2025-06-01');
+    expect(openMeteo[1].europeanAqi).toBeUndefined();
+    expect(dailyAirQualitySummaries(openMeteo)[0].summary).toEqual({ pm2_5: 40, overall: 76, europeanAqi: 50 });
+  });
+
+  it('warns earlier for people with asthma', () => {
+    const summary = { pm2_5: 20, o3: 110 };
+    const general = assessAirQualityConditions(summary);
+    const asthma = assessAirQualityConditions(summary, { asthma: true });
+
+    expect(general.overall).toBe(AirQualityLevel.MODERATE);
+    expect(general.usAqi).toBe(71);
+    expect(general.warnings).toEqual([]);
+    expect(asthma.warnings).toEqual([
+      'PM2.5 is elevated (AQI 71)',
+      'Ozone is elevated (AQI 54)',
+      'Asthma: carry your reliever inhaler and take it easier outdoors',
+    ]);
+    expect(assessAirQualityConditions({}).overall).toBe(AirQualityLevel.NONE);
+  });
+});
+
+describe('lib/weather/pollen', () => {
+  it('reduces hourly counts to per-type daily peaks', () => {
+    const [first, second] = pollenDailyPeaks(normalizeOpenMeteoPollen(OPEN_METEO));
+
+    expect(first.peaks.grass).toEqual({ grains: 80, level: PollenLevel.HIGH, time: '2025-05-31T23:00:00.000Z' });
+    expect(first.dominant).toBe('grass');
+    expect(second.overall).toBe(PollenLevel.MODERATE); // 6 ragweed grains outrank 3 grass
+    expect(second.dominant).toBe('ragweed');
+    expect(toPollenSummary(second)).toEqual({ grass: 3, birch: 0, tree: 0, ragweed: 6, weed: 6 });
+  });
+
+  it('tailors warnings to hay fever', () => {
+    const summary = { grass: 3, ragweed: 6, weed: 6 };
+
+    expect(assessPollenConditions(summary).warnings).toEqual([]);
+    const hayFever = assessPollenConditions(summary, { hayFever: true });
+    expect(hayFever.weed).toBe(PollenLevel.MODERATE);
+    expect(hayFever.warnings).toEqual(['Ragweed pollen is moderate']);
+    expect(assessPollenConditions({ tree: 600 }).tree).toBe(PollenLevel.VERY_HIGH); // banded as birch
+  });
+});
@@ -0,0 +1,398 @@
+/**
+ * Air quality model and assessment
+ *
+ * Normalises Open-Meteo (/v1/air-quality hourly) and OpenWeather
+ * (/data/2.5/air_pollution) payloads into one reading shape, computes the
+ * European and US AQI from pollutant concentrations when the provider does
+ * not, and turns a summary into a level with warnings and advice tuned for
+ * people with asthma.
+ *
+ * All concentrations are µg/m³ (both providers report CO in µg/m³ too).
+ */
+
+export enum AirQualityLevel {
+  NONE = 0,
+  GOOD = 1,
+  MODERATE = 2,
+  UNHEALTHY_SENSITIVE = 3,
+  UNHEALTHY = 4,
+  VERY_UNHEALTHY = 5,
+  HAZARDOUS = 6,
+}
+
+export type Pollutant = 'pm2_5' | 'pm10' | 'no2' | 'o3' | 'so2' | 'co';
+
+export type PollutantConcentrations = Partial<Record<Pollutant, number>>;
+
+export interface AirQualityReading {
+  /** ISO timestamp (UTC) */
+  time: string;
+  /** Calendar date at the location */
+  localDate: string;
+  pollutants: PollutantConcentrations;
+  europeanAqi?: number;
+  usAqi?: number;
+  source: 'open-meteo' | 'openweather';
+}
+
+/** Compact shape consumed by the warning components; `overall` is the US AQI */
+export interface AirQualitySummary extends PollutantConcentrations {
+  overall?: number;
+  europeanAqi?: number;
+}
+
+/** Health conditions that lower the thresholds for warnings */
+export interface HealthSensitivity {
+  asthma?: boolean;
+  hayFever?: boolean;
+}
+
+export interface AirQualityAssessment {
+  overall: AirQualityLevel;
+  usAqi?: number;
+  europeanAqi?: number;
+  /** Pollutant with the highest sub-index */
+  dominantPollutant?: Pollutant;
+  warnings: string[];
+  advice: string;
+}
+
+export interface AqiResult {
+  aqi: number;
+  dominantPollutant: Pollutant;
+  subIndices: Partial<Record<Pollutant, number>>;
+}
+
+const POLLUTANT_LABELS: Record<Pollutant, string> = {
+  pm2_5: 'PM2.5',
+  pm10: 'PM10',
+  no2: 'Nitrogen dioxide',
+  o3: 'Ozone',
+  so2: 'Sulphur dioxide',
+  co: 'Carbon monoxide',
+};
+
+// µg/m³ → ppb at 25 °C and 1 atm: ppb = µg/m³ × 24.45 / molar mass
+const MOLAR_MASS: Partial<Record<Pollutant, number>> = { no2: 46.01, o3: 48.0, so2: 64.07, co: 28.01 };
+const toPpb = (pollutant: Pollutant, ugm3: number) => (ugm3 * 24.45) / MOLAR_MASS[pollutant]!;
+
+// ---------------------------------------------------------------------------
+// European AQI (EEA bands as used by Open-Meteo: 0-20 good … 80-100 very poor, >100 extremely poor)
+// ---------------------------------------------------------------------------
+
+const EU_BREAKPOINTS: Partial<Record<Pollutant, number[]>> = {
+  pm2_5: [0, 10, 20, 25, 50, 75],
+  pm10: [0, 20, 40, 50, 100, 150],
+  no2: [0, 40, 90, 120, 230, 340],
+  o3: [0, 50, 100, 130, 240, 380],
+  so2: [0, 100, 200, 350, 500, 750],
+};
+
+function europeanSubIndex(pollutant: Pollutant, value: number): number | null {
+  const bands = EU_BREAKPOINTS[pollutant];
+  if (!bands) return null;
+  const top = bands[bands.length - 1];
+  // Extremely poor: keep scaling past 100 in proportion to the concentration
+  if (value >= top) return (100 * value) / top;
+  let i = 0;
+  while (value >= bands[i + 1]) i++;
+  return 20 * i + (20 * (value - bands[i])) / (bands[i + 1] - bands[i]);
+}
+
+// ---------------------------------------------------------------------------
+// US AQI (EPA, with the 2024 PM2.5 breakpoints)
+// ---------------------------------------------------------------------------
+
+const US_INDEX_BANDS = [[0, 50], [51, 100], [101, 150], [151, 200], [201, 300], [301, 500]];
+
+/** Concentration bands per pollutant (µg/m³ for PM, ppb for gases, ppm for CO) and the rounding EPA applies */
+const US_BREAKPOINTS: Record<Pollutant, { bands: number[][]; digits: number }> = {
+  pm2_5: { digits: 1, bands: [[0, 9.0], [9.1, 35.4], [35.5, 55.4], [55.5, 125.4], [125.5, 225.4], [225.5, 325.4]] },
+  pm10: { digits: 0, bands: [[0, 54], [55, 154], [155, 254], [255, 354], [355, 424], [425, 604]] },
+  o3: { digits: 0, bands: [[0, 54], [55, 70], [71, 85], [86, 105], [106, 200]] }, // 8-hour
+  no2: { digits: 0, bands: [[0, 53], [54, 100], [101, 360], [361, 649], [650, 1249], [1250, 2049]] },
+  so2: { digits: 0, bands: [[0, 35], [36, 75], [76, 185], [186, 304], [305, 604], [605, 1004]] },
+  co: { digits: 1, bands: [[0, 4.4], [4.5, 9.4], [9.5, 12.4], [12.5, 15.4], [15.5, 30.4], [30.5, 50.4]] },
+};
+
+// 1-hour ozone bands, used above the top of the 8-hour table
+const US_O3_1H_BANDS = [[125, 164], [165, 204], [205, 404], [405, 504], [505, 604]];
+
+function interpolateBand(value: number, bands: number[][], indexBands: number[][]): number {
+  const i = bands.findIndex(([, high]) => value <= high);
+  if (i === -1) return 500;
+  const [cLow, cHigh] = bands[i];
+  const [iLow, iHigh] = indexBands[i];
+  return Math.round(((iHigh - iLow) / (cHigh - cLow)) * (Math.max(value, cLow) - cLow) + iLow);
+}
+
+function usSubIndex(pollutant: Pollutant, ugm3: number): number {
+  const { bands, digits } = US_BREAKPOINTS[pollutant];
+  let value = pollutant === 'co' ? toPpb(pollutant, ugm3) / 1000 : pollutant in MOLAR_MASS ? toPpb(pollutant, ugm3) : ugm3;
+  value = Math.floor(value * 10 ** digits) / 10 ** digits; // EPA truncates, not rounds
+
+  if (pollutant === 'o3' && value > 200) return interpolateBand(value, US_O3_1H_BANDS, US_INDEX_BANDS.slice(1));
+  return interpolateBand(value, bands, US_INDEX_BANDS);
+}
+
+const POLLUTANTS = Object.keys(POLLUTANT_LABELS) as Pollutant[];
+
+function combine(concentrations: PollutantConcentrations, subIndex: (p: Pollutant, v: number) => number | null): AqiResult | null {
+  let result: AqiResult | null = null;
+  const subIndices: Partial<Record<Pollutant, number>> = {};
+  for (const pollutant of POLLUTANTS) {
+    const value = concentrations[pollutant];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) continue;
+    const index = subIndex(pollutant, value);
+    if (index === null) continue;
+    subIndices[pollutant] = Math.round(index);
+    if (!result || index > result.aqi) result = { aqi: Math.round(index), dominantPollutant: pollutant, subIndices };
+  }
+  return result;
+}
+
+/**
+ * European AQI from concentrations (PM should be 24-hour means, gases hourly)
+ */
+export function calculateEuropeanAqi(concentrations: PollutantConcentrations): AqiResult | null {
+  return combine(concentrations, europeanSubIndex);
+}
+
+/**
+ * US AQI from concentrations (PM as 24-hour means, O3 and CO as 8-hour means, NO2 and SO2 hourly)
+ */
+export function calculateUsAqi(concentrations: PollutantConcentrations): AqiResult | null {
+  return combine(concentrations, usSubIndex);
+}
+
+// ---------------------------------------------------------------------------
+// Provider normalisation
+// ---------------------------------------------------------------------------
+
+const num = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+function definedOnly(values: PollutantConcentrations): PollutantConcentrations {
+  return Object.fromEntries(Object.entries(values).filter(([, v]) => v !== undefined));
+}
+
+/**
+ * Parse Open-Meteo local times ("2025-06-01T14:00", shifted by utc_offset_seconds) to UTC ISO
+ */
+export function openMeteoTimeToISO(localTime: string, utcOffsetSeconds: number = 0): string {
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(localTime);
+  const ms = new Date(hasZone ? localTime : `${localTime}Z`).getTime();
+  return new Date(ms - (hasZone ? 0 : utcOffsetSeconds * 1000)).toISOString();
+}
+
+function localDateOf(timeISO: string, utcOffsetSeconds: number): string {
+  return new Date(new Date(timeISO).getTime() + utcOffsetSeconds * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Readings from an Open-Meteo air-quality payload
+ */
+export function normalizeOpenMeteoAirQuality(payload: unknown): AirQualityReading[] {
+  const data = payload as { hourly?: Record<string, unknown>; utc_offset_seconds?: number } | null;
+  const hourly = data?.hourly;
+  if (!hourly || !Array.isArray(hourly.time)) return [];
+  const offset = num(data?.utc_offset_seconds) ?? 0;
+  const column = (key: string, i: number) => (Array.isArray(hourly[key]) ? num((hourly[key] as unknown[])[i]) : undefined);
+
+  return (hourly.time as string[]).map((time, i) => {
+    const timeISO = openMeteoTimeToISO(time, offset);
+    return {
+      time: timeISO,
+      localDate: localDateOf(timeISO, offset),
+      pollutants: definedOnly({
+        pm2_5: column('pm2_5', i),
+        pm10: column('pm10', i),
+        no2: column('nitrogen_dioxide', i),
+        o3: column('ozone', i),
+        so2: column('sulphur_dioxide', i),
+        co: column('carbon_monoxide', i),
+      }),
+      europeanAqi: column('european_aqi', i),
+      usAqi: column('us_aqi', i),
+      source: 'open-meteo' as const,
+    };
+  });
+}
+
+/**
+ * Readings from an OpenWeather air_pollution (current or forecast) payload
+ *
+ * OpenWeather's own `main.aqi` is a 1-5 scale, so the European and US
+ * indices are always computed from the components.
+ */
+export function normalizeOpenWeatherAirQuality(payload: unknown, utcOffsetSeconds: number = 0): AirQualityReading[] {
+  const list = (payload as { list?: unknown[] } | null)?.list;
+  if (!Array.isArray(list)) return [];
+
+  return list.flatMap(entry => {
+    const item = entry as { dt?: unknown; components?: Record<string, unknown> };
+    const dt = num(item.dt);
+    if (dt === undefined) return [];
+    const c = item.components ?? {};
+    const time = new Date(dt * 1000).toISOString();
+    return [{
+      time,
+      localDate: localDateOf(time, utcOffsetSeconds),
+      pollutants: definedOnly({ pm2_5: num(c.pm2_5), pm10: num(c.pm10), no2: num(c.no2), o3: num(c.o3), so2: num(c.so2), co: num(c.co) }),
+      source: 'openweather' as const,
+    }];
+  });
+}
+
+/**
+ * Normalise either provider's payload, detected from its shape
+ */
+export function normalizeAirQualityPayload(payload: unknown, utcOffsetSeconds?: number): AirQualityReading[] {
+  if (payload && typeof payload === 'object' && 'list' in payload) {
+    return normalizeOpenWeatherAirQuality(payload, utcOffsetSeconds);
+  }
+  return normalizeOpenMeteoAirQuality(payload);
+}
+
+function trailingMean(readings: AirQualityReading[], index: number, pollutant: Pollutant, hours: number): number | undefined {
+  const end = new Date(readings[index].time).getTime();
+  const values = readings
+    .slice(0, index + 1)
+    .filter(r => end - new Date(r.time).getTime() < hours * 3600_000)
+    .map(r => r.pollutants[pollutant])
+    .filter((v): v is number => v !== undefined);
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+}
+
+/**
+ * Fill in European and US AQI where the provider did not supply them
+ *
+ * Uses the averaging periods each index is defined on (trailing 24-hour PM
+ * means, 8-hour O3/CO means for the US AQI) over whatever history the series
+ * holds; readings must be in time order.
+ */
+export function withAqi(readings: AirQualityReading[]): AirQualityReading[] {
+  return readings.map((reading, i) => {
+    if (reading.europeanAqi !== undefined && reading.usAqi !== undefined) return reading;
+    const pm = { pm2_5: trailingMean(readings, i, 'pm2_5', 24), pm10: trailingMean(readings, i, 'pm10', 24) };
+    const { no2, so2 } = reading.pollutants;
+
+    const europeanAqi = reading.europeanAqi ?? calculateEuropeanAqi(definedOnly({ ...pm, no2, o3: reading.pollutants.o3, so2 }))?.aqi;
+    const usAqi = reading.usAqi ?? calculateUsAqi(definedOnly({
+      ...pm,
+      no2,
+      so2,
+      o3: trailingMean(readings, i, 'o3', 8),
+      co: trailingMean(readings, i, 'co', 8),
+    }))?.aqi;
+    return { ...reading, europeanAqi, usAqi };
+  });
+}
+
+/**
+ * Worst hour of each local day, as a summary
+ */
+export function dailyAirQualitySummaries(readings: AirQualityReading[]): Array<{ date: string; summary: AirQualitySummary }> {
+  const max = (a: number | undefined, b: number | undefined) => (a === undefined ? b : b === undefined ? a : Math.max(a, b));
+  const days = new Map<string, AirQualitySummary>();
+  for (const reading of withAqi(readings)) {
+    const day = days.get(reading.localDate) ?? {};
+    for (const [pollutant, value] of Object.entries(reading.pollutants) as Array<[Pollutant, number]>) {
+      day[pollutant] = max(day[pollutant], value);
+    }
+    day.overall = max(day.overall, reading.usAqi);
+    day.europeanAqi = max(day.europeanAqi, reading.europeanAqi);
+    days.set(reading.localDate, day);
+  }
+  return Array.from(days, ([date, summary]) => ({ date, summary }));
+}
+
+// ---------------------------------------------------------------------------
+// Assessment
+// ---------------------------------------------------------------------------
+
+export function getAirQualityLevel(usAqi: number | undefined): AirQualityLevel {
+  if (usAqi === undefined || !Number.isFinite(usAqi)) return AirQualityLevel.NONE;
+  if (usAqi <= 50) return AirQualityLevel.GOOD;
+  if (usAqi <= 100) return AirQualityLevel.MODERATE;
+  if (usAqi <= 150) return AirQualityLevel.UNHEALTHY_SENSITIVE;
+  if (usAqi <= 200) return AirQualityLevel.UNHEALTHY;
+  if (usAqi <= 300) return AirQualityLevel.VERY_UNHEALTHY;
+  return AirQualityLevel.HAZARDOUS;
+}
+
+export function getAirQualityLevelDescription(level: AirQualityLevel): string {
+  switch (level) {
+    case AirQualityLevel.GOOD: return 'Good';
+    case AirQualityLevel.MODERATE: return 'Moderate';
+    case AirQualityLevel.UNHEALTHY_SENSITIVE: return 'Unhealthy for sensitive groups';
+    case AirQualityLevel.UNHEALTHY: return 'Unhealthy';
+    case AirQualityLevel.VERY_UNHEALTHY: return 'Very unhealthy';
+    case AirQualityLevel.HAZARDOUS: return 'Hazardous';
+    default: return 'No data';
+  }
+}
+
+/** AQI as displayed (whole number) */
+export function getAirQualityIndex(aqi: number): number {
+  return Math.round(aqi);
+}
+
+/** CO in µg/m³ → ppm (25 °C) */
+export function convertCOtoPPM(ugm3: number | null | undefined): number | undefined {
+  if (typeof ugm3 !== 'number' || !Number.isFinite(ugm3)) return undefined;
+  return Math.round((toPpb('co', ugm3) / 1000) * 100) / 100;
+}
+
+export function formatPollutantValue(value: number): string {
+  if (!Number.isFinite(value)) return '—';
+  return value < 10 ? value.toFixed(1) : String(Math.round(value));
+}
+
+const ADVICE: Record<AirQualityLevel, string> = {
+  [AirQualityLevel.NONE]: 'No air quality data available.',
+  [AirQualityLevel.GOOD]: 'Air is clean – a good day to be outdoors.',
+  [AirQualityLevel.MODERATE]: 'Air quality is acceptable; unusually sensitive people may want to ease off long, hard exercise.',
+  [AirQualityLevel.UNHEALTHY_SENSITIVE]: 'People with asthma, heart or lung conditions, older adults and children should cut back on strenuous outdoor activity.',
+  [AirQualityLevel.UNHEALTHY]: 'Everyone should reduce prolonged or heavy outdoor exertion.',
+  [AirQualityLevel.VERY_UNHEALTHY]: 'Avoid outdoor exertion; move activities indoors.',
+  [AirQualityLevel.HAZARDOUS]: 'Stay indoors with windows closed.',
+};
+
+/**
+ * Level, warnings and advice for a summary
+ *
+ * With `asthma` set, warnings start one level earlier (at Moderate) and the
+ * advice mentions reliever inhalers, since ozone, NO2 and SO2 trigger
+ * symptoms below the general-population thresholds.
+ */
+export function assessAirQualityConditions(
+  summary: AirQualitySummary,
+  sensitivity: HealthSensitivity = {}
+): AirQualityAssessment {
+  const computed = calculateUsAqi(summary);
+  const usAqi = summary.overall ?? computed?.aqi;
+  const overall = getAirQualityLevel(usAqi);
+  const europeanAqi = summary.europeanAqi ?? calculateEuropeanAqi(summary)?.aqi;
+
+  const warnThreshold = sensitivity.asthma ? 51 : 101;
+  const warnings: string[] = [];
+  if (computed) {
+    const elevated = (Object.entries(computed.subIndices) as Array<[Pollutant, number]>)
+      .filter(([, index]) => index >= warnThreshold)
+      .sort((a, b) => b[1] - a[1]);
+    for (const [pollutant, index] of elevated) {
+      warnings.push(`${POLLUTANT_LABELS[pollutant]} is elevated (AQI ${index})`);
+    }
+  }
+  if (sensitivity.asthma && overall >= AirQualityLevel.MODERATE) {
+    warnings.push('Asthma: carry your reliever inhaler and take it easier outdoors');
+  }
+
+  let advice = ADVICE[overall];
+  if (sensitivity.asthma && overall === AirQualityLevel.MODERATE) {
+    advice = 'Air quality may trigger asthma symptoms – keep your reliever inhaler with you and avoid busy roads.';
+  }
+
+  return { overall, usAqi, europeanAqi, dominantPollutant: computed?.dominantPollutant, warnings, advice };
+}
@@ -0,0 +1,256 @@
+/**
+ * Pollen model and assessment
+ *
+ * Open-Meteo's air-quality endpoint reports hourly grains/m³ for six taxa
+ * (OpenWeather has no pollen data). Readings are reduced to per-type daily
+ * peaks, banded into levels with taxon-specific thresholds (a birch count
+ * that is only moderate would be very high for ragweed), and assessed with
+ * advice for people with hay fever or asthma.
+ */
+
+import { openMeteoTimeToISO, type HealthSensitivity } from './airQuality';
+
+export enum PollenLevel {
+  NONE = 0,
+  LOW = 1,
+  MODERATE = 2,
+  HIGH = 3,
+  VERY_HIGH = 4,
+  EXTREME = 5,
+}
+
+export type PollenType = 'grass' | 'birch' | 'alder' | 'ragweed' | 'olive' | 'mugwort';
+export type PollenGroup = 'grass' | 'tree' | 'weed';
+
+export const POLLEN_TYPES: readonly PollenType[] = ['grass', 'birch', 'alder', 'ragweed', 'olive', 'mugwort'];
+
+export const POLLEN_GROUP: Record<PollenType, PollenGroup> = {
+  grass: 'grass',
+  birch: 'tree',
+  alder: 'tree',
+  olive: 'tree',
+  ragweed: 'weed',
+  mugwort: 'weed',
+};
+
+export interface PollenReading {
+  /** ISO timestamp (UTC) */
+  time: string;
+  /** Calendar date at the location */
+  localDate: string;
+  /** grains/m³ */
+  grains: Partial<Record<PollenType, number>>;
+}
+
+export interface PollenPeak {
+  grains: number;
+  level: PollenLevel;
+  /** Hour of the peak (ISO, UTC) */
+  time: string;
+}
+
+export interface PollenDay {
+  date: string;
+  peaks: Partial<Record<PollenType, PollenPeak>>;
+  overall: PollenLevel;
+  /** Type with the highest level (ties go to the higher count) */
+  dominant?: PollenType;
+}
+
+/**
+ * Daily peak grains/m³ per group, plus per type where known; the shape the
+ * warning components take
+ */
+export interface PollenSummary extends Partial<Record<PollenType, number>> {
+  tree?: number;
+  weed?: number;
+}
+
+export interface PollenAssessment {
+  overall: PollenLevel;
+  grass: PollenLevel;
+  tree: PollenLevel;
+  weed: PollenLevel;
+  /** Levels per type, where the summary has them */
+  types: Partial<Record<PollenType, PollenLevel>>;
+  warnings: string[];
+  advice: string;
+}
+
+/**
+ * Lower bounds (grains/m³) of LOW, MODERATE, HIGH, VERY_HIGH and EXTREME
+ *
+ * Approximates the bands used by European aeroallergen networks: tree
+ * pollen is produced in far larger amounts, while a few ragweed or mugwort
+ * grains are enough to cause symptoms.
+ */
+const THRESHOLDS: Record<PollenType, number[]> = {
+  grass: [1, 20, 50, 150, 500],
+  birch: [1, 10, 100, 500, 2000],
+  alder: [1, 10, 50, 250, 1000],
+  olive: [1, 20, 100, 400, 1500],
+  ragweed: [1, 5, 20, 100, 500],
+  mugwort: [1, 5, 20, 100, 500],
+};
+
+// Group totals without a per-type breakdown are banded like the group's main allergen
+const GROUP_THRESHOLD_TYPE: Record<PollenGroup, PollenType> = { grass: 'grass', tree: 'birch', weed: 'ragweed' };
+
+const TYPE_LABELS: Record<PollenType, string> = {
+  grass: 'Grass',
+  birch: 'Birch',
+  alder: 'Alder',
+  ragweed: 'Ragweed',
+  olive: 'Olive',
+  mugwort: 'Mugwort',
+};
+
+export function getPollenLevel(type: PollenType, grains: number | undefined): PollenLevel {
+  if (typeof grains !== 'number' || !Number.isFinite(grains)) return PollenLevel.NONE;
+  const thresholds = THRESHOLDS[type];
+  let level = PollenLevel.NONE;
+  thresholds.forEach((lower, i) => {
+    if (grains >= lower) level = (i + 1) as PollenLevel;
+  });
+  return level;
+}
+
+/** Pollen index (level number) for a count, banded as grass unless a type is given */
+export function getPollenIndex(grains: number, type: PollenType = 'grass'): number {
+  return getPollenLevel(type, grains);
+}
+
+export function getPollenLevelDescription(level: PollenLevel): string {
+  switch (level) {
+    case PollenLevel.LOW: return 'Low';
+    case PollenLevel.MODERATE: return 'Moderate';
+    case PollenLevel.HIGH: return 'High';
+    case PollenLevel.VERY_HIGH: return 'Very high';
+    case PollenLevel.EXTREME: return 'Extreme';
+    default: return 'None';
+  }
+}
+
+/**
+ * Readings from an Open-Meteo air-quality payload (the `*_pollen` hourly columns)
+ */
+export function normalizeOpenMeteoPollen(payload: unknown): PollenReading[] {
+  const data = payload as { hourly?: Record<string, unknown>; utc_offset_seconds?: number } | null;
+  const hourly = data?.hourly;
+  if (!hourly || !Array.isArray(hourly.time)) return [];
+  const offset = typeof data?.utc_offset_seconds === 'number' ? data.utc_offset_seconds : 0;
+
+  return (hourly.time as string[]).map((localTime, i) => {
+    const grains: Partial<Record<PollenType, number>> = {};
+    for (const type of POLLEN_TYPES) {
+      const value = (hourly[`${type}_pollen`] as unknown[] | undefined)?.[i];
+      if (typeof value === 'number' && Number.isFinite(value)) grains[type] = value;
+    }
+    const time = openMeteoTimeToISO(localTime, offset);
+    return {
+      time,
+      localDate: new Date(new Date(time).getTime() + offset * 1000).toISOString().slice(0, 10),
+      grains,
+    };
+  });
+}
+
+/**
+ * Per-type daily peaks and the overall level for each local day
+ */
+export function pollenDailyPeaks(readings: PollenReading[]): PollenDay[] {
+  const days = new Map<string, PollenDay>();
+  for (const reading of readings) {
+    const day = days.get(reading.localDate) ?? { date: reading.localDate, peaks: {}, overall: PollenLevel.NONE };
+    for (const [type, grains] of Object.entries(reading.grains) as Array<[PollenType, number]>) {
+      const current = day.peaks[type];
+      if (!current || grains > current.grains) {
+        day.peaks[type] = { grains, level: getPollenLevel(type, grains), time: reading.time };
+      }
+    }
+    days.set(reading.localDate, day);
+  }
+
+  return Array.from(days.values(), day => {
+    let dominant: PollenType | undefined;
+    for (const [type, peak] of Object.entries(day.peaks) as Array<[PollenType, PollenPeak]>) {
+      const best = dominant ? day.peaks[dominant]! : null;
+      if (peak.level > PollenLevel.NONE && (!best || peak.level > best.level || (peak.level === best.level && peak.grains > best.grains))) {
+        dominant = type;
+      }
+    }
+    return { ...day, overall: dominant ? day.peaks[dominant]!.level : PollenLevel.NONE, dominant };
+  });
+}
+
+/**
+ * Summary of a day's peaks for the warning components
+ */
+export function toPollenSummary(day: PollenDay): PollenSummary {
+  const summary: PollenSummary = {};
+  for (const [type, peak] of Object.entries(day.peaks) as Array<[PollenType, PollenPeak]>) {
+    summary[type] = peak.grains;
+    const group = POLLEN_GROUP[type];
+    if (group !== 'grass') summary[group] = Math.max(summary[group] ?? 0, peak.grains);
+  }
+  return summary;
+}
+
+/**
+ * Levels, warnings and advice for a summary
+ *
+ * Without a sensitivity, warnings start at High. With hay fever they start
+ * at Moderate and name the taxa involved; with asthma, High pollen also
+ * carries a note about pollen-triggered asthma and thunderstorms.
+ */
+export function assessPollenConditions(summary: PollenSummary, sensitivity: HealthSensitivity = {}): PollenAssessment {
+  const types: Partial<Record<PollenType, PollenLevel>> = {};
+  const groups: Record<PollenGroup, PollenLevel> = { grass: PollenLevel.NONE, tree: PollenLevel.NONE, weed: PollenLevel.NONE };
+
+  for (const type of POLLEN_TYPES) {
+    if (summary[type] === undefined) continue;
+    const level = getPollenLevel(type, summary[type]);
+    types[type] = level;
+    groups[POLLEN_GROUP[type]] = Math.max(groups[POLLEN_GROUP[type]], level);
+  }
+  for (const group of ['tree', 'weed'] as const) {
+    const hasTypes = POLLEN_TYPES.some(type => POLLEN_GROUP[type] === group && types[type] !== undefined);
+    if (!hasTypes) groups[group] = getPollenLevel(GROUP_THRESHOLD_TYPE[group], summary[group]);
+  }
+
+  const overall = Math.max(groups.grass, groups.tree, groups.weed) as PollenLevel;
+  const sensitive = sensitivity.hayFever || sensitivity.asthma;
+  const warnFrom = sensitive ? PollenLevel.MODERATE : PollenLevel.HIGH;
+
+  const warnings: string[] = [];
+  const named = (Object.entries(types) as Array<[PollenType, PollenLevel]>)
+    .filter(([, level]) => level >= warnFrom)
+    .sort((a, b) => b[1] - a[1]);
+  if (named.length > 0) {
+    for (const [type, level] of named) {
+      warnings.push(`${TYPE_LABELS[type]} pollen is ${getPollenLevelDescription(level).toLowerCase()}`);
+    }
+  } else {
+    for (const group of ['grass', 'tree', 'weed'] as const) {
+      if (groups[group] >= warnFrom) {
+        warnings.push(`${group[0].toUpperCase()}${group.slice(1)} pollen is ${getPollenLevelDescription(groups[group]).toLowerCase()}`);
+      }
+    }
+  }
+  if (sensitivity.asthma && overall >= PollenLevel.HIGH) {
+    warnings.push('Asthma: high pollen can trigger attacks, especially around thunderstorms – keep your inhaler with you');
+  }
+
+  let advice: string;
+  if (overall === PollenLevel.NONE) advice = 'No pollen expected.';
+  else if (overall < warnFrom) advice = 'Pollen is low – unlikely to cause problems.';
+  else if (sensitive) {
+    advice = overall >= PollenLevel.VERY_HIGH
+      ? 'Take antihistamines before going out, keep windows closed and shower and change after being outdoors.'
+      : 'Take your antihistamine early, wear wraparound sunglasses and keep windows closed during the morning and evening peaks.';
+  } else {
+    advice = 'High pollen – hay fever sufferers will notice symptoms.';
+  }
+
+  return { overall, ...groups, types, warnings, advice };
+}
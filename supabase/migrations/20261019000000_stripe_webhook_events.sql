@@ -0,0 +1,27 @@
+-- Stripe webhook idempotency and ordering
+--
+-- stripe_webhook_events: one row per delivered event id. The primary key makes
+-- claiming an event atomic; a 'processing' row whose claimed_at is older than
+-- the lease (DEFAULT_EVENT_LEASE_MS) was left by a run that died and may be
+-- taken over.
+-- profiles.stripe_synced_at: created time of the last Stripe event applied to
+-- the row, so an older event delivered late cannot overwrite a newer one.
+
+create table if not exists public.stripe_webhook_events (
+  id text primary key,
+  type text not null,
+  event_created timestamptz not null,
+  status text not null default 'processing' check (status in ('processing', 'processed')),
+  claimed_at timestamptz not null default now(),
+  processed_at timestamptz
+);
+
+create index if not exists stripe_webhook_events_processing_idx
+  on public.stripe_webhook_events (claimed_at)
+  where status = 'processing';
+
+-- Written only by the webhook with the service role key
+alter table public.stripe_webhook_events enable row level security;
+
+alter table public.profiles
+  add column if not exists stripe_synced_at timestamptz;
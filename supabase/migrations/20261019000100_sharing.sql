@@ -0,0 +1,111 @@
+-- Invites, group polls, votes and share tokens (see src/lib/db/supabaseSharingStore.ts)
+--
+-- Vote counts are never stored: tallies are rebuilt from share_votes on read,
+-- and unique (poll_id, device_fingerprint) keeps one vote per device.
+-- All tables are read and written by the server with the service role key.
+
+create table if not exists public.share_invites (
+  id text primary key,
+  user_id text not null,
+  activity_id text not null,
+  activity_name text not null,
+  place_id text,
+  place_name text,
+  place_address text,
+  place_lat_lng jsonb,
+  start_time timestamptz not null,
+  end_time timestamptz not null,
+  short_url text not null,
+  long_url text not null,
+  message_template text not null,
+  tone_hint text not null check (tone_hint in ('dm', 'group')),
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  analytics jsonb not null default '{}'::jsonb
+);
+
+create index if not exists share_invites_expires_at_idx on public.share_invites (expires_at);
+
+create table if not exists public.share_polls (
+  id text primary key,
+  user_id text not null,
+  activity_id text not null,
+  activity_name text not null,
+  start_time timestamptz not null,
+  closes_at timestamptz not null,
+  candidates jsonb not null,
+  short_url text not null,
+  long_url text not null,
+  tone_hint text not null check (tone_hint in ('dm', 'group')),
+  status text not null default 'active' check (status in ('active', 'closed', 'expired')),
+  winner_id text,
+  created_at timestamptz not null default now(),
+  analytics jsonb not null default '{}'::jsonb
+);
+
+create index if not exists share_polls_due_idx on public.share_polls (closes_at) where status = 'active';
+
+create table if not exists public.share_votes (
+  id text primary key,
+  poll_id text not null references public.share_polls (id) on delete cascade,
+  place_id text not null,
+  device_fingerprint text not null,
+  eta_minutes int,
+  accessibility_needed boolean,
+  voted_at timestamptz not null default now(),
+  ip_address text not null,
+  unique (poll_id, device_fingerprint)
+);
+
+create table if not exists public.share_tokens (
+  id text primary key,
+  invite_id text,
+  poll_id text,
+  sharer_id text not null,
+  recipient_hint text,
+  issued_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  signature text not null,
+  used boolean not null default false
+);
+
+create index if not exists share_tokens_expires_at_idx on public.share_tokens (expires_at);
+
+create table if not exists public.share_token_revocations (
+  token_id text primary key,
+  expires_at timestamptz not null,
+  revoked_at timestamptz not null default now()
+);
+
+alter table public.share_invites enable row level security;
+alter table public.share_polls enable row level security;
+alter table public.share_votes enable row level security;
+alter table public.share_tokens enable row level security;
+alter table public.share_token_revocations enable row level security;
+
+-- Record a vote atomically: lock the poll row, check it is active, not past
+-- closes_at and that the place is one of its candidates, then insert.
+-- Returns 'recorded', 'duplicate', 'closed', 'invalid_candidate' or 'not_found'.
+create or replace function public.cast_share_vote(p_vote jsonb) returns text
+language plpgsql as $$
+declare
+  v_candidates jsonb;
+begin
+  select candidates into v_candidates from public.share_polls
+    where id = p_vote->>'poll_id' and status = 'active'
+      and closes_at > (p_vote->>'voted_at')::timestamptz
+    for share;
+  if not found then
+    return case when exists (select 1 from public.share_polls where id = p_vote->>'poll_id')
+      then 'closed' else 'not_found' end;
+  end if;
+  if not v_candidates @> jsonb_build_array(jsonb_build_object('placeId', p_vote->>'place_id')) then
+    return 'invalid_candidate';
+  end if;
+  insert into public.share_votes select * from jsonb_populate_record(null::public.share_votes, p_vote);
+  return 'recorded';
+exception when unique_violation then
+  return 'duplicate';
+end $$;
+
+revoke all on function public.cast_share_vote(jsonb) from public, anon, authenticated;